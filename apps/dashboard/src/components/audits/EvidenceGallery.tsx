@@ -29,6 +29,16 @@ function getEvidenceIcon(type: EvidenceItem["type"]): LucideIcon {
   }
 }
 
+/**
+ * Whether the evidence file is an image the browser can show inline
+ *
+ * Slow-load recordings are animated GIFs and load reports are PNGs,
+ * so the file extension decides rather than the evidence type.
+ */
+function isImageEvidence(item: EvidenceItem): boolean {
+  return /\.(png|jpe?g|gif|webp)(\?|$)/i.test(item.url);
+}
+
 /**
  * Evidence thumbnail card
  */
@@ -42,7 +52,7 @@ function EvidenceThumbnail({
   onClick,
 }: EvidenceThumbnailProps): React.ReactElement {
   const Icon = getEvidenceIcon(item.type);
-  const isMedia = item.type === "screenshot" || item.type === "video";
+  const isMedia = item.type === "screenshot" || isImageEvidence(item);
 
   return (
     <button
@@ -200,7 +210,13 @@ function EvidenceModal({
 
                   {/* Media content */}
                   <div className="flex items-center justify-center min-h-[400px] max-h-[70vh] p-4">
-                    {item.type === "video" ? (
+                    {item.type === "screenshot" || isImageEvidence(item) ? (
+                      <img
+                        src={item.url}
+                        alt={item.description ?? `${item.type} evidence`}
+                        className="max-w-full max-h-full object-contain rounded"
+                      />
+                    ) : item.type === "video" ? (
                       <video
                         src={item.url}
                         controls
@@ -209,12 +225,6 @@ function EvidenceModal({
                       >
                         Your browser does not support the video tag.
                       </video>
-                    ) : item.type === "screenshot" ? (
-                      <img
-                        src={item.url}
-                        alt={item.description ?? "Screenshot evidence"}
-                        className="max-w-full max-h-full object-contain rounded"
-                      />
                     ) : (
                       <div className="flex flex-col items-center gap-4 text-gray-500">
                         <FileText className="w-16 h-16" />
@@ -246,7 +256,7 @@ function EvidenceModal({
                               : "opacity-60 hover:opacity-100"
                           }`}
                         >
-                          {thumb.type === "screenshot" || thumb.type === "video" ? (
+                          {thumb.type === "screenshot" || isImageEvidence(thumb) ? (
                             <img
                               src={thumb.url}
                               alt=""
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Search, MapPin, Globe, Phone, Star, AlertCircle, CheckCircle2 } from "lucide-react";
 
 interface DiscoveredBusiness {
@@ -11,40 +11,111 @@ interface DiscoveredBusiness {
   businessCategory?: string;
 }
 
-interface DiscoveryResponse {
-  success: boolean;
-  leads: DiscoveredBusiness[];
+interface DiscoverySession {
+  id: string;
+  status: "pending" | "running" | "completed" | "failed" | "cancelled";
+  progress?: {
+    stage: string;
+    message: string;
+    percentage: number;
+  };
   stats: {
     found: number;
     extracted: number;
     qualified: number;
-    returned: number;
+    saved: number;
+    duplicates: number;
   };
   error?: string;
 }
 
+interface DiscoveryResponse {
+  success?: boolean;
+  session?: DiscoverySession;
+  leads?: DiscoveredBusiness[];
+  error?: string;
+}
+
 const API_URL = import.meta.env.VITE_DISCOVERY_API_URL || "http://localhost:3001";
 
+const POLL_INTERVAL_MS = 2000;
+
+const TERMINAL_STATUSES: DiscoverySession["status"][] = ["completed", "failed", "cancelled"];
+
 export function Discovery(): JSX.Element {
   const [query, setQuery] = useState("");
   const [location, setLocation] = useState("");
   const [maxResults, setMaxResults] = useState(20);
   const [isSearching, setIsSearching] = useState(false);
   const [results, setResults] = useState<DiscoveredBusiness[]>([]);
-  const [stats, setStats] = useState<DiscoveryResponse["stats"] | null>(null);
+  const [session, setSession] = useState<DiscoverySession | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Stop polling when leaving the page; the session keeps running on the server
+  useEffect(() => {
+    return () => {
+      if (pollTimer.current) clearTimeout(pollTimer.current);
+    };
+  }, []);
+
+  const pollSession = async (sessionId: string): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/discover/${sessionId}`);
+      const data: DiscoveryResponse = await response.json();
+
+      if (!response.ok || !data.session) {
+        throw new Error(data.error || "Failed to load discovery session");
+      }
+
+      setSession(data.session);
+      setResults(data.leads ?? []);
+
+      if (TERMINAL_STATUSES.includes(data.session.status)) {
+        if (data.session.status === "failed") {
+          setError(data.session.error || "Discovery failed");
+        }
+        setIsSearching(false);
+        return;
+      }
+    } catch (err) {
+      // Keep polling through hiccups; the session keeps running on the server
+      console.error("Failed to poll discovery session:", err);
+    }
+
+    pollTimer.current = setTimeout(() => void pollSession(sessionId), POLL_INTERVAL_MS);
+  };
+
+  const startSession = async (request: () => Promise<Response>): Promise<void> => {
+    if (pollTimer.current) clearTimeout(pollTimer.current);
+    setIsSearching(true);
+    setError(null);
+
+    try {
+      const response = await request();
+      const data: DiscoveryResponse = await response.json();
+
+      if (!response.ok || !data.session) {
+        throw new Error(data.error || "Discovery failed");
+      }
+
+      setSession(data.session);
+      await pollSession(data.session.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to search. Make sure the discovery server is running.");
+      setIsSearching(false);
+    }
+  };
 
   const handleSearch = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault();
     if (!query || !location) return;
 
-    setIsSearching(true);
-    setError(null);
     setResults([]);
-    setStats(null);
+    setSession(null);
 
-    try {
-      const response = await fetch(`${API_URL}/api/discover`, {
+    await startSession(() =>
+      fetch(`${API_URL}/api/discover`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -54,23 +125,28 @@ export function Discovery(): JSX.Element {
           location,
           maxResults,
         }),
-      });
-
-      const data: DiscoveryResponse = await response.json();
+      })
+    );
+  };
 
-      if (!response.ok || !data.success) {
-        throw new Error(data.error || "Discovery failed");
-      }
+  const handleResume = async (): Promise<void> => {
+    if (!session) return;
+    await startSession(() =>
+      fetch(`${API_URL}/api/discover/${session.id}/resume`, { method: "POST" })
+    );
+  };
 
-      setResults(data.leads);
-      setStats(data.stats);
+  const handleCancel = async (): Promise<void> => {
+    if (!session) return;
+    try {
+      await fetch(`${API_URL}/api/discover/${session.id}/cancel`, { method: "POST" });
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to search. Make sure the discovery server is running.");
-    } finally {
-      setIsSearching(false);
+      setError(err instanceof Error ? err.message : "Failed to cancel discovery");
     }
   };
 
+  const stats = session?.status === "completed" ? session.stats : null;
+
   return (
     <div className="space-y-6">
       <h1>Lead Discovery</h1>
@@ -148,6 +224,38 @@ export function Discovery(): JSX.Element {
         </form>
       </div>
 
+      {/* Progress */}
+      {session && isSearching && (
+        <div className="card">
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-gray-700">
+              {session.progress?.message ?? "Waiting for the discovery server..."}
+            </span>
+            <button type="button" onClick={() => void handleCancel()} className="text-red-600 hover:underline">
+              Cancel
+            </button>
+          </div>
+          <div className="w-full bg-gray-100 rounded h-2">
+            <div
+              className="bg-blue-600 h-2 rounded transition-all"
+              style={{ width: `${session.progress?.percentage ?? 0}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {session.stats.saved} leads saved so far. You can leave this page; discovery keeps running.
+          </p>
+        </div>
+      )}
+
+      {/* Interrupted session */}
+      {session && !isSearching && (session.status === "failed" || session.status === "cancelled") && (
+        <div className="flex justify-end">
+          <button type="button" onClick={() => void handleResume()} className="btn-primary">
+            Resume Discovery
+          </button>
+        </div>
+      )}
+
       {/* Error message */}
       {error && (
         <div className="card bg-red-50 border-red-200">
@@ -168,7 +276,7 @@ export function Discovery(): JSX.Element {
             <CheckCircle2 className="w-5 h-5" />
             <span className="font-medium">Search Complete</span>
           </div>
-          <div className="grid grid-cols-4 gap-4 text-sm">
+          <div className="grid grid-cols-5 gap-4 text-sm">
             <div>
               <span className="text-gray-600">Found:</span>{" "}
               <span className="font-medium">{stats.found}</span>
@@ -182,8 +290,12 @@ export function Discovery(): JSX.Element {
               <span className="font-medium">{stats.qualified}</span>
             </div>
             <div>
-              <span className="text-gray-600">Returned:</span>{" "}
-              <span className="font-medium text-green-700">{stats.returned}</span>
+              <span className="text-gray-600">Duplicates:</span>{" "}
+              <span className="font-medium">{stats.duplicates}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Saved:</span>{" "}
+              <span className="font-medium text-green-700">{stats.saved}</span>
             </div>
           </div>
         </div>
@@ -259,7 +371,7 @@ export function Discovery(): JSX.Element {
             <li>1. Enter a business type and location to search</li>
             <li>2. We scrape Google Maps using Puppeteer with stealth mode</li>
             <li>3. Businesses are filtered and qualified automatically</li>
-            <li>4. Qualified leads are displayed here for review</li>
+            <li>4. Qualified leads are saved as they are found and displayed here for review</li>
           </ul>
           <div className="mt-4 pt-4 border-t border-blue-200">
             <p className="text-sm text-blue-700">
@@ -1,8 +1,25 @@
 import { randomUUID } from "node:crypto";
-import { ValidationError, AppError, ErrorCode } from "@the-closer/shared";
-import type { LeadProfile, CampaignConfig, EmailSequenceStep, ContactStatus } from "@the-closer/shared";
-import { MailgunClient } from "../mailgun/index.js";
+import {
+  ValidationError,
+  AppError,
+  EmailDeliveryError,
+  ErrorCode,
+  getVerifiedContactEmail,
+} from "@the-closer/shared";
+import type {
+  LeadProfile,
+  CampaignConfig,
+  EmailSequenceStep,
+  ContactStatus,
+  AuditResult,
+  SequenceVariant,
+} from "@the-closer/shared";
+import type { AvailabilitySlot } from "../calendar-integration/index.js";
+import type { SentEvent, VariantMetrics } from "../delivery-tracker/index.js";
+import { formatMailbox } from "../mailgun/index.js";
+import type { EmailQueueEvent, ResilientEmailQueue } from "../resilient-email/index.js";
 import { TemplateEngine, type EmailContext } from "../template-engine/index.js";
+import type { MailTransport } from "../transport/index.js";
 import {
   type CampaignManagerConfig,
   type CampaignExecutionResult,
@@ -13,11 +30,14 @@ import {
   type ScheduledEmailProcessingResult,
   type CampaignCreationResult,
   type SendConditionResult,
+  type QueuedCampaignSend,
   CampaignManagerConfigSchema,
+  QueuedCampaignSendSchema,
   getTodayDateString,
   calculateScheduledTime,
   isWithinSendWindow,
 } from "./types.js";
+import { assignVariant, selectWinner } from "./variants.js";
 
 /**
  * Lead Repository interface
@@ -86,6 +106,29 @@ export interface IEmailEventStorage {
   getEventsForLead(leadId: string, campaignId?: string): Promise<Array<{ eventType: string; timestamp: Date }>>;
 }
 
+/**
+ * Audit Repository interface
+ */
+export interface IAuditRepository {
+  getLatestAudit(leadId: string): Promise<AuditResult | null>;
+}
+
+/**
+ * Calendar Integration interface for per-lead booking links
+ */
+export interface ICalendarIntegration {
+  getAvailability(days?: number): Promise<AvailabilitySlot[]>;
+  generateBookingLink(leadId: string, slots: AvailabilitySlot[], meetingTitle?: string): string;
+}
+
+/**
+ * Delivery Tracker interface for variant test bookkeeping
+ */
+export interface IDeliveryTracker {
+  recordSent(sent: Omit<SentEvent, "id" | "type" | "timestamp">): Promise<void>;
+  getVariantMetrics(campaignId: string, stepNumber?: number): Promise<VariantMetrics[]>;
+}
+
 /**
  * Campaign Manager
  *
@@ -94,20 +137,24 @@ export interface IEmailEventStorage {
  */
 export class CampaignManager {
   private readonly config: CampaignManagerConfig;
-  private readonly mailgunClient: MailgunClient;
+  private readonly transport: MailTransport;
   private readonly leadRepository: ILeadRepository;
   private readonly statusTracker: IStatusTracker;
   private readonly templateEngine: TemplateEngine;
   private readonly campaignRepository: ICampaignRepository | null;
   private readonly storage: IStorage | null;
   private readonly eventStorage: IEmailEventStorage | null;
+  private readonly emailQueue: ResilientEmailQueue | null;
+  private readonly auditRepository: IAuditRepository | null;
+  private readonly calendarIntegration: ICalendarIntegration | null;
+  private readonly deliveryTracker: IDeliveryTracker | null;
 
   // In-memory state cache (for when storage is unavailable)
   private readonly campaignStates = new Map<string, CampaignState>();
   private readonly scheduledEmails = new Map<string, ScheduledEmail>();
 
   constructor(
-    mailgunClient: MailgunClient,
+    transport: MailTransport,
     leadRepository: ILeadRepository,
     statusTracker: IStatusTracker,
     templateEngine: TemplateEngine,
@@ -115,6 +162,14 @@ export class CampaignManager {
       campaignRepository?: ICampaignRepository;
       storage?: IStorage;
       eventStorage?: IEmailEventStorage;
+      /** When set, sends go through the queue for retries and circuit breaking */
+      emailQueue?: ResilientEmailQueue;
+      /** Source of the audit findings referenced in templates */
+      auditRepository?: IAuditRepository;
+      /** When set, each email carries a signed booking link for its lead */
+      calendarIntegration?: ICalendarIntegration;
+      /** Records sends and supplies the results auto-winner selection runs on */
+      deliveryTracker?: IDeliveryTracker;
       config?: Partial<CampaignManagerConfig>;
     } = {}
   ) {
@@ -126,13 +181,20 @@ export class CampaignManager {
     }
 
     this.config = parseResult.data;
-    this.mailgunClient = mailgunClient;
+    this.transport = transport;
     this.leadRepository = leadRepository;
     this.statusTracker = statusTracker;
     this.templateEngine = templateEngine;
     this.campaignRepository = options.campaignRepository ?? null;
     this.storage = options.storage ?? null;
     this.eventStorage = options.eventStorage ?? null;
+    this.emailQueue = options.emailQueue ?? null;
+    this.auditRepository = options.auditRepository ?? null;
+    this.calendarIntegration = options.calendarIntegration ?? null;
+    this.deliveryTracker = options.deliveryTracker ?? null;
+
+    // Sends that wait for a retry are finished when the queue delivers them
+    this.emailQueue?.on((event) => this.handleQueueEvent(event));
   }
 
   // ============================================
@@ -152,9 +214,11 @@ export class CampaignManager {
       executedAt: new Date(),
       leadsProcessed: 0,
       emailsSent: 0,
+      emailsQueued: 0,
       emailsFailed: 0,
       followUpsScheduled: 0,
       successfulLeads: [],
+      queuedLeads: [],
       failedLeads: [],
       durationMs: 0,
     };
@@ -194,6 +258,10 @@ export class CampaignManager {
       return result;
     }
 
+    // Later template edits must not change what this campaign sends
+    campaign = await this.pinTemplateVersions(campaign);
+    campaign = await this.applyAutoWinners(campaign);
+
     // Get first step of sequence
     const firstStep = campaign.sequence.find((s) => s.stepNumber === 1);
     if (!firstStep) {
@@ -212,21 +280,22 @@ export class CampaignManager {
 
         try {
           // Send initial email
-          await this.sendEmailToLead(lead, campaign, firstStep);
-          result.emailsSent++;
-          result.successfulLeads.push(lead.id);
+          const delivered = await this.sendEmailToLead(lead, campaign, firstStep);
           state.dailySendCount++;
-          state.totalEmailsSent++;
-          state.totalLeadsContacted++;
 
-          // Update lead status
-          await this.statusTracker.updateLeadStatus(lead.id, "emailed", {
-            reason: `Campaign: ${campaign.name}`,
-          });
-
-          // Schedule follow-ups
-          const followUpsScheduled = await this.scheduleFollowUps(lead.id, campaign);
-          result.followUpsScheduled += followUpsScheduled;
+          if (delivered) {
+            result.emailsSent++;
+            result.successfulLeads.push(lead.id);
+            state.totalEmailsSent++;
+            state.totalLeadsContacted++;
+
+            // Update lead status and schedule follow-ups
+            result.followUpsScheduled += await this.completeInitialSend(lead.id, campaign);
+          } else {
+            // The lead is marked emailed once a retry delivers it
+            result.emailsQueued++;
+            result.queuedLeads.push(lead.id);
+          }
 
           // Rate limiting delay
           if (i + batch.indexOf(lead) < eligibleLeads.length - 1) {
@@ -250,39 +319,334 @@ export class CampaignManager {
     return result;
   }
 
+  /**
+   * Mark a lead emailed after its first step was delivered and schedule
+   * the rest of the sequence
+   *
+   * @returns Number of follow-ups scheduled
+   */
+  private async completeInitialSend(leadId: string, campaign: CampaignConfig): Promise<number> {
+    await this.statusTracker.updateLeadStatus(leadId, "emailed", {
+      reason: `Campaign: ${campaign.name}`,
+    });
+    return this.scheduleFollowUps(leadId, campaign);
+  }
+
   /**
    * Send an email to a lead
+   *
+   * @returns true when the email was delivered, false when it failed and
+   *   waits in the queue for a retry
    */
   private async sendEmailToLead(
     lead: LeadProfile,
     campaign: CampaignConfig,
-    step: EmailSequenceStep
-  ): Promise<void> {
+    step: EmailSequenceStep,
+    scheduledEmailId?: string
+  ): Promise<boolean> {
+    // Only ever send to a verified address
+    const recipient = getVerifiedContactEmail(lead.contacts);
+    if (!recipient) {
+      throw new AppError(`Lead ${lead.id} has no verified email address`, {
+        code: ErrorCode.LEAD_NOT_QUALIFIED,
+        statusCode: 422,
+        context: { leadId: lead.id },
+      });
+    }
+
+    const from = this.getSender();
+
     // Build email context
     const context: EmailContext = {
       lead,
-      audit: null, // Would need to fetch audit from storage
-      calendarLink: "", // Would come from campaign config or user settings
+      audit: this.auditRepository ? await this.auditRepository.getLatestAudit(lead.id) : null,
+      calendarLink: await this.createBookingLink(lead),
     };
 
+    // Variant steps send the template of the lead's variant
+    const variant = this.resolveVariant(campaign, step, lead.id);
+    const templateId = variant ? variant.templateId : step.templateId;
+    const templateVersion = variant ? variant.templateVersion : step.templateVersion;
+
     // Render template
-    const rendered = await this.templateEngine.renderEmail(step.templateId, context);
+    const rendered = await this.templateEngine.renderEmail(templateId, context, templateVersion);
 
-    // Send via Mailgun
-    await this.mailgunClient.sendEmail({
-      to: lead.phoneNumber ? lead.phoneNumber : (lead.websiteUrl ?? ""), // Would need email field
-      from: `outreach@${this.config.timezone}.com`, // Would come from config
+    const email = {
+      to: recipient,
+      from,
+      ...(this.config.replyTo !== undefined && { replyTo: this.config.replyTo }),
       subject: rendered.subject,
       html: rendered.html,
       text: rendered.text,
-      tags: [`lead-${lead.id}`, `campaign-${campaign.id}`, `step-${step.stepNumber}`],
+      tags: [
+        `lead-${lead.id}`,
+        `campaign-${campaign.id}`,
+        `step-${step.stepNumber}`,
+        ...(variant ? [`variant-${variant.id}`] : []),
+      ],
       tracking: {
         opens: campaign.trackOpens,
         clicks: campaign.trackClicks,
       },
+    };
+
+    const send: QueuedCampaignSend = {
+      stepNumber: step.stepNumber,
+      ...(variant && { variantId: variant.id }),
+      templateId,
+      ...(templateVersion !== undefined && { templateVersion }),
+      ...(scheduledEmailId !== undefined && { scheduledEmailId }),
+    };
+
+    let messageId: string;
+    if (this.emailQueue) {
+      // Send via the resilient queue - transient failures stay queued for retry
+      const result = await this.emailQueue.sendImmediate({
+        ...email,
+        leadId: lead.id,
+        campaignId: campaign.id,
+        metadata: send,
+      });
+
+      if (result.status === "permanent_failure") {
+        throw EmailDeliveryError.forSendFailure(recipient, result.error ?? "Permanent failure");
+      }
+      if (result.messageId === null) {
+        return false;
+      }
+      messageId = result.messageId;
+    } else {
+      messageId = (await this.transport.sendEmail(email)).id;
+    }
+
+    await this.recordSent(messageId, lead.id, campaign.id, recipient, rendered.subject, send);
+    return true;
+  }
+
+  /**
+   * Record a delivered campaign email with its provider message ID
+   */
+  private async recordSent(
+    messageId: string,
+    leadId: string,
+    campaignId: string,
+    recipient: string,
+    subject: string,
+    send: QueuedCampaignSend
+  ): Promise<void> {
+    await this.deliveryTracker?.recordSent({
+      messageId,
+      leadId,
+      campaignId,
+      stepNumber: send.stepNumber,
+      ...(send.variantId !== undefined && { variantId: send.variantId }),
+      recipient,
+      templateId: send.templateId,
+      ...(send.templateVersion !== undefined && { templateVersion: send.templateVersion }),
+      subject,
     });
   }
 
+  /**
+   * Finish a campaign send that the queue delivered on a retry, or fail
+   * its scheduled follow-up when the retries ran out
+   */
+  private async handleQueueEvent(event: EmailQueueEvent): Promise<void> {
+    const { entry } = event;
+    const parsed = QueuedCampaignSendSchema.safeParse(entry.metadata ?? null);
+    if (!parsed.success || !entry.leadId || !entry.campaignId) {
+      // Not a campaign send
+      return;
+    }
+    const send = parsed.data;
+
+    if (event.type === "permanent_failure") {
+      if (send.scheduledEmailId) {
+        await this.updateScheduledEmailStatus(send.scheduledEmailId, "failed", event.error);
+      }
+      return;
+    }
+
+    await this.recordSent(event.messageId, entry.leadId, entry.campaignId, entry.to, entry.subject, send);
+
+    if (send.scheduledEmailId) {
+      await this.updateScheduledEmailStatus(send.scheduledEmailId, "sent");
+      return;
+    }
+
+    if (send.stepNumber === 1) {
+      const state = await this.getOrCreateCampaignState(entry.campaignId);
+      state.totalEmailsSent++;
+      state.totalLeadsContacted++;
+      await this.saveCampaignState(state);
+
+      const campaign = await this.campaignRepository?.getCampaignById(entry.campaignId);
+      if (campaign) {
+        await this.completeInitialSend(entry.leadId, campaign);
+      } else {
+        await this.statusTracker.updateLeadStatus(entry.leadId, "emailed", {
+          reason: `Campaign: ${entry.campaignId}`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Variant of a step that a lead receives, or null for single-template steps
+   *
+   * Once a winner is chosen every lead gets it; until then leads are
+   * spread across variants by weight.
+   */
+  private resolveVariant(
+    campaign: CampaignConfig,
+    step: EmailSequenceStep,
+    leadId: string
+  ): SequenceVariant | null {
+    if (!step.variants) {
+      return null;
+    }
+
+    const winner = step.variants.find((v) => v.id === step.winnerVariantId);
+    if (winner) {
+      return winner;
+    }
+
+    return assignVariant(step.variants, `${campaign.id}:${step.stepNumber}:${leadId}`);
+  }
+
+  /**
+   * Sender mailbox from config
+   */
+  private getSender(): string {
+    if (!this.config.fromEmail) {
+      throw new ValidationError("Campaign sender address is not configured", {
+        context: { field: "fromEmail" },
+      });
+    }
+    return formatMailbox(this.config.fromEmail, this.config.fromName);
+  }
+
+  /**
+   * Generate a signed booking link offering the lead's upcoming slots
+   *
+   * Returns an empty string when no calendar is configured or nothing is
+   * free, so the template engine falls back to its default calendar link.
+   */
+  private async createBookingLink(lead: LeadProfile): Promise<string> {
+    if (!this.calendarIntegration) {
+      return "";
+    }
+
+    try {
+      const slots = await this.calendarIntegration.getAvailability(this.config.bookingLinkDays);
+      if (slots.length === 0) {
+        return "";
+      }
+      return this.calendarIntegration.generateBookingLink(
+        lead.id,
+        slots,
+        `Discovery Call - ${lead.businessName}`
+      );
+    } catch {
+      // A calendar outage shouldn't block outreach
+      return "";
+    }
+  }
+
+  /**
+   * Pin every sequence step to the current version of its template
+   *
+   * Runs on each execution but only resolves steps that aren't pinned
+   * yet, so the versions a campaign launched with stay fixed.
+   */
+  private async pinTemplateVersions(campaign: CampaignConfig): Promise<CampaignConfig> {
+    const isPinned = (step: EmailSequenceStep): boolean =>
+      step.templateVersion !== undefined &&
+      (step.variants ?? []).every((v) => v.templateVersion !== undefined);
+
+    if (campaign.sequence.every(isPinned)) {
+      return campaign;
+    }
+
+    const sequence: EmailSequenceStep[] = [];
+    for (const step of campaign.sequence) {
+      if (isPinned(step)) {
+        sequence.push(step);
+        continue;
+      }
+
+      const templateVersion =
+        step.templateVersion ?? (await this.templateEngine.getTemplate(step.templateId)).version;
+
+      if (!step.variants) {
+        sequence.push({ ...step, templateVersion });
+        continue;
+      }
+
+      const variants: SequenceVariant[] = [];
+      for (const variant of step.variants) {
+        variants.push({
+          ...variant,
+          templateVersion:
+            variant.templateVersion ??
+            (await this.templateEngine.getTemplate(variant.templateId)).version,
+        });
+      }
+      sequence.push({ ...step, templateVersion, variants });
+    }
+
+    if (this.campaignRepository) {
+      await this.campaignRepository.updateCampaign(campaign.id, { sequence });
+    }
+
+    return { ...campaign, sequence };
+  }
+
+  /**
+   * Declare winners for variant tests that have reached significance
+   *
+   * Only steps with auto-winner enabled and no winner yet are checked.
+   * A declared winner is saved on the campaign so it sticks.
+   */
+  private async applyAutoWinners(campaign: CampaignConfig): Promise<CampaignConfig> {
+    if (!this.deliveryTracker) {
+      return campaign;
+    }
+
+    let changed = false;
+    const sequence: EmailSequenceStep[] = [];
+    for (const step of campaign.sequence) {
+      if (!step.variants || !step.autoWinner || step.winnerVariantId !== undefined) {
+        sequence.push(step);
+        continue;
+      }
+
+      const metrics = await this.deliveryTracker.getVariantMetrics(campaign.id, step.stepNumber);
+      const winnerVariantId = selectWinner(
+        step.variants.map((v) => v.id),
+        metrics,
+        step.autoWinner
+      );
+
+      if (winnerVariantId) {
+        sequence.push({ ...step, winnerVariantId });
+        changed = true;
+      } else {
+        sequence.push(step);
+      }
+    }
+
+    if (!changed) {
+      return campaign;
+    }
+
+    if (this.campaignRepository) {
+      await this.campaignRepository.updateCampaign(campaign.id, { sequence });
+    }
+
+    return { ...campaign, sequence };
+  }
+
   // ============================================
   // Sequence Management
   // ============================================
@@ -307,6 +671,7 @@ export class CampaignManager {
       campaignId,
       leadId,
       templateId: step.templateId,
+      ...(step.templateVersion !== undefined && { templateVersion: step.templateVersion }),
       stepNumber: step.stepNumber,
       scheduledFor: scheduledTime,
       sendCondition: step.sendCondition,
@@ -347,6 +712,7 @@ export class CampaignManager {
     const result: ScheduledEmailProcessingResult = {
       processed: 0,
       sent: 0,
+      queued: 0,
       skipped: 0,
       failed: 0,
       details: [],
@@ -360,6 +726,9 @@ export class CampaignManager {
     // Get due scheduled emails
     const dueEmails = await this.getDueScheduledEmails();
 
+    // Campaigns are loaded once per run so auto-winner checks don't repeat per email
+    const campaigns = new Map<string, CampaignConfig | null>();
+
     for (const scheduledEmail of dueEmails) {
       result.processed++;
 
@@ -399,46 +768,36 @@ export class CampaignManager {
           continue;
         }
 
-        // Build minimal campaign config for sending
-        const step: EmailSequenceStep = {
-          stepNumber: scheduledEmail.stepNumber,
-          delayDays: 0,
-          delayHours: 0,
-          templateId: scheduledEmail.templateId,
-          sendCondition: scheduledEmail.sendCondition,
-          sendTimePreference: "any",
-        };
-
-        const campaignStub: CampaignConfig = {
-          id: scheduledEmail.campaignId,
-          name: "Follow-up",
-          leadFilters: {},
-          sequence: [step],
-          status: "active",
-          dailySendLimit: this.config.defaultDailySendLimit,
-          timezone: this.config.timezone,
-          trackOpens: true,
-          trackClicks: true,
-          totalLeads: 0,
-          emailsSent: 0,
-          emailsOpened: 0,
-          emailsClicked: 0,
-          replies: 0,
-          booked: 0,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
+        // Send with the campaign's own step so variant tests apply to follow-ups
+        const campaign = await this.loadCampaign(scheduledEmail.campaignId, campaigns);
+        const campaignStep = campaign?.sequence.find(
+          (s) => s.stepNumber === scheduledEmail.stepNumber
+        );
+        const target =
+          campaign && campaignStep
+            ? { campaign, step: campaignStep }
+            : this.createFollowUpStub(scheduledEmail);
 
         // Send email
-        await this.sendEmailToLead(lead, campaignStub, step);
+        const delivered = await this.sendEmailToLead(
+          lead,
+          target.campaign,
+          target.step,
+          scheduledEmail.id
+        );
 
-        // Update status
-        await this.updateScheduledEmailStatus(scheduledEmail.id, "sent");
-        result.sent++;
+        // Queued follow-ups are marked sent once a retry delivers them
+        const status = delivered ? "sent" : "queued";
+        await this.updateScheduledEmailStatus(scheduledEmail.id, status);
+        if (delivered) {
+          result.sent++;
+        } else {
+          result.queued++;
+        }
         result.details.push({
           emailId: scheduledEmail.id,
           leadId: scheduledEmail.leadId,
-          status: "sent",
+          status,
         });
 
         // Rate limiting
@@ -462,6 +821,67 @@ export class CampaignManager {
     return result;
   }
 
+  /**
+   * Load a campaign for follow-up sends, applying any new auto-winners
+   */
+  private async loadCampaign(
+    campaignId: string,
+    cache: Map<string, CampaignConfig | null>
+  ): Promise<CampaignConfig | null> {
+    if (!this.campaignRepository) {
+      return null;
+    }
+
+    if (!cache.has(campaignId)) {
+      const campaign = await this.campaignRepository.getCampaignById(campaignId);
+      cache.set(campaignId, campaign ? await this.applyAutoWinners(campaign) : null);
+    }
+
+    return cache.get(campaignId) ?? null;
+  }
+
+  /**
+   * Minimal campaign and step for a scheduled email whose campaign can't be loaded
+   */
+  private createFollowUpStub(scheduledEmail: ScheduledEmail): {
+    campaign: CampaignConfig;
+    step: EmailSequenceStep;
+  } {
+    const step: EmailSequenceStep = {
+      stepNumber: scheduledEmail.stepNumber,
+      delayDays: 0,
+      delayHours: 0,
+      templateId: scheduledEmail.templateId,
+      ...(scheduledEmail.templateVersion !== undefined && {
+        templateVersion: scheduledEmail.templateVersion,
+      }),
+      sendCondition: scheduledEmail.sendCondition,
+      sendTimePreference: "any",
+    };
+
+    const campaignStub: CampaignConfig = {
+      id: scheduledEmail.campaignId,
+      name: "Follow-up",
+      leadFilters: {},
+      sequence: [step],
+      status: "active",
+      dailySendLimit: this.config.defaultDailySendLimit,
+      timezone: this.config.timezone,
+      trackOpens: true,
+      trackClicks: true,
+      totalLeads: 0,
+      emailsSent: 0,
+      emailsOpened: 0,
+      emailsClicked: 0,
+      replies: 0,
+      booked: 0,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    return { campaign: campaignStub, step };
+  }
+
   /**
    * Check if send condition is met
    */
@@ -548,6 +968,7 @@ export class CampaignManager {
         campaignId: row["campaign_id"] as string,
         leadId: row["lead_id"] as string,
         templateId: row["template_id"] as string,
+        templateVersion: (row["template_version"] as number | null) ?? undefined,
         stepNumber: row["step_number"] as number,
         scheduledFor: new Date(row["scheduled_for"] as string),
         sendCondition: row["send_condition"] as ScheduledEmail["sendCondition"],
@@ -727,7 +1148,7 @@ export class CampaignManager {
    * Get eligible leads for a campaign
    */
   private async getEligibleLeads(
-    _campaign: CampaignConfig, // Campaign's leadFilters could be used in future
+    campaign: CampaignConfig, // Campaign's leadFilters could be used in future
     filterCriteria?: LeadFilterCriteria,
     limit?: number
   ): Promise<LeadProfile[]> {
@@ -750,40 +1171,27 @@ export class CampaignManager {
     cutoffDate.setDate(cutoffDate.getDate() - excludeDays);
     // Note: This is a simplified filter - actual implementation would need lastContactedAt filter
 
-    // Fetch leads
-    const result = await this.leadRepository.searchLeads(
-      filters,
-      { limit: limit ?? criteria.maxLeads ?? 1000 }
-    );
-
-    let leads = result.items;
-
-    // Apply additional filters
-    if (criteria.includeCategories && criteria.includeCategories.length > 0) {
-      leads = leads.filter(
-        (l) => l.businessCategory && criteria.includeCategories!.includes(l.businessCategory)
+    // Leads whose first email waits for a retry are still pending; don't send twice
+    const queued = this.emailQueue
+      ? await this.emailQueue.getQueuedLeadIds(campaign.id)
+      : new Set<string>();
+
+    // Contact and criteria checks drop leads after the query, so page until enough pass
+    const wanted = limit ?? criteria.maxLeads ?? 1000;
+    const pageSize = Math.max(wanted, 100);
+    const leads: LeadProfile[] = [];
+    for (let offset = 0; leads.length < wanted; offset += pageSize) {
+      const result = await this.leadRepository.searchLeads(filters, { limit: pageSize, offset });
+      leads.push(
+        ...result.items.filter((l) => !queued.has(l.id) && matchesLeadCriteria(l, criteria))
       );
-    }
 
-    if (criteria.excludeCategories && criteria.excludeCategories.length > 0) {
-      leads = leads.filter(
-        (l) => !l.businessCategory || !criteria.excludeCategories!.includes(l.businessCategory)
-      );
-    }
-
-    if (criteria.minPerformanceScore !== undefined) {
-      leads = leads.filter(
-        (l) => l.performanceScore !== undefined && l.performanceScore >= criteria.minPerformanceScore!
-      );
-    }
-
-    if (criteria.maxPerformanceScore !== undefined) {
-      leads = leads.filter(
-        (l) => l.performanceScore === undefined || l.performanceScore <= criteria.maxPerformanceScore!
-      );
+      if (result.items.length < pageSize || offset + pageSize >= result.total) {
+        break;
+      }
     }
 
-    return leads.slice(0, limit);
+    return leads.slice(0, wanted);
   }
 
   // ============================================
@@ -895,3 +1303,46 @@ export class CampaignManager {
     return this.getOrCreateCampaignState(campaignId);
   }
 }
+
+/**
+ * Whether a fetched lead can be contacted and passes the criteria the
+ * lead query doesn't apply
+ */
+function matchesLeadCriteria(lead: LeadProfile, criteria: LeadFilterCriteria): boolean {
+  // Leads without a verified email address cannot be contacted
+  if (getVerifiedContactEmail(lead.contacts) === undefined) {
+    return false;
+  }
+
+  const category = lead.businessCategory;
+  if (
+    criteria.includeCategories?.length &&
+    (!category || !criteria.includeCategories.includes(category))
+  ) {
+    return false;
+  }
+  if (
+    criteria.excludeCategories?.length &&
+    category &&
+    criteria.excludeCategories.includes(category)
+  ) {
+    return false;
+  }
+
+  const score = lead.performanceScore;
+  if (
+    criteria.minPerformanceScore !== undefined &&
+    (score === undefined || score < criteria.minPerformanceScore)
+  ) {
+    return false;
+  }
+  if (
+    criteria.maxPerformanceScore !== undefined &&
+    score !== undefined &&
+    score > criteria.maxPerformanceScore
+  ) {
+    return false;
+  }
+
+  return true;
+}
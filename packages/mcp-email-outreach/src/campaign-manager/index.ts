@@ -13,8 +13,14 @@ export {
   type ICampaignRepository,
   type IStorage,
   type IEmailEventStorage,
+  type IAuditRepository,
+  type ICalendarIntegration,
+  type IDeliveryTracker,
 } from "./campaign-manager.js";
 
+// Variant testing
+export { assignVariant, selectWinner } from "./variants.js";
+
 // Types and schemas
 export type {
   CampaignExecutionResult,
@@ -27,12 +33,14 @@ export type {
   CampaignCreationResult,
   LeadEmailContext,
   SendConditionResult,
+  QueuedCampaignSend,
 } from "./types.js";
 
 export {
   CampaignExecutionResultSchema,
   ScheduledEmailStatusSchema,
   ScheduledEmailSchema,
+  QueuedCampaignSendSchema,
   CampaignStateSchema,
   LeadFilterCriteriaSchema,
   CampaignManagerConfigSchema,
@@ -15,11 +15,14 @@ export const CampaignExecutionResultSchema = z.object({
   // Counts
   leadsProcessed: z.number().int().nonnegative(),
   emailsSent: z.number().int().nonnegative(),
+  /** Sends that failed and wait in the queue for a retry */
+  emailsQueued: z.number().int().nonnegative(),
   emailsFailed: z.number().int().nonnegative(),
   followUpsScheduled: z.number().int().nonnegative(),
 
   // Details
   successfulLeads: z.array(z.string().uuid()),
+  queuedLeads: z.array(z.string().uuid()),
   failedLeads: z.array(z.object({
     leadId: z.string().uuid(),
     error: z.string(),
@@ -40,6 +43,7 @@ export type CampaignExecutionResult = z.output<typeof CampaignExecutionResultSch
  */
 export const ScheduledEmailStatusSchema = z.enum([
   "pending",
+  "queued",
   "sent",
   "skipped",
   "failed",
@@ -56,6 +60,7 @@ export const ScheduledEmailSchema = z.object({
   campaignId: z.string().uuid(),
   leadId: z.string().uuid(),
   templateId: z.string().uuid(),
+  templateVersion: z.number().int().positive().optional(),
   stepNumber: z.number().int().positive(),
 
   // Scheduling
@@ -162,6 +167,14 @@ export const CampaignManagerConfigSchema = z.object({
 
   // Contact exclusion
   defaultExcludeContactedWithinDays: z.number().int().positive().default(30),
+
+  // Sender identity
+  fromEmail: z.string().email().optional(),
+  fromName: z.string().min(1).optional(),
+  replyTo: z.string().email().optional(),
+
+  // Booking links
+  bookingLinkDays: z.number().int().positive().default(7), // availability window offered per lead
 });
 
 export type CampaignManagerConfig = z.output<typeof CampaignManagerConfigSchema>;
@@ -176,6 +189,7 @@ export type CampaignManagerConfig = z.output<typeof CampaignManagerConfigSchema>
 export interface ScheduledEmailProcessingResult {
   processed: number;
   sent: number;
+  queued: number;
   skipped: number;
   failed: number;
   details: Array<{
@@ -186,6 +200,23 @@ export interface ScheduledEmailProcessingResult {
   }>;
 }
 
+/**
+ * Campaign details kept with a send in the email queue
+ *
+ * A send that waits for a retry is finished from these once the retry
+ * delivers it, possibly after a restart.
+ */
+export const QueuedCampaignSendSchema = z.object({
+  stepNumber: z.number().int().positive(),
+  variantId: z.string().optional(),
+  templateId: z.string(),
+  templateVersion: z.number().int().positive().optional(),
+  /** Scheduled follow-up the send belongs to */
+  scheduledEmailId: z.string().uuid().optional(),
+});
+
+export type QueuedCampaignSend = z.output<typeof QueuedCampaignSendSchema>;
+
 /**
  * Result of creating a campaign
  */
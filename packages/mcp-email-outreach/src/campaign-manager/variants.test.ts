@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+
+import type { AutoWinnerConfig, SequenceVariant } from "@the-closer/shared";
+
+import type { VariantMetrics } from "../delivery-tracker/index.js";
+import { assignVariant, selectWinner } from "./variants.js";
+
+const TEMPLATE_ID = "6f1c2b9e-3d4a-4c5b-8e7f-0a1b2c3d4e5f";
+
+function variant(id: string, weight = 1): SequenceVariant {
+  return { id, templateId: TEMPLATE_ID, weight };
+}
+
+function metrics(
+  variantId: string,
+  sent: number,
+  counts: Partial<Pick<VariantMetrics, "opened" | "clicked" | "replied">>
+): VariantMetrics {
+  const opened = counts.opened ?? 0;
+  const clicked = counts.clicked ?? 0;
+  const replied = counts.replied ?? 0;
+  return {
+    stepNumber: 1,
+    variantId,
+    sent,
+    opened,
+    clicked,
+    replied,
+    openRate: sent > 0 ? (opened / sent) * 100 : 0,
+    clickRate: sent > 0 ? (clicked / sent) * 100 : 0,
+    replyRate: sent > 0 ? (replied / sent) * 100 : 0,
+  };
+}
+
+describe("assignVariant", () => {
+  it("always gives the same seed the same variant", () => {
+    const variants = [variant("A"), variant("B"), variant("C")];
+
+    for (let lead = 0; lead < 50; lead++) {
+      const seed = `campaign-1:1:lead-${lead}`;
+      const first = assignVariant(variants, seed);
+      expect(assignVariant(variants, seed)).toBe(first);
+      expect(assignVariant([...variants], seed).id).toBe(first.id);
+    }
+  });
+
+  it("splits traffic in proportion to the weights", () => {
+    const variants = [variant("A", 3), variant("B", 1)];
+    let a = 0;
+    const total = 4000;
+
+    for (let lead = 0; lead < total; lead++) {
+      if (assignVariant(variants, `campaign-1:1:lead-${lead}`).id === "A") a++;
+    }
+
+    expect(a / total).toBeGreaterThan(0.72);
+    expect(a / total).toBeLessThan(0.78);
+  });
+
+  it("uses the only variant there is", () => {
+    expect(assignVariant([variant("solo", 0.1)], "any-seed").id).toBe("solo");
+  });
+
+  it("rejects an empty variant list", () => {
+    expect(() => assignVariant([], "seed")).toThrow("empty list");
+  });
+});
+
+describe("selectWinner", () => {
+  const config: AutoWinnerConfig = { metric: "open", minSendsPerVariant: 100, confidence: 0.95 };
+
+  it("waits until every variant has the minimum sends", () => {
+    const result = selectWinner(
+      ["A", "B"],
+      [metrics("A", 200, { opened: 80 }), metrics("B", 99, { opened: 5 })],
+      config
+    );
+
+    expect(result).toBeNull();
+  });
+
+  it("treats a variant without metrics as unsent", () => {
+    expect(selectWinner(["A", "B"], [metrics("A", 500, { opened: 200 })], config)).toBeNull();
+  });
+
+  it("declares a leader that is significantly better", () => {
+    // 30% vs 15% over 200 sends each: z is about 3.6
+    const result = selectWinner(
+      ["A", "B"],
+      [metrics("B", 200, { opened: 30 }), metrics("A", 200, { opened: 60 })],
+      config
+    );
+
+    expect(result).toBe("A");
+  });
+
+  it("stays undecided when the difference could be noise", () => {
+    // 22% vs 20% over 200 sends each: z is about 0.5
+    const result = selectWinner(
+      ["A", "B"],
+      [metrics("A", 200, { opened: 44 }), metrics("B", 200, { opened: 40 })],
+      config
+    );
+
+    expect(result).toBeNull();
+  });
+
+  it("needs the leader to beat every other variant", () => {
+    const result = selectWinner(
+      ["A", "B", "C"],
+      [
+        metrics("A", 200, { opened: 60 }),
+        metrics("B", 200, { opened: 30 }),
+        metrics("C", 200, { opened: 56 }),
+      ],
+      config
+    );
+
+    expect(result).toBeNull();
+  });
+
+  it("applies the configured confidence", () => {
+    // 25% vs 18% over 200 sends each: z is about 1.7, p is about 0.045
+    const counts = [metrics("A", 200, { opened: 50 }), metrics("B", 200, { opened: 36 })];
+
+    expect(selectWinner(["A", "B"], counts, config)).toBe("A");
+    expect(selectWinner(["A", "B"], counts, { ...config, confidence: 0.99 })).toBeNull();
+  });
+
+  it("compares the configured metric", () => {
+    const counts = [
+      metrics("A", 200, { opened: 100, replied: 4 }),
+      metrics("B", 200, { opened: 40, replied: 30 }),
+    ];
+
+    expect(selectWinner(["A", "B"], counts, config)).toBe("A");
+    expect(selectWinner(["A", "B"], counts, { ...config, metric: "reply" })).toBe("B");
+    expect(selectWinner(["A", "B"], counts, { ...config, metric: "click" })).toBeNull();
+  });
+
+  it("needs at least two variants", () => {
+    expect(selectWinner(["A"], [metrics("A", 500, { opened: 400 })], config)).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { createHash } from "node:crypto";
+import type { AutoWinnerConfig, SequenceVariant } from "@the-closer/shared";
+import type { VariantMetrics } from "../delivery-tracker/index.js";
+
+/**
+ * Pick a variant for a lead in proportion to the variant weights
+ *
+ * The choice is derived from a hash of the seed, so the same lead
+ * always lands on the same variant no matter how often the step is
+ * retried or rescheduled.
+ */
+export function assignVariant(variants: SequenceVariant[], seed: string): SequenceVariant {
+  const first = variants[0];
+  if (!first) {
+    throw new Error("Cannot assign a variant from an empty list");
+  }
+
+  // First 32 bits of the hash as a uniform value in [0, 1)
+  const hash = createHash("sha256").update(seed).digest("hex");
+  const point = Number.parseInt(hash.substring(0, 8), 16) / 0x100000000;
+
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight / totalWeight;
+    if (point < cumulative) {
+      return variant;
+    }
+  }
+
+  // Floating point rounding can leave the last bucket a hair short
+  return variants[variants.length - 1] ?? first;
+}
+
+/**
+ * Decide whether one variant has significantly outperformed the rest
+ *
+ * Every variant needs `minSendsPerVariant` sends. The leader must then
+ * beat each other variant in a one-sided two-proportion z-test at the
+ * configured confidence. Returns the winning variant ID, or null while
+ * the test is still undecided.
+ */
+export function selectWinner(
+  variantIds: string[],
+  metrics: VariantMetrics[],
+  config: AutoWinnerConfig
+): string | null {
+  const results = variantIds.map((variantId) => {
+    const m = metrics.find((candidate) => candidate.variantId === variantId);
+    const sent = m?.sent ?? 0;
+    const successes = m ? getSuccesses(m, config.metric) : 0;
+    return { variantId, sent, successes, rate: sent > 0 ? successes / sent : 0 };
+  });
+
+  if (results.length < 2 || results.some((r) => r.sent < config.minSendsPerVariant)) {
+    return null;
+  }
+
+  const leader = results.reduce((best, r) => (r.rate > best.rate ? r : best));
+  const alpha = 1 - config.confidence;
+
+  for (const other of results) {
+    if (other === leader) continue;
+
+    const pooled = (leader.successes + other.successes) / (leader.sent + other.sent);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / leader.sent + 1 / other.sent));
+    if (standardError === 0) return null;
+
+    const z = (leader.rate - other.rate) / standardError;
+    if (1 - normalCdf(z) >= alpha) return null;
+  }
+
+  return leader.variantId;
+}
+
+function getSuccesses(metrics: VariantMetrics, metric: AutoWinnerConfig["metric"]): number {
+  switch (metric) {
+    case "open":
+      return metrics.opened;
+    case "click":
+      return metrics.clicked;
+    case "reply":
+      return metrics.replied;
+  }
+}
+
+/**
+ * Standard normal cumulative distribution function
+ */
+function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/**
+ * Error function (Abramowitz and Stegun 7.1.26, max error 1.5e-7)
+ */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+}
@@ -0,0 +1,222 @@
+#!/usr/bin/env node
+
+/**
+ * MCP Email Outreach Server entry point
+ *
+ * Starts the campaign tools on stdio. Emails are sent through the
+ * transport selected by MAIL_TRANSPORT (Mailgun by default) and campaigns,
+ * leads, audits, email events and the send queue live in Supabase, all
+ * configured from the environment. OUTREACH_FROM_EMAIL is required.
+ * Booking links are generated when calendar booking is enabled.
+ */
+
+import { ValidationError, getConfig, isFeatureEnabled, type EnvConfig } from "@the-closer/shared";
+import { CalendarClient, CalendarClientConfigSchema } from "@the-closer/mcp-calendar";
+import {
+  AuditRepository,
+  CampaignRepository,
+  LeadRepository,
+  StatusTracker,
+  SupabaseClient,
+  type FilterOperator,
+} from "@the-closer/mcp-lead-storage";
+
+import { CalendarIntegration } from "./calendar-integration/index.js";
+import { CampaignManager } from "./campaign-manager/index.js";
+import { DeliveryTracker, type IEventStorage } from "./delivery-tracker/index.js";
+import { InboundReplyProcessor } from "./inbound/index.js";
+import { MailgunClient } from "./mailgun/index.js";
+import { ResilientEmailQueue, SupabaseEmailQueueStorage } from "./resilient-email/index.js";
+import { EmailOutreachServer } from "./server.js";
+import { SupabaseTemplateStorage, TemplateEngine } from "./template-engine/index.js";
+import { OutboxTransport, SmtpTransport, type MailTransport } from "./transport/index.js";
+
+async function main(): Promise<void> {
+  const config = getConfig();
+  // Every campaign send needs a sender, so don't wait for the first one to find out
+  const fromEmail = requireSender(config);
+
+  const supabase = new SupabaseClient({
+    supabaseUrl: config.SUPABASE_URL,
+    supabaseAnonKey: config.SUPABASE_ANON_KEY,
+    ...(config.SUPABASE_SERVICE_KEY && {
+      supabaseServiceKey: config.SUPABASE_SERVICE_KEY,
+    }),
+  });
+  await supabase.connect();
+
+  // Mailgun also verifies webhooks, so keep it around when configured
+  const mailgun =
+    config.MAILGUN_API_KEY && config.MAILGUN_DOMAIN
+      ? new MailgunClient({ apiKey: config.MAILGUN_API_KEY, domain: config.MAILGUN_DOMAIN })
+      : null;
+  const transport = createTransport(config, mailgun);
+  await transport.connect();
+
+  const leadRepository = new LeadRepository(supabase);
+  const statusTracker = new StatusTracker(leadRepository, supabase);
+  const campaignRepository = new CampaignRepository(supabase);
+  const templateEngine = new TemplateEngine({}, new SupabaseTemplateStorage(supabase));
+  const deliveryTracker = new DeliveryTracker(
+    mailgun,
+    leadRepository,
+    statusTracker,
+    createEventStorage(supabase)
+  );
+  // Sends waiting for a retry must outlive the process
+  const emailQueue = new ResilientEmailQueue(transport, new SupabaseEmailQueueStorage(supabase));
+  const calendarIntegration = await createCalendarIntegration(config, leadRepository);
+
+  const campaignManager = new CampaignManager(
+    transport,
+    leadRepository,
+    statusTracker,
+    templateEngine,
+    {
+      campaignRepository,
+      emailQueue,
+      auditRepository: new AuditRepository(supabase),
+      ...(calendarIntegration && { calendarIntegration }),
+      deliveryTracker,
+      config: {
+        fromEmail,
+        ...(config.OUTREACH_FROM_NAME && { fromName: config.OUTREACH_FROM_NAME }),
+        ...(config.OUTREACH_REPLY_TO && { replyTo: config.OUTREACH_REPLY_TO }),
+      },
+      eventStorage: {
+        getEventsForLead: async (leadId, campaignId) => {
+          const events = await deliveryTracker.getLeadEvents(leadId);
+          return events
+            .filter((event) => !campaignId || event.campaignId === campaignId)
+            .map((event) => ({
+              eventType: event.eventType,
+              timestamp: new Date(event.timestamp),
+            }));
+        },
+      },
+    }
+  );
+
+  const server = new EmailOutreachServer({
+    campaignManager,
+    campaignRepository,
+    leadRepository,
+    templateEngine,
+    deliveryTracker,
+    emailQueue,
+    inboundProcessor: new InboundReplyProcessor(deliveryTracker, mailgun),
+  });
+
+  const shutdown = async (): Promise<void> => {
+    await server.stop();
+    await supabase.disconnect();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => void shutdown());
+  process.on("SIGTERM", () => void shutdown());
+
+  await server.start();
+}
+
+/**
+ * Sender address for campaign emails
+ */
+function requireSender(config: EnvConfig): string {
+  if (!config.OUTREACH_FROM_EMAIL) {
+    throw new ValidationError(
+      "OUTREACH_FROM_EMAIL must be set to the address campaign emails are sent from",
+      { context: { field: "OUTREACH_FROM_EMAIL" } }
+    );
+  }
+  return config.OUTREACH_FROM_EMAIL;
+}
+
+/**
+ * Pick the mail transport selected by MAIL_TRANSPORT
+ */
+function createTransport(config: EnvConfig, mailgun: MailgunClient | null): MailTransport {
+  const messageIdDomain = config.MAILGUN_DOMAIN ?? "localhost";
+
+  switch (config.MAIL_TRANSPORT) {
+    case "smtp":
+      if (!config.SMTP_HOST) {
+        throw new ValidationError("SMTP_HOST must be set when MAIL_TRANSPORT is smtp");
+      }
+      return new SmtpTransport({
+        host: config.SMTP_HOST,
+        secure: config.SMTP_SECURE,
+        messageIdDomain,
+        ...(config.SMTP_PORT !== undefined && { port: config.SMTP_PORT }),
+        ...(config.SMTP_USER && { username: config.SMTP_USER }),
+        ...(config.SMTP_PASSWORD && { password: config.SMTP_PASSWORD }),
+      });
+    case "outbox":
+      return new OutboxTransport({ directory: config.MAIL_OUTBOX_DIR, messageIdDomain });
+    case "mailgun":
+      if (!mailgun) {
+        throw new ValidationError("MAILGUN_API_KEY and MAILGUN_DOMAIN must be set");
+      }
+      return mailgun;
+  }
+}
+
+/**
+ * Connect Google Calendar for booking links when calendar booking is enabled
+ */
+async function createCalendarIntegration(
+  config: EnvConfig,
+  leadRepository: LeadRepository
+): Promise<CalendarIntegration | null> {
+  if (
+    !isFeatureEnabled("calendarBooking") ||
+    !config.GOOGLE_CLIENT_ID ||
+    !config.GOOGLE_CLIENT_SECRET ||
+    !config.GOOGLE_REFRESH_TOKEN
+  ) {
+    return null;
+  }
+
+  const calendarClient = new CalendarClient(
+    CalendarClientConfigSchema.parse({
+      credentials: {
+        clientId: config.GOOGLE_CLIENT_ID,
+        clientSecret: config.GOOGLE_CLIENT_SECRET,
+        refreshToken: config.GOOGLE_REFRESH_TOKEN,
+      },
+    })
+  );
+  await calendarClient.connect();
+
+  return new CalendarIntegration(
+    calendarClient,
+    leadRepository,
+    config.BOOKING_BASE_URL ? { bookingBaseUrl: config.BOOKING_BASE_URL } : {},
+    config.BOOKING_LINK_SECRET
+  );
+}
+
+/**
+ * Adapt SupabaseClient to the event storage interface used by DeliveryTracker
+ */
+function createEventStorage(supabase: SupabaseClient): IEventStorage {
+  return {
+    insert: async (table, data) => {
+      await supabase.insert(table, data);
+      return data;
+    },
+    select: (table, options) =>
+      supabase.select(table, {
+        ...(options?.filters && {
+          filters: options.filters.map((filter) => ({
+            ...filter,
+            operator: filter.operator as FilterOperator,
+          })),
+        }),
+      }),
+  };
+}
+
+main().catch((error: unknown) => {
+  console.error("Failed to start email outreach server:", error);
+  process.exit(1);
+});
@@ -5,13 +5,16 @@ import { MailgunClient, type WebhookEvent } from "../mailgun/index.js";
 import {
   type DeliveryTrackerConfig,
   type EmailEvent,
+  type EmailEventBase,
   type DeliveredEvent,
   type OpenedEvent,
   type ClickedEvent,
   type BouncedEvent,
   type ComplainedEvent,
   type RepliedEvent,
+  type SentEvent,
   type EmailMetrics,
+  type VariantMetrics,
   type StoredEmailEvent,
   type WebhookProcessingResult,
   DeliveryTrackerConfigSchema,
@@ -62,12 +65,12 @@ export interface IEventStorage {
  */
 export class DeliveryTracker {
   private readonly config: DeliveryTrackerConfig;
-  private readonly mailgunClient: MailgunClient;
+  private readonly mailgunClient: MailgunClient | null;
   private readonly statusTracker: IStatusTracker;
   private readonly eventStorage: IEventStorage | null;
 
   constructor(
-    mailgunClient: MailgunClient,
+    mailgunClient: MailgunClient | null, // Null when sending through a local transport
     _leadRepository: ILeadRepository, // Reserved for future use
     statusTracker: IStatusTracker,
     eventStorage: IEventStorage | null = null,
@@ -99,14 +102,20 @@ export class DeliveryTracker {
   ): Promise<WebhookProcessingResult> {
     let eventId: string | null = null;
     let eventType: string | null = null;
+    let messageId: string | null = null;
     let leadId: string | null = null;
     let statusUpdated = false;
 
     try {
+      if (!this.mailgunClient) {
+        throw new ValidationError("Webhook verification requires a Mailgun client");
+      }
+
       // Parse and validate webhook
       const webhookEvent = this.mailgunClient.parseWebhook(payload, signature, timestamp);
 
       eventType = webhookEvent.eventType;
+      messageId = webhookEvent.eventData["message-id"] ?? null;
 
       // Extract lead ID from message tags or recipient-variables
       leadId = this.extractLeadId(webhookEvent);
@@ -116,6 +125,7 @@ export class DeliveryTracker {
           success: false,
           eventId: null,
           eventType,
+          messageId,
           leadId: null,
           statusUpdated: false,
           error: "Could not extract lead ID from webhook payload",
@@ -136,6 +146,7 @@ export class DeliveryTracker {
         success: true,
         eventId,
         eventType,
+        messageId,
         leadId,
         statusUpdated,
         error: null,
@@ -145,6 +156,7 @@ export class DeliveryTracker {
         success: false,
         eventId,
         eventType,
+        messageId,
         leadId,
         statusUpdated,
         error: error instanceof Error ? error.message : String(error),
@@ -174,6 +186,31 @@ export class DeliveryTracker {
     return null;
   }
 
+  /**
+   * Extract campaign, sequence step and variant from the send tags
+   * ("campaign-{uuid}", "step-{n}", "variant-{id}")
+   */
+  private extractSequenceInfo(
+    event: WebhookEvent
+  ): Pick<EmailEventBase, "campaignId" | "stepNumber" | "variantId"> {
+    const info: Pick<EmailEventBase, "campaignId" | "stepNumber" | "variantId"> = {};
+
+    for (const tag of event.eventData.tags ?? []) {
+      if (tag.startsWith("campaign-")) {
+        info.campaignId = tag.substring(9);
+      } else if (tag.startsWith("step-")) {
+        const stepNumber = Number.parseInt(tag.substring(5), 10);
+        if (Number.isInteger(stepNumber) && stepNumber > 0) {
+          info.stepNumber = stepNumber;
+        }
+      } else if (tag.startsWith("variant-")) {
+        info.variantId = tag.substring(8);
+      }
+    }
+
+    return info;
+  }
+
   /**
    * Convert Mailgun webhook event to internal event format
    */
@@ -185,6 +222,7 @@ export class DeliveryTracker {
       id: randomUUID(),
       messageId: webhook.eventData["message-id"] ?? randomUUID(),
       leadId,
+      ...this.extractSequenceInfo(webhook),
       recipient: webhook.eventData.recipient,
       timestamp: new Date(webhook.eventData.timestamp * 1000),
     };
@@ -377,6 +415,22 @@ export class DeliveryTracker {
   // Event Storage
   // ============================================
 
+  /**
+   * Record an email handed to the mail provider
+   *
+   * Sends are the denominator for per-variant rates, so the campaign
+   * manager records them as they happen rather than waiting for
+   * delivery webhooks.
+   */
+  async recordSent(sent: Omit<SentEvent, "id" | "type" | "timestamp">): Promise<void> {
+    await this.storeEvent({
+      ...sent,
+      id: randomUUID(),
+      type: "sent",
+      timestamp: new Date(),
+    });
+  }
+
   /**
    * Store an email event
    */
@@ -388,7 +442,9 @@ export class DeliveryTracker {
       eventType: event.type,
       messageId: event.messageId,
       leadId: event.leadId,
-      campaignId: (event as { campaignId?: string }).campaignId,
+      ...(event.campaignId !== undefined && { campaignId: event.campaignId }),
+      ...(event.stepNumber !== undefined && { stepNumber: event.stepNumber }),
+      ...(event.variantId !== undefined && { variantId: event.variantId }),
       recipient: event.recipient,
       timestamp: event.timestamp,
       eventData: event as unknown as Record<string, unknown>,
@@ -396,7 +452,7 @@ export class DeliveryTracker {
     };
 
     try {
-      await this.eventStorage.insert(this.config.eventsTableName, storedEvent);
+      await this.eventStorage.insert(this.config.eventsTableName, mapEventToRow(storedEvent));
     } catch (error) {
       console.error("Failed to store email event:", error);
     }
@@ -422,12 +478,11 @@ export class DeliveryTracker {
         }
       );
 
-      // Cast to StoredEmailEvent array
-      const events = result.data as unknown as StoredEmailEvent[];
+      const events = result.data.map(mapRowToEvent);
 
       // Count events by type
       const counts = {
-        sent: 0, // Need to track sends separately
+        sent: 0,
         delivered: 0,
         opened: 0,
         clicked: 0,
@@ -444,6 +499,9 @@ export class DeliveryTracker {
 
       for (const event of events) {
         switch (event.eventType) {
+          case "sent":
+            counts.sent++;
+            break;
           case "delivered":
             uniqueDelivered.add(event.recipient);
             break;
@@ -471,8 +529,10 @@ export class DeliveryTracker {
       counts.delivered = uniqueDelivered.size;
       counts.opened = uniqueOpened.size;
       counts.clicked = uniqueClicked.size;
-      // Estimate sent as delivered + bounced (simplified)
-      counts.sent = counts.delivered + counts.bounced;
+      // Campaigns sent before sends were recorded: estimate as delivered + bounced
+      if (counts.sent === 0) {
+        counts.sent = counts.delivered + counts.bounced;
+      }
 
       return {
         campaignId,
@@ -482,6 +542,7 @@ export class DeliveryTracker {
         clickRate: calculateRate(counts.clicked, counts.opened),
         bounceRate: calculateRate(counts.bounced, counts.sent),
         replyRate: calculateRate(counts.replied, counts.delivered),
+        variants: aggregateVariantMetrics(events),
         calculatedAt: new Date(),
       };
     } catch (error) {
@@ -490,6 +551,32 @@ export class DeliveryTracker {
     }
   }
 
+  /**
+   * Get per-variant results for a campaign, optionally for one step
+   */
+  async getVariantMetrics(campaignId: string, stepNumber?: number): Promise<VariantMetrics[]> {
+    if (!this.eventStorage) return [];
+
+    const filters: Array<{ column: string; operator: string; value: unknown }> = [
+      { column: "campaign_id", operator: "eq", value: campaignId },
+    ];
+    if (stepNumber !== undefined) {
+      filters.push({ column: "sequence_step", operator: "eq", value: stepNumber });
+    }
+
+    try {
+      const result = await this.eventStorage.select<Record<string, unknown>>(
+        this.config.eventsTableName,
+        { filters }
+      );
+
+      return aggregateVariantMetrics(result.data.map(mapRowToEvent));
+    } catch (error) {
+      console.error("Failed to get variant metrics:", error);
+      return [];
+    }
+  }
+
   /**
    * Create empty metrics object
    */
@@ -509,6 +596,7 @@ export class DeliveryTracker {
       clickRate: 0,
       bounceRate: 0,
       replyRate: 0,
+      variants: [],
       calculatedAt: new Date(),
     };
   }
@@ -527,7 +615,7 @@ export class DeliveryTracker {
         }
       );
 
-      return result.data as unknown as StoredEmailEvent[];
+      return result.data.map(mapRowToEvent);
     } catch (error) {
       console.error("Failed to get lead events:", error);
       return [];
@@ -548,7 +636,7 @@ export class DeliveryTracker {
         }
       );
 
-      return result.data as unknown as StoredEmailEvent[];
+      return result.data.map(mapRowToEvent);
     } catch (error) {
       console.error("Failed to get message events:", error);
       return [];
@@ -561,21 +649,35 @@ export class DeliveryTracker {
 
   /**
    * Process an inbound reply email
+   *
+   * `messageId` is the email being replied to. Its recorded send decides
+   * the campaign, step and variant; `attribution` fills in when no send
+   * was recorded for it.
    */
   async processReply(
     recipient: string,
     subject: string,
     body: string,
     leadId: string,
-    messageId?: string
+    messageId?: string,
+    attribution: Pick<EmailEventBase, "campaignId" | "stepNumber" | "variantId"> = {}
   ): Promise<void> {
     const hasIntent = hasBookingIntent(body, this.config.bookingIntentKeywords);
 
+    // Attribute the reply to the campaign step and variant it answers
+    const original =
+      (messageId
+        ? (await this.getMessageEvents(messageId)).find((e) => e.eventType === "sent")
+        : undefined) ?? attribution;
+
     const replyEvent: RepliedEvent = {
       id: randomUUID(),
       type: "replied",
       messageId: messageId ?? randomUUID(),
       leadId,
+      ...(original.campaignId !== undefined && { campaignId: original.campaignId }),
+      ...(original.stepNumber !== undefined && { stepNumber: original.stepNumber }),
+      ...(original.variantId !== undefined && { variantId: original.variantId }),
       recipient,
       timestamp: new Date(),
       subject,
@@ -587,3 +689,87 @@ export class DeliveryTracker {
     await this.handleReplied(replyEvent);
   }
 }
+
+// ============================================
+// Row Mapping
+// ============================================
+
+function mapEventToRow(event: StoredEmailEvent): Record<string, unknown> {
+  return {
+    id: event.id,
+    event_type: event.eventType,
+    message_id: event.messageId,
+    lead_id: event.leadId,
+    campaign_id: event.campaignId ?? null,
+    sequence_step: event.stepNumber ?? null,
+    variant_id: event.variantId ?? null,
+    recipient: event.recipient,
+    subject: typeof event.eventData["subject"] === "string" ? event.eventData["subject"] : null,
+    metadata: event.eventData,
+    occurred_at: event.timestamp.toISOString(),
+    created_at: event.createdAt.toISOString(),
+  };
+}
+
+function mapRowToEvent(row: Record<string, unknown>): StoredEmailEvent {
+  return {
+    id: row["id"] as string,
+    eventType: row["event_type"] as string,
+    messageId: (row["message_id"] as string | null) ?? "",
+    leadId: row["lead_id"] as string,
+    ...(typeof row["campaign_id"] === "string" && { campaignId: row["campaign_id"] }),
+    ...(typeof row["sequence_step"] === "number" && { stepNumber: row["sequence_step"] }),
+    ...(typeof row["variant_id"] === "string" && { variantId: row["variant_id"] }),
+    recipient: row["recipient"] as string,
+    timestamp: new Date(row["occurred_at"] as string),
+    eventData: (row["metadata"] as Record<string, unknown> | null) ?? {},
+    createdAt: new Date(row["created_at"] as string),
+  };
+}
+
+// ============================================
+// Variant Aggregation
+// ============================================
+
+/**
+ * Group events by step and variant, counting unique leads per event type
+ */
+function aggregateVariantMetrics(events: StoredEmailEvent[]): VariantMetrics[] {
+  const groups = new Map<
+    string,
+    { stepNumber: number; variantId: string; leads: Record<string, Set<string>> }
+  >();
+
+  for (const event of events) {
+    if (event.stepNumber === undefined || event.variantId === undefined) continue;
+
+    const key = `${event.stepNumber}:${event.variantId}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { stepNumber: event.stepNumber, variantId: event.variantId, leads: {} };
+      groups.set(key, group);
+    }
+    (group.leads[event.eventType] ??= new Set<string>()).add(event.leadId);
+  }
+
+  return Array.from(groups.values())
+    .map(({ stepNumber, variantId, leads }) => {
+      const sent = leads["sent"]?.size ?? 0;
+      const opened = leads["opened"]?.size ?? 0;
+      const clicked = leads["clicked"]?.size ?? 0;
+      const replied = leads["replied"]?.size ?? 0;
+
+      return {
+        stepNumber,
+        variantId,
+        sent,
+        opened,
+        clicked,
+        replied,
+        openRate: calculateRate(opened, sent),
+        clickRate: calculateRate(clicked, sent),
+        replyRate: calculateRate(replied, sent),
+      };
+    })
+    .sort((a, b) => a.stepNumber - b.stepNumber || a.variantId.localeCompare(b.variantId));
+}
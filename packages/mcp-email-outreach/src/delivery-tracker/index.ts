@@ -18,6 +18,7 @@ export type {
   EmailEvent,
   EmailEventBase,
   EmailEventType,
+  SentEvent,
   DeliveredEvent,
   OpenedEvent,
   ClickedEvent,
@@ -26,6 +27,7 @@ export type {
   UnsubscribedEvent,
   FailedEvent,
   RepliedEvent,
+  VariantMetrics,
   EmailMetrics,
   StoredEmailEvent,
   DeliveryTrackerConfig,
@@ -34,6 +36,7 @@ export type {
 
 export {
   EmailEventBaseSchema,
+  SentEventSchema,
   DeliveredEventSchema,
   OpenedEventSchema,
   ClickedEventSchema,
@@ -42,6 +45,7 @@ export {
   UnsubscribedEventSchema,
   FailedEventSchema,
   RepliedEventSchema,
+  VariantMetricsSchema,
   EmailMetricsSchema,
   StoredEmailEventSchema,
   DeliveryTrackerConfigSchema,
@@ -12,12 +12,26 @@ export const EmailEventBaseSchema = z.object({
   messageId: z.string(),
   leadId: z.string().uuid(),
   campaignId: z.string().uuid().optional(),
+  stepNumber: z.number().int().positive().optional(),
+  variantId: z.string().optional(),
   recipient: z.string().email(),
   timestamp: z.date(),
 });
 
 export type EmailEventBase = z.output<typeof EmailEventBaseSchema>;
 
+/**
+ * Sent event (recorded by the campaign manager, not Mailgun)
+ */
+export const SentEventSchema = EmailEventBaseSchema.extend({
+  type: z.literal("sent"),
+  templateId: z.string().optional(),
+  templateVersion: z.number().int().positive().optional(),
+  subject: z.string().optional(),
+});
+
+export type SentEvent = z.output<typeof SentEventSchema>;
+
 /**
  * Delivered event
  */
@@ -109,6 +123,7 @@ export type RepliedEvent = z.output<typeof RepliedEventSchema>;
  * All email event types
  */
 export type EmailEvent =
+  | SentEvent
   | DeliveredEvent
   | OpenedEvent
   | ClickedEvent
@@ -127,6 +142,26 @@ export type EmailEventType = EmailEvent["type"];
 // Email Metrics
 // ============================================
 
+/**
+ * Results of one variant of a sequence step
+ *
+ * Rates are per lead sent to, so variants with different
+ * delivery counts stay comparable.
+ */
+export const VariantMetricsSchema = z.object({
+  stepNumber: z.number().int().positive(),
+  variantId: z.string(),
+  sent: z.number().int().nonnegative(),
+  opened: z.number().int().nonnegative(),
+  clicked: z.number().int().nonnegative(),
+  replied: z.number().int().nonnegative(),
+  openRate: z.number().min(0).max(100),
+  clickRate: z.number().min(0).max(100),
+  replyRate: z.number().min(0).max(100),
+});
+
+export type VariantMetrics = z.output<typeof VariantMetricsSchema>;
+
 /**
  * Email campaign metrics
  */
@@ -150,6 +185,9 @@ export const EmailMetricsSchema = z.object({
   bounceRate: z.number().min(0).max(100),
   replyRate: z.number().min(0).max(100),
 
+  // Per-variant results for steps with variant tests
+  variants: z.array(VariantMetricsSchema).default([]),
+
   // Timestamps
   calculatedAt: z.date(),
 });
@@ -169,6 +207,8 @@ export const StoredEmailEventSchema = z.object({
   messageId: z.string(),
   leadId: z.string().uuid(),
   campaignId: z.string().uuid().optional(),
+  stepNumber: z.number().int().positive().optional(),
+  variantId: z.string().optional(),
   recipient: z.string().email(),
   timestamp: z.date(),
   eventData: z.record(z.unknown()).default({}),
@@ -227,6 +267,8 @@ export interface WebhookProcessingResult {
   success: boolean;
   eventId: string | null;
   eventType: string | null;
+  /** Mailgun message ID the event refers to */
+  messageId: string | null;
   leadId: string | null;
   statusUpdated: boolean;
   error: string | null;
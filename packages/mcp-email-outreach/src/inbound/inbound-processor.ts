@@ -0,0 +1,293 @@
+import { ValidationError } from "@the-closer/shared";
+
+import type { DeliveryTracker, EmailEventBase } from "../delivery-tracker/index.js";
+import { parseMailbox, type MailgunClient } from "../mailgun/index.js";
+import { parseInboundMime, parseMessageIds } from "./mime-parser.js";
+import { extractReplyText, htmlToText } from "./reply-extractor.js";
+import {
+  type InboundEmail,
+  type InboundProcessingResult,
+  type ReplyMatchSource,
+  MailgunRoutePayloadSchema,
+} from "./types.js";
+
+/**
+ * Reply matched to the lead and campaign it belongs to
+ */
+interface ReplyMatch {
+  leadId: string;
+  matchedBy: ReplyMatchSource;
+  /** Our Message-ID the reply answers (header matches only) */
+  originalMessageId?: string;
+  attribution: Pick<EmailEventBase, "campaignId" | "stepNumber" | "variantId">;
+}
+
+/**
+ * Inbound Reply Processor
+ *
+ * Turns replies from Mailgun routes or raw MIME into reply events.
+ * Each reply is matched to the email it answers through its
+ * In-Reply-To and References headers, falling back to the lead and
+ * campaign tags we send, then handed to DeliveryTracker.processReply
+ * so sequences halt and booking intent is detected.
+ */
+export class InboundReplyProcessor {
+  private readonly deliveryTracker: DeliveryTracker;
+  private readonly mailgunClient: MailgunClient | null;
+
+  constructor(
+    deliveryTracker: DeliveryTracker,
+    mailgunClient: MailgunClient | null // Null when routes aren't used
+  ) {
+    this.deliveryTracker = deliveryTracker;
+    this.mailgunClient = mailgunClient;
+  }
+
+  /**
+   * Process the POST body of a Mailgun route
+   */
+  async processMailgunRoute(payload: unknown): Promise<InboundProcessingResult> {
+    try {
+      const parseResult = MailgunRoutePayloadSchema.safeParse(payload);
+      if (!parseResult.success) {
+        throw new ValidationError("Invalid Mailgun route payload", {
+          context: { errors: parseResult.error.errors },
+        });
+      }
+      const route = parseResult.data;
+
+      if (!this.mailgunClient) {
+        throw new ValidationError("Route verification requires a Mailgun client");
+      }
+      this.mailgunClient.verifyRequest(route.timestamp, route.token, route.signature);
+
+      const headers = parseRouteHeaders(route["message-headers"]);
+      const messageId = parseMessageIds(route["Message-Id"] ?? headers["message-id"])[0];
+      const inReplyTo = parseMessageIds(route["In-Reply-To"] ?? headers["in-reply-to"])[0];
+
+      const email: InboundEmail = {
+        ...(messageId !== undefined && { messageId }),
+        ...(inReplyTo !== undefined && { inReplyTo }),
+        references: parseMessageIds(route.References ?? headers["references"]),
+        from: route.from,
+        to: route.recipient,
+        subject: route.subject,
+        text: route["body-plain"],
+        ...(route["body-html"] !== undefined && { html: route["body-html"] }),
+        headers,
+      };
+
+      // Mailgun has already removed quoted history when stripped-text is present
+      const stripped = route["stripped-text"]?.trim();
+      const replyText = stripped !== undefined && stripped !== "" ? stripped : getReplyText(email);
+
+      return await this.processInbound(email, replyText);
+    } catch (error) {
+      return failure(null, error);
+    }
+  }
+
+  /**
+   * Process a raw RFC 5322 message
+   */
+  async processRawMime(raw: string): Promise<InboundProcessingResult> {
+    try {
+      const email = parseInboundMime(raw);
+      return await this.processInbound(email, getReplyText(email));
+    } catch (error) {
+      return failure(null, error);
+    }
+  }
+
+  /**
+   * Match a parsed reply and record it
+   */
+  private async processInbound(
+    email: InboundEmail,
+    replyText: string
+  ): Promise<InboundProcessingResult> {
+    const messageId = email.messageId ?? null;
+
+    try {
+      const match = await this.matchReply(email);
+      if (!match) {
+        return {
+          ...failure(messageId, "Could not match reply to a sent email"),
+          replyText,
+        };
+      }
+
+      await this.deliveryTracker.processReply(
+        parseMailbox(email.from).address,
+        email.subject,
+        replyText,
+        match.leadId,
+        match.originalMessageId,
+        match.attribution
+      );
+
+      return {
+        success: true,
+        messageId,
+        originalMessageId: match.originalMessageId ?? null,
+        leadId: match.leadId,
+        campaignId: match.attribution.campaignId ?? null,
+        matchedBy: match.matchedBy,
+        replyText,
+        error: null,
+      };
+    } catch (error) {
+      return { ...failure(messageId, error), replyText };
+    }
+  }
+
+  /**
+   * Find the lead a reply belongs to
+   *
+   * In-Reply-To is tried first, then References from newest to oldest,
+   * since the latest message in the thread is most likely ours.
+   */
+  private async matchReply(email: InboundEmail): Promise<ReplyMatch | null> {
+    const candidates = [...email.references]
+      .reverse()
+      .map((id): [string, ReplyMatchSource] => [id, "references"]);
+    if (email.inReplyTo !== undefined) {
+      candidates.unshift([email.inReplyTo, "in-reply-to"]);
+    }
+
+    for (const [candidate, matchedBy] of candidates) {
+      const match = await this.matchMessageId(candidate, matchedBy);
+      if (match) return match;
+    }
+
+    return matchTags(email.headers);
+  }
+
+  /**
+   * Look up the send recorded for one of our Message-IDs
+   *
+   * Providers differ on whether stored IDs keep their angle brackets,
+   * so both forms are tried.
+   */
+  private async matchMessageId(
+    messageId: string,
+    matchedBy: ReplyMatchSource
+  ): Promise<ReplyMatch | null> {
+    for (const id of new Set([messageId, messageId.replace(/^<|>$/g, "")])) {
+      const events = await this.deliveryTracker.getMessageEvents(id);
+      const sent = events.find((e) => e.eventType === "sent") ?? events[0];
+      if (!sent) continue;
+
+      return {
+        leadId: sent.leadId,
+        matchedBy,
+        originalMessageId: id,
+        attribution: {
+          ...(sent.campaignId !== undefined && { campaignId: sent.campaignId }),
+          ...(sent.stepNumber !== undefined && { stepNumber: sent.stepNumber }),
+          ...(sent.variantId !== undefined && { variantId: sent.variantId }),
+        },
+      };
+    }
+
+    return null;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Reply text of an inbound email, using the HTML body when there is no text
+ */
+function getReplyText(email: InboundEmail): string {
+  const text = email.text.trim() !== "" ? email.text : htmlToText(email.html ?? "");
+  return extractReplyText(text);
+}
+
+/**
+ * Match a reply through the X-Mailgun-Tag and X-Mailgun-Variables
+ * headers of our original email, which some clients carry over
+ */
+function matchTags(headers: Record<string, string>): ReplyMatch | null {
+  const attribution: ReplyMatch["attribution"] = {};
+  let leadId: string | undefined;
+
+  for (const tag of (headers["x-mailgun-tag"] ?? "").split(",").map((t) => t.trim())) {
+    if (tag.startsWith("lead-")) {
+      leadId = tag.substring(5);
+    } else if (tag.startsWith("campaign-")) {
+      attribution.campaignId = tag.substring(9);
+    } else if (tag.startsWith("step-")) {
+      const stepNumber = Number.parseInt(tag.substring(5), 10);
+      if (Number.isInteger(stepNumber) && stepNumber > 0) {
+        attribution.stepNumber = stepNumber;
+      }
+    } else if (tag.startsWith("variant-")) {
+      attribution.variantId = tag.substring(8);
+    }
+  }
+
+  if (leadId === undefined) {
+    const variables = headers["x-mailgun-variables"];
+    if (variables !== undefined) {
+      try {
+        const parsed = JSON.parse(variables) as Record<string, unknown>;
+        if (typeof parsed["lead_id"] === "string") {
+          leadId = parsed["lead_id"];
+        }
+      } catch {
+        // Not JSON - nothing to match on
+      }
+    }
+  }
+
+  return leadId !== undefined ? { leadId, matchedBy: "tags", attribution } : null;
+}
+
+/**
+ * Parse Mailgun's message-headers field into lower-cased header values
+ */
+function parseRouteHeaders(messageHeaders: string | undefined): Record<string, string> {
+  if (messageHeaders === undefined) {
+    return {};
+  }
+
+  let pairs: unknown;
+  try {
+    pairs = JSON.parse(messageHeaders);
+  } catch {
+    return {};
+  }
+  if (!Array.isArray(pairs)) {
+    return {};
+  }
+
+  const headers: Record<string, string> = {};
+  for (const pair of pairs) {
+    if (!Array.isArray(pair) || typeof pair[0] !== "string" || typeof pair[1] !== "string") {
+      continue;
+    }
+    const name = pair[0].toLowerCase();
+    headers[name] = headers[name] !== undefined ? `${headers[name]}, ${pair[1]}` : pair[1];
+  }
+
+  return headers;
+}
+
+/**
+ * Build a failed processing result
+ */
+function failure(messageId: string | null, error: unknown): InboundProcessingResult {
+  return {
+    success: false,
+    messageId,
+    originalMessageId: null,
+    leadId: null,
+    campaignId: null,
+    matchedBy: null,
+    replyText: null,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
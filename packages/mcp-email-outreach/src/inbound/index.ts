@@ -0,0 +1,19 @@
+/**
+ * Inbound Reply Module
+ *
+ * Receives replies from Mailgun routes or as raw MIME, strips quoted
+ * history and signatures, and matches them to the emails they answer.
+ */
+
+export { InboundReplyProcessor } from "./inbound-processor.js";
+export { parseInboundMime, parseMessageIds, decodeEncodedWords } from "./mime-parser.js";
+export { extractReplyText, htmlToText } from "./reply-extractor.js";
+
+export type {
+  InboundEmail,
+  MailgunRoutePayload,
+  ReplyMatchSource,
+  InboundProcessingResult,
+} from "./types.js";
+
+export { InboundEmailSchema, MailgunRoutePayloadSchema } from "./types.js";
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import { decodeEncodedWords, parseInboundMime, parseMessageIds } from "./mime-parser.js";
+
+function message(lines: string[]): string {
+  return lines.join("\r\n");
+}
+
+describe("parseInboundMime", () => {
+  it("parses a plain text reply and its threading headers", () => {
+    const raw = message([
+      "From: Jane Owner <jane@smithplumbing.com>",
+      "To: outreach@mail.example.org",
+      "Subject: Re: Your website",
+      "Message-ID: <reply-1@mail.smithplumbing.com>",
+      "In-Reply-To: <sent-1@mail.example.org>",
+      "References: <sent-0@mail.example.org>",
+      " <sent-1@mail.example.org>",
+      "",
+      "Sounds good, call me tomorrow.",
+    ]);
+
+    const email = parseInboundMime(raw);
+
+    expect(email).toMatchObject({
+      messageId: "<reply-1@mail.smithplumbing.com>",
+      inReplyTo: "<sent-1@mail.example.org>",
+      references: ["<sent-0@mail.example.org>", "<sent-1@mail.example.org>"],
+      from: "Jane Owner <jane@smithplumbing.com>",
+      to: "outreach@mail.example.org",
+      subject: "Re: Your website",
+      text: "Sounds good, call me tomorrow.",
+    });
+    expect(email.html).toBeUndefined();
+    expect(email.headers["subject"]).toBe("Re: Your website");
+  });
+
+  it("keeps the first text and HTML parts of nested multiparts and skips attachments", () => {
+    const raw = message([
+      "From: jane@smithplumbing.com",
+      "Subject: Re: Quote",
+      'Content-Type: multipart/mixed; boundary="outer"',
+      "",
+      "--outer",
+      'Content-Type: multipart/alternative; boundary="inner"',
+      "",
+      "--inner",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Caf=C3=A9 is open =",
+      "all week",
+      "--inner",
+      "Content-Type: text/html; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("<p>Café</p>").toString("base64"),
+      "--inner--",
+      "--outer",
+      "Content-Type: text/plain",
+      'Content-Disposition: attachment; filename="notes.txt"',
+      "",
+      "attached notes",
+      "--outer--",
+      "epilogue",
+    ]);
+
+    const email = parseInboundMime(raw);
+
+    expect(email.text).toBe("Café is open all week");
+    expect(email.html).toBe("<p>Café</p>");
+  });
+
+  it("decodes the charset of the body", () => {
+    const raw = message([
+      "From: jane@smithplumbing.com",
+      "Content-Type: text/plain; charset=iso-8859-1",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Gr=FC=DFe",
+    ]);
+
+    expect(parseInboundMime(raw).text).toBe("Grüße");
+  });
+
+  it("decodes encoded words in the From and Subject headers", () => {
+    const raw = message([
+      "From: =?UTF-8?B?Sm9zw6k=?= <jose@taqueria.com>",
+      "Subject: =?UTF-8?Q?Re:_Tu_sitio_web_r=C3=A1pido?=",
+      "",
+      "Hola",
+    ]);
+
+    const email = parseInboundMime(raw);
+
+    expect(email.from).toBe("José <jose@taqueria.com>");
+    expect(email.subject).toBe("Re: Tu sitio web rápido");
+  });
+
+  it("returns empty text for a message without a text part", () => {
+    const raw = message([
+      "From: jane@smithplumbing.com",
+      "Content-Type: image/png",
+      "Content-Transfer-Encoding: base64",
+      "",
+      "iVBORw0KGgo=",
+    ]);
+
+    expect(parseInboundMime(raw).text).toBe("");
+  });
+
+  it("rejects a message without a From header", () => {
+    expect(() => parseInboundMime(message(["Subject: Hi", "", "Body"]))).toThrow("From header");
+  });
+});
+
+describe("parseMessageIds", () => {
+  it("extracts every bracketed ID", () => {
+    expect(parseMessageIds("<a@x.com> junk <b@y.com>")).toEqual(["<a@x.com>", "<b@y.com>"]);
+  });
+
+  it("returns nothing for a missing or malformed header", () => {
+    expect(parseMessageIds(undefined)).toEqual([]);
+    expect(parseMessageIds("a@x.com")).toEqual([]);
+  });
+});
+
+describe("decodeEncodedWords", () => {
+  it("joins adjacent encoded words without the whitespace between them", () => {
+    expect(decodeEncodedWords("=?UTF-8?Q?Hello_?= =?UTF-8?Q?W=C3=B6rld?=")).toBe("Hello Wörld");
+  });
+
+  it("leaves plain text alone", () => {
+    expect(decodeEncodedWords("Re: Quote for =? something")).toBe("Re: Quote for =? something");
+  });
+});
@@ -0,0 +1,216 @@
+import { ValidationError } from "@the-closer/shared";
+
+import { parseMessageHeaders } from "../transport/mime.js";
+import type { InboundEmail } from "./types.js";
+
+/**
+ * Maximum multipart nesting followed when looking for body parts
+ */
+const MAX_MULTIPART_DEPTH = 10;
+
+/**
+ * Parse a raw RFC 5322 message into an inbound email
+ *
+ * Only the first text/plain and text/html parts are kept; attachments
+ * and forwarded messages are skipped.
+ */
+export function parseInboundMime(raw: string): InboundEmail {
+  const headers = parseMessageHeaders(raw);
+  const from = headers["from"];
+  if (from === undefined) {
+    throw new ValidationError("Inbound message has no From header");
+  }
+
+  const body: { text?: string; html?: string } = {};
+  collectBodyParts(raw, body, 0);
+
+  const messageId = parseMessageIds(headers["message-id"])[0];
+  const inReplyTo = parseMessageIds(headers["in-reply-to"])[0];
+
+  return {
+    ...(messageId !== undefined && { messageId }),
+    ...(inReplyTo !== undefined && { inReplyTo }),
+    references: parseMessageIds(headers["references"]),
+    from: decodeEncodedWords(from),
+    to: decodeEncodedWords(headers["to"] ?? ""),
+    subject: decodeEncodedWords(headers["subject"] ?? ""),
+    text: body.text ?? "",
+    ...(body.html !== undefined && { html: body.html }),
+    headers,
+  };
+}
+
+/**
+ * Extract the angle-bracketed IDs from a Message-ID style header
+ */
+export function parseMessageIds(value: string | undefined): string[] {
+  return value?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+/**
+ * Decode RFC 2047 encoded words ("=?UTF-8?B?...?=")
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2") // Whitespace between encoded words is not content
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toUpperCase() === "B"
+          ? Buffer.from(text, "base64")
+          : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+// ============================================
+// Body Parts
+// ============================================
+
+/**
+ * Walk a MIME entity and keep the first text and HTML bodies
+ */
+function collectBodyParts(
+  entity: string,
+  body: { text?: string; html?: string },
+  depth: number
+): void {
+  // A part that starts with a blank line has no headers of its own
+  const headers = /^\r?\n/.test(entity) ? {} : parseMessageHeaders(entity);
+  const { type, params } = parseContentType(headers["content-type"]);
+  const disposition = headers["content-disposition"]?.toLowerCase() ?? "";
+
+  if (disposition.startsWith("attachment")) {
+    return;
+  }
+
+  if (type.startsWith("multipart/")) {
+    const boundary = params["boundary"];
+    if (boundary === undefined || depth >= MAX_MULTIPART_DEPTH) {
+      return;
+    }
+    for (const part of splitMultipart(getEntityBody(entity), boundary)) {
+      collectBodyParts(part, body, depth + 1);
+    }
+    return;
+  }
+
+  if (type !== "text/plain" && type !== "text/html") {
+    return;
+  }
+
+  const content = decodeBody(
+    getEntityBody(entity),
+    headers["content-transfer-encoding"],
+    params["charset"] ?? "utf-8"
+  );
+
+  if (type === "text/plain") {
+    body.text ??= content;
+  } else {
+    body.html ??= content;
+  }
+}
+
+/**
+ * Everything after the blank line that ends the header block
+ */
+function getEntityBody(entity: string): string {
+  if (/^\r?\n/.test(entity)) {
+    return entity.replace(/^\r?\n/, "");
+  }
+  const match = /\r?\n\r?\n/.exec(entity);
+  return match ? entity.slice(match.index + match[0].length) : "";
+}
+
+/**
+ * Split a multipart body into its parts
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join("\n"));
+      // The closing delimiter ends the multipart; anything after is epilogue
+      if (line.startsWith(`${delimiter}--`)) return parts;
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+
+  if (current) parts.push(current.join("\n"));
+  return parts;
+}
+
+/**
+ * Parse a Content-Type header into its media type and parameters
+ */
+function parseContentType(value: string | undefined): {
+  type: string;
+  params: Record<string, string>;
+} {
+  if (value === undefined) {
+    return { type: "text/plain", params: {} };
+  }
+
+  const [type = "", ...rest] = value.split(";");
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const separator = param.indexOf("=");
+    if (separator === -1) continue;
+    const name = param.slice(0, separator).trim().toLowerCase();
+    params[name] = param
+      .slice(separator + 1)
+      .trim()
+      .replace(/^"(.*)"$/, "$1");
+  }
+
+  return { type: type.trim().toLowerCase(), params };
+}
+
+/**
+ * Undo the transfer encoding of a body and decode its charset
+ */
+function decodeBody(body: string, transferEncoding: string | undefined, charset: string): string {
+  switch (transferEncoding?.trim().toLowerCase()) {
+    case "base64":
+      return decodeCharset(Buffer.from(body.replace(/\s+/g, ""), "base64"), charset);
+    case "quoted-printable":
+      return decodeCharset(decodeQuotedPrintable(body.replace(/=\r?\n/g, "")), charset);
+    default:
+      return body;
+  }
+}
+
+/**
+ * Decode quoted-printable text (soft line breaks already removed)
+ */
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3);
+    if (text[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(Number.parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(text[i] ?? "", "utf-8"));
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode bytes in the given charset, falling back to UTF-8 for unknown ones
+ */
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString("utf-8");
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { extractReplyText, htmlToText } from "./reply-extractor.js";
+
+describe("extractReplyText", () => {
+  it("cuts at a Gmail-style attribution line", () => {
+    const text = [
+      "Yes, let's talk Thursday.",
+      "",
+      "On Mon, 3 Feb 2026 at 10:02, Alex <alex@example.org> wrote:",
+      "> Would you like a walkthrough?",
+    ].join("\n");
+
+    expect(extractReplyText(text)).toBe("Yes, let's talk Thursday.");
+  });
+
+  it("joins a wrapped attribution line", () => {
+    const text = [
+      "Sure.",
+      "On Mon, 3 Feb 2026 at 10:02, Alex <alex@example.org>",
+      "wrote:",
+      "> Earlier message",
+    ].join("\n");
+
+    expect(extractReplyText(text)).toBe("Sure.");
+  });
+
+  it("cuts at Outlook's From/Sent header block", () => {
+    const text = [
+      "Please send pricing.",
+      "",
+      "From: Alex <alex@example.org>",
+      "Sent: Monday, February 3, 2026 10:02 AM",
+      "To: Jane",
+      "Subject: Your website",
+    ].join("\r\n");
+
+    expect(extractReplyText(text)).toBe("Please send pricing.");
+  });
+
+  it("keeps a From: line that isn't a header block", () => {
+    expect(extractReplyText("From: the front desk, thanks!\nBye")).toBe(
+      "From: the front desk, thanks!\nBye"
+    );
+  });
+
+  it("cuts at original-message separators, signatures and device signatures", () => {
+    expect(extractReplyText("Thanks\n-----Original Message-----\nold")).toBe("Thanks");
+    expect(extractReplyText("Thanks\n-- \nJane Owner\nSmith Plumbing")).toBe("Thanks");
+    expect(extractReplyText("Thanks\n\nSent from my iPhone")).toBe("Thanks");
+    expect(extractReplyText("Danke\nAm 3. Feb. 2026 schrieb Alex <a@x.org>:\n> alt")).toBe("Danke");
+  });
+
+  it("drops quoted lines but keeps inline answers", () => {
+    const text = ["> Do you have a booking page?", "No, we take calls.", "> Budget?", "About $2k."].join(
+      "\n"
+    );
+
+    expect(extractReplyText(text)).toBe("No, we take calls.\nAbout $2k.");
+  });
+});
+
+describe("htmlToText", () => {
+  it("turns breaks and block ends into newlines and decodes entities", () => {
+    expect(htmlToText("<div>Hi&nbsp;Alex,</div><p>Tom &amp; I agree &#8212; call&#x21;</p>")).toBe(
+      "Hi Alex,\nTom & I agree — call!"
+    );
+    expect(htmlToText("One<br>Two<br/>Three")).toBe("One\nTwo\nThree");
+  });
+
+  it("drops blockquotes, the Gmail quote and non-content elements", () => {
+    const html = [
+      "<html><head><title>x</title></head><body>",
+      "<style>p { color: red }</style>",
+      "<p>Works for me.</p>",
+      "<blockquote>Old message</blockquote>",
+      '<div class="gmail_quote">On Mon, Alex wrote:<div>Earlier</div></div>',
+      "</body></html>",
+    ].join("");
+
+    expect(htmlToText(html)).toBe("Works for me.");
+  });
+
+  it("leaves unknown entities as they are", () => {
+    expect(htmlToText("&copy; 2026")).toBe("&copy; 2026");
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Lines that introduce the quoted history of a reply
+ */
+const QUOTE_HEADER_PATTERNS = [
+  /^On\b.+\bwrote:\s*$/,
+  /^Am\b.+\bschrieb\b.*:\s*$/,
+  /^Le\b.+\ba écrit\s*:\s*$/,
+  /^El\b.+\bescribió:\s*$/,
+  /^-{2,}\s*(Original|Forwarded) Message\s*-{2,}\s*$/i,
+  /^_{10,}\s*$/,
+];
+
+/**
+ * Signatures added by mail apps
+ */
+const DEVICE_SIGNATURE_PATTERN = /^(Sent from my\b|Sent from (Mail|Outlook) for\b|Get Outlook for\b)/i;
+
+/**
+ * Extract the new text of a reply
+ *
+ * Cuts at the first quote header ("On ... wrote:", "-----Original
+ * Message-----", Outlook's "From: ... Sent: ..." block) or signature
+ * delimiter, and drops ">" quoted lines so inline answers survive.
+ */
+export function extractReplyText(text: string): string {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const reply: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? "";
+    const trimmed = line.trim();
+
+    if (isQuoteHeader(trimmed, lines.slice(i + 1, i + 5))) break;
+    if (line === "-- " || trimmed === "--") break;
+    if (DEVICE_SIGNATURE_PATTERN.test(trimmed)) break;
+    if (trimmed.startsWith(">")) continue;
+
+    reply.push(line);
+  }
+
+  return reply.join("\n").trim();
+}
+
+/**
+ * Convert an HTML body to plain text for reply extraction
+ *
+ * Blockquotes and Gmail's quote container are dropped first, since
+ * HTML-only clients rarely include a text quote header.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|head)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<blockquote\b[^>]*>[\s\S]*?<\/blockquote>/gi, "")
+      .replace(/<div\b[^>]*class="[^"]*gmail_quote[^"]*"[^>]*>[\s\S]*$/i, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Check whether a line starts the quoted history
+ *
+ * Attribution lines are often wrapped ("On Mon, 3 Feb 2026 at 10:02,
+ * Jane <jane@example.com>\nwrote:"), so the next line is joined in
+ * for a second attempt.
+ */
+function isQuoteHeader(line: string, following: string[]): boolean {
+  if (QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(line))) {
+    return true;
+  }
+
+  const next = following[0]?.trim() ?? "";
+  if (/^On\b/.test(line) && /\bwrote:\s*$/.test(next)) {
+    return true;
+  }
+
+  // Outlook: "From: ..." followed by "Sent:" or "Date:" in the header block
+  if (/^\*?From:\*?\s/.test(line)) {
+    return following.some((l) => /^\*?(Sent|Date):\*?\s/.test(l.trim()));
+  }
+
+  return false;
+}
+
+/**
+ * Decode the HTML entities that commonly appear in email bodies
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+  };
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith("#x") || code.startsWith("#X")) {
+      return String.fromCodePoint(Number.parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(code.slice(1), 10));
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
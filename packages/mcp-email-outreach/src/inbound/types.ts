@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+// ============================================
+// Inbound Email
+// ============================================
+
+/**
+ * Inbound email reduced to what reply matching needs
+ */
+export const InboundEmailSchema = z.object({
+  /** Message-ID of the inbound email itself */
+  messageId: z.string().optional(),
+  /** Message-ID the email directly replies to */
+  inReplyTo: z.string().optional(),
+  /** Message-IDs of the thread, oldest first */
+  references: z.array(z.string()).default([]),
+  from: z.string(),
+  to: z.string(),
+  subject: z.string(),
+  text: z.string(),
+  html: z.string().optional(),
+  /** Header values keyed by lower-cased name */
+  headers: z.record(z.string()).default({}),
+});
+
+export type InboundEmail = z.output<typeof InboundEmailSchema>;
+
+// ============================================
+// Mailgun Routes
+// ============================================
+
+/**
+ * Body of a Mailgun route "forward" or "store and notify" POST
+ *
+ * Field names are Mailgun's. Only the fields used for reply
+ * processing are validated; everything else passes through.
+ */
+export const MailgunRoutePayloadSchema = z
+  .object({
+    recipient: z.string(),
+    sender: z.string().optional(),
+    from: z.string(),
+    subject: z.string().default(""),
+    "body-plain": z.string().default(""),
+    "body-html": z.string().optional(),
+    /** Reply text with quoted history removed by Mailgun */
+    "stripped-text": z.string().optional(),
+    /** JSON array of [name, value] pairs */
+    "message-headers": z.string().optional(),
+    "Message-Id": z.string().optional(),
+    "In-Reply-To": z.string().optional(),
+    References: z.string().optional(),
+    timestamp: z.string(),
+    token: z.string(),
+    signature: z.string(),
+  })
+  .passthrough();
+
+export type MailgunRoutePayload = z.output<typeof MailgunRoutePayloadSchema>;
+
+// ============================================
+// Processing Results
+// ============================================
+
+/**
+ * How a reply was matched to the email it answers
+ */
+export type ReplyMatchSource = "in-reply-to" | "references" | "tags";
+
+/**
+ * Result of processing an inbound reply
+ */
+export interface InboundProcessingResult {
+  success: boolean;
+  /** Message-ID of the inbound email */
+  messageId: string | null;
+  /** Message-ID of our email the reply answers, when matched by header */
+  originalMessageId: string | null;
+  leadId: string | null;
+  campaignId: string | null;
+  matchedBy: ReplyMatchSource | null;
+  /** Reply text without quoted history and signature */
+  replyText: string | null;
+  error: string | null;
+}
@@ -9,6 +9,7 @@
 
 // Server exports
 export { EmailOutreachServer } from "./server.js";
+export type { EmailOutreachServerDependencies } from "./server.js";
 export type { EmailTemplate, SendEmailRequest } from "./types.js";
 
 // Mailgun client exports
@@ -20,6 +21,7 @@ export {
   isRetryableError,
   MailgunClientConfigSchema,
   EmailOptionsSchema,
+  MailboxSchema,
   SendResultSchema,
   RecipientSchema,
   BulkEmailOptionsSchema,
@@ -33,6 +35,8 @@ export {
   RateLimitStatusSchema,
   MailgunErrorCode,
   TEMPLATE_VARIABLE_PATTERN,
+  parseMailbox,
+  formatMailbox,
 } from "./mailgun/index.js";
 
 export type {
@@ -52,9 +56,38 @@ export type {
   MailgunErrorCodeType,
 } from "./mailgun/index.js";
 
+// Mail transport exports
+export {
+  SmtpTransport,
+  OutboxTransport,
+  MailTransportError,
+  MailTransportTypeSchema,
+  SmtpTransportConfigSchema,
+  OutboxTransportConfigSchema,
+  MailTransportErrorCode,
+  buildMimeMessage,
+  createMessageId,
+  parseMessageHeaders,
+  getEnvelopeRecipients,
+} from "./transport/index.js";
+
+export type {
+  MailTransport,
+  MailTransportType,
+  SmtpTransportConfig,
+  OutboxTransportConfig,
+  OutboxMessage,
+  MailTransportErrorCodeType,
+} from "./transport/index.js";
+
 // Template engine exports
 export {
   TemplateEngine,
+  InMemoryTemplateStorage,
+  SupabaseTemplateStorage,
+  toTemplateVersion,
+  diffTemplateVersions,
+  diffLines,
   DEFAULT_TEMPLATES,
   DEFAULT_TEMPLATE_IDS,
   INITIAL_OUTREACH_TEMPLATE,
@@ -63,11 +96,14 @@ export {
   getDefaultTemplate,
   RenderedEmailSchema,
   StoredTemplateSchema,
+  TemplateVersionSchema,
+  TEMPLATE_DIFF_FIELDS,
   TemplateEngineConfigSchema,
   TemplateEngineErrorCode,
   getTopPainPoint,
   formatLoadTime,
   formatScore,
+  formatTechnology,
 } from "./template-engine/index.js";
 
 export type {
@@ -75,6 +111,12 @@ export type {
   TemplateVariables,
   RenderedEmail,
   StoredTemplate,
+  TemplateStorage,
+  TemplateVersion,
+  TemplateDiff,
+  TemplateDiffField,
+  TemplateDiffLine,
+  TemplateFieldChange,
   TemplateEngineConfig,
   ToneSeverity,
   ToneReplacements,
@@ -85,6 +127,7 @@ export type {
 export {
   DeliveryTracker,
   EmailEventBaseSchema,
+  SentEventSchema,
   DeliveredEventSchema,
   OpenedEventSchema,
   ClickedEventSchema,
@@ -93,6 +136,7 @@ export {
   UnsubscribedEventSchema,
   FailedEventSchema,
   RepliedEventSchema,
+  VariantMetricsSchema,
   EmailMetricsSchema,
   StoredEmailEventSchema,
   DeliveryTrackerConfigSchema,
@@ -107,6 +151,7 @@ export type {
   EmailEvent,
   EmailEventBase,
   EmailEventType,
+  SentEvent,
   DeliveredEvent,
   OpenedEvent,
   ClickedEvent,
@@ -115,6 +160,7 @@ export type {
   UnsubscribedEvent,
   FailedEvent,
   RepliedEvent,
+  VariantMetrics,
   EmailMetrics,
   StoredEmailEvent,
   DeliveryTrackerConfig,
@@ -127,12 +173,15 @@ export {
   CampaignExecutionResultSchema,
   ScheduledEmailStatusSchema,
   ScheduledEmailSchema,
+  QueuedCampaignSendSchema,
   CampaignStateSchema,
   LeadFilterCriteriaSchema,
   CampaignManagerConfigSchema,
   getTodayDateString,
   calculateScheduledTime,
   isWithinSendWindow,
+  assignVariant,
+  selectWinner,
 } from "./campaign-manager/index.js";
 
 export type {
@@ -141,6 +190,9 @@ export type {
   ICampaignRepository,
   IStorage,
   IEmailEventStorage,
+  IAuditRepository,
+  ICalendarIntegration,
+  IDeliveryTracker,
   CampaignExecutionResult,
   ScheduledEmail,
   ScheduledEmailStatus,
@@ -151,6 +203,7 @@ export type {
   CampaignCreationResult,
   LeadEmailContext,
   SendConditionResult,
+  QueuedCampaignSend,
 } from "./campaign-manager/index.js";
 
 // Calendar integration exports
@@ -177,6 +230,7 @@ export type {
 export {
   ResilientEmailQueue,
   InMemoryEmailQueueStorage,
+  SupabaseEmailQueueStorage,
   EmailQueueEntrySchema,
   EmailQueueConfigSchema,
 } from "./resilient-email/index.js";
@@ -189,4 +243,26 @@ export type {
   EmailSendRequest,
   BatchProcessResult,
   EmailQueueStatus,
+  ImmediateSendResult,
+  EmailQueueEvent,
+  EmailQueueEventListener,
 } from "./resilient-email/index.js";
+
+// Inbound reply exports
+export {
+  InboundReplyProcessor,
+  InboundEmailSchema,
+  MailgunRoutePayloadSchema,
+  parseInboundMime,
+  parseMessageIds,
+  decodeEncodedWords,
+  extractReplyText,
+  htmlToText,
+} from "./inbound/index.js";
+
+export type {
+  InboundEmail,
+  MailgunRoutePayload,
+  ReplyMatchSource,
+  InboundProcessingResult,
+} from "./inbound/index.js";
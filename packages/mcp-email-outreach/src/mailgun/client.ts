@@ -1,9 +1,10 @@
-import Mailgun, { Interfaces, type MailgunMessageData, type EventsQuery, type DomainEvent } from "mailgun.js";
+import Mailgun, { type Interfaces, type MailgunMessageData, type EventsQuery, type DomainEvent } from "mailgun.js";
 import FormData from "form-data";
 
 type IMailgunClient = Interfaces.IMailgunClient;
 import { createHmac, timingSafeEqual } from "crypto";
 import { ValidationError } from "@the-closer/shared";
+import type { MailTransport } from "../transport/types.js";
 import { MailgunError, mapMailgunApiError, isRetryableError } from "./errors.js";
 import {
   type MailgunClientConfig,
@@ -51,7 +52,7 @@ const RETRY_DELAYS = [1000, 2000, 4000];
  * Provides email sending, template management, tracking,
  * and webhook handling with built-in rate limiting.
  */
-export class MailgunClient {
+export class MailgunClient implements MailTransport {
   private readonly config: MailgunClientConfig;
   private client: IMailgunClient | null = null;
   private connected = false;
@@ -539,15 +540,6 @@ export class MailgunClient {
    * Parse and validate a webhook payload
    */
   parseWebhook(payload: unknown, signature: string, timestamp: string): WebhookEvent {
-    // Validate timestamp to prevent replay attacks
-    if (!this.isValidWebhookTimestamp(timestamp)) {
-      throw new MailgunError("Webhook timestamp is too old (possible replay attack)", {
-        mailgunCode: MailgunErrorCode.WEBHOOK_INVALID,
-        statusCode: 400,
-        context: { timestamp },
-      });
-    }
-
     // Extract token from payload for signature verification
     const payloadObj = payload as Record<string, unknown>;
     const signatureData = payloadObj["signature"] as Record<string, unknown> | undefined;
@@ -560,13 +552,7 @@ export class MailgunClient {
       });
     }
 
-    // Verify signature
-    if (!this.verifyWebhookSignature(timestamp, token, signature)) {
-      throw new MailgunError("Invalid webhook signature", {
-        mailgunCode: MailgunErrorCode.WEBHOOK_INVALID,
-        statusCode: 401,
-      });
-    }
+    this.verifyRequest(timestamp, token, signature);
 
     // Parse the event type
     const eventData = payloadObj["event-data"] as Record<string, unknown> | undefined;
@@ -598,6 +584,27 @@ export class MailgunClient {
     return parseResult.data;
   }
 
+  /**
+   * Verify a signed request from Mailgun (webhooks and inbound routes)
+   */
+  verifyRequest(timestamp: string, token: string, signature: string): void {
+    // Validate timestamp to prevent replay attacks
+    if (!this.isValidWebhookTimestamp(timestamp)) {
+      throw new MailgunError("Webhook timestamp is too old (possible replay attack)", {
+        mailgunCode: MailgunErrorCode.WEBHOOK_INVALID,
+        statusCode: 400,
+        context: { timestamp },
+      });
+    }
+
+    if (!this.verifyWebhookSignature(timestamp, token, signature)) {
+      throw new MailgunError("Invalid webhook signature", {
+        mailgunCode: MailgunErrorCode.WEBHOOK_INVALID,
+        statusCode: 401,
+      });
+    }
+  }
+
   /**
    * Verify webhook signature using HMAC-SHA256
    */
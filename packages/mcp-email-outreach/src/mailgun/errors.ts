@@ -1,4 +1,5 @@
 import { AppError, type ErrorCodeType } from "@the-closer/shared";
+import { MailTransportError } from "../transport/errors.js";
 import { MailgunErrorCode, type MailgunErrorCodeType } from "./types.js";
 
 /**
@@ -164,6 +165,10 @@ export function isMailgunError(error: unknown): error is MailgunError {
  * Check if an error is a transient/retryable error
  */
 export function isRetryableError(error: unknown): boolean {
+  if (error instanceof MailTransportError) {
+    return error.retryable;
+  }
+
   if (error instanceof MailgunError) {
     return (
       error.mailgunCode === MailgunErrorCode.RATE_LIMITED ||
@@ -32,6 +32,7 @@ export type {
 export {
   MailgunClientConfigSchema,
   EmailOptionsSchema,
+  MailboxSchema,
   SendResultSchema,
   RecipientSchema,
   BulkEmailOptionsSchema,
@@ -45,4 +46,6 @@ export {
   RateLimitStatusSchema,
   MailgunErrorCode,
   TEMPLATE_VARIABLE_PATTERN,
+  parseMailbox,
+  formatMailbox,
 } from "./types.js";
@@ -22,6 +22,41 @@ export type MailgunClientConfig = z.output<typeof MailgunClientConfigSchema>;
 // Email Options
 // ============================================
 
+/**
+ * `Display Name <address>` form of a mailbox (RFC 5322 name-addr)
+ */
+const NAME_ADDR_PATTERN = /^\s*(?:"?([^"<>]*?)"?\s*)?<([^<>\s]+)>\s*$/;
+
+/**
+ * Split a mailbox into its display name and address
+ */
+export function parseMailbox(mailbox: string): { name?: string; address: string } {
+  const match = NAME_ADDR_PATTERN.exec(mailbox);
+  if (!match) {
+    return { address: mailbox.trim() };
+  }
+
+  const name = match[1]?.trim();
+  return { ...(name && { name }), address: match[2]! };
+}
+
+/**
+ * Format an address with an optional display name
+ */
+export function formatMailbox(address: string, name?: string): string {
+  const displayName = name?.replace(/["\\\r\n]/g, "").trim();
+  return displayName ? `"${displayName}" <${address}>` : address;
+}
+
+/**
+ * Sender mailbox - a bare address or `Display Name <address>`
+ */
+export const MailboxSchema = z
+  .string()
+  .refine((value) => z.string().email().safeParse(parseMailbox(value).address).success, {
+    message: "Invalid email address",
+  });
+
 /**
  * Tracking options for emails
  */
@@ -37,7 +72,7 @@ export type TrackingOptions = z.output<typeof TrackingOptionsSchema>;
  */
 export const EmailOptionsSchema = z.object({
   to: z.union([z.string().email(), z.array(z.string().email()).min(1)]),
-  from: z.string().email(),
+  from: MailboxSchema,
   subject: z.string().min(1),
   html: z.string().min(1),
   text: z.string().optional(),
@@ -5,8 +5,8 @@ import {
   type CircuitBreakerConfig,
 } from "@the-closer/shared";
 
-import { MailgunClient } from "../mailgun/client.js";
 import { isRetryableError } from "../mailgun/errors.js";
+import type { MailTransport } from "../transport/types.js";
 import {
   type EmailQueueEntry,
   type EmailQueueConfig,
@@ -14,6 +14,9 @@ import {
   type EmailSendRequest,
   type BatchProcessResult,
   type EmailQueueStatus,
+  type ImmediateSendResult,
+  type EmailQueueEvent,
+  type EmailQueueEventListener,
   EmailQueueConfigSchema,
 } from "./types.js";
 
@@ -132,13 +135,14 @@ export class InMemoryEmailQueueStorage implements EmailQueueStorage {
  * ResilientEmailQueue - Handles email sending with retry, circuit breaker, and queue management
  */
 export class ResilientEmailQueue {
-  private readonly client: MailgunClient;
+  private readonly client: MailTransport;
   private readonly storage: EmailQueueStorage;
   private readonly config: EmailQueueConfig;
   private readonly circuitBreaker: CircuitBreaker;
+  private readonly listeners: EmailQueueEventListener[] = [];
 
   constructor(
-    client: MailgunClient,
+    client: MailTransport,
     storage: EmailQueueStorage,
     config: Partial<EmailQueueConfig> = {}
   ) {
@@ -156,11 +160,40 @@ export class ResilientEmailQueue {
 
     this.circuitBreaker.on((event) => {
       if (event.type === "state_change") {
-        console.log(`[EmailQueue] Circuit breaker: ${event.from} -> ${event.to}`);
+        console.warn(`[EmailQueue] Circuit breaker: ${event.from} -> ${event.to}`);
       }
     });
   }
 
+  /**
+   * Add event listener for sends made while processing the queue
+   */
+  on(listener: EmailQueueEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Emit event to all listeners
+   */
+  private async emit(event: EmailQueueEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.warn(
+          `[EmailQueue] Listener failed for ${event.entry.id}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+  }
+
   /**
    * Queue an email for sending
    */
@@ -172,9 +205,13 @@ export class ResilientEmailQueue {
       campaignId: request.campaignId,
       to: request.to,
       from: request.from,
+      replyTo: request.replyTo,
       subject: request.subject,
       html: request.html,
       text: request.text,
+      tags: request.tags ?? [],
+      tracking: request.tracking,
+      metadata: request.metadata,
       status: "pending",
       retryCount: 0,
       maxRetries: this.config.maxRetries,
@@ -192,23 +229,30 @@ export class ResilientEmailQueue {
 
   /**
    * Send an email immediately with resilience
+   * Transient failures stay queued for retry; check `status` for the outcome.
    */
-  async sendImmediate(request: EmailSendRequest): Promise<{ id: string; messageId: string | null }> {
+  async sendImmediate(request: EmailSendRequest): Promise<ImmediateSendResult> {
     const queueId = await this.queueEmail(request);
 
     try {
       const messageId = await this.processEntry(queueId);
-      return { id: queueId, messageId };
+      return { id: queueId, messageId, status: "sent", error: null };
     } catch (error) {
-      // Entry is already queued for retry
-      return { id: queueId, messageId: null };
+      // Entry is already queued for retry or marked as a permanent failure
+      const entry = await this.storage.getById(queueId);
+      return {
+        id: queueId,
+        messageId: null,
+        status: entry?.status ?? "failed",
+        error: entry?.lastError ?? (error instanceof Error ? error.message : String(error)),
+      };
     }
   }
 
   /**
    * Process a single queue entry
    */
-  private async processEntry(id: string): Promise<string | null> {
+  private async processEntry(id: string): Promise<string> {
     const entry = await this.storage.getById(id);
     if (!entry) {
       throw new Error(`Queue entry not found: ${id}`);
@@ -223,9 +267,12 @@ export class ResilientEmailQueue {
         return this.client.sendEmail({
           to: entry.to,
           from: entry.from,
+          replyTo: entry.replyTo,
           subject: entry.subject,
           html: entry.html,
           text: entry.text,
+          tags: entry.tags,
+          tracking: entry.tracking,
         });
       });
 
@@ -277,7 +324,7 @@ export class ResilientEmailQueue {
       nextRetryAt,
     });
 
-    console.log(
+    console.warn(
       `[EmailQueue] Scheduled retry ${newRetryCount}/${entry.maxRetries} for ${entry.id} at ${nextRetryAt.toISOString()}`
     );
   }
@@ -351,7 +398,7 @@ export class ResilientEmailQueue {
 
     // Check circuit breaker before processing
     if (this.circuitBreaker.getState() === "open") {
-      console.log("[EmailQueue] Circuit breaker open, skipping batch processing");
+      console.warn("[EmailQueue] Circuit breaker open, skipping batch processing");
       return result;
     }
 
@@ -359,13 +406,19 @@ export class ResilientEmailQueue {
       result.processed++;
 
       try {
-        await this.processEntry(entry.id);
+        const messageId = await this.processEntry(entry.id);
         result.sent++;
+        await this.emit({ type: "sent", entry, messageId });
       } catch {
         // Check updated entry status
         const updated = await this.storage.getById(entry.id);
         if (updated?.status === "permanent_failure") {
           result.permanentFailures++;
+          await this.emit({
+            type: "permanent_failure",
+            entry,
+            error: updated.lastError ?? "Permanent failure",
+          });
         } else if (updated?.status === "failed") {
           result.retryQueued++;
         }
@@ -374,7 +427,7 @@ export class ResilientEmailQueue {
 
       // Check if circuit breaker tripped during processing
       if (this.circuitBreaker.getState() === "open") {
-        console.log("[EmailQueue] Circuit breaker tripped, stopping batch");
+        console.warn("[EmailQueue] Circuit breaker tripped, stopping batch");
         break;
       }
     }
@@ -391,23 +444,44 @@ export class ResilientEmailQueue {
   ): Promise<void> {
     // Find entry by mailgun message ID
     const pending = await this.storage.getByStatus("sent", 1000);
-    const entry = pending.find((e) => e.mailgunMessageId === messageId);
+    // Send results wrap the ID in angle brackets, webhook payloads do not
+    const normalize = (id: string): string => id.replace(/^<|>$/g, "");
+    const entry = pending.find(
+      (e) => e.mailgunMessageId !== null && normalize(e.mailgunMessageId) === normalize(messageId)
+    );
 
     if (!entry) {
-      console.log(`[EmailQueue] No entry found for message ID: ${messageId}`);
+      console.warn(`[EmailQueue] No entry found for message ID: ${messageId}`);
       return;
     }
 
     if (eventType === "bounced") {
       await this.storage.update(entry.id, { status: "bounced" });
-      console.log(`[EmailQueue] Marked ${entry.id} as bounced`);
+      console.warn(`[EmailQueue] Marked ${entry.id} as bounced`);
     } else if (eventType === "failed") {
       await this.storage.update(entry.id, { status: "permanent_failure" });
-      console.log(`[EmailQueue] Marked ${entry.id} as permanent failure`);
+      console.warn(`[EmailQueue] Marked ${entry.id} as permanent failure`);
     }
     // 'delivered' doesn't need status update - already 'sent'
   }
 
+  /**
+   * Leads with an email still waiting in the queue, optionally for one campaign
+   */
+  async getQueuedLeadIds(campaignId?: string, limit = 1000): Promise<Set<string>> {
+    const entries = [
+      ...(await this.storage.getByStatus("pending", limit)),
+      ...(await this.storage.getByStatus("processing", limit)),
+      ...(await this.storage.getByStatus("failed", limit)),
+    ];
+
+    return new Set(
+      entries
+        .filter((e) => campaignId === undefined || e.campaignId === campaignId)
+        .flatMap((e) => (e.leadId ? [e.leadId] : []))
+    );
+  }
+
   /**
    * Get queue statistics
    */
@@ -4,6 +4,7 @@ export {
   InMemoryEmailQueueStorage,
   type EmailQueueStorage,
 } from "./email-queue.js";
+export { SupabaseEmailQueueStorage } from "./supabase-queue-storage.js";
 
 // Types
 export {
@@ -13,6 +14,9 @@ export {
   type EmailSendRequest,
   type BatchProcessResult,
   type EmailQueueStatus,
+  type ImmediateSendResult,
+  type EmailQueueEvent,
+  type EmailQueueEventListener,
   EmailQueueEntrySchema,
   EmailQueueConfigSchema,
 } from "./types.js";
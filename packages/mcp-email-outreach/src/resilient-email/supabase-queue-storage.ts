@@ -0,0 +1,221 @@
+import { mapSupabaseError, type SupabaseClient } from "@the-closer/mcp-lead-storage";
+
+import type { EmailQueueStorage } from "./email-queue.js";
+import type { EmailQueueEntry, EmailQueueStats, EmailQueueStatus } from "./types.js";
+
+/**
+ * Column of each queue entry field
+ */
+const COLUMNS: Record<keyof EmailQueueEntry, string> = {
+  id: "id",
+  leadId: "lead_id",
+  campaignId: "campaign_id",
+  to: "to_address",
+  from: "from_address",
+  replyTo: "reply_to",
+  subject: "subject",
+  html: "html_body",
+  text: "text_body",
+  tags: "tags",
+  tracking: "tracking",
+  metadata: "metadata",
+  status: "status",
+  retryCount: "retry_count",
+  maxRetries: "max_retries",
+  lastAttemptAt: "last_attempt_at",
+  nextRetryAt: "next_retry_at",
+  lastError: "last_error",
+  mailgunMessageId: "message_id",
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+};
+
+/**
+ * Supabase Email Queue Storage
+ *
+ * Keeps queue entries in the email_queue table, so sends waiting for a
+ * retry survive a restart of the server that queued them.
+ */
+export class SupabaseEmailQueueStorage implements EmailQueueStorage {
+  private readonly client: SupabaseClient;
+  private readonly tableName = "email_queue";
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  async enqueue(entry: EmailQueueEntry): Promise<void> {
+    try {
+      await this.client.insert(this.tableName, mapEntryToRow(entry));
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async update(id: string, updates: Partial<EmailQueueEntry>): Promise<void> {
+    try {
+      await this.client.update(
+        this.tableName,
+        id,
+        mapEntryToRow({ ...updates, updatedAt: new Date() })
+      );
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async getById(id: string): Promise<EmailQueueEntry | null> {
+    try {
+      const row = await this.client.getById<Record<string, unknown>>(this.tableName, id);
+      return row ? mapRowToEntry(row) : null;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async getByStatus(status: EmailQueueStatus, limit = 100): Promise<EmailQueueEntry[]> {
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.tableName, {
+        filters: [{ column: "status", operator: "eq", value: status }],
+        ordering: [{ column: "created_at", ascending: true }],
+        pagination: { limit },
+      });
+
+      return result.data.map(mapRowToEntry);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async getReadyForRetry(limit = 100): Promise<EmailQueueEntry[]> {
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.tableName, {
+        filters: [
+          { column: "status", operator: "eq", value: "failed" },
+          { column: "next_retry_at", operator: "lte", value: new Date().toISOString() },
+        ],
+        ordering: [{ column: "next_retry_at", ascending: true }],
+        pagination: { limit },
+      });
+
+      return result.data.map(mapRowToEntry).filter((e) => e.retryCount < e.maxRetries);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async getBouncedForRetry(maxAgeDays: number, limit = 100): Promise<EmailQueueEntry[]> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - maxAgeDays);
+
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.tableName, {
+        filters: [
+          { column: "status", operator: "eq", value: "bounced" },
+          { column: "created_at", operator: "gte", value: cutoff.toISOString() },
+        ],
+        ordering: [{ column: "created_at", ascending: true }],
+        pagination: { limit },
+      });
+
+      return result.data.map(mapRowToEntry);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async getStats(): Promise<EmailQueueStats> {
+    const count = (status: EmailQueueStatus): Promise<number> =>
+      this.client.count(this.tableName, [{ column: "status", operator: "eq", value: status }]);
+
+    try {
+      const [pending, processing, sent, failed, bounced, permanentFailure] = await Promise.all([
+        count("pending"),
+        count("processing"),
+        count("sent"),
+        count("failed"),
+        count("bounced"),
+        count("permanent_failure"),
+      ]);
+
+      // Only retried entries add to the average
+      const retried = await this.client.select<{ retry_count: number }>(this.tableName, {
+        columns: ["retry_count"],
+        filters: [{ column: "retry_count", operator: "gt", value: 0 }],
+      });
+      const total = pending + processing + sent + failed + bounced + permanentFailure;
+      const totalRetries = retried.data.reduce((sum, row) => sum + row.retry_count, 0);
+
+      return {
+        pending,
+        processing,
+        sent,
+        failed,
+        bounced,
+        permanentFailure,
+        avgRetryCount: total > 0 ? totalRetries / total : 0,
+        circuitBreakerState: "closed",
+      };
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async deleteOlderThan(days: number): Promise<number> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - days);
+
+    try {
+      return await this.client.deleteWhere(this.tableName, [
+        { column: "created_at", operator: "lt", value: cutoff.toISOString() },
+      ]);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+}
+
+// ============================================
+// Row Mapping
+// ============================================
+
+function mapRowToEntry(row: Record<string, unknown>): EmailQueueEntry {
+  const toDate = (value: unknown): Date | null =>
+    typeof value === "string" ? new Date(value) : null;
+
+  return {
+    id: row["id"] as string,
+    leadId: (row["lead_id"] as string | null) ?? undefined,
+    campaignId: (row["campaign_id"] as string | null) ?? undefined,
+    to: row["to_address"] as string,
+    from: row["from_address"] as string,
+    replyTo: (row["reply_to"] as string | null) ?? undefined,
+    subject: row["subject"] as string,
+    html: row["html_body"] as string,
+    text: (row["text_body"] as string | null) ?? undefined,
+    tags: (row["tags"] as string[] | null) ?? [],
+    tracking: (row["tracking"] as EmailQueueEntry["tracking"] | null) ?? undefined,
+    metadata: (row["metadata"] as Record<string, unknown> | null) ?? undefined,
+    status: row["status"] as EmailQueueStatus,
+    retryCount: row["retry_count"] as number,
+    maxRetries: row["max_retries"] as number,
+    lastAttemptAt: toDate(row["last_attempt_at"]),
+    nextRetryAt: toDate(row["next_retry_at"]),
+    lastError: (row["last_error"] as string | null) ?? null,
+    mailgunMessageId: (row["message_id"] as string | null) ?? null,
+    createdAt: new Date(row["created_at"] as string),
+    updatedAt: new Date(row["updated_at"] as string),
+  };
+}
+
+/**
+ * Row for the fields present on a full or partial entry
+ */
+function mapEntryToRow(entry: Partial<EmailQueueEntry>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(entry)) {
+    const column = COLUMNS[field as keyof EmailQueueEntry];
+    row[column] = value instanceof Date ? value.toISOString() : (value ?? null);
+  }
+  return row;
+}
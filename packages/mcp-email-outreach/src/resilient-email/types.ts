@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { MailboxSchema } from "../mailgun/types.js";
+
 /**
  * Email queue entry status
  */
@@ -19,10 +21,20 @@ export const EmailQueueEntrySchema = z.object({
   leadId: z.string().uuid().optional(),
   campaignId: z.string().uuid().optional(),
   to: z.string().email(),
-  from: z.string().email(),
+  from: MailboxSchema,
+  replyTo: z.string().email().optional(),
   subject: z.string(),
   html: z.string(),
   text: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  tracking: z
+    .object({
+      opens: z.boolean(),
+      clicks: z.boolean(),
+    })
+    .optional(),
+  /** Caller data kept with the entry, e.g. the campaign step a send belongs to */
+  metadata: z.record(z.unknown()).optional(),
   status: z.enum(["pending", "processing", "sent", "failed", "bounced", "permanent_failure"]),
   retryCount: z.number().int().min(0).default(0),
   maxRetries: z.number().int().min(0).default(3),
@@ -80,13 +92,45 @@ export interface EmailQueueStats {
 export interface EmailSendRequest {
   to: string;
   from: string;
+  replyTo?: string;
   subject: string;
   html: string;
   text?: string;
   leadId?: string;
   campaignId?: string;
+  /** Mailgun tags used to match webhook events back to the lead */
+  tags?: string[];
+  tracking?: { opens: boolean; clicks: boolean };
+  /** Stored with the queue entry and handed back in queue events */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Result of sending an email immediately through the queue
+ */
+export interface ImmediateSendResult {
+  id: string;
+  messageId: string | null;
+  /** "sent", "failed" (queued for retry) or "permanent_failure" */
+  status: EmailQueueStatus;
+  error: string | null;
 }
 
+/**
+ * Outcome of a send made while processing the queue
+ *
+ * Sends made by sendImmediate report to their caller instead, so these
+ * only cover emails that were queued or waiting for a retry.
+ */
+export type EmailQueueEvent =
+  | { type: "sent"; entry: EmailQueueEntry; messageId: string }
+  | { type: "permanent_failure"; entry: EmailQueueEntry; error: string };
+
+/**
+ * Email queue event listener
+ */
+export type EmailQueueEventListener = (event: EmailQueueEvent) => Promise<void> | void;
+
 /**
  * Batch process result
  */
@@ -1,31 +1,512 @@
-import type { SendEmailRequest } from "./types.js";
+import { randomUUID } from "node:crypto";
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+import { type CampaignConfig, CampaignConfigSchema, NotFoundError } from "@the-closer/shared";
+
+import {
+  CampaignManager,
+  LeadFilterCriteriaSchema,
+  type CampaignExecutionResult,
+  type ICampaignRepository,
+  type ILeadRepository,
+} from "./campaign-manager/index.js";
+import { DeliveryTracker, type WebhookProcessingResult } from "./delivery-tracker/index.js";
+import { InboundReplyProcessor } from "./inbound/index.js";
+import { ResilientEmailQueue, type BatchProcessResult } from "./resilient-email/index.js";
+import {
+  StoredTemplateSchema,
+  TemplateEngine,
+  type StoredTemplate,
+} from "./template-engine/index.js";
+
+/**
+ * Dependencies for the email outreach server
+ */
+export interface EmailOutreachServerDependencies {
+  campaignManager: CampaignManager;
+  campaignRepository: ICampaignRepository;
+  leadRepository: ILeadRepository;
+  templateEngine: TemplateEngine;
+  deliveryTracker: DeliveryTracker;
+  /** Queue the campaign manager sends through */
+  emailQueue: ResilientEmailQueue;
+  inboundProcessor: InboundReplyProcessor;
+}
+
+/**
+ * Input for creating a campaign
+ */
+const CreateCampaignInputSchema = CampaignConfigSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+/**
+ * Input for tools that act on a single campaign
+ */
+const CampaignIdInputSchema = z.object({
+  campaignId: z.string().uuid().describe("Campaign to act on"),
+});
+
+/**
+ * Input for executing a campaign
+ */
+const ExecuteCampaignInputSchema = CampaignIdInputSchema.extend({
+  filters: LeadFilterCriteriaSchema.optional().describe(
+    "Narrow down which leads receive the first step"
+  ),
+});
+
+/**
+ * Input for previewing a template
+ */
+const PreviewTemplateInputSchema = z.object({
+  templateId: z.string().min(1).describe("Template to render"),
+  leadId: z
+    .string()
+    .uuid()
+    .optional()
+    .describe("Render with this lead's details instead of sample data"),
+});
+
+/**
+ * Input for saving a template
+ */
+const SaveTemplateInputSchema = StoredTemplateSchema.pick({
+  name: true,
+  description: true,
+  subject: true,
+  htmlBody: true,
+  textBody: true,
+  variables: true,
+  category: true,
+}).extend({
+  id: z
+    .string()
+    .uuid()
+    .optional()
+    .describe("Template to update; a new template is created when omitted"),
+  changeNote: z.string().optional().describe("What changed in this version"),
+});
+
+/**
+ * Input for tools that act on a single template
+ */
+const TemplateIdInputSchema = z.object({
+  templateId: z.string().min(1).describe("Template to act on"),
+});
+
+/**
+ * Input for comparing template versions
+ */
+const DiffTemplateInputSchema = TemplateIdInputSchema.extend({
+  fromVersion: z.number().int().positive(),
+  toVersion: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Defaults to the current version"),
+});
+
+/**
+ * Input for rolling a template back
+ */
+const RollbackTemplateInputSchema = TemplateIdInputSchema.extend({
+  version: z.number().int().positive().describe("Version to restore"),
+});
+
+/**
+ * Input for processing a Mailgun webhook
+ */
+const WebhookInputSchema = z.object({
+  payload: z.record(z.unknown()).describe("Raw Mailgun webhook body"),
+  signature: z.string().min(1),
+  timestamp: z.string().min(1),
+});
+
+/**
+ * Input for processing a reply delivered by a Mailgun route
+ */
+const InboundRouteInputSchema = z.object({
+  payload: z
+    .record(z.unknown())
+    .describe("Mailgun route POST fields, including timestamp, token and signature"),
+});
+
+/**
+ * Input for processing a raw reply message
+ */
+const InboundMimeInputSchema = z.object({
+  raw: z.string().min(1).describe("Full RFC 5322 message, headers included"),
+});
 
 /**
  * MCP Email Outreach Server
  *
- * Integrates with Mailgun for email delivery
- * with template support and tracking.
+ * Exposes campaign management, template previews, delivery metrics,
+ * webhook and inbound reply processing as MCP tools over stdio. Every email goes through
+ * ResilientEmailQueue, so failed sends are retried and a failing Mailgun
+ * trips the circuit breaker instead of burning through the campaign.
  */
 export class EmailOutreachServer {
-  constructor() {
-    // Server initialization will be implemented in Phase 4
+  private readonly server: McpServer;
+  private readonly campaignManager: CampaignManager;
+  private readonly campaignRepository: ICampaignRepository;
+  private readonly leadRepository: ILeadRepository;
+  private readonly templateEngine: TemplateEngine;
+  private readonly deliveryTracker: DeliveryTracker;
+  private readonly emailQueue: ResilientEmailQueue;
+  private readonly inboundProcessor: InboundReplyProcessor;
+
+  constructor(dependencies: EmailOutreachServerDependencies) {
+    this.campaignManager = dependencies.campaignManager;
+    this.campaignRepository = dependencies.campaignRepository;
+    this.leadRepository = dependencies.leadRepository;
+    this.templateEngine = dependencies.templateEngine;
+    this.deliveryTracker = dependencies.deliveryTracker;
+    this.emailQueue = dependencies.emailQueue;
+    this.inboundProcessor = dependencies.inboundProcessor;
+
+    this.server = new McpServer({
+      name: "mcp-email-outreach",
+      version: "0.1.0",
+    });
+
+    this.registerTools();
+  }
+
+  /**
+   * Send the first sequence step to eligible leads of a campaign
+   */
+  async executeCampaign(
+    campaignId: string,
+    filters?: z.output<typeof LeadFilterCriteriaSchema>
+  ): Promise<CampaignExecutionResult> {
+    const campaign = await this.getCampaign(campaignId);
+    return this.campaignManager.executeCampaign(campaign, filters);
+  }
+
+  /**
+   * Create a template or save a new version of it
+   */
+  async saveTemplate(input: z.output<typeof SaveTemplateInputSchema>): Promise<StoredTemplate> {
+    const { id, changeNote, ...content } = input;
+    const existing =
+      id !== undefined && (await this.templateEngine.templateExists(id))
+        ? await this.templateEngine.getTemplate(id)
+        : null;
+    const now = new Date();
+
+    return this.templateEngine.saveTemplate(
+      {
+        ...content,
+        id: id ?? randomUUID(),
+        version: existing?.version ?? 1,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      },
+      changeNote
+    );
   }
 
   /**
-   * Send an email
+   * Send queued and retry-ready emails
    */
-  async sendEmail(
-    _request: SendEmailRequest
-  ): Promise<{ id: string; status: string }> {
-    // Implementation will use Mailgun API
-    throw new Error("Not implemented - Phase 4");
+  async processEmailQueue(): Promise<{ retries: BatchProcessResult; pending: BatchProcessResult }> {
+    const retries = await this.emailQueue.processRetryQueue();
+    const pending = await this.emailQueue.processPendingQueue();
+    return { retries, pending };
   }
 
   /**
-   * Start the MCP server
+   * Process a Mailgun webhook and keep the send queue in sync
+   */
+  async processWebhook(
+    payload: unknown,
+    signature: string,
+    timestamp: string
+  ): Promise<WebhookProcessingResult> {
+    const result = await this.deliveryTracker.processWebhook(payload, signature, timestamp);
+
+    if (
+      result.success &&
+      result.messageId &&
+      (result.eventType === "bounced" || result.eventType === "failed")
+    ) {
+      await this.emailQueue.handleWebhookEvent(result.messageId, result.eventType);
+    }
+
+    return result;
+  }
+
+  /**
+   * Start the MCP server on stdio
    */
   async start(): Promise<void> {
-    // MCP server startup will be implemented
-    throw new Error("Not implemented - Phase 4");
+    const transport = new StdioServerTransport();
+    await this.server.connect(transport);
+  }
+
+  /**
+   * Stop the MCP server
+   */
+  async stop(): Promise<void> {
+    await this.server.close();
   }
+
+  // ============================================
+  // Tool Registration
+  // ============================================
+
+  private registerTools(): void {
+    this.server.registerTool(
+      "create_campaign",
+      {
+        title: "Create campaign",
+        description: "Create an email campaign with its sequence of templated steps.",
+        inputSchema: CreateCampaignInputSchema.shape,
+      },
+      async (input) => {
+        const result = await this.campaignManager.createCampaign(
+          CreateCampaignInputSchema.parse(input)
+        );
+        return jsonResult(result);
+      }
+    );
+
+    this.server.registerTool(
+      "execute_campaign",
+      {
+        title: "Execute campaign",
+        description:
+          "Send the first step of an active campaign to eligible leads and " +
+          "schedule their follow-ups. Respects the campaign's daily send limit.",
+        inputSchema: ExecuteCampaignInputSchema.shape,
+      },
+      async ({ campaignId, filters }) => {
+        return jsonResult(await this.executeCampaign(campaignId, filters));
+      }
+    );
+
+    this.server.registerTool(
+      "pause_campaign",
+      {
+        title: "Pause campaign",
+        description: "Pause a campaign so no new emails are sent.",
+        inputSchema: CampaignIdInputSchema.shape,
+      },
+      async ({ campaignId }) => {
+        await this.campaignManager.pauseCampaign(campaignId);
+        return jsonResult(await this.getCampaign(campaignId));
+      }
+    );
+
+    this.server.registerTool(
+      "resume_campaign",
+      {
+        title: "Resume campaign",
+        description: "Resume a paused campaign.",
+        inputSchema: CampaignIdInputSchema.shape,
+      },
+      async ({ campaignId }) => {
+        await this.campaignManager.resumeCampaign(campaignId);
+        return jsonResult(await this.getCampaign(campaignId));
+      }
+    );
+
+    this.server.registerTool(
+      "preview_template",
+      {
+        title: "Preview template",
+        description:
+          "Render a template without sending it, using a lead's details " +
+          "or sample data when no lead is given.",
+        inputSchema: PreviewTemplateInputSchema.shape,
+      },
+      async ({ templateId, leadId }) => {
+        if (!leadId) {
+          return jsonResult(await this.templateEngine.previewTemplate(templateId));
+        }
+
+        const lead = await this.leadRepository.getLeadById(leadId);
+        if (!lead) {
+          throw NotFoundError.forLead(leadId);
+        }
+        return jsonResult(await this.templateEngine.previewTemplate(templateId, { lead }));
+      }
+    );
+
+    this.server.registerTool(
+      "list_templates",
+      {
+        title: "List templates",
+        description: "List the built-in and saved email templates with their current versions.",
+        inputSchema: {},
+      },
+      async () => jsonResult(await this.templateEngine.listTemplates())
+    );
+
+    this.server.registerTool(
+      "save_template",
+      {
+        title: "Save template",
+        description:
+          "Create a template or save a new version of an existing one. " +
+          "Running campaigns keep the version they were launched with.",
+        inputSchema: SaveTemplateInputSchema.shape,
+      },
+      async (input) => jsonResult(await this.saveTemplate(input))
+    );
+
+    this.server.registerTool(
+      "list_template_versions",
+      {
+        title: "List template versions",
+        description: "List every saved version of a template, newest first.",
+        inputSchema: TemplateIdInputSchema.shape,
+      },
+      async ({ templateId }) =>
+        jsonResult(await this.templateEngine.listTemplateVersions(templateId))
+    );
+
+    this.server.registerTool(
+      "diff_template_versions",
+      {
+        title: "Diff template versions",
+        description: "Show the fields and lines that changed between two versions of a template.",
+        inputSchema: DiffTemplateInputSchema.shape,
+      },
+      async ({ templateId, fromVersion, toVersion }) =>
+        jsonResult(
+          await this.templateEngine.diffTemplateVersions(templateId, fromVersion, toVersion)
+        )
+    );
+
+    this.server.registerTool(
+      "rollback_template",
+      {
+        title: "Roll back template",
+        description:
+          "Restore an earlier version of a template. The restored content " +
+          "is saved as a new version, so no history is lost.",
+        inputSchema: RollbackTemplateInputSchema.shape,
+      },
+      async ({ templateId, version }) =>
+        jsonResult(await this.templateEngine.rollbackTemplate(templateId, version))
+    );
+
+    this.server.registerTool(
+      "process_scheduled_emails",
+      {
+        title: "Process scheduled emails",
+        description:
+          "Send follow-ups that are due, skipping those whose send condition is not met. " +
+          "Does nothing outside the send window.",
+        inputSchema: {},
+      },
+      async () => jsonResult(await this.campaignManager.processScheduledEmails())
+    );
+
+    this.server.registerTool(
+      "process_email_queue",
+      {
+        title: "Process email queue",
+        description:
+          "Retry failed sends that are due and send any queued emails. " +
+          "A campaign email delivered on a retry marks its lead emailed and schedules its follow-ups.",
+        inputSchema: {},
+      },
+      async () => jsonResult(await this.processEmailQueue())
+    );
+
+    this.server.registerTool(
+      "get_email_metrics",
+      {
+        title: "Get email metrics",
+        description:
+          "Get delivery, open, click and reply rates for a campaign, " +
+          "along with its send counters and the state of the send queue.",
+        inputSchema: CampaignIdInputSchema.shape,
+      },
+      async ({ campaignId }) => {
+        const [metrics, state, queue] = await Promise.all([
+          this.deliveryTracker.getEmailMetrics(campaignId),
+          this.campaignManager.getCampaignStats(campaignId),
+          this.emailQueue.getStats(),
+        ]);
+        return jsonResult({ metrics, state, queue });
+      }
+    );
+
+    this.server.registerTool(
+      "process_webhook",
+      {
+        title: "Process webhook",
+        description:
+          "Verify and record a Mailgun webhook event, updating the lead's status " +
+          "and the send queue as needed.",
+        inputSchema: WebhookInputSchema.shape,
+      },
+      async ({ payload, signature, timestamp }) => {
+        return jsonResult(await this.processWebhook(payload, signature, timestamp));
+      }
+    );
+
+    this.server.registerTool(
+      "process_inbound_reply",
+      {
+        title: "Process inbound reply",
+        description:
+          "Verify a reply forwarded by a Mailgun route, match it to the email it " +
+          "answers and record it, halting the lead's sequence.",
+        inputSchema: InboundRouteInputSchema.shape,
+      },
+      async ({ payload }) => jsonResult(await this.inboundProcessor.processMailgunRoute(payload))
+    );
+
+    this.server.registerTool(
+      "process_inbound_mime",
+      {
+        title: "Process inbound MIME reply",
+        description:
+          "Parse a raw reply message, match it to the email it answers through its " +
+          "In-Reply-To and References headers and record it.",
+        inputSchema: InboundMimeInputSchema.shape,
+      },
+      async ({ raw }) => jsonResult(await this.inboundProcessor.processRawMime(raw))
+    );
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  /**
+   * Load a campaign or fail with NotFoundError
+   */
+  private async getCampaign(campaignId: string): Promise<CampaignConfig> {
+    const campaign = await this.campaignRepository.getCampaignById(campaignId);
+    if (!campaign) {
+      throw new NotFoundError(`Campaign not found: ${campaignId}`, {
+        resourceType: "Campaign",
+        resourceId: campaignId,
+      });
+    }
+    return campaign;
+  }
+}
+
+/**
+ * Wrap a value as a JSON text tool result
+ */
+function jsonResult(value: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(value, null, 2) }],
+  };
 }
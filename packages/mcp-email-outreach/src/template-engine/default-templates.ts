@@ -111,6 +111,7 @@ This analysis was generated for {{business_name}} | {{website_url}}`,
     "evidence_link",
     "calendar_link",
   ],
+  version: 1,
   createdAt: now,
   updatedAt: now,
 };
@@ -192,6 +193,7 @@ Your Web Performance Team`,
     "accessibility_score",
     "calendar_link",
   ],
+  version: 1,
   createdAt: now,
   updatedAt: now,
 };
@@ -279,6 +281,7 @@ P.S. - Even if you're not interested in our services, I'm happy to share the aud
     "top_issue_description",
     "calendar_link",
   ],
+  version: 1,
   createdAt: now,
   updatedAt: now,
 };
@@ -8,6 +8,15 @@
 // Main template engine class
 export { TemplateEngine } from "./template-engine.js";
 
+// Template storage
+export {
+  InMemoryTemplateStorage,
+  toTemplateVersion,
+  type TemplateStorage,
+} from "./template-storage.js";
+export { SupabaseTemplateStorage } from "./supabase-template-storage.js";
+export { diffTemplateVersions, diffLines } from "./template-diff.js";
+
 // Default templates
 export {
   DEFAULT_TEMPLATES,
@@ -24,6 +33,11 @@ export type {
   TemplateVariables,
   RenderedEmail,
   StoredTemplate,
+  TemplateVersion,
+  TemplateDiff,
+  TemplateDiffField,
+  TemplateDiffLine,
+  TemplateFieldChange,
   TemplateEngineConfig,
   ToneSeverity,
   ToneReplacements,
@@ -33,9 +47,12 @@ export type {
 export {
   RenderedEmailSchema,
   StoredTemplateSchema,
+  TemplateVersionSchema,
+  TEMPLATE_DIFF_FIELDS,
   TemplateEngineConfigSchema,
   TemplateEngineErrorCode,
   getTopPainPoint,
   formatLoadTime,
   formatScore,
+  formatTechnology,
 } from "./types.js";
@@ -0,0 +1,169 @@
+import { z } from "zod";
+
+import { ValidationError } from "@the-closer/shared";
+import { mapSupabaseError, type SupabaseClient } from "@the-closer/mcp-lead-storage";
+
+import type { TemplateStorage } from "./template-storage.js";
+import type { StoredTemplate, TemplateVersion } from "./types.js";
+
+/**
+ * Supabase Template Storage
+ *
+ * Keeps the current version of each template in email_templates and
+ * every saved version in email_template_versions. Deleting a template
+ * only deactivates it, so campaigns pinned to one of its versions
+ * keep rendering.
+ */
+export class SupabaseTemplateStorage implements TemplateStorage {
+  private readonly client: SupabaseClient;
+  private readonly templatesTable = "email_templates";
+  private readonly versionsTable = "email_template_versions";
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  async getTemplate(id: string): Promise<StoredTemplate | null> {
+    // Built-in templates use readable IDs and never reach the database
+    if (!isUuid(id)) return null;
+
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.templatesTable, {
+        filters: [
+          { column: "id", operator: "eq", value: id },
+          { column: "is_active", operator: "eq", value: true },
+        ],
+      });
+
+      const row = result.data[0];
+      return row ? mapRowToTemplate(row) : null;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async getVersion(id: string, version: number): Promise<TemplateVersion | null> {
+    if (!isUuid(id)) return null;
+
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.versionsTable, {
+        filters: [
+          { column: "template_id", operator: "eq", value: id },
+          { column: "version", operator: "eq", value: version },
+        ],
+      });
+
+      const row = result.data[0];
+      return row ? mapRowToVersion(row) : null;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async listTemplates(): Promise<StoredTemplate[]> {
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.templatesTable, {
+        filters: [{ column: "is_active", operator: "eq", value: true }],
+        ordering: [{ column: "name", ascending: true }],
+      });
+
+      return result.data.map(mapRowToTemplate);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async listVersions(id: string): Promise<TemplateVersion[]> {
+    if (!isUuid(id)) return [];
+
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.versionsTable, {
+        filters: [{ column: "template_id", operator: "eq", value: id }],
+        ordering: [{ column: "version", ascending: false }],
+      });
+
+      return result.data.map(mapRowToVersion);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async saveVersion(template: StoredTemplate, changeNote?: string): Promise<StoredTemplate> {
+    if (!isUuid(template.id)) {
+      throw new ValidationError(`Template ID must be a UUID: ${template.id}`, {
+        context: { templateId: template.id },
+      });
+    }
+
+    try {
+      // Bumps current_version and inserts the version row in one transaction,
+      // so concurrent saves can't claim the same version
+      const row = await this.client.rpc<Record<string, unknown>>("save_email_template_version", {
+        p_template_id: template.id,
+        p_name: template.name,
+        p_description: template.description ?? null,
+        p_category: template.category,
+        p_subject: template.subject,
+        p_html_body: template.htmlBody,
+        p_text_body: template.textBody ?? null,
+        p_variables: template.variables,
+        p_change_note: changeNote ?? null,
+      });
+
+      return mapRowToTemplate(row);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    if (!(await this.getTemplate(id))) return false;
+
+    try {
+      await this.client.update(this.templatesTable, id, { is_active: false });
+      return true;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+}
+
+// ============================================
+// Row Mapping
+// ============================================
+
+function mapRowToTemplate(row: Record<string, unknown>): StoredTemplate {
+  return {
+    id: row["id"] as string,
+    name: row["name"] as string,
+    ...(typeof row["description"] === "string" && { description: row["description"] }),
+    subject: row["subject"] as string,
+    htmlBody: row["html_body"] as string,
+    ...(typeof row["text_body"] === "string" && { textBody: row["text_body"] }),
+    variables: (row["variables"] as string[] | null) ?? [],
+    category: (row["category"] as StoredTemplate["category"] | null) ?? "custom",
+    version: (row["current_version"] as number | null) ?? 1,
+    createdAt: new Date(row["created_at"] as string),
+    updatedAt: new Date(row["updated_at"] as string),
+  };
+}
+
+function mapRowToVersion(row: Record<string, unknown>): TemplateVersion {
+  return {
+    templateId: row["template_id"] as string,
+    version: row["version"] as number,
+    name: row["name"] as string,
+    ...(typeof row["description"] === "string" && { description: row["description"] }),
+    subject: row["subject"] as string,
+    htmlBody: row["html_body"] as string,
+    ...(typeof row["text_body"] === "string" && { textBody: row["text_body"] }),
+    variables: (row["variables"] as string[] | null) ?? [],
+    category: (row["category"] as TemplateVersion["category"] | null) ?? "custom",
+    ...(typeof row["change_note"] === "string" && { changeNote: row["change_note"] }),
+    createdAt: new Date(row["created_at"] as string),
+  };
+}
+
+function isUuid(id: string): boolean {
+  return z.string().uuid().safeParse(id).success;
+}
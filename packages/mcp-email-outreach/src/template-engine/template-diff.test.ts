@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+
+import { diffLines, diffTemplateVersions } from "./template-diff.js";
+import type { TemplateVersion } from "./types.js";
+
+describe("diffLines", () => {
+  it("marks every line unchanged for identical text", () => {
+    expect(diffLines("Hi {{name}},\nThanks", "Hi {{name}},\nThanks")).toEqual([
+      { type: "unchanged", text: "Hi {{name}}," },
+      { type: "unchanged", text: "Thanks" },
+    ]);
+  });
+
+  it("treats empty text as no lines", () => {
+    expect(diffLines("", "")).toEqual([]);
+    expect(diffLines("", "one\ntwo")).toEqual([
+      { type: "added", text: "one" },
+      { type: "added", text: "two" },
+    ]);
+    expect(diffLines("one", "")).toEqual([{ type: "removed", text: "one" }]);
+  });
+
+  it("shows an edited line as removed then added", () => {
+    expect(diffLines("a\nb\nc", "a\nB\nc")).toEqual([
+      { type: "unchanged", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "B" },
+      { type: "unchanged", text: "c" },
+    ]);
+  });
+
+  it("keeps the longest common subsequence unchanged", () => {
+    const lines = diffLines("a\nb\nc\nd", "b\nc\nx\nd");
+
+    expect(lines.filter((line) => line.type === "unchanged").map((line) => line.text)).toEqual([
+      "b",
+      "c",
+      "d",
+    ]);
+    expect(lines).toEqual([
+      { type: "removed", text: "a" },
+      { type: "unchanged", text: "b" },
+      { type: "unchanged", text: "c" },
+      { type: "added", text: "x" },
+      { type: "unchanged", text: "d" },
+    ]);
+  });
+
+  it("splits CRLF and LF line endings alike", () => {
+    expect(diffLines("a\r\nb", "a\nb")).toEqual([
+      { type: "unchanged", text: "a" },
+      { type: "unchanged", text: "b" },
+    ]);
+  });
+});
+
+describe("diffTemplateVersions", () => {
+  const base: TemplateVersion = {
+    templateId: "tpl-1",
+    version: 1,
+    name: "Intro",
+    subject: "Quick question about {{business_name}}",
+    htmlBody: "<p>Hi</p>\n<p>Your site is slow</p>",
+    variables: ["business_name"],
+    category: "initial_outreach",
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+  };
+
+  it("only reports the fields that changed", () => {
+    const next: TemplateVersion = {
+      ...base,
+      version: 2,
+      subject: "Your website, {{business_name}}",
+      description: "Shorter subject",
+    };
+
+    const diff = diffTemplateVersions(base, next);
+
+    expect(diff).toMatchObject({ templateId: "tpl-1", fromVersion: 1, toVersion: 2 });
+    expect(diff.changes.map((change) => change.field)).toEqual(["description", "subject"]);
+    expect(diff.changes[0]).toEqual({
+      field: "description",
+      before: null,
+      after: "Shorter subject",
+      lines: [{ type: "added", text: "Shorter subject" }],
+    });
+  });
+
+  it("reports no changes between identical versions", () => {
+    expect(diffTemplateVersions(base, { ...base, version: 2 }).changes).toEqual([]);
+  });
+});
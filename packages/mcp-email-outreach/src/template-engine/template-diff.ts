@@ -0,0 +1,75 @@
+import {
+  type TemplateDiff,
+  type TemplateDiffLine,
+  type TemplateFieldChange,
+  type TemplateVersion,
+  TEMPLATE_DIFF_FIELDS,
+} from "./types.js";
+
+/**
+ * Compare two versions of a template field by field
+ *
+ * Only fields that differ are included. Each change carries a
+ * line diff so body edits can be reviewed without reading both
+ * versions in full.
+ */
+export function diffTemplateVersions(from: TemplateVersion, to: TemplateVersion): TemplateDiff {
+  const changes: TemplateFieldChange[] = [];
+
+  for (const field of TEMPLATE_DIFF_FIELDS) {
+    const before = from[field] ?? null;
+    const after = to[field] ?? null;
+    if (before === after) continue;
+
+    changes.push({ field, before, after, lines: diffLines(before ?? "", after ?? "") });
+  }
+
+  return {
+    templateId: to.templateId,
+    fromVersion: from.version,
+    toVersion: to.version,
+    changes,
+  };
+}
+
+/**
+ * Line diff based on the longest common subsequence
+ */
+export function diffLines(before: string, after: string): TemplateDiffLine[] {
+  const a = before === "" ? [] : before.split(/\r?\n/);
+  const b = after === "" ? [] : after.split(/\r?\n/);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] =
+        a[i] === b[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const lines: TemplateDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "unchanged", text: a[i]! });
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      lines.push({ type: "removed", text: a[i]! });
+      i++;
+    } else {
+      lines.push({ type: "added", text: b[j]! });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) lines.push({ type: "removed", text: a[i]! });
+  for (; j < b.length; j++) lines.push({ type: "added", text: b[j]! });
+
+  return lines;
+}
@@ -1,11 +1,15 @@
 import Handlebars from "handlebars";
 import { AppError, ValidationError, ErrorCode } from "@the-closer/shared";
 import type { LeadProfile, AuditResult } from "@the-closer/shared";
+import { diffTemplateVersions } from "./template-diff.js";
+import { InMemoryTemplateStorage, toTemplateVersion, type TemplateStorage } from "./template-storage.js";
 import {
   type EmailContext,
   type TemplateVariables,
   type RenderedEmail,
   type StoredTemplate,
+  type TemplateVersion,
+  type TemplateDiff,
   type TemplateEngineConfig,
   type ToneSeverity,
   type ToneReplacements,
@@ -13,6 +17,7 @@ import {
   getTopPainPoint,
   formatLoadTime,
   formatScore,
+  formatTechnology,
 } from "./types.js";
 import { DEFAULT_TEMPLATES } from "./default-templates.js";
 
@@ -72,13 +77,20 @@ const TONE_REPLACEMENTS: ToneReplacements = {
  *
  * Renders dynamic email templates with audit findings and lead data.
  * Uses Handlebars for variable substitution and conditional blocks.
+ *
+ * Saved templates are versioned by the storage adapter. The built-in
+ * default templates are read-only and always at version 1.
  */
 export class TemplateEngine {
   private readonly config: TemplateEngineConfig;
-  private readonly templates = new Map<string, StoredTemplate>();
+  private readonly storage: TemplateStorage;
+  private readonly defaultTemplates = new Map<string, StoredTemplate>();
   private readonly handlebars: typeof Handlebars;
 
-  constructor(config: Partial<TemplateEngineConfig> = {}) {
+  constructor(
+    config: Partial<TemplateEngineConfig> = {},
+    storage: TemplateStorage = new InMemoryTemplateStorage()
+  ) {
     // Validate and apply defaults
     const parseResult = TemplateEngineConfigSchema.safeParse(config);
     if (!parseResult.success) {
@@ -87,6 +99,7 @@ export class TemplateEngine {
       });
     }
     this.config = parseResult.data;
+    this.storage = storage;
 
     // Create isolated Handlebars instance
     this.handlebars = Handlebars.create();
@@ -104,9 +117,15 @@ export class TemplateEngine {
 
   /**
    * Render an email template with the given context
+   *
+   * @param version - Render this version instead of the current one
    */
-  async renderEmail(templateId: string, context: EmailContext): Promise<RenderedEmail> {
-    const template = await this.getTemplate(templateId);
+  async renderEmail(
+    templateId: string,
+    context: EmailContext,
+    version?: number
+  ): Promise<RenderedEmail> {
+    const template = await this.getTemplate(templateId, version);
     const variables = this.buildTemplateVariables(context);
 
     try {
@@ -170,25 +189,42 @@ export class TemplateEngine {
 
   /**
    * Get a template by ID
+   *
+   * @param version - Get this version instead of the current one
    */
-  async getTemplate(id: string): Promise<StoredTemplate> {
-    const template = this.templates.get(id);
+  async getTemplate(id: string, version?: number): Promise<StoredTemplate> {
+    const builtIn = this.defaultTemplates.get(id);
+    if (builtIn && (version === undefined || version === builtIn.version)) {
+      return builtIn;
+    }
 
-    if (!template) {
-      throw new AppError(`Template not found: ${id}`, {
-        code: ErrorCode.NOT_FOUND,
-        statusCode: 404,
-        context: { templateId: id },
-      });
+    if (version === undefined) {
+      const template = await this.storage.getTemplate(id);
+      if (template) {
+        return template;
+      }
+    } else {
+      const snapshot = await this.storage.getVersion(id, version);
+      if (snapshot) {
+        return fromTemplateVersion(snapshot);
+      }
     }
 
-    return template;
+    throw new AppError(`Template not found: ${id}${version !== undefined ? ` v${version}` : ""}`, {
+      code: ErrorCode.NOT_FOUND,
+      statusCode: 404,
+      context: { templateId: id, ...(version !== undefined && { version }) },
+    });
   }
 
   /**
-   * Save a template
+   * Save a template as a new version
+   *
+   * @returns The template with its new version number
    */
-  async saveTemplate(template: StoredTemplate): Promise<void> {
+  async saveTemplate(template: StoredTemplate, changeNote?: string): Promise<StoredTemplate> {
+    this.assertNotBuiltIn(template.id);
+
     // Validate template compiles
     try {
       this.handlebars.compile(template.subject);
@@ -204,37 +240,110 @@ export class TemplateEngine {
       });
     }
 
-    template.updatedAt = new Date();
-    this.templates.set(template.id, template);
+    return this.storage.saveVersion(template, changeNote);
   }
 
   /**
    * Delete a template
+   *
+   * Its versions are kept so campaigns pinned to them keep rendering.
    */
   async deleteTemplate(id: string): Promise<void> {
-    if (!this.templates.has(id)) {
+    this.assertNotBuiltIn(id);
+
+    if (!(await this.storage.deleteTemplate(id))) {
       throw new AppError(`Template not found: ${id}`, {
         code: ErrorCode.NOT_FOUND,
         statusCode: 404,
         context: { templateId: id },
       });
     }
-
-    this.templates.delete(id);
   }
 
   /**
    * List all templates
    */
   async listTemplates(): Promise<StoredTemplate[]> {
-    return Array.from(this.templates.values());
+    return [...this.defaultTemplates.values(), ...(await this.storage.listTemplates())];
   }
 
   /**
    * Check if a template exists
    */
   async templateExists(id: string): Promise<boolean> {
-    return this.templates.has(id);
+    return this.defaultTemplates.has(id) || (await this.storage.getTemplate(id)) !== null;
+  }
+
+  // ============================================
+  // Template Versions
+  // ============================================
+
+  /**
+   * List all versions of a template, newest first
+   */
+  async listTemplateVersions(id: string): Promise<TemplateVersion[]> {
+    const builtIn = this.defaultTemplates.get(id);
+    if (builtIn) {
+      return [toTemplateVersion(builtIn, builtIn.version)];
+    }
+
+    const versions = await this.storage.listVersions(id);
+    if (versions.length === 0) {
+      throw new AppError(`Template not found: ${id}`, {
+        code: ErrorCode.NOT_FOUND,
+        statusCode: 404,
+        context: { templateId: id },
+      });
+    }
+    return versions;
+  }
+
+  /**
+   * Compare two versions of a template
+   *
+   * @param toVersion - Defaults to the current version
+   */
+  async diffTemplateVersions(
+    id: string,
+    fromVersion: number,
+    toVersion?: number
+  ): Promise<TemplateDiff> {
+    const from = await this.getTemplate(id, fromVersion);
+    const to = await this.getTemplate(id, toVersion);
+
+    return diffTemplateVersions(
+      toTemplateVersion(from, from.version),
+      toTemplateVersion(to, to.version)
+    );
+  }
+
+  /**
+   * Restore an earlier version
+   *
+   * The restored content is saved as a new version, so history
+   * is never rewritten and campaigns pinned to later versions
+   * are unaffected.
+   */
+  async rollbackTemplate(id: string, version: number): Promise<StoredTemplate> {
+    const current = await this.getTemplate(id);
+    const target = await this.getTemplate(id, version);
+
+    return this.saveTemplate(
+      { ...target, createdAt: current.createdAt },
+      `Rolled back to version ${version}`
+    );
+  }
+
+  /**
+   * Built-in templates are shipped with the engine and can't be changed
+   */
+  private assertNotBuiltIn(id: string): void {
+    if (this.defaultTemplates.has(id)) {
+      throw new ValidationError(
+        `Default template ${id} is read-only - save a copy under a new ID instead`,
+        { context: { templateId: id } }
+      );
+    }
   }
 
   // ============================================
@@ -298,6 +407,14 @@ export class TemplateEngine {
       ? audit.painPoints.some((p) => p.severity === "CRITICAL" || p.severity === "HIGH")
       : false;
 
+    // Tech stack fingerprint, when the audit ran it
+    const technologies = audit?.techStack?.technologies ?? [];
+    const platform = technologies.find(
+      (t) => t.category === "cms" || t.category === "site-builder" || t.category === "ecommerce"
+    );
+    const outdatedTech = technologies.filter((t) => t.outdated);
+    const vulnerabilityCount = audit?.techStack?.vulnerabilities.length ?? 0;
+
     return {
       // Lead variables
       business_name: lead.businessName,
@@ -318,6 +435,13 @@ export class TemplateEngine {
       evidence_link: evidenceLink,
       mobile_friendly: audit?.mobileFriendly ? "Yes" : "No",
 
+      // Tech stack variables
+      cms: formatTechnology(platform),
+      tech_stack: technologies.map((t) => t.name).join(", "),
+      outdated_tech: outdatedTech.map(formatTechnology).join(", "),
+      jquery_version: technologies.find((t) => t.name === "jQuery")?.version ?? "",
+      vulnerability_count: String(vulnerabilityCount),
+
       // Action variables
       calendar_link: calendarLink || this.config.defaultCalendarLink || "",
 
@@ -328,6 +452,8 @@ export class TemplateEngine {
       poor_performance: poorPerformance,
       has_mobile_issues: hasMobileIssues,
       has_critical_issues: hasCriticalIssues,
+      has_outdated_tech: outdatedTech.length > 0,
+      has_vulnerabilities: vulnerabilityCount > 0,
 
       // Merge custom variables
       ...customVariables,
@@ -426,7 +552,7 @@ export class TemplateEngine {
    */
   private loadDefaultTemplates(): void {
     for (const template of DEFAULT_TEMPLATES) {
-      this.templates.set(template.id, template);
+      this.defaultTemplates.set(template.id, template);
     }
   }
 
@@ -522,6 +648,7 @@ export class TemplateEngine {
       rating: sampleContext?.lead?.rating ?? 3.5,
       reviewCount: sampleContext?.lead?.reviewCount ?? 42,
       businessCategory: sampleContext?.lead?.businessCategory ?? "Restaurant",
+      contacts: [],
       painPoints: [],
       evidenceUrls: [],
       contactStatus: "pending",
@@ -544,6 +671,7 @@ export class TemplateEngine {
       wcagViolations: [],
       mobileFriendly: false,
       responsiveIssues: [],
+      seoIssues: [],
       testedViewports: [],
       painPoints: [
         {
@@ -575,3 +703,15 @@ export class TemplateEngine {
     return this.renderEmail(templateId, context);
   }
 }
+
+/**
+ * Rebuild a renderable template from a stored version
+ */
+function fromTemplateVersion(snapshot: TemplateVersion): StoredTemplate {
+  const { templateId, changeNote: _changeNote, ...content } = snapshot;
+  return {
+    ...content,
+    id: templateId,
+    updatedAt: snapshot.createdAt,
+  };
+}
@@ -0,0 +1,90 @@
+import type { StoredTemplate, TemplateVersion } from "./types.js";
+
+/**
+ * Template storage interface
+ * Every save creates a new immutable version; the latest one is current
+ */
+export interface TemplateStorage {
+  /** Get the current version of a template */
+  getTemplate(id: string): Promise<StoredTemplate | null>;
+  /** Get a specific version, even of a deleted template */
+  getVersion(id: string, version: number): Promise<TemplateVersion | null>;
+  /** List current versions of all templates */
+  listTemplates(): Promise<StoredTemplate[]>;
+  /** List all versions of a template, newest first */
+  listVersions(id: string): Promise<TemplateVersion[]>;
+  /** Store the template as a new version and return it with its version number */
+  saveVersion(template: StoredTemplate, changeNote?: string): Promise<StoredTemplate>;
+  /** Remove a template from listings, keeping its versions; false if not found */
+  deleteTemplate(id: string): Promise<boolean>;
+}
+
+/**
+ * Build the snapshot stored for a template version
+ */
+export function toTemplateVersion(
+  template: StoredTemplate,
+  version: number,
+  changeNote?: string
+): TemplateVersion {
+  return {
+    templateId: template.id,
+    version,
+    name: template.name,
+    ...(template.description !== undefined && { description: template.description }),
+    subject: template.subject,
+    htmlBody: template.htmlBody,
+    ...(template.textBody !== undefined && { textBody: template.textBody }),
+    variables: template.variables,
+    category: template.category,
+    ...(changeNote !== undefined && { changeNote }),
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * In-memory template storage for testing
+ */
+export class InMemoryTemplateStorage implements TemplateStorage {
+  private readonly versions = new Map<string, TemplateVersion[]>();
+  private readonly templates = new Map<string, StoredTemplate>();
+
+  async getTemplate(id: string): Promise<StoredTemplate | null> {
+    return this.templates.get(id) ?? null;
+  }
+
+  async getVersion(id: string, version: number): Promise<TemplateVersion | null> {
+    return this.versions.get(id)?.find((v) => v.version === version) ?? null;
+  }
+
+  async listTemplates(): Promise<StoredTemplate[]> {
+    return Array.from(this.templates.values());
+  }
+
+  async listVersions(id: string): Promise<TemplateVersion[]> {
+    return [...(this.versions.get(id) ?? [])].reverse();
+  }
+
+  async saveVersion(template: StoredTemplate, changeNote?: string): Promise<StoredTemplate> {
+    const history = this.versions.get(template.id) ?? [];
+    const version = history.length + 1;
+    const snapshot = toTemplateVersion(template, version, changeNote);
+
+    this.versions.set(template.id, [...history, snapshot]);
+
+    const existing = this.templates.get(template.id);
+    const saved: StoredTemplate = {
+      ...template,
+      version,
+      createdAt: existing?.createdAt ?? snapshot.createdAt,
+      updatedAt: snapshot.createdAt,
+    };
+    this.templates.set(template.id, saved);
+
+    return saved;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    return this.templates.delete(id);
+  }
+}
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import type { LeadProfile, AuditResult, PainPoint } from "@the-closer/shared";
+import type { LeadProfile, AuditResult, PainPoint, DetectedTechnology } from "@the-closer/shared";
 
 // ============================================
 // Email Context
@@ -38,6 +38,13 @@ export interface TemplateVariables {
   evidence_link: string;
   mobile_friendly: string;
 
+  // Tech stack variables
+  cms: string;
+  tech_stack: string;
+  outdated_tech: string;
+  jquery_version: string;
+  vulnerability_count: string;
+
   // Action variables
   calendar_link: string;
 
@@ -48,6 +55,8 @@ export interface TemplateVariables {
   poor_performance: boolean;
   has_mobile_issues: boolean;
   has_critical_issues: boolean;
+  has_outdated_tech: boolean;
+  has_vulnerabilities: boolean;
 
   // Custom variables
   [key: string]: unknown;
@@ -84,12 +93,74 @@ export const StoredTemplateSchema = z.object({
   textBody: z.string().optional(),
   variables: z.array(z.string()).default([]),
   category: z.enum(["initial_outreach", "followup", "custom"]).default("custom"),
+  version: z.number().int().positive().default(1),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export type StoredTemplate = z.output<typeof StoredTemplateSchema>;
 
+/**
+ * Immutable snapshot of a template, created on every save
+ */
+export const TemplateVersionSchema = StoredTemplateSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  templateId: z.string(),
+  changeNote: z.string().optional(),
+  createdAt: z.date(),
+});
+
+export type TemplateVersion = z.output<typeof TemplateVersionSchema>;
+
+// ============================================
+// Template Diffs
+// ============================================
+
+/**
+ * Template fields compared between versions
+ */
+export const TEMPLATE_DIFF_FIELDS = [
+  "name",
+  "description",
+  "category",
+  "subject",
+  "htmlBody",
+  "textBody",
+] as const;
+
+export type TemplateDiffField = (typeof TEMPLATE_DIFF_FIELDS)[number];
+
+/**
+ * One line of a line-based diff
+ */
+export interface TemplateDiffLine {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+/**
+ * A field that differs between two versions
+ */
+export interface TemplateFieldChange {
+  field: TemplateDiffField;
+  before: string | null;
+  after: string | null;
+  lines: TemplateDiffLine[];
+}
+
+/**
+ * Differences between two versions of a template
+ */
+export interface TemplateDiff {
+  templateId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: TemplateFieldChange[];
+}
+
 // ============================================
 // Tone Settings
 // ============================================
@@ -188,6 +259,14 @@ export function formatLoadTime(ms: number | undefined): string {
   return `${seconds.toFixed(1)} seconds`;
 }
 
+/**
+ * Format a detected technology as "Name version", or "" when absent
+ */
+export function formatTechnology(technology: DetectedTechnology | undefined): string {
+  if (technology === undefined) return "";
+  return technology.version ? `${technology.name} ${technology.version}` : technology.name;
+}
+
 /**
  * Format a score as a percentage or "N/A"
  */
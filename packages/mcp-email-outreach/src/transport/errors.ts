@@ -0,0 +1,51 @@
+import { AppError, ErrorCode } from "@the-closer/shared";
+
+import type { MailTransportErrorCodeType } from "./types.js";
+
+/**
+ * Error raised by the local mail transports
+ *
+ * `retryable` tells ResilientEmailQueue whether the send should be
+ * retried - SMTP 4xx replies and dropped connections are, 5xx replies are not.
+ */
+export class MailTransportError extends AppError {
+  public readonly transportCode: MailTransportErrorCodeType;
+  public readonly retryable: boolean;
+  public readonly smtpCode: number | undefined;
+
+  constructor(
+    message: string,
+    options: {
+      transportCode: MailTransportErrorCodeType;
+      retryable: boolean;
+      smtpCode?: number | undefined;
+      context?: Record<string, unknown> | undefined;
+      cause?: Error | undefined;
+    }
+  ) {
+    super(message, {
+      code: ErrorCode.EMAIL_DELIVERY_FAILED,
+      statusCode: options.retryable ? 503 : 502,
+      isOperational: true,
+      context: {
+        ...options.context,
+        ...(options.smtpCode !== undefined ? { smtpCode: options.smtpCode } : {}),
+      },
+      cause: options.cause,
+    });
+
+    this.transportCode = options.transportCode;
+    this.retryable = options.retryable;
+    this.smtpCode = options.smtpCode;
+
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      transportCode: this.transportCode,
+      retryable: this.retryable,
+    };
+  }
+}
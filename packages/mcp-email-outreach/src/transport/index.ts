@@ -0,0 +1,32 @@
+/**
+ * Mail Transport Module
+ *
+ * Pluggable delivery backends: Mailgun in production, SMTP and
+ * a maildir outbox for staging and CI.
+ */
+
+export { SmtpTransport } from "./smtp-transport.js";
+export { OutboxTransport } from "./outbox-transport.js";
+export { MailTransportError } from "./errors.js";
+export {
+  buildMimeMessage,
+  createMessageId,
+  parseMessageHeaders,
+  getEnvelopeRecipients,
+} from "./mime.js";
+
+export type {
+  MailTransport,
+  MailTransportType,
+  SmtpTransportConfig,
+  OutboxTransportConfig,
+  OutboxMessage,
+  MailTransportErrorCodeType,
+} from "./types.js";
+
+export {
+  MailTransportTypeSchema,
+  SmtpTransportConfigSchema,
+  OutboxTransportConfigSchema,
+  MailTransportErrorCode,
+} from "./types.js";
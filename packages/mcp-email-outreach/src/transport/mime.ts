@@ -0,0 +1,218 @@
+import { randomUUID } from "node:crypto";
+
+import { parseMailbox, type EmailOptions } from "../mailgun/types.js";
+
+/**
+ * Line ending required by RFC 5322
+ */
+const CRLF = "\r\n";
+
+/**
+ * Maximum encoded line length (RFC 2045)
+ */
+const MAX_LINE_LENGTH = 76;
+
+/**
+ * Generate a Message-ID for the given domain
+ */
+export function createMessageId(domain: string): string {
+  return `<${randomUUID()}@${domain}>`;
+}
+
+/**
+ * Build an RFC 5322 message from email options
+ *
+ * Bcc recipients are left out of the headers - transports deliver
+ * to them from the envelope only. Tags are written as X-Mailgun-Tag
+ * headers so locally captured messages carry the same lead and
+ * campaign markers as the ones sent through Mailgun.
+ */
+export function buildMimeMessage(
+  options: EmailOptions,
+  meta: { messageId: string; date?: Date }
+): string {
+  const headers: Array<[string, string]> = [
+    ["From", encodeMailbox(options.from)],
+    ["To", toAddressList(options.to).join(", ")],
+  ];
+
+  if (options.cc && options.cc.length > 0) {
+    headers.push(["Cc", options.cc.join(", ")]);
+  }
+  if (options.replyTo !== undefined) {
+    headers.push(["Reply-To", options.replyTo]);
+  }
+
+  headers.push(
+    ["Subject", encodeHeaderValue(options.subject)],
+    ["Date", (meta.date ?? new Date()).toUTCString()],
+    ["Message-ID", meta.messageId],
+    ["MIME-Version", "1.0"]
+  );
+
+  for (const tag of options.tags ?? []) {
+    headers.push(["X-Mailgun-Tag", tag]);
+  }
+  if (options.tracking !== undefined) {
+    headers.push(["X-Mailgun-Track-Opens", options.tracking.opens ? "yes" : "no"]);
+    headers.push(["X-Mailgun-Track-Clicks", options.tracking.clicks ? "yes" : "no"]);
+  }
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers.push([name, encodeHeaderValue(value)]);
+  }
+
+  const body = buildBody(options);
+  const lines = [
+    ...headers.map(([name, value]) => `${name}: ${sanitizeHeaderValue(value)}`),
+    ...body.headers,
+    "",
+    body.content,
+  ];
+
+  return lines.join(CRLF);
+}
+
+/**
+ * Parse the header block of a raw message
+ *
+ * Folded lines are unfolded and header names are lower-cased.
+ * Repeated headers are joined with ", ".
+ */
+export function parseMessageHeaders(raw: string): Record<string, string> {
+  const headerEnd = raw.search(/\r?\n\r?\n/);
+  const block = headerEnd === -1 ? raw : raw.slice(0, headerEnd);
+  const unfolded = block.replace(/\r?\n[ \t]+/g, " ");
+
+  const headers: Record<string, string> = {};
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    headers[name] = headers[name] !== undefined ? `${headers[name]}, ${value}` : value;
+  }
+
+  return headers;
+}
+
+/**
+ * All envelope recipients of an email (to, cc and bcc)
+ */
+export function getEnvelopeRecipients(options: EmailOptions): string[] {
+  return [...toAddressList(options.to), ...(options.cc ?? []), ...(options.bcc ?? [])];
+}
+
+// ============================================
+// Body Encoding
+// ============================================
+
+/**
+ * Build the MIME body: text/html alternatives, wrapped in
+ * multipart/mixed when there are attachments
+ */
+function buildBody(options: EmailOptions): { headers: string[]; content: string } {
+  const alternative = options.text !== undefined
+    ? multipart("alternative", [
+        encodePart("text/plain; charset=utf-8", options.text),
+        encodePart("text/html; charset=utf-8", options.html),
+      ])
+    : encodePart("text/html; charset=utf-8", options.html);
+
+  if (!options.attachments || options.attachments.length === 0) {
+    return alternative;
+  }
+
+  const attachments = options.attachments.map((attachment) =>
+    encodePart(attachment.contentType ?? "application/octet-stream", attachment.data, [
+      `Content-Disposition: attachment; filename="${attachment.filename.replace(/"/g, "")}"`,
+    ])
+  );
+
+  return multipart("mixed", [alternative, ...attachments]);
+}
+
+/**
+ * Encode a single part as base64
+ */
+function encodePart(
+  contentType: string,
+  data: string | Buffer,
+  extraHeaders: string[] = []
+): { headers: string[]; content: string } {
+  const base64 = Buffer.from(data).toString("base64");
+  const wrapped = base64.match(new RegExp(`.{1,${MAX_LINE_LENGTH}}`, "g")) ?? [""];
+
+  return {
+    headers: [
+      `Content-Type: ${contentType}`,
+      "Content-Transfer-Encoding: base64",
+      ...extraHeaders,
+    ],
+    content: wrapped.join(CRLF),
+  };
+}
+
+/**
+ * Combine parts into a multipart entity
+ */
+function multipart(
+  subtype: "alternative" | "mixed",
+  parts: Array<{ headers: string[]; content: string }>
+): { headers: string[]; content: string } {
+  const boundary = `----=_Part_${randomUUID().replace(/-/g, "")}`;
+  const lines: string[] = [];
+
+  for (const part of parts) {
+    lines.push(`--${boundary}`, ...part.headers, "", part.content);
+  }
+  lines.push(`--${boundary}--`, "");
+
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    content: lines.join(CRLF),
+  };
+}
+
+// ============================================
+// Header Helpers
+// ============================================
+
+/**
+ * Normalize the "to" field to a list
+ */
+function toAddressList(to: string | string[]): string[] {
+  return Array.isArray(to) ? to : [to];
+}
+
+/**
+ * Encode the display name of a mailbox, leaving the address readable
+ */
+function encodeMailbox(mailbox: string): string {
+  const { name, address } = parseMailbox(mailbox);
+  if (name === undefined) {
+    return address;
+  }
+
+  // Encoded words must not appear inside a quoted string (RFC 2047 5)
+  const encoded = encodeHeaderValue(name);
+  return encoded === name ? `"${name}" <${address}>` : `${encoded} <${address}>`;
+}
+
+/**
+ * RFC 2047 encode header values that are not plain ASCII
+ */
+function encodeHeaderValue(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+/**
+ * Strip line breaks so values cannot inject extra headers
+ */
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
@@ -0,0 +1,138 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { ValidationError } from "@the-closer/shared";
+
+import { EmailOptionsSchema, type EmailOptions, type SendResult } from "../mailgun/types.js";
+import { MailTransportError } from "./errors.js";
+import { buildMimeMessage, createMessageId, parseMessageHeaders } from "./mime.js";
+import {
+  MailTransportErrorCode,
+  OutboxTransportConfigSchema,
+  type MailTransport,
+  type OutboxMessage,
+  type OutboxTransportConfig,
+} from "./types.js";
+
+/**
+ * Outbox Transport
+ *
+ * Writes every email as an RFC 5322 `.eml` file into a maildir-style
+ * directory instead of sending it. Files are written to `tmp/` and
+ * renamed into `new/`, so readers never see a partial message.
+ */
+export class OutboxTransport implements MailTransport {
+  private readonly config: OutboxTransportConfig;
+  private sequence = 0;
+
+  constructor(config: Partial<OutboxTransportConfig> & { directory: string }) {
+    const parseResult = OutboxTransportConfigSchema.safeParse(config);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid outbox transport configuration", {
+        context: { errors: parseResult.error.errors },
+      });
+    }
+    this.config = parseResult.data;
+  }
+
+  /**
+   * Create the maildir directories
+   */
+  async connect(): Promise<void> {
+    try {
+      await mkdir(this.tmpDir, { recursive: true });
+      await mkdir(this.newDir, { recursive: true });
+    } catch (error) {
+      throw this.writeError("Failed to create outbox directories", error);
+    }
+  }
+
+  /**
+   * Write an email to the outbox
+   */
+  async sendEmail(options: EmailOptions): Promise<SendResult> {
+    const parseResult = EmailOptionsSchema.safeParse(options);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid email options", {
+        context: { errors: parseResult.error.errors },
+      });
+    }
+
+    const messageId = createMessageId(this.config.messageIdDomain);
+    const raw = buildMimeMessage(parseResult.data, { messageId });
+    const fileName = `${Date.now()}.${process.pid}_${++this.sequence}.eml`;
+
+    try {
+      await this.connect();
+      await writeFile(join(this.tmpDir, fileName), raw, "utf-8");
+      await rename(join(this.tmpDir, fileName), join(this.newDir, fileName));
+    } catch (error) {
+      if (error instanceof MailTransportError) throw error;
+      throw this.writeError(`Failed to write ${fileName} to the outbox`, error);
+    }
+
+    return { id: messageId, message: `Written to ${fileName}`, status: "sent" };
+  }
+
+  /**
+   * Read all messages in the outbox, oldest first
+   */
+  async listMessages(): Promise<OutboxMessage[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.newDir);
+    } catch {
+      return [];
+    }
+
+    const messages: OutboxMessage[] = [];
+    // File names start with a millisecond timestamp, so they sort by send order
+    for (const file of files.filter((f) => f.endsWith(".eml")).sort(compareFileNames)) {
+      const path = join(this.newDir, file);
+      const raw = await readFile(path, "utf-8");
+      const headers = parseMessageHeaders(raw);
+      messages.push({ id: headers["message-id"] ?? "", path, raw, headers });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Remove every message from the outbox
+   */
+  async clear(): Promise<void> {
+    await rm(this.tmpDir, { recursive: true, force: true });
+    await rm(this.newDir, { recursive: true, force: true });
+  }
+
+  private get tmpDir(): string {
+    return join(this.config.directory, "tmp");
+  }
+
+  private get newDir(): string {
+    return join(this.config.directory, "new");
+  }
+
+  private writeError(message: string, error: unknown): MailTransportError {
+    return new MailTransportError(message, {
+      transportCode: MailTransportErrorCode.WRITE_FAILED,
+      retryable: false,
+      context: { directory: this.config.directory },
+      ...(error instanceof Error && { cause: error }),
+    });
+  }
+}
+
+/**
+ * Order outbox file names by timestamp, then by sequence number
+ */
+function compareFileNames(a: string, b: string): number {
+  const [aTime = "", aRest = ""] = a.split(".");
+  const [bTime = "", bRest = ""] = b.split(".");
+  const byTime = Number(aTime) - Number(bTime);
+  if (byTime !== 0) return byTime;
+
+  const aSeq = Number(aRest.split("_")[1] ?? 0);
+  const bSeq = Number(bRest.split("_")[1] ?? 0);
+  return aSeq - bSeq;
+}
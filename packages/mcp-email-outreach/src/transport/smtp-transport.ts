@@ -0,0 +1,366 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+
+import { ValidationError } from "@the-closer/shared";
+
+import {
+  EmailOptionsSchema,
+  parseMailbox,
+  type EmailOptions,
+  type SendResult,
+} from "../mailgun/types.js";
+import { MailTransportError } from "./errors.js";
+import { buildMimeMessage, createMessageId, getEnvelopeRecipients } from "./mime.js";
+import {
+  MailTransportErrorCode,
+  SmtpTransportConfigSchema,
+  type MailTransport,
+  type SmtpTransportConfig,
+} from "./types.js";
+
+/**
+ * A complete (possibly multi-line) SMTP reply
+ */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * SMTP Transport
+ *
+ * Minimal SMTP client for local mail sinks (MailHog, Mailpit, smtp4dev)
+ * and plain relays. Opens one connection per email, upgrades with
+ * STARTTLS when the server offers it and authenticates with AUTH PLAIN
+ * when credentials are configured.
+ */
+export class SmtpTransport implements MailTransport {
+  private readonly config: SmtpTransportConfig;
+
+  constructor(config: Partial<SmtpTransportConfig> & { host: string }) {
+    const parseResult = SmtpTransportConfigSchema.safeParse(config);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid SMTP transport configuration", {
+        context: { errors: parseResult.error.errors },
+      });
+    }
+    this.config = parseResult.data;
+  }
+
+  /**
+   * Verify the server is reachable and accepts our credentials
+   */
+  async connect(): Promise<void> {
+    const connection = await this.openSession();
+    await connection.quit();
+  }
+
+  /**
+   * Send an email over SMTP
+   */
+  async sendEmail(options: EmailOptions): Promise<SendResult> {
+    const parseResult = EmailOptionsSchema.safeParse(options);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid email options", {
+        context: { errors: parseResult.error.errors },
+      });
+    }
+
+    const email = parseResult.data;
+    const messageId = createMessageId(this.config.messageIdDomain);
+    const raw = buildMimeMessage(email, { messageId });
+
+    const connection = await this.openSession();
+    try {
+      await connection.command(`MAIL FROM:<${parseMailbox(email.from).address}>`, [250]);
+      for (const recipient of getEnvelopeRecipients(email)) {
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await connection.command("DATA", [354]);
+      const reply = await connection.command(`${dotStuff(raw)}\r\n.`, [250], "DATA");
+      await connection.quit();
+
+      return { id: messageId, message: reply.lines.join(" "), status: "sent" };
+    } catch (error) {
+      connection.destroy();
+      throw error;
+    }
+  }
+
+  /**
+   * Connect, greet, upgrade to TLS and authenticate
+   */
+  private async openSession(): Promise<SmtpConnection> {
+    const connection = await SmtpConnection.open(this.config);
+
+    try {
+      await connection.expectGreeting();
+      const capabilities = await connection.ehlo(this.config.clientName);
+
+      if (!this.config.secure && capabilities.has("STARTTLS")) {
+        await connection.command("STARTTLS", [220]);
+        await connection.upgradeToTls(this.config);
+        // Capabilities must be re-read after the upgrade (RFC 3207)
+        await connection.ehlo(this.config.clientName);
+      }
+
+      if (this.config.username !== undefined) {
+        const credentials = Buffer.from(
+          `\0${this.config.username}\0${this.config.password ?? ""}`
+        ).toString("base64");
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], "AUTH PLAIN");
+      }
+
+      return connection;
+    } catch (error) {
+      connection.destroy();
+      throw error;
+    }
+  }
+}
+
+/**
+ * A single SMTP session over a TCP or TLS socket
+ */
+class SmtpConnection {
+  private socket: Socket;
+  private buffer = "";
+  private readonly replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+  private readonly host: string;
+  private readonly timeoutMs: number;
+
+  private constructor(socket: Socket, config: SmtpTransportConfig) {
+    this.socket = socket;
+    this.host = config.host;
+    this.timeoutMs = config.timeoutMs;
+    this.attach(socket);
+  }
+
+  /**
+   * Open a socket to the server
+   */
+  static open(config: SmtpTransportConfig): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? connectTls({
+            host: config.host,
+            port: config.port,
+            servername: config.host,
+            rejectUnauthorized: !config.allowInsecureTls,
+          })
+        : connectTcp({ host: config.host, port: config.port });
+
+      const onError = (error: Error): void => {
+        socket.destroy();
+        reject(connectionError(config.host, error));
+      };
+
+      const onTimeout = (): void => {
+        onError(new Error(`Timed out connecting to ${config.host}:${config.port}`));
+      };
+
+      socket.setTimeout(config.timeoutMs);
+      socket.once("error", onError);
+      socket.once("timeout", onTimeout);
+      socket.once(config.secure ? "secureConnect" : "connect", () => {
+        socket.off("error", onError);
+        socket.off("timeout", onTimeout);
+        resolve(new SmtpConnection(socket, config));
+      });
+    });
+  }
+
+  /**
+   * Wait for the 220 greeting
+   */
+  async expectGreeting(): Promise<void> {
+    const reply = await this.readReply();
+    assertReply(reply, [220], "greeting");
+  }
+
+  /**
+   * Send EHLO and return the advertised capabilities
+   */
+  async ehlo(clientName: string): Promise<Set<string>> {
+    const reply = await this.command(`EHLO ${clientName}`, [250]);
+    return new Set(reply.lines.slice(1).map((line) => line.split(" ")[0]!.toUpperCase()));
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  async command(line: string, expected: number[], label?: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.readReply();
+    assertReply(reply, expected, label ?? line.split(/[\s:]/)[0] ?? line);
+    return reply;
+  }
+
+  /**
+   * Upgrade the plain socket after STARTTLS
+   */
+  upgradeToTls(config: SmtpTransportConfig): Promise<void> {
+    this.detach(this.socket);
+
+    return new Promise((resolve, reject) => {
+      const secureSocket = connectTls({
+        socket: this.socket,
+        servername: config.host,
+        rejectUnauthorized: !config.allowInsecureTls,
+      });
+
+      secureSocket.once("error", (error) => reject(connectionError(this.host, error)));
+      secureSocket.once("secureConnect", () => {
+        this.socket = secureSocket;
+        this.attach(secureSocket);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * End the session politely
+   */
+  async quit(): Promise<void> {
+    try {
+      await this.command("QUIT", [221]);
+    } catch {
+      // The message is already accepted - a failed QUIT doesn't matter
+    } finally {
+      this.socket.end();
+    }
+  }
+
+  destroy(): void {
+    this.socket.destroy();
+  }
+
+  // ============================================
+  // Reply Handling
+  // ============================================
+
+  private readonly onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString("utf-8");
+    this.drain();
+  };
+
+  private readonly onError = (error: Error): void => {
+    this.fail(connectionError(this.host, error));
+  };
+
+  private readonly onTimeout = (): void => {
+    this.fail(
+      new MailTransportError(`SMTP server ${this.host} timed out`, {
+        transportCode: MailTransportErrorCode.TIMEOUT,
+        retryable: true,
+      })
+    );
+    this.socket.destroy();
+  };
+
+  private readonly onClose = (): void => {
+    this.fail(connectionError(this.host, new Error("Connection closed")));
+  };
+
+  private attach(socket: Socket): void {
+    socket.setTimeout(this.timeoutMs);
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("timeout", this.onTimeout);
+    socket.on("close", this.onClose);
+  }
+
+  private detach(socket: Socket): void {
+    socket.off("data", this.onData);
+    socket.off("error", this.onError);
+    socket.off("timeout", this.onTimeout);
+    socket.off("close", this.onClose);
+  }
+
+  /**
+   * Move complete replies from the buffer into the queue
+   * A reply ends with a line whose code is followed by a space
+   */
+  private drain(): void {
+    let lines: string[] = [];
+    let consumed = 0;
+
+    for (;;) {
+      const end = this.buffer.indexOf("\r\n", consumed);
+      if (end === -1) break;
+
+      const line = this.buffer.slice(consumed, end);
+      consumed = end + 2;
+      lines.push(line.slice(4));
+
+      if (line.charAt(3) !== "-") {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines });
+        this.buffer = this.buffer.slice(consumed);
+        consumed = 0;
+        lines = [];
+      }
+    }
+
+    if (this.waiting && this.replies.length > 0) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(this.replies.shift()!);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+}
+
+/**
+ * Throw when a reply code is not one of the expected codes
+ */
+function assertReply(reply: SmtpReply, expected: number[], command: string): void {
+  if (expected.includes(reply.code)) return;
+
+  const isAuth = command.startsWith("AUTH");
+  throw new MailTransportError(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(" ")}`, {
+    transportCode: isAuth ? MailTransportErrorCode.AUTH_FAILED : MailTransportErrorCode.REJECTED,
+    // 4xx replies are transient by definition
+    retryable: reply.code >= 400 && reply.code < 500,
+    smtpCode: reply.code,
+    context: { command },
+  });
+}
+
+/**
+ * Wrap a socket error as a retryable transport error
+ */
+function connectionError(host: string, error: Error): MailTransportError {
+  return new MailTransportError(`SMTP connection to ${host} failed: ${error.message}`, {
+    transportCode: MailTransportErrorCode.CONNECTION_FAILED,
+    retryable: true,
+    cause: error,
+  });
+}
+
+/**
+ * Escape lines starting with "." for the DATA phase (RFC 5321 4.5.2)
+ */
+function dotStuff(message: string): string {
+  return message.replace(/^\./gm, "..");
+}
@@ -0,0 +1,103 @@
+import { z } from "zod";
+
+import type { EmailOptions, SendResult } from "../mailgun/types.js";
+
+// ============================================
+// Transport Interface
+// ============================================
+
+/**
+ * Anything that can deliver a single email
+ *
+ * MailgunClient is the production transport. The SMTP and outbox
+ * transports let staging and CI run full campaign flows locally.
+ */
+export interface MailTransport {
+  /**
+   * Prepare the transport (verify credentials, reach the server, create directories)
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Send a single email
+   */
+  sendEmail(options: EmailOptions): Promise<SendResult>;
+}
+
+/**
+ * Available transport backends
+ */
+export const MailTransportTypeSchema = z.enum(["mailgun", "smtp", "outbox"]);
+
+export type MailTransportType = z.output<typeof MailTransportTypeSchema>;
+
+// ============================================
+// SMTP Transport
+// ============================================
+
+/**
+ * SMTP transport configuration
+ */
+export const SmtpTransportConfigSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().positive().default(25),
+  /** Use implicit TLS (port 465). Plain connections are upgraded with STARTTLS when offered. */
+  secure: z.boolean().default(false),
+  /** Skip certificate checks - for local sinks with self-signed certificates */
+  allowInsecureTls: z.boolean().default(false),
+  username: z.string().min(1).optional(),
+  password: z.string().min(1).optional(),
+  /** Name announced in EHLO */
+  clientName: z.string().min(1).default("localhost"),
+  /** Domain used for generated Message-IDs */
+  messageIdDomain: z.string().min(1).default("localhost"),
+  timeoutMs: z.number().int().positive().default(30000),
+});
+
+export type SmtpTransportConfig = z.output<typeof SmtpTransportConfigSchema>;
+
+// ============================================
+// Outbox Transport
+// ============================================
+
+/**
+ * Outbox transport configuration
+ */
+export const OutboxTransportConfigSchema = z.object({
+  /** Maildir root - messages are written to tmp/ and moved into new/ */
+  directory: z.string().min(1),
+  /** Domain used for generated Message-IDs */
+  messageIdDomain: z.string().min(1).default("localhost"),
+});
+
+export type OutboxTransportConfig = z.output<typeof OutboxTransportConfigSchema>;
+
+/**
+ * A message stored in the outbox
+ */
+export interface OutboxMessage {
+  /** Message-ID header, including angle brackets */
+  id: string;
+  path: string;
+  /** Raw RFC 5322 message */
+  raw: string;
+  headers: Record<string, string>;
+}
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Transport error codes
+ */
+export const MailTransportErrorCode = {
+  CONNECTION_FAILED: "TRANSPORT_CONNECTION_FAILED",
+  AUTH_FAILED: "TRANSPORT_AUTH_FAILED",
+  REJECTED: "TRANSPORT_REJECTED",
+  TIMEOUT: "TRANSPORT_TIMEOUT",
+  WRITE_FAILED: "TRANSPORT_WRITE_FAILED",
+} as const;
+
+export type MailTransportErrorCodeType =
+  (typeof MailTransportErrorCode)[keyof typeof MailTransportErrorCode];
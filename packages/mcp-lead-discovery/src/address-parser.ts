@@ -0,0 +1,248 @@
+import type { AddressComponents } from "@the-closer/shared";
+
+/**
+ * US state abbreviations for address normalization
+ */
+export const US_STATES: Record<string, string> = {
+  alabama: "AL",
+  alaska: "AK",
+  arizona: "AZ",
+  arkansas: "AR",
+  california: "CA",
+  colorado: "CO",
+  connecticut: "CT",
+  delaware: "DE",
+  florida: "FL",
+  georgia: "GA",
+  hawaii: "HI",
+  idaho: "ID",
+  illinois: "IL",
+  indiana: "IN",
+  iowa: "IA",
+  kansas: "KS",
+  kentucky: "KY",
+  louisiana: "LA",
+  maine: "ME",
+  maryland: "MD",
+  massachusetts: "MA",
+  michigan: "MI",
+  minnesota: "MN",
+  mississippi: "MS",
+  missouri: "MO",
+  montana: "MT",
+  nebraska: "NE",
+  nevada: "NV",
+  "new hampshire": "NH",
+  "new jersey": "NJ",
+  "new mexico": "NM",
+  "new york": "NY",
+  "north carolina": "NC",
+  "north dakota": "ND",
+  ohio: "OH",
+  oklahoma: "OK",
+  oregon: "OR",
+  pennsylvania: "PA",
+  "rhode island": "RI",
+  "south carolina": "SC",
+  "south dakota": "SD",
+  tennessee: "TN",
+  texas: "TX",
+  utah: "UT",
+  vermont: "VT",
+  virginia: "VA",
+  washington: "WA",
+  "west virginia": "WV",
+  wisconsin: "WI",
+  wyoming: "WY",
+  "district of columbia": "DC",
+};
+
+const US_STATE_CODES = new Set(Object.values(US_STATES));
+
+const CANADIAN_PROVINCES = new Set([
+  "AB",
+  "BC",
+  "MB",
+  "NB",
+  "NL",
+  "NS",
+  "NT",
+  "NU",
+  "ON",
+  "PE",
+  "QC",
+  "SK",
+  "YT",
+]);
+
+/**
+ * Country names as they end addresses, to ISO 3166-1 alpha-2 codes
+ */
+const COUNTRIES: Record<string, string> = {
+  "united states": "US",
+  "united states of america": "US",
+  usa: "US",
+  us: "US",
+  canada: "CA",
+  "united kingdom": "GB",
+  uk: "GB",
+  "great britain": "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  "northern ireland": "GB",
+  ireland: "IE",
+  australia: "AU",
+  "new zealand": "NZ",
+  mexico: "MX",
+  méxico: "MX",
+  germany: "DE",
+  deutschland: "DE",
+  france: "FR",
+  spain: "ES",
+  españa: "ES",
+  italy: "IT",
+  italia: "IT",
+  netherlands: "NL",
+};
+
+/**
+ * A segment with the region and postal code, and the city when it is
+ * written in the same segment
+ */
+interface Locality {
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+/**
+ * Segment patterns, tried from the end of the address
+ */
+const LOCALITY_PATTERNS: Array<(segment: string) => Locality | null> = [
+  // "TX 78701", "Texas 78701-1234", "TX"
+  (segment) => {
+    const match = segment.match(/^([A-Za-z][A-Za-z .]*?)\.?(?:\s+(\d{5}(?:-\d{4})?))?$/);
+    const region = match ? toUsState(match[1]!) : null;
+    if (!region) return null;
+    return { region, ...(match![2] && { postalCode: match![2] }), country: "US" };
+  },
+  // "ON M5V 2T6"
+  (segment) => {
+    const match = segment.match(/^([A-Z]{2})\s+([A-Z]\d[A-Z])\s?(\d[A-Z]\d)$/i);
+    if (!match || !CANADIAN_PROVINCES.has(match[1]!.toUpperCase())) return null;
+    return {
+      region: match[1]!.toUpperCase(),
+      postalCode: `${match[2]} ${match[3]}`.toUpperCase(),
+      country: "CA",
+    };
+  },
+  // "Sydney NSW 2000"
+  (segment) => {
+    const match = segment.match(/^(.+?)\s+(NSW|VIC|QLD|SA|WA|TAS|NT|ACT)\s+(\d{4})$/);
+    if (!match) return null;
+    return { city: match[1]!, region: match[2]!, postalCode: match[3]!, country: "AU" };
+  },
+  // "London SW1A 2AA", "SW1A 2AA"
+  (segment) => {
+    const match = segment.match(/^(.*?)\s*\b([A-Z]{1,2}\d[A-Z\d]?)\s?(\d[A-Z]{2})$/i);
+    if (!match) return null;
+    return {
+      ...(match[1] && { city: match[1] }),
+      postalCode: `${match[2]} ${match[3]}`.toUpperCase(),
+      country: "GB",
+    };
+  },
+  // "10115 Berlin", "75001 Paris"
+  (segment) => {
+    const match = segment.match(/^(\d{4,5})\s+(\D+)$/);
+    if (!match) return null;
+    return { city: match[2]!.trim(), postalCode: match[1]! };
+  },
+];
+
+/**
+ * Split a one-line address into street, city, region, postal code and
+ * country
+ *
+ * Reads addresses as Maps and most lead lists write them: comma-separated,
+ * the street first and the country, when present, last. US, Canadian,
+ * UK, Australian and postal-code-first (European) localities are
+ * recognized; parts that cannot be told apart are left out.
+ *
+ * @example
+ * parseAddress("100 Congress Ave Ste 200, Austin, TX 78701, United States")
+ * // { street: "100 Congress Ave Ste 200", city: "Austin", region: "TX",
+ * //   postalCode: "78701", country: "US" }
+ */
+export function parseAddress(address: string): AddressComponents {
+  const segments = address
+    .split(",")
+    .map((segment) => segment.replace(/\s+/g, " ").trim())
+    .filter((segment) => segment !== "");
+  const components: AddressComponents = {};
+
+  const country = COUNTRIES[segments[segments.length - 1]?.toLowerCase() ?? ""];
+  if (country) {
+    components.country = country;
+    segments.pop();
+  }
+
+  // The locality is the last segment a pattern recognizes; the city
+  // precedes it unless written inside it
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const locality = matchLocality(segments[i]!);
+    if (!locality) continue;
+    // A state name right after the street is a city ("1 Main St, Washington")
+    if (!locality.postalCode && segments[i]!.length > 2 && /^\d/.test(segments[i - 1] ?? "")) {
+      continue;
+    }
+
+    let streetEnd = i;
+    if (locality.city) {
+      components.city = locality.city;
+    } else if (i > 0) {
+      components.city = segments[i - 1]!;
+      streetEnd = i - 1;
+    }
+    if (locality.region) components.region = locality.region;
+    if (locality.postalCode) components.postalCode = locality.postalCode;
+    if (locality.country && !components.country) components.country = locality.country;
+
+    if (streetEnd > 0) {
+      components.street = segments.slice(0, streetEnd).join(", ");
+    }
+    return components;
+  }
+
+  // No locality: "street, city" or just the city
+  if (segments.length >= 2 && /\d/.test(segments[0]!)) {
+    components.street = segments[0]!;
+    components.city = segments[1]!;
+  } else if (segments.length === 1 && /\d/.test(segments[0]!)) {
+    components.street = segments[0]!;
+  } else if (segments.length >= 1) {
+    components.city = segments[segments.length - 1]!;
+  }
+  return components;
+}
+
+function matchLocality(segment: string): Locality | null {
+  for (const pattern of LOCALITY_PATTERNS) {
+    const locality = pattern(segment);
+    if (locality) return locality;
+  }
+  return null;
+}
+
+/**
+ * Two-letter code of a US state written as a code or a name
+ */
+function toUsState(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed) && US_STATE_CODES.has(trimmed.toUpperCase())) {
+    return trimmed.toUpperCase();
+  }
+  return US_STATES[trimmed.toLowerCase()] ?? null;
+}
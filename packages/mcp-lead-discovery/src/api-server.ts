@@ -1,14 +1,27 @@
 import { createServer, IncomingMessage, ServerResponse } from "http";
 import puppeteer, { Browser } from "puppeteer";
 
+import { AppError, getConfig } from "@the-closer/shared";
+import {
+  DiscoverySessionRepository,
+  LeadRepository,
+  SupabaseClient,
+} from "@the-closer/mcp-lead-storage";
+import { PuppeteerClient } from "@the-closer/mcp-site-audit";
+
+import { ContactExtractor } from "./contact-extractor.js";
+import { DiscoveryJobRunner, type JobPage } from "./discovery-jobs.js";
+import { LeadDiscoveryService } from "./discovery-service.js";
 import { MapsScraper } from "./maps-scraper.js";
-import { DataExtractor } from "./data-extractor.js";
 import { ProspectQualifier, DEFAULT_QUALIFICATION_RULES } from "./qualifier.js";
-import type { SearchCriteria, DiscoveredBusiness } from "./types.js";
 
 const PORT = process.env["DISCOVERY_API_PORT"] || 3001;
 
 let browser: Browser | null = null;
+// Desktop pages for crawling lead websites, launched on first use
+const contactBrowser = new PuppeteerClient();
+let leadRepository: LeadRepository | null = null;
+let jobs: DiscoveryJobRunner | null = null;
 
 /**
  * Initialize Puppeteer browser
@@ -31,6 +44,54 @@ async function initBrowser(): Promise<Browser> {
   return browser;
 }
 
+/**
+ * Open a mobile page for Google Maps
+ */
+async function openMapsPage(): Promise<JobPage> {
+  const browserInstance = await initBrowser();
+  const page = await browserInstance.newPage();
+
+  // Set mobile viewport for Google Maps
+  await page.setViewport({ width: 375, height: 812, isMobile: true });
+
+  // Set user agent
+  await page.setUserAgent(
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1"
+  );
+
+  return { page, close: () => page.close() };
+}
+
+/**
+ * Connect to Supabase and set up the discovery job runner
+ */
+async function initJobs(): Promise<DiscoveryJobRunner> {
+  const config = getConfig();
+  const supabase = new SupabaseClient({
+    supabaseUrl: config.SUPABASE_URL,
+    supabaseAnonKey: config.SUPABASE_ANON_KEY,
+    ...(config.SUPABASE_SERVICE_KEY && {
+      supabaseServiceKey: config.SUPABASE_SERVICE_KEY,
+    }),
+  });
+  await supabase.connect();
+
+  leadRepository = new LeadRepository(supabase);
+  const service = new LeadDiscoveryService(
+    new MapsScraper(),
+    new ProspectQualifier(DEFAULT_QUALIFICATION_RULES),
+    leadRepository,
+    {},
+    new ContactExtractor(contactBrowser)
+  );
+
+  return new DiscoveryJobRunner(service, new DiscoverySessionRepository(supabase), openMapsPage, {
+    onProgress: (jobId, status) => {
+      console.log(`[${jobId.slice(0, 8)}] ${status.stage}: ${status.message}`);
+    },
+  });
+}
+
 /**
  * Parse JSON body from request
  */
@@ -65,9 +126,24 @@ function sendJson(res: ServerResponse, status: number, data: unknown): void {
 }
 
 /**
- * Handle discovery search request
+ * Send an error response, using the status of application errors
  */
-async function handleDiscovery(
+function sendError(res: ServerResponse, error: unknown, fallback: string): void {
+  if (error instanceof AppError) {
+    sendJson(res, error.statusCode, { error: error.message });
+    return;
+  }
+  console.error(`❌ ${fallback}:`, error);
+  sendJson(res, 500, {
+    error: error instanceof Error ? error.message : fallback,
+  });
+}
+
+/**
+ * Start a discovery session; the client polls it for progress
+ */
+async function handleStartDiscovery(
+  runner: DiscoveryJobRunner,
   req: IncomingMessage,
   res: ServerResponse
 ): Promise<void> {
@@ -83,65 +159,40 @@ async function handleDiscovery(
       return;
     }
 
-    const maxResults = body.maxResults || 20;
-    const criteria: SearchCriteria = {
+    const session = await runner.start({
       query: body.query,
       location: body.location,
-    };
+      maxResults: body.maxResults || 20,
+    });
+    console.log(`\n🔍 Started discovery ${session.id}: "${session.query}" in "${session.location}"`);
 
-    console.log(`\n🔍 Starting discovery: "${criteria.query}" in "${criteria.location}"`);
-
-    // Initialize browser and scraper
-    const browserInstance = await initBrowser();
-    const page = await browserInstance.newPage();
-
-    try {
-      // Set mobile viewport for Google Maps
-      await page.setViewport({ width: 375, height: 812, isMobile: true });
-
-      // Set user agent
-      await page.setUserAgent(
-        "Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1"
-      );
-
-      // Create scraper and search
-      const scraper = new MapsScraper();
-      const qualifier = new ProspectQualifier(DEFAULT_QUALIFICATION_RULES);
-
-      console.log("📍 Navigating to Google Maps...");
-      const scraperResult = await scraper.searchBusinesses(page, criteria);
-
-      console.log(`📊 Found ${scraperResult.businesses.length} raw businesses`);
-
-      // Extract and validate
-      const extractionResult = DataExtractor.extractBatch(scraperResult.businesses);
-      console.log(`✅ Extracted ${extractionResult.successful.length} valid businesses`);
-
-      // Qualify prospects
-      const qualified = qualifier.filterQualified(extractionResult.successful);
-      console.log(`🎯 Qualified ${qualified.length} prospects`);
-
-      // Map to response format
-      const leads: DiscoveredBusiness[] = qualified.slice(0, maxResults);
-
-      sendJson(res, 200, {
-        success: true,
-        leads,
-        stats: {
-          found: scraperResult.businesses.length,
-          extracted: extractionResult.successful.length,
-          qualified: qualified.length,
-          returned: leads.length,
-        },
-      });
-    } finally {
-      await page.close();
+    sendJson(res, 202, { success: true, session });
+  } catch (error) {
+    sendError(res, error, "Discovery failed");
+  }
+}
+
+/**
+ * Get a discovery session with the leads it has saved so far
+ */
+async function handleGetDiscovery(
+  runner: DiscoveryJobRunner,
+  id: string,
+  res: ServerResponse
+): Promise<void> {
+  try {
+    const session = await runner.get(id);
+    if (!session) {
+      sendJson(res, 404, { error: `Discovery session not found: ${id}` });
+      return;
     }
+
+    const leads = leadRepository
+      ? (await leadRepository.searchLeads({ discoverySessionId: id }, { limit: 100 })).items
+      : [];
+    sendJson(res, 200, { success: true, session, leads });
   } catch (error) {
-    console.error("❌ Discovery error:", error);
-    sendJson(res, 500, {
-      error: error instanceof Error ? error.message : "Discovery failed",
-    });
+    sendError(res, error, "Failed to load discovery session");
   }
 }
 
@@ -172,10 +223,40 @@ async function handleRequest(
     return;
   }
 
-  // Discovery endpoint
-  if (url === "/api/discover" && method === "POST") {
-    await handleDiscovery(req, res);
-    return;
+  // Discovery sessions
+  const path = url.split("?")[0] ?? url;
+  if (path === "/api/discover" || path.startsWith("/api/discover/")) {
+    if (!jobs) {
+      sendJson(res, 503, { error: "Discovery sessions are not available" });
+      return;
+    }
+
+    const [id, action] = path.slice("/api/discover/".length).split("/");
+    if (path === "/api/discover") {
+      if (method === "POST") {
+        await handleStartDiscovery(jobs, req, res);
+        return;
+      }
+      if (method === "GET") {
+        try {
+          sendJson(res, 200, { success: true, sessions: await jobs.list() });
+        } catch (error) {
+          sendError(res, error, "Failed to list discovery sessions");
+        }
+        return;
+      }
+    } else if (id && action === undefined && method === "GET") {
+      await handleGetDiscovery(jobs, id, res);
+      return;
+    } else if (id && (action === "resume" || action === "cancel") && method === "POST") {
+      try {
+        const session = action === "resume" ? await jobs.resume(id) : await jobs.cancel(id);
+        sendJson(res, action === "resume" ? 202 : 200, { success: true, session });
+      } catch (error) {
+        sendError(res, error, `Failed to ${action} discovery session`);
+      }
+      return;
+    }
   }
 
   // 404
@@ -185,7 +266,17 @@ async function handleRequest(
 /**
  * Start the API server
  */
-function startServer(): void {
+async function startServer(): Promise<void> {
+  try {
+    jobs = await initJobs();
+    const resumed = await jobs.resumeInterrupted();
+    if (resumed.length > 0) {
+      console.log(`♻️  Resumed ${resumed.length} interrupted discovery session(s)`);
+    }
+  } catch (error) {
+    console.error("⚠️  Discovery sessions unavailable:", error);
+  }
+
   const server = createServer((req, res) => {
     handleRequest(req, res).catch((error) => {
       console.error("Request error:", error);
@@ -203,7 +294,8 @@ function startServer(): void {
 ║                                                    ║
 ║   Endpoints:                                       ║
 ║   • GET  /health      - Health check               ║
-║   • POST /api/discover - Search Google Maps        ║
+║   • POST /api/discover - Start a discovery session ║
+║   • GET  /api/discover/:id - Session progress      ║
 ║                                                    ║
 ╚════════════════════════════════════════════════════╝
     `);
@@ -215,9 +307,10 @@ function startServer(): void {
     if (browser) {
       await browser.close();
     }
+    await contactBrowser.disconnect();
     process.exit(0);
   });
 }
 
 // Start if run directly
-startServer();
+void startServer();
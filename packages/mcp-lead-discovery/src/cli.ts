@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+/**
+ * MCP Lead Discovery Server entry point
+ *
+ * Starts the discovery tools on stdio. Discovered leads are saved
+ * to Supabase using the credentials from the environment, along with
+ * the email contacts found on their websites. import_leads reads files
+ * from LEAD_IMPORT_DIR only.
+ */
+
+import { getConfig } from "@the-closer/shared";
+import {
+  DiscoverySessionRepository,
+  LeadRepository,
+  SupabaseClient,
+} from "@the-closer/mcp-lead-storage";
+import { PuppeteerClient } from "@the-closer/mcp-site-audit";
+
+import { LeadDiscoveryServer } from "./server.js";
+
+async function main(): Promise<void> {
+  const config = getConfig();
+
+  const supabase = new SupabaseClient({
+    supabaseUrl: config.SUPABASE_URL,
+    supabaseAnonKey: config.SUPABASE_ANON_KEY,
+    ...(config.SUPABASE_SERVICE_KEY && {
+      supabaseServiceKey: config.SUPABASE_SERVICE_KEY,
+    }),
+  });
+  await supabase.connect();
+
+  const server = new LeadDiscoveryServer({
+    browserClient: new PuppeteerClient(),
+    repository: new LeadRepository(supabase),
+    sessionRepository: new DiscoverySessionRepository(supabase),
+    importDirectory: config.LEAD_IMPORT_DIR,
+    importMaxBytes: config.LEAD_IMPORT_MAX_MB * 1024 * 1024,
+  });
+
+  const shutdown = async (): Promise<void> => {
+    await server.stop();
+    await supabase.disconnect();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => void shutdown());
+  process.on("SIGTERM", () => void shutdown());
+
+  await server.start();
+}
+
+main().catch((error: unknown) => {
+  console.error("Failed to start lead discovery server:", error);
+  process.exit(1);
+});
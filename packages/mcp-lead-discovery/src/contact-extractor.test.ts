@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import { ContactExtractor } from "./contact-extractor.js";
+
+describe("ContactExtractor.normalizeEmail", () => {
+  it("strips mailto: and query parameters and lowercases the address", () => {
+    expect(ContactExtractor.normalizeEmail("mailto:Info@Example-Dental.com?subject=Hi")).toBe(
+      "info@example-dental.com"
+    );
+  });
+
+  it("decodes percent-encoded mailto hrefs", () => {
+    expect(ContactExtractor.normalizeEmail("mailto:office%40smithplumbing.com")).toBe(
+      "office@smithplumbing.com"
+    );
+  });
+
+  it("trims whitespace and rejects hrefs that don't decode to an address", () => {
+    expect(ContactExtractor.normalizeEmail("  hello@bakery.co  ")).toBe("hello@bakery.co");
+    expect(ContactExtractor.normalizeEmail("mailto:100%@bakery.co")).toBeUndefined();
+  });
+
+  it("rejects strings that are not addresses", () => {
+    expect(ContactExtractor.normalizeEmail("not an email")).toBeUndefined();
+    expect(ContactExtractor.normalizeEmail("")).toBeUndefined();
+  });
+
+  it("ignores image names, placeholders, tracking and no-reply addresses", () => {
+    expect(ContactExtractor.normalizeEmail("logo@2x.png")).toBeUndefined();
+    expect(ContactExtractor.normalizeEmail("you@example.com")).toBeUndefined();
+    expect(ContactExtractor.normalizeEmail("abc123@sentry.wixpress.com")).toBeUndefined();
+    expect(ContactExtractor.normalizeEmail("abc123@sentry.io")).toBeUndefined();
+    expect(ContactExtractor.normalizeEmail("noreply@smithplumbing.com")).toBeUndefined();
+    expect(ContactExtractor.normalizeEmail("do-not-reply@smithplumbing.com")).toBeUndefined();
+  });
+});
+
+describe("ContactExtractor.parseJsonLdEmails", () => {
+  it("reads the email of a top-level organization", () => {
+    const block = JSON.stringify({
+      "@context": "https://schema.org",
+      "@type": "Dentist",
+      name: "Bright Smiles",
+      email: "frontdesk@brightsmiles.com",
+    });
+
+    expect(ContactExtractor.parseJsonLdEmails([block])).toEqual(["frontdesk@brightsmiles.com"]);
+  });
+
+  it("follows @graph, contact points, departments and locations", () => {
+    const block = JSON.stringify({
+      "@graph": [
+        {
+          "@type": "LocalBusiness",
+          contactPoint: [{ email: "sales@acme.com" }, { telephone: "555-0100" }],
+          department: { email: "service@acme.com" },
+          location: [{ email: "north@acme.com" }],
+        },
+        { "@type": "WebSite", url: "https://acme.com" },
+      ],
+    });
+
+    expect(ContactExtractor.parseJsonLdEmails([block])).toEqual([
+      "sales@acme.com",
+      "service@acme.com",
+      "north@acme.com",
+    ]);
+  });
+
+  it("reads every block and skips malformed ones", () => {
+    const blocks = [
+      "{ not json",
+      JSON.stringify([{ email: "a@shop.com" }, { email: 42 }]),
+      JSON.stringify({ email: "b@shop.com" }),
+    ];
+
+    expect(ContactExtractor.parseJsonLdEmails(blocks)).toEqual(["a@shop.com", "b@shop.com"]);
+  });
+
+  it("ignores emails under keys it doesn't follow", () => {
+    const block = JSON.stringify({ author: { email: "someone@blog.com" } });
+
+    expect(ContactExtractor.parseJsonLdEmails([block])).toEqual([]);
+  });
+});
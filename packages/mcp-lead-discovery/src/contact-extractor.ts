@@ -0,0 +1,431 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { resolveMx } from "node:dns/promises";
+
+import type { Page } from "puppeteer";
+
+import {
+  type ContactSource,
+  type EmailContact,
+  EmailContactSchema,
+  getCurrentTimestamp,
+  withTimeout,
+} from "@the-closer/shared";
+import type { PuppeteerClient } from "@the-closer/mcp-site-audit";
+
+// Browser globals available inside page.evaluate()
+declare const document: any;
+
+import {
+  type ContactExtractorConfig,
+  ContactExtractorConfigSchema,
+} from "./types.js";
+
+/**
+ * Result of extracting contacts from a website
+ */
+export interface ContactExtractionResult {
+  websiteUrl: string;
+  contacts: EmailContact[];
+  pagesVisited: string[];
+  errors: string[];
+}
+
+/**
+ * Raw contact candidates collected from a single page
+ */
+interface PageCandidates {
+  mailtoLinks: string[];
+  jsonLdBlocks: string[];
+  footerText: string;
+  bodyText: string;
+  links: Array<{ href: string; text: string }>;
+}
+
+/**
+ * Base confidence for each contact source
+ */
+const SOURCE_CONFIDENCE: Record<ContactSource, number> = {
+  manual: 1,
+  json_ld: 0.85,
+  mailto_link: 0.8,
+  contact_page: 0.7,
+  footer: 0.65,
+  page_text: 0.5,
+};
+
+/**
+ * Bonus applied when the address is on the website's own domain
+ */
+const SAME_DOMAIN_BONUS = 0.1;
+
+/**
+ * Links likely to lead to a contact page
+ */
+const CONTACT_LINK_PATTERN = /contact|about|get-in-touch|reach-us|location/i;
+
+/**
+ * Email address pattern for free text
+ */
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+/**
+ * Addresses that are never real business contacts
+ */
+const IGNORED_EMAIL_PATTERNS = [
+  /\.(png|jpe?g|gif|svg|webp)$/i, // Retina image names like logo@2x.png
+  /@(example|domain|email|yourdomain)\.(com|org|net)$/i,
+  /@sentry(\.[a-z-]+)*\.(io|com)$/i,
+  /@wixpress\.com$/i,
+  /^(no-?reply|do-?not-?reply)@/i,
+];
+
+/**
+ * ContactExtractor - Discover email contacts on a lead's website
+ *
+ * Crawls the homepage and likely contact pages, collecting addresses
+ * from mailto links, schema.org JSON-LD, footers and visible text.
+ * Each address is scored by source and optionally verified via MX lookup.
+ */
+export class ContactExtractor {
+  private readonly client: PuppeteerClient;
+  private readonly config: ContactExtractorConfig;
+
+  constructor(
+    client: PuppeteerClient,
+    config: Partial<ContactExtractorConfig> = {}
+  ) {
+    this.client = client;
+    this.config = ContactExtractorConfigSchema.parse(config);
+  }
+
+  /**
+   * Extract email contacts from a website
+   */
+  async extractContacts(websiteUrl: string): Promise<ContactExtractionResult> {
+    const errors: string[] = [];
+    const pagesVisited: string[] = [];
+    const found = new Map<string, EmailContact>();
+
+    const managedPage = await this.client.createPage();
+
+    try {
+      // Homepage first - it also tells us where the contact pages are
+      const homepage = await this.collectCandidates(managedPage.page, websiteUrl);
+      pagesVisited.push(websiteUrl);
+      this.addCandidates(found, homepage, websiteUrl, websiteUrl, false);
+
+      const contactPages = ContactExtractor.findContactPageUrls(
+        homepage.links,
+        websiteUrl
+      ).slice(0, this.config.maxPages - 1);
+
+      for (const pageUrl of contactPages) {
+        try {
+          const candidates = await this.collectCandidates(managedPage.page, pageUrl);
+          pagesVisited.push(pageUrl);
+          this.addCandidates(found, candidates, pageUrl, websiteUrl, true);
+        } catch (error) {
+          errors.push(
+            `${pageUrl}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    } catch (error) {
+      errors.push(
+        `${websiteUrl}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      await managedPage.close();
+    }
+
+    let contacts = Array.from(found.values());
+    if (this.config.verifyMx) {
+      contacts = await Promise.all(contacts.map((c) => this.verifyContact(c)));
+    }
+
+    return {
+      websiteUrl,
+      contacts: contacts.sort((a, b) => b.confidence - a.confidence),
+      pagesVisited,
+      errors,
+    };
+  }
+
+  /**
+   * Verify a contact by checking that its domain accepts mail
+   */
+  async verifyContact(contact: EmailContact): Promise<EmailContact> {
+    const domain = contact.address.split("@")[1];
+    if (!domain) {
+      return { ...contact, verificationStatus: "invalid" };
+    }
+
+    try {
+      const records = await withTimeout(
+        () => resolveMx(domain),
+        this.config.mxLookupTimeout,
+        `MX lookup timed out for ${domain}`
+      );
+
+      return {
+        ...contact,
+        verificationStatus: records.length > 0 ? "verified" : "invalid",
+        verifiedAt: getCurrentTimestamp(),
+      };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === "ENOTFOUND" || code === "ENODATA") {
+        return {
+          ...contact,
+          verificationStatus: "invalid",
+          verifiedAt: getCurrentTimestamp(),
+        };
+      }
+      // Transient DNS failure - leave unverified so it can be retried
+      return contact;
+    }
+  }
+
+  /**
+   * Navigate to a page and collect raw contact candidates
+   */
+  private async collectCandidates(page: Page, url: string): Promise<PageCandidates> {
+    await this.client.navigate(page, url, {
+      timeout: this.config.navigationTimeout,
+      waitUntil: "domcontentloaded",
+    });
+
+    return page.evaluate(() => {
+      const mailtoLinks = Array.from(
+        document.querySelectorAll('a[href^="mailto:" i]')
+      ).map((a: any) => String(a.getAttribute("href") ?? ""));
+
+      const jsonLdBlocks = Array.from(
+        document.querySelectorAll('script[type="application/ld+json"]')
+      ).map((s: any) => String(s.textContent ?? ""));
+
+      const footerText = Array.from(
+        document.querySelectorAll('footer, [role="contentinfo"], #footer, .footer')
+      )
+        .map((el: any) => String(el.innerText ?? ""))
+        .join("\n");
+
+      const links = Array.from(document.querySelectorAll("a[href]")).map(
+        (a: any) => ({
+          href: String(a.href ?? ""),
+          text: String(a.textContent ?? "").trim(),
+        })
+      );
+
+      return {
+        mailtoLinks,
+        jsonLdBlocks,
+        footerText,
+        bodyText: String(document.body?.innerText ?? ""),
+        links,
+      };
+    });
+  }
+
+  /**
+   * Score page candidates and merge them into the found map
+   */
+  private addCandidates(
+    found: Map<string, EmailContact>,
+    candidates: PageCandidates,
+    pageUrl: string,
+    websiteUrl: string,
+    isContactPage: boolean
+  ): void {
+    const add = (raw: string, source: ContactSource): void => {
+      const address = ContactExtractor.normalizeEmail(raw);
+      if (!address) return;
+
+      const contact: EmailContact = {
+        address,
+        source,
+        confidence: ContactExtractor.scoreContact(address, source, websiteUrl),
+        verificationStatus: "unverified",
+        sourceUrl: pageUrl,
+      };
+
+      const existing = found.get(address);
+      if (!existing || existing.confidence < contact.confidence) {
+        found.set(address, contact);
+      }
+    };
+
+    for (const email of ContactExtractor.parseJsonLdEmails(candidates.jsonLdBlocks)) {
+      add(email, "json_ld");
+    }
+    for (const href of candidates.mailtoLinks) {
+      add(href, "mailto_link");
+    }
+    for (const email of candidates.footerText.match(EMAIL_PATTERN) ?? []) {
+      add(email, "footer");
+    }
+    for (const email of candidates.bodyText.match(EMAIL_PATTERN) ?? []) {
+      add(email, isContactPage ? "contact_page" : "page_text");
+    }
+  }
+
+  /**
+   * Find same-origin links that look like contact pages
+   */
+  static findContactPageUrls(
+    links: Array<{ href: string; text: string }>,
+    websiteUrl: string
+  ): string[] {
+    let origin: string;
+    try {
+      origin = new URL(websiteUrl).origin;
+    } catch {
+      return [];
+    }
+
+    const urls = new Set<string>();
+    for (const link of links) {
+      try {
+        const parsed = new URL(link.href);
+        if (parsed.origin !== origin) continue;
+        if (!CONTACT_LINK_PATTERN.test(parsed.pathname) && !CONTACT_LINK_PATTERN.test(link.text)) {
+          continue;
+        }
+        parsed.hash = "";
+        urls.add(parsed.toString());
+      } catch {
+        // Ignore unparseable links
+      }
+    }
+
+    // Pages with "contact" in the path are the best bet
+    return Array.from(urls).sort(
+      (a, b) => Number(/contact/i.test(b)) - Number(/contact/i.test(a))
+    );
+  }
+
+  /**
+   * Extract email addresses from schema.org JSON-LD blocks
+   */
+  static parseJsonLdEmails(blocks: string[]): string[] {
+    const emails: string[] = [];
+
+    const visit = (node: unknown): void => {
+      if (Array.isArray(node)) {
+        node.forEach(visit);
+        return;
+      }
+      if (!node || typeof node !== "object") return;
+
+      const record = node as Record<string, unknown>;
+      const email = record["email"];
+      if (typeof email === "string") {
+        emails.push(email);
+      }
+
+      for (const key of ["@graph", "contactPoint", "department", "location"]) {
+        if (record[key] !== undefined) {
+          visit(record[key]);
+        }
+      }
+    };
+
+    for (const block of blocks) {
+      try {
+        visit(JSON.parse(block));
+      } catch {
+        // Ignore malformed JSON-LD
+      }
+    }
+
+    return emails;
+  }
+
+  /**
+   * Normalize a raw address or mailto href
+   * Returns undefined for invalid or ignored addresses
+   */
+  static normalizeEmail(raw: string): string | undefined {
+    let address = raw.trim().replace(/^mailto:/i, "");
+
+    // Drop ?subject=... and similar mailto parameters
+    address = address.split("?")[0] ?? "";
+
+    try {
+      address = decodeURIComponent(address);
+    } catch {
+      // Keep undecoded address
+    }
+
+    address = address.trim().toLowerCase();
+
+    if (!EmailContactSchema.shape.address.safeParse(address).success) {
+      return undefined;
+    }
+    if (IGNORED_EMAIL_PATTERNS.some((pattern) => pattern.test(address))) {
+      return undefined;
+    }
+
+    return address;
+  }
+
+  /**
+   * Score a contact (0-1) from its source and domain match
+   */
+  static scoreContact(
+    address: string,
+    source: ContactSource,
+    websiteUrl: string
+  ): number {
+    let score = SOURCE_CONFIDENCE[source];
+
+    const emailDomain = address.split("@")[1] ?? "";
+    try {
+      const siteDomain = new URL(websiteUrl).hostname.replace(/^www\./, "");
+      if (emailDomain === siteDomain || emailDomain.endsWith(`.${siteDomain}`)) {
+        score += SAME_DOMAIN_BONUS;
+      }
+    } catch {
+      // Invalid website URL - no bonus
+    }
+
+    return Math.min(1, Math.round(score * 100) / 100);
+  }
+
+  /**
+   * Merge newly discovered contacts into a lead's existing contacts
+   * Keeps the higher-confidence entry and never downgrades a verified address
+   */
+  static mergeContacts(
+    existing: EmailContact[],
+    discovered: EmailContact[]
+  ): EmailContact[] {
+    const merged = new Map<string, EmailContact>();
+
+    for (const contact of existing) {
+      merged.set(contact.address.toLowerCase(), contact);
+    }
+
+    for (const contact of discovered) {
+      const key = contact.address.toLowerCase();
+      const current = merged.get(key);
+
+      if (!current) {
+        merged.set(key, contact);
+        continue;
+      }
+
+      const preferred = current.confidence >= contact.confidence ? current : contact;
+      const verification =
+        current.verificationStatus === "verified" ? current : contact;
+
+      merged.set(key, {
+        ...preferred,
+        verificationStatus: verification.verificationStatus,
+        ...(verification.verifiedAt && { verifiedAt: verification.verifiedAt }),
+      });
+    }
+
+    return Array.from(merged.values()).sort((a, b) => b.confidence - a.confidence);
+  }
+}
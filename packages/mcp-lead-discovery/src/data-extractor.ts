@@ -1,3 +1,5 @@
+import { US_STATES, parseAddress } from "./address-parser.js";
+import { timezoneAt } from "./timezone.js";
 import {
   type RawBusinessEntity,
   type DiscoveredBusiness,
@@ -66,63 +68,6 @@ export interface ExtractionOptions {
   primaryCategory?: string;
 }
 
-/**
- * US state abbreviations for address normalization
- */
-const US_STATES: Record<string, string> = {
-  alabama: "AL",
-  alaska: "AK",
-  arizona: "AZ",
-  arkansas: "AR",
-  california: "CA",
-  colorado: "CO",
-  connecticut: "CT",
-  delaware: "DE",
-  florida: "FL",
-  georgia: "GA",
-  hawaii: "HI",
-  idaho: "ID",
-  illinois: "IL",
-  indiana: "IN",
-  iowa: "IA",
-  kansas: "KS",
-  kentucky: "KY",
-  louisiana: "LA",
-  maine: "ME",
-  maryland: "MD",
-  massachusetts: "MA",
-  michigan: "MI",
-  minnesota: "MN",
-  mississippi: "MS",
-  missouri: "MO",
-  montana: "MT",
-  nebraska: "NE",
-  nevada: "NV",
-  "new hampshire": "NH",
-  "new jersey": "NJ",
-  "new mexico": "NM",
-  "new york": "NY",
-  "north carolina": "NC",
-  "north dakota": "ND",
-  ohio: "OH",
-  oklahoma: "OK",
-  oregon: "OR",
-  pennsylvania: "PA",
-  "rhode island": "RI",
-  "south carolina": "SC",
-  "south dakota": "SD",
-  tennessee: "TN",
-  texas: "TX",
-  utah: "UT",
-  vermont: "VT",
-  virginia: "VA",
-  washington: "WA",
-  "west virginia": "WV",
-  wisconsin: "WI",
-  wyoming: "WY",
-  "district of columbia": "DC",
-};
-
 /**
  * Common address abbreviations
  */
@@ -166,9 +111,10 @@ export class DataExtractor {
     raw: RawBusinessEntity,
     options: ExtractionOptions = {}
   ): DiscoveredBusiness {
+    const address = DataExtractor.normalizeAddress(raw.address);
     const normalized: DiscoveredBusiness = {
       businessName: DataExtractor.normalizeBusinessName(raw.name),
-      address: DataExtractor.normalizeAddress(raw.address),
+      address,
       phoneNumber: raw.phone
         ? DataExtractor.normalizePhoneNumber(raw.phone)
         : undefined,
@@ -181,6 +127,9 @@ export class DataExtractor {
       placeId: raw.placeId,
       latitude: raw.latitude,
       longitude: raw.longitude,
+      ...(address && { addressComponents: parseAddress(address) }),
+      ...(raw.latitude !== undefined &&
+        raw.longitude !== undefined && { timezone: timezoneAt(raw.latitude, raw.longitude) }),
     };
 
     // Apply filters based on options
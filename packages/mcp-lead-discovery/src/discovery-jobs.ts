@@ -0,0 +1,313 @@
+import type { Page } from "puppeteer";
+
+import {
+  type DiscoveryJob,
+  type DiscoveryJobStatus,
+  type DiscoveryCheckpoint,
+  type DiscoveryJobStats,
+  NotFoundError,
+  ValidationError,
+  getCurrentTimestamp,
+} from "@the-closer/shared";
+
+import type { LeadDiscoveryService, ProgressStatus } from "./discovery-service.js";
+import type { SearchCriteria } from "./types.js";
+
+/**
+ * Discovery session repository interface (to avoid circular dependency)
+ */
+export interface IDiscoverySessionRepository {
+  createSession(
+    input: Pick<DiscoveryJob, "query" | "location" | "category" | "radiusMiles" | "maxResults">
+  ): Promise<DiscoveryJob>;
+  getSessionById(id: string): Promise<DiscoveryJob | null>;
+  updateSession(
+    id: string,
+    updates: Partial<
+      Pick<
+        DiscoveryJob,
+        "status" | "progress" | "checkpoint" | "stats" | "attempts" | "error" | "startedAt" | "completedAt"
+      >
+    >
+  ): Promise<DiscoveryJob>;
+  listSessions(status?: DiscoveryJobStatus | DiscoveryJobStatus[], limit?: number): Promise<DiscoveryJob[]>;
+  findInterruptedSessions(staleBefore: string): Promise<DiscoveryJob[]>;
+}
+
+/**
+ * What a discovery job searches for
+ */
+export interface DiscoveryJobRequest extends SearchCriteria {
+  /** Businesses to process at most (default: the service's maxLeadsPerSearch) */
+  maxResults?: number | undefined;
+}
+
+/**
+ * Browser page a discovery job runs on
+ */
+export interface JobPage {
+  page: Page;
+  close(): Promise<void>;
+}
+
+/**
+ * Opens a fresh page for each job run
+ */
+export type JobPageProvider = () => Promise<JobPage>;
+
+/**
+ * Discovery job runner configuration
+ */
+export interface DiscoveryJobRunnerConfig {
+  /** Running jobs that have not written progress for this long were interrupted */
+  staleAfterMs: number;
+  /** Called with every progress update of every job */
+  onProgress?: (jobId: string, status: ProgressStatus) => void;
+}
+
+/**
+ * Default configuration
+ */
+const DEFAULT_CONFIG: DiscoveryJobRunnerConfig = {
+  staleAfterMs: 10 * 60 * 1000,
+};
+
+/**
+ * Statuses a job can be resumed from
+ */
+const RESUMABLE_STATUSES: readonly DiscoveryJobStatus[] = ["pending", "running", "failed", "cancelled"];
+
+/**
+ * Thrown out of a running job's checkpoint when it was cancelled
+ */
+class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Discovery session cancelled: ${jobId}`);
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * DiscoveryJobRunner - Runs discovery as durable background jobs
+ *
+ * Each run is a discovery_sessions row: start() creates it and returns
+ * straight away, the pipeline then streams its progress into the row
+ * and checkpoints every saved scroll batch. A failed, cancelled or
+ * interrupted run is resumed from its last checkpoint, so callers poll
+ * the session instead of holding a request open.
+ */
+export class DiscoveryJobRunner {
+  private readonly service: LeadDiscoveryService;
+  private readonly sessions: IDiscoverySessionRepository;
+  private readonly openPage: JobPageProvider;
+  private readonly config: DiscoveryJobRunnerConfig;
+  private readonly active = new Map<string, { cancelled: boolean; done: Promise<void> }>();
+
+  constructor(
+    service: LeadDiscoveryService,
+    sessions: IDiscoverySessionRepository,
+    openPage: JobPageProvider,
+    config: Partial<DiscoveryJobRunnerConfig> = {}
+  ) {
+    this.service = service;
+    this.sessions = sessions;
+    this.openPage = openPage;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Create a discovery session and run it in the background
+   */
+  async start(request: DiscoveryJobRequest): Promise<DiscoveryJob> {
+    const job = await this.sessions.createSession({
+      query: request.query,
+      location: request.location,
+      ...(request.category && { category: request.category }),
+      ...(request.radius !== undefined && { radiusMiles: request.radius }),
+      ...(request.maxResults !== undefined && { maxResults: request.maxResults }),
+    });
+    this.launch(job);
+    return job;
+  }
+
+  /**
+   * Resume a session from its last checkpoint
+   *
+   * @throws NotFoundError when the session doesn't exist
+   * @throws ValidationError when it completed or is running here
+   */
+  async resume(id: string): Promise<DiscoveryJob> {
+    const job = await this.getOrThrow(id);
+    if (this.active.has(id)) {
+      throw new ValidationError(`Discovery session is already running: ${id}`, {
+        context: { id },
+      });
+    }
+    if (!RESUMABLE_STATUSES.includes(job.status)) {
+      throw new ValidationError(`Discovery session cannot be resumed from ${job.status}: ${id}`, {
+        context: { id, status: job.status },
+      });
+    }
+
+    this.launch(job);
+    return job;
+  }
+
+  /**
+   * Cancel a session; a running one stops after its current batch
+   */
+  async cancel(id: string): Promise<DiscoveryJob> {
+    const job = await this.getOrThrow(id);
+    const run = this.active.get(id);
+    if (run) {
+      run.cancelled = true;
+    }
+    if (job.status === "completed" || job.status === "cancelled") {
+      return job;
+    }
+    return this.sessions.updateSession(id, { status: "cancelled", completedAt: getCurrentTimestamp() });
+  }
+
+  /**
+   * Get a session by ID
+   */
+  async get(id: string): Promise<DiscoveryJob | null> {
+    return this.sessions.getSessionById(id);
+  }
+
+  /**
+   * List sessions, newest first
+   */
+  async list(status?: DiscoveryJobStatus, limit?: number): Promise<DiscoveryJob[]> {
+    return this.sessions.listSessions(status, limit);
+  }
+
+  /**
+   * Resume sessions left pending or running by a process that stopped
+   *
+   * Call on startup; returns the sessions resumed.
+   */
+  async resumeInterrupted(): Promise<DiscoveryJob[]> {
+    const staleBefore = new Date(Date.now() - this.config.staleAfterMs).toISOString();
+    const interrupted = await this.sessions.findInterruptedSessions(staleBefore);
+    const resumed = interrupted.filter((job) => !this.active.has(job.id));
+    for (const job of resumed) {
+      this.launch(job);
+    }
+    return resumed;
+  }
+
+  /**
+   * Whether a session is running in this process
+   */
+  isRunning(id: string): boolean {
+    return this.active.has(id);
+  }
+
+  /**
+   * Wait for a session running in this process to finish
+   */
+  async waitFor(id: string): Promise<void> {
+    await this.active.get(id)?.done;
+  }
+
+  // ============================================
+  // Running
+  // ============================================
+
+  private launch(job: DiscoveryJob): void {
+    const run = { cancelled: false, done: Promise.resolve() };
+    run.done = this.run(job, run).finally(() => {
+      this.active.delete(job.id);
+    });
+    this.active.set(job.id, run);
+  }
+
+  /**
+   * Run one attempt of a job; never rejects, failures end up on the session
+   */
+  private async run(job: DiscoveryJob, run: { cancelled: boolean }): Promise<void> {
+    // Progress writes are chained so they land in order, and are best-effort
+    let progressWrite: Promise<unknown> = Promise.resolve();
+    let managedPage: JobPage | undefined;
+
+    try {
+      await this.sessions.updateSession(job.id, {
+        status: "running",
+        attempts: job.attempts + 1,
+        startedAt: job.startedAt ?? getCurrentTimestamp(),
+      });
+
+      managedPage = await this.openPage();
+      const result = await this.service.discoverLeadsInBatches(
+        managedPage.page,
+        {
+          query: job.query,
+          location: job.location,
+          ...(job.category && { category: job.category }),
+          ...(job.radiusMiles !== undefined && { radius: job.radiusMiles }),
+        },
+        {
+          sessionId: job.id,
+          ...(job.maxResults !== undefined && { maxResults: job.maxResults }),
+          checkpoint: job.checkpoint,
+          stats: job.stats,
+          onCheckpoint: async (checkpoint: DiscoveryCheckpoint, stats: DiscoveryJobStats) => {
+            if (run.cancelled) {
+              throw new JobCancelledError(job.id);
+            }
+            await progressWrite;
+            await this.sessions.updateSession(job.id, { checkpoint, stats });
+          },
+          onProgress: (status) => {
+            this.config.onProgress?.(job.id, status);
+            progressWrite = progressWrite
+              .then(() => this.sessions.updateSession(job.id, { progress: status }))
+              .catch(() => {
+                // Progress is best-effort - the checkpoint is what resumes
+              });
+          },
+        }
+      );
+
+      await progressWrite;
+      if (run.cancelled) {
+        return;
+      }
+      await this.sessions.updateSession(job.id, {
+        status: "completed",
+        checkpoint: result.checkpoint,
+        stats: result.stats,
+        completedAt: getCurrentTimestamp(),
+      });
+    } catch (error) {
+      await progressWrite;
+      if (error instanceof JobCancelledError || run.cancelled) {
+        return;
+      }
+      await this.sessions
+        .updateSession(job.id, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        })
+        .catch(() => {
+          // Left running; resumeInterrupted() picks it up once stale
+        });
+    } finally {
+      await managedPage?.close().catch(() => {
+        // The page is gone already
+      });
+    }
+  }
+
+  private async getOrThrow(id: string): Promise<DiscoveryJob> {
+    const job = await this.sessions.getSessionById(id);
+    if (!job) {
+      throw new NotFoundError(`Discovery session not found: ${id}`, {
+        resourceType: "discovery_session",
+        resourceId: id,
+      });
+    }
+    return job;
+  }
+}
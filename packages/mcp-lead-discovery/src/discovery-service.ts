@@ -1,9 +1,19 @@
 import type { Page } from "puppeteer";
 
-import type { LeadProfile } from "@the-closer/shared";
-
-import { MapsScraper } from "./maps-scraper.js";
+import type {
+  DiscoveryCheckpoint,
+  DiscoveryJobStats,
+  DiscoveryProgress,
+  DiscoveryStage,
+  LeadProfile,
+  LeadSource,
+} from "@the-closer/shared";
+
+import { ContactExtractor } from "./contact-extractor.js";
+import type { MapsScraper } from "./maps-scraper.js";
+import type { ResilientMapsScraper } from "./resilient-scraper.js";
 import { DataExtractor } from "./data-extractor.js";
+import type { ImportResult } from "./importers/index.js";
 import { ProspectQualifier } from "./qualifier.js";
 import type {
   SearchCriteria,
@@ -17,8 +27,18 @@ import type {
 export interface ILeadRepository {
   findDuplicateByWebsite(url: string): Promise<LeadProfile | null>;
   saveLeadsBatch(leads: LeadInput[]): Promise<LeadProfile[]>;
+  getLeadById(id: string): Promise<LeadProfile | null>;
+  updateLead(
+    id: string,
+    updates: Partial<Omit<LeadProfile, "id" | "discoveredAt">>
+  ): Promise<LeadProfile>;
 }
 
+/**
+ * Scraper used by the discovery pipeline
+ */
+export type BusinessScraper = MapsScraper | ResilientMapsScraper;
+
 /**
  * Lead input type for saving
  */
@@ -51,28 +71,24 @@ const DEFAULT_CONFIG: DiscoveryServiceConfig = {
   minQualificationScore: 50,
 };
 
+/**
+ * Where saved leads came from
+ */
+interface LeadOrigin {
+  source: LeadSource;
+  sourceQuery: string;
+  sessionId?: string | undefined;
+}
+
 /**
  * Discovery pipeline stages
  */
-export type DiscoveryStage =
-  | "scraping"
-  | "extracting"
-  | "qualifying"
-  | "deduplicating"
-  | "saving"
-  | "complete"
-  | "error";
+export type { DiscoveryStage };
 
 /**
- * Progress status for callbacks
+ * Progress status for callbacks, also stored on discovery sessions
  */
-export interface ProgressStatus {
-  stage: DiscoveryStage;
-  message: string;
-  current: number;
-  total: number;
-  percentage: number;
-}
+export type ProgressStatus = DiscoveryProgress;
 
 /**
  * Discovery result with statistics
@@ -103,6 +119,17 @@ export interface DiscoveryResult {
   leads: LeadProfile[];
 }
 
+/**
+ * Result of discovering leads batch by batch
+ */
+export interface BatchDiscoveryResult extends DiscoveryResult {
+  /** Where the run got to, to resume from */
+  checkpoint: DiscoveryCheckpoint;
+
+  /** Totals including earlier attempts */
+  stats: DiscoveryJobStats;
+}
+
 /**
  * Discovery error details
  */
@@ -118,6 +145,23 @@ export interface DiscoveryError {
  */
 export type ProgressCallback = (status: ProgressStatus) => void;
 
+/**
+ * Options for discovering leads batch by batch
+ */
+export interface BatchDiscoveryOptions {
+  /** Discovery session the saved leads belong to */
+  sessionId?: string;
+  /** Businesses to process at most (default: maxLeadsPerSearch) */
+  maxResults?: number;
+  /** Where an earlier attempt of the run got to */
+  checkpoint?: DiscoveryCheckpoint;
+  /** Totals of earlier attempts, added to */
+  stats?: DiscoveryJobStats;
+  /** Awaited after every completed batch; throwing stops the run */
+  onCheckpoint?: (checkpoint: DiscoveryCheckpoint, stats: DiscoveryJobStats) => Promise<void>;
+  onProgress?: ProgressCallback;
+}
+
 /**
  * LeadDiscoveryService - Orchestrates the full discovery pipeline
  *
@@ -126,22 +170,29 @@ export type ProgressCallback = (status: ProgressStatus) => void;
  * and progress reporting.
  */
 export class LeadDiscoveryService {
-  private readonly scraper: MapsScraper;
+  private readonly scraper: BusinessScraper;
   private readonly extractor: typeof DataExtractor;
   private readonly qualifier: ProspectQualifier;
   private readonly repository: ILeadRepository | null;
+  private readonly contactExtractor: ContactExtractor | null;
   private readonly config: DiscoveryServiceConfig;
 
+  /**
+   * @param contactExtractor When set, saved leads get the email contacts
+   *   found on their website
+   */
   constructor(
-    scraper: MapsScraper,
+    scraper: BusinessScraper,
     qualifier: ProspectQualifier,
     repository: ILeadRepository | null = null,
-    config: Partial<DiscoveryServiceConfig> = {}
+    config: Partial<DiscoveryServiceConfig> = {},
+    contactExtractor: ContactExtractor | null = null
   ) {
     this.scraper = scraper;
     this.extractor = DataExtractor;
     this.qualifier = qualifier;
     this.repository = repository;
+    this.contactExtractor = contactExtractor;
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
@@ -264,7 +315,7 @@ export class LeadDiscoveryService {
             }
 
             // Convert to lead input
-            leadsToSave.push(this.businessToLeadInput(business, criteria));
+            leadsToSave.push(this.businessToLeadInput(business, searchOrigin(criteria)));
           } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
             errors.push({
@@ -282,7 +333,7 @@ export class LeadDiscoveryService {
           try {
             const savedResults = await this.repository.saveLeadsBatch(leadsToSave);
             saved = savedResults.length;
-            savedLeads.push(...savedResults);
+            savedLeads.push(...(await this.enrichContacts(savedResults, errors)));
           } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
             errors.push({ stage: "saving", message, details: error });
@@ -308,13 +359,126 @@ export class LeadDiscoveryService {
     return this.buildResult(found, extracted, qualified, saved, duplicates, errors, startTime, savedLeads);
   }
 
+  /**
+   * Discover leads scroll batch by scroll batch, saving each as it loads
+   *
+   * Businesses in the checkpoint are skipped, so a resumed run picks
+   * up after its last completed batch. A batch that fails to save
+   * fails the run without advancing the checkpoint. Counts in the
+   * result include those of earlier attempts.
+   */
+  async discoverLeadsInBatches(
+    page: Page,
+    criteria: SearchCriteria,
+    options: BatchDiscoveryOptions = {}
+  ): Promise<BatchDiscoveryResult> {
+    const startTime = Date.now();
+    const { onProgress } = options;
+    const limit = options.maxResults ?? this.config.maxLeadsPerSearch;
+    const errors: DiscoveryError[] = [];
+    const savedLeads: LeadProfile[] = [];
+    const stats: DiscoveryJobStats = {
+      found: 0,
+      extracted: 0,
+      qualified: 0,
+      saved: 0,
+      duplicates: 0,
+      errors: 0,
+      ...options.stats,
+    };
+    const processed = new Set(options.checkpoint?.processedPlaceIds ?? []);
+    let batchesCompleted = options.checkpoint?.batchesCompleted ?? 0;
+    // The scraper reports hook failures as search errors; keep the cause
+    let batchFailure: unknown;
+
+    this.reportProgress(
+      onProgress,
+      "scraping",
+      processed.size > 0
+        ? `Resuming after ${processed.size} businesses...`
+        : "Scraping Google Maps...",
+      Math.min(processed.size, limit),
+      limit
+    );
+
+    const onBatch = async (batch: RawBusinessEntity[]): Promise<void> => {
+      const fresh = batch
+        .filter((business) => !processed.has(business.placeId))
+        .slice(0, Math.max(limit - processed.size, 0));
+      if (fresh.length === 0) return;
+
+      try {
+        const batchErrors = await this.processBatch(fresh, criteria, stats, savedLeads, options.sessionId);
+        errors.push(...batchErrors);
+        stats.errors += batchErrors.length;
+        for (const business of fresh) {
+          processed.add(business.placeId);
+        }
+        batchesCompleted++;
+
+        this.reportProgress(
+          onProgress,
+          "saving",
+          `Batch ${batchesCompleted}: ${stats.saved} leads saved so far`,
+          processed.size,
+          limit
+        );
+        await options.onCheckpoint?.(
+          { batchesCompleted, processedPlaceIds: [...processed] },
+          { ...stats }
+        );
+      } catch (error) {
+        batchFailure = error;
+        throw error;
+      }
+    };
+
+    const scraperResult = await this.scraper.searchBusinesses(page, criteria, { onBatch });
+    if (batchFailure !== undefined) {
+      throw batchFailure;
+    }
+    for (const message of scraperResult.errors) {
+      errors.push({ stage: "scraping", message });
+    }
+    stats.errors += scraperResult.errors.length;
+
+    this.reportProgress(onProgress, "complete", `Discovery complete: ${stats.saved} leads saved`, limit, limit);
+
+    return {
+      ...this.buildResult(
+        stats.found,
+        stats.extracted,
+        stats.qualified,
+        stats.saved,
+        stats.duplicates,
+        errors,
+        startTime,
+        savedLeads
+      ),
+      checkpoint: { batchesCompleted, processedPlaceIds: [...processed] },
+      stats,
+    };
+  }
+
+  /**
+   * Qualify and save the businesses of an imported list
+   *
+   * Goes through the same extraction, qualification and duplicate
+   * checks as a Maps search. Leads record the import's source, with
+   * the file name as their sourceQuery.
+   */
+  async importLeads(imported: ImportResult, onProgress?: ProgressCallback): Promise<DiscoveryResult> {
+    return this.discoverFromRaw(imported.businesses, imported.sourceName, onProgress, imported.source);
+  }
+
   /**
    * Discover leads without a browser page (for testing)
    */
   async discoverFromRaw(
     rawBusinesses: RawBusinessEntity[],
     sourceQuery: string,
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    source: LeadSource = "google_maps"
   ): Promise<DiscoveryResult> {
     const startTime = Date.now();
     const errors: DiscoveryError[] = [];
@@ -349,14 +513,14 @@ export class LeadDiscoveryService {
             continue;
           }
         }
-        leadsToSave.push(this.businessToLeadInput(business, { query: sourceQuery, location: "" }));
+        leadsToSave.push(this.businessToLeadInput(business, { source, sourceQuery }));
       }
 
       if (leadsToSave.length > 0) {
         this.reportProgress(onProgress, "saving", `Saving ${leadsToSave.length} leads...`, 3, 4);
         const savedResults = await this.repository.saveLeadsBatch(leadsToSave);
         saved = savedResults.length;
-        savedLeads.push(...savedResults);
+        savedLeads.push(...(await this.enrichContacts(savedResults, errors)));
       }
     } else {
       saved = qualified;
@@ -367,13 +531,122 @@ export class LeadDiscoveryService {
     return this.buildResult(found, extracted, qualified, saved, duplicates, errors, startTime, savedLeads);
   }
 
+  /**
+   * Extract, qualify, deduplicate and save one batch of businesses
+   *
+   * Adds to stats as it goes and returns the per-business errors.
+   * Save failures are thrown.
+   */
+  private async processBatch(
+    businesses: RawBusinessEntity[],
+    criteria: SearchCriteria,
+    stats: DiscoveryJobStats,
+    savedLeads: LeadProfile[],
+    sessionId?: string
+  ): Promise<DiscoveryError[]> {
+    const errors: DiscoveryError[] = [];
+    stats.found += businesses.length;
+
+    const extractionResult = this.extractor.extractBatch(businesses);
+    stats.extracted += extractionResult.successful.length;
+    for (const failure of extractionResult.failed) {
+      errors.push({
+        stage: "extracting",
+        message: failure.errors.join("; "),
+        businessName: failure.raw.name,
+      });
+    }
+
+    const qualifiedBusinesses = this.qualifier.filterQualified(extractionResult.successful);
+    stats.qualified += qualifiedBusinesses.length;
+
+    if (!this.repository) {
+      // No repository - just count qualified as "saved"
+      stats.saved += qualifiedBusinesses.length;
+      return errors;
+    }
+
+    const leadsToSave: LeadInput[] = [];
+    for (const business of qualifiedBusinesses) {
+      try {
+        if (this.config.deduplicateByWebsite && business.websiteUrl) {
+          const existing = await this.repository.findDuplicateByWebsite(business.websiteUrl);
+          if (existing) {
+            stats.duplicates++;
+            continue;
+          }
+        }
+        leadsToSave.push(this.businessToLeadInput(business, { ...searchOrigin(criteria), sessionId }));
+      } catch (error) {
+        errors.push({
+          stage: "deduplicating",
+          message: error instanceof Error ? error.message : String(error),
+          businessName: business.businessName,
+        });
+      }
+    }
+
+    if (leadsToSave.length > 0) {
+      const savedResults = await this.repository.saveLeadsBatch(leadsToSave);
+      stats.saved += savedResults.length;
+      savedLeads.push(...(await this.enrichContacts(savedResults, errors)));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Find email contacts on the websites of saved leads and save them
+   *
+   * Returns the leads with their contacts. The lead's existing contacts
+   * are merged with the new ones, so verified addresses stay verified.
+   * Leads without a website, or whose site can't be crawled, are
+   * returned as they were; crawl failures are added to errors.
+   * Does nothing without a contact extractor.
+   */
+  async enrichContacts(leads: LeadProfile[], errors: DiscoveryError[] = []): Promise<LeadProfile[]> {
+    const { contactExtractor, repository } = this;
+    if (!contactExtractor || !repository) {
+      return leads;
+    }
+
+    const enriched: LeadProfile[] = [];
+    for (const lead of leads) {
+      if (!lead.websiteUrl) {
+        enriched.push(lead);
+        continue;
+      }
+
+      try {
+        const result = await contactExtractor.extractContacts(lead.websiteUrl);
+        for (const message of result.errors) {
+          errors.push({ stage: "saving", message, businessName: lead.businessName });
+        }
+
+        if (result.contacts.length === 0) {
+          enriched.push(lead);
+          continue;
+        }
+        const contacts = ContactExtractor.mergeContacts(lead.contacts, result.contacts);
+        enriched.push(await repository.updateLead(lead.id, { contacts }));
+      } catch (error) {
+        // A lead is still worth keeping without contacts
+        errors.push({
+          stage: "saving",
+          message: error instanceof Error ? error.message : String(error),
+          businessName: lead.businessName,
+        });
+        enriched.push(lead);
+      }
+    }
+
+    return enriched;
+  }
+
   /**
    * Convert discovered business to lead input
    */
-  private businessToLeadInput(
-    business: DiscoveredBusiness,
-    criteria: SearchCriteria
-  ): LeadInput {
+  private businessToLeadInput(business: DiscoveredBusiness, origin: LeadOrigin): LeadInput {
     return {
       businessName: business.businessName,
       address: business.address,
@@ -382,10 +655,19 @@ export class LeadDiscoveryService {
       rating: business.rating,
       reviewCount: business.reviewCount,
       businessCategory: business.businessCategory,
+      // Generated IDs hash a truncated name and are not stable identifiers
+      ...(business.placeId && !business.placeId.startsWith("gen_") && { placeId: business.placeId }),
+      latitude: business.latitude,
+      longitude: business.longitude,
+      addressComponents: business.addressComponents,
+      timezone: business.timezone,
+      contacts: [],
       painPoints: [],
       evidenceUrls: [],
       contactStatus: "pending",
-      sourceQuery: `${criteria.query} ${criteria.location}`.trim(),
+      sourceQuery: origin.sourceQuery,
+      source: origin.source,
+      ...(origin.sessionId && { discoverySessionId: origin.sessionId }),
     };
   }
 
@@ -447,10 +729,21 @@ export class LeadDiscoveryService {
  * Create a lead discovery service with default configuration
  */
 export function createLeadDiscoveryService(
-  scraper: MapsScraper,
+  scraper: BusinessScraper,
   qualifier: ProspectQualifier,
   repository?: ILeadRepository,
-  config?: Partial<DiscoveryServiceConfig>
+  config?: Partial<DiscoveryServiceConfig>,
+  contactExtractor?: ContactExtractor
 ): LeadDiscoveryService {
-  return new LeadDiscoveryService(scraper, qualifier, repository ?? null, config);
+  return new LeadDiscoveryService(scraper, qualifier, repository ?? null, config, contactExtractor ?? null);
+}
+
+/**
+ * Origin of leads found by a Maps search
+ */
+function searchOrigin(criteria: SearchCriteria): LeadOrigin {
+  return {
+    source: "google_maps",
+    sourceQuery: `${criteria.query} ${criteria.location}`.trim(),
+  };
 }
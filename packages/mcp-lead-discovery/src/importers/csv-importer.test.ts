@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "@the-closer/shared";
+
+import { CsvImporter } from "./csv-importer.js";
+
+describe("CsvImporter", () => {
+  it("reads the columns named like the fields", () => {
+    const csv = [
+      "name,address,phone,website,category,rating,reviewCount,latitude,longitude,id",
+      "Smith Plumbing,12 Main St,555-0100,https://smithplumbing.com,Plumber,4.5,\"1,234\",30.27,-97.74,L-1",
+    ].join("\n");
+
+    const result = new CsvImporter().parse(csv, "leads.csv");
+
+    expect(result).toMatchObject({ source: "csv", sourceName: "leads.csv", totalRecords: 1, skipped: [] });
+    expect(result.businesses).toEqual([
+      {
+        name: "Smith Plumbing",
+        address: "12 Main St",
+        phone: "555-0100",
+        website: "https://smithplumbing.com",
+        rating: 4.5,
+        reviewCount: 1234,
+        placeId: "csv:L-1",
+        latitude: 30.27,
+        longitude: -97.74,
+        categories: ["Plumber"],
+      },
+    ]);
+  });
+
+  it("handles quoted delimiters, doubled quotes, line breaks, CRLF and a BOM", () => {
+    const csv = '\uFEFFName,Address\r\n"Joe\'s ""Best"" Tacos","1 Elm St,\nSuite 2"\r\n';
+
+    const [business] = new CsvImporter().parse(csv, "leads.csv").businesses;
+
+    expect(business?.name).toBe('Joe\'s "Best" Tacos');
+    expect(business?.address).toBe("1 Elm St,\nSuite 2");
+  });
+
+  it("joins mapped address columns and matches headers case-insensitively", () => {
+    const importer = new CsvImporter({
+      columns: { name: "Company", address: ["Street", "City", "State"] },
+      delimiter: ";",
+      defaultCategory: "Dentist",
+    });
+    const csv = ["COMPANY;STREET;CITY;STATE", "Bright Smiles;9 Oak Ave;;TX"].join("\n");
+
+    const [business] = importer.parse(csv, "dentists.csv").businesses;
+
+    expect(business).toMatchObject({
+      name: "Bright Smiles",
+      address: "9 Oak Ave, TX",
+      phone: null,
+      rating: null,
+      reviewCount: 0,
+      categories: ["Dentist"],
+    });
+    expect(business).not.toHaveProperty("latitude");
+  });
+
+  it("skips rows without a name or with a rating out of range and ignores blank rows", () => {
+    const csv = ["name,rating", "A,4", ",3", "", "C,7"].join("\n");
+
+    const result = new CsvImporter().parse(csv, "leads.csv");
+
+    expect(result.totalRecords).toBe(3);
+    expect(result.businesses.map((business) => business.name)).toEqual(["A"]);
+    expect(result.skipped).toEqual([
+      { record: "row 3", reason: "Missing business name" },
+      { record: "row 4", reason: "Rating out of range: 7" },
+    ]);
+  });
+
+  it("gives rows without an ID a stable placeId from name and address", () => {
+    const importer = new CsvImporter();
+    const read = (csv: string) => importer.parse(csv, "leads.csv").businesses[0]?.placeId;
+
+    const first = read("name,address\nSmith Plumbing,12 Main St");
+
+    expect(first).toMatch(/^csv:[0-9a-f]{16}$/);
+    expect(read("name,address\nSMITH PLUMBING,12 MAIN ST")).toBe(first);
+    expect(read("name,address\nSmith Plumbing,14 Main St")).not.toBe(first);
+  });
+
+  it("only sets a position when both coordinates are numbers", () => {
+    const [business] = new CsvImporter().parse("name,latitude,longitude\nA,30.2,n/a", "leads.csv")
+      .businesses;
+
+    expect(business).not.toHaveProperty("latitude");
+    expect(business).not.toHaveProperty("longitude");
+  });
+
+  it("rejects a header without the name or a mapped column", () => {
+    expect(() => new CsvImporter().parse("title,address\nA,B", "leads.csv")).toThrow(ValidationError);
+    expect(() =>
+      new CsvImporter({ columns: { phone: "Phone Number" } }).parse("name\nA", "leads.csv")
+    ).toThrow("Phone Number");
+  });
+
+  it("returns nothing for an empty file", () => {
+    expect(new CsvImporter().parse("", "empty.csv")).toMatchObject({ totalRecords: 0, businesses: [] });
+  });
+});
@@ -0,0 +1,202 @@
+import { createHash } from "node:crypto";
+
+import { ValidationError } from "@the-closer/shared";
+
+import type { RawBusinessEntity } from "../types.js";
+import {
+  type CsvColumnMapping,
+  type CsvImportOptions,
+  type ImportResult,
+  type LeadImporter,
+  type SkippedRecord,
+  CsvImportOptionsSchema,
+} from "./import-types.js";
+
+/**
+ * Fields read from the column named like the field when not mapped
+ */
+const DEFAULT_COLUMNS: Record<keyof CsvColumnMapping, string> = {
+  name: "name",
+  address: "address",
+  phone: "phone",
+  website: "website",
+  category: "category",
+  rating: "rating",
+  reviewCount: "reviewCount",
+  latitude: "latitude",
+  longitude: "longitude",
+  id: "id",
+};
+
+/**
+ * CsvImporter - Reads purchased lead lists
+ *
+ * The first row is the header. Quoted fields may contain delimiters,
+ * doubled quotes and line breaks.
+ */
+export class CsvImporter implements LeadImporter {
+  readonly source = "csv" as const;
+  private readonly options: CsvImportOptions;
+
+  constructor(options: Partial<CsvImportOptions> = {}) {
+    this.options = CsvImportOptionsSchema.parse(options);
+  }
+
+  /**
+   * Parse CSV text into businesses
+   *
+   * @throws ValidationError when the header lacks a mapped column
+   */
+  parse(input: string | Uint8Array, sourceName: string): ImportResult {
+    const text = typeof input === "string" ? input : Buffer.from(input).toString("utf8");
+    const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""), this.options.delimiter);
+    const businesses: RawBusinessEntity[] = [];
+    const skipped: SkippedRecord[] = [];
+
+    if (!header) {
+      return { source: this.source, sourceName, totalRecords: 0, businesses, skipped };
+    }
+
+    const column = this.resolveColumns(header);
+    const dataRows = rows.filter((row) => row.some((cell) => cell.trim() !== ""));
+
+    dataRows.forEach((row, index) => {
+      // Header is row 1
+      const record = `row ${index + 2}`;
+      const read = (field: keyof CsvColumnMapping): string | null => {
+        const indexes = column[field];
+        if (!indexes) return null;
+        const value = indexes
+          .map((i) => row[i]?.trim() ?? "")
+          .filter((part) => part !== "")
+          .join(", ");
+        return value === "" ? null : value;
+      };
+
+      const name = read("name");
+      if (!name) {
+        skipped.push({ record, reason: "Missing business name" });
+        return;
+      }
+
+      const rating = parseNumber(read("rating"));
+      if (rating !== null && (rating < 0 || rating > 5)) {
+        skipped.push({ record, reason: `Rating out of range: ${rating}` });
+        return;
+      }
+
+      const address = read("address") ?? "";
+      const latitude = parseNumber(read("latitude"));
+      const longitude = parseNumber(read("longitude"));
+      const category = read("category") ?? this.options.defaultCategory;
+      const id = read("id");
+
+      businesses.push({
+        name,
+        address,
+        phone: read("phone"),
+        website: read("website"),
+        rating,
+        reviewCount: Math.max(Math.round(parseNumber(read("reviewCount")) ?? 0), 0),
+        placeId: `csv:${id ?? hashRecord(name, address)}`,
+        ...(latitude !== null && longitude !== null && { latitude, longitude }),
+        categories: category ? [category] : [],
+      });
+    });
+
+    return {
+      source: this.source,
+      sourceName,
+      totalRecords: dataRows.length,
+      businesses,
+      skipped,
+    };
+  }
+
+  /**
+   * Column indexes of each field
+   */
+  private resolveColumns(header: string[]): Partial<Record<keyof CsvColumnMapping, number[]>> {
+    const positions = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+    const resolved: Partial<Record<keyof CsvColumnMapping, number[]>> = {};
+    const missing: string[] = [];
+
+    for (const field of Object.keys(DEFAULT_COLUMNS) as Array<keyof CsvColumnMapping>) {
+      const mapped = this.options.columns[field];
+      const names = mapped === undefined ? [DEFAULT_COLUMNS[field]] : [mapped].flat();
+      const indexes = names.map((name) => positions.get(name.trim().toLowerCase()));
+
+      if (indexes.every((index): index is number => index !== undefined)) {
+        resolved[field] = indexes;
+      } else if (mapped !== undefined || field === "name") {
+        missing.push(...names.filter((_, i) => indexes[i] === undefined));
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new ValidationError(`CSV is missing mapped columns: ${missing.join(", ")}`, {
+        context: { missing, header },
+      });
+    }
+
+    return resolved;
+  }
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180)
+ */
+function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function parseNumber(value: string | null): number | null {
+  if (value === null) return null;
+  const parsed = Number(value.replace(/,/g, ""));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Stable ID for rows without one, so re-imports deduplicate
+ */
+function hashRecord(...parts: string[]): string {
+  return createHash("sha1").update(parts.join("\u0000").toLowerCase()).digest("hex").slice(0, 16);
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "@the-closer/shared";
+
+import { GeoJsonImporter } from "./geojson-importer.js";
+
+function collection(...features: unknown[]): string {
+  return JSON.stringify({ type: "FeatureCollection", features });
+}
+
+describe("GeoJsonImporter", () => {
+  it("reads OSM-style tags of an overpass-turbo export", () => {
+    const geojson = collection({
+      type: "Feature",
+      id: "node/42",
+      geometry: { type: "Point", coordinates: [-97.74, 30.27] },
+      properties: {
+        name: "Bright Smiles",
+        amenity: "dentist",
+        "addr:housenumber": "9",
+        "addr:street": "Oak Ave",
+        "addr:city": "Austin",
+        "addr:state": "TX",
+        "addr:postcode": "78701",
+        "contact:phone": "+1 512 555 0100; +1 512 555 0101",
+        "contact:website": "https://brightsmiles.com",
+      },
+    });
+
+    const result = new GeoJsonImporter().parse(geojson, "austin.geojson");
+
+    expect(result).toMatchObject({ source: "geojson", totalRecords: 1, skipped: [] });
+    expect(result.businesses).toEqual([
+      {
+        name: "Bright Smiles",
+        address: "9 Oak Ave, Austin, TX 78701",
+        phone: "+1 512 555 0100",
+        website: "https://brightsmiles.com",
+        rating: null,
+        reviewCount: 0,
+        placeId: "geojson:node/42",
+        latitude: 30.27,
+        longitude: -97.74,
+        categories: ["dentist"],
+      },
+    ]);
+  });
+
+  it("places polygons at the average of their outer ring", () => {
+    const square = [
+      [0, 0],
+      [2, 0],
+      [2, 4],
+      [0, 4],
+      [0, 0],
+    ];
+    const geojson = collection(
+      { type: "Feature", geometry: { type: "Polygon", coordinates: [square] }, properties: { name: "A" } },
+      {
+        type: "Feature",
+        geometry: { type: "MultiPolygon", coordinates: [[square]] },
+        properties: { name: "B" },
+      },
+      { type: "Feature", geometry: null, properties: { name: "C" } }
+    );
+
+    const businesses = new GeoJsonImporter().parse(geojson, "shapes.geojson").businesses;
+
+    expect(businesses[0]).toMatchObject({ latitude: 2, longitude: 1 });
+    expect(businesses[1]).toMatchObject({ latitude: 2, longitude: 1 });
+    expect(businesses[2]).not.toHaveProperty("latitude");
+  });
+
+  it("reads mapped properties, numeric values and the default category", () => {
+    const importer = new GeoJsonImporter({
+      properties: { name: "title", rating: "stars", reviewCount: "reviews", id: "ref" },
+      defaultCategory: "Plumber",
+    });
+    const geojson = JSON.stringify({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [1, 2] },
+      properties: { title: "Smith Plumbing", stars: 4.5, reviews: "17", ref: 7, nested: { a: 1 } },
+    });
+
+    const [business] = importer.parse(geojson, "list.geojson").businesses;
+
+    expect(business).toMatchObject({
+      name: "Smith Plumbing",
+      rating: 4.5,
+      reviewCount: 17,
+      placeId: "geojson:7",
+      categories: ["Plumber"],
+    });
+  });
+
+  it("skips features without a name or with a rating out of range", () => {
+    const geojson = collection(
+      { type: "Feature", id: "node/5", properties: { amenity: "cafe" } },
+      { type: "Feature", properties: { name: "A", rating: "9" } },
+      { type: "Feature", properties: { name: "B" } }
+    );
+
+    const result = new GeoJsonImporter().parse(geojson, "list.geojson");
+
+    expect(result.totalRecords).toBe(3);
+    expect(result.businesses.map((business) => business.name)).toEqual(["B"]);
+    expect(result.skipped).toEqual([
+      { record: "feature node/5", reason: "Missing name property" },
+      { record: "feature 1", reason: "Rating out of range: 9" },
+    ]);
+  });
+
+  it("gives features without an ID a stable placeId", () => {
+    const read = (name: string) =>
+      new GeoJsonImporter().parse(collection({ type: "Feature", properties: { name } }), "list.geojson")
+        .businesses[0]?.placeId;
+
+    expect(read("Bakery")).toMatch(/^geojson:[0-9a-f]{16}$/);
+    expect(read("BAKERY")).toBe(read("Bakery"));
+  });
+
+  it("rejects input that is not JSON or not a feature", () => {
+    const importer = new GeoJsonImporter();
+
+    expect(() => importer.parse("{ nope", "bad.geojson")).toThrow(ValidationError);
+    expect(() => importer.parse(JSON.stringify({ type: "Point" }), "bad.geojson")).toThrow(
+      "FeatureCollection or a Feature"
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { createHash } from "node:crypto";
+
+import { ValidationError } from "@the-closer/shared";
+
+import type { RawBusinessEntity } from "../types.js";
+import {
+  type GeoJsonImportOptions,
+  type ImportResult,
+  type LeadImporter,
+  type SkippedRecord,
+  DEFAULT_OSM_TAG_FILTER,
+  GeoJsonImportOptionsSchema,
+} from "./import-types.js";
+import { formatOsmAddress, matchOsmTags, readOsmPhone, readOsmWebsite } from "./osm-importer.js";
+
+/**
+ * GeoJSON feature, as far as the importer reads it
+ */
+interface Feature {
+  id?: string | number;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+  properties?: Record<string, unknown> | null;
+}
+
+/**
+ * GeoJsonImporter - Reads business points from GeoJSON
+ *
+ * Takes a FeatureCollection or a single Feature. Points are placed
+ * where they are, polygons at the average of their outer ring. Fields
+ * come from the mapped properties, or from OSM-style tags ("addr:street",
+ * "amenity", ...) as in overpass-turbo exports.
+ */
+export class GeoJsonImporter implements LeadImporter {
+  readonly source = "geojson" as const;
+  private readonly options: GeoJsonImportOptions;
+
+  constructor(options: Partial<GeoJsonImportOptions> = {}) {
+    this.options = GeoJsonImportOptionsSchema.parse(options);
+  }
+
+  /**
+   * Parse GeoJSON text into businesses
+   *
+   * @throws ValidationError when the input is not GeoJSON
+   */
+  parse(input: string | Uint8Array, sourceName: string): ImportResult {
+    const text = typeof input === "string" ? input : Buffer.from(input).toString("utf8");
+    let json: { type?: unknown; features?: unknown };
+    try {
+      json = JSON.parse(text) as typeof json;
+    } catch (error) {
+      throw new ValidationError("Invalid GeoJSON", {
+        context: { sourceName },
+        cause: error instanceof Error ? error : undefined,
+      });
+    }
+
+    const features =
+      json.type === "FeatureCollection" && Array.isArray(json.features)
+        ? (json.features as Feature[])
+        : json.type === "Feature"
+          ? [json as Feature]
+          : null;
+    if (!features) {
+      throw new ValidationError("GeoJSON must be a FeatureCollection or a Feature", {
+        context: { sourceName, type: json.type },
+      });
+    }
+
+    const businesses: RawBusinessEntity[] = [];
+    const skipped: SkippedRecord[] = [];
+
+    features.forEach((feature, index) => {
+      const record = `feature ${feature.id ?? index}`;
+      const properties = toTags(feature.properties ?? {});
+      const read = (field: keyof GeoJsonImportOptions["properties"]): string | null => {
+        const key = this.options.properties[field] ?? field;
+        return properties[key]?.trim() || null;
+      };
+
+      const name = read("name");
+      if (!name) {
+        skipped.push({ record, reason: "Missing name property" });
+        return;
+      }
+
+      const rating = read("rating") !== null ? Number(read("rating")) : null;
+      if (rating !== null && !(rating >= 0 && rating <= 5)) {
+        skipped.push({ record, reason: `Rating out of range: ${read("rating")}` });
+        return;
+      }
+
+      const address = read("address") ?? formatOsmAddress(properties);
+      const category =
+        read("category") ?? matchOsmTags(properties, DEFAULT_OSM_TAG_FILTER) ?? this.options.defaultCategory;
+      const id = read("id") ?? (feature.id !== undefined ? String(feature.id) : null);
+      const position = featurePosition(feature.geometry);
+
+      businesses.push({
+        name,
+        address,
+        phone: read("phone") ?? readOsmPhone(properties),
+        website: read("website") ?? readOsmWebsite(properties),
+        rating,
+        reviewCount: Math.max(Math.round(Number(read("reviewCount")) || 0), 0),
+        placeId: `geojson:${id ?? hashFeature(name, address)}`,
+        ...(position && { latitude: position[1], longitude: position[0] }),
+        categories: category ? [category] : [],
+      });
+    });
+
+    return { source: this.source, sourceName, totalRecords: features.length, businesses, skipped };
+  }
+}
+
+/**
+ * Properties as strings, dropping nested values
+ */
+function toTags(properties: Record<string, unknown>): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (typeof value === "string" || typeof value === "number") {
+      tags[key] = String(value);
+    }
+  }
+  return tags;
+}
+
+/**
+ * [longitude, latitude] of a Point, or the average of a polygon's outer ring
+ */
+function featurePosition(geometry: Feature["geometry"]): [number, number] | null {
+  if (!geometry) return null;
+  const coordinates = geometry.coordinates;
+
+  let ring: unknown;
+  if (geometry.type === "Point") return toPosition(coordinates);
+  if (geometry.type === "Polygon" && Array.isArray(coordinates)) ring = coordinates[0];
+  if (geometry.type === "MultiPolygon" && Array.isArray(coordinates) && Array.isArray(coordinates[0])) {
+    ring = coordinates[0][0];
+  }
+  if (!Array.isArray(ring)) return null;
+
+  const positions = ring.map(toPosition).filter((p): p is [number, number] => p !== null);
+  // Rings repeat their first position at the end
+  const last = positions[positions.length - 1];
+  if (positions.length > 1 && last && positions[0]?.[0] === last[0] && positions[0][1] === last[1]) {
+    positions.pop();
+  }
+  if (positions.length === 0) return null;
+  const sum = positions.reduce(([lon, lat], [pLon, pLat]) => [lon + pLon, lat + pLat], [0, 0]);
+  return [sum[0] / positions.length, sum[1] / positions.length];
+}
+
+function toPosition(value: unknown): [number, number] | null {
+  if (!Array.isArray(value)) return null;
+  const [lon, lat] = value as unknown[];
+  return typeof lon === "number" && typeof lat === "number" ? [lon, lat] : null;
+}
+
+/**
+ * Stable ID for features without one, so re-imports deduplicate
+ */
+function hashFeature(...parts: string[]): string {
+  return createHash("sha1").update(parts.join("\u0000").toLowerCase()).digest("hex").slice(0, 16);
+}
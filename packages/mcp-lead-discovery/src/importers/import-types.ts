@@ -0,0 +1,166 @@
+import { z } from "zod";
+
+import type { LeadSource } from "@the-closer/shared";
+
+import type { RawBusinessEntity } from "../types.js";
+
+/**
+ * A record an importer could not turn into a business
+ */
+export interface SkippedRecord {
+  /** Row number, feature index or OSM element ("node/123") */
+  record: string;
+  reason: string;
+}
+
+/**
+ * Businesses read from one file
+ */
+export interface ImportResult {
+  source: LeadSource;
+  /** File or list name, saved as the leads' sourceQuery */
+  sourceName: string;
+  /** Records read, skipped ones included */
+  totalRecords: number;
+  businesses: RawBusinessEntity[];
+  skipped: SkippedRecord[];
+}
+
+/**
+ * LeadImporter - Reads a purchased list or open data extract into
+ * the records a Maps search produces
+ *
+ * The businesses then go through the same extraction, qualification
+ * and save pipeline (LeadDiscoveryService.importLeads).
+ */
+export interface LeadImporter {
+  readonly source: LeadSource;
+  parse(input: string | Uint8Array, sourceName: string): ImportResult;
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Which CSV columns hold which business fields, by header name
+ *
+ * Header names are matched case-insensitively. Unmapped fields use
+ * the column named like the field, when there is one.
+ */
+export const CsvColumnMappingSchema = z.object({
+  name: z.string().describe("Business name column"),
+  address: z
+    .union([z.string(), z.array(z.string()).min(1)])
+    .describe("Address column, or columns joined with ', ' (street, city, state, zip)"),
+  phone: z.string(),
+  website: z.string(),
+  category: z.string(),
+  rating: z.string(),
+  reviewCount: z.string(),
+  latitude: z.string(),
+  longitude: z.string(),
+  id: z.string().describe("Column with the list's own ID for the business"),
+});
+
+export type CsvColumnMapping = z.output<typeof CsvColumnMappingSchema>;
+
+/**
+ * CSV import options
+ */
+export const CsvImportOptionsSchema = z.object({
+  columns: CsvColumnMappingSchema.partial().default({}),
+  delimiter: z.string().length(1).default(","),
+  defaultCategory: z.string().optional().describe("Category for rows without one"),
+});
+
+export type CsvImportOptions = z.output<typeof CsvImportOptionsSchema>;
+
+// ============================================
+// GeoJSON
+// ============================================
+
+/**
+ * GeoJSON import options
+ */
+export const GeoJsonImportOptionsSchema = z.object({
+  properties: z
+    .object({
+      name: z.string(),
+      address: z.string(),
+      phone: z.string(),
+      website: z.string(),
+      category: z.string(),
+      rating: z.string(),
+      reviewCount: z.string(),
+      id: z.string(),
+    })
+    .partial()
+    .default({})
+    .describe("Feature properties holding business fields; OSM-style tags are read otherwise"),
+  defaultCategory: z.string().optional(),
+});
+
+export type GeoJsonImportOptions = z.output<typeof GeoJsonImportOptionsSchema>;
+
+// ============================================
+// OpenStreetMap
+// ============================================
+
+/**
+ * OSM elements to import, as tag key -> accepted values; an empty
+ * list accepts any value
+ */
+export const OsmTagFilterSchema = z.record(z.string(), z.array(z.string()));
+
+export type OsmTagFilter = z.output<typeof OsmTagFilterSchema>;
+
+/**
+ * Default OSM tag filter: shops, offices and trades, and the amenities
+ * that are businesses
+ */
+export const DEFAULT_OSM_TAG_FILTER: OsmTagFilter = {
+  shop: [],
+  office: [],
+  craft: [],
+  healthcare: [],
+  amenity: [
+    "restaurant",
+    "cafe",
+    "bar",
+    "pub",
+    "fast_food",
+    "dentist",
+    "doctors",
+    "clinic",
+    "veterinary",
+    "pharmacy",
+    "car_wash",
+    "car_rental",
+    "driving_school",
+    "childcare",
+  ],
+};
+
+/**
+ * OSM import options
+ */
+export const OsmImportOptionsSchema = z.object({
+  tags: OsmTagFilterSchema.default(DEFAULT_OSM_TAG_FILTER),
+});
+
+export type OsmImportOptions = z.output<typeof OsmImportOptionsSchema>;
+
+/**
+ * Node, way or relation from an Overpass response or a .osm.pbf extract
+ */
+export interface OsmElement {
+  type: "node" | "way" | "relation";
+  id: number;
+  tags: Record<string, string>;
+  /** Node position, or way/relation center when known */
+  lat?: number;
+  lon?: number;
+  /** Node IDs of a way */
+  refs?: number[];
+}
@@ -0,0 +1,23 @@
+// Importers
+export { CsvImporter } from "./csv-importer.js";
+export { GeoJsonImporter } from "./geojson-importer.js";
+export { OsmImporter } from "./osm-importer.js";
+
+// Import types and options
+export {
+  CsvColumnMappingSchema,
+  CsvImportOptionsSchema,
+  GeoJsonImportOptionsSchema,
+  OsmImportOptionsSchema,
+  OsmTagFilterSchema,
+  DEFAULT_OSM_TAG_FILTER,
+  type CsvColumnMapping,
+  type CsvImportOptions,
+  type GeoJsonImportOptions,
+  type OsmImportOptions,
+  type OsmTagFilter,
+  type OsmElement,
+  type ImportResult,
+  type LeadImporter,
+  type SkippedRecord,
+} from "./import-types.js";
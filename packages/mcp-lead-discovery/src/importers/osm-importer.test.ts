@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "@the-closer/shared";
+
+import { OsmImporter, formatOsmAddress, matchOsmTags, readOsmPhone } from "./osm-importer.js";
+
+describe("OsmImporter.parseOverpass", () => {
+  const overpass = {
+    elements: [
+      {
+        type: "node",
+        id: 1,
+        lat: 30.27,
+        lon: -97.74,
+        tags: { name: "Bright Smiles", amenity: "dentist", "addr:full": "9 Oak Ave, Austin" },
+      },
+      {
+        type: "way",
+        id: 2,
+        center: { lat: 30.1, lon: -97.6 },
+        tags: { name: "Corner Shop", shop: "yes", website: "https://cornershop.com" },
+      },
+      { type: "node", id: 3, tags: { amenity: "cafe" } },
+      { type: "node", id: 4, tags: { name: "Bench", amenity: "bench" } },
+      { type: "area", id: 5, tags: { name: "Austin", shop: "mall" } },
+    ],
+  };
+
+  it("keeps named elements that match the tag filter", () => {
+    const result = new OsmImporter().parseOverpass(overpass, "austin.json");
+
+    expect(result).toMatchObject({ source: "osm", sourceName: "austin.json", totalRecords: 3 });
+    expect(result.businesses).toEqual([
+      {
+        name: "Bright Smiles",
+        address: "9 Oak Ave, Austin",
+        phone: null,
+        website: null,
+        rating: null,
+        reviewCount: 0,
+        placeId: "osm:node/1",
+        latitude: 30.27,
+        longitude: -97.74,
+        categories: ["dentist"],
+      },
+      {
+        name: "Corner Shop",
+        address: "",
+        phone: null,
+        website: "https://cornershop.com",
+        rating: null,
+        reviewCount: 0,
+        placeId: "osm:way/2",
+        latitude: 30.1,
+        longitude: -97.6,
+        categories: ["shop"],
+      },
+    ]);
+    expect(result.skipped).toEqual([{ record: "node/3", reason: "Missing name tag" }]);
+  });
+
+  it("applies a custom tag filter", () => {
+    const result = new OsmImporter({ tags: { amenity: ["bench"] } }).parseOverpass(overpass, "austin.json");
+
+    expect(result.businesses.map((business) => business.placeId)).toEqual(["osm:node/4"]);
+  });
+
+  it("rejects JSON without an elements array", () => {
+    expect(() => new OsmImporter().parseOverpass({ version: 0.6 }, "bad.json")).toThrow(ValidationError);
+  });
+});
+
+describe("OsmImporter.parse", () => {
+  it("reads Overpass JSON given as text or bytes", () => {
+    const json = JSON.stringify({
+      elements: [{ type: "node", id: 7, tags: { name: "Cafe", amenity: "cafe" } }],
+    });
+    const importer = new OsmImporter();
+
+    expect(importer.parse(json, "a.json").businesses).toHaveLength(1);
+    expect(importer.parse(new TextEncoder().encode(json), "a.json").businesses).toHaveLength(1);
+  });
+
+  it("rejects input that is neither JSON nor .osm.pbf", () => {
+    expect(() => new OsmImporter().parse("<osm/>", "a.osm")).toThrow("neither Overpass JSON nor .osm.pbf");
+  });
+});
+
+describe("OSM tag helpers", () => {
+  it("returns the first matching filter value, or the key for yes", () => {
+    expect(matchOsmTags({ amenity: "cafe" }, { shop: [], amenity: ["cafe"] })).toBe("cafe");
+    expect(matchOsmTags({ craft: "yes" }, { craft: [] })).toBe("craft");
+    expect(matchOsmTags({ amenity: "bench" }, { amenity: ["cafe"] })).toBeNull();
+  });
+
+  it("formats the address from addr:* tags", () => {
+    expect(
+      formatOsmAddress({
+        "addr:housenumber": "12",
+        "addr:street": "Main St",
+        "addr:city": "Austin",
+        "addr:postcode": "78701",
+      })
+    ).toBe("12 Main St, Austin, 78701");
+    expect(formatOsmAddress({})).toBe("");
+  });
+
+  it("reads the first of several phone numbers", () => {
+    expect(readOsmPhone({ "contact:phone": "555-0100;555-0101" })).toBe("555-0100");
+    expect(readOsmPhone({})).toBeNull();
+  });
+});
@@ -0,0 +1,218 @@
+import { ValidationError } from "@the-closer/shared";
+
+import type { RawBusinessEntity } from "../types.js";
+import {
+  type ImportResult,
+  type LeadImporter,
+  type OsmElement,
+  type OsmImportOptions,
+  type OsmTagFilter,
+  type SkippedRecord,
+  OsmImportOptionsSchema,
+} from "./import-types.js";
+import { readOsmPbf } from "./osm-pbf.js";
+
+/**
+ * OsmImporter - Reads OpenStreetMap extracts
+ *
+ * Accepts Overpass API JSON ("[out:json]", with "out center" for ways
+ * to have a position) and .osm.pbf extracts. Elements are kept when a
+ * tag matches the filter and they have a name. Ways in a .osm.pbf are
+ * placed at the average of their nodes; relations have no position.
+ */
+export class OsmImporter implements LeadImporter {
+  readonly source = "osm" as const;
+  private readonly options: OsmImportOptions;
+
+  constructor(options: Partial<OsmImportOptions> = {}) {
+    this.options = OsmImportOptionsSchema.parse(options);
+  }
+
+  /**
+   * Parse Overpass JSON text or .osm.pbf bytes, told apart by content
+   */
+  parse(input: string | Uint8Array, sourceName: string): ImportResult {
+    if (typeof input === "string") {
+      return this.parseOverpass(parseJson(input), sourceName);
+    }
+    // A .osm.pbf starts with the big-endian length of its first header
+    if (input[0] === 0x00) {
+      return this.parsePbf(input, sourceName);
+    }
+    return this.parseOverpass(parseJson(Buffer.from(input).toString("utf8")), sourceName);
+  }
+
+  /**
+   * Parse an Overpass API JSON response
+   */
+  parseOverpass(json: unknown, sourceName: string): ImportResult {
+    const elements = (json as { elements?: unknown } | null)?.elements;
+    if (!Array.isArray(elements)) {
+      throw new ValidationError("Overpass JSON has no elements array", {
+        context: { sourceName },
+      });
+    }
+
+    const osmElements: OsmElement[] = [];
+    for (const element of elements as Array<Record<string, unknown>>) {
+      const type = element["type"];
+      const id = element["id"];
+      if ((type !== "node" && type !== "way" && type !== "relation") || typeof id !== "number") {
+        continue;
+      }
+
+      const center = element["center"] as { lat?: unknown; lon?: unknown } | undefined;
+      const lat = element["lat"] ?? center?.lat;
+      const lon = element["lon"] ?? center?.lon;
+      osmElements.push({
+        type,
+        id,
+        tags: (element["tags"] as Record<string, string> | undefined) ?? {},
+        ...(typeof lat === "number" && typeof lon === "number" && { lat, lon }),
+      });
+    }
+
+    return this.toResult(osmElements, sourceName);
+  }
+
+  /**
+   * Parse a .osm.pbf extract
+   *
+   * Reads the file twice: first for the matching elements, then for
+   * the positions of the nodes of matching ways.
+   */
+  parsePbf(data: Uint8Array, sourceName: string): ImportResult {
+    const matched: OsmElement[] = [];
+    const wayNodes = new Set<number>();
+
+    readOsmPbf(data, (element) => {
+      if (!matchOsmTags(element.tags, this.options.tags)) return;
+      matched.push(element);
+      for (const ref of element.refs ?? []) {
+        wayNodes.add(ref);
+      }
+    });
+
+    if (wayNodes.size > 0) {
+      const positions = new Map<number, [number, number]>();
+      readOsmPbf(data, (element) => {
+        if (element.type === "node" && wayNodes.has(element.id) && element.lat !== undefined && element.lon !== undefined) {
+          positions.set(element.id, [element.lat, element.lon]);
+        }
+      });
+
+      for (const element of matched) {
+        if (!element.refs) continue;
+        const center = averagePosition(element.refs, positions);
+        if (center) {
+          element.lat = center[0];
+          element.lon = center[1];
+        }
+      }
+    }
+
+    return this.toResult(matched, sourceName);
+  }
+
+  private toResult(elements: OsmElement[], sourceName: string): ImportResult {
+    const businesses: RawBusinessEntity[] = [];
+    const skipped: SkippedRecord[] = [];
+    let totalRecords = 0;
+
+    for (const element of elements) {
+      const category = matchOsmTags(element.tags, this.options.tags);
+      if (!category) continue;
+      totalRecords++;
+
+      const record = `${element.type}/${element.id}`;
+      const name = element.tags["name"]?.trim();
+      if (!name) {
+        skipped.push({ record, reason: "Missing name tag" });
+        continue;
+      }
+
+      businesses.push({
+        name,
+        address: formatOsmAddress(element.tags),
+        phone: readOsmPhone(element.tags),
+        website: readOsmWebsite(element.tags),
+        rating: null,
+        reviewCount: 0,
+        placeId: `osm:${record}`,
+        ...(element.lat !== undefined && element.lon !== undefined && {
+          latitude: element.lat,
+          longitude: element.lon,
+        }),
+        categories: [category],
+      });
+    }
+
+    return { source: this.source, sourceName, totalRecords, businesses, skipped };
+  }
+}
+
+/**
+ * Value of the first filter tag an element matches ("dentist" for
+ * amenity=dentist), or null
+ */
+export function matchOsmTags(tags: Record<string, string>, filter: OsmTagFilter): string | null {
+  for (const [key, values] of Object.entries(filter)) {
+    const value = tags[key];
+    if (value !== undefined && (values.length === 0 || values.includes(value))) {
+      return value === "yes" ? key : value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Postal address from addr:* tags: "12 Main St, Austin, TX 78701"
+ */
+export function formatOsmAddress(tags: Record<string, string>): string {
+  if (tags["addr:full"]) return tags["addr:full"];
+
+  const street = [tags["addr:housenumber"], tags["addr:street"]].filter(Boolean).join(" ");
+  const region = [tags["addr:state"], tags["addr:postcode"]].filter(Boolean).join(" ");
+  return [street, tags["addr:city"], region].filter(Boolean).join(", ");
+}
+
+export function readOsmPhone(tags: Record<string, string>): string | null {
+  // Several numbers are separated by semicolons; the first is the main one
+  const phone = tags["phone"] ?? tags["contact:phone"];
+  return phone?.split(";")[0]?.trim() || null;
+}
+
+export function readOsmWebsite(tags: Record<string, string>): string | null {
+  return tags["website"] ?? tags["contact:website"] ?? tags["url"] ?? null;
+}
+
+function averagePosition(
+  refs: number[],
+  positions: Map<number, [number, number]>
+): [number, number] | null {
+  // Closed ways repeat their first node at the end
+  const unique = refs.length > 1 && refs[0] === refs[refs.length - 1] ? refs.slice(0, -1) : refs;
+  let lat = 0;
+  let lon = 0;
+  let count = 0;
+
+  for (const ref of unique) {
+    const position = positions.get(ref);
+    if (!position) continue;
+    lat += position[0];
+    lon += position[1];
+    count++;
+  }
+
+  return count > 0 ? [lat / count, lon / count] : null;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ValidationError("OSM extract is neither Overpass JSON nor .osm.pbf", {
+      cause: error instanceof Error ? error : undefined,
+    });
+  }
+}
@@ -0,0 +1,214 @@
+import { deflateSync } from "node:zlib";
+
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "@the-closer/shared";
+
+import type { OsmElement } from "./import-types.js";
+import { OsmImporter } from "./osm-importer.js";
+import { readOsmPbf } from "./osm-pbf.js";
+
+// ============================================
+// Protocol buffer encoding, as much as the tests need
+// ============================================
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  let rest = value;
+  while (rest >= 128) {
+    bytes.push((rest % 128) | 0x80);
+    rest = Math.floor(rest / 128);
+  }
+  bytes.push(rest);
+  return Buffer.from(bytes);
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function varintField(field: number, value: number): Buffer {
+  return Buffer.concat([varint(field * 8), varint(value)]);
+}
+
+function bytesField(field: number, bytes: Uint8Array | string): Buffer {
+  const data = typeof bytes === "string" ? Buffer.from(bytes, "utf8") : Buffer.from(bytes);
+  return Buffer.concat([varint(field * 8 + 2), varint(data.length), data]);
+}
+
+function packedField(field: number, values: number[], signed = false): Buffer {
+  return bytesField(field, Buffer.concat(values.map((value) => varint(signed ? zigzag(value) : value))));
+}
+
+function deltas(values: number[]): number[] {
+  return values.map((value, i) => value - (values[i - 1] ?? 0));
+}
+
+// ============================================
+// OSM PBF structures
+// ============================================
+
+/** Coordinates in the default 100-nanodegree units */
+function units(degrees: number): number {
+  return Math.round(degrees * 1e7);
+}
+
+function fileBlock(type: string, blob: Buffer): Buffer {
+  const header = Buffer.concat([bytesField(1, type), varintField(3, blob.length)]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(header.length);
+  return Buffer.concat([length, header, blob]);
+}
+
+function rawBlob(data: Buffer): Buffer {
+  return bytesField(1, data);
+}
+
+function zlibBlob(data: Buffer): Buffer {
+  return Buffer.concat([varintField(2, data.length), bytesField(3, deflateSync(data))]);
+}
+
+function primitiveBlock(strings: string[], groups: Buffer[], settings: Buffer[] = []): Buffer {
+  const table = Buffer.concat(strings.map((value) => bytesField(1, value)));
+  return Buffer.concat([
+    ...groups.map((group) => bytesField(2, group)),
+    ...settings,
+    bytesField(1, table),
+  ]);
+}
+
+function denseNodes(nodes: Array<{ id: number; lat: number; lon: number; tags: number[] }>): Buffer {
+  return bytesField(
+    2,
+    Buffer.concat([
+      packedField(1, deltas(nodes.map((node) => node.id)), true),
+      packedField(8, deltas(nodes.map((node) => units(node.lat))), true),
+      packedField(9, deltas(nodes.map((node) => units(node.lon))), true),
+      packedField(10, nodes.flatMap((node) => [...node.tags, 0])),
+    ])
+  );
+}
+
+function way(id: number, keys: number[], values: number[], refs: number[]): Buffer {
+  return bytesField(
+    3,
+    Buffer.concat([
+      varintField(1, id),
+      packedField(2, keys),
+      packedField(3, values),
+      packedField(8, deltas(refs), true),
+    ])
+  );
+}
+
+function readAll(data: Uint8Array): OsmElement[] {
+  const elements: OsmElement[] = [];
+  readOsmPbf(data, (element) => elements.push(element));
+  return elements;
+}
+
+// String table shared by the fixtures; index 0 is empty by convention
+const STRINGS = ["", "name", "Bright Smiles", "amenity", "dentist", "shop", "bakery", "Crumbs"];
+
+describe("readOsmPbf", () => {
+  it("skips the OSMHeader block and reads dense nodes with their tags", () => {
+    const block = primitiveBlock(STRINGS, [
+      denseNodes([
+        { id: 100, lat: 30.27, lon: -97.74, tags: [1, 2, 3, 4] },
+        { id: 103, lat: 30.2701, lon: -97.7402, tags: [] },
+      ]),
+    ]);
+    const data = Buffer.concat([
+      fileBlock("OSMHeader", rawBlob(bytesField(4, "DenseNodes"))),
+      fileBlock("OSMData", rawBlob(block)),
+    ]);
+
+    const [first, second, ...rest] = readAll(data);
+
+    expect(rest).toEqual([]);
+    expect(first).toMatchObject({
+      type: "node",
+      id: 100,
+      tags: { name: "Bright Smiles", amenity: "dentist" },
+    });
+    expect(first?.lat).toBeCloseTo(30.27, 7);
+    expect(first?.lon).toBeCloseTo(-97.74, 7);
+    expect(second).toMatchObject({ type: "node", id: 103, tags: {} });
+    expect(second?.lat).toBeCloseTo(30.2701, 7);
+    expect(second?.lon).toBeCloseTo(-97.7402, 7);
+  });
+
+  it("reads plain nodes and ways from zlib-compressed blobs", () => {
+    const node = bytesField(
+      1,
+      Buffer.concat([
+        varintField(1, zigzag(5)),
+        packedField(2, [5]),
+        packedField(3, [6]),
+        varintField(8, zigzag(units(-33.9))),
+        varintField(9, zigzag(units(151.2))),
+      ])
+    );
+    const block = primitiveBlock(STRINGS, [Buffer.concat([node, way(9, [1, 5], [7, 6], [5, 6, 7])])]);
+
+    const [first, second] = readAll(fileBlock("OSMData", zlibBlob(block)));
+
+    expect(first).toMatchObject({ type: "node", id: 5, tags: { shop: "bakery" } });
+    expect(first?.lat).toBeCloseTo(-33.9, 7);
+    expect(first?.lon).toBeCloseTo(151.2, 7);
+    expect(second).toEqual({
+      type: "way",
+      id: 9,
+      tags: { name: "Crumbs", shop: "bakery" },
+      refs: [5, 6, 7],
+    });
+  });
+
+  it("applies the block's granularity and offsets", () => {
+    const settings = [
+      varintField(17, 1000),
+      varintField(19, 2_000_000_000),
+      varintField(20, 1_000_000_000),
+    ];
+    const node = bytesField(
+      1,
+      Buffer.concat([varintField(1, zigzag(1)), varintField(8, zigzag(500)), varintField(9, zigzag(-250))])
+    );
+
+    const [element] = readAll(fileBlock("OSMData", rawBlob(primitiveBlock([""], [node], settings))));
+
+    expect(element?.lat).toBeCloseTo(2.0005, 9);
+    expect(element?.lon).toBeCloseTo(0.99975, 9);
+  });
+
+  it("rejects truncated data and unsupported compression", () => {
+    const data = fileBlock("OSMData", rawBlob(primitiveBlock(STRINGS, [])));
+
+    expect(() => readAll(data.subarray(0, 2))).toThrow(ValidationError);
+    expect(() => readAll(fileBlock("OSMData", bytesField(4, "lzma")))).toThrow("zlib-compressed");
+  });
+});
+
+describe("OsmImporter with .osm.pbf", () => {
+  it("detects PBF bytes and places matching ways at the average of their nodes", () => {
+    const block = primitiveBlock(STRINGS, [
+      denseNodes([
+        { id: 1, lat: 10, lon: 20, tags: [] },
+        { id: 2, lat: 10, lon: 22, tags: [] },
+        { id: 3, lat: 12, lon: 22, tags: [] },
+        { id: 4, lat: 12, lon: 20, tags: [] },
+        { id: 5, lat: 40, lon: 50, tags: [1, 2, 3, 4] },
+      ]),
+      // Closed way: the first node repeats at the end
+      way(9, [1, 5], [7, 6], [1, 2, 3, 4, 1]),
+    ]);
+
+    const result = new OsmImporter().parse(fileBlock("OSMData", zlibBlob(block)), "extract.osm.pbf");
+
+    expect(result.totalRecords).toBe(2);
+    expect(result.businesses.map((business) => business.placeId)).toEqual(["osm:node/5", "osm:way/9"]);
+    expect(result.businesses[1]).toMatchObject({ name: "Crumbs", categories: ["bakery"] });
+    expect(result.businesses[1]?.latitude).toBeCloseTo(11, 7);
+    expect(result.businesses[1]?.longitude).toBeCloseTo(21, 7);
+  });
+});
@@ -0,0 +1,323 @@
+import { inflateSync } from "node:zlib";
+
+import { ValidationError } from "@the-closer/shared";
+
+import type { OsmElement } from "./import-types.js";
+
+/**
+ * Protocol buffer wire types
+ */
+const VARINT = 0;
+const FIXED64 = 1;
+const LENGTH_DELIMITED = 2;
+const FIXED32 = 5;
+
+/**
+ * Minimal protocol buffer reader - only what the OSM PBF schema needs
+ *
+ * Varints are read into doubles, which is exact for OSM IDs and
+ * coordinates (well under 2^53).
+ */
+class ProtoReader {
+  private readonly buf: Uint8Array;
+  private pos = 0;
+
+  constructor(buf: Uint8Array) {
+    this.buf = buf;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.buf.length;
+  }
+
+  /**
+   * Next field as [field number, wire type]
+   */
+  readTag(): [number, number] {
+    const tag = this.readVarint();
+    return [Math.floor(tag / 8), tag % 8];
+  }
+
+  readVarint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.buf[this.pos++];
+      if (byte === undefined) {
+        throw new ValidationError("Truncated .osm.pbf data");
+      }
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) break;
+      multiplier *= 128;
+    }
+    // Negative int64 values are sent as 10-byte two's complement
+    return result >= 2 ** 63 ? result - 2 ** 64 : result;
+  }
+
+  readSVarint(): number {
+    const value = this.readVarint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readVarint();
+    const bytes = this.buf.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  readString(): string {
+    return Buffer.from(this.readBytes()).toString("utf8");
+  }
+
+  /**
+   * Packed repeated varints; zigzag-decoded when signed
+   */
+  readPacked(signed: boolean): number[] {
+    const reader = new ProtoReader(this.readBytes());
+    const values: number[] = [];
+    while (!reader.done) {
+      values.push(signed ? reader.readSVarint() : reader.readVarint());
+    }
+    return values;
+  }
+
+  skip(wireType: number): void {
+    if (wireType === VARINT) this.readVarint();
+    else if (wireType === FIXED64) this.pos += 8;
+    else if (wireType === LENGTH_DELIMITED) this.pos += this.readVarint();
+    else if (wireType === FIXED32) this.pos += 4;
+    else throw new ValidationError(`Unsupported protobuf wire type ${wireType} in .osm.pbf`);
+  }
+}
+
+/**
+ * Read every node, way and relation of a .osm.pbf extract
+ *
+ * Way and relation positions are not resolved; ways come with the
+ * IDs of their nodes.
+ */
+export function readOsmPbf(data: Uint8Array, visit: (element: OsmElement) => void): void {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let pos = 0;
+
+  while (pos < data.length) {
+    if (pos + 4 > data.length) {
+      throw new ValidationError("Truncated .osm.pbf data");
+    }
+    const headerLength = view.getUint32(pos);
+    pos += 4;
+
+    let type = "";
+    let dataSize = 0;
+    const header = new ProtoReader(data.subarray(pos, pos + headerLength));
+    while (!header.done) {
+      const [field, wireType] = header.readTag();
+      if (field === 1) type = header.readString();
+      else if (field === 3) dataSize = header.readVarint();
+      else header.skip(wireType);
+    }
+    pos += headerLength;
+
+    const blob = data.subarray(pos, pos + dataSize);
+    pos += dataSize;
+
+    // OSMHeader only lists required features; everything is in OSMData
+    if (type === "OSMData") {
+      readPrimitiveBlock(decodeBlob(blob), visit);
+    }
+  }
+}
+
+/**
+ * Uncompressed contents of a Blob
+ */
+function decodeBlob(blob: Uint8Array): Uint8Array {
+  const reader = new ProtoReader(blob);
+  while (!reader.done) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1) return reader.readBytes();
+    if (field === 3) return inflateSync(reader.readBytes());
+    if (field >= 4 && wireType === LENGTH_DELIMITED) {
+      throw new ValidationError("Only raw and zlib-compressed .osm.pbf blobs are supported");
+    }
+    reader.skip(wireType);
+  }
+  return new Uint8Array(0);
+}
+
+/**
+ * Coordinate and string context of one PrimitiveBlock
+ */
+interface BlockContext {
+  strings: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+function readPrimitiveBlock(block: Uint8Array, visit: (element: OsmElement) => void): void {
+  const context: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const groups: Uint8Array[] = [];
+
+  // Groups can come before the settings they depend on
+  const reader = new ProtoReader(block);
+  while (!reader.done) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1) context.strings = readStringTable(reader.readBytes());
+    else if (field === 2) groups.push(reader.readBytes());
+    else if (field === 17) context.granularity = reader.readVarint();
+    else if (field === 19) context.latOffset = reader.readVarint();
+    else if (field === 20) context.lonOffset = reader.readVarint();
+    else reader.skip(wireType);
+  }
+
+  for (const group of groups) {
+    const groupReader = new ProtoReader(group);
+    while (!groupReader.done) {
+      const [field, wireType] = groupReader.readTag();
+      if (field === 1) visit(readNode(groupReader.readBytes(), context));
+      else if (field === 2) readDenseNodes(groupReader.readBytes(), context, visit);
+      else if (field === 3) visit(readWayOrRelation("way", groupReader.readBytes(), context));
+      else if (field === 4) visit(readWayOrRelation("relation", groupReader.readBytes(), context));
+      else groupReader.skip(wireType);
+    }
+  }
+}
+
+function readStringTable(table: Uint8Array): string[] {
+  const strings: string[] = [];
+  const reader = new ProtoReader(table);
+  while (!reader.done) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1) strings.push(reader.readString());
+    else reader.skip(wireType);
+  }
+  return strings;
+}
+
+function readNode(node: Uint8Array, context: BlockContext): OsmElement {
+  const reader = new ProtoReader(node);
+  let id = 0;
+  let keys: number[] = [];
+  let values: number[] = [];
+  let lat = 0;
+  let lon = 0;
+
+  while (!reader.done) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1) id = reader.readSVarint();
+    else if (field === 2) keys = reader.readPacked(false);
+    else if (field === 3) values = reader.readPacked(false);
+    else if (field === 8) lat = reader.readSVarint();
+    else if (field === 9) lon = reader.readSVarint();
+    else reader.skip(wireType);
+  }
+
+  return {
+    type: "node",
+    id,
+    tags: toTags(keys, values, context.strings),
+    lat: toDegrees(lat, context.latOffset, context.granularity),
+    lon: toDegrees(lon, context.lonOffset, context.granularity),
+  };
+}
+
+function readDenseNodes(
+  dense: Uint8Array,
+  context: BlockContext,
+  visit: (element: OsmElement) => void
+): void {
+  const reader = new ProtoReader(dense);
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+  let keysVals: number[] = [];
+
+  while (!reader.done) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1) ids = reader.readPacked(true);
+    else if (field === 8) lats = reader.readPacked(true);
+    else if (field === 9) lons = reader.readPacked(true);
+    else if (field === 10) keysVals = reader.readPacked(false);
+    else reader.skip(wireType);
+  }
+
+  // IDs and coordinates are delta-coded; tags are key/value string
+  // indexes per node, each node's list ended by a 0
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  let tagPos = 0;
+
+  for (let i = 0; i < ids.length; i++) {
+    id += ids[i]!;
+    lat += lats[i] ?? 0;
+    lon += lons[i] ?? 0;
+
+    const tags: Record<string, string> = {};
+    while (tagPos < keysVals.length && keysVals[tagPos] !== 0) {
+      const key = context.strings[keysVals[tagPos]!];
+      const value = context.strings[keysVals[tagPos + 1] ?? 0];
+      if (key !== undefined && value !== undefined) tags[key] = value;
+      tagPos += 2;
+    }
+    tagPos++;
+
+    visit({
+      type: "node",
+      id,
+      tags,
+      lat: toDegrees(lat, context.latOffset, context.granularity),
+      lon: toDegrees(lon, context.lonOffset, context.granularity),
+    });
+  }
+}
+
+function readWayOrRelation(
+  type: "way" | "relation",
+  element: Uint8Array,
+  context: BlockContext
+): OsmElement {
+  const reader = new ProtoReader(element);
+  let id = 0;
+  let keys: number[] = [];
+  let values: number[] = [];
+  let refs: number[] | undefined;
+
+  while (!reader.done) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1) id = reader.readVarint();
+    else if (field === 2) keys = reader.readPacked(false);
+    else if (field === 3) values = reader.readPacked(false);
+    else if (field === 8 && type === "way") {
+      // Delta-coded node IDs
+      let ref = 0;
+      refs = reader.readPacked(true).map((delta) => (ref += delta));
+    } else reader.skip(wireType);
+  }
+
+  return {
+    type,
+    id,
+    tags: toTags(keys, values, context.strings),
+    ...(refs && { refs }),
+  };
+}
+
+function toTags(keys: number[], values: number[], strings: string[]): Record<string, string> {
+  const tags: Record<string, string> = {};
+  keys.forEach((keyIndex, i) => {
+    const key = strings[keyIndex];
+    const value = strings[values[i] ?? -1];
+    if (key !== undefined && value !== undefined) tags[key] = value;
+  });
+  return tags;
+}
+
+/**
+ * Coordinates are stored in units of granularity nanodegrees
+ */
+function toDegrees(value: number, offset: number, granularity: number): number {
+  return (offset + granularity * value) / 1e9;
+}
@@ -10,7 +10,22 @@
 export { LeadDiscoveryServer } from "./server.js";
 export { MapsScraper } from "./maps-scraper.js";
 export { ResilientMapsScraper, RateLimitError } from "./resilient-scraper.js";
+export { SweepPlanner } from "./sweep-planner.js";
+export {
+  CsvImporter,
+  GeoJsonImporter,
+  OsmImporter,
+  CsvColumnMappingSchema,
+  CsvImportOptionsSchema,
+  GeoJsonImportOptionsSchema,
+  OsmImportOptionsSchema,
+  OsmTagFilterSchema,
+  DEFAULT_OSM_TAG_FILTER,
+} from "./importers/index.js";
 export { DataExtractor } from "./data-extractor.js";
+export { parseAddress, US_STATES } from "./address-parser.js";
+export { timezoneAt } from "./timezone.js";
+export { ContactExtractor } from "./contact-extractor.js";
 export {
   ProspectQualifier,
   DEFAULT_QUALIFICATION_RULES,
@@ -19,9 +34,14 @@ export {
   LeadDiscoveryService,
   createLeadDiscoveryService,
 } from "./discovery-service.js";
+export { DiscoveryJobRunner } from "./discovery-jobs.js";
+
+// Server types
+export type { LeadDiscoveryServerDependencies } from "./server.js";
 
 // Discovery service types
 export type {
+  BusinessScraper,
   ILeadRepository,
   LeadInput,
   DiscoveryServiceConfig,
@@ -30,8 +50,19 @@ export type {
   DiscoveryResult,
   DiscoveryError,
   ProgressCallback,
+  BatchDiscoveryOptions,
+  BatchDiscoveryResult,
 } from "./discovery-service.js";
 
+// Discovery job types
+export type {
+  IDiscoverySessionRepository,
+  DiscoveryJobRequest,
+  DiscoveryJobRunnerConfig,
+  JobPage,
+  JobPageProvider,
+} from "./discovery-jobs.js";
+
 // Qualifier types
 export type {
   QualificationRules,
@@ -54,6 +85,9 @@ export type {
   ExtractionOptions,
 } from "./data-extractor.js";
 
+// Contact extractor types
+export type { ContactExtractionResult } from "./contact-extractor.js";
+
 // Types
 export type {
   DiscoveryQuery,
@@ -63,6 +97,9 @@ export type {
   MapsScraperConfig,
   StealthConfig,
   ScraperResult,
+  SearchHooks,
+  ContactExtractorConfig,
+  SweepPlannerConfig,
 } from "./types.js";
 
 export {
@@ -72,6 +109,8 @@ export {
   RawBusinessEntitySchema,
   MapsScraperConfigSchema,
   StealthConfigSchema,
+  ContactExtractorConfigSchema,
+  SweepPlannerConfigSchema,
 } from "./types.js";
 
 // Resilient scraper types
@@ -79,3 +118,25 @@ export type {
   ResilientScraperConfig,
   BatchSearchResult,
 } from "./resilient-scraper.js";
+
+// Sweep planner types
+export type {
+  GeoBounds,
+  SweepTile,
+  TileCoverage,
+  SweepResult,
+  SweepProgressCallback,
+} from "./sweep-planner.js";
+
+// Import types
+export type {
+  LeadImporter,
+  ImportResult,
+  SkippedRecord,
+  CsvColumnMapping,
+  CsvImportOptions,
+  GeoJsonImportOptions,
+  OsmImportOptions,
+  OsmTagFilter,
+  OsmElement,
+} from "./importers/index.js";
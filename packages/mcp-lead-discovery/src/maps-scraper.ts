@@ -12,6 +12,7 @@ import {
   type MapsScraperConfig,
   type StealthConfig,
   type ScraperResult,
+  type SearchHooks,
   MapsScraperConfigSchema,
   StealthConfigSchema,
 } from "./types.js";
@@ -26,6 +27,7 @@ export class MapsScraper {
   private readonly config: MapsScraperConfig;
   private readonly stealthConfig: StealthConfig;
   private responseBuffer: RawBusinessEntity[] = [];
+  private reportedPlaceIds = new Set<string>();
   private interceptedResponses = 0;
   private userAgentIndex = 0;
 
@@ -39,10 +41,14 @@ export class MapsScraper {
 
   /**
    * Search for businesses matching the criteria
+   *
+   * With hooks.onBatch, businesses are also handed over scroll by
+   * scroll while the search runs.
    */
   async searchBusinesses(
     page: Page,
-    criteria: SearchCriteria
+    criteria: SearchCriteria,
+    hooks: SearchHooks = {}
   ): Promise<ScraperResult> {
     const startTime = Date.now();
     const errors: string[] = [];
@@ -50,6 +56,7 @@ export class MapsScraper {
 
     // Reset state for new search
     this.responseBuffer = [];
+    this.reportedPlaceIds = new Set();
     this.interceptedResponses = 0;
 
     try {
@@ -65,9 +72,10 @@ export class MapsScraper {
 
       // Wait for initial results
       await this.waitForResults(page);
+      await this.reportBatch(hooks, 0);
 
       // Scroll to load more results
-      scrollAttempts = await this.loadAllResults(page);
+      scrollAttempts = await this.loadAllResults(page, hooks);
 
       // Apply delay between searches
       await this.delay(
@@ -435,6 +443,13 @@ export class MapsScraper {
    * Build Google Maps search URL
    */
   private buildMapsUrl(criteria: SearchCriteria): string {
+    if (criteria.center) {
+      // The location name would recenter the map, so search the viewport only
+      const query = encodeURIComponent(criteria.query);
+      const { latitude, longitude } = criteria.center;
+      return `https://www.google.com/maps/search/${query}/@${latitude},${longitude},${criteria.zoom ?? 14}z`;
+    }
+
     const query = encodeURIComponent(`${criteria.query} ${criteria.location}`);
     return `https://www.google.com/maps/search/${query}`;
   }
@@ -487,7 +502,7 @@ export class MapsScraper {
   /**
    * Load all results by scrolling
    */
-  private async loadAllResults(page: Page): Promise<number> {
+  private async loadAllResults(page: Page, hooks: SearchHooks): Promise<number> {
     let scrollAttempts = 0;
     let lastCount = 0;
     let noNewResultsCount = 0;
@@ -506,6 +521,8 @@ export class MapsScraper {
         this.config.delayBetweenScrolls + this.getRandomDelay()
       );
 
+      await this.reportBatch(hooks, scrollAttempts);
+
       // Check if new results appeared
       const currentCount = this.responseBuffer.length;
       if (currentCount === lastCount) {
@@ -523,6 +540,24 @@ export class MapsScraper {
     return scrollAttempts;
   }
 
+  /**
+   * Hand the businesses not reported yet to the onBatch hook
+   */
+  private async reportBatch(hooks: SearchHooks, scroll: number): Promise<void> {
+    if (!hooks.onBatch) return;
+
+    const batch: RawBusinessEntity[] = [];
+    for (const business of this.responseBuffer) {
+      if (this.reportedPlaceIds.has(business.placeId)) continue;
+      this.reportedPlaceIds.add(business.placeId);
+      batch.push(business);
+    }
+
+    if (batch.length > 0) {
+      await hooks.onBatch(batch, scroll);
+    }
+  }
+
   /**
    * Apply stealth measures to the page
    */
@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import type { TechStack } from "@the-closer/shared";
+
 import type { DiscoveredBusiness } from "./types.js";
 
 /**
@@ -27,6 +29,9 @@ export const QualificationRulesSchema = z.object({
   /** Points for old website tech patterns */
   oldTechPoints: z.number().int().default(10),
 
+  /** Points for libraries with known vulnerabilities (needs an audited tech stack) */
+  vulnerableTechPoints: z.number().int().default(15),
+
   /** Base score for qualified prospects */
   baseScore: z.number().int().min(0).max(100).default(50),
 
@@ -55,6 +60,7 @@ export type QualificationReason =
   | "low_reviews"
   | "no_https"
   | "old_tech"
+  | "known_vulnerabilities"
   | "base_qualified";
 
 /**
@@ -145,9 +151,10 @@ export class ProspectQualifier {
   /**
    * Qualify a single prospect
    * @param business - The business to evaluate
+   * @param techStack - Tech stack from the site's audit; replaces URL-based old tech guesses
    * @returns Qualification result with score and reasons
    */
-  qualifyProspect(business: DiscoveredBusiness): QualificationResult {
+  qualifyProspect(business: DiscoveredBusiness, techStack?: TechStack): QualificationResult {
     const reasons: QualificationReasonDetail[] = [];
     let score = this.rules.baseScore;
     let disqualified = false;
@@ -212,8 +219,32 @@ export class ProspectQualifier {
         });
       }
 
-      // Old technology patterns in URL
-      if (business.websiteUrl && this.hasOldTechPatterns(business.websiteUrl)) {
+      // Old technology: fingerprinted when audited, guessed from the URL otherwise
+      if (techStack) {
+        const oldTech = techStack.technologies.filter(
+          (t) => t.outdated || t.category === "site-builder"
+        );
+        if (oldTech.length > 0) {
+          score += this.rules.oldTechPoints;
+          reasons.push({
+            code: "old_tech",
+            description: `Outdated or template website technology: ${oldTech
+              .map((t) => (t.version ? `${t.name} ${t.version}` : t.name))
+              .join(", ")}`,
+            pointsAwarded: this.rules.oldTechPoints,
+          });
+        }
+
+        if (techStack.vulnerabilities.length > 0) {
+          const affected = [...new Set(techStack.vulnerabilities.map((v) => v.technology))];
+          score += this.rules.vulnerableTechPoints;
+          reasons.push({
+            code: "known_vulnerabilities",
+            description: `${techStack.vulnerabilities.length} known vulnerabilities in ${affected.join(", ")} - security opportunity`,
+            pointsAwarded: this.rules.vulnerableTechPoints,
+          });
+        }
+      } else if (business.websiteUrl && this.hasOldTechPatterns(business.websiteUrl)) {
         score += this.rules.oldTechPoints;
         reasons.push({
           code: "old_tech",
@@ -366,6 +397,7 @@ export class ProspectQualifier {
       lowReviewPoints: 15,
       noHttpsPoints: 20,
       oldTechPoints: 15,
+      vulnerableTechPoints: 20,
     });
   }
 }
@@ -9,7 +9,13 @@ import {
 } from "@the-closer/shared";
 
 import { MapsScraper } from "./maps-scraper.js";
-import type { SearchCriteria, ScraperResult, MapsScraperConfig, StealthConfig } from "./types.js";
+import type {
+  SearchCriteria,
+  SearchHooks,
+  ScraperResult,
+  MapsScraperConfig,
+  StealthConfig,
+} from "./types.js";
 
 /**
  * Rate limit detection result
@@ -101,7 +107,7 @@ export class ResilientMapsScraper {
     // Log circuit breaker state changes
     this.circuitBreaker.on((event) => {
       if (event.type === "state_change") {
-        console.log(`[ResilientScraper] Circuit breaker: ${event.from} -> ${event.to}`);
+        console.warn(`[ResilientScraper] Circuit breaker: ${event.from} -> ${event.to}`);
       }
     });
   }
@@ -109,7 +115,11 @@ export class ResilientMapsScraper {
   /**
    * Search for businesses with retry and circuit breaker protection
    */
-  async searchBusinesses(page: Page, criteria: SearchCriteria): Promise<ScraperResult> {
+  async searchBusinesses(
+    page: Page,
+    criteria: SearchCriteria,
+    hooks: SearchHooks = {}
+  ): Promise<ScraperResult> {
     // Check circuit breaker first
     const result = await this.circuitBreaker.execute(async () => {
       // Wrap with timeout
@@ -119,12 +129,12 @@ export class ResilientMapsScraper {
           const retryResult = await retryAsync(
             async (context) => {
               if (context.attempt > 1) {
-                console.log(
+                console.warn(
                   `[ResilientScraper] Retry attempt ${context.attempt}/${context.maxAttempts} for: ${criteria.query} in ${criteria.location}`
                 );
               }
 
-              const searchResult = await this.scraper.searchBusinesses(page, criteria);
+              const searchResult = await this.scraper.searchBusinesses(page, criteria, hooks);
 
               // Check for rate limiting indicators
               const rateLimitInfo = this.detectRateLimit(searchResult, page);
@@ -151,7 +161,7 @@ export class ResilientMapsScraper {
               ],
             },
             (context, error) => {
-              console.log(
+              console.warn(
                 `[ResilientScraper] Attempt ${context.attempt} failed: ${error.message}. ` +
                   `Total delay: ${context.totalDelayMs}ms`
               );
@@ -209,7 +219,7 @@ export class ResilientMapsScraper {
 
         // If circuit breaker is open, wait before continuing
         if (this.circuitBreaker.getState() === "open") {
-          console.log("[ResilientScraper] Circuit breaker open, waiting before next search...");
+          console.warn("[ResilientScraper] Circuit breaker open, waiting before next search...");
           await this.delay(this.config.circuitBreaker.timeout ?? 60000);
         }
       }
@@ -1,32 +1,678 @@
-import type { DiscoveryQuery, DiscoveredBusiness } from "./types.js";
+import { readFile, realpath, stat } from "node:fs/promises";
+import { basename, isAbsolute, relative, resolve, sep } from "node:path";
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+import {
+  DiscoveryJobStatusSchema,
+  getCurrentTimestamp,
+  TechStackSchema,
+  ValidationError,
+  type DiscoveryJob,
+  type DiscoveryJobStatus,
+  type LeadProfile,
+} from "@the-closer/shared";
+import type { PuppeteerClient } from "@the-closer/mcp-site-audit";
+
+import { ContactExtractor } from "./contact-extractor.js";
+import { DataExtractor } from "./data-extractor.js";
+import { DiscoveryJobRunner, type IDiscoverySessionRepository } from "./discovery-jobs.js";
+import {
+  CsvColumnMappingSchema,
+  CsvImporter,
+  GeoJsonImporter,
+  OsmImporter,
+  OsmTagFilterSchema,
+  type LeadImporter,
+  type SkippedRecord,
+} from "./importers/index.js";
+import {
+  LeadDiscoveryService,
+  type DiscoveryError,
+  type DiscoveryResult,
+  type DiscoveryServiceConfig,
+  type ILeadRepository,
+  type ProgressCallback,
+} from "./discovery-service.js";
+import { ProspectQualifier } from "./qualifier.js";
+import { ResilientMapsScraper } from "./resilient-scraper.js";
+import { SweepPlanner, type SweepResult } from "./sweep-planner.js";
+import {
+  type DiscoveryQuery,
+  type DiscoveredBusiness,
+  type SearchCriteria,
+  DiscoveredBusinessSchema,
+  DiscoveryQuerySchema,
+  SearchCriteriaSchema,
+} from "./types.js";
+
+/**
+ * Dependencies for the lead discovery server
+ */
+export interface LeadDiscoveryServerDependencies {
+  browserClient: PuppeteerClient;
+  scraper?: ResilientMapsScraper;
+  qualifier?: ProspectQualifier;
+  repository?: ILeadRepository;
+  /** Finds email contacts on saved leads' websites (default: crawls with browserClient) */
+  contactExtractor?: ContactExtractor;
+  /** Records discovery runs in discovery_sessions and enables discovery jobs */
+  sessionRepository?: IDiscoverySessionRepository;
+  /** Directory import_leads may read from (default: ./imports) */
+  importDirectory?: string;
+  /** Largest file import_leads reads, since it is loaded into memory (default: 100 MB) */
+  importMaxBytes?: number;
+  serviceConfig?: Partial<DiscoveryServiceConfig>;
+}
+
+/**
+ * Largest import file read by default
+ */
+const DEFAULT_IMPORT_MAX_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Input for the qualify tool
+ */
+const QualifyBusinessInputSchema = DiscoveredBusinessSchema.extend({
+  techStack: TechStackSchema.optional().describe(
+    "Tech stack from the site's audit; scores outdated and vulnerable technology instead of guessing from the URL"
+  ),
+});
+
+/**
+ * Input for the import tool
+ */
+const ImportLeadsInputSchema = z.object({
+  format: z.enum(["csv", "geojson", "osm"]).describe("osm reads Overpass JSON and .osm.pbf"),
+  path: z.string().min(1).describe("Path of the file to import, relative to the import directory"),
+  columns: CsvColumnMappingSchema.partial()
+    .optional()
+    .describe("CSV only: header of the column for each field"),
+  delimiter: z.string().length(1).optional().describe("CSV only: field delimiter (default: ,)"),
+  tags: OsmTagFilterSchema.optional().describe(
+    "OSM only: tag key -> accepted values, empty for any (default: shops, offices and business amenities)"
+  ),
+  defaultCategory: z.string().optional().describe("Category for records without one"),
+});
+
+type ImportLeadsInput = z.output<typeof ImportLeadsInputSchema>;
+
+/**
+ * Input for the enrich_contacts tool
+ */
+const EnrichContactsInputSchema = {
+  leadIds: z.array(z.string().uuid()).min(1).max(50).describe("Saved leads to find contacts for"),
+};
+
+/**
+ * Tool handler context passed by the MCP SDK
+ */
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Input for the start_discovery_job tool
+ */
+const StartDiscoveryJobInputSchema = SearchCriteriaSchema.extend({
+  maxResults: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Businesses to process at most"),
+});
+
+/**
+ * Input for the tools acting on one discovery job
+ */
+const DiscoveryJobIdInputSchema = {
+  id: z.string().uuid().describe("Discovery session ID"),
+};
 
 /**
  * MCP Lead Discovery Server
  *
- * Uses Puppeteer with network interception to extract
- * business data from Google Maps without detection.
+ * Exposes the Google Maps discovery pipeline as MCP tools over stdio.
+ * Scraping goes through ResilientMapsScraper, pages come from the shared
+ * PuppeteerClient, and pipeline progress is forwarded to the client as
+ * progress notifications. Saved leads get the email contacts found on
+ * their website.
  */
 export class LeadDiscoveryServer {
-  constructor() {
-    // Server initialization will be implemented in Phase 1
+  private readonly server: McpServer;
+  private readonly browserClient: PuppeteerClient;
+  private readonly scraper: ResilientMapsScraper;
+  private readonly qualifier: ProspectQualifier;
+  private readonly service: LeadDiscoveryService;
+  private readonly repository: ILeadRepository | null;
+  private readonly sessions: IDiscoverySessionRepository | null;
+  private readonly jobs: DiscoveryJobRunner | null;
+  private readonly importDirectory: string;
+  private readonly importMaxBytes: number;
+
+  constructor(dependencies: LeadDiscoveryServerDependencies) {
+    this.browserClient = dependencies.browserClient;
+    this.scraper = dependencies.scraper ?? new ResilientMapsScraper();
+    this.qualifier = dependencies.qualifier ?? new ProspectQualifier();
+    this.repository = dependencies.repository ?? null;
+    this.sessions = dependencies.sessionRepository ?? null;
+    this.importDirectory = resolve(dependencies.importDirectory ?? "./imports");
+    this.importMaxBytes = dependencies.importMaxBytes ?? DEFAULT_IMPORT_MAX_BYTES;
+    this.service = new LeadDiscoveryService(
+      this.scraper,
+      this.qualifier,
+      this.repository,
+      dependencies.serviceConfig,
+      dependencies.contactExtractor ?? new ContactExtractor(this.browserClient)
+    );
+    this.jobs = this.sessions
+      ? new DiscoveryJobRunner(this.service, this.sessions, () =>
+          this.browserClient.createPage()
+        )
+      : null;
+
+    this.server = new McpServer({
+      name: "mcp-lead-discovery",
+      version: "0.1.0",
+    });
+
+    this.registerTools();
   }
 
   /**
    * Search for businesses matching the query
+   * Returns extracted businesses without qualifying or saving them
+   */
+  async discover(query: DiscoveryQuery): Promise<DiscoveredBusiness[]> {
+    const managedPage = await this.browserClient.createPage();
+
+    try {
+      const result = await this.scraper.searchBusinesses(managedPage.page, {
+        query: query.query,
+        location: query.location ?? "",
+      });
+
+      const { successful } = DataExtractor.extractBatch(result.businesses);
+      let businesses = DataExtractor.deduplicateBusinesses(successful);
+
+      if (query.filterRating !== undefined) {
+        businesses = DataExtractor.filterBusinesses(businesses, {
+          maxRating: query.filterRating,
+        });
+      }
+
+      return businesses.slice(0, query.maxResults);
+    } finally {
+      await managedPage.close();
+    }
+  }
+
+  /**
+   * Search an area tile by tile to get past the Maps result cap
+   * Returns extracted businesses and per-tile coverage without saving them
    */
-  async discover(_query: DiscoveryQuery): Promise<DiscoveredBusiness[]> {
-    // Implementation will use:
-    // 1. Puppeteer with stealth settings
-    // 2. Network interception to capture API responses
-    // 3. Locator-based waiting for resilience
-    throw new Error("Not implemented - Phase 1");
+  async sweep(criteria: SearchCriteria): Promise<SweepResult> {
+    const managedPage = await this.browserClient.createPage();
+
+    try {
+      return await new SweepPlanner(this.scraper).sweep(managedPage.page, criteria);
+    } finally {
+      await managedPage.close();
+    }
   }
 
   /**
-   * Start the MCP server
+   * Import a lead list or open data extract and save the qualified leads
+   *
+   * Only files inside the import directory and under the size cap are read.
+   */
+  async importLeads(
+    input: ImportLeadsInput,
+    onProgress?: ProgressCallback
+  ): Promise<DiscoveryResult & { totalRecords: number; skipped: SkippedRecord[] }> {
+    const importer = createImporter(input);
+    const path = await this.resolveImportPath(input.path);
+    const data = await readFile(path);
+    const imported = importer.parse(
+      input.format === "osm" ? data : data.toString("utf8"),
+      basename(path)
+    );
+
+    const result = await this.service.importLeads(imported, onProgress);
+    return { ...result, totalRecords: imported.totalRecords, skipped: imported.skipped };
+  }
+
+  /**
+   * Resolve an import path and check it is a file inside the import directory
+   * that is small enough to read into memory
+   */
+  private async resolveImportPath(path: string): Promise<string> {
+    // Symlinks are followed first, so they can't point out of the directory
+    const directory = await realpath(this.importDirectory).catch(() => this.importDirectory);
+    const resolved = await realpath(resolve(directory, path)).catch(() => {
+      throw new ValidationError(`Import file not found: ${path}`, { context: { path } });
+    });
+
+    const inside = relative(directory, resolved);
+    if (inside === "" || inside === ".." || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+      throw new ValidationError(`Import files must be inside ${this.importDirectory}`, {
+        context: { path },
+      });
+    }
+
+    const info = await stat(resolved);
+    if (!info.isFile()) {
+      throw new ValidationError(`Import path is not a file: ${path}`, { context: { path } });
+    }
+    if (info.size > this.importMaxBytes) {
+      throw new ValidationError(
+        `Import file is ${info.size} bytes, over the ${this.importMaxBytes} byte limit`,
+        { context: { path, size: info.size, maxBytes: this.importMaxBytes } }
+      );
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Run the full discovery pipeline
+   *
+   * With a session repository the run is recorded in discovery_sessions,
+   * where it is listed along with discovery jobs.
+   */
+  async discoverLeads(
+    criteria: SearchCriteria,
+    onProgress?: ProgressCallback
+  ): Promise<DiscoveryResult & { sessionId?: string }> {
+    const sessions = this.sessions;
+    const session = await sessions?.createSession({
+      query: criteria.query,
+      location: criteria.location,
+      ...(criteria.category && { category: criteria.category }),
+      ...(criteria.radius !== undefined && { radiusMiles: criteria.radius }),
+    });
+    if (sessions && session) {
+      await sessions.updateSession(session.id, {
+        status: "running",
+        attempts: 1,
+        startedAt: getCurrentTimestamp(),
+      });
+    }
+
+    // Progress writes are chained so they land in order, and are best-effort
+    let progressWrite: Promise<unknown> = Promise.resolve();
+    let failure: string | undefined;
+    const managedPage = await this.browserClient.createPage();
+
+    try {
+      const result = await this.service.discoverLeads(managedPage.page, criteria, (status) => {
+        if (status.stage === "error") {
+          failure = status.message;
+        }
+        if (sessions && session) {
+          progressWrite = progressWrite
+            .then(() => sessions.updateSession(session.id, { progress: status }))
+            .catch(() => {
+              // The final status is what matters
+            });
+        }
+        onProgress?.(status);
+      });
+
+      await progressWrite;
+      if (sessions && session) {
+        await sessions.updateSession(session.id, {
+          status: failure === undefined ? "completed" : "failed",
+          stats: {
+            found: result.found,
+            extracted: result.extracted,
+            qualified: result.qualified,
+            saved: result.saved,
+            duplicates: result.duplicates,
+            errors: result.errors.length,
+          },
+          ...(failure !== undefined && { error: failure }),
+          completedAt: getCurrentTimestamp(),
+        });
+      }
+
+      return { ...result, ...(session && { sessionId: session.id }) };
+    } catch (error) {
+      await progressWrite;
+      if (sessions && session) {
+        await sessions
+          .updateSession(session.id, {
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+            completedAt: getCurrentTimestamp(),
+          })
+          .catch(() => {
+            // Report the discovery error, not the bookkeeping one
+          });
+      }
+      throw error;
+    } finally {
+      await managedPage.close();
+    }
+  }
+
+  /**
+   * Find email contacts on the websites of saved leads and save them
+   */
+  async enrichContacts(
+    leadIds: string[]
+  ): Promise<{ leads: LeadProfile[]; notFound: string[]; errors: DiscoveryError[] }> {
+    const leads: LeadProfile[] = [];
+    const notFound: string[] = [];
+    for (const id of leadIds) {
+      const lead = await this.repository?.getLeadById(id);
+      if (lead) {
+        leads.push(lead);
+      } else {
+        notFound.push(id);
+      }
+    }
+
+    const errors: DiscoveryError[] = [];
+    const enriched = await this.service.enrichContacts(leads, errors);
+    return { leads: enriched, notFound, errors };
+  }
+
+  /**
+   * List recorded discovery sessions, newest first
+   *
+   * Empty without a session repository.
+   */
+  async listSessions(status?: DiscoveryJobStatus, limit?: number): Promise<DiscoveryJob[]> {
+    return this.sessions ? this.sessions.listSessions(status, limit) : [];
+  }
+
+  /**
+   * Discovery job runner, when a session repository was provided
+   */
+  getJobRunner(): DiscoveryJobRunner | null {
+    return this.jobs;
+  }
+
+  /**
+   * Start the MCP server on stdio
+   *
+   * Discovery jobs interrupted by a previous run are resumed.
    */
   async start(): Promise<void> {
-    // MCP server startup will be implemented
-    throw new Error("Not implemented - Phase 1");
+    const transport = new StdioServerTransport();
+    await this.server.connect(transport);
+    await this.jobs?.resumeInterrupted();
+  }
+
+  /**
+   * Stop the MCP server and release the browser
+   */
+  async stop(): Promise<void> {
+    await this.server.close();
+    await this.browserClient.disconnect();
+  }
+
+  // ============================================
+  // Tool Registration
+  // ============================================
+
+  private registerTools(): void {
+    this.server.registerTool(
+      "discover_leads",
+      {
+        title: "Discover leads",
+        description:
+          "Search Google Maps, qualify the results and save new leads " +
+          "with the email contacts found on their websites. " +
+          "Sends progress notifications for each pipeline stage.",
+        inputSchema: SearchCriteriaSchema.shape,
+      },
+      async (criteria, extra) => {
+        const result = await this.discoverLeads(
+          criteria,
+          this.createProgressReporter(extra)
+        );
+        return jsonResult(result);
+      }
+    );
+
+    this.server.registerTool(
+      "search_businesses",
+      {
+        title: "Search businesses",
+        description:
+          "Search Google Maps and return normalized businesses without saving them.",
+        inputSchema: DiscoveryQuerySchema.shape,
+      },
+      async (query) => {
+        const businesses = await this.discover(DiscoveryQuerySchema.parse(query));
+        return jsonResult({ count: businesses.length, businesses });
+      }
+    );
+
+    this.server.registerTool(
+      "sweep_area",
+      {
+        title: "Sweep area",
+        description:
+          "Search Google Maps across a grid of sub-areas, splitting only where results " +
+          "are truncated, and return the merged businesses with per-tile coverage.",
+        inputSchema: SearchCriteriaSchema.shape,
+      },
+      async (criteria) => {
+        const { businesses, ...coverage } = await this.sweep(SearchCriteriaSchema.parse(criteria));
+        return jsonResult({ count: businesses.length, ...coverage, businesses });
+      }
+    );
+
+    this.server.registerTool(
+      "import_leads",
+      {
+        title: "Import leads",
+        description:
+          "Import businesses from a CSV list, GeoJSON or OpenStreetMap extract, qualify them " +
+          "and save new leads, recording the file as their source. Files are read from the " +
+          "server's import directory.",
+        inputSchema: ImportLeadsInputSchema.shape,
+      },
+      async (input, extra) => {
+        const { leads, skipped, ...result } = await this.importLeads(
+          ImportLeadsInputSchema.parse(input),
+          this.createProgressReporter(extra)
+        );
+        return jsonResult({
+          ...result,
+          skippedCount: skipped.length,
+          skipped: skipped.slice(0, 50),
+          leads,
+        });
+      }
+    );
+
+    this.server.registerTool(
+      "qualify_business",
+      {
+        title: "Qualify business",
+        description:
+          "Score a business against the qualification rules and explain the result.",
+        inputSchema: QualifyBusinessInputSchema.shape,
+      },
+      async (input) => {
+        const { techStack, ...business } = QualifyBusinessInputSchema.parse(input);
+        return jsonResult(this.qualifier.qualifyProspect(business, techStack));
+      }
+    );
+
+    if (this.repository) {
+      this.server.registerTool(
+        "enrich_contacts",
+        {
+          title: "Enrich contacts",
+          description:
+            "Crawl saved leads' websites for email contacts, verify them by MX lookup " +
+            "and save them on the leads. Campaigns only email verified contacts.",
+          inputSchema: EnrichContactsInputSchema,
+        },
+        async ({ leadIds }) => {
+          const { leads, ...result } = await this.enrichContacts(leadIds);
+          return jsonResult({
+            ...result,
+            leads: leads.map((lead) => ({
+              id: lead.id,
+              businessName: lead.businessName,
+              websiteUrl: lead.websiteUrl,
+              contacts: lead.contacts,
+            })),
+          });
+        }
+      );
+    }
+
+    if (this.jobs) {
+      this.registerJobTools(this.jobs);
+    }
+  }
+
+  /**
+   * Tools for discovery jobs, which run in the background and are
+   * polled rather than awaited
+   */
+  private registerJobTools(jobs: DiscoveryJobRunner): void {
+    this.server.registerTool(
+      "start_discovery_job",
+      {
+        title: "Start discovery job",
+        description:
+          "Start discovering leads in the background. Returns the discovery session " +
+          "straight away; poll get_discovery_job for its progress.",
+        inputSchema: StartDiscoveryJobInputSchema.shape,
+      },
+      async (input) => {
+        return jsonResult(await jobs.start(StartDiscoveryJobInputSchema.parse(input)));
+      }
+    );
+
+    this.server.registerTool(
+      "get_discovery_job",
+      {
+        title: "Get discovery job",
+        description: "Get a discovery session's status, progress and stats.",
+        inputSchema: DiscoveryJobIdInputSchema,
+      },
+      async ({ id }) => {
+        const job = await jobs.get(id);
+        return jsonResult(job ?? { error: `Discovery session not found: ${id}` });
+      }
+    );
+
+    this.server.registerTool(
+      "list_discovery_sessions",
+      {
+        title: "List discovery sessions",
+        description:
+          "List recorded discovery sessions, newest first: discover_leads runs and discovery jobs.",
+        inputSchema: {
+          status: DiscoveryJobStatusSchema.optional().describe(
+            "Only return sessions with this status"
+          ),
+          limit: z.number().int().positive().max(200).optional(),
+        },
+      },
+      async ({ status, limit }) => {
+        return jsonResult({
+          sessions: await this.listSessions(status, limit),
+          scraper: this.scraper.getStats(),
+        });
+      }
+    );
+
+    this.server.registerTool(
+      "resume_discovery_job",
+      {
+        title: "Resume discovery job",
+        description:
+          "Resume a failed, cancelled or interrupted discovery session from its last completed batch.",
+        inputSchema: DiscoveryJobIdInputSchema,
+      },
+      async ({ id }) => {
+        return jsonResult(await jobs.resume(id));
+      }
+    );
+
+    this.server.registerTool(
+      "cancel_discovery_job",
+      {
+        title: "Cancel discovery job",
+        description: "Cancel a discovery session; a running one stops after its current batch.",
+        inputSchema: DiscoveryJobIdInputSchema,
+      },
+      async ({ id }) => {
+        return jsonResult(await jobs.cancel(id));
+      }
+    );
   }
+
+  /**
+   * Forward pipeline progress as MCP progress notifications
+   * when the client asked for them
+   */
+  private createProgressReporter(extra: ToolExtra): ProgressCallback | undefined {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return undefined;
+    }
+
+    return (status) => {
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: status.current,
+            total: status.total,
+            message: status.message,
+          },
+        })
+        .catch(() => {
+          // Progress is best-effort - never fail the discovery over it
+        });
+    };
+  }
+}
+
+/**
+ * Importer for the format of an import_leads call
+ */
+function createImporter(input: ImportLeadsInput): LeadImporter {
+  switch (input.format) {
+    case "csv":
+      return new CsvImporter({
+        ...(input.columns && { columns: input.columns }),
+        ...(input.delimiter && { delimiter: input.delimiter }),
+        ...(input.defaultCategory && { defaultCategory: input.defaultCategory }),
+      });
+    case "geojson":
+      return new GeoJsonImporter({
+        ...(input.defaultCategory && { defaultCategory: input.defaultCategory }),
+      });
+    case "osm":
+      return new OsmImporter({ ...(input.tags && { tags: input.tags }) });
+  }
+}
+
+/**
+ * Wrap a value as a JSON text tool result
+ */
+function jsonResult(value: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(value, null, 2) }],
+  };
 }
@@ -0,0 +1,372 @@
+import type { Page } from "puppeteer";
+
+import { DataExtractor } from "./data-extractor.js";
+import type { ResilientMapsScraper } from "./resilient-scraper.js";
+import {
+  type DiscoveredBusiness,
+  type RawBusinessEntity,
+  type ScraperResult,
+  type SearchCriteria,
+  type SweepPlannerConfig,
+  SweepPlannerConfigSchema,
+} from "./types.js";
+
+/**
+ * Latitude/longitude rectangle
+ */
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * One sub-area of a sweep
+ */
+export interface SweepTile {
+  /** "seed" for the whole-area search, then "2", "2.0", "2.0.3", ... */
+  id: string;
+  /** 0 for the seed search and the first grid, +1 per split */
+  depth: number;
+  bounds: GeoBounds;
+  criteria: SearchCriteria;
+}
+
+/**
+ * Coverage of one tile search
+ */
+export interface TileCoverage {
+  id: string;
+  depth: number;
+  bounds: GeoBounds;
+  zoom: number | undefined;
+  status: "searched" | "failed" | "skipped";
+  /** Businesses the search returned */
+  found: number;
+  /** Of those, businesses located inside the tile */
+  inBounds: number;
+  /** Businesses no earlier tile returned */
+  newBusinesses: number;
+  /** Whether the search hit the saturation threshold */
+  saturated: boolean;
+  /** Whether the tile was split into quarters because of it */
+  subdivided: boolean;
+  error?: string;
+}
+
+/**
+ * Result of a sweep
+ */
+export interface SweepResult {
+  /** Businesses of all tiles, extracted and deduplicated */
+  businesses: DiscoveredBusiness[];
+  /** Area swept; null when the seed results had no coordinates */
+  bounds: GeoBounds | null;
+  /** Coverage of every tile, in search order */
+  tiles: TileCoverage[];
+  /** Searches run, the seed search included */
+  searches: number;
+  /** Businesses returned across all searches, before deduplication */
+  totalFound: number;
+  /** Tiles still saturated when maxDepth or maxTiles stopped the split */
+  saturatedLeaves: number;
+  errors: Array<{ tileId: string; error: string }>;
+  durationMs: number;
+}
+
+/**
+ * Sweep progress callback: tiles searched so far and tiles planned
+ */
+export type SweepProgressCallback = (searched: number, planned: number, tile: SweepTile) => void;
+
+/**
+ * Miles per degree of latitude
+ */
+const MILES_PER_DEGREE = 69;
+
+/**
+ * Width in pixels of the map viewport a search sees
+ */
+const VIEWPORT_PX = 1024;
+
+/**
+ * SweepPlanner - Covers an area with tile searches to get past the
+ * Maps result cap
+ *
+ * A Maps search lists at most ~120 places, so a dense area gets cut
+ * off. The planner searches the whole area once, and if that search
+ * saturates, lays a grid over the area (the radius around the results,
+ * or the extent of their coordinates) and searches each tile at a
+ * matching zoom. Tiles that saturate again are split into quarters,
+ * so only dense neighbourhoods get searched finely.
+ */
+export class SweepPlanner {
+  private readonly scraper: ResilientMapsScraper;
+  private readonly config: SweepPlannerConfig;
+
+  constructor(scraper: ResilientMapsScraper, config: Partial<SweepPlannerConfig> = {}) {
+    this.scraper = scraper;
+    this.config = SweepPlannerConfigSchema.parse(config);
+  }
+
+  /**
+   * Sweep the area of the criteria
+   */
+  async sweep(
+    page: Page,
+    criteria: SearchCriteria,
+    onProgress?: SweepProgressCallback
+  ): Promise<SweepResult> {
+    const startTime = Date.now();
+    const seen = new Set<string>();
+    const raw: RawBusinessEntity[] = [];
+    const tiles: TileCoverage[] = [];
+    const errors: SweepResult["errors"] = [];
+    let totalFound = 0;
+    let saturatedLeaves = 0;
+
+    const record = (tile: SweepTile, result: ScraperResult): TileCoverage => {
+      let inBounds = 0;
+      let newBusinesses = 0;
+      for (const business of result.businesses) {
+        if (contains(tile.bounds, business)) inBounds++;
+        if (seen.has(business.placeId)) continue;
+        seen.add(business.placeId);
+        raw.push(business);
+        newBusinesses++;
+      }
+      totalFound += result.businesses.length;
+      for (const error of result.errors) {
+        errors.push({ tileId: tile.id, error });
+      }
+
+      return {
+        id: tile.id,
+        depth: tile.depth,
+        bounds: tile.bounds,
+        zoom: tile.criteria.zoom,
+        status: "searched",
+        found: result.businesses.length,
+        inBounds,
+        newBusinesses,
+        saturated: result.businesses.length >= this.config.saturationThreshold,
+        subdivided: false,
+        ...(result.errors.length > 0 && { error: result.errors.join("; ") }),
+      };
+    };
+
+    // Seed search over the whole area
+    const seedResult = await this.scraper.searchBusinesses(page, criteria);
+    const bounds = this.areaBounds(criteria, seedResult.businesses);
+    const seedTile: SweepTile = {
+      id: "seed",
+      depth: 0,
+      bounds: bounds ?? { north: 0, south: 0, east: 0, west: 0 },
+      criteria,
+    };
+    const seed = record(seedTile, seedResult);
+    tiles.push(seed);
+    onProgress?.(1, 1, seedTile);
+
+    if (seed.saturated && bounds) {
+      seed.subdivided = true;
+      let pending = splitBounds(bounds, this.config.gridSize).map((tileBounds, index) =>
+        this.createTile(String(index), 0, tileBounds, criteria)
+      );
+      let planned = 1 + pending.length;
+      let searched = 1;
+
+      while (pending.length > 0) {
+        const batch = await this.scraper.batchSearch(
+          page,
+          pending.map((tile) => tile.criteria),
+          (completed, _total, current) => {
+            const tile = pending.find((t) => t.criteria === current);
+            if (tile) onProgress?.(searched + completed, planned, tile);
+          }
+        );
+        searched += pending.length;
+
+        // batchSearch keeps successful results in order and reports failures by criteria
+        const failures = new Map(batch.errors.map((e) => [e.criteria, e.error]));
+        const next: SweepTile[] = [];
+        let resultIndex = 0;
+
+        for (const tile of pending) {
+          const failure = failures.get(tile.criteria);
+          const result = failure === undefined ? batch.results[resultIndex++] : undefined;
+
+          if (!result) {
+            const error = failure ?? "Not searched: the batch stopped on an earlier failure";
+            errors.push({ tileId: tile.id, error });
+            tiles.push({
+              id: tile.id,
+              depth: tile.depth,
+              bounds: tile.bounds,
+              zoom: tile.criteria.zoom,
+              status: failure === undefined ? "skipped" : "failed",
+              found: 0,
+              inBounds: 0,
+              newBusinesses: 0,
+              saturated: false,
+              subdivided: false,
+              error,
+            });
+            continue;
+          }
+
+          const coverage = record(tile, result);
+          tiles.push(coverage);
+          if (!coverage.saturated) continue;
+
+          if (tile.depth < this.config.maxDepth && planned + next.length + 4 <= this.config.maxTiles) {
+            coverage.subdivided = true;
+            next.push(
+              ...splitBounds(tile.bounds, 2).map((quarter, index) =>
+                this.createTile(`${tile.id}.${index}`, tile.depth + 1, quarter, criteria)
+              )
+            );
+          } else {
+            saturatedLeaves++;
+          }
+        }
+
+        planned += next.length;
+        pending = next;
+      }
+    } else if (seed.saturated) {
+      saturatedLeaves++;
+      errors.push({ tileId: "seed", error: "Results have no coordinates to plan tiles from" });
+    }
+
+    const { successful } = DataExtractor.extractBatch(raw);
+
+    return {
+      businesses: DataExtractor.deduplicateBusinesses(successful),
+      bounds,
+      tiles,
+      searches: tiles.filter((tile) => tile.status !== "skipped").length,
+      totalFound,
+      saturatedLeaves,
+      errors,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Area to sweep: the radius around the results' median position, or
+   * the padded extent of the results
+   */
+  private areaBounds(criteria: SearchCriteria, businesses: RawBusinessEntity[]): GeoBounds | null {
+    const points = businesses.filter(hasCoordinates);
+    const center = criteria.center ?? medianPoint(points);
+    if (!center) return null;
+
+    if (criteria.radius !== undefined) {
+      const latDelta = criteria.radius / MILES_PER_DEGREE;
+      const lngDelta = criteria.radius / (MILES_PER_DEGREE * Math.cos(toRadians(center.latitude)));
+      return {
+        north: center.latitude + latDelta,
+        south: center.latitude - latDelta,
+        east: center.longitude + lngDelta,
+        west: center.longitude - lngDelta,
+      };
+    }
+
+    if (points.length === 0) return null;
+    const latitudes = points.map((p) => p.latitude);
+    const longitudes = points.map((p) => p.longitude);
+    const north = Math.max(...latitudes);
+    const south = Math.min(...latitudes);
+    const east = Math.max(...longitudes);
+    const west = Math.min(...longitudes);
+    const latPad = (north - south) * this.config.boundsPadding;
+    const lngPad = (east - west) * this.config.boundsPadding;
+
+    return { north: north + latPad, south: south - latPad, east: east + lngPad, west: west - lngPad };
+  }
+
+  private createTile(id: string, depth: number, bounds: GeoBounds, criteria: SearchCriteria): SweepTile {
+    const center = {
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: (bounds.east + bounds.west) / 2,
+    };
+
+    return {
+      id,
+      depth,
+      bounds,
+      criteria: { ...criteria, center, zoom: zoomForBounds(bounds, center.latitude) },
+    };
+  }
+}
+
+/**
+ * Split bounds into a grid of n x n tiles, row by row from the north-west
+ */
+function splitBounds(bounds: GeoBounds, n: number): GeoBounds[] {
+  const latStep = (bounds.north - bounds.south) / n;
+  const lngStep = (bounds.east - bounds.west) / n;
+  const tiles: GeoBounds[] = [];
+
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      tiles.push({
+        north: bounds.north - row * latStep,
+        south: bounds.north - (row + 1) * latStep,
+        west: bounds.west + col * lngStep,
+        east: bounds.west + (col + 1) * lngStep,
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Highest zoom at which the viewport still shows the whole tile width
+ */
+function zoomForBounds(bounds: GeoBounds, latitude: number): number {
+  const widthDegrees = Math.max(bounds.east - bounds.west, 1e-6);
+  // At zoom z the world is 256 * 2^z px wide
+  const zoom = Math.log2((VIEWPORT_PX * 360 * Math.cos(toRadians(latitude))) / (256 * widthDegrees));
+  return Math.min(Math.max(Math.floor(zoom), 3), 21);
+}
+
+function contains(bounds: GeoBounds, business: RawBusinessEntity): boolean {
+  if (!hasCoordinates(business)) return false;
+  return (
+    business.latitude <= bounds.north &&
+    business.latitude >= bounds.south &&
+    business.longitude <= bounds.east &&
+    business.longitude >= bounds.west
+  );
+}
+
+function hasCoordinates(
+  business: RawBusinessEntity
+): business is RawBusinessEntity & { latitude: number; longitude: number } {
+  return business.latitude !== undefined && business.longitude !== undefined;
+}
+
+/**
+ * Median position; robust to a few far-off results
+ */
+function medianPoint(
+  points: Array<{ latitude: number; longitude: number }>
+): { latitude: number; longitude: number } | null {
+  if (points.length === 0) return null;
+  const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)]!;
+  };
+  return {
+    latitude: median(points.map((p) => p.latitude)),
+    longitude: median(points.map((p) => p.longitude)),
+  };
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
@@ -0,0 +1,17 @@
+import { find } from "geo-tz/now";
+
+/**
+ * IANA time zone at a point, e.g. "America/Chicago"
+ *
+ * Looks the point up in the time zone boundaries bundled with geo-tz,
+ * so no network request is made. Boundaries are loaded from disk on
+ * the first lookup. Points at sea get the nautical "Etc/GMT" zones.
+ *
+ * @returns undefined for coordinates out of range
+ */
+export function timezoneAt(latitude: number, longitude: number): string | undefined {
+  if (!(latitude >= -90 && latitude <= 90 && longitude >= -180 && longitude <= 180)) {
+    return undefined;
+  }
+  return find(latitude, longitude)[0];
+}
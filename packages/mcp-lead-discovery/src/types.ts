@@ -1,10 +1,13 @@
 import { z } from "zod";
 
+import { AddressComponentsSchema } from "@the-closer/shared";
+
 /**
  * Query parameters for lead discovery
  */
 export const DiscoveryQuerySchema = z.object({
   query: z.string().min(1).describe("Search query, e.g., 'dentists in Austin'"),
+  location: z.string().optional().describe("Location to search in, e.g., 'Austin, TX'"),
   maxResults: z.number().int().positive().default(50),
   filterRating: z
     .number()
@@ -30,6 +33,8 @@ export const DiscoveredBusinessSchema = z.object({
   placeId: z.string().optional(),
   latitude: z.number().optional(),
   longitude: z.number().optional(),
+  addressComponents: AddressComponentsSchema.optional(),
+  timezone: z.string().optional(),
 });
 
 export type DiscoveredBusiness = z.output<typeof DiscoveredBusinessSchema>;
@@ -40,8 +45,27 @@ export type DiscoveredBusiness = z.output<typeof DiscoveredBusinessSchema>;
 export const SearchCriteriaSchema = z.object({
   query: z.string().min(1).describe("Search query, e.g., 'dentists'"),
   location: z.string().min(1).describe("Location, e.g., 'Austin, TX'"),
-  radius: z.number().int().positive().optional().describe("Search radius in miles"),
+  radius: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Search radius in miles; used by the sweep planner"),
   category: z.string().optional().describe("Business category filter"),
+  center: z
+    .object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+    })
+    .optional()
+    .describe("Search the map around these coordinates instead of by location name"),
+  zoom: z
+    .number()
+    .int()
+    .min(3)
+    .max(21)
+    .optional()
+    .describe("Map zoom level for a search with a center (default: 14)"),
 });
 
 export type SearchCriteria = z.output<typeof SearchCriteriaSchema>;
@@ -95,6 +119,63 @@ export const StealthConfigSchema = z.object({
 
 export type StealthConfig = z.output<typeof StealthConfigSchema>;
 
+/**
+ * Contact extractor configuration
+ */
+export const ContactExtractorConfigSchema = z.object({
+  maxPages: z.number().int().positive().default(4),
+  navigationTimeout: z.number().int().positive().default(20000),
+  verifyMx: z.boolean().default(true),
+  mxLookupTimeout: z.number().int().positive().default(5000),
+});
+
+export type ContactExtractorConfig = z.output<typeof ContactExtractorConfigSchema>;
+
+/**
+ * Geographic sweep planner configuration
+ */
+export const SweepPlannerConfigSchema = z.object({
+  gridSize: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .default(3)
+    .describe("Rows and columns of the first grid over a saturated area"),
+  saturationThreshold: z
+    .number()
+    .int()
+    .positive()
+    .default(100)
+    .describe("Results at which a search is taken as truncated; match the scraper's maxResults"),
+  maxDepth: z
+    .number()
+    .int()
+    .nonnegative()
+    .default(3)
+    .describe("Times a saturated tile may be split into quarters"),
+  maxTiles: z.number().int().positive().default(60).describe("Tile searches per sweep at most"),
+  boundsPadding: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.1)
+    .describe("Share of the seed results' extent added around it when no radius is given"),
+});
+
+export type SweepPlannerConfig = z.output<typeof SweepPlannerConfigSchema>;
+
+/**
+ * Hooks into a running Maps search
+ */
+export interface SearchHooks {
+  /**
+   * Called with the businesses first seen after each scroll (0 for the
+   * initial results) and awaited before the next scroll
+   */
+  onBatch?: (businesses: RawBusinessEntity[], scroll: number) => Promise<void>;
+}
+
 /**
  * Scraper result with statistics
  */
@@ -0,0 +1,183 @@
+import { z } from "zod";
+
+import {
+  type AuditResult,
+  type PerformanceMetrics,
+  AuditResultSchema,
+  ValidationError,
+} from "@the-closer/shared";
+
+import { SupabaseClient } from "./supabase/client.js";
+import { mapSupabaseError } from "./supabase/errors.js";
+
+/**
+ * Audit Repository - Data persistence layer for website audits
+ *
+ * Every audit run is kept in the audits table so outreach can
+ * reference the most recent findings for a lead.
+ */
+export class AuditRepository {
+  private readonly client: SupabaseClient;
+  private readonly tableName = "audits";
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  /**
+   * Transform database row to AuditResult
+   *
+   * The metrics column holds the full metric set; the typed score and
+   * Web Vitals columns fill in for rows written before it existed.
+   */
+  private mapRowToAudit(row: Record<string, unknown>): AuditResult {
+    const metrics = (row["metrics"] as PerformanceMetrics | null) ?? {};
+
+    return {
+      id: row["id"] as string,
+      leadId: row["lead_id"] as string,
+      url: row["url"] as string,
+      auditedAt: row["audited_at"] as string,
+      metrics: {
+        ...metrics,
+        performanceScore: metrics.performanceScore ?? toNumber(row["performance_score"]),
+        accessibilityScore: metrics.accessibilityScore ?? toNumber(row["accessibility_score"]),
+        seoScore: metrics.seoScore ?? toNumber(row["seo_score"]),
+        bestPracticesScore: metrics.bestPracticesScore ?? toNumber(row["best_practices_score"]),
+        firstContentfulPaint:
+          metrics.firstContentfulPaint ?? toNumber(row["first_contentful_paint_ms"]),
+        largestContentfulPaint:
+          metrics.largestContentfulPaint ?? toNumber(row["largest_contentful_paint_ms"]),
+        cumulativeLayoutShift:
+          metrics.cumulativeLayoutShift ?? toNumber(row["cumulative_layout_shift"]),
+        timeToInteractive: metrics.timeToInteractive ?? toNumber(row["time_to_interactive_ms"]),
+        unusedJsPercent: metrics.unusedJsPercent ?? toNumber(row["unused_js_percent"]),
+        unusedCssPercent: metrics.unusedCssPercent ?? toNumber(row["unused_css_percent"]),
+        unusedJsBytes: metrics.unusedJsBytes ?? toNumber(row["unused_js_bytes"]),
+        unusedCssBytes: metrics.unusedCssBytes ?? toNumber(row["unused_css_bytes"]),
+      },
+      wcagViolations: (row["wcag_violations"] as AuditResult["wcagViolations"] | null) ?? [],
+      accessibilityScore: toNumber(row["accessibility_score"]),
+      mobileFriendly: (row["mobile_friendly"] as boolean | null) ?? false,
+      responsiveIssues:
+        (row["responsive_issues"] as AuditResult["responsiveIssues"] | null) ?? [],
+      seoIssues: (row["seo_issues"] as AuditResult["seoIssues"] | null) ?? [],
+      techStack: (row["tech_stack"] as AuditResult["techStack"] | null) ?? undefined,
+      testedViewports:
+        (row["tested_viewports"] as AuditResult["testedViewports"] | null) ?? [],
+      painPoints: (row["pain_points"] as AuditResult["painPoints"] | null) ?? [],
+      crawl: (row["crawl"] as AuditResult["crawl"] | null) ?? undefined,
+      robots: (row["robots"] as AuditResult["robots"] | null) ?? undefined,
+      evidence: (row["evidence_urls"] as AuditResult["evidence"] | null) ?? [],
+      durationMs: (row["duration_ms"] as number | null) ?? undefined,
+      error: (row["error"] as string | null) ?? undefined,
+    };
+  }
+
+  /**
+   * Transform AuditResult to database row format
+   */
+  private mapAuditToRow(audit: AuditResult): Record<string, unknown> {
+    const { metrics } = audit;
+
+    return {
+      id: audit.id,
+      lead_id: audit.leadId,
+      url: audit.url,
+      audited_at: audit.auditedAt,
+      metrics,
+      performance_score: metrics.performanceScore ?? null,
+      accessibility_score: audit.accessibilityScore ?? metrics.accessibilityScore ?? null,
+      seo_score: metrics.seoScore ?? null,
+      best_practices_score: metrics.bestPracticesScore ?? null,
+      first_contentful_paint_ms: toInteger(metrics.firstContentfulPaint),
+      largest_contentful_paint_ms: toInteger(metrics.largestContentfulPaint),
+      cumulative_layout_shift: metrics.cumulativeLayoutShift ?? null,
+      time_to_interactive_ms: toInteger(metrics.timeToInteractive),
+      unused_js_percent: metrics.unusedJsPercent ?? null,
+      unused_css_percent: metrics.unusedCssPercent ?? null,
+      unused_js_bytes: metrics.unusedJsBytes ?? null,
+      unused_css_bytes: metrics.unusedCssBytes ?? null,
+      mobile_friendly: audit.mobileFriendly,
+      wcag_violations: audit.wcagViolations,
+      responsive_issues: audit.responsiveIssues,
+      seo_issues: audit.seoIssues,
+      tech_stack: audit.techStack ?? null,
+      tested_viewports: audit.testedViewports,
+      pain_points: audit.painPoints,
+      crawl: audit.crawl ?? null,
+      robots: audit.robots ?? null,
+      evidence_urls: audit.evidence,
+      duration_ms: audit.durationMs ?? null,
+      error: audit.error ?? null,
+    };
+  }
+
+  // ================================
+  // Operations
+  // ================================
+
+  /**
+   * Store an audit result
+   */
+  async saveAudit(audit: AuditResult): Promise<AuditResult> {
+    const parseResult = AuditResultSchema.safeParse(audit);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid audit data", {
+        context: { issues: parseResult.error.issues },
+      });
+    }
+
+    try {
+      await this.client.insert<Record<string, unknown>>(
+        this.tableName,
+        this.mapAuditToRow(parseResult.data)
+      );
+      return parseResult.data;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  /**
+   * Get the most recent audit for a lead
+   */
+  async getLatestAudit(leadId: string): Promise<AuditResult | null> {
+    const uuidResult = z.string().uuid().safeParse(leadId);
+    if (!uuidResult.success) {
+      throw new ValidationError(`Invalid lead ID format: ${leadId}`);
+    }
+
+    try {
+      const result = await this.client.select<Record<string, unknown>>(
+        this.tableName,
+        {
+          filters: [{ column: "lead_id", operator: "eq", value: leadId }],
+          ordering: [{ column: "audited_at", ascending: false }],
+          pagination: { limit: 1 },
+        }
+      );
+
+      const row = result.data[0];
+      return row ? this.mapRowToAudit(row) : null;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+}
+
+/**
+ * Read a nullable numeric column (DECIMAL columns arrive as strings)
+ */
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Round a millisecond metric for an INTEGER column
+ */
+function toInteger(value: number | undefined): number | null {
+  return value === undefined ? null : Math.round(value);
+}
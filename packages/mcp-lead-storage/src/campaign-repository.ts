@@ -0,0 +1,247 @@
+import { randomUUID } from "node:crypto";
+
+import { z } from "zod";
+
+import {
+  type CampaignConfig,
+  type CampaignStatus,
+  CampaignConfigSchema,
+  ValidationError,
+  NotFoundError,
+} from "@the-closer/shared";
+
+import { SupabaseClient } from "./supabase/client.js";
+import { SupabaseError, mapSupabaseError } from "./supabase/errors.js";
+
+/**
+ * Campaign input for creating new campaigns (without id and timestamps)
+ */
+export type CampaignInput = Omit<CampaignConfig, "id" | "createdAt" | "updatedAt">;
+
+/**
+ * Campaign input schema for validation
+ */
+const CampaignInputSchema = CampaignConfigSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+/**
+ * Schema for partial campaign updates
+ */
+const CampaignUpdateSchema = CampaignConfigSchema.omit({
+  id: true,
+  createdAt: true,
+}).partial();
+
+/**
+ * Campaign Repository - Data persistence layer for email campaigns
+ *
+ * Stores campaign configuration, sequences and denormalized
+ * statistics in the campaigns table.
+ */
+export class CampaignRepository {
+  private readonly client: SupabaseClient;
+  private readonly tableName = "campaigns";
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  /**
+   * Transform database row to CampaignConfig
+   */
+  private mapRowToCampaign(row: Record<string, unknown>): CampaignConfig {
+    return {
+      id: row["id"] as string,
+      name: row["name"] as string,
+      description: (row["description"] as string | null) ?? undefined,
+      leadFilters: (row["lead_filters"] as CampaignConfig["leadFilters"]) ?? {},
+      sequence: (row["sequence"] as CampaignConfig["sequence"]) ?? [],
+      status: (row["status"] as CampaignStatus) ?? "draft",
+      dailySendLimit: (row["daily_send_limit"] as number) ?? 50,
+      timezone: (row["timezone"] as string) ?? "America/New_York",
+      trackOpens: (row["track_opens"] as boolean) ?? true,
+      trackClicks: (row["track_clicks"] as boolean) ?? true,
+      auditThrottlingProfile:
+        (row["audit_throttling_profile"] as CampaignConfig["auditThrottlingProfile"] | null) ??
+        undefined,
+      totalLeads: (row["total_leads"] as number) ?? 0,
+      emailsSent: (row["emails_sent"] as number) ?? 0,
+      emailsOpened: (row["emails_opened"] as number) ?? 0,
+      emailsClicked: (row["emails_clicked"] as number) ?? 0,
+      replies: (row["replies"] as number) ?? 0,
+      booked: (row["booked"] as number) ?? 0,
+      createdAt: row["created_at"] as string,
+      updatedAt: row["updated_at"] as string,
+      scheduledAt: (row["scheduled_at"] as string | null) ?? undefined,
+      startedAt: (row["started_at"] as string | null) ?? undefined,
+      completedAt: (row["completed_at"] as string | null) ?? undefined,
+    };
+  }
+
+  /**
+   * Transform CampaignConfig to database row format
+   */
+  private mapCampaignToRow(
+    campaign: { [K in keyof CampaignConfig]?: CampaignConfig[K] | undefined }
+  ): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+
+    if (campaign.id !== undefined) row["id"] = campaign.id;
+    if (campaign.name !== undefined) row["name"] = campaign.name;
+    if (campaign.description !== undefined) row["description"] = campaign.description;
+    if (campaign.leadFilters !== undefined) row["lead_filters"] = campaign.leadFilters;
+    if (campaign.sequence !== undefined) row["sequence"] = campaign.sequence;
+    if (campaign.status !== undefined) row["status"] = campaign.status;
+    if (campaign.dailySendLimit !== undefined) row["daily_send_limit"] = campaign.dailySendLimit;
+    if (campaign.timezone !== undefined) row["timezone"] = campaign.timezone;
+    if (campaign.trackOpens !== undefined) row["track_opens"] = campaign.trackOpens;
+    if (campaign.trackClicks !== undefined) row["track_clicks"] = campaign.trackClicks;
+    if (campaign.auditThrottlingProfile !== undefined) {
+      row["audit_throttling_profile"] = campaign.auditThrottlingProfile;
+    }
+    if (campaign.totalLeads !== undefined) row["total_leads"] = campaign.totalLeads;
+    if (campaign.emailsSent !== undefined) row["emails_sent"] = campaign.emailsSent;
+    if (campaign.emailsOpened !== undefined) row["emails_opened"] = campaign.emailsOpened;
+    if (campaign.emailsClicked !== undefined) row["emails_clicked"] = campaign.emailsClicked;
+    if (campaign.replies !== undefined) row["replies"] = campaign.replies;
+    if (campaign.booked !== undefined) row["booked"] = campaign.booked;
+    if (campaign.createdAt !== undefined) row["created_at"] = campaign.createdAt;
+    if (campaign.updatedAt !== undefined) row["updated_at"] = campaign.updatedAt;
+    if (campaign.scheduledAt !== undefined) row["scheduled_at"] = campaign.scheduledAt;
+    if (campaign.startedAt !== undefined) row["started_at"] = campaign.startedAt;
+    if (campaign.completedAt !== undefined) row["completed_at"] = campaign.completedAt;
+
+    return row;
+  }
+
+  // ================================
+  // CRUD Operations
+  // ================================
+
+  /**
+   * Create a new campaign
+   */
+  async createCampaign(input: CampaignInput): Promise<CampaignConfig> {
+    const parseResult = CampaignInputSchema.safeParse(input);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid campaign data", {
+        context: { issues: parseResult.error.issues },
+      });
+    }
+
+    const now = new Date().toISOString();
+    const campaign: CampaignConfig = {
+      id: randomUUID(),
+      ...parseResult.data,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      await this.client.insert<Record<string, unknown>>(
+        this.tableName,
+        this.mapCampaignToRow(campaign)
+      );
+      return campaign;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  /**
+   * Get a campaign by ID
+   */
+  async getCampaignById(id: string): Promise<CampaignConfig | null> {
+    const uuidResult = z.string().uuid().safeParse(id);
+    if (!uuidResult.success) {
+      throw new ValidationError(`Invalid campaign ID format: ${id}`);
+    }
+
+    try {
+      const result = await this.client.select<Record<string, unknown>>(
+        this.tableName,
+        {
+          filters: [{ column: "id", operator: "eq", value: id }],
+        }
+      );
+
+      if (result.data.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToCampaign(result.data[0]!);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  /**
+   * Update an existing campaign
+   */
+  async updateCampaign(
+    id: string,
+    updates: Partial<Omit<CampaignConfig, "id" | "createdAt">>
+  ): Promise<CampaignConfig> {
+    const existing = await this.getCampaignById(id);
+    if (!existing) {
+      throw new NotFoundError(`Campaign not found: ${id}`);
+    }
+
+    const parseResult = CampaignUpdateSchema.safeParse(updates);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid campaign update data", {
+        context: { issues: parseResult.error.issues },
+      });
+    }
+
+    try {
+      await this.client.update<Record<string, unknown>>(
+        this.tableName,
+        id,
+        this.mapCampaignToRow({
+          ...parseResult.data,
+          updatedAt: new Date().toISOString(),
+        })
+      );
+
+      const updated = await this.getCampaignById(id);
+      if (!updated) {
+        throw new SupabaseError("Failed to retrieve updated campaign", "QUERY_FAILED");
+      }
+      return updated;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw error;
+      }
+      throw mapSupabaseError(error);
+    }
+  }
+
+  /**
+   * List campaigns, newest first
+   */
+  async listCampaigns(status?: CampaignStatus | CampaignStatus[]): Promise<CampaignConfig[]> {
+    try {
+      const result = await this.client.select<Record<string, unknown>>(
+        this.tableName,
+        {
+          ...(status && {
+            filters: [
+              Array.isArray(status)
+                ? { column: "status", operator: "in" as const, value: status }
+                : { column: "status", operator: "eq" as const, value: status },
+            ],
+          }),
+          ordering: [{ column: "created_at", ascending: false }],
+        }
+      );
+
+      return result.data.map((row) => this.mapRowToCampaign(row));
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+}
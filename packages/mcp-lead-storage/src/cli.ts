@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+
+/**
+ * MCP Lead Storage Server entry point
+ *
+ * Starts the lead storage tools on stdio against the Supabase
+ * project configured in the environment.
+ */
+
+import { getConfig } from "@the-closer/shared";
+
+import { AnalyticsService } from "./analytics.js";
+import { LeadRepository } from "./lead-repository.js";
+import { LeadResolver } from "./lead-resolver.js";
+import { LeadStorageServer } from "./server.js";
+import { StatusTracker } from "./status-tracker.js";
+import { SupabaseClient } from "./supabase/index.js";
+
+async function main(): Promise<void> {
+  const config = getConfig();
+
+  const supabase = new SupabaseClient({
+    supabaseUrl: config.SUPABASE_URL,
+    supabaseAnonKey: config.SUPABASE_ANON_KEY,
+    ...(config.SUPABASE_SERVICE_KEY && {
+      supabaseServiceKey: config.SUPABASE_SERVICE_KEY,
+    }),
+  });
+  await supabase.connect();
+
+  const leadRepository = new LeadRepository(supabase);
+  const server = new LeadStorageServer({
+    leadRepository,
+    statusTracker: new StatusTracker(leadRepository, supabase),
+    analytics: new AnalyticsService(supabase),
+    resolver: new LeadResolver(supabase, leadRepository),
+  });
+
+  const shutdown = async (): Promise<void> => {
+    await server.stop();
+    await supabase.disconnect();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => void shutdown());
+  process.on("SIGTERM", () => void shutdown());
+
+  await server.start();
+}
+
+main().catch((error: unknown) => {
+  console.error("Failed to start lead storage server:", error);
+  process.exit(1);
+});
@@ -0,0 +1,279 @@
+import { randomUUID } from "node:crypto";
+
+import { z } from "zod";
+
+import {
+  type DiscoveryJob,
+  type DiscoveryJobStatus,
+  DiscoveryCheckpointSchema,
+  DiscoveryJobSchema,
+  DiscoveryJobStatsSchema,
+  ValidationError,
+  NotFoundError,
+} from "@the-closer/shared";
+
+import { SupabaseClient } from "./supabase/client.js";
+import { mapSupabaseError } from "./supabase/errors.js";
+
+/**
+ * Search criteria a discovery job is created with
+ */
+export type DiscoveryJobInput = Pick<
+  DiscoveryJob,
+  "query" | "location" | "category" | "radiusMiles" | "maxResults"
+>;
+
+/**
+ * Fields a running discovery job updates
+ */
+export type DiscoveryJobUpdate = Partial<
+  Pick<
+    DiscoveryJob,
+    "status" | "progress" | "checkpoint" | "stats" | "attempts" | "error" | "startedAt" | "completedAt"
+  >
+>;
+
+/**
+ * Discovery job input schema for validation
+ */
+const DiscoveryJobInputSchema = DiscoveryJobSchema.pick({
+  query: true,
+  location: true,
+  category: true,
+  radiusMiles: true,
+  maxResults: true,
+});
+
+/**
+ * Schema for discovery job updates
+ */
+const DiscoveryJobUpdateSchema = DiscoveryJobSchema.pick({
+  status: true,
+  progress: true,
+  checkpoint: true,
+  stats: true,
+  attempts: true,
+  error: true,
+  startedAt: true,
+  completedAt: true,
+}).partial();
+
+/**
+ * Discovery Session Repository - Data persistence layer for discovery jobs
+ *
+ * Each discovery run is a row in discovery_sessions holding its search
+ * criteria, latest progress and the checkpoint it resumes from.
+ */
+export class DiscoverySessionRepository {
+  private readonly client: SupabaseClient;
+  private readonly tableName = "discovery_sessions";
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  /**
+   * Transform database row to DiscoveryJob
+   */
+  private mapRowToJob(row: Record<string, unknown>): DiscoveryJob {
+    const createdAt = row["created_at"] as string;
+
+    return {
+      id: row["id"] as string,
+      query: row["query"] as string,
+      location: readLocation(row["location"]),
+      category: (row["category"] as string | null) ?? undefined,
+      radiusMiles: (row["radius_miles"] as number | null) ?? undefined,
+      maxResults: (row["max_results"] as number | null) ?? undefined,
+      status: (row["status"] as DiscoveryJobStatus | null) ?? "pending",
+      progress: (row["progress"] as DiscoveryJob["progress"] | null) ?? undefined,
+      checkpoint: DiscoveryCheckpointSchema.parse(row["checkpoint"] ?? {}),
+      stats: DiscoveryJobStatsSchema.parse(row["stats"] ?? {}),
+      attempts: (row["attempts"] as number | null) ?? 0,
+      error: (row["error"] as string | null) ?? undefined,
+      createdAt,
+      updatedAt: (row["updated_at"] as string | null) ?? createdAt,
+      startedAt: (row["started_at"] as string | null) ?? undefined,
+      completedAt: (row["completed_at"] as string | null) ?? undefined,
+    };
+  }
+
+  /**
+   * Transform DiscoveryJob to database row format
+   */
+  private mapJobToRow(
+    job: { [K in keyof DiscoveryJob]?: DiscoveryJob[K] | undefined }
+  ): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+
+    if (job.id !== undefined) row["id"] = job.id;
+    if (job.query !== undefined) row["query"] = job.query;
+    if (job.location !== undefined) row["location"] = { text: job.location };
+    if (job.category !== undefined) row["category"] = job.category;
+    if (job.radiusMiles !== undefined) row["radius_miles"] = job.radiusMiles;
+    if (job.maxResults !== undefined) row["max_results"] = job.maxResults;
+    if (job.status !== undefined) row["status"] = job.status;
+    if (job.progress !== undefined) row["progress"] = job.progress;
+    if (job.checkpoint !== undefined) row["checkpoint"] = job.checkpoint;
+    if (job.stats !== undefined) {
+      row["stats"] = job.stats;
+      // Kept for the dashboard stats and retention queries
+      row["total_found"] = job.stats.found;
+      row["total_processed"] = job.stats.extracted;
+    }
+    if (job.attempts !== undefined) row["attempts"] = job.attempts;
+    if (job.error !== undefined) row["error"] = job.error;
+    if (job.createdAt !== undefined) row["created_at"] = job.createdAt;
+    if (job.updatedAt !== undefined) row["updated_at"] = job.updatedAt;
+    if (job.startedAt !== undefined) row["started_at"] = job.startedAt;
+    if (job.completedAt !== undefined) row["completed_at"] = job.completedAt;
+
+    return row;
+  }
+
+  // ================================
+  // Operations
+  // ================================
+
+  /**
+   * Create a pending discovery job
+   */
+  async createSession(input: DiscoveryJobInput): Promise<DiscoveryJob> {
+    const parseResult = DiscoveryJobInputSchema.safeParse(input);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid discovery session data", {
+        context: { issues: parseResult.error.issues },
+      });
+    }
+
+    const now = new Date().toISOString();
+    const job = DiscoveryJobSchema.parse({
+      id: randomUUID(),
+      ...parseResult.data,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    try {
+      await this.client.insert<Record<string, unknown>>(this.tableName, this.mapJobToRow(job));
+      return job;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  /**
+   * Get a discovery job by ID
+   */
+  async getSessionById(id: string): Promise<DiscoveryJob | null> {
+    const uuidResult = z.string().uuid().safeParse(id);
+    if (!uuidResult.success) {
+      throw new ValidationError(`Invalid discovery session ID format: ${id}`);
+    }
+
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.tableName, {
+        filters: [{ column: "id", operator: "eq", value: id }],
+      });
+
+      const row = result.data[0];
+      return row ? this.mapRowToJob(row) : null;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  /**
+   * Update a discovery job's status, progress or checkpoint
+   */
+  async updateSession(id: string, updates: DiscoveryJobUpdate): Promise<DiscoveryJob> {
+    const parseResult = DiscoveryJobUpdateSchema.safeParse(updates);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid discovery session update data", {
+        context: { issues: parseResult.error.issues },
+      });
+    }
+
+    try {
+      const row = await this.client.update<Record<string, unknown>>(
+        this.tableName,
+        id,
+        this.mapJobToRow({ ...parseResult.data, updatedAt: new Date().toISOString() })
+      );
+      if (!row) {
+        throw new NotFoundError(`Discovery session not found: ${id}`, {
+          resourceType: "discovery_session",
+          resourceId: id,
+        });
+      }
+      return this.mapRowToJob(row);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      throw mapSupabaseError(error);
+    }
+  }
+
+  /**
+   * List discovery jobs, newest first
+   */
+  async listSessions(
+    status?: DiscoveryJobStatus | DiscoveryJobStatus[],
+    limit = 50
+  ): Promise<DiscoveryJob[]> {
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.tableName, {
+        ...(status && {
+          filters: [
+            Array.isArray(status)
+              ? { column: "status", operator: "in" as const, value: status }
+              : { column: "status", operator: "eq" as const, value: status },
+          ],
+        }),
+        ordering: [{ column: "created_at", ascending: false }],
+        pagination: { limit },
+      });
+
+      return result.data.map((row) => this.mapRowToJob(row));
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  /**
+   * Pending or running jobs that have not written progress since staleBefore
+   *
+   * These were interrupted, e.g. by a restart of the process running them.
+   */
+  async findInterruptedSessions(staleBefore: string): Promise<DiscoveryJob[]> {
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.tableName, {
+        filters: [
+          { column: "status", operator: "in", value: ["pending", "running"] },
+          { column: "updated_at", operator: "lt", value: staleBefore },
+        ],
+        ordering: [{ column: "created_at", ascending: true }],
+      });
+
+      return result.data.map((row) => this.mapRowToJob(row));
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+}
+
+/**
+ * Read the location column: {"text": ...} for jobs, structured for older rows
+ */
+function readLocation(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === null || typeof value !== "object") return "";
+
+  const location = value as Record<string, unknown>;
+  if (typeof location["text"] === "string") return location["text"];
+  return ["city", "state", "country"]
+    .map((key) => location[key])
+    .filter((part): part is string => typeof part === "string" && part !== "")
+    .join(", ");
+}
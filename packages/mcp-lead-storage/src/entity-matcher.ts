@@ -0,0 +1,541 @@
+import { z } from "zod";
+
+import type { AddressComponents } from "@the-closer/shared";
+
+/**
+ * Business fields the matcher compares
+ */
+export interface MatchableBusiness {
+  businessName: string;
+  websiteUrl?: string | undefined;
+  phoneNumber?: string | undefined;
+  address?: string | undefined;
+  /** Preferred over parsing the address text */
+  addressComponents?: AddressComponents | undefined;
+  placeId?: string | undefined;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+}
+
+/**
+ * How one identifier compares between two businesses
+ */
+export type SignalOutcome = "match" | "conflict" | "missing";
+
+/**
+ * What the confidence of a match is based on
+ */
+export interface MatchSignals {
+  /** Same Maps place ID (or import ID from the same kind of source) */
+  placeId: SignalOutcome;
+  /** 0-1, after dropping legal suffixes and filler words */
+  nameSimilarity: number;
+  /** Same registrable domain (or page, on shared hosts) */
+  domain: SignalOutcome;
+  /** Same last 10 phone digits */
+  phone: SignalOutcome;
+  /** Same street line */
+  address: SignalOutcome;
+  postalCode: SignalOutcome;
+  /** Null unless both have coordinates */
+  distanceMeters: number | null;
+}
+
+/**
+ * What to do with a scored pair
+ */
+export type MatchDecision = "merge" | "review" | "distinct";
+
+/**
+ * Scored comparison of two businesses
+ */
+export interface MatchScore {
+  /** 0-1 */
+  confidence: number;
+  decision: MatchDecision;
+  signals: MatchSignals;
+  /** Human-readable signals, strongest first */
+  reasons: string[];
+}
+
+/**
+ * Entity matcher configuration
+ */
+export const EntityMatcherConfigSchema = z.object({
+  autoMergeThreshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.9)
+    .describe("Confidence at or above which leads are merged without review"),
+  reviewThreshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.5)
+    .describe("Confidence at or above which a match is queued for review"),
+  nearMeters: z.number().positive().default(150).describe("Distance that counts as the same place"),
+  farMeters: z
+    .number()
+    .positive()
+    .default(2000)
+    .describe("Distance that counts as different locations, e.g. two branches of a chain"),
+  maxBlockSize: z
+    .number()
+    .int()
+    .positive()
+    .default(200)
+    .describe("Blocks larger than this are skipped when scanning, as the key is too common"),
+});
+
+export type EntityMatcherConfig = z.output<typeof EntityMatcherConfigSchema>;
+
+/**
+ * Confidence added or removed per signal. Names carry half of the
+ * weight: an identical name alone is only worth a review, and merges
+ * without one when the phone and street address (or website) match too.
+ */
+const WEIGHTS = {
+  // Different place IDs are not held against a pair: Maps has
+  // duplicate listings of the same business
+  placeMatch: 0.5,
+  name: 0.5,
+  domainMatch: 0.3,
+  domainConflict: -0.2,
+  phoneMatch: 0.25,
+  // Businesses often list more than one number
+  phoneConflict: -0.1,
+  locationMatch: 0.15,
+  postalMatch: 0.05,
+  postalConflict: -0.15,
+  far: -0.3,
+} as const;
+
+/**
+ * Hosts many businesses share; the page, not the domain, identifies
+ * the business there
+ */
+const SHARED_HOSTS = new Set([
+  "facebook.com",
+  "instagram.com",
+  "linkedin.com",
+  "twitter.com",
+  "x.com",
+  "yelp.com",
+  "google.com",
+  "goo.gl",
+  "linktr.ee",
+  "business.site",
+  "wixsite.com",
+  "square.site",
+  "squarespace.com",
+  "wordpress.com",
+  "blogspot.com",
+  "godaddysites.com",
+  "weebly.com",
+  "yolasite.com",
+  "carrd.co",
+]);
+
+/**
+ * Second-level labels under country TLDs that are public suffixes
+ * (example.co.uk, example.com.au)
+ */
+const SECOND_LEVEL_SUFFIXES = new Set(["co", "com", "net", "org", "gov", "edu", "ac", "ltd", "plc"]);
+
+/**
+ * Words that do not tell businesses apart
+ */
+const NAME_STOPWORDS = new Set([
+  "the",
+  "and",
+  "of",
+  "llc",
+  "inc",
+  "incorporated",
+  "co",
+  "corp",
+  "corporation",
+  "company",
+  "ltd",
+  "limited",
+  "pllc",
+  "pc",
+  "pa",
+  "lp",
+  "llp",
+  "dds",
+  "dmd",
+  "md",
+]);
+
+/**
+ * EntityMatcher - Scores whether two leads are the same business
+ *
+ * Compares place IDs, registrable domains, normalized phone numbers,
+ * fuzzy names, street addresses and, when both have coordinates,
+ * distance. Also
+ * produces the blocking keys that keep a scan from comparing every
+ * pair of leads.
+ */
+export class EntityMatcher {
+  private readonly config: EntityMatcherConfig;
+
+  constructor(config: Partial<EntityMatcherConfig> = {}) {
+    this.config = EntityMatcherConfigSchema.parse(config);
+  }
+
+  get settings(): EntityMatcherConfig {
+    return this.config;
+  }
+
+  /**
+   * Score a pair of businesses
+   */
+  score(a: MatchableBusiness, b: MatchableBusiness): MatchScore {
+    const signals: MatchSignals = {
+      placeId: comparePlaceIds(a.placeId, b.placeId),
+      nameSimilarity: round(nameSimilarity(a.businessName, b.businessName)),
+      domain: compare(siteIdentity(a.websiteUrl), siteIdentity(b.websiteUrl)),
+      phone: compare(normalizePhone(a.phoneNumber), normalizePhone(b.phoneNumber)),
+      address: compare(streetOf(a), streetOf(b)),
+      postalCode: compare(postalCodeOf(a), postalCodeOf(b)),
+      distanceMeters: hasCoordinates(a) && hasCoordinates(b) ? Math.round(distanceMeters(a, b)) : null,
+    };
+
+    const weighted: Array<[number, string]> = [
+      [WEIGHTS.name * signals.nameSimilarity, `Names ${Math.round(signals.nameSimilarity * 100)}% similar`],
+    ];
+
+    if (signals.placeId === "match") {
+      weighted.push([WEIGHTS.placeMatch, "Same place ID"]);
+    }
+
+    if (signals.domain === "match") {
+      weighted.push([WEIGHTS.domainMatch, `Same website ${siteIdentity(a.websiteUrl)}`]);
+    } else if (signals.domain === "conflict") {
+      weighted.push([WEIGHTS.domainConflict, "Different websites"]);
+    }
+
+    if (signals.phone === "match") {
+      weighted.push([WEIGHTS.phoneMatch, "Same phone number"]);
+    } else if (signals.phone === "conflict") {
+      weighted.push([WEIGHTS.phoneConflict, "Different phone numbers"]);
+    }
+
+    const distance = signals.distanceMeters;
+    if (distance !== null && distance <= this.config.nearMeters) {
+      weighted.push([WEIGHTS.locationMatch, `${distance} m apart`]);
+    } else if (distance !== null && distance >= this.config.farMeters) {
+      weighted.push([WEIGHTS.far, `${(distance / 1000).toFixed(1)} km apart`]);
+    } else if (signals.address === "match") {
+      weighted.push([WEIGHTS.locationMatch, "Same street address"]);
+    }
+
+    if (signals.postalCode === "match" && signals.address !== "match") {
+      weighted.push([WEIGHTS.postalMatch, "Same postal code"]);
+    } else if (signals.postalCode === "conflict") {
+      weighted.push([WEIGHTS.postalConflict, "Different postal codes"]);
+    }
+
+    const total = weighted.reduce((sum, [weight]) => sum + weight, 0);
+    const confidence = round(Math.min(Math.max(total, 0), 1));
+
+    return {
+      confidence,
+      decision: this.decide(confidence),
+      signals,
+      reasons: weighted
+        .sort(([x], [y]) => Math.abs(y) - Math.abs(x))
+        .map(([, reason]) => reason),
+    };
+  }
+
+  /**
+   * Keys of the blocks a business falls in; only businesses sharing a
+   * block are compared
+   */
+  blockingKeys(business: MatchableBusiness): string[] {
+    const keys: string[] = [];
+
+    if (business.placeId) keys.push(`place:${business.placeId}`);
+
+    const site = siteIdentity(business.websiteUrl);
+    if (site) keys.push(`site:${site}`);
+
+    const phone = normalizePhone(business.phoneNumber);
+    if (phone) keys.push(`phone:${phone}`);
+
+    const postal = postalCodeOf(business);
+    const token = nameTokens(business.businessName)[0];
+    if (postal && token) keys.push(`name:${postal}:${token}`);
+
+    if (hasCoordinates(business)) {
+      keys.push(...geoCells(business.latitude, business.longitude));
+    }
+
+    return keys;
+  }
+
+  private decide(confidence: number): MatchDecision {
+    if (confidence >= this.config.autoMergeThreshold) return "merge";
+    if (confidence >= this.config.reviewThreshold) return "review";
+    return "distinct";
+  }
+}
+
+// ============================================
+// Normalization
+// ============================================
+
+/**
+ * Registrable domain of a URL ("shop.example.co.uk" -> "example.co.uk"),
+ * or null when it has none
+ */
+export function registrableDomain(url: string | undefined): string | null {
+  const host = hostOf(url);
+  if (!host) return null;
+  if (/^[\d.]+$/.test(host) || !host.includes(".")) return host;
+
+  const labels = host.split(".");
+  const tld = labels[labels.length - 1]!;
+  const second = labels[labels.length - 2]!;
+  const length = tld.length === 2 && SECOND_LEVEL_SUFFIXES.has(second) ? 3 : 2;
+  return labels.slice(-length).join(".");
+}
+
+/**
+ * What identifies a business's website: its registrable domain, or
+ * its host and first path segment on shared hosts
+ * ("facebook.com/smiledental", "smiledental.business.site")
+ */
+export function siteIdentity(url: string | undefined): string | null {
+  const domain = registrableDomain(url);
+  if (!domain || !SHARED_HOSTS.has(domain)) return domain;
+
+  const host = hostOf(url)!;
+  if (host !== domain) return host;
+
+  const segment = new URL(withProtocol(url!)).pathname.split("/").filter(Boolean)[0];
+  return segment ? `${domain}/${segment.toLowerCase()}` : null;
+}
+
+/**
+ * Last 10 digits of a phone number, dropping country codes and
+ * formatting; null when too short to identify a business
+ */
+export function normalizePhone(phone: string | undefined): string | null {
+  const digits = phone?.replace(/\D/g, "") ?? "";
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+/**
+ * Similarity of two business names (0-1)
+ *
+ * The better of Jaro-Winkler over the sorted name tokens and token
+ * overlap, so "Smile Dental" and "Smile Dental of Round Rock" score
+ * high while "Smile Dental" and "Smile Bakery" do not.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const jaro = jaroWinkler([...tokensA].sort().join(" "), [...tokensB].sort().join(" "));
+
+  const setB = new Set(tokensB);
+  const shared = new Set(tokensA.filter((token) => setB.has(token))).size;
+  const containment = shared / Math.min(new Set(tokensA).size, setB.size);
+  const dice = (2 * shared) / (new Set(tokensA).size + setB.size);
+
+  return Math.max(jaro, (containment + dice) / 2);
+}
+
+/**
+ * Lower-case name words without punctuation, legal suffixes or filler
+ */
+export function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token !== "" && !NAME_STOPWORDS.has(token));
+}
+
+/**
+ * US ZIP code of an address (the last one, after any street number)
+ */
+export function postalCode(address: string | undefined): string | null {
+  const matches = address?.match(/\b\d{5}(?=(?:-\d{4})?\b)/g);
+  return matches?.[matches.length - 1] ?? null;
+}
+
+/**
+ * Postal code from the address parts, else from the address text;
+ * ZIP+4 codes are cut to their ZIP
+ */
+export function postalCodeOf(business: MatchableBusiness): string | null {
+  const parsed = business.addressComponents?.postalCode
+    ?.replace(/\s+/g, "")
+    .toUpperCase()
+    .replace(/^(\d{5})-\d{4}$/, "$1");
+  return parsed || postalCode(business.address);
+}
+
+function streetOf(business: MatchableBusiness): string | null {
+  return streetLine(business.addressComponents?.street ?? business.address);
+}
+
+/**
+ * Street line of an address, with common abbreviations expanded
+ */
+function streetLine(address: string | undefined): string | null {
+  const line = address?.split(",")[0]?.toLowerCase().replace(/[.#]/g, "").trim();
+  if (!line || !/^\d/.test(line)) return null;
+
+  return line
+    .replace(/\b(suite|ste|unit|apt)\b.*$/, "")
+    .replace(/\bst\b/g, "street")
+    .replace(/\bave?\b/g, "avenue")
+    .replace(/\brd\b/g, "road")
+    .replace(/\bblvd\b/g, "boulevard")
+    .replace(/\bdr\b/g, "drive")
+    .replace(/\bln\b/g, "lane")
+    .replace(/\bhwy\b/g, "highway")
+    .replace(/\bpkwy\b/g, "parkway")
+    .replace(/\b([nsew])\b/g, (direction: string) => DIRECTIONS[direction] ?? direction)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const DIRECTIONS: Record<string, string> = { n: "north", s: "south", e: "east", w: "west" };
+
+// ============================================
+// Geometry
+// ============================================
+
+function hasCoordinates(
+  business: MatchableBusiness
+): business is MatchableBusiness & { latitude: number; longitude: number } {
+  return business.latitude !== undefined && business.longitude !== undefined;
+}
+
+/**
+ * Great-circle distance in meters
+ */
+export function distanceMeters(
+  a: { latitude?: number | undefined; longitude?: number | undefined },
+  b: { latitude?: number | undefined; longitude?: number | undefined }
+): number {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLat = toRadians((b.latitude ?? 0) - (a.latitude ?? 0));
+  const dLon = toRadians((b.longitude ?? 0) - (a.longitude ?? 0));
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude ?? 0)) * Math.cos(toRadians(b.latitude ?? 0)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Grid cell size for geo blocking, ~550 m of latitude
+ */
+const GEO_CELL_DEGREES = 0.005;
+
+/**
+ * The 2x2 cells nearest a point; points less than a cell apart always
+ * share one
+ */
+function geoCells(latitude: number, longitude: number): string[] {
+  const lat = latitude / GEO_CELL_DEGREES;
+  const lon = longitude / GEO_CELL_DEGREES;
+  const cells: string[] = [];
+  for (const i of [Math.floor(lat - 0.5), Math.floor(lat + 0.5)]) {
+    for (const j of [Math.floor(lon - 0.5), Math.floor(lon + 0.5)]) {
+      cells.push(`geo:${i}:${j}`);
+    }
+  }
+  return cells;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function compare(a: string | null, b: string | null): SignalOutcome {
+  if (a === null || b === null) return "missing";
+  return a === b ? "match" : "conflict";
+}
+
+/**
+ * Place IDs are only comparable within a namespace: Maps IDs have
+ * none, imported ones are prefixed ("csv:", "osm:")
+ */
+function comparePlaceIds(a: string | undefined, b: string | undefined): SignalOutcome {
+  if (!a || !b) return "missing";
+  const namespace = (id: string): string => (/^[a-z]+:/.test(id) ? id.slice(0, id.indexOf(":")) : "maps");
+  if (namespace(a) !== namespace(b)) return "missing";
+  return a === b ? "match" : "conflict";
+}
+
+function hostOf(url: string | undefined): string | null {
+  if (!url?.trim()) return null;
+  try {
+    return new URL(withProtocol(url)).hostname.toLowerCase().replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+function withProtocol(url: string): string {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(url.trim()) ? url.trim() : `https://${url.trim()}`;
+}
+
+/**
+ * Jaro-Winkler string similarity (0-1)
+ */
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0);
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (!matchedB[j] && a[i] === b[j]) {
+        matchedA[i] = true;
+        matchedB[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!matchedA[i]) continue;
+    while (!matchedB[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -30,8 +30,8 @@ export const SIGNED_URL_EXPIRY = 7 * 24 * 60 * 60;
  */
 export const SUPPORTED_FORMATS: Record<EvidenceType, string[]> = {
   screenshot: [".png", ".jpeg", ".jpg", ".webp"],
-  video: [".webm", ".mp4"],
-  report: [".pdf"],
+  video: [".webm", ".mp4", ".gif"],
+  report: [".pdf", ".png"],
 };
 
 /**
@@ -42,6 +42,7 @@ const CONTENT_TYPES: Record<string, string> = {
   ".jpeg": "image/jpeg",
   ".jpg": "image/jpeg",
   ".webp": "image/webp",
+  ".gif": "image/gif",
   ".webm": "video/webm",
   ".mp4": "video/mp4",
   ".pdf": "application/pdf",
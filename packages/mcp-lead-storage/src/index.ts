@@ -9,13 +9,50 @@
 
 export { LeadStorageServer } from "./server.js";
 export { LeadRepository } from "./lead-repository.js";
+export { CampaignRepository } from "./campaign-repository.js";
+export type { CampaignInput } from "./campaign-repository.js";
+export { AuditRepository } from "./audit-repository.js";
+export { DiscoverySessionRepository } from "./discovery-session-repository.js";
+export type { DiscoveryJobInput, DiscoveryJobUpdate } from "./discovery-session-repository.js";
+export { LeadResolver } from "./lead-resolver.js";
+export {
+  EntityMatcher,
+  EntityMatcherConfigSchema,
+  registrableDomain,
+  siteIdentity,
+  normalizePhone,
+  nameSimilarity,
+  distanceMeters,
+} from "./entity-matcher.js";
 export {
   StatusTracker,
   isValidTransition,
   getAllowedTransitions,
   isTerminalStatus,
 } from "./status-tracker.js";
-export type { LeadQuery, LeadUpdateInput } from "./types.js";
+export type { LeadStorageServerDependencies } from "./server.js";
+export type {
+  LeadQuery,
+  LeadUpdateInput,
+  LeadStatusUpdateInput,
+  BatchStatusUpdateInput,
+  StaleLeadsQuery,
+  AnalyticsRangeInput,
+  MergeLeadsInput,
+  MatchReviewQuery,
+  ResolveMatchReviewInput,
+} from "./types.js";
+export {
+  LeadQuerySchema,
+  LeadUpdateInputSchema,
+  LeadStatusUpdateInputSchema,
+  BatchStatusUpdateInputSchema,
+  StaleLeadsQuerySchema,
+  AnalyticsRangeInputSchema,
+  MergeLeadsInputSchema,
+  MatchReviewQuerySchema,
+  ResolveMatchReviewInputSchema,
+} from "./types.js";
 
 // Evidence storage
 export {
@@ -62,8 +99,31 @@ export type {
   PaginatedResult,
   BatchUpdateItem,
   LeadInput,
+  MatchCandidateKeys,
 } from "./lead-repository.js";
 
+// Entity resolution types
+export type {
+  MatchableBusiness,
+  SignalOutcome,
+  MatchSignals,
+  MatchDecision,
+  MatchScore,
+  EntityMatcherConfig,
+} from "./entity-matcher.js";
+export type {
+  MatchReviewStatus,
+  MatchReview,
+  MatchReviewEntry,
+  LeadMatch,
+  MergeOptions,
+  LeadMergeResult,
+  LeadResolutionResult,
+  DuplicateScanResult,
+  ReviewDecision,
+  ReviewResolution,
+} from "./lead-resolver.js";
+
 // Status tracker types
 export type {
   StatusHistoryEntry,
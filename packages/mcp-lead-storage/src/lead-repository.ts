@@ -6,6 +6,7 @@ import {
   type LeadProfile,
   LeadProfileSchema,
   type ContactStatus,
+  type LeadSource,
   ValidationError,
   NotFoundError,
 } from "@the-closer/shared";
@@ -25,11 +26,13 @@ export interface LeadFilters {
   maxPerformanceScore?: number;
   categories?: string[];
   sourceQuery?: string;
+  source?: LeadSource | LeadSource[];
   hasWebsite?: boolean;
   hasPhone?: boolean;
   mobileFriendly?: boolean;
   discoveredAfter?: string;
   discoveredBefore?: string;
+  discoverySessionId?: string;
 }
 
 /**
@@ -68,6 +71,26 @@ export interface BatchUpdateItem {
   data: Partial<Omit<LeadProfile, "id" | "discoveredAt">>;
 }
 
+/**
+ * Keys a lead may share with the same business saved under another lead
+ */
+export interface MatchCandidateKeys {
+  /** Website host without www. */
+  websiteHost?: string;
+  /** Registrable domain, to also find leads on its subdomains */
+  domain?: string;
+  /** Last 10 digits of the phone number */
+  phoneDigits?: string;
+  /** Postal code and name word, matched together */
+  postalCode?: string;
+  nameToken?: string;
+  placeId?: string;
+  /** Leads within a radius of a point */
+  near?: { latitude: number; longitude: number; radiusMeters: number };
+  /** Lead to leave out, usually the one being matched */
+  excludeId?: string;
+}
+
 /**
  * Lead input for creating new leads (without id and timestamps)
  */
@@ -117,6 +140,12 @@ export class LeadRepository {
       rating: row["rating"] as number | undefined,
       reviewCount: row["review_count"] as number | undefined,
       businessCategory: row["business_category"] as string | undefined,
+      placeId: (row["place_id"] as string | null) ?? undefined,
+      latitude: (row["latitude"] as number | null) ?? undefined,
+      longitude: (row["longitude"] as number | null) ?? undefined,
+      addressComponents: readAddressComponents(row),
+      timezone: (row["timezone"] as string | null) ?? undefined,
+      contacts: (row["contacts"] as LeadProfile["contacts"]) ?? [],
       painPoints: (row["pain_points"] as LeadProfile["painPoints"]) ?? [],
       performanceScore: row["performance_score"] as number | undefined,
       accessibilityScore: row["accessibility_score"] as number | undefined,
@@ -129,6 +158,8 @@ export class LeadRepository {
       discoveredAt: row["discovered_at"] as string,
       updatedAt: row["updated_at"] as string,
       sourceQuery: row["source_query"] as string | undefined,
+      source: (row["source"] as LeadSource | null) ?? undefined,
+      discoverySessionId: (row["discovery_session_id"] as string | null) ?? undefined,
     };
   }
 
@@ -146,6 +177,18 @@ export class LeadRepository {
     if (lead.rating !== undefined) row["rating"] = lead.rating;
     if (lead.reviewCount !== undefined) row["review_count"] = lead.reviewCount;
     if (lead.businessCategory !== undefined) row["business_category"] = lead.businessCategory;
+    if (lead.placeId !== undefined) row["place_id"] = lead.placeId;
+    if (lead.latitude !== undefined) row["latitude"] = lead.latitude;
+    if (lead.longitude !== undefined) row["longitude"] = lead.longitude;
+    if (lead.addressComponents !== undefined) {
+      row["address_street"] = lead.addressComponents.street ?? null;
+      row["address_city"] = lead.addressComponents.city ?? null;
+      row["address_region"] = lead.addressComponents.region ?? null;
+      row["address_postal_code"] = lead.addressComponents.postalCode ?? null;
+      row["address_country"] = lead.addressComponents.country ?? null;
+    }
+    if (lead.timezone !== undefined) row["timezone"] = lead.timezone;
+    if (lead.contacts !== undefined) row["contacts"] = lead.contacts;
     if (lead.painPoints !== undefined) row["pain_points"] = lead.painPoints;
     if (lead.performanceScore !== undefined) row["performance_score"] = lead.performanceScore;
     if (lead.accessibilityScore !== undefined) row["accessibility_score"] = lead.accessibilityScore;
@@ -158,6 +201,8 @@ export class LeadRepository {
     if (lead.discoveredAt !== undefined) row["discovered_at"] = lead.discoveredAt;
     if (lead.updatedAt !== undefined) row["updated_at"] = lead.updatedAt;
     if (lead.sourceQuery !== undefined) row["source_query"] = lead.sourceQuery;
+    if (lead.source !== undefined) row["source"] = lead.source;
+    if (lead.discoverySessionId !== undefined) row["discovery_session_id"] = lead.discoverySessionId;
 
     return row;
   }
@@ -212,6 +257,7 @@ export class LeadRepository {
     const lead: LeadProfile = {
       id: randomUUID(),
       ...validInput,
+      contacts: validInput.contacts ?? [],
       painPoints: validInput.painPoints ?? [],
       evidenceUrls: validInput.evidenceUrls ?? [],
       contactStatus: validInput.contactStatus ?? "pending",
@@ -300,6 +346,12 @@ export class LeadRepository {
       if (validUpdates.rating !== undefined) updateData.rating = validUpdates.rating;
       if (validUpdates.reviewCount !== undefined) updateData.reviewCount = validUpdates.reviewCount;
       if (validUpdates.businessCategory !== undefined) updateData.businessCategory = validUpdates.businessCategory;
+      if (validUpdates.placeId !== undefined) updateData.placeId = validUpdates.placeId;
+      if (validUpdates.latitude !== undefined) updateData.latitude = validUpdates.latitude;
+      if (validUpdates.longitude !== undefined) updateData.longitude = validUpdates.longitude;
+      if (validUpdates.addressComponents !== undefined) updateData.addressComponents = validUpdates.addressComponents;
+      if (validUpdates.timezone !== undefined) updateData.timezone = validUpdates.timezone;
+      if (validUpdates.contacts !== undefined) updateData.contacts = validUpdates.contacts;
       if (validUpdates.painPoints !== undefined) updateData.painPoints = validUpdates.painPoints;
       if (validUpdates.performanceScore !== undefined) updateData.performanceScore = validUpdates.performanceScore;
       if (validUpdates.accessibilityScore !== undefined) updateData.accessibilityScore = validUpdates.accessibilityScore;
@@ -441,6 +493,15 @@ export class LeadRepository {
       });
     }
 
+    // Lead source filter
+    if (filters.source) {
+      filterClauses.push(
+        Array.isArray(filters.source)
+          ? { column: "source", operator: "in", value: filters.source }
+          : { column: "source", operator: "eq", value: filters.source }
+      );
+    }
+
     // Date range filters
     if (filters.discoveredAfter) {
       filterClauses.push({
@@ -457,6 +518,15 @@ export class LeadRepository {
       });
     }
 
+    // Discovery run filter
+    if (filters.discoverySessionId) {
+      filterClauses.push({
+        column: "discovery_session_id",
+        operator: "eq",
+        value: filters.discoverySessionId,
+      });
+    }
+
     // Mobile friendly filter
     if (filters.mobileFriendly !== undefined) {
       filterClauses.push({
@@ -593,6 +663,7 @@ export class LeadRepository {
       const lead: LeadProfile = {
         id: randomUUID(),
         ...input,
+        contacts: input.contacts ?? [],
         painPoints: input.painPoints ?? [],
         evidenceUrls: input.evidenceUrls ?? [],
         contactStatus: input.contactStatus ?? "pending",
@@ -745,6 +816,95 @@ export class LeadRepository {
     }
   }
 
+  /**
+   * Find leads that may be the same business, for entity resolution
+   *
+   * Returns leads sharing any of the given keys; scoring them is up to
+   * the caller.
+   */
+  async findMatchCandidates(
+    keys: MatchCandidateKeys,
+    limit = 50
+  ): Promise<LeadProfile[]> {
+    const queries: FilterClause[][] = [];
+
+    if (keys.websiteHost) {
+      queries.push([{ column: "website_host", operator: "eq", value: keys.websiteHost }]);
+    }
+    if (keys.domain) {
+      // Subdomains of the registrable domain (shop.example.com)
+      queries.push([{ column: "website_host", operator: "ilike", value: `%.${keys.domain}` }]);
+    }
+    if (keys.phoneDigits) {
+      queries.push([{ column: "phone_digits", operator: "eq", value: keys.phoneDigits }]);
+    }
+    if (keys.postalCode && keys.nameToken) {
+      queries.push([
+        { column: "address", operator: "ilike", value: `%${keys.postalCode}%` },
+        { column: "business_name", operator: "ilike", value: `%${keys.nameToken}%` },
+      ]);
+    }
+    if (keys.placeId) {
+      queries.push([{ column: "place_id", operator: "eq", value: keys.placeId }]);
+    }
+    if (keys.near) {
+      // Bounding box around the point; callers measure the distance
+      const { latitude, longitude, radiusMeters } = keys.near;
+      const latDelta = radiusMeters / 111_320;
+      const lonDelta = latDelta / Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+      queries.push([
+        { column: "latitude", operator: "gte", value: latitude - latDelta },
+        { column: "latitude", operator: "lte", value: latitude + latDelta },
+        { column: "longitude", operator: "gte", value: longitude - lonDelta },
+        { column: "longitude", operator: "lte", value: longitude + lonDelta },
+      ]);
+    }
+
+    const candidates = new Map<string, LeadProfile>();
+
+    try {
+      for (const filters of queries) {
+        const result = await this.client.select<Record<string, unknown>>(
+          this.tableName,
+          { filters, pagination: { limit } }
+        );
+
+        for (const row of result.data) {
+          const lead = this.mapRowToLead(row);
+          if (lead.id !== keys.excludeId) {
+            candidates.set(lead.id, lead);
+          }
+        }
+      }
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+
+    return [...candidates.values()];
+  }
+
+  /**
+   * Get several leads by ID; missing IDs are left out
+   */
+  async getLeadsByIds(ids: string[]): Promise<LeadProfile[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const result = await this.client.select<Record<string, unknown>>(
+        this.tableName,
+        {
+          filters: [{ column: "id", operator: "in", value: [...new Set(ids)] }],
+        }
+      );
+
+      return result.data.map((row) => this.mapRowToLead(row));
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
   /**
    * Count leads by status
    */
@@ -819,3 +979,24 @@ export class LeadRepository {
     };
   }
 }
+
+/**
+ * Address parts from their columns, or undefined when none are set
+ */
+function readAddressComponents(row: Record<string, unknown>): LeadProfile["addressComponents"] {
+  const columns = {
+    street: row["address_street"],
+    city: row["address_city"],
+    region: row["address_region"],
+    postalCode: row["address_postal_code"],
+    country: row["address_country"],
+  };
+
+  const components: NonNullable<LeadProfile["addressComponents"]> = {};
+  for (const [key, value] of Object.entries(columns)) {
+    if (typeof value === "string" && value !== "") {
+      components[key as keyof typeof columns] = value;
+    }
+  }
+  return Object.keys(components).length > 0 ? components : undefined;
+}
@@ -0,0 +1,761 @@
+import { z } from "zod";
+
+import {
+  type ContactStatus,
+  type LeadProfile,
+  ValidationError,
+  NotFoundError,
+} from "@the-closer/shared";
+
+import {
+  type EntityMatcherConfig,
+  type MatchScore,
+  type MatchSignals,
+  EntityMatcher,
+  nameTokens,
+  normalizePhone,
+  postalCodeOf,
+  registrableDomain,
+  siteIdentity,
+} from "./entity-matcher.js";
+import type {
+  LeadRepository,
+  MatchCandidateKeys,
+  PaginatedResult,
+  PaginationOptions,
+} from "./lead-repository.js";
+import { SupabaseClient } from "./supabase/client.js";
+import { mapSupabaseError } from "./supabase/errors.js";
+
+/**
+ * Review queue status; approved reviews merge their pair and are
+ * deleted with the merged lead
+ */
+export type MatchReviewStatus = "pending" | "rejected";
+
+/**
+ * Possible duplicate waiting for a person to decide
+ */
+export interface MatchReview {
+  id: string;
+  /** The pair, in ID order */
+  leadId: string;
+  candidateLeadId: string;
+  confidence: number;
+  signals: MatchSignals;
+  reasons: string[];
+  status: MatchReviewStatus;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Review with both of its leads
+ */
+export interface MatchReviewEntry {
+  review: MatchReview;
+  lead: LeadProfile | null;
+  candidate: LeadProfile | null;
+}
+
+/**
+ * Saved lead that may be the same business as another
+ */
+export interface LeadMatch {
+  lead: LeadProfile;
+  score: MatchScore;
+}
+
+/**
+ * Merge options
+ */
+export interface MergeOptions {
+  /** Agent or user merging the leads */
+  mergedBy?: string;
+  /** Score the merge was based on, kept in the merge log */
+  score?: Pick<MatchScore, "confidence" | "signals">;
+}
+
+/**
+ * Outcome of merging one lead into another
+ */
+export interface LeadMergeResult {
+  /** The primary lead after the merge */
+  lead: LeadProfile;
+  mergedLeadId: string;
+  /** Rows moved to the primary lead per table */
+  relinked: Record<string, number>;
+}
+
+/**
+ * Outcome of resolving a single lead against the others
+ */
+export interface LeadResolutionResult {
+  merged: LeadMergeResult | null;
+  queued: MatchReview[];
+}
+
+/**
+ * Outcome of scanning all leads for duplicates
+ */
+export interface DuplicateScanResult {
+  leadsScanned: number;
+  pairsCompared: number;
+  /** Blocks skipped for being larger than maxBlockSize */
+  blocksSkipped: number;
+  merged: LeadMergeResult[];
+  queued: number;
+}
+
+/**
+ * Decision on a queued review
+ */
+export type ReviewDecision = "merge" | "reject";
+
+/**
+ * Outcome of resolving a review
+ */
+export interface ReviewResolution {
+  review: MatchReview;
+  merge: LeadMergeResult | null;
+}
+
+/**
+ * Tables whose rows follow a lead into the lead it is merged into
+ */
+const LINKED_TABLES = [
+  "audits",
+  "status_history",
+  "email_events",
+  "email_unsubscribes",
+  "email_queue",
+] as const;
+
+/**
+ * How far along the pipeline each status is; the merged lead keeps the
+ * furthest, so a declined or converted business is not contacted again
+ */
+const STATUS_RANK: Record<ContactStatus, number> = {
+  pending: 0,
+  emailed: 1,
+  called: 2,
+  booked: 3,
+  declined: 4,
+  converted: 5,
+};
+
+/**
+ * LeadResolver - Finds and merges leads that are the same business
+ *
+ * Discovery only deduplicates within one search, so the same business
+ * found by "dentist Austin" and "orthodontist Round Rock" is saved
+ * twice. The resolver scores saved leads with EntityMatcher, merges
+ * confident matches and queues uncertain ones for review. Merging moves
+ * the duplicate's audits, status history, email events and campaign
+ * membership to the primary lead and logs the duplicate in lead_merges.
+ */
+export class LeadResolver {
+  private readonly client: SupabaseClient;
+  private readonly repository: LeadRepository;
+  private readonly matcher: EntityMatcher;
+  private readonly reviewTableName = "lead_match_reviews";
+  private readonly mergeTableName = "lead_merges";
+
+  constructor(
+    client: SupabaseClient,
+    repository: LeadRepository,
+    config: Partial<EntityMatcherConfig> = {}
+  ) {
+    this.client = client;
+    this.repository = repository;
+    this.matcher = new EntityMatcher(config);
+  }
+
+  /**
+   * Saved leads that may be the same business as a lead, best first
+   *
+   * Pairs already rejected in review are left out.
+   */
+  async findMatches(leadId: string): Promise<LeadMatch[]> {
+    const lead = await this.getLeadOrThrow(leadId);
+    const candidates = await this.repository.findMatchCandidates(this.candidateKeys(lead));
+    const rejected = await this.getRejectedPairs(lead.id);
+
+    return candidates
+      .filter((candidate) => !rejected.has(pairKey(lead.id, candidate.id)))
+      .map((candidate) => ({ lead: candidate, score: this.matcher.score(lead, candidate) }))
+      .filter((match) => match.score.decision !== "distinct")
+      .sort((a, b) => b.score.confidence - a.score.confidence);
+  }
+
+  /**
+   * Merge a lead into its best confident match and queue the uncertain
+   * ones for review
+   */
+  async resolveLead(leadId: string, options: { autoMerge?: boolean } = {}): Promise<LeadResolutionResult> {
+    const autoMerge = options.autoMerge ?? true;
+    const matches = await this.findMatches(leadId);
+    const lead = await this.getLeadOrThrow(leadId);
+
+    let merged: LeadMergeResult | null = null;
+    const queued: MatchReview[] = [];
+
+    for (const match of matches) {
+      if (match.score.decision === "merge" && autoMerge && !merged) {
+        const [primary, duplicate] = choosePrimary(lead, match.lead);
+        merged = await this.mergeLeads(primary.id, duplicate.id, {
+          mergedBy: "entity-resolution",
+          score: match.score,
+        });
+        // Further matches are scored against a lead that may be gone
+        break;
+      }
+      queued.push(await this.queueReview(lead.id, match.lead.id, match.score));
+    }
+
+    return { merged, queued };
+  }
+
+  /**
+   * Compare all leads that share a blocking key, merging confident
+   * matches and queueing uncertain ones
+   *
+   * A lead is merged at most once per scan; matches with leads merged
+   * away are left for the next scan, against the primary lead.
+   */
+  async scanForDuplicates(options: { autoMerge?: boolean } = {}): Promise<DuplicateScanResult> {
+    const autoMerge = options.autoMerge ?? true;
+    const leads = await this.getAllLeads();
+    const rejected = await this.getRejectedPairs();
+    const byId = new Map(leads.map((lead) => [lead.id, lead]));
+
+    // Block leads by shared keys
+    const blocks = new Map<string, string[]>();
+    for (const lead of leads) {
+      for (const key of this.matcher.blockingKeys(lead)) {
+        const block = blocks.get(key) ?? [];
+        block.push(lead.id);
+        blocks.set(key, block);
+      }
+    }
+
+    let blocksSkipped = 0;
+    const scored = new Map<string, { a: LeadProfile; b: LeadProfile; score: MatchScore }>();
+
+    for (const ids of blocks.values()) {
+      if (ids.length < 2) continue;
+      if (ids.length > this.matcher.settings.maxBlockSize) {
+        blocksSkipped++;
+        continue;
+      }
+
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          const key = pairKey(ids[i]!, ids[j]!);
+          if (scored.has(key) || rejected.has(key)) continue;
+
+          const a = byId.get(ids[i]!)!;
+          const b = byId.get(ids[j]!)!;
+          scored.set(key, { a, b, score: this.matcher.score(a, b) });
+        }
+      }
+    }
+
+    const merged: LeadMergeResult[] = [];
+    const mergedAway = new Set<string>();
+    let queued = 0;
+
+    const pairs = [...scored.values()]
+      .filter((pair) => pair.score.decision !== "distinct")
+      .sort((x, y) => y.score.confidence - x.score.confidence);
+
+    for (const { a, b, score } of pairs) {
+      if (mergedAway.has(a.id) || mergedAway.has(b.id)) continue;
+
+      if (score.decision === "merge" && autoMerge) {
+        const [primary, duplicate] = choosePrimary(a, b);
+        merged.push(
+          await this.mergeLeads(primary.id, duplicate.id, {
+            mergedBy: "entity-resolution",
+            score,
+          })
+        );
+        mergedAway.add(duplicate.id);
+      } else {
+        await this.queueReview(a.id, b.id, score);
+        queued++;
+      }
+    }
+
+    return {
+      leadsScanned: leads.length,
+      pairsCompared: scored.size,
+      blocksSkipped,
+      merged,
+      queued,
+    };
+  }
+
+  /**
+   * Merge a duplicate lead into a primary lead
+   *
+   * The primary keeps its own values and takes the duplicate's where it
+   * has none; contacts, pain points and evidence are combined and the
+   * furthest pipeline status wins. Linked rows are moved before the
+   * duplicate is deleted, so an interrupted merge can simply be rerun.
+   */
+  async mergeLeads(
+    primaryId: string,
+    duplicateId: string,
+    options: MergeOptions = {}
+  ): Promise<LeadMergeResult> {
+    if (primaryId === duplicateId) {
+      throw new ValidationError("Cannot merge a lead into itself", {
+        context: { leadId: primaryId },
+      });
+    }
+
+    const primary = await this.getLeadOrThrow(primaryId);
+    const duplicate = await this.getLeadOrThrow(duplicateId);
+
+    const relinked = await this.relinkRows(primary.id, duplicate.id);
+
+    const updates = mergeProfiles(primary, duplicate);
+    const lead =
+      Object.keys(updates).length > 0
+        ? await this.repository.updateLead(primary.id, updates)
+        : primary;
+
+    try {
+      await this.client.insert<Record<string, unknown>>(this.mergeTableName, {
+        primary_lead_id: primary.id,
+        merged_lead_id: duplicate.id,
+        merged_lead: duplicate,
+        confidence: options.score?.confidence ?? null,
+        signals: options.score?.signals ?? null,
+        relinked,
+        merged_by: options.mergedBy ?? null,
+        merged_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+
+    await this.repository.deleteLead(duplicate.id);
+
+    return { lead, mergedLeadId: duplicate.id, relinked };
+  }
+
+  // ============================================
+  // Review Queue
+  // ============================================
+
+  /**
+   * List queued reviews with their leads, most confident first
+   */
+  async listReviews(
+    status: MatchReviewStatus = "pending",
+    pagination: PaginationOptions = {}
+  ): Promise<PaginatedResult<MatchReviewEntry>> {
+    const limit = pagination.limit ?? 50;
+    const offset = pagination.offset ?? 0;
+
+    let reviews: MatchReview[];
+    let total: number;
+    try {
+      const result = await this.client.select<Record<string, unknown>>(this.reviewTableName, {
+        filters: [{ column: "status", operator: "eq", value: status }],
+        ordering: [{ column: "confidence", ascending: false }],
+        pagination: { limit, offset },
+        count: "exact",
+      });
+      reviews = result.data.map((row) => this.mapRowToReview(row));
+      total = result.count ?? reviews.length;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+
+    const leads = await this.repository.getLeadsByIds(
+      reviews.flatMap((review) => [review.leadId, review.candidateLeadId])
+    );
+    const byId = new Map(leads.map((lead) => [lead.id, lead]));
+
+    return {
+      items: reviews.map((review) => ({
+        review,
+        lead: byId.get(review.leadId) ?? null,
+        candidate: byId.get(review.candidateLeadId) ?? null,
+      })),
+      total,
+      limit,
+      offset,
+      hasMore: offset + reviews.length < total,
+    };
+  }
+
+  /**
+   * Merge or reject a queued review
+   *
+   * Rejected pairs stay in the queue as rejected so scans skip them.
+   */
+  async resolveReview(
+    reviewId: string,
+    decision: ReviewDecision,
+    resolvedBy?: string
+  ): Promise<ReviewResolution> {
+    const review = await this.getReviewOrThrow(reviewId);
+    if (review.status !== "pending") {
+      throw new ValidationError(`Review already resolved: ${reviewId}`, {
+        context: { reviewId, status: review.status },
+      });
+    }
+
+    if (decision === "reject") {
+      try {
+        const row = await this.client.update<Record<string, unknown>>(this.reviewTableName, reviewId, {
+          status: "rejected",
+          resolved_by: resolvedBy ?? null,
+          resolved_at: new Date().toISOString(),
+        });
+        return { review: this.mapRowToReview(row), merge: null };
+      } catch (error) {
+        throw mapSupabaseError(error);
+      }
+    }
+
+    const [primary, duplicate] = choosePrimary(
+      await this.getLeadOrThrow(review.leadId),
+      await this.getLeadOrThrow(review.candidateLeadId)
+    );
+    const merge = await this.mergeLeads(primary.id, duplicate.id, {
+      ...(resolvedBy !== undefined && { mergedBy: resolvedBy }),
+      score: review,
+    });
+
+    return {
+      review: { ...review, resolvedBy: resolvedBy ?? null, resolvedAt: new Date().toISOString() },
+      merge,
+    };
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  /**
+   * Keys to look up a lead's candidates by
+   */
+  private candidateKeys(lead: LeadProfile): MatchCandidateKeys {
+    const keys: MatchCandidateKeys = { excludeId: lead.id };
+
+    const site = siteIdentity(lead.websiteUrl);
+    const domain = registrableDomain(lead.websiteUrl);
+    // Pages on shared hosts (facebook.com/...) are too broad to look up
+    if (site && !site.includes("/")) {
+      keys.websiteHost = site;
+      if (site === domain) keys.domain = domain;
+    }
+
+    const phone = normalizePhone(lead.phoneNumber);
+    if (phone) keys.phoneDigits = phone;
+
+    const postal = postalCodeOf(lead);
+    const token = nameTokens(lead.businessName)[0];
+    if (postal && token) {
+      keys.postalCode = postal;
+      keys.nameToken = token;
+    }
+
+    if (lead.placeId) keys.placeId = lead.placeId;
+    if (lead.latitude !== undefined && lead.longitude !== undefined) {
+      keys.near = {
+        latitude: lead.latitude,
+        longitude: lead.longitude,
+        radiusMeters: this.matcher.settings.nearMeters,
+      };
+    }
+
+    return keys;
+  }
+
+  /**
+   * Point the duplicate's linked rows at the primary lead
+   */
+  private async relinkRows(primaryId: string, duplicateId: string): Promise<Record<string, number>> {
+    const relinked: Record<string, number> = {};
+    const byDuplicate = [{ column: "lead_id", operator: "eq" as const, value: duplicateId }];
+
+    try {
+      for (const table of LINKED_TABLES) {
+        const rows = await this.client.updateWhere<Record<string, unknown>>(table, byDuplicate, {
+          lead_id: primaryId,
+        });
+        relinked[table] = rows.length;
+      }
+
+      // A lead is in a campaign once; drop the duplicate's rows for
+      // campaigns the primary is already in
+      const primaryCampaigns = await this.client.select<Record<string, unknown>>("campaign_leads", {
+        columns: ["campaign_id"],
+        filters: [{ column: "lead_id", operator: "eq", value: primaryId }],
+      });
+      const campaignIds = primaryCampaigns.data.map((row) => row["campaign_id"] as string);
+      if (campaignIds.length > 0) {
+        await this.client.deleteWhere("campaign_leads", [
+          ...byDuplicate,
+          { column: "campaign_id", operator: "in", value: campaignIds },
+        ]);
+      }
+      const campaignRows = await this.client.updateWhere<Record<string, unknown>>(
+        "campaign_leads",
+        byDuplicate,
+        { lead_id: primaryId }
+      );
+      relinked["campaign_leads"] = campaignRows.length;
+
+      // Leads merged into the duplicate earlier now belong to the primary
+      const merges = await this.client.updateWhere<Record<string, unknown>>(
+        this.mergeTableName,
+        [{ column: "primary_lead_id", operator: "eq", value: duplicateId }],
+        { primary_lead_id: primaryId }
+      );
+      relinked[this.mergeTableName] = merges.length;
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+
+    return relinked;
+  }
+
+  /**
+   * Add a pair to the review queue, or refresh its score
+   */
+  private async queueReview(leadId: string, candidateId: string, score: MatchScore): Promise<MatchReview> {
+    const [first, second] = [leadId, candidateId].sort() as [string, string];
+
+    try {
+      const row = await this.client.upsert<Record<string, unknown>>(
+        this.reviewTableName,
+        {
+          lead_id: first,
+          candidate_lead_id: second,
+          confidence: score.confidence,
+          signals: score.signals,
+          reasons: score.reasons,
+          status: "pending",
+        },
+        ["lead_id", "candidate_lead_id"]
+      );
+      return this.mapRowToReview(row);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+  }
+
+  /**
+   * Pairs rejected in review, for one lead or all leads
+   */
+  private async getRejectedPairs(leadId?: string): Promise<Set<string>> {
+    const rejected = { column: "status", operator: "eq" as const, value: "rejected" };
+    const queries = leadId
+      ? [
+          [rejected, { column: "lead_id", operator: "eq" as const, value: leadId }],
+          [rejected, { column: "candidate_lead_id", operator: "eq" as const, value: leadId }],
+        ]
+      : [[rejected]];
+
+    const pairs = new Set<string>();
+    try {
+      for (const filters of queries) {
+        const result = await this.client.select<Record<string, unknown>>(this.reviewTableName, {
+          columns: ["lead_id", "candidate_lead_id"],
+          filters,
+        });
+        for (const row of result.data) {
+          pairs.add(pairKey(row["lead_id"] as string, row["candidate_lead_id"] as string));
+        }
+      }
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+    return pairs;
+  }
+
+  private async getAllLeads(): Promise<LeadProfile[]> {
+    const leads: LeadProfile[] = [];
+    const limit = 1000;
+
+    for (let offset = 0; ; offset += limit) {
+      const page = await this.repository.searchLeads(
+        {},
+        { limit, offset },
+        { field: "discoveredAt", direction: "asc" }
+      );
+      leads.push(...page.items);
+      if (!page.hasMore) break;
+    }
+
+    return leads;
+  }
+
+  private async getLeadOrThrow(id: string): Promise<LeadProfile> {
+    const lead = await this.repository.getLeadById(id);
+    if (!lead) {
+      throw new NotFoundError(`Lead not found: ${id}`, {
+        resourceType: "lead",
+        resourceId: id,
+      });
+    }
+    return lead;
+  }
+
+  private async getReviewOrThrow(id: string): Promise<MatchReview> {
+    const uuidResult = z.string().uuid().safeParse(id);
+    if (!uuidResult.success) {
+      throw new ValidationError(`Invalid review ID format: ${id}`);
+    }
+
+    let row: Record<string, unknown> | null;
+    try {
+      row = await this.client.getById<Record<string, unknown>>(this.reviewTableName, id);
+    } catch (error) {
+      throw mapSupabaseError(error);
+    }
+
+    if (!row) {
+      throw new NotFoundError(`Match review not found: ${id}`, {
+        resourceType: "match_review",
+        resourceId: id,
+      });
+    }
+    return this.mapRowToReview(row);
+  }
+
+  /**
+   * Transform database row to MatchReview
+   */
+  private mapRowToReview(row: Record<string, unknown>): MatchReview {
+    return {
+      id: row["id"] as string,
+      leadId: row["lead_id"] as string,
+      candidateLeadId: row["candidate_lead_id"] as string,
+      confidence: Number(row["confidence"]),
+      signals: row["signals"] as MatchSignals,
+      reasons: (row["reasons"] as string[] | null) ?? [],
+      status: row["status"] as MatchReviewStatus,
+      resolvedBy: (row["resolved_by"] as string | null) ?? null,
+      resolvedAt: (row["resolved_at"] as string | null) ?? null,
+      createdAt: row["created_at"] as string,
+    };
+  }
+}
+
+/**
+ * Order-independent key of a pair of leads
+ */
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * [primary, duplicate]: the lead further along the pipeline, or the
+ * one discovered first, is kept
+ */
+function choosePrimary(a: LeadProfile, b: LeadProfile): [LeadProfile, LeadProfile] {
+  const rank = STATUS_RANK[a.contactStatus] - STATUS_RANK[b.contactStatus];
+  if (rank !== 0) return rank > 0 ? [a, b] : [b, a];
+  return a.discoveredAt <= b.discoveredAt ? [a, b] : [b, a];
+}
+
+/**
+ * Fields of the primary lead that change when the duplicate is merged in
+ */
+function mergeProfiles(
+  primary: LeadProfile,
+  duplicate: LeadProfile
+): Partial<Omit<LeadProfile, "id" | "discoveredAt">> {
+  const updates: Partial<Omit<LeadProfile, "id" | "discoveredAt">> = {};
+
+  // Fill in what the primary lacks
+  const fillable = [
+    "address",
+    "phoneNumber",
+    "websiteUrl",
+    "businessCategory",
+    "placeId",
+    "addressComponents",
+    "timezone",
+    "performanceScore",
+    "accessibilityScore",
+    "mobileFriendly",
+    "sourceQuery",
+  ] as const;
+  for (const field of fillable) {
+    if (primary[field] === undefined && duplicate[field] !== undefined) {
+      Object.assign(updates, { [field]: duplicate[field] });
+    }
+  }
+
+  if (primary.latitude === undefined && duplicate.latitude !== undefined) {
+    updates.latitude = duplicate.latitude;
+    if (duplicate.longitude !== undefined) updates.longitude = duplicate.longitude;
+  }
+
+  // Ratings come together with the review count they are based on
+  if ((duplicate.reviewCount ?? 0) > (primary.reviewCount ?? 0)) {
+    if (duplicate.rating !== undefined) updates.rating = duplicate.rating;
+    updates.reviewCount = duplicate.reviewCount!;
+  }
+
+  const contacts = new Map(primary.contacts.map((contact) => [contact.address.toLowerCase(), contact]));
+  for (const contact of duplicate.contacts) {
+    const existing = contacts.get(contact.address.toLowerCase());
+    if (!existing || contact.confidence > existing.confidence) {
+      contacts.set(contact.address.toLowerCase(), contact);
+    }
+  }
+  if (duplicate.contacts.length > 0) updates.contacts = [...contacts.values()];
+
+  const painPoints = unionBy(primary.painPoints, duplicate.painPoints, (p) => `${p.type}:${p.value}`);
+  if (painPoints.length > primary.painPoints.length) updates.painPoints = painPoints;
+
+  const evidence = unionBy(primary.evidenceUrls, duplicate.evidenceUrls, (e) => e.url);
+  if (evidence.length > primary.evidenceUrls.length) updates.evidenceUrls = evidence;
+
+  if (STATUS_RANK[duplicate.contactStatus] > STATUS_RANK[primary.contactStatus]) {
+    updates.contactStatus = duplicate.contactStatus;
+  }
+
+  const lastContactedAt = latest(primary.lastContactedAt, duplicate.lastContactedAt);
+  if (lastContactedAt !== primary.lastContactedAt && lastContactedAt !== undefined) {
+    updates.lastContactedAt = lastContactedAt;
+  }
+
+  const followups = [primary.nextFollowupAt, duplicate.nextFollowupAt].filter(
+    (date): date is string => date !== undefined
+  );
+  const nextFollowupAt = followups.sort()[0];
+  if (nextFollowupAt !== undefined && nextFollowupAt !== primary.nextFollowupAt) {
+    updates.nextFollowupAt = nextFollowupAt;
+  }
+
+  // Rerunning an interrupted merge must not append the notes twice
+  if (duplicate.notes && !primary.notes?.includes(duplicate.notes)) {
+    const merged = `Merged from ${duplicate.businessName}: ${duplicate.notes}`;
+    updates.notes = primary.notes ? `${primary.notes}\n\n${merged}` : merged;
+  }
+
+  return updates;
+}
+
+function unionBy<T>(primary: T[], duplicate: T[], key: (item: T) => string): T[] {
+  const seen = new Set(primary.map(key));
+  return [...primary, ...duplicate.filter((item) => !seen.has(key(item)))];
+}
+
+function latest(a: string | undefined, b: string | undefined): string | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return a >= b ? a : b;
+}
@@ -1,46 +1,556 @@
-import type { LeadProfile, CreateLeadInput } from "@the-closer/shared";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
 
-import type { LeadQuery, LeadUpdateInput } from "./types.js";
+import {
+  type LeadProfile,
+  type CreateLeadInput,
+  CreateLeadInputSchema,
+  NotFoundError,
+} from "@the-closer/shared";
+
+import type { AnalyticsService, DateRange } from "./analytics.js";
+import type {
+  LeadInput,
+  LeadRepository,
+  PaginatedResult,
+  SortOptions,
+} from "./lead-repository.js";
+import type { LeadResolver } from "./lead-resolver.js";
+import {
+  type StatusTracker,
+  type StatusUpdateOptions,
+  getAllowedTransitions,
+} from "./status-tracker.js";
+import {
+  type AnalyticsRangeInput,
+  type LeadQuery,
+  type LeadUpdateInput,
+  AnalyticsRangeInputSchema,
+  BatchStatusUpdateInputSchema,
+  LeadQuerySchema,
+  LeadStatusUpdateInputSchema,
+  LeadUpdateInputSchema,
+  MatchReviewQuerySchema,
+  MergeLeadsInputSchema,
+  ResolveMatchReviewInputSchema,
+  StaleLeadsQuerySchema,
+} from "./types.js";
+
+/**
+ * Dependencies for the lead storage server
+ */
+export interface LeadStorageServerDependencies {
+  leadRepository: LeadRepository;
+  statusTracker: StatusTracker;
+  analytics: AnalyticsService;
+  /** Enables duplicate matching, merging and the match review queue */
+  resolver?: LeadResolver;
+}
 
 /**
  * MCP Lead Storage Server
  *
- * Manages lead data in Supabase PostgreSQL.
+ * Manages lead data in Supabase PostgreSQL. Exposes LeadRepository,
+ * StatusTracker and AnalyticsService as MCP tools over stdio so agents
+ * can query leads and move them through the pipeline. Status changes
+ * always go through the tracker's transition rules.
  */
 export class LeadStorageServer {
-  constructor() {
-    // Server initialization will be implemented in Phase 3
+  private readonly server: McpServer;
+  private readonly leadRepository: LeadRepository;
+  private readonly statusTracker: StatusTracker;
+  private readonly analytics: AnalyticsService;
+  private readonly resolver: LeadResolver | null;
+
+  constructor(dependencies: LeadStorageServerDependencies) {
+    this.leadRepository = dependencies.leadRepository;
+    this.statusTracker = dependencies.statusTracker;
+    this.analytics = dependencies.analytics;
+    this.resolver = dependencies.resolver ?? null;
+
+    this.server = new McpServer({
+      name: "mcp-lead-storage",
+      version: "0.1.0",
+    });
+
+    this.registerTools();
   }
 
   /**
-   * Create a new lead
+   * Create a new lead (upserts when the website already exists)
    */
-  async createLead(_input: CreateLeadInput): Promise<LeadProfile> {
-    // Implementation will use Supabase client
-    throw new Error("Not implemented - Phase 3");
+  async createLead(input: CreateLeadInput): Promise<LeadProfile> {
+    return this.leadRepository.saveLead(LeadStorageServer.toLeadInput(input));
   }
 
   /**
    * Query leads
    */
-  async queryLeads(_query: LeadQuery): Promise<LeadProfile[]> {
-    // Implementation will use Supabase client
-    throw new Error("Not implemented - Phase 3");
+  async queryLeads(query: LeadQuery): Promise<PaginatedResult<LeadProfile>> {
+    const sort: SortOptions | undefined = query.orderBy
+      ? { field: query.orderBy, direction: query.orderDirection }
+      : undefined;
+
+    return this.leadRepository.searchLeads(
+      {
+        ...(query.status && { status: query.status }),
+        ...(query.minRating !== undefined && { minRating: query.minRating }),
+        ...(query.maxRating !== undefined && { maxRating: query.maxRating }),
+        ...(query.category && { categories: [query.category] }),
+        ...(query.sourceQuery && { sourceQuery: query.sourceQuery }),
+      },
+      { limit: query.limit, offset: query.offset },
+      sort
+    );
   }
 
   /**
    * Update a lead
+   * Status changes are validated against the pipeline state machine.
    */
-  async updateLead(_input: LeadUpdateInput): Promise<LeadProfile> {
-    // Implementation will use Supabase client
-    throw new Error("Not implemented - Phase 3");
+  async updateLead(input: LeadUpdateInput): Promise<LeadProfile> {
+    let lead: LeadProfile | undefined;
+
+    if (input.contactStatus) {
+      lead = await this.statusTracker.updateLeadStatus(input.id, input.contactStatus, {
+        ...(input.notes !== undefined && { notes: input.notes }),
+      });
+    }
+
+    const updates: Partial<LeadProfile> = {};
+    if (input.notes !== undefined && !input.contactStatus) {
+      updates.notes = input.notes;
+    }
+    if (input.nextFollowupAt !== undefined) {
+      updates.nextFollowupAt = input.nextFollowupAt;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      lead = await this.leadRepository.updateLead(input.id, updates);
+    }
+
+    return lead ?? this.getLeadOrThrow(input.id);
   }
 
   /**
-   * Start the MCP server
+   * Start the MCP server on stdio
    */
   async start(): Promise<void> {
-    // MCP server startup will be implemented
-    throw new Error("Not implemented - Phase 3");
+    const transport = new StdioServerTransport();
+    await this.server.connect(transport);
+  }
+
+  /**
+   * Stop the MCP server
+   */
+  async stop(): Promise<void> {
+    await this.server.close();
+  }
+
+  // ============================================
+  // Tool Registration
+  // ============================================
+
+  private registerTools(): void {
+    this.registerLeadTools();
+    this.registerStatusTools();
+    this.registerAnalyticsTools();
+    if (this.resolver) {
+      this.registerResolutionTools(this.resolver);
+    }
+  }
+
+  private registerLeadTools(): void {
+    this.server.registerTool(
+      "create_lead",
+      {
+        title: "Create lead",
+        description:
+          "Save a lead. If a lead with the same website exists it is updated instead.",
+        inputSchema: CreateLeadInputSchema.shape,
+      },
+      async (input) => jsonResult(await this.createLead(CreateLeadInputSchema.parse(input)))
+    );
+
+    this.server.registerTool(
+      "save_leads_batch",
+      {
+        title: "Save leads in batch",
+        description:
+          "Save several leads at once. Duplicate websites within the batch are " +
+          "skipped and existing leads are updated.",
+        inputSchema: {
+          leads: z.array(CreateLeadInputSchema).min(1).max(500),
+        },
+      },
+      async ({ leads }) => {
+        const saved = await this.leadRepository.saveLeadsBatch(
+          leads.map((lead) => LeadStorageServer.toLeadInput(lead))
+        );
+        return jsonResult({ count: saved.length, leads: saved });
+      }
+    );
+
+    this.server.registerTool(
+      "find_duplicate_lead",
+      {
+        title: "Find duplicate lead",
+        description: "Find an existing lead with the same (normalized) website URL.",
+        inputSchema: {
+          websiteUrl: z.string().url(),
+        },
+      },
+      async ({ websiteUrl }) => {
+        const lead = await this.leadRepository.findDuplicateByWebsite(websiteUrl);
+        return jsonResult({ duplicate: lead !== null, lead });
+      }
+    );
+
+    this.server.registerTool(
+      "get_lead",
+      {
+        title: "Get lead",
+        description: "Get a lead by ID, including the statuses it can move to next.",
+        inputSchema: {
+          id: z.string().uuid(),
+        },
+      },
+      async ({ id }) => {
+        const lead = await this.getLeadOrThrow(id);
+        return jsonResult({
+          lead,
+          allowedTransitions: getAllowedTransitions(lead.contactStatus),
+        });
+      }
+    );
+
+    this.server.registerTool(
+      "query_leads",
+      {
+        title: "Query leads",
+        description: "Search leads by status, rating, category or source query.",
+        inputSchema: LeadQuerySchema.shape,
+      },
+      async (input) => jsonResult(await this.queryLeads(LeadQuerySchema.parse(input)))
+    );
+
+    this.server.registerTool(
+      "update_lead",
+      {
+        title: "Update lead",
+        description:
+          "Update a lead's notes, follow-up date or status. " +
+          "Status changes must follow the pipeline transitions.",
+        inputSchema: LeadUpdateInputSchema.shape,
+      },
+      async (input) => jsonResult(await this.updateLead(input))
+    );
+
+    this.server.registerTool(
+      "get_lead_stats",
+      {
+        title: "Get lead stats",
+        description: "Count leads by status and contact details.",
+        inputSchema: {},
+      },
+      async () => jsonResult(await this.leadRepository.getStats())
+    );
+  }
+
+  private registerStatusTools(): void {
+    this.server.registerTool(
+      "update_lead_status",
+      {
+        title: "Update lead status",
+        description:
+          "Move a lead to a new pipeline status. Invalid transitions are rejected " +
+          "and every change is recorded in the status history.",
+        inputSchema: LeadStatusUpdateInputSchema.shape,
+      },
+      async ({ id, status, ...options }) => {
+        const lead = await this.statusTracker.updateLeadStatus(
+          id,
+          status,
+          LeadStorageServer.toStatusOptions(options)
+        );
+        return jsonResult({
+          lead,
+          allowedTransitions: getAllowedTransitions(lead.contactStatus),
+        });
+      }
+    );
+
+    this.server.registerTool(
+      "update_status_batch",
+      {
+        title: "Update status in batch",
+        description: "Move several leads to the same status, reporting per-lead failures.",
+        inputSchema: BatchStatusUpdateInputSchema.shape,
+      },
+      async ({ ids, status, ...options }) =>
+        jsonResult(
+          await this.statusTracker.updateStatusBatch(
+            ids,
+            status,
+            LeadStorageServer.toStatusOptions(options)
+          )
+        )
+    );
+
+    this.server.registerTool(
+      "get_status_history",
+      {
+        title: "Get status history",
+        description: "List a lead's status changes, newest first.",
+        inputSchema: {
+          leadId: z.string().uuid(),
+        },
+      },
+      async ({ leadId }) => jsonResult(await this.statusTracker.getStatusHistory(leadId))
+    );
+
+    this.server.registerTool(
+      "get_stale_leads",
+      {
+        title: "Get stale leads",
+        description: "Find leads that have sat in a status for longer than the given days.",
+        inputSchema: StaleLeadsQuerySchema.shape,
+      },
+      async (input) => {
+        const { status, olderThanDays } = StaleLeadsQuerySchema.parse(input);
+        const leads = await this.statusTracker.getStaleLeads(status, olderThanDays);
+        return jsonResult({ count: leads.length, leads });
+      }
+    );
+
+    this.server.registerTool(
+      "get_transition_stats",
+      {
+        title: "Get transition stats",
+        description: "Count status transitions, optionally within a date range.",
+        inputSchema: AnalyticsRangeInputSchema.partial().shape,
+      },
+      async ({ startDate, endDate }) =>
+        jsonResult(await this.statusTracker.getTransitionStats(startDate, endDate))
+    );
   }
+
+  private registerAnalyticsTools(): void {
+    this.server.registerTool(
+      "get_conversion_funnel",
+      {
+        title: "Get conversion funnel",
+        description: "Funnel counts and conversion rates for leads discovered in a date range.",
+        inputSchema: AnalyticsRangeInputSchema.shape,
+      },
+      async (input) =>
+        jsonResult(await this.analytics.getConversionFunnel(toDateRange(input)))
+    );
+
+    this.server.registerTool(
+      "get_leads_trend",
+      {
+        title: "Get leads trend",
+        description: "Leads discovered per day, week or month in a date range.",
+        inputSchema: {
+          ...AnalyticsRangeInputSchema.shape,
+          interval: z.enum(["day", "week", "month"]).default("day"),
+        },
+      },
+      async ({ interval, ...range }) =>
+        jsonResult(await this.analytics.getLeadsTrend(toDateRange(range), interval))
+    );
+
+    this.server.registerTool(
+      "get_response_trend",
+      {
+        title: "Get response trend",
+        description: "Opens, clicks and replies over time for a campaign.",
+        inputSchema: {
+          campaignId: z.string().uuid(),
+          interval: z.enum(["day", "week", "month"]).default("day"),
+        },
+      },
+      async ({ campaignId, interval }) =>
+        jsonResult(await this.analytics.getResponseTrend(campaignId, interval))
+    );
+
+    this.server.registerTool(
+      "get_score_distribution",
+      {
+        title: "Get score distribution",
+        description: "Distribution of lead performance scores across quality buckets.",
+        inputSchema: {},
+      },
+      async () => jsonResult(await this.analytics.getQualificationDistribution())
+    );
+
+    this.server.registerTool(
+      "get_top_categories",
+      {
+        title: "Get top categories",
+        description: "Business categories ranked by conversion rate.",
+        inputSchema: {
+          limit: z.number().int().positive().max(100).default(10),
+        },
+      },
+      async ({ limit }) => jsonResult(await this.analytics.getTopPerformingCategories(limit))
+    );
+  }
+
+  /**
+   * Tools for finding and merging leads that are the same business
+   */
+  private registerResolutionTools(resolver: LeadResolver): void {
+    this.server.registerTool(
+      "find_lead_matches",
+      {
+        title: "Find lead matches",
+        description:
+          "Find saved leads that may be the same business as a lead, matched on " +
+          "website domain, phone, name and address, with a confidence score.",
+        inputSchema: {
+          leadId: z.string().uuid(),
+        },
+      },
+      async ({ leadId }) => {
+        const matches = await resolver.findMatches(leadId);
+        return jsonResult({ count: matches.length, matches });
+      }
+    );
+
+    this.server.registerTool(
+      "resolve_lead",
+      {
+        title: "Resolve lead",
+        description:
+          "Merge a lead into its best confident match and queue uncertain matches for review.",
+        inputSchema: {
+          leadId: z.string().uuid(),
+          autoMerge: z.boolean().default(true).describe("Queue confident matches too instead of merging"),
+        },
+      },
+      async ({ leadId, autoMerge }) => jsonResult(await resolver.resolveLead(leadId, { autoMerge }))
+    );
+
+    this.server.registerTool(
+      "scan_duplicate_leads",
+      {
+        title: "Scan for duplicate leads",
+        description:
+          "Compare all leads sharing a domain, phone number, postal code or location; " +
+          "merge confident matches and queue uncertain ones for review.",
+        inputSchema: {
+          autoMerge: z.boolean().default(true).describe("Queue confident matches too instead of merging"),
+        },
+      },
+      async ({ autoMerge }) => jsonResult(await resolver.scanForDuplicates({ autoMerge }))
+    );
+
+    this.server.registerTool(
+      "merge_leads",
+      {
+        title: "Merge leads",
+        description:
+          "Merge a duplicate lead into a primary lead. Audits, status history, email " +
+          "events and campaigns move to the primary; the duplicate is deleted.",
+        inputSchema: MergeLeadsInputSchema.shape,
+      },
+      async ({ primaryId, duplicateId, mergedBy }) =>
+        jsonResult(
+          await resolver.mergeLeads(primaryId, duplicateId, {
+            ...(mergedBy !== undefined && { mergedBy }),
+          })
+        )
+    );
+
+    this.server.registerTool(
+      "list_match_reviews",
+      {
+        title: "List match reviews",
+        description: "List possible duplicate leads waiting for review, most confident first.",
+        inputSchema: MatchReviewQuerySchema.shape,
+      },
+      async (input) => {
+        const { status, limit, offset } = MatchReviewQuerySchema.parse(input);
+        return jsonResult(await resolver.listReviews(status, { limit, offset }));
+      }
+    );
+
+    this.server.registerTool(
+      "resolve_match_review",
+      {
+        title: "Resolve match review",
+        description:
+          "Merge a queued pair of leads, or reject it so it is not suggested again.",
+        inputSchema: ResolveMatchReviewInputSchema.shape,
+      },
+      async ({ reviewId, decision, resolvedBy }) =>
+        jsonResult(await resolver.resolveReview(reviewId, decision, resolvedBy))
+    );
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  private async getLeadOrThrow(id: string): Promise<LeadProfile> {
+    const lead = await this.leadRepository.getLeadById(id);
+    if (!lead) {
+      throw new NotFoundError(`Lead not found: ${id}`, {
+        resourceType: "lead",
+        resourceId: id,
+      });
+    }
+    return lead;
+  }
+
+  /**
+   * Drop unset fields so they match StatusUpdateOptions
+   */
+  private static toStatusOptions(options: {
+    reason?: string | undefined;
+    notes?: string | undefined;
+    changedBy?: string | undefined;
+  }): StatusUpdateOptions {
+    return {
+      ...(options.reason !== undefined && { reason: options.reason }),
+      ...(options.notes !== undefined && { notes: options.notes }),
+      ...(options.changedBy !== undefined && { changedBy: options.changedBy }),
+    };
+  }
+
+  /**
+   * Fill the defaults that CreateLeadInput leaves optional
+   */
+  private static toLeadInput(input: CreateLeadInput): LeadInput {
+    return {
+      ...input,
+      contacts: input.contacts ?? [],
+      painPoints: input.painPoints ?? [],
+      evidenceUrls: input.evidenceUrls ?? [],
+      contactStatus: input.contactStatus ?? "pending",
+    };
+  }
+}
+
+/**
+ * Convert an ISO date range into the analytics DateRange
+ */
+function toDateRange(input: AnalyticsRangeInput): DateRange {
+  return {
+    startDate: new Date(input.startDate),
+    endDate: new Date(input.endDate),
+  };
+}
+
+/**
+ * Wrap a value as a JSON text tool result
+ */
+function jsonResult(value: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(value, null, 2) }],
+  };
 }
@@ -368,6 +368,27 @@ export class SupabaseClient {
     });
   }
 
+  // ============================================
+  // Database Functions
+  // ============================================
+
+  /**
+   * Call a Postgres function, e.g. one that must run in a single transaction
+   */
+  async rpc<T>(fn: string, params: Record<string, unknown> = {}): Promise<T> {
+    this.ensureConnected();
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client!.rpc(fn, params);
+
+      if (error) {
+        throw mapSupabaseError(error);
+      }
+
+      return data as T;
+    });
+  }
+
   // ============================================
   // Storage Operations
   // ============================================
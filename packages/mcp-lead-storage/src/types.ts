@@ -30,3 +30,80 @@ export const LeadUpdateInputSchema = z.object({
 });
 
 export type LeadUpdateInput = z.infer<typeof LeadUpdateInputSchema>;
+
+/**
+ * Lead status transition input
+ */
+export const LeadStatusUpdateInputSchema = z.object({
+  id: z.string().uuid(),
+  status: ContactStatusSchema,
+  reason: z.string().optional().describe("Why the status changed"),
+  notes: z.string().optional(),
+  changedBy: z.string().optional().describe("Agent or user making the change"),
+});
+
+export type LeadStatusUpdateInput = z.infer<typeof LeadStatusUpdateInputSchema>;
+
+/**
+ * Bulk status transition input
+ */
+export const BatchStatusUpdateInputSchema = LeadStatusUpdateInputSchema.omit({
+  id: true,
+}).extend({
+  ids: z.array(z.string().uuid()).min(1).max(500),
+});
+
+export type BatchStatusUpdateInput = z.infer<typeof BatchStatusUpdateInputSchema>;
+
+/**
+ * Stale lead query parameters
+ */
+export const StaleLeadsQuerySchema = z.object({
+  status: ContactStatusSchema,
+  olderThanDays: z.number().int().positive().default(7),
+});
+
+export type StaleLeadsQuery = z.infer<typeof StaleLeadsQuerySchema>;
+
+/**
+ * Date range for analytics queries (ISO strings over the wire)
+ */
+export const AnalyticsRangeInputSchema = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+});
+
+export type AnalyticsRangeInput = z.infer<typeof AnalyticsRangeInputSchema>;
+
+/**
+ * Lead merge input
+ */
+export const MergeLeadsInputSchema = z.object({
+  primaryId: z.string().uuid().describe("Lead to keep"),
+  duplicateId: z.string().uuid().describe("Lead merged into the primary and then deleted"),
+  mergedBy: z.string().optional().describe("Agent or user merging the leads"),
+});
+
+export type MergeLeadsInput = z.infer<typeof MergeLeadsInputSchema>;
+
+/**
+ * Match review queue query parameters
+ */
+export const MatchReviewQuerySchema = z.object({
+  status: z.enum(["pending", "rejected"]).default("pending"),
+  limit: z.number().int().positive().max(200).default(50),
+  offset: z.number().int().nonnegative().default(0),
+});
+
+export type MatchReviewQuery = z.infer<typeof MatchReviewQuerySchema>;
+
+/**
+ * Match review decision input
+ */
+export const ResolveMatchReviewInputSchema = z.object({
+  reviewId: z.string().uuid(),
+  decision: z.enum(["merge", "reject"]).describe("Merge the pair, or mark them as different businesses"),
+  resolvedBy: z.string().optional().describe("Agent or user deciding"),
+});
+
+export type ResolveMatchReviewInput = z.infer<typeof ResolveMatchReviewInputSchema>;
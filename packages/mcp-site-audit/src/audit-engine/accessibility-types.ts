@@ -56,6 +56,8 @@ export interface WCAGRule {
   description: string;
   recommendation: string;
   severity: ViolationSeverity;
+  // Set to false to skip the rule in every scan
+  enabled: boolean;
 }
 
 /**
@@ -142,7 +144,8 @@ export interface AccessibilityReport {
 
 /**
  * WCAG rules database
- * Maps rule IDs to WCAG criteria and metadata
+ * Maps rule IDs to WCAG criteria and metadata. Rules can be turned off
+ * individually through their enabled flag.
  */
 export const WCAG_RULES: Record<string, WCAGRule> = {
   // Level A rules
@@ -153,6 +156,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Images must have alternate text",
     recommendation: "Add an alt attribute describing the image content, or use alt=\"\" for decorative images",
     severity: "critical",
+    enabled: true,
   },
   "button-name": {
     id: "button-name",
@@ -161,6 +165,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Buttons must have discernible text",
     recommendation: "Add visible text content, aria-label, or aria-labelledby to the button",
     severity: "critical",
+    enabled: true,
   },
   "link-name": {
     id: "link-name",
@@ -169,6 +174,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Links must have discernible text",
     recommendation: "Add visible text content, aria-label, or aria-labelledby to the link",
     severity: "serious",
+    enabled: true,
   },
   "input-label": {
     id: "input-label",
@@ -177,6 +183,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Form inputs must have associated labels",
     recommendation: "Add a <label> element with a for attribute matching the input's id, or use aria-label",
     severity: "critical",
+    enabled: true,
   },
   "html-lang": {
     id: "html-lang",
@@ -185,6 +192,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "HTML element must have a valid lang attribute",
     recommendation: "Add a lang attribute to the <html> element with a valid language code (e.g., lang=\"en\")",
     severity: "serious",
+    enabled: true,
   },
   "document-title": {
     id: "document-title",
@@ -193,6 +201,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Document must have a title",
     recommendation: "Add a descriptive <title> element in the document <head>",
     severity: "serious",
+    enabled: true,
   },
   "duplicate-id": {
     id: "duplicate-id",
@@ -201,6 +210,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "ID attribute values must be unique",
     recommendation: "Ensure all id attribute values on the page are unique",
     severity: "serious",
+    enabled: true,
   },
   "aria-valid-attr": {
     id: "aria-valid-attr",
@@ -209,6 +219,34 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "ARIA attributes must be valid",
     recommendation: "Use only valid ARIA attributes as defined in the WAI-ARIA specification",
     severity: "serious",
+    enabled: true,
+  },
+  "aria-valid-attr-value": {
+    id: "aria-valid-attr-value",
+    criterion: "4.1.2",
+    level: "A",
+    description: "ARIA attributes must have valid values",
+    recommendation: "Use allowed values for ARIA attributes and make ID references point to elements on the page",
+    severity: "serious",
+    enabled: true,
+  },
+  "aria-roles": {
+    id: "aria-roles",
+    criterion: "4.1.2",
+    level: "A",
+    description: "ARIA role values must be valid",
+    recommendation: "Use a role defined in the WAI-ARIA specification, or remove the role attribute",
+    severity: "serious",
+    enabled: true,
+  },
+  "aria-required-attr": {
+    id: "aria-required-attr",
+    criterion: "4.1.2",
+    level: "A",
+    description: "ARIA roles must have their required attributes",
+    recommendation: "Add the state attributes the role requires (e.g., aria-checked on role=\"checkbox\")",
+    severity: "critical",
+    enabled: true,
   },
   "aria-required-children": {
     id: "aria-required-children",
@@ -217,6 +255,70 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "ARIA roles must contain required children",
     recommendation: "Ensure elements with ARIA roles contain the required child elements",
     severity: "serious",
+    enabled: true,
+  },
+  "form-error-identification": {
+    id: "form-error-identification",
+    criterion: "3.3.1",
+    level: "A",
+    description: "Invalid form fields must identify the error in text",
+    recommendation: "Reference a visible error message from the field with aria-errormessage or aria-describedby",
+    severity: "serious",
+    enabled: true,
+  },
+  "skip-link": {
+    id: "skip-link",
+    criterion: "2.4.1",
+    level: "A",
+    description: "Page must provide a way to skip repeated navigation",
+    recommendation: "Add a \"Skip to content\" link as the first focusable element, pointing at the main content",
+    severity: "serious",
+    enabled: true,
+  },
+  "no-autoplay-audio": {
+    id: "no-autoplay-audio",
+    criterion: "1.4.2",
+    level: "A",
+    description: "Audio must not play automatically for more than 3 seconds without a way to stop it",
+    recommendation: "Don't autoplay audio, mute it by default, or provide controls to pause and adjust volume",
+    severity: "serious",
+    enabled: true,
+  },
+  "media-pause-control": {
+    id: "media-pause-control",
+    criterion: "2.2.2",
+    level: "A",
+    description: "Moving media that plays for more than 5 seconds must be pausable",
+    recommendation: "Add the controls attribute or a visible pause button to autoplaying video",
+    severity: "moderate",
+    enabled: true,
+  },
+  "td-headers-attr": {
+    id: "td-headers-attr",
+    criterion: "1.3.1",
+    level: "A",
+    description: "Table cell headers attributes must refer to cells in the same table",
+    recommendation: "Make each ID in a cell's headers attribute point to a header cell in the same table",
+    severity: "serious",
+    enabled: true,
+  },
+  "th-has-data-cells": {
+    id: "th-has-data-cells",
+    criterion: "1.3.1",
+    level: "A",
+    description: "Table headers must describe data cells",
+    recommendation: "Remove header cells that have no data cells, or mark up layout tables with role=\"presentation\"",
+    severity: "serious",
+    enabled: true,
+  },
+  "td-has-header": {
+    id: "td-has-header",
+    criterion: "1.3.1",
+    level: "A",
+    description: "Data tables must have header cells",
+    recommendation: "Mark up row and column headers with <th> and a scope attribute",
+    severity: "serious",
+    enabled: true,
   },
   // Level AA rules
   "color-contrast": {
@@ -226,6 +328,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Text must have sufficient color contrast",
     recommendation: "Ensure text has a contrast ratio of at least 4.5:1 (3:1 for large text)",
     severity: "serious",
+    enabled: true,
   },
   "landmark-main": {
     id: "landmark-main",
@@ -234,6 +337,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Page should contain a main landmark",
     recommendation: "Add a <main> element or role=\"main\" to identify the main content area",
     severity: "moderate",
+    enabled: true,
   },
   "landmark-banner": {
     id: "landmark-banner",
@@ -242,6 +346,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Page should contain a banner landmark",
     recommendation: "Add a <header> element or role=\"banner\" to identify the page header",
     severity: "minor",
+    enabled: true,
   },
   "heading-order": {
     id: "heading-order",
@@ -250,6 +355,7 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Heading levels should not skip levels",
     recommendation: "Use headings in sequential order (h1, h2, h3, etc.) without skipping levels",
     severity: "moderate",
+    enabled: true,
   },
   "focus-visible": {
     id: "focus-visible",
@@ -258,14 +364,35 @@ export const WCAG_RULES: Record<string, WCAGRule> = {
     description: "Focus must be visible on interactive elements",
     recommendation: "Ensure focused elements have a visible focus indicator (outline, border, etc.)",
     severity: "serious",
+    enabled: true,
   },
   "target-size": {
     id: "target-size",
+    criterion: "2.5.8",
+    level: "AA",
+    description: "Targets must be at least 24x24 pixels or spaced 24 pixels apart",
+    recommendation: "Increase the size of interactive elements to at least 24x24 CSS pixels, or add spacing so a 24px circle around each doesn't overlap another target",
+    severity: "moderate",
+    enabled: true,
+  },
+  // Level AAA rules
+  "color-contrast-enhanced": {
+    id: "color-contrast-enhanced",
+    criterion: "1.4.6",
+    level: "AAA",
+    description: "Text must have enhanced color contrast",
+    recommendation: "Ensure text has a contrast ratio of at least 7:1 (4.5:1 for large text)",
+    severity: "minor",
+    enabled: true,
+  },
+  "target-size-enhanced": {
+    id: "target-size-enhanced",
     criterion: "2.5.5",
     level: "AAA",
     description: "Touch targets should be at least 44x44 pixels",
     recommendation: "Increase the size of interactive elements to at least 44x44 CSS pixels",
-    severity: "moderate",
+    severity: "minor",
+    enabled: true,
   },
 } as const;
 
@@ -276,8 +403,8 @@ export function getRulesForLevel(level: WCAGLevel): WCAGRule[] {
   const levels: WCAGLevel[] =
     level === "A" ? ["A"] : level === "AA" ? ["A", "AA"] : ["A", "AA", "AAA"];
 
-  return Object.values(WCAG_RULES).filter((rule) =>
-    levels.includes(rule.level)
+  return Object.values(WCAG_RULES).filter(
+    (rule) => rule.enabled && levels.includes(rule.level)
   );
 }
 
@@ -290,3 +417,159 @@ export const SEVERITY_WEIGHTS: Record<ViolationSeverity, number> = {
   moderate: 8,
   minor: 3,
 } as const;
+
+/**
+ * Maximum violations reported per rule for element-level checks
+ */
+export const MAX_VIOLATIONS_PER_RULE = 10;
+
+/**
+ * Contrast ratios required by WCAG 1.4.3 (AA) and 1.4.6 (AAA)
+ */
+export const CONTRAST_THRESHOLDS = {
+  AA_NORMAL: 4.5,
+  AA_LARGE: 3,
+  AAA_NORMAL: 7,
+  AAA_LARGE: 4.5,
+  // Large text: 18pt, or 14pt bold (in CSS pixels)
+  LARGE_TEXT_PX: 24,
+  LARGE_BOLD_TEXT_PX: 18.66,
+} as const;
+
+/**
+ * Minimum target sizes for WCAG 2.5.8 (AA) and 2.5.5 (AAA) in CSS pixels
+ */
+export const TARGET_SIZE_THRESHOLDS = {
+  MINIMUM: 24,
+  ENHANCED: 44,
+} as const;
+
+/**
+ * Allowed value type of an ARIA attribute
+ */
+export type AriaAttributeType =
+  | { type: "boolean" | "tristate" | "idref" | "idrefs" | "integer" | "number" | "string" }
+  | { type: "token" | "tokens"; values: string[] };
+
+/**
+ * ARIA 1.2 attributes and their value types
+ */
+export const ARIA_ATTRIBUTES: Record<string, AriaAttributeType> = {
+  "aria-activedescendant": { type: "idref" },
+  "aria-atomic": { type: "boolean" },
+  "aria-autocomplete": { type: "token", values: ["inline", "list", "both", "none"] },
+  "aria-braillelabel": { type: "string" },
+  "aria-brailleroledescription": { type: "string" },
+  "aria-busy": { type: "boolean" },
+  "aria-checked": { type: "tristate" },
+  "aria-colcount": { type: "integer" },
+  "aria-colindex": { type: "integer" },
+  "aria-colindextext": { type: "string" },
+  "aria-colspan": { type: "integer" },
+  "aria-controls": { type: "idrefs" },
+  "aria-current": {
+    type: "token",
+    values: ["page", "step", "location", "date", "time", "true", "false"],
+  },
+  "aria-describedby": { type: "idrefs" },
+  "aria-description": { type: "string" },
+  "aria-details": { type: "idref" },
+  "aria-disabled": { type: "boolean" },
+  "aria-dropeffect": {
+    type: "tokens",
+    values: ["copy", "execute", "link", "move", "none", "popup"],
+  },
+  "aria-errormessage": { type: "idref" },
+  "aria-expanded": { type: "token", values: ["true", "false", "undefined"] },
+  "aria-flowto": { type: "idrefs" },
+  "aria-grabbed": { type: "token", values: ["true", "false", "undefined"] },
+  "aria-haspopup": {
+    type: "token",
+    values: ["false", "true", "menu", "listbox", "tree", "grid", "dialog"],
+  },
+  "aria-hidden": { type: "token", values: ["true", "false", "undefined"] },
+  "aria-invalid": { type: "token", values: ["grammar", "false", "spelling", "true"] },
+  "aria-keyshortcuts": { type: "string" },
+  "aria-label": { type: "string" },
+  "aria-labelledby": { type: "idrefs" },
+  "aria-level": { type: "integer" },
+  "aria-live": { type: "token", values: ["assertive", "off", "polite"] },
+  "aria-modal": { type: "boolean" },
+  "aria-multiline": { type: "boolean" },
+  "aria-multiselectable": { type: "boolean" },
+  "aria-orientation": { type: "token", values: ["horizontal", "vertical", "undefined"] },
+  "aria-owns": { type: "idrefs" },
+  "aria-placeholder": { type: "string" },
+  "aria-posinset": { type: "integer" },
+  "aria-pressed": { type: "tristate" },
+  "aria-readonly": { type: "boolean" },
+  "aria-relevant": { type: "tokens", values: ["additions", "all", "removals", "text"] },
+  "aria-required": { type: "boolean" },
+  "aria-roledescription": { type: "string" },
+  "aria-rowcount": { type: "integer" },
+  "aria-rowindex": { type: "integer" },
+  "aria-rowindextext": { type: "string" },
+  "aria-rowspan": { type: "integer" },
+  "aria-selected": { type: "token", values: ["true", "false", "undefined"] },
+  "aria-setsize": { type: "integer" },
+  "aria-sort": { type: "token", values: ["ascending", "descending", "none", "other"] },
+  "aria-valuemax": { type: "number" },
+  "aria-valuemin": { type: "number" },
+  "aria-valuenow": { type: "number" },
+  "aria-valuetext": { type: "string" },
+};
+
+/**
+ * Concrete ARIA 1.2 roles ("doc-" and "graphics-" module roles are
+ * accepted separately)
+ */
+export const ARIA_ROLES: readonly string[] = [
+  "alert", "alertdialog", "application", "article", "banner", "blockquote",
+  "button", "caption", "cell", "checkbox", "code", "columnheader", "combobox",
+  "complementary", "contentinfo", "definition", "deletion", "dialog",
+  "directory", "document", "emphasis", "feed", "figure", "form", "generic",
+  "grid", "gridcell", "group", "heading", "img", "insertion", "link", "list",
+  "listbox", "listitem", "log", "main", "mark", "marquee", "math", "menu",
+  "menubar", "menuitem", "menuitemcheckbox", "menuitemradio", "meter",
+  "navigation", "none", "note", "option", "paragraph", "presentation",
+  "progressbar", "radio", "radiogroup", "region", "row", "rowgroup",
+  "rowheader", "scrollbar", "search", "searchbox", "separator", "slider",
+  "spinbutton", "status", "strong", "subscript", "superscript", "switch",
+  "tab", "table", "tablist", "tabpanel", "term", "textbox", "time", "timer",
+  "toolbar", "tooltip", "tree", "treegrid", "treeitem",
+];
+
+/**
+ * States an explicit role requires
+ */
+export const ARIA_REQUIRED_ATTRIBUTES: Record<string, string[]> = {
+  checkbox: ["aria-checked"],
+  combobox: ["aria-expanded"],
+  heading: ["aria-level"],
+  menuitemcheckbox: ["aria-checked"],
+  menuitemradio: ["aria-checked"],
+  meter: ["aria-valuenow"],
+  radio: ["aria-checked"],
+  scrollbar: ["aria-controls", "aria-valuenow"],
+  slider: ["aria-valuenow"],
+  switch: ["aria-checked"],
+};
+
+/**
+ * Roles an explicit container role must own at least one of
+ */
+export const ARIA_REQUIRED_CHILDREN: Record<string, string[]> = {
+  feed: ["article"],
+  grid: ["row", "rowgroup"],
+  list: ["listitem"],
+  listbox: ["option", "group"],
+  menu: ["menuitem", "menuitemcheckbox", "menuitemradio", "group"],
+  menubar: ["menuitem", "menuitemcheckbox", "menuitemradio", "group"],
+  radiogroup: ["radio"],
+  row: ["cell", "gridcell", "columnheader", "rowheader"],
+  rowgroup: ["row"],
+  table: ["row", "rowgroup"],
+  tablist: ["tab"],
+  tree: ["treeitem", "group"],
+  treegrid: ["row", "rowgroup"],
+};
@@ -9,6 +9,13 @@ import {
   type LegalRiskAssessment,
   type WCAGLevel,
   AccessibilityScanOptionsSchema,
+  ARIA_ATTRIBUTES,
+  ARIA_REQUIRED_ATTRIBUTES,
+  ARIA_REQUIRED_CHILDREN,
+  ARIA_ROLES,
+  CONTRAST_THRESHOLDS,
+  MAX_VIOLATIONS_PER_RULE,
+  TARGET_SIZE_THRESHOLDS,
   WCAG_RULES,
   getRulesForLevel,
   SEVERITY_WEIGHTS,
@@ -18,6 +25,47 @@ import {
 declare const document: any;
 declare const window: any;
 
+/**
+ * Element that failed a rule, collected in the page
+ */
+interface ElementFinding {
+  selector: string;
+  html: string;
+  detail: string;
+}
+
+/**
+ * Rules checked by inspecting the DOM in the page
+ */
+const ELEMENT_RULES = [
+  "aria-valid-attr",
+  "aria-valid-attr-value",
+  "aria-roles",
+  "aria-required-attr",
+  "aria-required-children",
+  "form-error-identification",
+  "skip-link",
+  "no-autoplay-audio",
+  "media-pause-control",
+  "target-size",
+  "target-size-enhanced",
+  "td-headers-attr",
+  "th-has-data-cells",
+  "td-has-header",
+  "color-contrast",
+  "color-contrast-enhanced",
+];
+
+/**
+ * Tab presses followed when checking focus visibility
+ */
+const MAX_TAB_STOPS = 50;
+
+/**
+ * Focusable elements before the main content that call for a skip link
+ */
+const SKIP_LINK_MIN_REPEATED = 5;
+
 /**
  * Accessibility scanner using Chrome's accessibility tree
  *
@@ -38,6 +86,7 @@ export class AccessibilityScanner {
     const errors: string[] = [];
     const violations: WCAGViolation[] = [];
     const passedChecks: string[] = [];
+    const ruleIds = new Set(getRulesForLevel(opts.level).map((r) => r.id));
 
     try {
       // Navigate to the URL
@@ -57,14 +106,21 @@ export class AccessibilityScanner {
       // Run page-level checks
       await this.runPageLevelChecks(page, violations, passedChecks, opts);
 
-      // Check contrast if enabled
-      if (opts.checkContrast) {
-        await this.checkColorContrast(page, violations);
+      // Run element-level checks (contrast only if enabled)
+      if (!opts.checkContrast) {
+        ruleIds.delete("color-contrast");
+        ruleIds.delete("color-contrast-enhanced");
       }
+      await this.runElementChecks(page, violations, passedChecks, ruleIds);
 
       // Check keyboard navigation if enabled
       if (opts.checkKeyboardNavigation) {
-        await this.checkKeyboardNavigation(page, violations);
+        await this.checkKeyboardNavigation(
+          page,
+          violations,
+          passedChecks,
+          ruleIds
+        );
       }
     } catch (error) {
       const message =
@@ -390,106 +446,888 @@ export class AccessibilityScanner {
   }
 
   /**
-   * Check color contrast (simplified check)
+   * Create a violation object from a rule and an element found in the page
+   */
+  private createElementViolation(
+    ruleId: string,
+    finding: ElementFinding
+  ): WCAGViolation {
+    const rule = WCAG_RULES[ruleId]!;
+
+    return {
+      criterion: rule.criterion,
+      severity: rule.severity,
+      description: rule.description,
+      recommendation: rule.recommendation,
+      elementPath: finding.selector,
+      htmlSnippet: finding.html,
+      role: undefined,
+      name: finding.detail,
+    };
+  }
+
+  /**
+   * Run the DOM-based rule checks in a single pass over the page
+   *
+   * Covers contrast, ARIA validity, form errors, skip links, media
+   * autoplay, target size and table headers. Each enabled rule with
+   * no findings is recorded as passed.
    */
-  private async checkColorContrast(
+  private async runElementChecks(
     page: Page,
-    violations: WCAGViolation[]
+    violations: WCAGViolation[],
+    passedChecks: string[],
+    ruleIds: Set<string>
   ): Promise<void> {
+    const enabled = ELEMENT_RULES.filter((id) => ruleIds.has(id));
+    if (enabled.length === 0) {
+      return;
+    }
+
+    let findings: Record<string, ElementFinding[]>;
     try {
-      // Get text elements with potential contrast issues
-      const contrastIssues = await page.evaluate(() => {
-        const issues: Array<{ selector: string; text: string }> = [];
+      findings = await this.collectElementFindings(page, enabled);
+    } catch {
+      // Ignore element check errors
+      return;
+    }
+
+    for (const ruleId of enabled) {
+      const ruleFindings = findings[ruleId] ?? [];
+      if (ruleFindings.length === 0) {
+        passedChecks.push(ruleId);
+        continue;
+      }
+      for (const finding of ruleFindings) {
+        violations.push(this.createElementViolation(ruleId, finding));
+      }
+    }
+  }
+
+  /**
+   * Evaluate the enabled element rules in the page
+   */
+  private async collectElementFindings(
+    page: Page,
+    enabled: string[]
+  ): Promise<Record<string, ElementFinding[]>> {
+    const config = {
+      enabled,
+      maxPerRule: MAX_VIOLATIONS_PER_RULE,
+      ariaAttributes: ARIA_ATTRIBUTES,
+      ariaRoles: ARIA_ROLES,
+      requiredAttributes: ARIA_REQUIRED_ATTRIBUTES,
+      requiredChildren: ARIA_REQUIRED_CHILDREN,
+      contrast: CONTRAST_THRESHOLDS,
+      targetSize: TARGET_SIZE_THRESHOLDS,
+      skipLinkMinRepeated: SKIP_LINK_MIN_REPEATED,
+    };
+
+    return page.evaluate((cfg) => {
+      const findings: Record<
+        string,
+        Array<{ selector: string; html: string; detail: string }>
+      > = {};
+      const isEnabled = (id: string): boolean => cfg.enabled.includes(id);
+
+      const selectorFor = (el: any): string => {
+        if (el.id) return `#${el.id}`;
+        const parts: string[] = [];
+        let node = el;
+        while (node && node.nodeType === 1 && parts.length < 5) {
+          const tag = node.tagName.toLowerCase();
+          if (tag === "html" || tag === "body") break;
+          const parent = node.parentElement;
+          const siblings = parent
+            ? Array.from(parent.children).filter(
+                (c: any) => c.tagName === node.tagName
+              )
+            : [];
+          parts.unshift(
+            siblings.length > 1
+              ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})`
+              : tag
+          );
+          if (node.id) {
+            parts[0] = `#${node.id}`;
+            break;
+          }
+          node = parent;
+        }
+        return parts.join(" > ") || el.tagName.toLowerCase();
+      };
+
+      const snippet = (el: any): string => {
+        const html: string = el.outerHTML ?? "";
+        const openTag = html.slice(0, html.indexOf(">") + 1) || html;
+        return openTag.length > 200 ? `${openTag.slice(0, 200)}...` : openTag;
+      };
+
+      const report = (ruleId: string, el: any, detail: string): void => {
+        const list = (findings[ruleId] ??= []);
+        if (list.length < cfg.maxPerRule) {
+          list.push({ selector: selectorFor(el), html: snippet(el), detail });
+        }
+      };
+
+      const isHidden = (el: any): boolean => {
+        const style = window.getComputedStyle(el);
+        return (
+          style.display === "none" ||
+          style.visibility === "hidden" ||
+          el.closest("[hidden], [aria-hidden='true']") !== null
+        );
+      };
+
+      const textOf = (el: any): string =>
+        (el.textContent ?? "").trim().replace(/\s+/g, " ").slice(0, 40);
+
+      // ----- ARIA attributes -----
+      const checkAriaValue = (
+        el: any,
+        name: string,
+        value: string,
+        spec: any
+      ): string | null => {
+        const lower = value.toLowerCase();
+        switch (spec.type) {
+          case "boolean":
+            return lower === "true" || lower === "false"
+              ? null
+              : "must be true or false";
+          case "tristate":
+            return ["true", "false", "mixed"].includes(lower)
+              ? null
+              : "must be true, false or mixed";
+          case "token":
+            return spec.values.includes(lower)
+              ? null
+              : `must be one of ${spec.values.join(", ")}`;
+          case "tokens":
+            return lower
+              .split(/\s+/)
+              .filter(Boolean)
+              .every((t: string) => spec.values.includes(t))
+              ? null
+              : `must be a list of ${spec.values.join(", ")}`;
+          case "integer":
+            return /^-?\d+$/.test(value) ? null : "must be an integer";
+          case "number":
+            return value !== "" && Number.isFinite(Number(value))
+              ? null
+              : "must be a number";
+          case "idref":
+            return value === "" || document.getElementById(value)
+              ? null
+              : `no element with id "${value}"`;
+          case "idrefs": {
+            // Collapsed disclosures often point at content not yet rendered
+            if (
+              name === "aria-controls" &&
+              el.getAttribute("aria-expanded") === "false"
+            ) {
+              return null;
+            }
+            const ids = value.split(/\s+/).filter(Boolean);
+            return ids.length === 0 ||
+              ids.some((id) => document.getElementById(id))
+              ? null
+              : `none of the referenced ids exist`;
+          }
+          default:
+            return null;
+        }
+      };
+
+      if (isEnabled("aria-valid-attr") || isEnabled("aria-valid-attr-value")) {
+        for (const el of Array.from(document.querySelectorAll("*")) as any[]) {
+          for (const attr of Array.from(el.attributes) as any[]) {
+            const name: string = attr.name;
+            if (!name.startsWith("aria-")) continue;
+            const spec = cfg.ariaAttributes[name];
+            if (!spec) {
+              if (isEnabled("aria-valid-attr")) {
+                report("aria-valid-attr", el, `Unknown attribute ${name}`);
+              }
+              continue;
+            }
+            if (!isEnabled("aria-valid-attr-value")) continue;
+            const problem = checkAriaValue(el, name, attr.value.trim(), spec);
+            if (problem) {
+              report(
+                "aria-valid-attr-value",
+                el,
+                `${name}="${attr.value}" ${problem}`
+              );
+            }
+          }
+        }
+      }
 
-        // Check text elements
-        const textElements = document.querySelectorAll(
-          "p, span, a, h1, h2, h3, h4, h5, h6, li, td, th, label"
+      // ----- ARIA roles -----
+      const explicitRole = (el: any): string | null => {
+        const tokens = (el.getAttribute("role") ?? "")
+          .trim()
+          .toLowerCase()
+          .split(/\s+/)
+          .filter(Boolean);
+        return (
+          tokens.find(
+            (t: string) =>
+              cfg.ariaRoles.includes(t) ||
+              t.startsWith("doc-") ||
+              t.startsWith("graphics-")
+          ) ?? null
         );
+      };
+
+      const implicitRole = (el: any): string | null => {
+        const tag = el.tagName.toLowerCase();
+        switch (tag) {
+          case "li":
+            return "listitem";
+          case "tr":
+            return "row";
+          case "thead":
+          case "tbody":
+          case "tfoot":
+            return "rowgroup";
+          case "td":
+            return "cell";
+          case "th":
+            return "columnheader";
+          case "option":
+            return "option";
+          case "optgroup":
+            return "group";
+          case "article":
+            return "article";
+          case "input":
+            return (el.getAttribute("type") ?? "").toLowerCase() === "radio"
+              ? "radio"
+              : null;
+          default:
+            return null;
+        }
+      };
+
+      const roleOf = (el: any): string | null =>
+        explicitRole(el) ?? implicitRole(el);
+
+      // Roles of owned elements, looking through generic wrappers
+      const ownedRoles = (el: any, roles: Set<string>, depth: number): void => {
+        if (depth > 5) return;
+        for (const child of Array.from(el.children) as any[]) {
+          const role = roleOf(child);
+          if (
+            role === null ||
+            role === "none" ||
+            role === "presentation" ||
+            role === "generic"
+          ) {
+            ownedRoles(child, roles, depth + 1);
+          } else {
+            roles.add(role);
+          }
+        }
+      };
+
+      for (const el of Array.from(document.querySelectorAll("[role]")) as any[]) {
+        const rawRole = (el.getAttribute("role") ?? "").trim();
+        if (rawRole === "") continue;
+        const role = explicitRole(el);
+
+        if (role === null) {
+          if (isEnabled("aria-roles")) {
+            report("aria-roles", el, `role="${rawRole}" is not a WAI-ARIA role`);
+          }
+          continue;
+        }
+
+        const required = cfg.requiredAttributes[role];
+        if (isEnabled("aria-required-attr") && required) {
+          const tag = el.tagName.toLowerCase();
+          const type = (el.getAttribute("type") ?? "").toLowerCase();
+          // Native elements expose these states without ARIA
+          const native: Record<string, boolean> = {
+            "aria-checked":
+              tag === "input" && (type === "checkbox" || type === "radio"),
+            "aria-valuenow":
+              (tag === "input" && type === "range") || tag === "meter",
+            "aria-level": /^h[1-6]$/.test(tag),
+            "aria-expanded": tag === "select",
+          };
+          const missing = required.filter(
+            (attr: string) => !el.hasAttribute(attr) && !native[attr]
+          );
+          if (missing.length > 0) {
+            report(
+              "aria-required-attr",
+              el,
+              `role="${role}" is missing ${missing.join(", ")}`
+            );
+          }
+        }
+
+        const allowedChildren = cfg.requiredChildren[role];
+        if (
+          isEnabled("aria-required-children") &&
+          allowedChildren &&
+          el.children.length > 0 &&
+          el.getAttribute("aria-busy") !== "true"
+        ) {
+          const roles = new Set<string>();
+          ownedRoles(el, roles, 0);
+          for (const id of (el.getAttribute("aria-owns") ?? "")
+            .split(/\s+/)
+            .filter(Boolean)) {
+            const owned = document.getElementById(id);
+            const ownedRole = owned ? roleOf(owned) : null;
+            if (ownedRole) roles.add(ownedRole);
+          }
+          if (!allowedChildren.some((r: string) => roles.has(r))) {
+            report(
+              "aria-required-children",
+              el,
+              `role="${role}" needs a child with role ${allowedChildren.join(" or ")}`
+            );
+          }
+        }
+      }
 
-        for (const el of textElements) {
+      // ----- Form error identification -----
+      if (isEnabled("form-error-identification")) {
+        for (const el of Array.from(
+          document.querySelectorAll("[aria-invalid]")
+        ) as any[]) {
+          const value = (el.getAttribute("aria-invalid") ?? "").toLowerCase();
+          if (value === "" || value === "false" || isHidden(el)) continue;
+          const ids = [
+            ...(el.getAttribute("aria-errormessage") ?? "").split(/\s+/),
+            ...(el.getAttribute("aria-describedby") ?? "").split(/\s+/),
+          ].filter(Boolean);
+          const described = ids.some((id) => {
+            const target = document.getElementById(id);
+            return target && (target.textContent ?? "").trim() !== "";
+          });
+          if (!described) {
+            report(
+              "form-error-identification",
+              el,
+              "Invalid field has no error message linked through aria-errormessage or aria-describedby"
+            );
+          }
+        }
+      }
+
+      // ----- Skip link -----
+      if (isEnabled("skip-link")) {
+        const focusable = (
+          Array.from(
+            document.querySelectorAll(
+              'a[href], button, input:not([type="hidden"]), select, textarea, [tabindex]'
+            )
+          ) as any[]
+        ).filter((el) => {
+          if (el.tabIndex < 0 || el.disabled) return false;
           const style = window.getComputedStyle(el);
-          const color = style.color;
-          const bgColor = style.backgroundColor;
-
-          // Simple check: if both colors are very similar, flag it
-          // This is a simplified check - real contrast calculation is more complex
-          if (color === bgColor && color !== "rgba(0, 0, 0, 0)") {
-            const text = el.textContent?.trim().slice(0, 30) || "";
-            if (text) {
-              issues.push({
-                selector: el.tagName.toLowerCase(),
-                text,
-              });
+          return style.display !== "none" && style.visibility !== "hidden";
+        });
+        const first = focusable[0];
+        const href: string = first?.getAttribute("href") ?? "";
+
+        if (first && first.tagName === "A" && href.startsWith("#") && href.length > 1) {
+          const id = decodeURIComponent(href.slice(1));
+          const target =
+            document.getElementById(id) ?? document.getElementsByName(id)[0];
+          if (!target) {
+            report("skip-link", first, `Skip link target ${href} does not exist`);
+          }
+        } else {
+          const main = document.querySelector("main, [role='main']");
+          // DOCUMENT_POSITION_PRECEDING: the element comes before main
+          const repeated = main
+            ? focusable.filter(
+                (el) => !main.contains(el) && main.compareDocumentPosition(el) & 2
+              ).length
+            : document.querySelectorAll(
+                "header a[href], nav a[href], [role='banner'] a[href], [role='navigation'] a[href]"
+              ).length;
+          if (repeated >= cfg.skipLinkMinRepeated) {
+            report(
+              "skip-link",
+              first ?? document.body,
+              `${repeated} focusable elements before the main content and no skip link`
+            );
+          }
+        }
+      }
+
+      // ----- Autoplaying media -----
+      if (isEnabled("no-autoplay-audio") || isEnabled("media-pause-control")) {
+        const hasPauseControl = (media: any): boolean => {
+          if (media.controls) return true;
+          let container = media.parentElement;
+          for (let i = 0; container && i < 3; i++) {
+            const controls = Array.from(
+              container.querySelectorAll("button, [role='button']")
+            ) as any[];
+            if (
+              controls.some((c) =>
+                /pause|stop|mute|play/i.test(
+                  `${c.getAttribute("aria-label") ?? ""} ${c.title ?? ""} ${c.textContent ?? ""}`
+                )
+              )
+            ) {
+              return true;
             }
+            container = container.parentElement;
+          }
+          return false;
+        };
+
+        for (const media of Array.from(
+          document.querySelectorAll("video, audio")
+        ) as any[]) {
+          if (!media.autoplay && media.paused) continue;
+          if (media.tagName === "VIDEO" && isHidden(media)) continue;
+          if (hasPauseControl(media)) continue;
+
+          // Duration is NaN until metadata loads and Infinity for streams
+          const duration: number = media.duration;
+          const seconds = Number.isFinite(duration)
+            ? `${Math.round(duration)}s`
+            : "unknown length";
+
+          if (
+            isEnabled("no-autoplay-audio") &&
+            !media.muted &&
+            media.volume > 0 &&
+            !(duration <= 3)
+          ) {
+            report(
+              "no-autoplay-audio",
+              media,
+              `Autoplaying ${media.tagName.toLowerCase()} with sound (${seconds}) has no pause or mute control`
+            );
+          }
+          if (
+            isEnabled("media-pause-control") &&
+            media.tagName === "VIDEO" &&
+            (media.loop || !(duration <= 5))
+          ) {
+            report(
+              "media-pause-control",
+              media,
+              `Autoplaying video (${media.loop ? "looping" : seconds}) has no pause control`
+            );
           }
         }
+      }
 
-        return issues.slice(0, 10); // Limit to 10 issues
-      });
+      // ----- Target size -----
+      if (isEnabled("target-size") || isEnabled("target-size-enhanced")) {
+        const targets = (
+          Array.from(
+            document.querySelectorAll(
+              'a[href], button, input:not([type="hidden"]), select, textarea, summary, [role="button"], [role="link"], [role="checkbox"], [role="radio"], [role="switch"], [role="tab"], [role="menuitem"], [onclick]'
+            )
+          ) as any[]
+        )
+          .filter((el) => !isHidden(el) && !el.disabled)
+          .map((el) => ({ el, rect: el.getBoundingClientRect() }))
+          .filter(({ rect }) => rect.width > 0 && rect.height > 0)
+          .slice(0, 300);
+
+        // Links in a sentence and labelled controls are exempt
+        const isExempt = (el: any): boolean => {
+          if (el.labels && el.labels.length > 0) return true;
+          if (
+            el.tagName === "A" &&
+            window.getComputedStyle(el).display === "inline"
+          ) {
+            return (Array.from(el.parentElement?.childNodes ?? []) as any[]).some(
+              (n) => n.nodeType === 3 && (n.textContent ?? "").trim() !== ""
+            );
+          }
+          return false;
+        };
 
-      for (const issue of contrastIssues) {
-        violations.push({
-          ...WCAG_RULES["color-contrast"]!,
-          elementPath: issue.selector,
-          htmlSnippet: undefined,
-          role: undefined,
-          name: `Text: "${issue.text}"`,
+        const minimum = cfg.targetSize.MINIMUM;
+        const center = (rect: any): { x: number; y: number } => ({
+          x: rect.left + rect.width / 2,
+          y: rect.top + rect.height / 2,
         });
+        const isSmall = (rect: any, size: number): boolean =>
+          rect.width < size || rect.height < size;
+
+        for (const { el, rect } of targets) {
+          if (!isSmall(rect, cfg.targetSize.ENHANCED) || isExempt(el)) continue;
+          const size = `${Math.round(rect.width)}x${Math.round(rect.height)}px`;
+
+          if (isEnabled("target-size-enhanced")) {
+            report(
+              "target-size-enhanced",
+              el,
+              `Target is ${size}, smaller than ${cfg.targetSize.ENHANCED}px`
+            );
+          }
+
+          if (!isEnabled("target-size") || !isSmall(rect, minimum)) continue;
+
+          // Spacing exception: a 24px circle on the target's center must
+          // not intersect another target or another small target's circle
+          const c = center(rect);
+          const crowded = targets.some(({ el: other, rect: otherRect }) => {
+            if (other === el || other.contains(el) || el.contains(other)) {
+              return false;
+            }
+            if (isSmall(otherRect, minimum)) {
+              const o = center(otherRect);
+              return Math.hypot(c.x - o.x, c.y - o.y) < minimum;
+            }
+            const dx = Math.max(otherRect.left - c.x, 0, c.x - otherRect.right);
+            const dy = Math.max(otherRect.top - c.y, 0, c.y - otherRect.bottom);
+            return Math.hypot(dx, dy) < minimum / 2;
+          });
+          if (crowded) {
+            report(
+              "target-size",
+              el,
+              `Target is ${size} and within ${minimum}px of another target`
+            );
+          }
+        }
       }
-    } catch {
-      // Ignore contrast check errors
-    }
+
+      // ----- Tables -----
+      if (
+        isEnabled("td-headers-attr") ||
+        isEnabled("th-has-data-cells") ||
+        isEnabled("td-has-header")
+      ) {
+        for (const table of Array.from(document.querySelectorAll("table")) as any[]) {
+          const tableRole = (table.getAttribute("role") ?? "").toLowerCase();
+          if (tableRole === "presentation" || tableRole === "none") continue;
+          if (isHidden(table)) continue;
+
+          const rows = (Array.from(table.rows) as any[]).filter(
+            (r) => r.closest("table") === table
+          );
+          const cells = rows.flatMap((r) => Array.from(r.cells) as any[]);
+
+          if (isEnabled("td-headers-attr")) {
+            for (const cell of cells.filter((c) => c.hasAttribute("headers"))) {
+              const ids: string[] = cell
+                .getAttribute("headers")
+                .split(/\s+/)
+                .filter(Boolean);
+              const broken = ids.filter((id) => {
+                const header = document.getElementById(id);
+                return (
+                  !header || header === cell || header.closest("table") !== table
+                );
+              });
+              if (broken.length > 0) {
+                report(
+                  "td-headers-attr",
+                  cell,
+                  `headers references ${broken.join(", ")} outside this table`
+                );
+              }
+            }
+          }
+
+          if (isEnabled("th-has-data-cells")) {
+            for (const th of cells.filter(
+              (c) => c.tagName === "TH" && textOf(c) !== ""
+            )) {
+              const row = th.parentElement;
+              const scope = (th.getAttribute("scope") ?? "").toLowerCase();
+              const isRowHeader =
+                scope === "row" ||
+                scope === "rowgroup" ||
+                (scope === "" && rows.indexOf(row) > 0 && th.cellIndex === 0);
+              const hasData = isRowHeader
+                ? (Array.from(row.cells) as any[]).some((c) => c.tagName === "TD")
+                : rows.some(
+                    (r) => r !== row && r.cells[th.cellIndex]?.tagName === "TD"
+                  );
+              if (!hasData) {
+                report(
+                  "th-has-data-cells",
+                  th,
+                  `Header "${textOf(th)}" has no data cells`
+                );
+              }
+            }
+          }
+
+          if (isEnabled("td-has-header")) {
+            const columns = Math.max(0, ...rows.map((r) => r.cells.length));
+            const hasHeaders =
+              cells.some((c) => c.tagName === "TH") ||
+              table.querySelector(
+                "[role='columnheader'], [role='rowheader'], td[headers]"
+              ) !== null;
+            // Small tables and tables nesting tables are usually layout
+            if (
+              rows.length >= 3 &&
+              columns >= 3 &&
+              !hasHeaders &&
+              table.querySelector("table") === null &&
+              cells.some((c) => textOf(c) !== "")
+            ) {
+              report(
+                "td-has-header",
+                table,
+                `${rows.length}x${columns} data table has no header cells`
+              );
+            }
+          }
+        }
+      }
+
+      // ----- Color contrast -----
+      if (isEnabled("color-contrast") || isEnabled("color-contrast-enhanced")) {
+        type Rgba = { r: number; g: number; b: number; a: number };
+
+        const parseColor = (value: string): Rgba | null => {
+          const match = /^rgba?\(([^)]+)\)$/.exec(value);
+          if (!match) return null;
+          const parts = match[1]!.split(/[\s,/]+/).filter(Boolean).map(Number);
+          if (parts.length < 3 || parts.some((p) => Number.isNaN(p))) return null;
+          return { r: parts[0]!, g: parts[1]!, b: parts[2]!, a: parts[3] ?? 1 };
+        };
+
+        // Source-over compositing of top onto an opaque bottom
+        const blend = (top: Rgba, bottom: Rgba): Rgba => ({
+          r: top.r * top.a + bottom.r * (1 - top.a),
+          g: top.g * top.a + bottom.g * (1 - top.a),
+          b: top.b * top.a + bottom.b * (1 - top.a),
+          a: 1,
+        });
+
+        const luminance = (c: Rgba): number => {
+          const channel = (v: number): number => {
+            const s = v / 255;
+            return s <= 0.04045 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+          };
+          return 0.2126 * channel(c.r) + 0.7152 * channel(c.g) + 0.0722 * channel(c.b);
+        };
+
+        const ancestors = (el: any): any[] => {
+          const chain: any[] = [];
+          for (let node = el; node; node = node.parentElement) chain.push(node);
+          return chain;
+        };
+
+        // Layers painted under the element, topmost first
+        const layersUnder = (el: any, rect: any): any[] => {
+          const x = rect.left + rect.width / 2;
+          const y = rect.top + rect.height / 2;
+          if (x >= 0 && y >= 0 && x < window.innerWidth && y < window.innerHeight) {
+            const stack = Array.from(document.elementsFromPoint(x, y)) as any[];
+            const index = stack.indexOf(el);
+            if (index >= 0) return stack.slice(index);
+          }
+          return ancestors(el);
+        };
+
+        // Null when an image or gradient is behind the text
+        const backgroundOf = (el: any, rect: any): Rgba | null => {
+          const colors: Rgba[] = [];
+          for (const layer of layersUnder(el, rect)) {
+            const style = window.getComputedStyle(layer);
+            if (
+              style.backgroundImage !== "none" ||
+              (layer !== el &&
+                ["IMG", "VIDEO", "CANVAS", "PICTURE", "svg"].includes(layer.tagName))
+            ) {
+              return null;
+            }
+            const color = parseColor(style.backgroundColor);
+            if (color && color.a > 0) {
+              colors.push(color);
+              if (color.a >= 1) break;
+            }
+          }
+          return colors
+            .reverse()
+            .reduce((bottom, top) => blend(top, bottom), {
+              r: 255,
+              g: 255,
+              b: 255,
+              a: 1,
+            } as Rgba);
+        };
+
+        const toCss = (c: Rgba): string =>
+          `rgb(${Math.round(c.r)}, ${Math.round(c.g)}, ${Math.round(c.b)})`;
+
+        const ignoredTags = ["SCRIPT", "STYLE", "NOSCRIPT", "OPTION", "TEMPLATE"];
+        let examined = 0;
+
+        for (const el of Array.from(document.querySelectorAll("body *")) as any[]) {
+          if (examined >= 1000) break;
+          if (ignoredTags.includes(el.tagName)) continue;
+          const ownText = (Array.from(el.childNodes) as any[])
+            .filter((n) => n.nodeType === 3)
+            .map((n) => n.textContent)
+            .join("")
+            .trim();
+          if (ownText === "") continue;
+
+          const style = window.getComputedStyle(el);
+          if (style.display === "none" || style.visibility === "hidden") continue;
+          if (el.closest(":disabled, [aria-disabled='true']")) continue;
+          const rect = el.getBoundingClientRect();
+          if (rect.width <= 1 || rect.height <= 1) continue;
+          examined++;
+
+          const foreground = parseColor(style.color);
+          if (!foreground) continue;
+          const opacity = ancestors(el).reduce(
+            (total, node) =>
+              total * parseFloat(window.getComputedStyle(node).opacity || "1"),
+            1
+          );
+          if (opacity === 0) continue;
+
+          const background = backgroundOf(el, rect);
+          if (!background) continue;
+
+          const text = blend({ ...foreground, a: foreground.a * opacity }, background);
+          const [lighter, darker] = [luminance(text), luminance(background)].sort(
+            (a, b) => b - a
+          );
+          const ratio = Math.round(((lighter! + 0.05) / (darker! + 0.05)) * 100) / 100;
+
+          const fontSize = parseFloat(style.fontSize);
+          const weight = parseInt(style.fontWeight, 10) || 400;
+          const large =
+            fontSize >= cfg.contrast.LARGE_TEXT_PX ||
+            (fontSize >= cfg.contrast.LARGE_BOLD_TEXT_PX && weight >= 700);
+          const aa = large ? cfg.contrast.AA_LARGE : cfg.contrast.AA_NORMAL;
+          const aaa = large ? cfg.contrast.AAA_LARGE : cfg.contrast.AAA_NORMAL;
+          const detail = (required: number): string =>
+            `Contrast ${ratio}:1 (needs ${required}:1) for ${toCss(text)} on ${toCss(background)}: "${ownText.slice(0, 30)}"`;
+
+          if (ratio < aa && isEnabled("color-contrast")) {
+            report("color-contrast", el, detail(aa));
+          } else if (ratio < aaa && isEnabled("color-contrast-enhanced")) {
+            report("color-contrast-enhanced", el, detail(aaa));
+          }
+        }
+      }
+
+      return findings;
+    }, config);
   }
 
   /**
-   * Check keyboard navigation (basic check)
+   * Check that keyboard focus is visible
+   *
+   * Tabs through the page and compares each focused element's styles
+   * with its unfocused styles. Elements whose outline, shadow, border,
+   * colors and text decoration don't change have no focus indicator.
    */
   private async checkKeyboardNavigation(
     page: Page,
-    violations: WCAGViolation[]
+    violations: WCAGViolation[],
+    passedChecks: string[],
+    ruleIds: Set<string>
   ): Promise<void> {
+    if (!ruleIds.has("focus-visible")) {
+      return;
+    }
+
     try {
-      // Check for focusable elements without visible focus styles
-      const focusIssues = await page.evaluate(() => {
-        const issues: string[] = [];
-        const focusableSelectors =
-          'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])';
-        const focusableElements = document.querySelectorAll(focusableSelectors);
+      await page.evaluate(() => document.activeElement?.blur?.());
 
-        for (const el of focusableElements as any) {
-          // Check if element has outline: none without alternative focus style
-          const style = window.getComputedStyle(el);
+      const seen = new Set<string>();
+      const missing: ElementFinding[] = [];
 
-          if (
-            style.outline === "none" ||
-            style.outline === "0px" ||
-            style.outlineStyle === "none"
-          ) {
-            // Element might have no visible focus indicator
-            // This is a simplified check
-            const tag = el.tagName.toLowerCase();
-            const text =
-              el.textContent?.trim().slice(0, 20) ||
-              el.placeholder ||
-              "";
-            if (issues.length < 5) {
-              issues.push(`${tag}: "${text}"`);
+      for (let i = 0; i < MAX_TAB_STOPS; i++) {
+        await page.keyboard.press("Tab");
+
+        const stop = await page.evaluate(() => {
+          const el = document.activeElement;
+          if (!el || el === document.body || el === document.documentElement) {
+            return null;
+          }
+
+          const path: string[] = [];
+          for (let node = el; node && node.nodeType === 1; node = node.parentElement) {
+            if (node.id) {
+              path.unshift(`#${node.id}`);
+              break;
             }
+            const parent = node.parentElement;
+            const index = parent ? Array.from(parent.children).indexOf(node) + 1 : 1;
+            path.unshift(`${node.tagName.toLowerCase()}:nth-child(${index})`);
+            if (!parent || parent === document.body) break;
           }
-        }
 
-        return issues;
-      });
+          const snapshot = (node: any): string => {
+            if (!node) return "";
+            const s = window.getComputedStyle(node);
+            return [
+              s.outlineStyle,
+              s.outlineWidth,
+              s.outlineColor,
+              s.boxShadow,
+              s.borderTopColor,
+              s.borderBottomColor,
+              s.borderBottomWidth,
+              s.backgroundColor,
+              s.color,
+              s.textDecorationLine,
+            ].join("|");
+          };
 
-      // Only report if there are many elements with no focus style
-      if (focusIssues.length >= 3) {
-        violations.push({
-          ...WCAG_RULES["focus-visible"]!,
-          elementPath: undefined,
-          htmlSnippet: undefined,
-          role: undefined,
-          name: `${focusIssues.length} elements may lack visible focus indicators`,
+          const style = window.getComputedStyle(el);
+          const outlined =
+            style.outlineStyle !== "none" && parseFloat(style.outlineWidth) > 0;
+          const focused = snapshot(el) + snapshot(el.parentElement);
+          el.blur();
+          const unfocused = snapshot(el) + snapshot(el.parentElement);
+          el.focus();
+
+          const html: string = el.outerHTML ?? "";
+          return {
+            selector: path.join(" > "),
+            html: html.slice(0, Math.min(200, html.indexOf(">") + 1 || 200)),
+            label: (el.getAttribute("aria-label") ?? el.textContent ?? "")
+              .trim()
+              .slice(0, 30),
+            visible: outlined || focused !== unfocused,
+          };
         });
+
+        if (!stop || seen.has(stop.selector)) {
+          break;
+        }
+        seen.add(stop.selector);
+
+        if (!stop.visible && missing.length < MAX_VIOLATIONS_PER_RULE) {
+          missing.push({
+            selector: stop.selector,
+            html: stop.html,
+            detail: `No visible focus indicator: "${stop.label}"`,
+          });
+        }
+      }
+
+      if (seen.size === 0) {
+        return;
+      }
+
+      for (const finding of missing) {
+        violations.push(this.createElementViolation("focus-visible", finding));
+      }
+      if (missing.length === 0) {
+        passedChecks.push("focus-visible");
       }
     } catch {
       // Ignore keyboard navigation check errors
@@ -567,6 +1405,22 @@ export class AccessibilityScanner {
         "Unlabeled interactive elements violate WCAG 4.1.2"
       );
     }
+    if (criteria.has("1.4.3")) {
+      complianceIssues.push("Low-contrast text violates WCAG 1.4.3");
+    }
+    if (criteria.has("2.4.1") || criteria.has("2.4.7")) {
+      complianceIssues.push(
+        "Missing skip links or focus indicators violate WCAG 2.4.1/2.4.7"
+      );
+    }
+    if (criteria.has("1.4.2")) {
+      complianceIssues.push("Autoplaying audio violates WCAG 1.4.2");
+    }
+    if (criteria.has("3.3.1")) {
+      complianceIssues.push(
+        "Form errors not identified in text violate WCAG 3.3.1"
+      );
+    }
 
     // Generate recommendation
     let recommendation: string;
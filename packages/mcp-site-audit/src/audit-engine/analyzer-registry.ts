@@ -0,0 +1,111 @@
+import { ValidationError } from "@the-closer/shared";
+
+import type { AuditAnalyzer } from "./analyzer-types.js";
+
+/**
+ * AnalyzerRegistry - The analyzers AuditService can run
+ *
+ * Keeps analyzers in registration order and resolves an audit's
+ * selection into a run order in which every analyzer comes after its
+ * dependencies.
+ */
+export class AnalyzerRegistry {
+  private readonly analyzers = new Map<string, AuditAnalyzer>();
+
+  constructor(analyzers: AuditAnalyzer[] = []) {
+    for (const analyzer of analyzers) {
+      this.register(analyzer);
+    }
+  }
+
+  /**
+   * Add an analyzer; names must be unique
+   */
+  register(analyzer: AuditAnalyzer): this {
+    if (this.analyzers.has(analyzer.name)) {
+      throw new ValidationError(`Audit analyzer already registered: ${analyzer.name}`, {
+        context: { name: analyzer.name },
+      });
+    }
+    this.analyzers.set(analyzer.name, analyzer);
+    return this;
+  }
+
+  /**
+   * Remove an analyzer, e.g. to replace a built-in one
+   */
+  unregister(name: string): boolean {
+    return this.analyzers.delete(name);
+  }
+
+  get(name: string): AuditAnalyzer | undefined {
+    return this.analyzers.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.analyzers.has(name);
+  }
+
+  /**
+   * Registered analyzers in registration order
+   */
+  list(): AuditAnalyzer[] {
+    return [...this.analyzers.values()];
+  }
+
+  /**
+   * Resolve selected analyzer names into run order
+   *
+   * Without a selection, every analyzer enabled by default is run.
+   * Dependencies are added when not selected. Analyzers otherwise keep
+   * registration order, whatever order they were selected in.
+   *
+   * @throws ValidationError for unknown names and dependency cycles
+   */
+  resolve(names?: readonly string[]): AuditAnalyzer[] {
+    const selected = new Set(
+      names ?? this.list().filter((a) => a.enabledByDefault !== false).map((a) => a.name)
+    );
+    const ordered: AuditAnalyzer[] = [];
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+
+    const visit = (name: string, requiredBy?: string): void => {
+      if (done.has(name)) return;
+
+      const analyzer = this.analyzers.get(name);
+      if (!analyzer) {
+        throw this.unknownAnalyzer(name, requiredBy);
+      }
+      if (visiting.has(name)) {
+        throw new ValidationError(`Audit analyzer dependency cycle through ${name}`, {
+          context: { name },
+        });
+      }
+
+      visiting.add(name);
+      for (const dependency of analyzer.dependencies ?? []) {
+        visit(dependency, name);
+      }
+      visiting.delete(name);
+      done.add(name);
+      ordered.push(analyzer);
+    };
+
+    for (const name of selected) {
+      if (!this.analyzers.has(name)) throw this.unknownAnalyzer(name);
+    }
+    for (const analyzer of this.list()) {
+      if (selected.has(analyzer.name)) visit(analyzer.name);
+    }
+
+    return ordered;
+  }
+
+  private unknownAnalyzer(name: string, requiredBy?: string): ValidationError {
+    return new ValidationError(
+      `Unknown audit analyzer: ${name}${requiredBy !== undefined ? ` (required by ${requiredBy})` : ""}`,
+      { context: { name, registered: [...this.analyzers.keys()] } }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import type { Page } from "puppeteer";
+
+import type { LeadProfile, PainPoint } from "@the-closer/shared";
+
+import type { ResolvedAuditOptions } from "./service.js";
+import type { PerformanceReport } from "./types.js";
+import type { AccessibilityReport } from "./accessibility-types.js";
+import type { ResponsivenessReport } from "./responsive-types.js";
+import type { SeoReport } from "./seo-types.js";
+import type { TechStackReport } from "./tech-stack-types.js";
+
+/**
+ * Reports of the analyzers that ran on one page, keyed by analyzer name
+ *
+ * The built-in analyzers' reports are typed; plugin reports are read
+ * by name ("reports['booking']").
+ */
+export interface PageReports {
+  performance?: PerformanceReport;
+  accessibility?: AccessibilityReport;
+  responsiveness?: ResponsivenessReport;
+  seo?: SeoReport;
+  techStack?: TechStackReport;
+  [name: string]: unknown;
+}
+
+/**
+ * What an analyzer knows about the page it is running on
+ */
+export interface AnalyzerContext {
+  url: string;
+  /** Lead whose site is being audited */
+  lead: LeadProfile;
+  /** Audit options after defaults */
+  options: ResolvedAuditOptions;
+  /** False for pages found by a site crawl */
+  isEntryPage: boolean;
+  /** Reports of the analyzers that already ran on this page, dependencies included */
+  reports: Readonly<PageReports>;
+}
+
+/**
+ * AuditAnalyzer - One check AuditService can run on a page
+ *
+ * Analyzers are registered in an AnalyzerRegistry and selected per
+ * audit by name through AuditOptions.analyzers. Each one navigates
+ * the page itself, so it can rely on nothing but its dependencies'
+ * reports.
+ */
+export interface AuditAnalyzer<TReport = unknown> {
+  /** Unique name; also the key of the report in PageReports */
+  readonly name: string;
+  /** Used in error messages ("Accessibility scan failed: ...") */
+  readonly title: string;
+  /** Analyzers whose reports this one reads; they are run first */
+  readonly dependencies?: readonly string[];
+  /** Run when an audit doesn't choose its analyzers (default: true) */
+  readonly enabledByDefault?: boolean;
+
+  /**
+   * Whether to run on this page at all, e.g. only for dental practices
+   * or only on the entry page
+   */
+  appliesTo?(context: AnalyzerContext): boolean;
+
+  /**
+   * Analyze the page
+   */
+  run(page: Page, context: AnalyzerContext): Promise<TReport>;
+
+  /**
+   * Score (0-100) the report adds to the page's average, if any
+   */
+  score?(report: TReport): number | undefined;
+
+  /**
+   * Pain points for outreach found in the report
+   */
+  toPainPoints(report: TReport): PainPoint[];
+}
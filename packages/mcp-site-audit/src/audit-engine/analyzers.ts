@@ -0,0 +1,423 @@
+import type { Page } from "puppeteer";
+
+import { type PainPoint, type Severity, AppError, ErrorCode } from "@the-closer/shared";
+
+import { PerformanceAnalyzer } from "./performance.js";
+import { AccessibilityScanner } from "./accessibility.js";
+import { ResponsivenessAnalyzer } from "./responsive.js";
+import { SeoAnalyzer } from "./seo.js";
+import { TechStackAnalyzer } from "./tech-stack.js";
+import type { AnalyzerContext, AuditAnalyzer } from "./analyzer-types.js";
+import type { PerformanceReport, SamplingOptions } from "./types.js";
+import type { AccessibilityReport, AccessibilityScanOptions } from "./accessibility-types.js";
+import type { ResponsivenessReport, ResponsivenessOptions } from "./responsive-types.js";
+import type { SeoIssue, SeoOptions, SeoReport } from "./seo-types.js";
+import type { TechStackOptions, TechStackReport } from "./tech-stack-types.js";
+import type { BrowserPool } from "../browser/index.js";
+
+// ============================================
+// Built-in Analyzers
+// ============================================
+
+/**
+ * Performance analysis (Core Web Vitals, resources, coverage)
+ *
+ * With performanceRuns above 1 the page is sampled over fresh contexts
+ * from the browser pool instead of the audit page.
+ */
+export class PerformancePlugin implements AuditAnalyzer<PerformanceReport> {
+  readonly name = "performance";
+  readonly title = "Performance analysis";
+
+  constructor(
+    private readonly analyzer: PerformanceAnalyzer = new PerformanceAnalyzer(),
+    private readonly browserPool?: BrowserPool
+  ) {}
+
+  appliesTo(context: AnalyzerContext): boolean {
+    return context.options.runPerformance;
+  }
+
+  async run(page: Page, context: AnalyzerContext): Promise<PerformanceReport> {
+    const { options } = context;
+    const { runs, ...analysisOptions }: Partial<SamplingOptions> = {
+      timeout: options.timeout,
+      throttlingProfile: options.throttlingProfile,
+      runs: options.performanceRuns,
+      // Load reports only come from the entry page
+      captureTrace: options.captureLoadReport && context.isEntryPage,
+      ...options.analyzerOptions[this.name],
+    };
+
+    if (runs === undefined || runs <= 1) {
+      return this.analyzer.analyzePerformance(page, context.url, analysisOptions);
+    }
+
+    if (!this.browserPool) {
+      throw new AppError("Multi-run performance sampling requires a browser pool", {
+        code: ErrorCode.VALIDATION_ERROR,
+        statusCode: 400,
+        context: { runs },
+      });
+    }
+
+    return this.analyzer.analyzeSampled(this.browserPool, context.url, {
+      ...analysisOptions,
+      runs,
+    });
+  }
+
+  score(report: PerformanceReport): number {
+    return report.score;
+  }
+
+  toPainPoints(report: PerformanceReport): PainPoint[] {
+    return report.painPoints.map((pp) => ({
+      type: pp.type,
+      value: pp.value,
+      severity: mapSeverity(pp.severity),
+      description: pp.description,
+    }));
+  }
+}
+
+/**
+ * WCAG accessibility scan
+ */
+export class AccessibilityPlugin implements AuditAnalyzer<AccessibilityReport> {
+  readonly name = "accessibility";
+  readonly title = "Accessibility scan";
+
+  constructor(private readonly scanner: AccessibilityScanner = new AccessibilityScanner()) {}
+
+  appliesTo(context: AnalyzerContext): boolean {
+    return context.options.runAccessibility;
+  }
+
+  async run(page: Page, context: AnalyzerContext): Promise<AccessibilityReport> {
+    const { options } = context;
+    const scanOptions: Partial<AccessibilityScanOptions> = {
+      level: options.wcagLevel,
+      timeout: options.timeout,
+      ...options.analyzerOptions[this.name],
+    };
+    return this.scanner.scanAccessibility(page, context.url, scanOptions);
+  }
+
+  score(report: AccessibilityReport): number {
+    return report.score;
+  }
+
+  toPainPoints(report: AccessibilityReport): PainPoint[] {
+    const painPoints: PainPoint[] = [];
+
+    // Add pain point for critical violations
+    const criticalCount = report.violations.filter((v) => v.severity === "critical").length;
+    if (criticalCount > 0) {
+      painPoints.push({
+        type: "WCAG_VIOLATION",
+        value: `${criticalCount} critical violations`,
+        severity: "CRITICAL",
+        description: `Found ${criticalCount} critical WCAG violations affecting accessibility`,
+      });
+    }
+
+    // Add pain point for high legal risk
+    if (report.legalRisk.score >= 75) {
+      painPoints.push({
+        type: "WCAG_VIOLATION",
+        value: `Legal risk score: ${report.legalRisk.score}`,
+        severity: "HIGH",
+        description: report.legalRisk.recommendation,
+      });
+    }
+
+    // Add pain point for low accessibility score
+    if (report.score < 50) {
+      painPoints.push({
+        type: "WCAG_VIOLATION",
+        value: `Accessibility score: ${report.score}`,
+        severity: "HIGH",
+        description: `Website accessibility score is below acceptable threshold`,
+      });
+    }
+
+    return painPoints;
+  }
+}
+
+/**
+ * Mobile responsiveness across viewports
+ */
+export class ResponsivenessPlugin implements AuditAnalyzer<ResponsivenessReport> {
+  readonly name = "responsiveness";
+  readonly title = "Responsiveness analysis";
+
+  constructor(
+    private readonly analyzer: ResponsivenessAnalyzer = new ResponsivenessAnalyzer()
+  ) {}
+
+  appliesTo(context: AnalyzerContext): boolean {
+    return context.options.runResponsiveness;
+  }
+
+  async run(page: Page, context: AnalyzerContext): Promise<ResponsivenessReport> {
+    const { options } = context;
+    const analysisOptions: Partial<ResponsivenessOptions> = {
+      timeout: options.timeout,
+      ...options.analyzerOptions[this.name],
+    };
+    return this.analyzer.analyzeResponsiveness(page, context.url, analysisOptions);
+  }
+
+  score(report: ResponsivenessReport): number {
+    return report.score;
+  }
+
+  toPainPoints(report: ResponsivenessReport): PainPoint[] {
+    const painPoints: PainPoint[] = [];
+
+    // Check for horizontal overflow
+    const overflowIssues = report.issues.filter(
+      (i) => i.type === "HORIZONTAL_OVERFLOW" || i.type === "CONTENT_CLIPPED"
+    );
+    if (overflowIssues.length > 0) {
+      painPoints.push({
+        type: "BROKEN_MOBILE_UX",
+        value: `Horizontal overflow on ${overflowIssues.length} viewport(s)`,
+        severity: "HIGH",
+        description: "Website content overflows horizontally on mobile devices",
+      });
+    }
+
+    // Check for touch target issues
+    const touchIssues = report.issues.filter((i) => i.type === "TOUCH_TARGET_TOO_SMALL");
+    if (touchIssues.length > 0) {
+      painPoints.push({
+        type: "BROKEN_MOBILE_UX",
+        value: `${touchIssues.length} small touch targets`,
+        severity: "MEDIUM",
+        description: "Interactive elements are too small for touch on mobile",
+      });
+    }
+
+    // Check for text size issues
+    const textIssues = report.issues.filter((i) => i.type === "TEXT_TOO_SMALL");
+    if (textIssues.length > 0) {
+      painPoints.push({
+        type: "BROKEN_MOBILE_UX",
+        value: `${textIssues.length} text readability issues`,
+        severity: "MEDIUM",
+        description: "Text is too small to read on mobile devices",
+      });
+    }
+
+    // Overall responsiveness score
+    if (report.score < 50) {
+      painPoints.push({
+        type: "BROKEN_MOBILE_UX",
+        value: `Responsiveness score: ${report.score}`,
+        severity: "HIGH",
+        description: "Website has significant mobile responsiveness issues",
+      });
+    }
+
+    return painPoints;
+  }
+}
+
+/**
+ * SEO and hygiene checks (meta tags, links, images, HTTPS)
+ */
+export class SeoPlugin implements AuditAnalyzer<SeoReport> {
+  readonly name = "seo";
+  readonly title = "SEO analysis";
+
+  constructor(private readonly analyzer: SeoAnalyzer = new SeoAnalyzer()) {}
+
+  appliesTo(context: AnalyzerContext): boolean {
+    return context.options.runSeo;
+  }
+
+  async run(page: Page, context: AnalyzerContext): Promise<SeoReport> {
+    const { options } = context;
+    const analysisOptions: Partial<SeoOptions> = {
+      timeout: options.timeout,
+      ...options.analyzerOptions[this.name],
+    };
+    return this.analyzer.analyzeSeo(page, context.url, analysisOptions);
+  }
+
+  score(report: SeoReport): number {
+    return report.score;
+  }
+
+  toPainPoints(report: SeoReport): PainPoint[] {
+    const painPoints: PainPoint[] = [];
+    const issuesOf = (...types: SeoIssue["type"][]) =>
+      report.issues.filter((i) => types.includes(i.type));
+
+    // Missing or misleading head tags
+    const noindex = issuesOf("NOINDEX");
+    const metaIssues = issuesOf(
+      "MISSING_TITLE",
+      "MISSING_META_DESCRIPTION",
+      "MISSING_OPEN_GRAPH",
+      "CANONICAL_OFF_SITE"
+    );
+    if (noindex.length > 0) {
+      painPoints.push({
+        type: "MISSING_META",
+        value: "Homepage is hidden from search engines (noindex)",
+        severity: "CRITICAL",
+        description: noindex[0]!.description,
+      });
+    } else if (metaIssues.length > 0) {
+      painPoints.push({
+        type: "MISSING_META",
+        value: `${metaIssues.length} missing or incorrect meta tag(s)`,
+        severity: metaIssues.some((i) => i.severity === "high") ? "HIGH" : "MEDIUM",
+        description: metaIssues.map((i) => i.description).join("; "),
+      });
+    }
+
+    // Broken links
+    if (report.summary.brokenLinks > 0) {
+      const brokenInternal = report.links.filter((l) => !l.ok && l.internal).length;
+      painPoints.push({
+        type: "BROKEN_LINKS",
+        value: `${report.summary.brokenLinks} broken link(s)`,
+        severity: brokenInternal > 0 ? "HIGH" : "MEDIUM",
+        description:
+          brokenInternal > 0
+            ? `${brokenInternal} link(s) to the site's own pages lead nowhere`
+            : "Links to other sites lead to missing pages",
+      });
+    }
+
+    // Heavy images
+    if (report.summary.largeImages > 0) {
+      const savingsKb = Math.round(report.summary.potentialImageSavingsBytes / 1024);
+      painPoints.push({
+        type: "LARGE_IMAGES",
+        value: `${savingsKb} KB of image weight could be saved`,
+        severity: savingsKb > 1024 ? "HIGH" : "MEDIUM",
+        description: `${report.summary.largeImages} image(s) are larger than they are displayed or use legacy formats`,
+      });
+    }
+
+    // HTTPS
+    const httpsIssues = issuesOf("NO_HTTPS", "NO_HTTPS_REDIRECT", "MIXED_CONTENT");
+    if (httpsIssues.length > 0) {
+      const noHttps = httpsIssues.some((i) => i.type === "NO_HTTPS");
+      painPoints.push({
+        type: "NO_HTTPS",
+        value: noHttps ? "Site is not served over HTTPS" : `${httpsIssues.length} HTTPS issue(s)`,
+        severity: noHttps ? "CRITICAL" : "HIGH",
+        description: noHttps
+          ? "Browsers show visitors a \"Not secure\" warning"
+          : httpsIssues.map((i) => i.description).join("; "),
+      });
+    }
+
+    return painPoints;
+  }
+}
+
+/**
+ * Technology fingerprinting with outdated and vulnerable versions
+ *
+ * Runs on the entry page only; a site's stack is the same throughout.
+ */
+export class TechStackPlugin implements AuditAnalyzer<TechStackReport> {
+  readonly name = "techStack";
+  readonly title = "Tech stack analysis";
+
+  constructor(private readonly analyzer: TechStackAnalyzer = new TechStackAnalyzer()) {}
+
+  appliesTo(context: AnalyzerContext): boolean {
+    return context.options.runTechStack && context.isEntryPage;
+  }
+
+  async run(page: Page, context: AnalyzerContext): Promise<TechStackReport> {
+    const { options } = context;
+    const analysisOptions: Partial<TechStackOptions> = {
+      timeout: options.timeout,
+      ...options.analyzerOptions[this.name],
+    };
+    return this.analyzer.analyzeTechStack(page, context.url, analysisOptions);
+  }
+
+  toPainPoints(report: TechStackReport): PainPoint[] {
+    const outdated = report.technologies.filter((t) => t.outdated);
+    if (report.vulnerabilities.length === 0 && outdated.length === 0) {
+      return [];
+    }
+
+    // Vulnerable versions lead; the outdated list explains the rest
+    const vulnerable = new Map<string, string[]>();
+    for (const v of report.vulnerabilities) {
+      const key = `${v.technology} ${v.version}`;
+      vulnerable.set(key, [...(vulnerable.get(key) ?? []), v.id]);
+    }
+    const details = [
+      ...[...vulnerable].map(([technology, ids]) => `${technology} (${ids.join(", ")})`),
+      ...outdated
+        .filter((t) => !vulnerable.has(`${t.name} ${t.version}`))
+        .map((t) => t.outdatedReason ?? t.name),
+    ];
+
+    if (report.vulnerabilities.length > 0) {
+      const count = report.vulnerabilities.length;
+      return [
+        {
+          type: "OUTDATED_TECH",
+          value: `${count} known vulnerabilit${count === 1 ? "y" : "ies"} in ${[...vulnerable.keys()].join(", ")}`,
+          severity: report.summary.severeVulnerabilities > 0 ? "HIGH" : "MEDIUM",
+          description: details.join("; "),
+        },
+      ];
+    }
+
+    return [
+      {
+        type: "OUTDATED_TECH",
+        value: `${outdated.length} outdated technolog${outdated.length === 1 ? "y" : "ies"}: ${outdated.map((t) => t.name).join(", ")}`,
+        severity: "MEDIUM",
+        description: details.join("; "),
+      },
+    ];
+  }
+}
+
+/**
+ * The built-in analyzers in their default run order
+ *
+ * The browser pool enables multi-run performance sampling.
+ */
+export function createBuiltInAnalyzers(browserPool?: BrowserPool): AuditAnalyzer[] {
+  return [
+    new PerformancePlugin(new PerformanceAnalyzer(), browserPool),
+    new AccessibilityPlugin(),
+    new ResponsivenessPlugin(),
+    new SeoPlugin(),
+    new TechStackPlugin(),
+  ];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Map an analyzer's lowercase severity to the shared Severity
+ */
+export function mapSeverity(severity: "low" | "medium" | "high" | "critical"): Severity {
+  const map: Record<string, Severity> = {
+    low: "LOW",
+    medium: "MEDIUM",
+    high: "HIGH",
+    critical: "CRITICAL",
+  };
+  return map[severity] ?? "MEDIUM";
+}
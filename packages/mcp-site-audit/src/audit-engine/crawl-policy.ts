@@ -0,0 +1,143 @@
+import {
+  type RobotsDecision,
+  type RobotsTxtRules,
+  type SessionManager,
+  globalSessionManager,
+} from "@the-closer/shared";
+
+/**
+ * Crawl policy options
+ */
+export interface CrawlPolicyOptions {
+  /** Shares robots.txt cache and the respectRobotsTxt setting */
+  sessionManager?: SessionManager;
+  /** Timeout for robots.txt requests */
+  fetchTimeout?: number;
+  /** User agent sent with robots.txt requests */
+  userAgent?: string;
+}
+
+/**
+ * CrawlPolicy - Decides whether a URL may be audited and paces
+ * requests to each host
+ *
+ * robots.txt is checked through SessionManager.canCrawl, so rules are
+ * cached per host and respectRobotsTxt applies. A robots.txt that
+ * returns 404 allows everything; one that can't be fetched is treated
+ * the same way but isn't cached.
+ */
+export class CrawlPolicy {
+  private readonly sessionManager: SessionManager;
+  private readonly fetchTimeout: number;
+  private readonly userAgent: string | undefined;
+  /** Last navigation to each host, for crawl-delay */
+  private readonly lastRequestAt = new Map<string, number>();
+
+  constructor(options: CrawlPolicyOptions = {}) {
+    this.sessionManager = options.sessionManager ?? globalSessionManager;
+    this.fetchTimeout = options.fetchTimeout ?? 10000;
+    this.userAgent = options.userAgent;
+  }
+
+  /**
+   * Check robots.txt for a URL and describe the decision
+   */
+  async check(url: string): Promise<RobotsDecision> {
+    const checkedAt = new Date().toISOString();
+    const enforced = this.sessionManager.getConfig().respectRobotsTxt;
+
+    if (!enforced) {
+      return {
+        url,
+        allowed: true,
+        enforced,
+        checkedAt,
+        reason: "robots.txt checks are turned off",
+      };
+    }
+
+    const result = await this.sessionManager.canCrawl(url, (robotsUrl) =>
+      this.fetchRobotsTxt(robotsUrl)
+    );
+    const parsed = new URL(url);
+    const rules = this.sessionManager.getCachedRobotsTxt(parsed.hostname);
+    const matchedRule =
+      !result.allowed && rules ? findDisallowRule(parsed.pathname, rules) : undefined;
+
+    let reason: string;
+    if (!result.allowed) {
+      reason = `Disallowed by robots.txt${matchedRule ? ` (${matchedRule})` : ""}`;
+    } else if (rules) {
+      reason = "Allowed by robots.txt";
+    } else {
+      reason = "robots.txt could not be fetched; allowed by default";
+    }
+
+    return {
+      url,
+      allowed: result.allowed,
+      enforced,
+      ...(matchedRule !== undefined && { matchedRule }),
+      ...(result.crawlDelay !== undefined && { crawlDelayMs: result.crawlDelay }),
+      checkedAt,
+      reason,
+    };
+  }
+
+  /**
+   * Sitemaps listed in the robots.txt of a URL's host
+   */
+  async getSitemaps(url: string): Promise<string[]> {
+    const rules = await this.sessionManager.fetchRobotsTxt(new URL(url).hostname, (robotsUrl) =>
+      this.fetchRobotsTxt(robotsUrl)
+    );
+    return rules?.sitemaps ?? [];
+  }
+
+  /**
+   * Wait until the host's crawl-delay has passed since its last
+   * navigation, then record this one
+   */
+  async waitForTurn(url: string, crawlDelayMs: number | undefined): Promise<void> {
+    const host = new URL(url).hostname;
+    const last = this.lastRequestAt.get(host);
+
+    if (crawlDelayMs !== undefined && last !== undefined) {
+      const waitMs = last + crawlDelayMs - Date.now();
+      if (waitMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+      }
+    }
+
+    this.lastRequestAt.set(host, Date.now());
+  }
+
+  /**
+   * Fetch robots.txt, returning an empty file for 4xx responses
+   */
+  private async fetchRobotsTxt(robotsUrl: string): Promise<string> {
+    const response = await fetch(robotsUrl, {
+      ...(this.userAgent !== undefined && { headers: { "user-agent": this.userAgent } }),
+      signal: AbortSignal.timeout(this.fetchTimeout),
+    });
+
+    if (response.status >= 400 && response.status < 500) {
+      await response.body?.cancel();
+      return "";
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`robots.txt returned HTTP ${response.status}`);
+    }
+
+    return response.text();
+  }
+}
+
+/**
+ * The Disallow rule that matches a path, mirroring isPathAllowed
+ */
+function findDisallowRule(path: string, rules: RobotsTxtRules): string | undefined {
+  const rule = rules.disallowed.find((disallowed) => disallowed === "/" || path.startsWith(disallowed));
+  return rule !== undefined ? `Disallow: ${rule}` : undefined;
+}
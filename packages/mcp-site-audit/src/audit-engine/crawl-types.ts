@@ -0,0 +1,100 @@
+import { z } from "zod";
+
+import type { CrawlSource } from "@the-closer/shared";
+
+/**
+ * Page found while crawling a site
+ */
+export interface DiscoveredPage {
+  url: string;
+  source: CrawlSource;
+  /** Higher is audited first */
+  priority: number;
+}
+
+/**
+ * Pages discovered for a site crawl
+ */
+export interface CrawlDiscovery {
+  entryUrl: string;
+  /** Same-origin pages in audit order, entry page first */
+  pages: DiscoveredPage[];
+  /** Pages left out because robots.txt disallows them */
+  skipped: Array<{ url: string; reason: string }>;
+  /** Same-origin pages found before the page limit was applied */
+  totalFound: number;
+  sitemapsChecked: string[];
+  /** Non-fatal problems (unreachable sitemaps, malformed XML) */
+  errors: string[];
+  durationMs: number;
+}
+
+/**
+ * Site crawl options
+ */
+export const CrawlOptionsSchema = z.object({
+  /** Maximum pages audited, including the entry page */
+  maxPages: z.number().int().min(1).max(50).default(10),
+
+  /** Navigation timeout for the entry page */
+  timeout: z.number().int().positive().default(30000),
+
+  /** Timeout for each sitemap request */
+  fetchTimeout: z.number().int().positive().default(10000),
+
+  /** Read sitemaps listed in robots.txt, falling back to /sitemap.xml */
+  useSitemap: z.boolean().default(true),
+
+  /** Follow links found on the entry page */
+  followLinks: z.boolean().default(true),
+
+  /** Maximum sitemap files read, including nested sitemap indexes */
+  maxSitemaps: z.number().int().positive().default(5),
+});
+
+export type CrawlOptions = z.output<typeof CrawlOptionsSchema>;
+
+/**
+ * Path keywords of the pages that bring in business, audited before
+ * the rest of the site
+ */
+export const PRIORITY_PAGE_PATTERNS: ReadonlyArray<{ pattern: RegExp; priority: number }> = [
+  { pattern: /contact|get-in-touch|enquir|inquir/, priority: 100 },
+  { pattern: /book|appointment|schedul|reserv/, priority: 90 },
+  { pattern: /quote|estimate|pricing|prices|rates/, priority: 80 },
+  { pattern: /service|treatment|menu|what-we-do/, priority: 70 },
+  { pattern: /about|team|location|hours/, priority: 40 },
+];
+
+/**
+ * Paths that are private, transactional or not real pages
+ */
+export const EXCLUDED_PATH_PATTERN =
+  /\/(wp-admin|wp-login\.php|wp-json|login|logout|cart|checkout|my-account|account|feed|tag|author)(\/|$)/i;
+
+/**
+ * File extensions that are never HTML pages
+ */
+export const NON_PAGE_EXTENSIONS = new Set([
+  "pdf",
+  "jpg",
+  "jpeg",
+  "png",
+  "gif",
+  "webp",
+  "svg",
+  "ico",
+  "css",
+  "js",
+  "json",
+  "xml",
+  "txt",
+  "zip",
+  "mp3",
+  "mp4",
+  "mov",
+  "doc",
+  "docx",
+  "xls",
+  "xlsx",
+]);
@@ -0,0 +1,162 @@
+import type { Page } from "puppeteer";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { RobotsDecision } from "@the-closer/shared";
+
+import type { CrawlPolicy } from "./crawl-policy.js";
+import { normalizePageUrl, parseSitemapLocations, SiteCrawler } from "./crawler.js";
+
+describe("normalizePageUrl", () => {
+  const entry = new URL("https://www.smithplumbing.com/");
+
+  it("resolves relative links against the entry page and drops the fragment", () => {
+    expect(normalizePageUrl("/services#emergency", entry)).toBe(
+      "https://www.smithplumbing.com/services"
+    );
+    expect(normalizePageUrl("contact?ref=nav", entry)).toBe(
+      "https://www.smithplumbing.com/contact?ref=nav"
+    );
+  });
+
+  it("treats www and bare hosts as the same site", () => {
+    expect(normalizePageUrl("https://smithplumbing.com/about", entry)).toBe(
+      "https://smithplumbing.com/about"
+    );
+    expect(normalizePageUrl("http://WWW.SmithPlumbing.com/book", entry)).toBe(
+      "http://www.smithplumbing.com/book"
+    );
+  });
+
+  it("rejects other hosts, including subdomains", () => {
+    expect(normalizePageUrl("https://facebook.com/smithplumbing", entry)).toBeNull();
+    expect(normalizePageUrl("https://shop.smithplumbing.com/", entry)).toBeNull();
+  });
+
+  it("rejects links that are not http(s)", () => {
+    expect(normalizePageUrl("mailto:office@smithplumbing.com", entry)).toBeNull();
+    expect(normalizePageUrl("tel:+15550100", entry)).toBeNull();
+    expect(normalizePageUrl("javascript:void(0)", entry)).toBeNull();
+  });
+
+  it("rejects admin, account and feed paths", () => {
+    expect(normalizePageUrl("/wp-admin/", entry)).toBeNull();
+    expect(normalizePageUrl("/my-account/orders", entry)).toBeNull();
+    expect(normalizePageUrl("/blog/feed", entry)).toBeNull();
+    expect(normalizePageUrl("/accountants", entry)).toBe("https://www.smithplumbing.com/accountants");
+  });
+
+  it("rejects files that are not pages", () => {
+    expect(normalizePageUrl("/files/price-list.PDF", entry)).toBeNull();
+    expect(normalizePageUrl("/images/van.jpg", entry)).toBeNull();
+    expect(normalizePageUrl("/services.html", entry)).toBe(
+      "https://www.smithplumbing.com/services.html"
+    );
+  });
+});
+
+describe("parseSitemapLocations", () => {
+  it("reads the locations of a urlset in order", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/</loc><lastmod>2026-01-01</lastmod></url>
+  <url>
+    <loc>
+      https://example.com/services
+    </loc>
+  </url>
+</urlset>`;
+
+    expect(parseSitemapLocations(xml)).toEqual([
+      "https://example.com/",
+      "https://example.com/services",
+    ]);
+  });
+
+  it("reads sitemap index entries", () => {
+    const xml = `<sitemapindex>
+  <sitemap><loc>https://example.com/page-sitemap.xml</loc></sitemap>
+  <sitemap><LOC>https://example.com/post-sitemap.xml.gz</LOC></sitemap>
+</sitemapindex>`;
+
+    expect(parseSitemapLocations(xml)).toEqual([
+      "https://example.com/page-sitemap.xml",
+      "https://example.com/post-sitemap.xml.gz",
+    ]);
+  });
+
+  it("unwraps CDATA and decodes XML entities", () => {
+    const xml = `<urlset>
+  <url><loc><![CDATA[https://example.com/search?a=1&b=2]]></loc></url>
+  <url><loc>https://example.com/list?page=2&amp;sort=new</loc></url>
+</urlset>`;
+
+    expect(parseSitemapLocations(xml)).toEqual([
+      "https://example.com/search?a=1&b=2",
+      "https://example.com/list?page=2&sort=new",
+    ]);
+  });
+
+  it("skips empty locations and returns nothing for other documents", () => {
+    expect(parseSitemapLocations("<urlset><url><loc> </loc></url></urlset>")).toEqual([]);
+    expect(parseSitemapLocations("<html><body>Not found</body></html>")).toEqual([]);
+  });
+});
+
+describe("SiteCrawler sitemap fetches", () => {
+  const page = { browser: () => ({ userAgent: async () => "TestBot/1.0" }) } as unknown as Page;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function decision(url: string, allowed: boolean, crawlDelayMs?: number): RobotsDecision {
+    return {
+      url,
+      allowed,
+      enforced: true,
+      checkedAt: new Date().toISOString(),
+      reason: allowed ? "Allowed by robots.txt" : "Disallowed by robots.txt",
+      ...(crawlDelayMs !== undefined && { crawlDelayMs }),
+    };
+  }
+
+  it("checks robots.txt and waits out the crawl-delay before each sitemap request", async () => {
+    const calls: string[] = [];
+    const policy = {
+      getSitemaps: vi.fn(async () => [
+        "https://example.com/sitemap.xml",
+        "https://cdn.example.net/private/sitemap.xml",
+      ]),
+      check: vi.fn(async (url: string) =>
+        decision(url, !url.startsWith("https://cdn.example.net/private/"), 500)
+      ),
+      waitForTurn: vi.fn(async (url: string, crawlDelayMs: number | undefined) => {
+        calls.push(`wait ${url} ${crawlDelayMs}`);
+      }),
+    };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        calls.push(`fetch ${url}`);
+        return new Response("<urlset><url><loc>https://example.com/services</loc></url></urlset>");
+      })
+    );
+
+    const crawler = new SiteCrawler(policy as unknown as CrawlPolicy);
+    const discovery = await crawler.discoverPages(page, "https://example.com/", {
+      followLinks: false,
+    });
+
+    expect(calls).toEqual([
+      "wait https://example.com/sitemap.xml 500",
+      "fetch https://example.com/sitemap.xml",
+    ]);
+    expect(discovery.errors).toEqual([
+      "Sitemap https://cdn.example.net/private/sitemap.xml skipped: Disallowed by robots.txt",
+    ]);
+    expect(discovery.pages.map((p) => p.url)).toEqual([
+      "https://example.com/",
+      "https://example.com/services",
+    ]);
+  });
+});
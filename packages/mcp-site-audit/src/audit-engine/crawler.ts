@@ -0,0 +1,315 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { gunzipSync } from "node:zlib";
+
+import type { Page } from "puppeteer";
+
+import { BrowserError, type CrawlSource } from "@the-closer/shared";
+
+import {
+  type CrawlDiscovery,
+  type CrawlOptions,
+  type DiscoveredPage,
+  CrawlOptionsSchema,
+  EXCLUDED_PATH_PATTERN,
+  NON_PAGE_EXTENSIONS,
+  PRIORITY_PAGE_PATTERNS,
+} from "./crawl-types.js";
+import type { CrawlPolicy } from "./crawl-policy.js";
+
+// Browser globals for page.evaluate
+declare const document: any;
+
+/**
+ * Priority of the entry page, which is always audited first
+ */
+const ENTRY_PRIORITY = 1000;
+
+/**
+ * Maximum URLs read from a single sitemap
+ */
+const MAX_SITEMAP_URLS = 500;
+
+/**
+ * SiteCrawler - Finds the pages of a site worth auditing
+ *
+ * Reads the sitemaps listed in robots.txt (or /sitemap.xml) and the
+ * links on the entry page, keeps same-origin HTML pages and ranks
+ * contact, booking and service pages ahead of the rest. Pages and
+ * sitemaps that robots.txt disallows are skipped.
+ */
+export class SiteCrawler {
+  private readonly crawlPolicy: CrawlPolicy;
+
+  constructor(crawlPolicy: CrawlPolicy) {
+    this.crawlPolicy = crawlPolicy;
+  }
+
+  /**
+   * Discover the pages to audit, starting from the entry URL
+   */
+  async discoverPages(
+    page: Page,
+    entryUrl: string,
+    options: Partial<CrawlOptions> = {}
+  ): Promise<CrawlDiscovery> {
+    const startTime = Date.now();
+    const opts = CrawlOptionsSchema.parse(options);
+    const errors: string[] = [];
+    const sitemapsChecked: string[] = [];
+
+    let entry: URL;
+    try {
+      entry = new URL(entryUrl);
+    } catch (error) {
+      throw new BrowserError(`Invalid crawl URL: ${entryUrl}`, {
+        cause: error instanceof Error ? error : undefined,
+      });
+    }
+
+    const found = new Map<string, DiscoveredPage>();
+    const add = (rawUrl: string, source: CrawlSource): void => {
+      const url = normalizePageUrl(rawUrl, entry);
+      if (url === null) return;
+      const key = pageKey(url);
+      if (found.has(key)) return;
+      found.set(key, { url, source, priority: rankPage(url, source) });
+    };
+
+    found.set(pageKey(entry.href), {
+      url: entry.href,
+      source: "entry",
+      priority: ENTRY_PRIORITY,
+    });
+
+    const userAgent = await page.browser().userAgent();
+
+    if (opts.followLinks) {
+      try {
+        const entryDecision = await this.crawlPolicy.check(entry.href);
+        await this.crawlPolicy.waitForTurn(entry.href, entryDecision.crawlDelayMs);
+        await page.goto(entry.href, {
+          waitUntil: "networkidle2",
+          timeout: opts.timeout,
+        });
+        for (const href of await this.collectLinks(page)) {
+          add(href, "link");
+        }
+      } catch (error) {
+        errors.push(
+          `Link discovery failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (opts.useSitemap) {
+      const sitemapUrls = await this.readSitemaps(
+        entry,
+        userAgent,
+        opts,
+        sitemapsChecked,
+        errors
+      );
+      for (const url of sitemapUrls) {
+        add(url, "sitemap");
+      }
+    }
+
+    // Sort is stable, so equal priorities keep discovery order
+    const ranked = [...found.values()].sort((a, b) => b.priority - a.priority);
+
+    // Fill the page budget with pages robots.txt allows
+    const pages: DiscoveredPage[] = [];
+    const skipped: CrawlDiscovery["skipped"] = [];
+    for (const candidate of ranked) {
+      if (pages.length >= opts.maxPages) break;
+      const decision = await this.crawlPolicy.check(candidate.url);
+      if (decision.allowed || candidate.source === "entry") {
+        pages.push(candidate);
+      } else {
+        skipped.push({ url: candidate.url, reason: decision.reason });
+      }
+    }
+
+    return {
+      entryUrl: entry.href,
+      pages,
+      skipped,
+      totalFound: ranked.length,
+      sitemapsChecked,
+      errors,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Collect the resolved href of every link on the loaded page
+   */
+  private async collectLinks(page: Page): Promise<string[]> {
+    return page.evaluate(() =>
+      Array.from(document.querySelectorAll("a[href]"))
+        .map((a: any) => a.href as string)
+        .filter((href) => href.startsWith("http"))
+    );
+  }
+
+  /**
+   * Read page URLs from the site's sitemaps
+   *
+   * Sitemap indexes are followed breadth-first until maxSitemaps
+   * files have been read. Sitemaps can live on another host, so each
+   * fetch gets the same robots.txt check and crawl-delay as a page.
+   */
+  private async readSitemaps(
+    entry: URL,
+    userAgent: string,
+    opts: CrawlOptions,
+    sitemapsChecked: string[],
+    errors: string[]
+  ): Promise<string[]> {
+    const queue = await this.findSitemaps(entry);
+    const seen = new Set<string>();
+    const pageUrls: string[] = [];
+
+    while (queue.length > 0 && sitemapsChecked.length < opts.maxSitemaps) {
+      const sitemapUrl = queue.shift()!;
+      if (seen.has(sitemapUrl)) continue;
+      seen.add(sitemapUrl);
+      sitemapsChecked.push(sitemapUrl);
+
+      try {
+        const decision = await this.crawlPolicy.check(sitemapUrl);
+        if (!decision.allowed) {
+          errors.push(`Sitemap ${sitemapUrl} skipped: ${decision.reason}`);
+          continue;
+        }
+        await this.crawlPolicy.waitForTurn(sitemapUrl, decision.crawlDelayMs);
+
+        const xml = await this.fetchSitemap(sitemapUrl, userAgent, opts.fetchTimeout);
+        const locations = parseSitemapLocations(xml);
+        if (/<sitemapindex[\s>]/i.test(xml)) {
+          queue.push(...locations);
+        } else {
+          pageUrls.push(...locations.slice(0, MAX_SITEMAP_URLS));
+        }
+      } catch (error) {
+        errors.push(
+          `Sitemap ${sitemapUrl} could not be read: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return pageUrls;
+  }
+
+  /**
+   * Sitemaps listed in robots.txt, or the conventional /sitemap.xml
+   */
+  private async findSitemaps(entry: URL): Promise<string[]> {
+    const sitemaps = await this.crawlPolicy.getSitemaps(entry.href);
+    return sitemaps.length > 0 ? sitemaps : [new URL("/sitemap.xml", entry.origin).href];
+  }
+
+  /**
+   * Fetch a sitemap, decompressing .xml.gz files
+   */
+  private async fetchSitemap(
+    sitemapUrl: string,
+    userAgent: string,
+    timeout: number
+  ): Promise<string> {
+    const response = await fetch(sitemapUrl, {
+      headers: { "user-agent": userAgent },
+      signal: AbortSignal.timeout(timeout),
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const body = Buffer.from(await response.arrayBuffer());
+    // Gzip magic bytes; servers that set Content-Encoding are already decoded
+    if (body[0] === 0x1f && body[1] === 0x8b) {
+      return gunzipSync(body).toString("utf-8");
+    }
+    return body.toString("utf-8");
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Resolve a URL and keep it only if it is an HTML page on the entry site
+ *
+ * "www." is ignored when comparing hosts, since small-business sites
+ * often mix both forms in their links.
+ */
+export function normalizePageUrl(rawUrl: string, entry: URL): string | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl, entry);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  if (stripWww(url.hostname) !== stripWww(entry.hostname)) return null;
+  if (EXCLUDED_PATH_PATTERN.test(url.pathname)) return null;
+
+  const extension = /\.([a-z0-9]+)$/i.exec(url.pathname)?.[1]?.toLowerCase();
+  if (extension !== undefined && NON_PAGE_EXTENSIONS.has(extension)) return null;
+
+  url.hash = "";
+  return url.href;
+}
+
+/**
+ * Key used to recognize the same page under different URL forms
+ */
+function pageKey(url: string): string {
+  const parsed = new URL(url);
+  const path = parsed.pathname.replace(/\/+$/, "") || "/";
+  return `${stripWww(parsed.hostname)}${path}${parsed.search}`;
+}
+
+/**
+ * Audit priority of a discovered page
+ *
+ * Pages matching a priority keyword come first; links from the entry
+ * page beat sitemap-only pages, and shallow paths beat deep ones.
+ */
+function rankPage(url: string, source: CrawlSource): number {
+  const path = new URL(url).pathname.toLowerCase();
+  const keyword = PRIORITY_PAGE_PATTERNS.find(({ pattern }) => pattern.test(path));
+  const depth = path.split("/").filter(Boolean).length;
+
+  return (keyword?.priority ?? 0) + (source === "link" ? 10 : 0) - depth * 2;
+}
+
+/**
+ * Extract <loc> entries from sitemap or sitemap index XML
+ */
+export function parseSitemapLocations(xml: string): string[] {
+  const locations: string[] = [];
+  for (const match of xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*(.*?)\s*(?:\]\]>)?\s*<\/loc>/gis)) {
+    const location = decodeXmlEntities(match[1] ?? "");
+    if (location !== "") {
+      locations.push(location);
+    }
+  }
+  return locations;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function stripWww(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, "");
+}
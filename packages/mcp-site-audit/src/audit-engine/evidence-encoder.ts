@@ -0,0 +1,699 @@
+import { inflateSync } from "node:zlib";
+
+import type { LoadMarkers, TracingResult } from "./evidence-types.js";
+
+/**
+ * Decoded image with 8-bit RGBA pixels
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Options for encoding a page-load recording
+ */
+export interface LoadAnimationOptions {
+  /** Output frames per second */
+  frameRate: number;
+  /** Length of the clip; frames recorded after this are dropped */
+  durationMs: number;
+  /** FCP and LCP, relative to the start of the recording */
+  markers: LoadMarkers;
+  /** Burn the elapsed time into each frame */
+  showTimestamp: boolean;
+  /** Burn FCP/LCP ticks and labels into each frame */
+  showMarkers: boolean;
+  /** How long the final frame holds before the clip loops */
+  holdLastFrameMs: number;
+}
+
+// ============================================
+// Palette
+// ============================================
+
+/**
+ * Levels per channel of the fixed color cube (6 x 7 x 6 = 252 colors)
+ *
+ * Green gets the extra level because the eye is most sensitive to it.
+ */
+const CUBE_LEVELS = { red: 6, green: 7, blue: 6 } as const;
+
+/**
+ * Palette indices reserved for the overlay, after the color cube
+ */
+const OVERLAY_INDEX = {
+  background: 252,
+  fcp: 253,
+  lcp: 254,
+  track: 255,
+} as const;
+
+const OVERLAY_COLORS: ReadonlyArray<readonly [number, number, number]> = [
+  [17, 24, 39], // background
+  [34, 197, 94], // fcp
+  [249, 115, 22], // lcp
+  [75, 85, 99], // track
+];
+
+/**
+ * Palette index of pure white in the color cube
+ */
+const WHITE_INDEX = cubeIndex(CUBE_LEVELS.red - 1, CUBE_LEVELS.green - 1, CUBE_LEVELS.blue - 1);
+
+/**
+ * 4x4 Bayer matrix for ordered dithering
+ *
+ * Ordered dithering is position-based, so unchanged regions stay
+ * identical between frames and compress away.
+ */
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+// ============================================
+// Overlay font
+// ============================================
+
+/**
+ * 5x7 bitmap glyphs for the overlay text, one string per row
+ */
+const GLYPHS: Record<string, readonly string[]> = {
+  "0": ["01110", "10001", "10011", "10101", "11001", "10001", "01110"],
+  "1": ["00100", "01100", "00100", "00100", "00100", "00100", "01110"],
+  "2": ["01110", "10001", "00001", "00010", "00100", "01000", "11111"],
+  "3": ["11110", "00001", "00001", "01110", "00001", "00001", "11110"],
+  "4": ["00010", "00110", "01010", "10010", "11111", "00010", "00010"],
+  "5": ["11111", "10000", "11110", "00001", "00001", "10001", "01110"],
+  "6": ["00110", "01000", "10000", "11110", "10001", "10001", "01110"],
+  "7": ["11111", "00001", "00010", "00100", "01000", "01000", "01000"],
+  "8": ["01110", "10001", "10001", "01110", "10001", "10001", "01110"],
+  "9": ["01110", "10001", "10001", "01111", "00001", "00010", "01100"],
+  ".": ["00000", "00000", "00000", "00000", "00000", "01100", "01100"],
+  s: ["00000", "00000", "01111", "10000", "01110", "00001", "11110"],
+  C: ["01110", "10001", "10000", "10000", "10000", "10001", "01110"],
+  F: ["11111", "10000", "10000", "11110", "10000", "10000", "10000"],
+  L: ["10000", "10000", "10000", "10000", "10000", "10000", "11111"],
+  P: ["11110", "10001", "10001", "11110", "10000", "10000", "10000"],
+};
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+
+// ============================================
+// Encoding
+// ============================================
+
+/**
+ * Encode a page-load recording as a looping animated GIF
+ *
+ * Recorded frames are resampled to a fixed frame rate so the burned-in
+ * clock ticks evenly through stretches where nothing painted. A status
+ * bar below the page shows the elapsed time, a progress track with
+ * FCP/LCP ticks, and each metric's label once it has happened.
+ *
+ * Returns an empty array when there are no frames.
+ */
+export function encodeLoadAnimation(
+  frames: TracingResult["frames"],
+  options: LoadAnimationOptions
+): Uint8Array {
+  const recorded = [...frames].sort((a, b) => a.timestamp - b.timestamp);
+  const firstFrame = recorded[0];
+  if (!firstFrame) {
+    return new Uint8Array(0);
+  }
+
+  const first = decodePng(firstFrame.data);
+  const width = first.width;
+  const contentHeight = first.height;
+  const showBar = options.showTimestamp || options.showMarkers;
+  const bar = overlayLayout(width);
+  const height = contentHeight + (showBar ? bar.height : 0);
+
+  const gif = new GifWriter(width, height);
+  const step = 1000 / options.frameRate;
+  const frameCount = Math.floor(options.durationMs / step) + 1;
+
+  // Before the first recorded frame the screen is blank
+  let content: Uint8Array = new Uint8Array(width * contentHeight).fill(WHITE_INDEX);
+  let shown = -1;
+
+  for (let i = 0; i < frameCount; i++) {
+    const timeMs = Math.round(i * step);
+
+    let latest = shown;
+    while ((recorded[latest + 1]?.timestamp ?? Infinity) <= timeMs) {
+      latest++;
+    }
+    if (latest !== shown) {
+      const image = latest === 0 ? first : decodePng(recorded[latest]!.data);
+      content = quantizeImage(image, width, contentHeight);
+      shown = latest;
+    }
+
+    const canvas = new Uint8Array(width * height);
+    canvas.set(content);
+    if (showBar) {
+      drawOverlay(canvas, width, contentHeight, bar, timeMs, options);
+    }
+    gif.addFrame(canvas, timeMs);
+  }
+
+  return gif.finish(options.durationMs + options.holdLastFrameMs);
+}
+
+/**
+ * Decode an 8-bit, non-interlaced RGB or RGBA PNG
+ *
+ * This covers the screenshots and screencast frames Chrome produces;
+ * other PNG variants are rejected.
+ */
+export function decodePng(png: Uint8Array): RgbaImage {
+  const bytes = Buffer.from(png.buffer, png.byteOffset, png.byteLength);
+  if (bytes.length < 8 || bytes.readUInt32BE(0) !== 0x89504e47 || bytes.readUInt32BE(4) !== 0x0d0a1a0a) {
+    throw new Error("Not a PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const compressed: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString("ascii", offset + 4, offset + 8);
+    const body = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      const bitDepth = body[8];
+      const colorType = body[9];
+      const interlace = body[12];
+      if (bitDepth !== 8 || (colorType !== 2 && colorType !== 6) || interlace !== 0) {
+        throw new Error(
+          `Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`
+        );
+      }
+      channels = colorType === 6 ? 4 : 3;
+    } else if (type === "IDAT") {
+      compressed.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+
+    // Length, type, body and CRC
+    offset += 12 + length;
+  }
+
+  if (width === 0 || height === 0 || compressed.length === 0) {
+    throw new Error("PNG image has no pixel data");
+  }
+
+  const stride = width * channels;
+  const raw = inflateSync(Buffer.concat(compressed));
+  if (raw.length < height * (stride + 1)) {
+    throw new Error("PNG pixel data is truncated");
+  }
+
+  const data = new Uint8Array(width * height * 4);
+  let previous = new Uint8Array(stride);
+  let line = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1);
+    const filter = raw[rowStart]!;
+    const scanline = raw.subarray(rowStart + 1, rowStart + 1 + stride);
+    unfilterScanline(filter, scanline, previous, line, channels);
+
+    for (let x = 0; x < width; x++) {
+      const source = x * channels;
+      const target = (y * width + x) * 4;
+      data[target] = line[source]!;
+      data[target + 1] = line[source + 1]!;
+      data[target + 2] = line[source + 2]!;
+      data[target + 3] = channels === 4 ? line[source + 3]! : 255;
+    }
+
+    [previous, line] = [line, previous];
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Reverse a PNG scanline filter into `line`
+ */
+function unfilterScanline(
+  filter: number,
+  scanline: Uint8Array,
+  previous: Uint8Array,
+  line: Uint8Array,
+  channels: number
+): void {
+  for (let i = 0; i < scanline.length; i++) {
+    const raw = scanline[i]!;
+    const left = i >= channels ? line[i - channels]! : 0;
+    const up = previous[i]!;
+    const upLeft = i >= channels ? previous[i - channels]! : 0;
+
+    let predictor: number;
+    switch (filter) {
+      case 0:
+        predictor = 0;
+        break;
+      case 1:
+        predictor = left;
+        break;
+      case 2:
+        predictor = up;
+        break;
+      case 3:
+        predictor = (left + up) >> 1;
+        break;
+      case 4:
+        predictor = paeth(left, up, upLeft);
+        break;
+      default:
+        throw new Error(`Unknown PNG filter type ${filter}`);
+    }
+
+    line[i] = (raw + predictor) & 0xff;
+  }
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  if (distanceUp <= distanceUpLeft) return up;
+  return upLeft;
+}
+
+// ============================================
+// Quantization
+// ============================================
+
+function cubeIndex(red: number, green: number, blue: number): number {
+  return (red * CUBE_LEVELS.green + green) * CUBE_LEVELS.blue + blue;
+}
+
+/**
+ * The 256-color palette: the color cube followed by the overlay colors
+ */
+function buildPalette(): Uint8Array {
+  const palette = new Uint8Array(256 * 3);
+  for (let red = 0; red < CUBE_LEVELS.red; red++) {
+    for (let green = 0; green < CUBE_LEVELS.green; green++) {
+      for (let blue = 0; blue < CUBE_LEVELS.blue; blue++) {
+        const index = cubeIndex(red, green, blue) * 3;
+        palette[index] = Math.round((red * 255) / (CUBE_LEVELS.red - 1));
+        palette[index + 1] = Math.round((green * 255) / (CUBE_LEVELS.green - 1));
+        palette[index + 2] = Math.round((blue * 255) / (CUBE_LEVELS.blue - 1));
+      }
+    }
+  }
+
+  OVERLAY_COLORS.forEach((color, i) => {
+    palette.set(color, (OVERLAY_INDEX.background + i) * 3);
+  });
+
+  return palette;
+}
+
+/**
+ * Map an image onto the color cube with ordered dithering, scaling it
+ * to the canvas size if a frame came back at a different size
+ */
+function quantizeImage(image: RgbaImage, width: number, height: number): Uint8Array {
+  const indexed = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(image.height - 1, Math.floor((y * image.height) / height));
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(image.width - 1, Math.floor((x * image.width) / width));
+      const source = (sourceY * image.width + sourceX) * 4;
+      const threshold = (BAYER_4X4[(y & 3) * 4 + (x & 3)]! + 0.5) / 16 - 0.5;
+
+      indexed[y * width + x] = cubeIndex(
+        quantizeChannel(image.data[source]!, CUBE_LEVELS.red, threshold),
+        quantizeChannel(image.data[source + 1]!, CUBE_LEVELS.green, threshold),
+        quantizeChannel(image.data[source + 2]!, CUBE_LEVELS.blue, threshold)
+      );
+    }
+  }
+
+  return indexed;
+}
+
+function quantizeChannel(value: number, levels: number, threshold: number): number {
+  const level = Math.round((value * (levels - 1)) / 255 + threshold);
+  return Math.max(0, Math.min(levels - 1, level));
+}
+
+// ============================================
+// Overlay
+// ============================================
+
+interface OverlayLayout {
+  /** Pixel size of one font dot */
+  scale: number;
+  trackHeight: number;
+  padding: number;
+  height: number;
+}
+
+function overlayLayout(width: number): OverlayLayout {
+  const scale = Math.max(1, Math.floor(width / 180));
+  const trackHeight = 2 * scale;
+  const padding = 3 * scale;
+  return {
+    scale,
+    trackHeight,
+    padding,
+    height: trackHeight + padding * 2 + GLYPH_HEIGHT * scale,
+  };
+}
+
+/**
+ * Draw the status bar below the page content
+ */
+function drawOverlay(
+  canvas: Uint8Array,
+  width: number,
+  top: number,
+  layout: OverlayLayout,
+  timeMs: number,
+  options: LoadAnimationOptions
+): void {
+  const { scale, trackHeight, padding } = layout;
+  const fill = (x: number, y: number, w: number, h: number, color: number): void =>
+    fillRect(canvas, width, x, y, w, h, color);
+
+  fill(0, top, width, layout.height, OVERLAY_INDEX.background);
+
+  // Progress track
+  const progress = Math.min(1, timeMs / Math.max(1, options.durationMs));
+  fill(0, top, width, trackHeight, OVERLAY_INDEX.track);
+  fill(0, top, Math.round(width * progress), trackHeight, WHITE_INDEX);
+
+  const markers: Array<{ label: string; timeMs: number; color: number }> = [];
+  for (const [label, markerMs, color] of [
+    ["FCP", options.markers.fcpMs, OVERLAY_INDEX.fcp],
+    ["LCP", options.markers.lcpMs, OVERLAY_INDEX.lcp],
+  ] as const) {
+    if (markerMs !== undefined && markerMs <= options.durationMs) {
+      markers.push({ label, timeMs: markerMs, color });
+    }
+  }
+
+  if (options.showMarkers) {
+    for (const marker of markers) {
+      const x = Math.round((width * marker.timeMs) / Math.max(1, options.durationMs));
+      fill(x - scale, top, scale * 2, trackHeight, marker.color);
+    }
+  }
+
+  // Labels
+  const textTop = top + trackHeight + padding;
+  const gap = GLYPH_WIDTH * scale * 2;
+  let x = padding;
+
+  if (options.showTimestamp) {
+    x = drawText(canvas, width, formatSeconds(timeMs), x, textTop, scale, WHITE_INDEX) + gap;
+  }
+
+  if (options.showMarkers) {
+    for (const marker of markers) {
+      if (marker.timeMs > timeMs) continue;
+      const label = `${marker.label} ${formatSeconds(marker.timeMs)}`;
+      x = drawText(canvas, width, label, x, textTop, scale, marker.color) + gap;
+    }
+  }
+}
+
+/**
+ * Draw text with the bitmap font, returning the x after the last glyph
+ */
+function drawText(
+  canvas: Uint8Array,
+  width: number,
+  text: string,
+  left: number,
+  top: number,
+  scale: number,
+  color: number
+): number {
+  let x = left;
+  for (const char of text) {
+    const glyph = GLYPHS[char];
+    if (glyph) {
+      glyph.forEach((row, rowIndex) => {
+        for (let column = 0; column < GLYPH_WIDTH; column++) {
+          if (row[column] === "1") {
+            fillRect(canvas, width, x + column * scale, top + rowIndex * scale, scale, scale, color);
+          }
+        }
+      });
+    }
+    x += (GLYPH_WIDTH + 1) * scale;
+  }
+  return x;
+}
+
+/**
+ * Fill a rectangle, clipped to the canvas
+ */
+function fillRect(
+  canvas: Uint8Array,
+  width: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  color: number
+): void {
+  const height = canvas.length / width;
+  const left = Math.max(0, x);
+  const right = Math.min(width, x + w);
+  const bottom = Math.min(height, y + h);
+  if (left >= right) return;
+
+  for (let row = Math.max(0, y); row < bottom; row++) {
+    canvas.fill(color, row * width + left, row * width + right);
+  }
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+// ============================================
+// GIF writer
+// ============================================
+
+/**
+ * Minimal GIF89a writer for palette-indexed frames
+ *
+ * Each frame is written as the rectangle that changed since the
+ * previous one, left in place for the next frame to draw over.
+ * A frame's delay is only known once the next frame arrives, so one
+ * frame is held back until then.
+ */
+class GifWriter {
+  private readonly width: number;
+  private readonly height: number;
+  private readonly chunks: Uint8Array[] = [];
+  private previous: Uint8Array | null = null;
+  private pending: { pixels: Uint8Array; timeMs: number } | null = null;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+
+    this.chunks.push(
+      Buffer.from("GIF89a", "ascii"),
+      // Logical screen with a 256-color global palette
+      new Uint8Array([...uint16(width), ...uint16(height), 0xf7, 0, 0]),
+      buildPalette(),
+      // Loop forever
+      new Uint8Array([
+        0x21, 0xff, 0x0b, ...Buffer.from("NETSCAPE2.0", "ascii"), 0x03, 0x01, 0x00, 0x00, 0x00,
+      ])
+    );
+  }
+
+  /**
+   * Queue a frame shown from timeMs; identical frames are merged
+   */
+  addFrame(pixels: Uint8Array, timeMs: number): void {
+    if (this.pending && pixelsEqual(this.pending.pixels, pixels)) {
+      return;
+    }
+    if (this.pending) {
+      this.writeFrame(this.pending.pixels, this.pending.timeMs, timeMs);
+    }
+    this.pending = { pixels, timeMs };
+  }
+
+  /**
+   * Write the last frame, shown until endMs, and return the file
+   */
+  finish(endMs: number): Uint8Array {
+    if (this.pending) {
+      this.writeFrame(this.pending.pixels, this.pending.timeMs, Math.max(endMs, this.pending.timeMs));
+      this.pending = null;
+    }
+    this.chunks.push(new Uint8Array([0x3b]));
+    return Buffer.concat(this.chunks);
+  }
+
+  private writeFrame(pixels: Uint8Array, startMs: number, endMs: number): void {
+    const rect = (this.previous && changedRect(this.previous, pixels, this.width, this.height)) ?? {
+      left: 0,
+      top: 0,
+      width: this.width,
+      height: this.height,
+    };
+
+    // GIF delays are in centiseconds; browsers treat anything under 2 as 10
+    const delay = Math.min(0xffff, Math.max(2, Math.round(endMs / 10) - Math.round(startMs / 10)));
+
+    const region = new Uint8Array(rect.width * rect.height);
+    for (let row = 0; row < rect.height; row++) {
+      const start = (rect.top + row) * this.width + rect.left;
+      region.set(pixels.subarray(start, start + rect.width), row * rect.width);
+    }
+
+    this.chunks.push(
+      // Graphic control extension: leave the frame in place, no transparency
+      new Uint8Array([0x21, 0xf9, 0x04, 0x04, ...uint16(delay), 0x00, 0x00]),
+      // Image descriptor without a local palette
+      new Uint8Array([
+        0x2c,
+        ...uint16(rect.left),
+        ...uint16(rect.top),
+        ...uint16(rect.width),
+        ...uint16(rect.height),
+        0x00,
+      ]),
+      new Uint8Array([8]),
+      toSubBlocks(lzwEncode(region, 8))
+    );
+
+    this.previous = pixels;
+  }
+}
+
+function uint16(value: number): [number, number] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+function pixelsEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && Buffer.compare(a, b) === 0;
+}
+
+/**
+ * Bounding box of the pixels that differ between two frames
+ */
+function changedRect(
+  previous: Uint8Array,
+  next: Uint8Array,
+  width: number,
+  height: number
+): { left: number; top: number; width: number; height: number } | null {
+  let top = -1;
+  let bottom = -1;
+  let left = width;
+  let right = -1;
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * width;
+    for (let x = 0; x < width; x++) {
+      if (previous[rowStart + x] !== next[rowStart + x]) {
+        if (top === -1) top = y;
+        bottom = y;
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+      }
+    }
+  }
+
+  if (top === -1) return null;
+  return { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * GIF-flavored variable-width LZW compression
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  const table = new Map<number, number>();
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number): void => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+
+  let current = indices[0] ?? 0;
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i]!;
+    const key = (current << 8) | index;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      current = existing;
+      continue;
+    }
+
+    emit(current);
+    if (nextCode === 4096) {
+      // Table full: start over
+      emit(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = index;
+  }
+
+  emit(current);
+  emit(endCode);
+  if (bitCount > 0) {
+    output.push(bitBuffer & 0xff);
+  }
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Split image data into length-prefixed blocks of up to 255 bytes
+ */
+function toSubBlocks(data: Uint8Array): Uint8Array {
+  const blocks: number[] = [];
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Uint8Array.from(blocks);
+}
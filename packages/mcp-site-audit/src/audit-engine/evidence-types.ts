@@ -136,6 +136,14 @@ export const VideoRecordingOptionsSchema = z.object({
   timeout: z.number().int().positive().default(60000),
   captureOnlyIfSlow: z.boolean().default(true),
   slowThresholdMs: z.number().int().positive().default(3000),
+  // Width of the encoded clip; frames are scaled down to fit
+  maxWidth: z.number().int().positive().default(360),
+  // Burn the elapsed time into each frame
+  showTimestamp: z.boolean().default(true),
+  // Burn FCP/LCP ticks and labels into each frame
+  showMarkers: z.boolean().default(true),
+  // How long the final frame holds before the clip loops
+  holdLastFrameMs: z.number().int().nonnegative().default(2000),
 });
 
 export type VideoRecordingOptions = z.output<typeof VideoRecordingOptionsSchema>;
@@ -145,7 +153,7 @@ export type VideoRecordingOptions = z.output<typeof VideoRecordingOptionsSchema>
  */
 export interface EvidenceCaptureResult {
   // Type of evidence
-  type: "screenshot" | "video" | "trace";
+  type: "screenshot" | "video" | "trace" | "report";
   // Data buffer
   data: Uint8Array;
   // MIME type
@@ -166,17 +174,29 @@ export interface EvidenceCaptureResult {
   isSlowLoadCapture: boolean;
 }
 
+/**
+ * Paint milestones, in ms from the start of a recording
+ */
+export interface LoadMarkers {
+  // First Contentful Paint
+  fcpMs: number | undefined;
+  // Largest Contentful Paint
+  lcpMs: number | undefined;
+}
+
 /**
  * Tracing result with performance data
  */
 export interface TracingResult {
   // Trace data (JSON)
   traceData: unknown;
-  // Screenshot frames captured during trace
+  // PNG screencast frames captured during trace
   frames: Array<{
     timestamp: number;
     data: Uint8Array;
   }>;
+  // Paint milestones seen during the trace
+  markers: LoadMarkers;
   // Total trace duration
   durationMs: number;
 }
@@ -14,17 +14,25 @@ import {
   VideoRecordingOptionsSchema,
   VIEWPORTS,
 } from "./evidence-types.js";
+import { encodeLoadAnimation } from "./evidence-encoder.js";
+import { TraceReportRenderer } from "./trace-report.js";
+import type { TraceReportOptions } from "./trace-report-types.js";
+import type { ChromeTrace, ResourceRequest } from "./types.js";
 
 // Browser globals for page.evaluate()
 declare const document: any;
+declare const performance: any;
+declare const PerformanceObserver: any;
 
 /**
  * Evidence capture system for documenting website issues
  *
- * Captures screenshots, annotated images, and video recordings
- * to provide visual proof of performance and accessibility problems.
+ * Captures screenshots, annotated images, and animated page-load
+ * recordings to provide visual proof of performance and accessibility problems.
  */
 export class EvidenceCapture {
+  private readonly traceReportRenderer = new TraceReportRenderer();
+
   /**
    * Capture a screenshot of a page
    */
@@ -151,7 +159,11 @@ export class EvidenceCapture {
   }
 
   /**
-   * Record page load as video (frame sequence)
+   * Record page load as an animated GIF
+   *
+   * Frames come from a CDP screencast and are encoded with the elapsed
+   * time and FCP/LCP markers burned in. Returns null when the load was
+   * fast and captureOnlyIfSlow is set, or when no frames were captured.
    */
   async recordPageLoad(
     page: Page,
@@ -173,7 +185,7 @@ export class EvidenceCapture {
     });
 
     // Start tracing with screenshots
-    const tracingResult = await this.captureTraceWithFrames(page, url, opts);
+    const tracingResult = await this.captureTraceWithFrames(page, url, opts, viewport);
 
     // Check if load was slow enough to warrant video
     if (
@@ -183,63 +195,88 @@ export class EvidenceCapture {
       return null; // Load was fast, no video needed
     }
 
-    // Convert frames to animated format
-    // For now, return the frames as a trace result
-    // In production, this would use ffmpeg to create WebM
-    const frameData = await this.combineFramesToAnimation(
-      tracingResult.frames,
-      opts.frameRate,
-      viewport
-    );
+    if (tracingResult.frames.length === 0) {
+      return null;
+    }
+
+    const durationMs = Math.min(tracingResult.durationMs, opts.duration);
+    const data = encodeLoadAnimation(tracingResult.frames, {
+      frameRate: opts.frameRate,
+      durationMs,
+      markers: tracingResult.markers,
+      showTimestamp: opts.showTimestamp,
+      showMarkers: opts.showMarkers,
+      holdLastFrameMs: opts.holdLastFrameMs,
+    });
 
     return {
       type: "video",
-      data: frameData,
-      mimeType: "image/gif", // Using GIF as fallback since WebM requires ffmpeg
+      data,
+      mimeType: "image/gif",
       extension: "gif",
       viewport,
       capturedAt,
       url,
-      durationMs: tracingResult.durationMs,
+      durationMs,
       loadTimeMs: tracingResult.durationMs,
       isSlowLoadCapture: tracingResult.durationMs >= opts.slowThresholdMs,
     };
   }
 
   /**
-   * Capture trace with screenshot frames
+   * Capture trace with screencast frames
+   *
+   * Chrome only sends a screencast frame when the page repaints, so
+   * frames are sparse while the screen is blank. Frames arriving
+   * faster than the frame rate replace the previous one.
    */
   private async captureTraceWithFrames(
     page: Page,
     url: string,
-    options: VideoRecordingOptions
+    options: VideoRecordingOptions,
+    viewport: ViewportConfig
   ): Promise<TracingResult> {
     const frames: TracingResult["frames"] = [];
-    const startTime = Date.now();
+    const frameInterval = 1000 / options.frameRate;
+    const maxWidth = Math.min(options.maxWidth, viewport.width * viewport.deviceScaleFactor);
+    const maxHeight = Math.round((maxWidth * viewport.height) / viewport.width);
+
+    // Start from a blank page so the clip doesn't open on the previous site
+    await page.goto("about:blank");
 
     // Create CDP session for screencast
     const cdpSession = await page.createCDPSession();
+    const startTime = Date.now();
+
+    cdpSession.on("Page.screencastFrame", (frame) => {
+      cdpSession
+        .send("Page.screencastFrameAck", { sessionId: frame.sessionId })
+        .catch(() => {
+          // Session closed while the frame was in flight
+        });
+
+      const shownAt = frame.metadata.timestamp !== undefined
+        ? frame.metadata.timestamp * 1000
+        : Date.now();
+      const timestamp = Math.max(0, Math.round(shownAt - startTime));
+      const data = Buffer.from(frame.data, "base64");
+
+      const last = frames[frames.length - 1];
+      if (last && timestamp - last.timestamp < frameInterval) {
+        last.data = data;
+      } else {
+        frames.push({ timestamp, data });
+      }
+    });
 
-    // Calculate frame interval
-    const frameInterval = Math.floor(1000 / options.frameRate);
-    let frameCapture: NodeJS.Timeout | null = null;
+    let markers: TracingResult["markers"] = { fcpMs: undefined, lcpMs: undefined };
 
     try {
-      // Start capturing frames
-      frameCapture = setInterval(async () => {
-        try {
-          const screenshot = await page.screenshot({
-            type: "jpeg",
-            quality: 70,
-          });
-          frames.push({
-            timestamp: Date.now() - startTime,
-            data: screenshot,
-          });
-        } catch {
-          // Ignore frame capture errors
-        }
-      }, frameInterval);
+      await cdpSession.send("Page.startScreencast", {
+        format: "png",
+        maxWidth,
+        maxHeight,
+      });
 
       // Navigate to URL
       await page.goto(url, {
@@ -249,11 +286,12 @@ export class EvidenceCapture {
 
       // Capture a few more frames after load
       await this.delay(500);
+
+      markers = await this.readPaintMarkers(page, startTime);
     } finally {
-      // Stop frame capture
-      if (frameCapture) {
-        clearInterval(frameCapture);
-      }
+      await cdpSession.send("Page.stopScreencast").catch(() => {
+        // Page already closed
+      });
       await cdpSession.detach();
     }
 
@@ -262,10 +300,104 @@ export class EvidenceCapture {
     return {
       traceData: null,
       frames,
+      markers,
       durationMs,
     };
   }
 
+  /**
+   * Read FCP and LCP, converted to ms from the start of the recording
+   */
+  private async readPaintMarkers(
+    page: Page,
+    recordingStart: number
+  ): Promise<TracingResult["markers"]> {
+    const paints = await page.evaluate(() => {
+      return new Promise<{ timeOrigin: number; fcp: number | null; lcp: number | null }>(
+        (resolve) => {
+          const fcpEntry = performance.getEntriesByName("first-contentful-paint")[0];
+          let lcp: number | null = null;
+
+          const lcpObserver = new PerformanceObserver((list: any) => {
+            const entries = list.getEntries();
+            const lastEntry = entries[entries.length - 1];
+            if (lastEntry) {
+              lcp = lastEntry.startTime;
+            }
+          });
+
+          try {
+            lcpObserver.observe({ type: "largest-contentful-paint", buffered: true });
+          } catch {
+            // LCP not supported
+          }
+
+          // Buffered entries are delivered asynchronously
+          setTimeout(() => {
+            lcpObserver.disconnect();
+            resolve({
+              timeOrigin: performance.timeOrigin,
+              fcp: fcpEntry ? fcpEntry.startTime : null,
+              lcp,
+            });
+          }, 100);
+        }
+      );
+    });
+
+    const toRecordingTime = (paintTime: number | null): number | undefined =>
+      paintTime !== null
+        ? Math.max(0, Math.round(paints.timeOrigin + paintTime - recordingStart))
+        : undefined;
+
+    return {
+      fcpMs: toRecordingTime(paints.fcp),
+      lcpMs: toRecordingTime(paints.lcp),
+    };
+  }
+
+  /**
+   * Render a filmstrip and request waterfall report as a PNG
+   *
+   * The report is built from a trace recorded during performance
+   * analysis and drawn on the given page, which is left showing it.
+   */
+  async captureLoadReport(
+    page: Page,
+    url: string,
+    trace: ChromeTrace,
+    requests: ResourceRequest[],
+    options: Partial<TraceReportOptions> = {}
+  ): Promise<EvidenceCaptureResult> {
+    const report = this.traceReportRenderer.buildReport(url, trace, requests, options);
+    const html = this.traceReportRenderer.renderHtml(report, options);
+    const viewport: ViewportConfig = {
+      width: options.width ?? 1200,
+      height: 800,
+      deviceScaleFactor: 1,
+      isMobile: false,
+      hasTouch: false,
+      isLandscape: true,
+    };
+
+    await page.setViewport(viewport);
+    await page.setContent(html, { waitUntil: "load" });
+    const data = await page.screenshot({ type: "png", fullPage: true });
+
+    return {
+      type: "report",
+      data,
+      mimeType: "image/png",
+      extension: "png",
+      viewport,
+      capturedAt: new Date(),
+      url,
+      durationMs: report.durationMs,
+      loadTimeMs: report.markers.lcpMs,
+      isSlowLoadCapture: false,
+    };
+  }
+
   /**
    * Capture screenshots at multiple viewports
    */
@@ -430,26 +562,6 @@ export class EvidenceCapture {
     });
   }
 
-  /**
-   * Combine frames into animated GIF
-   * Note: In production, this would use a proper video encoding library
-   */
-  private async combineFramesToAnimation(
-    frames: TracingResult["frames"],
-    _frameRate: number,
-    _viewport: ViewportConfig
-  ): Promise<Uint8Array> {
-    // For now, return the last frame as a static image
-    // In production, this would use gifenc, ffmpeg, or similar
-    if (frames.length === 0) {
-      return new Uint8Array(0);
-    }
-
-    // Return the middle frame for best representation
-    const middleIndex = Math.floor(frames.length / 2);
-    return frames[middleIndex]?.data ?? new Uint8Array(0);
-  }
-
   /**
    * Delay execution
    */
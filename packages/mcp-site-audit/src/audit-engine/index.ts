@@ -6,9 +6,23 @@ export {
   type BatchAuditProgress,
   type BatchAuditResult,
   type PartialAuditResult,
+  type ResolvedAuditOptions,
   DEFAULT_AUDIT_OPTIONS,
 } from "./service.js";
 
+// Analyzer plugins
+export { AnalyzerRegistry } from "./analyzer-registry.js";
+export {
+  PerformancePlugin,
+  AccessibilityPlugin,
+  ResponsivenessPlugin,
+  SeoPlugin,
+  TechStackPlugin,
+  createBuiltInAnalyzers,
+  mapSeverity,
+} from "./analyzers.js";
+export type { AuditAnalyzer, AnalyzerContext, PageReports } from "./analyzer-types.js";
+
 // Performance analyzer
 export { PerformanceAnalyzer } from "./performance.js";
 
@@ -18,16 +32,50 @@ export { AccessibilityScanner } from "./accessibility.js";
 // Responsiveness analyzer
 export { ResponsivenessAnalyzer } from "./responsive.js";
 
+// SEO and hygiene analyzer
+export { SeoAnalyzer } from "./seo.js";
+
+// Tech stack fingerprinting
+export {
+  TechStackAnalyzer,
+  detectTechnologies,
+  findVulnerabilities,
+  compareVersions,
+} from "./tech-stack.js";
+export {
+  TECH_SIGNATURES,
+  KNOWN_VULNERABILITIES,
+  TECH_SIGNATURE_VERSION,
+} from "./tech-signatures.js";
+
+// Site crawler
+export { SiteCrawler, normalizePageUrl } from "./crawler.js";
+export { CrawlPolicy, type CrawlPolicyOptions } from "./crawl-policy.js";
+
 // Performance types
 export {
   type AnalysisOptions,
   type CoreWebVitals,
   type CoverageMetrics,
   type ResourceMetrics,
+  type ResourceRequest,
+  type TraceEvent,
+  type ChromeTrace,
   type PerformancePainPoint,
   type PerformanceReport,
+  type ThrottlingProfile,
+  type ThrottlingProfileName,
+  type SamplingOptions,
+  type SampledMetric,
+  type MetricSampleStats,
+  type PerformanceSampling,
   AnalysisOptionsSchema,
+  SamplingOptionsSchema,
+  ThrottlingProfileNameSchema,
   PERFORMANCE_THRESHOLDS,
+  SAMPLING_NOISE_FLOORS,
+  THROTTLING_PROFILES,
+  DEFAULT_THROTTLING_PROFILES,
 } from "./types.js";
 
 // Accessibility types
@@ -40,15 +88,38 @@ export {
   type AccessibilityNode,
   type LegalRiskAssessment,
   type AccessibilityReport,
+  type AriaAttributeType,
   WCAGLevelSchema,
   AccessibilityScanOptionsSchema,
   WCAG_RULES,
   getRulesForLevel,
   SEVERITY_WEIGHTS,
+  MAX_VIOLATIONS_PER_RULE,
+  CONTRAST_THRESHOLDS,
+  TARGET_SIZE_THRESHOLDS,
+  ARIA_ATTRIBUTES,
+  ARIA_ROLES,
+  ARIA_REQUIRED_ATTRIBUTES,
+  ARIA_REQUIRED_CHILDREN,
 } from "./accessibility-types.js";
 
 // Evidence capture
 export { EvidenceCapture } from "./evidence.js";
+export {
+  type RgbaImage,
+  type LoadAnimationOptions,
+  encodeLoadAnimation,
+  decodePng,
+} from "./evidence-encoder.js";
+
+// Filmstrip and waterfall report
+export { TraceReportRenderer } from "./trace-report.js";
+export {
+  type FilmstripFrame,
+  type TraceReport,
+  type TraceReportOptions,
+  TraceReportOptionsSchema,
+} from "./trace-report-types.js";
 
 // Evidence types
 export {
@@ -59,6 +130,7 @@ export {
   type VideoRecordingOptions,
   type EvidenceCaptureResult,
   type TracingResult,
+  type LoadMarkers,
   ViewportConfigSchema,
   EvidenceScreenshotOptionsSchema,
   AnnotationOptionsSchema,
@@ -83,6 +155,47 @@ export {
   DEFAULT_RESPONSIVENESS_OPTIONS,
 } from "./responsive-types.js";
 
+// SEO types
+export {
+  type SeoIssue,
+  type SeoIssueSeverity,
+  type SeoOptions,
+  type SeoReport,
+  type MetaTags,
+  type LinkCheckResult,
+  type ImageAnalysis,
+  type HttpsStatus,
+  SeoOptionsSchema,
+  SEO_LENGTH_LIMITS,
+  REQUIRED_OPEN_GRAPH_TAGS,
+  IMAGE_FORMAT_SAVINGS,
+  SEVERITY_WEIGHTS as SEO_SEVERITY_WEIGHTS,
+} from "./seo-types.js";
+
+// Tech stack types
+export {
+  type TechSignature,
+  type KnownVulnerability,
+  type VulnerabilitySeverity,
+  type TechDetection,
+  type TechVulnerabilityMatch,
+  type TechSignals,
+  type TechStackReport,
+  type TechStackOptions,
+  TechStackOptionsSchema,
+} from "./tech-stack-types.js";
+
+// Crawl types
+export {
+  type CrawlOptions,
+  type CrawlDiscovery,
+  type DiscoveredPage,
+  CrawlOptionsSchema,
+  PRIORITY_PAGE_PATTERNS,
+  EXCLUDED_PATH_PATTERN,
+  NON_PAGE_EXTENSIONS,
+} from "./crawl-types.js";
+
 // Resilient audit service
 export {
   ResilientAuditService,
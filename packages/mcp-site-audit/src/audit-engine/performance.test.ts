@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { summarizeSamples } from "./performance.js";
+
+describe("summarizeSamples", () => {
+  it("reports nothing for a metric no run measured", () => {
+    expect(summarizeSamples([], 100, 0.2)).toEqual({
+      samples: [],
+      median: null,
+      p75: null,
+      variance: null,
+      coefficientOfVariation: null,
+      unstable: false,
+    });
+  });
+
+  it("interpolates the median and p75 between ranks", () => {
+    const stats = summarizeSamples([4000, 1000, 3000, 2000], 100, 1);
+
+    expect(stats.median).toBe(2500);
+    expect(stats.p75).toBe(3250);
+    // Samples stay in run order
+    expect(stats.samples).toEqual([4000, 1000, 3000, 2000]);
+  });
+
+  it("uses the sample variance and the coefficient of variation", () => {
+    const stats = summarizeSamples([2, 4, 4, 4, 5, 5, 7, 9], 0, 1);
+
+    expect(stats.median).toBe(4.5);
+    expect(stats.variance).toBeCloseTo(32 / 7);
+    expect(stats.coefficientOfVariation).toBeCloseTo(Math.sqrt(32 / 7) / 5);
+  });
+
+  it("flags a wide spread above the noise floor as unstable", () => {
+    const stats = summarizeSamples([1000, 2000, 3000], 100, 0.2);
+
+    expect(stats.coefficientOfVariation).toBeCloseTo(0.5);
+    expect(stats.unstable).toBe(true);
+  });
+
+  it("keeps a wide relative spread below the noise floor stable", () => {
+    // CV is 0.5, but a 10ms standard deviation is not worth flagging
+    const stats = summarizeSamples([10, 20, 30], 50, 0.2);
+
+    expect(stats.coefficientOfVariation).toBeCloseTo(0.5);
+    expect(stats.unstable).toBe(false);
+  });
+
+  it("keeps a tight spread stable", () => {
+    expect(summarizeSamples([2000, 2050, 1980], 100, 0.2).unstable).toBe(false);
+  });
+
+  it("counts a metric from a single run as unstable", () => {
+    const stats = summarizeSamples([1200], 100, 0.2);
+
+    expect(stats).toMatchObject({ median: 1200, p75: 1200, variance: 0, unstable: true });
+  });
+
+  it("doesn't divide by a zero mean", () => {
+    const stats = summarizeSamples([0, 0, 0], 0.01, 0.2);
+
+    expect(stats.coefficientOfVariation).toBe(0);
+    expect(stats.unstable).toBe(false);
+  });
+});
@@ -1,7 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import type { Page, CDPSession, CoverageEntry } from "puppeteer";
 
+import { BrowserError } from "@the-closer/shared";
+
 // Browser globals for page.evaluate()
+declare const document: any;
 declare const performance: any;
 declare const PerformanceObserver: any;
 
@@ -12,9 +15,25 @@ import {
   type CoverageMetrics,
   type ResourceMetrics,
   type PerformancePainPoint,
+  type ThrottlingProfile,
+  type SamplingOptions,
+  type SampledMetric,
+  type MetricSampleStats,
+  type ChromeTrace,
+  type TraceEvent,
   AnalysisOptionsSchema,
+  SamplingOptionsSchema,
+  DEFAULT_THROTTLING_PROFILES,
   PERFORMANCE_THRESHOLDS,
+  SAMPLING_NOISE_FLOORS,
+  THROTTLING_PROFILES,
 } from "./types.js";
+import type { BrowserPool } from "../browser/index.js";
+
+/**
+ * Metrics summarized by sampled reports
+ */
+const SAMPLED_METRICS: SampledMetric[] = ["fcp", "lcp", "cls", "inp", "tti", "tbt", "loadTimeMs"];
 
 /**
  * Performance analyzer using Chrome DevTools Protocol
@@ -34,6 +53,7 @@ export class PerformanceAnalyzer {
     const opts = AnalysisOptionsSchema.parse(options);
     const startTime = Date.now();
     const errors: string[] = [];
+    const throttling = resolveThrottling(opts);
 
     // Initialize report structure
     let vitals: CoreWebVitals = {
@@ -50,15 +70,18 @@ export class PerformanceAnalyzer {
       totalTransferSize: 0,
       totalDecodedSize: 0,
       byType: { scripts: 0, stylesheets: 0, images: 0, fonts: 0, other: 0 },
+      requests: [],
     };
     let loadTimeMs = 0;
+    let trace: ChromeTrace | undefined;
+    let cdpSession: CDPSession | undefined;
 
     try {
       // Set viewport based on options
       await this.setViewport(page, opts.viewport);
 
       // Create CDP session for performance metrics
-      const cdpSession = await page.createCDPSession();
+      cdpSession = await page.createCDPSession();
 
       // Enable performance domain
       await cdpSession.send("Performance.enable");
@@ -72,6 +95,9 @@ export class PerformanceAnalyzer {
       // Enable network domain for resource tracking
       await cdpSession.send("Network.enable");
 
+      // Emulate the target device's connection and CPU
+      await this.applyThrottling(cdpSession, throttling);
+
       // Navigate and measure load time
       const navigationStart = Date.now();
       await page.goto(url, {
@@ -91,6 +117,9 @@ export class PerformanceAnalyzer {
       // Collect resource metrics
       resources = await this.collectResourceMetrics(page, cdpSession);
 
+      // The page is reused by later checks, so restore full speed
+      await this.applyThrottling(cdpSession, THROTTLING_PROFILES.none);
+
       // Clean up CDP session
       await cdpSession.detach();
     } catch (error) {
@@ -99,6 +128,21 @@ export class PerformanceAnalyzer {
           ? error.message
           : "Unknown error during performance analysis";
       errors.push(message);
+
+      // Don't leave a failed run's throttling on the page
+      if (cdpSession) {
+        await this.applyThrottling(cdpSession, THROTTLING_PROFILES.none).catch(() => undefined);
+        await cdpSession.detach().catch(() => undefined);
+      }
+    }
+
+    // Traced in a load of its own so tracing doesn't slow the measured one
+    if (opts.captureTrace && errors.length === 0) {
+      try {
+        trace = await this.recordTrace(page, url, opts);
+      } catch (error) {
+        errors.push(`Trace capture failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
 
     // Calculate overall score
@@ -118,9 +162,182 @@ export class PerformanceAnalyzer {
       analyzedAt: new Date(),
       durationMs: Date.now() - startTime,
       errors,
+      throttling,
+      ...(trace && { trace }),
     };
   }
 
+  /**
+   * Analyze performance over several cold-cache runs
+   *
+   * Each run gets a fresh incognito context from the pool, so nothing is
+   * served from a previous run's cache. The report's vitals, score and
+   * pain points use the median of the successful runs; coverage and
+   * resources come from the run whose load time is closest to the median.
+   * A requested trace is recorded after the runs, in a context of its own.
+   */
+  async analyzeSampled(
+    browserPool: BrowserPool,
+    url: string,
+    options: Partial<SamplingOptions> = {}
+  ): Promise<PerformanceReport> {
+    const { runs, maxCoefficientOfVariation, captureTrace, ...analysisOptions } =
+      SamplingOptionsSchema.parse(options);
+    const startTime = Date.now();
+    const reports: PerformanceReport[] = [];
+    const errors: string[] = [];
+
+    // Runs are sequential so they don't compete for CPU and bandwidth
+    for (let run = 1; run <= runs; run++) {
+      let report: PerformanceReport | undefined;
+      const context = await browserPool.acquireContext();
+      try {
+        const page = await context.context.newPage();
+        report = await this.analyzePerformance(page, url, analysisOptions);
+      } catch (error) {
+        errors.push(`Run ${run}: ${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+        await context.close();
+      }
+
+      if (report && report.errors.length > 0) {
+        errors.push(...report.errors.map((e) => `Run ${run}: ${e}`));
+      } else if (report) {
+        reports.push(report);
+      }
+    }
+
+    const first = reports[0];
+    if (!first) {
+      throw new BrowserError(`All ${runs} performance runs failed for ${url}`, {
+        browserAction: "analyzeSampled",
+        context: { url, errors },
+      });
+    }
+
+    // Traced after sampling so no measured run pays for tracing
+    let trace: ChromeTrace | undefined;
+    if (captureTrace) {
+      const context = await browserPool.acquireContext();
+      try {
+        trace = await this.recordTrace(await context.context.newPage(), url, analysisOptions);
+      } catch (error) {
+        errors.push(`Trace capture failed: ${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+        await context.close();
+      }
+    }
+
+    const metrics = {} as Record<SampledMetric, MetricSampleStats>;
+    for (const metric of SAMPLED_METRICS) {
+      const samples = reports
+        .map((r) => (metric === "loadTimeMs" ? r.loadTimeMs : r.vitals[metric]))
+        .filter((v): v is number => v !== null);
+      metrics[metric] = summarizeSamples(samples, SAMPLING_NOISE_FLOORS[metric], maxCoefficientOfVariation);
+    }
+
+    // CLS keeps its precision; the timings are whole milliseconds
+    const median = (metric: SampledMetric): number | null => {
+      const value = metrics[metric].median;
+      return value === null || metric === "cls" ? value : Math.round(value);
+    };
+    const vitals: CoreWebVitals = {
+      fcp: median("fcp"),
+      lcp: median("lcp"),
+      cls: median("cls"),
+      inp: median("inp"),
+      tti: median("tti"),
+      tbt: median("tbt"),
+    };
+    const loadTimeMs = median("loadTimeMs") ?? first.loadTimeMs;
+
+    const representative = reports.reduce((closest, r) =>
+      Math.abs(r.loadTimeMs - loadTimeMs) < Math.abs(closest.loadTimeMs - loadTimeMs) ? r : closest
+    );
+
+    return {
+      url,
+      score: this.calculateScore(vitals, representative.coverage),
+      vitals,
+      coverage: representative.coverage,
+      resources: representative.resources,
+      ...(trace && { trace }),
+      loadTimeMs,
+      painPoints: this.detectPainPoints(vitals, representative.coverage, loadTimeMs),
+      analyzedAt: new Date(),
+      durationMs: Date.now() - startTime,
+      errors,
+      throttling: first.throttling,
+      sampling: {
+        runs,
+        successfulRuns: reports.length,
+        metrics,
+        unstableMetrics: SAMPLED_METRICS.filter((m) => metrics[m].unstable),
+      },
+    };
+  }
+
+  /**
+   * Record a Chrome trace with screenshots of a page load
+   *
+   * Tracing and screenshots slow the page down, so the trace gets a load
+   * of its own instead of a measured one. The load starts from an empty
+   * cache under the same viewport and throttling as the measurements.
+   */
+  async recordTrace(
+    page: Page,
+    url: string,
+    options: Partial<AnalysisOptions> = {}
+  ): Promise<ChromeTrace | undefined> {
+    const opts = AnalysisOptionsSchema.parse(options);
+    await this.setViewport(page, opts.viewport);
+
+    const cdpSession = await page.createCDPSession();
+    let tracing = false;
+    try {
+      await cdpSession.send("Network.enable");
+      await cdpSession.send("Network.clearBrowserCache");
+      await this.applyThrottling(cdpSession, resolveThrottling(opts));
+
+      await page.tracing.start({ screenshots: true });
+      tracing = true;
+      await page.goto(url, {
+        waitUntil: "networkidle0",
+        timeout: opts.timeout,
+      });
+      tracing = false;
+      return parseTrace(await page.tracing.stop());
+    } finally {
+      if (tracing) {
+        await page.tracing.stop().catch(() => undefined);
+      }
+      await this.applyThrottling(cdpSession, THROTTLING_PROFILES.none).catch(() => undefined);
+      await cdpSession.detach().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Apply network and CPU throttling through CDP
+   */
+  private async applyThrottling(
+    cdpSession: CDPSession,
+    profile: ThrottlingProfile
+  ): Promise<void> {
+    // CDP expects bytes per second; -1 disables throughput throttling
+    const toBytesPerSecond = (kbps: number): number =>
+      kbps > 0 ? (kbps * 1024) / 8 : -1;
+
+    await cdpSession.send("Network.emulateNetworkConditions", {
+      offline: false,
+      latency: profile.latencyMs,
+      downloadThroughput: toBytesPerSecond(profile.downloadKbps),
+      uploadThroughput: toBytesPerSecond(profile.uploadKbps),
+    });
+    await cdpSession.send("Emulation.setCPUThrottlingRate", {
+      rate: profile.cpuSlowdown,
+    });
+  }
+
   /**
    * Set viewport based on analysis options
    */
@@ -303,6 +520,10 @@ export class PerformanceAnalyzer {
 
   /**
    * Collect resource metrics
+   *
+   * Chrome reports renderBlockingStatus for each resource; older
+   * versions fall back to treating stylesheets and synchronous scripts
+   * in the head as render-blocking.
    */
   private async collectResourceMetrics(
     page: Page,
@@ -311,6 +532,7 @@ export class PerformanceAnalyzer {
     // Get resource timing entries from the page
     const resourceData = await page.evaluate(() => {
       const entries = performance.getEntriesByType("resource") as any[];
+      const navigation = performance.getEntriesByType("navigation")[0] as any;
       let scripts = 0,
         stylesheets = 0,
         images = 0,
@@ -319,6 +541,37 @@ export class PerformanceAnalyzer {
       let totalTransfer = 0;
       let totalDecoded = 0;
 
+      const headBlocking = new Set<string>();
+      for (const el of Array.from(
+        document.querySelectorAll('head link[rel~="stylesheet"][href], head script[src]')
+      ) as any[]) {
+        if (el.tagName === "LINK" && el.media !== "print") {
+          headBlocking.add(el.href);
+        } else if (el.tagName === "SCRIPT" && !el.async && !el.defer && el.type !== "module") {
+          headBlocking.add(el.src);
+        }
+      }
+
+      const requests: Array<{
+        url: string;
+        initiatorType: string;
+        startTime: number;
+        responseEnd: number;
+        transferSize: number;
+        renderBlocking: boolean;
+      }> = [];
+
+      if (navigation) {
+        requests.push({
+          url: navigation.name,
+          initiatorType: "navigation",
+          startTime: 0,
+          responseEnd: Math.round(navigation.responseEnd),
+          transferSize: navigation.transferSize || 0,
+          renderBlocking: false,
+        });
+      }
+
       for (const entry of entries) {
         totalTransfer += entry.transferSize || 0;
         totalDecoded += entry.decodedBodySize || 0;
@@ -329,6 +582,18 @@ export class PerformanceAnalyzer {
         else if (entry.initiatorType === "img") images++;
         else if (entry.name.match(/\.(woff2?|ttf|otf|eot)$/i)) fonts++;
         else other++;
+
+        requests.push({
+          url: entry.name,
+          initiatorType: entry.initiatorType,
+          startTime: Math.round(entry.startTime),
+          responseEnd: Math.round(entry.responseEnd),
+          transferSize: entry.transferSize || 0,
+          renderBlocking:
+            typeof entry.renderBlockingStatus === "string"
+              ? entry.renderBlockingStatus === "blocking"
+              : headBlocking.has(entry.name),
+        });
       }
 
       return {
@@ -336,6 +601,7 @@ export class PerformanceAnalyzer {
         totalTransfer,
         totalDecoded,
         byType: { scripts, stylesheets, images, fonts, other },
+        requests,
       };
     });
 
@@ -344,6 +610,7 @@ export class PerformanceAnalyzer {
       totalTransferSize: resourceData.totalTransfer,
       totalDecodedSize: resourceData.totalDecoded,
       byType: resourceData.byType,
+      requests: resourceData.requests.sort((a, b) => a.startTime - b.startTime),
     };
   }
 
@@ -527,3 +794,94 @@ export class PerformanceAnalyzer {
     return painPoints;
   }
 }
+
+// ============================================
+// Sampling Statistics
+// ============================================
+
+/**
+ * Summarize one metric's values across runs
+ *
+ * A metric is unstable when its coefficient of variation exceeds the
+ * limit and its standard deviation is above the metric's noise floor.
+ * A metric reported by only one run can't be checked and counts as
+ * unstable.
+ */
+export function summarizeSamples(
+  samples: number[],
+  noiseFloor: number,
+  maxCoefficientOfVariation: number
+): MetricSampleStats {
+  if (samples.length === 0) {
+    return {
+      samples,
+      median: null,
+      p75: null,
+      variance: null,
+      coefficientOfVariation: null,
+      unstable: false,
+    };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((sum, v) => sum + v, 0) / samples.length;
+  const variance =
+    samples.length > 1
+      ? samples.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (samples.length - 1)
+      : 0;
+  const stdDev = Math.sqrt(variance);
+  const coefficientOfVariation = mean !== 0 ? stdDev / Math.abs(mean) : 0;
+
+  return {
+    samples,
+    median: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    variance,
+    coefficientOfVariation,
+    unstable:
+      samples.length < 2 ||
+      (coefficientOfVariation > maxCoefficientOfVariation && stdDev > noiseFloor),
+  };
+}
+
+/**
+ * Percentile of sorted values, interpolating between ranks
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = (sorted.length - 1) * p;
+  const lower = sorted[Math.floor(rank)] ?? 0;
+  const upper = sorted[Math.ceil(rank)] ?? lower;
+  return lower + (upper - lower) * (rank - Math.floor(rank));
+}
+
+// ============================================
+// Tracing
+// ============================================
+
+/**
+ * Throttling profile for the analysis options
+ */
+function resolveThrottling(opts: AnalysisOptions): ThrottlingProfile {
+  return THROTTLING_PROFILES[
+    opts.throttlingProfile ?? (opts.throttling ? DEFAULT_THROTTLING_PROFILES[opts.viewport] : "none")
+  ];
+}
+
+/**
+ * Parse the buffer returned by page.tracing.stop()
+ *
+ * Chrome writes either a bare event array or an object with
+ * traceEvents; both are normalized to the object form.
+ */
+function parseTrace(buffer: Uint8Array | undefined): ChromeTrace | undefined {
+  if (!buffer || buffer.length === 0) {
+    return undefined;
+  }
+
+  const parsed: unknown = JSON.parse(Buffer.from(buffer).toString("utf-8"));
+  const events = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { traceEvents?: unknown }).traceEvents;
+
+  return Array.isArray(events) ? { traceEvents: events as TraceEvent[] } : undefined;
+}
@@ -9,6 +9,8 @@ import {
   type CircuitBreakerConfig,
   type AuditResult,
   type PainPoint,
+  type RobotsDecision,
+  AuditFailedError,
 } from "@the-closer/shared";
 
 import { AuditService, type AuditOptions } from "./service.js";
@@ -73,6 +75,8 @@ export interface PartialAuditResult {
   error: string;
   /** Duration before failure in ms */
   durationMs: number;
+  /** robots.txt decision when the audit was disallowed */
+  robots?: RobotsDecision;
 }
 
 /**
@@ -101,6 +105,13 @@ export function isPartialResult(result: ResilientAuditResult): result is Partial
   return "isPartial" in result && result.isPartial === true;
 }
 
+/**
+ * Check if an error is an audit disallowed by robots.txt
+ */
+function isRobotsBlock(error: unknown): error is AuditFailedError {
+  return error instanceof AuditFailedError && error.phase === "robots";
+}
+
 /**
  * ResilientAuditService - Wraps AuditService with timeout, retry, and circuit breaker
  */
@@ -155,7 +166,14 @@ export class ResilientAuditService {
                   );
                 }
 
-                return this.auditService.runAudit(leadId, page, options);
+                try {
+                  return await this.auditService.runAudit(leadId, page, options);
+                } catch (error) {
+                  // A robots.txt block is a decision, not a failure to retry
+                  // or count against the circuit breaker
+                  if (isRobotsBlock(error)) return error;
+                  throw error;
+                }
               },
               {
                 ...this.config.retry,
@@ -187,6 +205,10 @@ export class ResilientAuditService {
         );
       });
 
+      if (isRobotsBlock(result)) {
+        return this.createBlockedResult(leadId, result, startTime);
+      }
+
       return result;
     } catch (error) {
       // Create partial result on failure
@@ -320,6 +342,37 @@ export class ResilientAuditService {
     };
   }
 
+  /**
+   * Create partial result for an audit robots.txt disallows
+   *
+   * The site isn't broken, so it isn't sent for manual review.
+   */
+  private createBlockedResult(
+    leadId: string,
+    error: AuditFailedError,
+    startTime: number
+  ): PartialAuditResult {
+    this.partialAudits++;
+    this.blockedSites++;
+    this.config.onSiteBlocked(leadId, error.url ?? "", error);
+
+    const robots = error.context?.["robots"] as RobotsDecision | undefined;
+
+    return {
+      id: `partial-${leadId}-${Date.now()}`,
+      leadId,
+      url: error.url ?? "",
+      auditedAt: new Date().toISOString(),
+      isPartial: true,
+      requiresManualReview: false,
+      manualReviewReason: null,
+      painPoints: [],
+      error: error.message,
+      durationMs: Date.now() - startTime,
+      ...(robots && { robots }),
+    };
+  }
+
   /**
    * Check if error indicates a blocked site
    */
@@ -0,0 +1,179 @@
+import { z } from "zod";
+
+import type { SeoIssueType } from "@the-closer/shared";
+
+/**
+ * Issue severity levels
+ */
+export type SeoIssueSeverity = "low" | "medium" | "high" | "critical";
+
+/**
+ * Severity weights for scoring
+ */
+export const SEVERITY_WEIGHTS: Record<SeoIssueSeverity, number> = {
+  low: 2,
+  medium: 5,
+  high: 10,
+  critical: 20,
+};
+
+/**
+ * Single SEO or hygiene issue
+ */
+export interface SeoIssue {
+  type: SeoIssueType;
+  severity: SeoIssueSeverity;
+  description: string;
+  /** Element the issue was found on ("head" for missing tags) */
+  elementSelector: string | null;
+  /** Link, image or resource the issue is about */
+  resourceUrl: string | null;
+  recommendation: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Head tags relevant to search and social previews
+ */
+export interface MetaTags {
+  title: string | null;
+  metaDescription: string | null;
+  canonical: string | null;
+  robots: string | null;
+  /** Open Graph properties keyed by name ("og:title") */
+  openGraph: Record<string, string>;
+}
+
+/**
+ * Result of checking a single link
+ */
+export interface LinkCheckResult {
+  url: string;
+  selector: string;
+  internal: boolean;
+  /** HTTP status, null when the request failed */
+  status: number | null;
+  ok: boolean;
+  error: string | null;
+}
+
+/**
+ * Size and format analysis of a single image
+ */
+export interface ImageAnalysis {
+  url: string;
+  selector: string;
+  contentType: string | null;
+  /** Bytes transferred, null when unknown */
+  bytes: number | null;
+  naturalWidth: number;
+  naturalHeight: number;
+  /** Rendered size in device pixels */
+  displayWidth: number;
+  displayHeight: number;
+  /** Bytes saved by resizing to the rendered size and re-encoding */
+  potentialSavingsBytes: number;
+}
+
+/**
+ * HTTPS findings for the page
+ */
+export interface HttpsStatus {
+  /** Final page URL is served over HTTPS */
+  isHttps: boolean;
+  /** The http:// URL redirects to HTTPS; null when it could not be checked */
+  redirectsToHttps: boolean | null;
+  /** Subresources loaded over plain HTTP from an HTTPS page */
+  mixedContent: Array<{ url: string; selector: string }>;
+}
+
+/**
+ * SEO and hygiene report
+ */
+export interface SeoReport {
+  url: string;
+  /** URL after redirects */
+  finalUrl: string;
+  analyzedAt: string;
+
+  /** Overall SEO score (0-100) */
+  score: number;
+
+  meta: MetaTags;
+  https: HttpsStatus;
+  links: LinkCheckResult[];
+  images: ImageAnalysis[];
+
+  /** All detected issues */
+  issues: SeoIssue[];
+
+  /** Analysis duration in ms */
+  durationMs: number;
+
+  /** Summary statistics */
+  summary: {
+    totalIssues: number;
+    linksChecked: number;
+    brokenLinks: number;
+    imagesChecked: number;
+    largeImages: number;
+    potentialImageSavingsBytes: number;
+  };
+}
+
+/**
+ * SEO analysis options
+ */
+export const SeoOptionsSchema = z.object({
+  /** Navigation timeout */
+  timeout: z.number().int().positive().default(30000),
+
+  /** HEAD-check links found on the page */
+  checkLinks: z.boolean().default(true),
+
+  /** Include links to other sites */
+  checkExternalLinks: z.boolean().default(true),
+
+  /** Maximum links checked; internal links are checked first */
+  maxLinks: z.number().int().positive().default(50),
+
+  /** Timeout for each link check */
+  linkTimeout: z.number().int().positive().default(8000),
+
+  /** Link checks run in parallel */
+  linkConcurrency: z.number().int().positive().default(5),
+
+  /** Images above this size are flagged regardless of savings */
+  maxImageBytes: z.number().int().positive().default(300 * 1024),
+
+  /** Minimum savings for an image to be flagged */
+  minImageSavingsBytes: z.number().int().positive().default(50 * 1024),
+});
+
+export type SeoOptions = z.output<typeof SeoOptionsSchema>;
+
+/**
+ * Recommended title and meta description lengths (characters)
+ */
+export const SEO_LENGTH_LIMITS = {
+  TITLE_MIN: 10,
+  TITLE_MAX: 60,
+  DESCRIPTION_MIN: 50,
+  DESCRIPTION_MAX: 160,
+} as const;
+
+/**
+ * Open Graph properties needed for a link preview
+ */
+export const REQUIRED_OPEN_GRAPH_TAGS = ["og:title", "og:description", "og:image"] as const;
+
+/**
+ * Approximate size reduction from re-encoding as WebP, by source format
+ */
+export const IMAGE_FORMAT_SAVINGS: Record<string, number> = {
+  "image/jpeg": 0.3,
+  "image/png": 0.5,
+  "image/gif": 0.5,
+  "image/bmp": 0.9,
+  "image/tiff": 0.9,
+};
@@ -0,0 +1,697 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { HTTPResponse, Page } from "puppeteer";
+
+import { BrowserError } from "@the-closer/shared";
+
+import {
+  type SeoIssue,
+  type SeoOptions,
+  type SeoReport,
+  type MetaTags,
+  type LinkCheckResult,
+  type ImageAnalysis,
+  type HttpsStatus,
+  IMAGE_FORMAT_SAVINGS,
+  REQUIRED_OPEN_GRAPH_TAGS,
+  SEO_LENGTH_LIMITS,
+  SEVERITY_WEIGHTS,
+  SeoOptionsSchema,
+} from "./seo-types.js";
+
+// Browser globals for page.evaluate
+declare const document: any;
+declare const window: any;
+declare const location: any;
+declare const navigator: any;
+declare const performance: any;
+declare const CSS: any;
+
+/**
+ * Page data collected in a single pass
+ */
+interface PageData {
+  meta: MetaTags;
+  links: Array<{ url: string; selector: string }>;
+  images: Array<{
+    url: string;
+    selector: string;
+    naturalWidth: number;
+    naturalHeight: number;
+    displayWidth: number;
+    displayHeight: number;
+    encodedBodySize: number;
+  }>;
+  insecureResources: Array<{ url: string; selector: string }>;
+  userAgent: string;
+}
+
+/**
+ * Statuses from sites that refuse automated requests rather than
+ * missing pages, so the link isn't reported as broken
+ */
+const BOT_BLOCKING_STATUSES = new Set([401, 403, 429, 999]);
+
+/**
+ * Maximum issues reported per repeated finding (links, images, mixed content)
+ */
+const MAX_ISSUES_PER_TYPE = 10;
+
+/**
+ * SeoAnalyzer - Checks search, social preview and site hygiene basics
+ *
+ * Covers title and meta description, Open Graph tags, canonical and
+ * robots meta, broken links, oversized images and HTTPS setup. Every
+ * issue carries the selector of the element it was found on.
+ */
+export class SeoAnalyzer {
+  /**
+   * Analyze SEO and hygiene of a URL
+   */
+  async analyzeSeo(
+    page: Page,
+    url: string,
+    options: Partial<SeoOptions> = {}
+  ): Promise<SeoReport> {
+    const startTime = Date.now();
+    const opts = SeoOptionsSchema.parse(options);
+
+    // Image sizes and types come from the responses, which cover
+    // cross-origin images the Resource Timing API reports as 0 bytes
+    const imageResponses = new Map<string, { contentType: string | null; bytes: number | null }>();
+    const onResponse = (response: HTTPResponse): void => {
+      if (response.request().resourceType() !== "image") return;
+      const headers = response.headers();
+      const length = Number.parseInt(headers["content-length"] ?? "", 10);
+      imageResponses.set(response.url(), {
+        contentType: headers["content-type"]?.split(";")[0]?.trim().toLowerCase() ?? null,
+        bytes: Number.isFinite(length) ? length : null,
+      });
+    };
+
+    page.on("response", onResponse);
+
+    try {
+      await page.goto(url, {
+        waitUntil: "networkidle2",
+        timeout: opts.timeout,
+      });
+
+      const finalUrl = page.url();
+      const data = await this.collectPageData(page);
+
+      const links = opts.checkLinks
+        ? await this.checkLinks(data.links, finalUrl, data.userAgent, opts)
+        : [];
+      const images = this.analyzeImages(data.images, imageResponses);
+      const https = await this.checkHttps(url, finalUrl, data.insecureResources, opts);
+
+      const issues = [
+        ...this.detectMetaIssues(data.meta, finalUrl),
+        ...this.detectLinkIssues(links),
+        ...this.detectImageIssues(images, opts),
+        ...this.detectHttpsIssues(https, finalUrl),
+      ];
+
+      const largeImages = issues.filter((i) => i.type === "LARGE_IMAGE");
+
+      return {
+        url,
+        finalUrl,
+        analyzedAt: new Date().toISOString(),
+        score: this.calculateScore(issues),
+        meta: data.meta,
+        https,
+        links,
+        images,
+        issues,
+        durationMs: Date.now() - startTime,
+        summary: {
+          totalIssues: issues.length,
+          linksChecked: links.length,
+          brokenLinks: links.filter((l) => !l.ok).length,
+          imagesChecked: images.length,
+          largeImages: largeImages.length,
+          potentialImageSavingsBytes: images.reduce((sum, i) => sum + i.potentialSavingsBytes, 0),
+        },
+      };
+    } catch (error) {
+      throw new BrowserError(
+        `SEO analysis failed: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error instanceof Error ? error : undefined }
+      );
+    } finally {
+      page.off("response", onResponse);
+    }
+  }
+
+  /**
+   * Collect head tags, links, images and insecure subresources
+   */
+  private async collectPageData(page: Page): Promise<PageData> {
+    return page.evaluate(() => {
+      // Short selector: nearest ancestor with an id, then nth-of-type steps
+      const selectorFor = (el: any): string => {
+        const parts: string[] = [];
+        let node = el;
+        while (node && node.nodeType === 1 && parts.length < 5) {
+          const tag = node.tagName.toLowerCase();
+          if (node.id) {
+            parts.unshift(`${tag}#${CSS.escape(node.id)}`);
+            break;
+          }
+          const parent = node.parentElement;
+          const siblings = parent
+            ? Array.from(parent.children).filter((c: any) => c.tagName === node.tagName)
+            : [];
+          parts.unshift(
+            siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag
+          );
+          node = parent;
+        }
+        return parts.join(" > ");
+      };
+
+      const content = (selector: string): string | null =>
+        document.querySelector(selector)?.getAttribute("content")?.trim() ?? null;
+
+      const openGraph: Record<string, string> = {};
+      for (const el of document.querySelectorAll('meta[property^="og:"]')) {
+        const value = el.getAttribute("content")?.trim();
+        if (value) openGraph[el.getAttribute("property")] = value;
+      }
+
+      const links = Array.from(document.querySelectorAll("a[href]")).map((el: any) => ({
+        url: el.href as string,
+        selector: selectorFor(el),
+      }));
+
+      const images = Array.from(document.images)
+        .filter((img: any) => img.complete && img.naturalWidth > 0)
+        .map((img: any) => {
+          const src: string = img.currentSrc || img.src;
+          const rect = img.getBoundingClientRect();
+          const entry = performance.getEntriesByName(src)[0];
+          return {
+            url: src,
+            selector: selectorFor(img),
+            naturalWidth: img.naturalWidth as number,
+            naturalHeight: img.naturalHeight as number,
+            displayWidth: Math.round(rect.width * window.devicePixelRatio),
+            displayHeight: Math.round(rect.height * window.devicePixelRatio),
+            encodedBodySize: (entry?.encodedBodySize ?? 0) as number,
+          };
+        })
+        .filter((img) => !img.url.startsWith("data:"));
+
+      const insecureResources: Array<{ url: string; selector: string }> = [];
+      if (location.protocol === "https:") {
+        const subresources = document.querySelectorAll(
+          'img, script[src], link[rel~="stylesheet"][href], iframe[src], video[src], audio[src], source[src], embed[src], object[data]'
+        );
+        for (const el of subresources) {
+          const resourceUrl: string =
+            el.currentSrc || el.src || el.href || el.data || "";
+          if (resourceUrl.startsWith("http:")) {
+            insecureResources.push({ url: resourceUrl, selector: selectorFor(el) });
+          }
+        }
+      }
+
+      return {
+        meta: {
+          title: document.title?.trim() || null,
+          metaDescription: content('meta[name="description" i]'),
+          canonical: document.querySelector('link[rel="canonical" i]')?.getAttribute("href")?.trim() ?? null,
+          robots: content('meta[name="robots" i]'),
+          openGraph,
+        },
+        links,
+        images,
+        insecureResources,
+        userAgent: navigator.userAgent as string,
+      };
+    });
+  }
+
+  // ============================================
+  // Links
+  // ============================================
+
+  /**
+   * HEAD-check unique http(s) links, internal links first
+   */
+  private async checkLinks(
+    found: PageData["links"],
+    pageUrl: string,
+    userAgent: string,
+    opts: SeoOptions
+  ): Promise<LinkCheckResult[]> {
+    const pageHost = normalizeHost(new URL(pageUrl).hostname);
+    const candidates = new Map<string, { selector: string; internal: boolean }>();
+
+    for (const link of found) {
+      let parsed: URL;
+      try {
+        parsed = new URL(link.url);
+      } catch {
+        continue;
+      }
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") continue;
+
+      parsed.hash = "";
+      const key = parsed.toString();
+      if (key === pageUrl || candidates.has(key)) continue;
+
+      const internal = normalizeHost(parsed.hostname) === pageHost;
+      if (!internal && !opts.checkExternalLinks) continue;
+
+      candidates.set(key, { selector: link.selector, internal });
+    }
+
+    const queue = [...candidates.entries()]
+      .sort(([, a], [, b]) => Number(b.internal) - Number(a.internal))
+      .slice(0, opts.maxLinks);
+
+    const results: LinkCheckResult[] = [];
+    const worker = async (): Promise<void> => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        const [linkUrl, { selector, internal }] = next;
+        results.push({
+          url: linkUrl,
+          selector,
+          internal,
+          ...(await this.checkLink(linkUrl, userAgent, opts.linkTimeout)),
+        });
+      }
+    };
+
+    await Promise.all(Array.from({ length: opts.linkConcurrency }, () => worker()));
+
+    return results;
+  }
+
+  /**
+   * Check one link, retrying with GET when HEAD isn't supported
+   */
+  private async checkLink(
+    linkUrl: string,
+    userAgent: string,
+    timeout: number
+  ): Promise<Pick<LinkCheckResult, "status" | "ok" | "error">> {
+    const request = (method: "HEAD" | "GET"): Promise<Response> =>
+      fetch(linkUrl, {
+        method,
+        redirect: "follow",
+        headers: { "user-agent": userAgent },
+        signal: AbortSignal.timeout(timeout),
+      });
+
+    try {
+      let response = await request("HEAD");
+      if (response.status === 405 || response.status === 501) {
+        response = await request("GET");
+        await response.body?.cancel();
+      }
+
+      return {
+        status: response.status,
+        ok: response.status < 400 || BOT_BLOCKING_STATUSES.has(response.status),
+        error: null,
+      };
+    } catch (error) {
+      return {
+        status: null,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // ============================================
+  // Images and HTTPS
+  // ============================================
+
+  /**
+   * Estimate the bytes each image could save
+   *
+   * Savings combine resizing to the rendered size with re-encoding
+   * legacy formats as WebP.
+   */
+  private analyzeImages(
+    found: PageData["images"],
+    responses: Map<string, { contentType: string | null; bytes: number | null }>
+  ): ImageAnalysis[] {
+    const images = new Map<string, ImageAnalysis>();
+
+    for (const image of found) {
+      if (images.has(image.url)) continue;
+
+      const response = responses.get(image.url);
+      const bytes =
+        response?.bytes ?? (image.encodedBodySize > 0 ? image.encodedBodySize : null);
+      const contentType = response?.contentType ?? guessImageType(image.url);
+
+      let potentialSavingsBytes = 0;
+      if (bytes !== null) {
+        const naturalArea = image.naturalWidth * image.naturalHeight;
+        const displayArea = image.displayWidth * image.displayHeight;
+        // Hidden and lazy images have no rendered size to compare against
+        const resizeRatio =
+          displayArea > 0 && displayArea < naturalArea ? displayArea / naturalArea : 1;
+        const formatRatio = 1 - (contentType !== null ? (IMAGE_FORMAT_SAVINGS[contentType] ?? 0) : 0);
+        potentialSavingsBytes = Math.round(bytes - bytes * resizeRatio * formatRatio);
+      }
+
+      images.set(image.url, {
+        url: image.url,
+        selector: image.selector,
+        contentType,
+        bytes,
+        naturalWidth: image.naturalWidth,
+        naturalHeight: image.naturalHeight,
+        displayWidth: image.displayWidth,
+        displayHeight: image.displayHeight,
+        potentialSavingsBytes,
+      });
+    }
+
+    return [...images.values()];
+  }
+
+  /**
+   * Check HTTPS, the http:// redirect and mixed content
+   */
+  private async checkHttps(
+    url: string,
+    finalUrl: string,
+    insecureResources: PageData["insecureResources"],
+    opts: SeoOptions
+  ): Promise<HttpsStatus> {
+    const isHttps = finalUrl.startsWith("https:");
+
+    let redirectsToHttps: boolean | null = null;
+    if (url.startsWith("http:")) {
+      redirectsToHttps = isHttps;
+    } else if (isHttps) {
+      const insecureUrl = new URL(finalUrl);
+      insecureUrl.protocol = "http:";
+      try {
+        const response = await fetch(insecureUrl, {
+          method: "HEAD",
+          redirect: "manual",
+          signal: AbortSignal.timeout(opts.linkTimeout),
+        });
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location !== null) {
+          redirectsToHttps = new URL(location, insecureUrl).protocol === "https:";
+        } else if (response.status < 300) {
+          redirectsToHttps = false;
+        }
+      } catch {
+        // Port 80 closed or unreachable - nothing served insecurely
+      }
+    }
+
+    return {
+      isHttps,
+      redirectsToHttps,
+      mixedContent: isHttps ? insecureResources : [],
+    };
+  }
+
+  // ============================================
+  // Issue Detection
+  // ============================================
+
+  /**
+   * Detect title, description, Open Graph, canonical and robots issues
+   */
+  private detectMetaIssues(meta: MetaTags, pageUrl: string): SeoIssue[] {
+    const issues: SeoIssue[] = [];
+
+    if (meta.title === null) {
+      issues.push({
+        type: "MISSING_TITLE",
+        severity: "high",
+        description: "Page has no title",
+        elementSelector: "head",
+        resourceUrl: null,
+        recommendation: "Add a descriptive <title> naming the business and what it offers",
+      });
+    } else if (
+      meta.title.length < SEO_LENGTH_LIMITS.TITLE_MIN ||
+      meta.title.length > SEO_LENGTH_LIMITS.TITLE_MAX
+    ) {
+      issues.push({
+        type: "TITLE_LENGTH",
+        severity: "low",
+        description: `Title is ${meta.title.length} characters; search results show ${SEO_LENGTH_LIMITS.TITLE_MIN}-${SEO_LENGTH_LIMITS.TITLE_MAX} well`,
+        elementSelector: "title",
+        resourceUrl: null,
+        recommendation: `Keep the title between ${SEO_LENGTH_LIMITS.TITLE_MIN} and ${SEO_LENGTH_LIMITS.TITLE_MAX} characters`,
+        details: { title: meta.title },
+      });
+    }
+
+    if (meta.metaDescription === null) {
+      issues.push({
+        type: "MISSING_META_DESCRIPTION",
+        severity: "medium",
+        description: "Page has no meta description, so search engines pick a snippet themselves",
+        elementSelector: "head",
+        resourceUrl: null,
+        recommendation: 'Add <meta name="description"> summarizing the page in one or two sentences',
+      });
+    } else if (
+      meta.metaDescription.length < SEO_LENGTH_LIMITS.DESCRIPTION_MIN ||
+      meta.metaDescription.length > SEO_LENGTH_LIMITS.DESCRIPTION_MAX
+    ) {
+      issues.push({
+        type: "META_DESCRIPTION_LENGTH",
+        severity: "low",
+        description: `Meta description is ${meta.metaDescription.length} characters`,
+        elementSelector: 'meta[name="description"]',
+        resourceUrl: null,
+        recommendation: `Keep the description between ${SEO_LENGTH_LIMITS.DESCRIPTION_MIN} and ${SEO_LENGTH_LIMITS.DESCRIPTION_MAX} characters`,
+        details: { metaDescription: meta.metaDescription },
+      });
+    }
+
+    const missingOpenGraph = REQUIRED_OPEN_GRAPH_TAGS.filter((tag) => meta.openGraph[tag] === undefined);
+    if (missingOpenGraph.length > 0) {
+      issues.push({
+        type: "MISSING_OPEN_GRAPH",
+        severity: missingOpenGraph.length === REQUIRED_OPEN_GRAPH_TAGS.length ? "medium" : "low",
+        description: `Missing Open Graph tags: ${missingOpenGraph.join(", ")}`,
+        elementSelector: "head",
+        resourceUrl: null,
+        recommendation: "Add Open Graph tags so shared links show a title, description and image",
+        details: { missing: missingOpenGraph },
+      });
+    }
+
+    if (meta.canonical === null) {
+      issues.push({
+        type: "MISSING_CANONICAL",
+        severity: "low",
+        description: "Page has no canonical URL",
+        elementSelector: "head",
+        resourceUrl: null,
+        recommendation: 'Add <link rel="canonical"> so duplicate URLs are credited to one page',
+      });
+    } else {
+      let canonicalHost: string | null = null;
+      try {
+        canonicalHost = normalizeHost(new URL(meta.canonical, pageUrl).hostname);
+      } catch {
+        // Unparseable canonical - treated like a missing one by search engines
+      }
+      if (canonicalHost !== null && canonicalHost !== normalizeHost(new URL(pageUrl).hostname)) {
+        issues.push({
+          type: "CANONICAL_OFF_SITE",
+          severity: "high",
+          description: `Canonical URL points to another site (${canonicalHost})`,
+          elementSelector: 'link[rel="canonical"]',
+          resourceUrl: meta.canonical,
+          recommendation: "Point the canonical URL at this page, or search engines credit the other site",
+        });
+      }
+    }
+
+    if (meta.robots !== null && /\bnoindex\b/i.test(meta.robots)) {
+      issues.push({
+        type: "NOINDEX",
+        severity: "critical",
+        description: "Robots meta tag keeps this page out of search results",
+        elementSelector: 'meta[name="robots"]',
+        resourceUrl: null,
+        recommendation: "Remove noindex from the robots meta tag",
+        details: { robots: meta.robots },
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * One issue per broken link
+   */
+  private detectLinkIssues(links: LinkCheckResult[]): SeoIssue[] {
+    return links
+      .filter((l) => !l.ok)
+      .sort((a, b) => Number(b.internal) - Number(a.internal))
+      .slice(0, MAX_ISSUES_PER_TYPE)
+      .map((link): SeoIssue => ({
+        type: "BROKEN_LINK",
+        severity: link.internal ? "high" : "medium",
+        description:
+          link.status !== null
+            ? `${link.internal ? "Internal" : "External"} link returns HTTP ${link.status}`
+            : `${link.internal ? "Internal" : "External"} link is unreachable: ${link.error ?? "request failed"}`,
+        elementSelector: link.selector,
+        resourceUrl: link.url,
+        recommendation: link.internal
+          ? "Fix or remove the link, or redirect the old URL to a live page"
+          : "Update or remove the link to the missing page",
+        details: { status: link.status },
+      }));
+  }
+
+  /**
+   * One issue per image that is too heavy or could save enough bytes
+   */
+  private detectImageIssues(images: ImageAnalysis[], opts: SeoOptions): SeoIssue[] {
+    return images
+      .filter(
+        (i) =>
+          (i.bytes !== null && i.bytes > opts.maxImageBytes) ||
+          i.potentialSavingsBytes >= opts.minImageSavingsBytes
+      )
+      .sort((a, b) => b.potentialSavingsBytes - a.potentialSavingsBytes)
+      .slice(0, MAX_ISSUES_PER_TYPE)
+      .map((image): SeoIssue => {
+        const oversized =
+          image.displayWidth > 0 && image.naturalWidth * image.naturalHeight > image.displayWidth * image.displayHeight;
+        const legacyFormat = image.contentType !== null && IMAGE_FORMAT_SAVINGS[image.contentType] !== undefined;
+        const fixes = [
+          ...(oversized ? [`resizing to ${image.displayWidth}x${image.displayHeight}`] : []),
+          ...(legacyFormat ? ["serving WebP or AVIF"] : []),
+        ];
+
+        return {
+          type: "LARGE_IMAGE",
+          severity: (image.bytes ?? 0) > 1024 * 1024 ? "high" : "medium",
+          description:
+            `Image is ${formatKb(image.bytes ?? 0)}` +
+            (image.potentialSavingsBytes > 0 ? `; about ${formatKb(image.potentialSavingsBytes)} could be saved` : ""),
+          elementSelector: image.selector,
+          resourceUrl: image.url,
+          recommendation:
+            fixes.length > 0
+              ? `Reduce the image by ${fixes.join(" and ")}`
+              : "Compress the image or replace it with a lighter one",
+          details: {
+            bytes: image.bytes,
+            potentialSavingsBytes: image.potentialSavingsBytes,
+            contentType: image.contentType,
+            naturalSize: `${image.naturalWidth}x${image.naturalHeight}`,
+            displaySize: `${image.displayWidth}x${image.displayHeight}`,
+          },
+        };
+      });
+  }
+
+  /**
+   * Detect missing HTTPS, missing redirect and mixed content
+   */
+  private detectHttpsIssues(https: HttpsStatus, pageUrl: string): SeoIssue[] {
+    const issues: SeoIssue[] = [];
+
+    if (!https.isHttps) {
+      issues.push({
+        type: "NO_HTTPS",
+        severity: "critical",
+        description: "Site is served over plain HTTP; browsers mark it \"Not secure\"",
+        elementSelector: null,
+        resourceUrl: pageUrl,
+        recommendation: "Install a TLS certificate and serve the site over HTTPS",
+      });
+    } else if (https.redirectsToHttps === false) {
+      issues.push({
+        type: "NO_HTTPS_REDIRECT",
+        severity: "medium",
+        description: "The http:// address serves the site instead of redirecting to HTTPS",
+        elementSelector: null,
+        resourceUrl: pageUrl.replace(/^https:/, "http:"),
+        recommendation: "Redirect all http:// requests to HTTPS with a 301",
+      });
+    }
+
+    for (const resource of https.mixedContent.slice(0, MAX_ISSUES_PER_TYPE)) {
+      issues.push({
+        type: "MIXED_CONTENT",
+        severity: "high",
+        description: "Secure page loads a resource over plain HTTP",
+        elementSelector: resource.selector,
+        resourceUrl: resource.url,
+        recommendation: "Load the resource over HTTPS",
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Calculate SEO score (0-100)
+   */
+  private calculateScore(issues: SeoIssue[]): number {
+    if (issues.length === 0) return 100;
+
+    let deductions = 0;
+
+    for (const issue of issues) {
+      deductions += SEVERITY_WEIGHTS[issue.severity];
+    }
+
+    // Cap deductions at 100
+    return Math.max(0, 100 - Math.min(100, deductions));
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Hostname without a leading "www."
+ */
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * Image MIME type from a URL's extension
+ */
+function guessImageType(url: string): string | null {
+  const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(url)?.[1]?.toLowerCase();
+  const types: Record<string, string> = {
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    png: "image/png",
+    gif: "image/gif",
+    bmp: "image/bmp",
+    tif: "image/tiff",
+    tiff: "image/tiff",
+    webp: "image/webp",
+    avif: "image/avif",
+    svg: "image/svg+xml",
+  };
+  return extension !== undefined ? (types[extension] ?? null) : null;
+}
+
+/**
+ * Format a byte count as kilobytes
+ */
+function formatKb(bytes: number): string {
+  return `${Math.round(bytes / 1024)} KB`;
+}
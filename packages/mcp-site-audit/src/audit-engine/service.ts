@@ -9,18 +9,35 @@ import {
   type LeadProfile,
   type WCAGViolation as SharedWCAGViolation,
   type ResponsiveIssue as SharedResponsiveIssue,
+  type SeoIssue as SharedSeoIssue,
+  type CrawledPage,
+  type CrawlSource,
+  type SiteCrawl,
+  type RobotsDecision,
+  type TechStack,
   AppError,
+  AuditFailedError,
   ErrorCode,
 } from "@the-closer/shared";
-import type { LeadRepository, EvidenceStore, EvidenceFile } from "@the-closer/mcp-lead-storage";
-
-import { PerformanceAnalyzer } from "./performance.js";
-import { AccessibilityScanner } from "./accessibility.js";
-import { ResponsivenessAnalyzer } from "./responsive.js";
+import type {
+  AuditRepository,
+  LeadRepository,
+  EvidenceStore,
+  EvidenceFile,
+} from "@the-closer/mcp-lead-storage";
+
+import { AnalyzerRegistry } from "./analyzer-registry.js";
+import { createBuiltInAnalyzers, mapSeverity } from "./analyzers.js";
+import { SiteCrawler } from "./crawler.js";
+import type { CrawlPolicy } from "./crawl-policy.js";
 import { EvidenceCapture } from "./evidence.js";
-import type { PerformanceReport } from "./types.js";
-import type { AccessibilityReport, WCAGViolation } from "./accessibility-types.js";
-import type { ResponsivenessReport, ResponsiveIssue } from "./responsive-types.js";
+import type { AnalyzerContext, AuditAnalyzer, PageReports } from "./analyzer-types.js";
+import type { PerformanceReport, ThrottlingProfileName } from "./types.js";
+import type { WCAGViolation } from "./accessibility-types.js";
+import type { ResponsiveIssue } from "./responsive-types.js";
+import type { SeoIssue } from "./seo-types.js";
+import type { TechStackReport } from "./tech-stack-types.js";
+import type { CrawlDiscovery } from "./crawl-types.js";
 import { VIEWPORTS } from "./evidence-types.js";
 import { BrowserPool, type ManagedPage } from "../browser/index.js";
 
@@ -38,27 +55,56 @@ export interface AuditOptions {
   runAccessibility?: boolean;
   /** Whether to run responsiveness analysis */
   runResponsiveness?: boolean;
+  /** Whether to run SEO and hygiene checks */
+  runSeo?: boolean;
+  /** Whether to fingerprint the site's technology stack */
+  runTechStack?: boolean;
   /** Whether to capture screenshots */
   captureScreenshots?: boolean;
   /** Whether to capture video on slow loads */
   captureVideoOnSlowLoad?: boolean;
+  /** Whether to trace the load and render a filmstrip and waterfall report when performance has pain points */
+  captureLoadReport?: boolean;
   /** Timeout for each analysis in ms */
   timeout?: number;
   /** WCAG level for accessibility scan */
   wcagLevel?: "A" | "AA" | "AAA";
+  /** Network and CPU conditions the reported performance numbers are measured under */
+  throttlingProfile?: ThrottlingProfileName;
+  /** Cold-cache performance runs; above 1, medians are reported (requires a browser pool) */
+  performanceRuns?: number;
+  /** Pages audited per site; above 1, same-origin pages are crawled and rolled up */
+  maxPages?: number;
+  /** Registered analyzers to run by name; defaults to every analyzer enabled by default */
+  analyzers?: string[];
+  /** Options passed to individual analyzers, keyed by analyzer name */
+  analyzerOptions?: Record<string, Record<string, unknown>>;
 }
 
+/**
+ * Audit options after defaults; the analyzer selection stays optional
+ */
+export type ResolvedAuditOptions = Required<Omit<AuditOptions, "analyzers">> &
+  Pick<AuditOptions, "analyzers">;
+
 /**
  * Default audit options
  */
-export const DEFAULT_AUDIT_OPTIONS: Required<AuditOptions> = {
+export const DEFAULT_AUDIT_OPTIONS: ResolvedAuditOptions = {
   runPerformance: true,
   runAccessibility: true,
   runResponsiveness: true,
+  runSeo: true,
+  runTechStack: true,
   captureScreenshots: true,
   captureVideoOnSlowLoad: true,
+  captureLoadReport: false,
   timeout: 60000,
   wcagLevel: "AA",
+  throttlingProfile: "none",
+  performanceRuns: 1,
+  maxPages: 1,
+  analyzerOptions: {},
 };
 
 /**
@@ -98,17 +144,26 @@ export interface BatchAuditResult {
 /**
  * Partial audit result for targeted audits
  */
-export interface PartialAuditResult {
+export interface PartialAuditResult extends PageReports {
   leadId: string;
   url: string;
   auditedAt: string;
-  performance?: PerformanceReport;
-  accessibility?: AccessibilityReport;
-  responsiveness?: ResponsivenessReport;
   painPoints: PainPoint[];
   error?: string;
 }
 
+/**
+ * Reports and pain points of one page of a site crawl
+ */
+interface PageAudit {
+  url: string;
+  source: CrawlSource;
+  reports: PageReports;
+  painPoints: PainPoint[];
+  errors: string[];
+  durationMs: number;
+}
+
 /**
  * Audit status for lead tracking
  */
@@ -125,29 +180,37 @@ type AuditStatus = "pending" | "auditing" | "audited" | "blocked" | "failed";
  * evidence storage, and lead status management.
  */
 export class AuditService {
-  private readonly performanceAnalyzer: PerformanceAnalyzer;
-  private readonly accessibilityScanner: AccessibilityScanner;
-  private readonly responsivenessAnalyzer: ResponsivenessAnalyzer;
+  private readonly analyzers: AnalyzerRegistry;
+  private readonly siteCrawler: SiteCrawler;
+  private readonly crawlPolicy: CrawlPolicy;
   private readonly evidenceCapture: EvidenceCapture;
   private readonly leadRepository: LeadRepository;
   private readonly evidenceStore: EvidenceStore;
+  private readonly auditRepository: AuditRepository | undefined;
   private readonly browserPool: BrowserPool | undefined;
 
   constructor(dependencies: {
-    performanceAnalyzer: PerformanceAnalyzer;
-    accessibilityScanner: AccessibilityScanner;
-    responsivenessAnalyzer: ResponsivenessAnalyzer;
+    /** Analyzers audits can select from; defaults to the built-in ones */
+    analyzers?: AnalyzerRegistry;
+    siteCrawler: SiteCrawler;
+    /** Checks robots.txt before navigating and paces requests per host */
+    crawlPolicy: CrawlPolicy;
     evidenceCapture: EvidenceCapture;
     leadRepository: LeadRepository;
     evidenceStore: EvidenceStore;
+    /** When set, every completed audit is kept in the audits table */
+    auditRepository?: AuditRepository;
     browserPool?: BrowserPool;
   }) {
-    this.performanceAnalyzer = dependencies.performanceAnalyzer;
-    this.accessibilityScanner = dependencies.accessibilityScanner;
-    this.responsivenessAnalyzer = dependencies.responsivenessAnalyzer;
+    this.analyzers =
+      dependencies.analyzers ??
+      new AnalyzerRegistry(createBuiltInAnalyzers(dependencies.browserPool));
+    this.siteCrawler = dependencies.siteCrawler;
+    this.crawlPolicy = dependencies.crawlPolicy;
     this.evidenceCapture = dependencies.evidenceCapture;
     this.leadRepository = dependencies.leadRepository;
     this.evidenceStore = dependencies.evidenceStore;
+    this.auditRepository = dependencies.auditRepository;
     this.browserPool = dependencies.browserPool;
   }
 
@@ -168,8 +231,10 @@ export class AuditService {
     page: Page,
     options: AuditOptions = {}
   ): Promise<AuditResult> {
-    const opts = { ...DEFAULT_AUDIT_OPTIONS, ...options };
+    const opts: ResolvedAuditOptions = { ...DEFAULT_AUDIT_OPTIONS, ...options };
     const startTime = Date.now();
+    // Unknown analyzer names fail before anything is touched
+    const analyzers = this.analyzers.resolve(opts.analyzers);
 
     // Get lead from repository
     const lead = await this.leadRepository.getLeadById(leadId);
@@ -193,57 +258,37 @@ export class AuditService {
     const auditId = randomUUID();
     const errors: string[] = [];
 
+    // Check robots.txt before navigating
+    const robots = await this.checkRobots(leadId, url);
+
     // Update lead status to auditing
     await this.updateLeadAuditStatus(leadId, "auditing");
 
-    let performanceReport: PerformanceReport | undefined;
-    let accessibilityReport: AccessibilityReport | undefined;
-    let responsivenessReport: ResponsivenessReport | undefined;
     const evidenceFiles: EvidenceFile[] = [];
 
     try {
-      // Run performance analysis
-      if (opts.runPerformance) {
-        try {
-          performanceReport = await this.performanceAnalyzer.analyzePerformance(
-            page,
-            url,
-            { timeout: opts.timeout }
-          );
-        } catch (error) {
-          errors.push(`Performance analysis failed: ${error instanceof Error ? error.message : String(error)}`);
-        }
-      }
-
-      // Run accessibility scan
-      if (opts.runAccessibility) {
-        try {
-          accessibilityReport = await this.accessibilityScanner.scanAccessibility(
-            page,
-            url,
-            { level: opts.wcagLevel, timeout: opts.timeout }
-          );
-        } catch (error) {
-          errors.push(`Accessibility scan failed: ${error instanceof Error ? error.message : String(error)}`);
-        }
-      }
-
-      // Run responsiveness analysis
-      if (opts.runResponsiveness) {
-        try {
-          responsivenessReport = await this.responsivenessAnalyzer.analyzeResponsiveness(
-            page,
-            url,
-            { timeout: opts.timeout }
-          );
-        } catch (error) {
-          errors.push(`Responsiveness analysis failed: ${error instanceof Error ? error.message : String(error)}`);
-        }
-      }
+      const entryReports = await this.analyzePage(
+        page,
+        { url, lead, isEntryPage: true },
+        analyzers,
+        opts,
+        robots,
+        errors
+      );
+      const entryAudit: PageAudit = {
+        url,
+        source: "entry",
+        reports: entryReports,
+        painPoints: this.aggregatePainPoints(entryReports),
+        errors: [...errors],
+        durationMs: Date.now() - startTime,
+      };
+      const { performance: performanceReport } = entryReports;
 
       // Capture evidence
       if (opts.captureScreenshots) {
         try {
+          await this.crawlPolicy.waitForTurn(url, robots.crawlDelayMs);
           const screenshots = await this.captureScreenshotEvidence(page, url);
           evidenceFiles.push(...screenshots);
         } catch (error) {
@@ -256,6 +301,7 @@ export class AuditService {
         const loadTime = performanceReport.loadTimeMs;
         if (loadTime > 3000) {
           try {
+            await this.crawlPolicy.waitForTurn(url, robots.crawlDelayMs);
             const video = await this.evidenceCapture.recordPageLoad(
               page,
               url,
@@ -265,7 +311,7 @@ export class AuditService {
               evidenceFiles.push({
                 buffer: Buffer.from(video.data),
                 type: "video",
-                filename: "slow-load.webm",
+                filename: `slow-load.${video.extension}`,
               });
             }
           } catch (error) {
@@ -274,15 +320,35 @@ export class AuditService {
         }
       }
 
+      // Show why the page is slow: filmstrip and request waterfall
+      if (performanceReport?.trace && performanceReport.painPoints.length > 0) {
+        try {
+          const report = await this.evidenceCapture.captureLoadReport(
+            page,
+            url,
+            performanceReport.trace,
+            performanceReport.resources.requests
+          );
+          evidenceFiles.push({
+            buffer: Buffer.from(report.data),
+            type: "report",
+            filename: `load-report.${report.extension}`,
+          });
+        } catch (error) {
+          errors.push(`Load report failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
       // Upload evidence to storage
       const evidenceUrls = await this.uploadEvidence(leadId, evidenceFiles);
 
-      // Aggregate pain points
-      const painPoints = this.aggregatePainPoints(
-        performanceReport,
-        accessibilityReport,
-        responsivenessReport
-      );
+      // Audit the rest of the site and roll the pages up
+      const { pageAudits, skippedPages } =
+        opts.maxPages > 1
+          ? await this.crawlSite(page, lead, entryAudit, analyzers, opts, robots, errors)
+          : { pageAudits: [entryAudit], skippedPages: [] };
+      const crawl = opts.maxPages > 1 ? this.buildSiteCrawl(pageAudits, skippedPages) : undefined;
+      const painPoints = crawl ? this.rollUpPainPoints(pageAudits) : entryAudit.painPoints;
 
       // Build audit result
       const auditResult: AuditResult = {
@@ -290,21 +356,18 @@ export class AuditService {
         leadId,
         url,
         auditedAt: new Date().toISOString(),
-        metrics: this.buildMetrics(performanceReport),
-        wcagViolations: accessibilityReport
-          ? this.convertWcagViolations(accessibilityReport.violations)
-          : [],
-        accessibilityScore: accessibilityReport?.score,
-        mobileFriendly: responsivenessReport?.score !== undefined ? responsivenessReport.score >= 70 : true,
-        responsiveIssues: responsivenessReport
-          ? this.convertResponsiveIssues(responsivenessReport.issues)
-          : [],
+        ...this.buildPageFindings(pageAudits, crawl !== undefined),
         testedViewports: [
           { width: 375, height: 812, deviceName: "Mobile" },
           { width: 768, height: 1024, deviceName: "Tablet" },
           { width: 1920, height: 1080, deviceName: "Desktop" },
         ],
+        ...(entryReports.techStack && {
+          techStack: this.convertTechStack(entryReports.techStack),
+        }),
         painPoints,
+        ...(crawl && { crawl }),
+        robots,
         evidence: evidenceUrls.map((ev) => ({
           type: ev.type as "screenshot" | "video" | "report",
           url: ev.url,
@@ -314,7 +377,8 @@ export class AuditService {
         error: errors.length > 0 ? errors.join("; ") : undefined,
       };
 
-      // Update lead with audit results
+      // Keep the full result for outreach, then update the lead summary
+      await this.auditRepository?.saveAudit(auditResult);
       await this.updateLeadWithAuditResult(leadId, auditResult, painPoints);
 
       return auditResult;
@@ -338,74 +402,339 @@ export class AuditService {
     }
   }
 
+  /**
+   * Run the selected analyzers on one page, collecting failures in errors
+   *
+   * Analyzers run in dependency order. One whose dependency failed is
+   * skipped with an error; one whose dependency did not apply to the
+   * page is skipped silently.
+   */
+  private async analyzePage(
+    page: Page,
+    target: Pick<AnalyzerContext, "url" | "lead" | "isEntryPage">,
+    analyzers: AuditAnalyzer[],
+    opts: ResolvedAuditOptions,
+    robots: RobotsDecision,
+    errors: string[]
+  ): Promise<PageReports> {
+    const reports: PageReports = {};
+    const failed = new Set<string>();
+    // Every analysis navigates, so each one waits out the crawl-delay
+    const waitForTurn = (): Promise<void> =>
+      this.crawlPolicy.waitForTurn(target.url, robots.crawlDelayMs);
+
+    for (const analyzer of analyzers) {
+      const context: AnalyzerContext = { ...target, options: opts, reports };
+      if (analyzer.appliesTo && !analyzer.appliesTo(context)) continue;
+
+      const missing = (analyzer.dependencies ?? []).filter((name) => reports[name] === undefined);
+      if (missing.length > 0) {
+        const failedDependencies = missing.filter((name) => failed.has(name));
+        if (failedDependencies.length > 0) {
+          failed.add(analyzer.name);
+          errors.push(`${analyzer.title} skipped: ${failedDependencies.join(", ")} failed`);
+        }
+        continue;
+      }
+
+      try {
+        await waitForTurn();
+        reports[analyzer.name] = await analyzer.run(page, context);
+      } catch (error) {
+        failed.add(analyzer.name);
+        errors.push(`${analyzer.title} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return reports;
+  }
+
   // ============================================
-  // Partial Audits
+  // Site Crawl
   // ============================================
 
   /**
-   * Run performance analysis only
+   * Discover and audit up to maxPages pages of the entry page's site
+   *
+   * Pages are audited one after another on the same browser page.
+   * Evidence is only captured for the entry page.
    */
-  async runPerformanceOnly(
-    leadId: string,
+  private async crawlSite(
     page: Page,
-    options: { timeout?: number } = {}
-  ): Promise<PartialAuditResult> {
-    const lead = await this.getLeadOrThrow(leadId);
-    const url = lead.websiteUrl!;
-
+    lead: LeadProfile,
+    entryAudit: PageAudit,
+    analyzers: AuditAnalyzer[],
+    opts: ResolvedAuditOptions,
+    robots: RobotsDecision,
+    errors: string[]
+  ): Promise<{ pageAudits: PageAudit[]; skippedPages: SiteCrawl["skippedPages"] }> {
+    const pageAudits = [entryAudit];
+
+    let discovered: CrawlDiscovery;
     try {
-      const report = await this.performanceAnalyzer.analyzePerformance(
+      discovered = await this.siteCrawler.discoverPages(page, entryAudit.url, {
+        maxPages: opts.maxPages,
+        timeout: opts.timeout,
+      });
+    } catch (error) {
+      errors.push(`Site crawl failed: ${error instanceof Error ? error.message : String(error)}`);
+      return { pageAudits, skippedPages: [] };
+    }
+
+    for (const discoveredPage of discovered.pages) {
+      if (discoveredPage.source === "entry") continue;
+
+      const pageStart = Date.now();
+      const pageErrors: string[] = [];
+      const reports = await this.analyzePage(
         page,
-        url,
-        { timeout: options.timeout ?? 60000 }
+        { url: discoveredPage.url, lead, isEntryPage: false },
+        analyzers,
+        opts,
+        robots,
+        pageErrors
       );
 
-      const painPoints = this.performancePainPointsToPainPoints(report.painPoints);
+      pageAudits.push({
+        url: discoveredPage.url,
+        source: discoveredPage.source,
+        reports,
+        painPoints: this.aggregatePainPoints(reports),
+        errors: pageErrors,
+        durationMs: Date.now() - pageStart,
+      });
+    }
 
+    const failedPages = pageAudits.filter((p) => !hasReports(p.reports)).length;
+    if (failedPages > 0) {
+      errors.push(`${failedPages} of ${pageAudits.length} crawled page(s) could not be audited`);
+    }
+
+    return { pageAudits, skippedPages: discovered.skipped };
+  }
+
+  /**
+   * Build the site crawl summary with per-page breakdowns
+   */
+  private buildSiteCrawl(
+    pageAudits: PageAudit[],
+    skippedPages: SiteCrawl["skippedPages"]
+  ): SiteCrawl {
+    const pages = pageAudits.map((p) => this.buildCrawledPage(p));
+
+    let worst: CrawledPage | undefined;
+    for (const crawled of pages) {
+      if (crawled.score !== undefined && (worst?.score === undefined || crawled.score < worst.score)) {
+        worst = crawled;
+      }
+    }
+
+    const worstPainPoint = worst?.painPoints[0];
+
+    return {
+      pagesDiscovered: pageAudits.length + skippedPages.length,
+      pagesAudited: pageAudits.filter((p) => hasReports(p.reports)).length,
+      pages,
+      skippedPages,
+      ...(worst?.score !== undefined && {
+        worstPage: {
+          url: worst.url,
+          score: worst.score,
+          reason:
+            worstPainPoint?.description ??
+            worstPainPoint?.value ??
+            "Lowest score of the audited pages",
+        },
+      }),
+    };
+  }
+
+  /**
+   * Summarize one audited page
+   */
+  private buildCrawledPage(pageAudit: PageAudit): CrawledPage {
+    const { performance, accessibility, responsiveness, seo } = pageAudit.reports;
+    const scores = this.analyzers
+      .list()
+      .map((analyzer) => {
+        const report = pageAudit.reports[analyzer.name];
+        return report === undefined ? undefined : analyzer.score?.(report);
+      })
+      .filter((score): score is number => score !== undefined);
+
+    return {
+      url: pageAudit.url,
+      source: pageAudit.source,
+      ...(scores.length > 0 && {
+        score: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+      }),
+      ...(performance && { performanceScore: performance.score }),
+      ...(accessibility && { accessibilityScore: accessibility.score }),
+      ...(seo && { seoScore: seo.score }),
+      ...(responsiveness && { mobileFriendly: responsiveness.score >= 70 }),
+      wcagViolationCount: accessibility?.violations.length ?? 0,
+      responsiveIssueCount: responsiveness?.issues.length ?? 0,
+      seoIssueCount: seo?.issues.length ?? 0,
+      painPoints: pageAudit.painPoints,
+      durationMs: pageAudit.durationMs,
+      ...(pageAudit.errors.length > 0 && { error: pageAudit.errors.join("; ") }),
+    };
+  }
+
+  /**
+   * Combine the pain points of every crawled page
+   *
+   * Each pain point type is reported once, from the page where it is
+   * most severe, with the number of pages it was found on.
+   */
+  private rollUpPainPoints(pageAudits: PageAudit[]): PainPoint[] {
+    const byType = new Map<PainPoint["type"], { painPoint: PainPoint; url: string; pages: Set<string> }>();
+
+    for (const pageAudit of pageAudits) {
+      for (const painPoint of pageAudit.painPoints) {
+        const existing = byType.get(painPoint.type);
+        if (!existing) {
+          byType.set(painPoint.type, {
+            painPoint,
+            url: pageAudit.url,
+            pages: new Set([pageAudit.url]),
+          });
+          continue;
+        }
+        existing.pages.add(pageAudit.url);
+        if (SEVERITY_ORDER[painPoint.severity] < SEVERITY_ORDER[existing.painPoint.severity]) {
+          existing.painPoint = painPoint;
+          existing.url = pageAudit.url;
+        }
+      }
+    }
+
+    const painPoints: PainPoint[] = [...byType.values()].map(({ painPoint, url, pages }) => {
+      const onEntry = url === pageAudits[0]?.url;
       return {
-        leadId,
-        url,
-        auditedAt: new Date().toISOString(),
-        performance: report,
-        painPoints,
-      };
-    } catch (error) {
-      return {
-        leadId,
-        url,
-        auditedAt: new Date().toISOString(),
-        painPoints: [],
-        error: error instanceof Error ? error.message : String(error),
+        ...painPoint,
+        value:
+          pages.size > 1
+            ? `${painPoint.value} (${pages.size} of ${pageAudits.length} pages)`
+            : painPoint.value,
+        ...(!onEntry && {
+          description: `${painPoint.description ?? painPoint.value} on ${new URL(url).pathname}`,
+        }),
       };
+    });
+
+    // Pages that failed to load are broken for visitors too
+    const failed = pageAudits.filter((p) => !hasReports(p.reports));
+    if (failed.length > 0) {
+      painPoints.push({
+        type: "BROKEN_LINKS",
+        value: `${failed.length} page(s) failed to load`,
+        severity: "HIGH",
+        description: `Pages that could not be loaded: ${failed.map((p) => new URL(p.url).pathname).join(", ")}`,
+      });
     }
+
+    return painPoints.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
   }
 
   /**
-   * Run accessibility scan only
+   * Scores and findings of the audit result
+   *
+   * For a single page these come straight from its reports. For a
+   * crawl, scores are averaged over the audited pages, vitals and
+   * resource metrics are the entry page's, and every finding carries
+   * the URL of the page it was found on.
    */
-  async runAccessibilityOnly(
+  private buildPageFindings(
+    pageAudits: PageAudit[],
+    isCrawl: boolean
+  ): Pick<
+    AuditResult,
+    "metrics" | "wcagViolations" | "accessibilityScore" | "mobileFriendly" | "responsiveIssues" | "seoIssues"
+  > {
+    const entry = pageAudits[0]!.reports;
+    const average = (scores: Array<number | undefined>): number | undefined => {
+      const defined = scores.filter((score): score is number => score !== undefined);
+      return defined.length > 0
+        ? Math.round(defined.reduce((sum, score) => sum + score, 0) / defined.length)
+        : undefined;
+    };
+    const withPage = <T extends object>(items: T[], url: string): T[] =>
+      isCrawl ? items.map((item) => ({ ...item, pageUrl: url })) : items;
+
+    const performanceScore = average(pageAudits.map((p) => p.reports.performance?.score));
+    const seoScore = average(pageAudits.map((p) => p.reports.seo?.score));
+    const responsivenessScores = pageAudits
+      .map((p) => p.reports.responsiveness?.score)
+      .filter((score): score is number => score !== undefined);
+
+    return {
+      metrics: {
+        ...this.buildMetrics(entry.performance),
+        ...(isCrawl && performanceScore !== undefined && { performanceScore }),
+        ...(seoScore !== undefined && { seoScore }),
+      },
+      wcagViolations: pageAudits.flatMap((p) =>
+        p.reports.accessibility
+          ? withPage(this.convertWcagViolations(p.reports.accessibility.violations), p.url)
+          : []
+      ),
+      accessibilityScore: average(pageAudits.map((p) => p.reports.accessibility?.score)),
+      mobileFriendly: responsivenessScores.every((score) => score >= 70),
+      responsiveIssues: pageAudits.flatMap((p) =>
+        p.reports.responsiveness
+          ? withPage(this.convertResponsiveIssues(p.reports.responsiveness.issues), p.url)
+          : []
+      ),
+      seoIssues: pageAudits.flatMap((p) =>
+        p.reports.seo ? withPage(this.convertSeoIssues(p.reports.seo.issues), p.url) : []
+      ),
+    };
+  }
+
+  // ============================================
+  // Partial Audits
+  // ============================================
+
+  /**
+   * Run one registered analyzer only, after the analyzers it depends on
+   *
+   * Only the named analyzer's pain points are reported.
+   */
+  async runAnalyzerOnly(
     leadId: string,
     page: Page,
-    options: { wcagLevel?: "A" | "AA" | "AAA"; timeout?: number } = {}
+    name: string,
+    options: AuditOptions = {}
   ): Promise<PartialAuditResult> {
+    const opts: ResolvedAuditOptions = { ...DEFAULT_AUDIT_OPTIONS, ...options };
+    const analyzers = this.analyzers.resolve([name]);
+    const analyzer = analyzers[analyzers.length - 1]!;
     const lead = await this.getLeadOrThrow(leadId);
     const url = lead.websiteUrl!;
 
     try {
-      const report = await this.accessibilityScanner.scanAccessibility(
+      const robots = await this.checkRobots(leadId, url);
+      const errors: string[] = [];
+      const reports = await this.analyzePage(
         page,
-        url,
-        { level: options.wcagLevel ?? "AA", timeout: options.timeout ?? 60000 }
+        { url, lead, isEntryPage: true },
+        analyzers,
+        opts,
+        robots,
+        errors
       );
-
-      const painPoints = this.accessibilityToPainPoints(report);
+      const report = reports[name];
 
       return {
         leadId,
         url,
         auditedAt: new Date().toISOString(),
-        accessibility: report,
-        painPoints,
+        ...reports,
+        painPoints: report === undefined ? [] : analyzer.toPainPoints(report),
+        ...((errors.length > 0 || report === undefined) && {
+          error: errors.length > 0 ? errors.join("; ") : `${analyzer.title} does not apply to this lead`,
+        }),
       };
     } catch (error) {
       return {
@@ -418,6 +747,38 @@ export class AuditService {
     }
   }
 
+  /**
+   * Run performance analysis only
+   */
+  async runPerformanceOnly(
+    leadId: string,
+    page: Page,
+    options: { timeout?: number; throttlingProfile?: ThrottlingProfileName; runs?: number } = {}
+  ): Promise<PartialAuditResult> {
+    return this.runAnalyzerOnly(leadId, page, "performance", {
+      ...(options.timeout !== undefined && { timeout: options.timeout }),
+      ...(options.throttlingProfile && { throttlingProfile: options.throttlingProfile }),
+      ...(options.runs !== undefined && { performanceRuns: options.runs }),
+      runPerformance: true,
+      captureLoadReport: false,
+    });
+  }
+
+  /**
+   * Run accessibility scan only
+   */
+  async runAccessibilityOnly(
+    leadId: string,
+    page: Page,
+    options: { wcagLevel?: "A" | "AA" | "AAA"; timeout?: number } = {}
+  ): Promise<PartialAuditResult> {
+    return this.runAnalyzerOnly(leadId, page, "accessibility", {
+      ...(options.timeout !== undefined && { timeout: options.timeout }),
+      ...(options.wcagLevel && { wcagLevel: options.wcagLevel }),
+      runAccessibility: true,
+    });
+  }
+
   /**
    * Run responsiveness analysis only
    */
@@ -426,34 +787,39 @@ export class AuditService {
     page: Page,
     options: { timeout?: number } = {}
   ): Promise<PartialAuditResult> {
-    const lead = await this.getLeadOrThrow(leadId);
-    const url = lead.websiteUrl!;
-
-    try {
-      const report = await this.responsivenessAnalyzer.analyzeResponsiveness(
-        page,
-        url,
-        { timeout: options.timeout ?? 60000 }
-      );
+    return this.runAnalyzerOnly(leadId, page, "responsiveness", {
+      ...(options.timeout !== undefined && { timeout: options.timeout }),
+      runResponsiveness: true,
+    });
+  }
 
-      const painPoints = this.responsivenessToPainPoints(report);
+  /**
+   * Run SEO and hygiene checks only
+   */
+  async runSeoOnly(
+    leadId: string,
+    page: Page,
+    options: { timeout?: number; checkLinks?: boolean } = {}
+  ): Promise<PartialAuditResult> {
+    return this.runAnalyzerOnly(leadId, page, "seo", {
+      ...(options.timeout !== undefined && { timeout: options.timeout }),
+      analyzerOptions: { seo: { checkLinks: options.checkLinks ?? true } },
+      runSeo: true,
+    });
+  }
 
-      return {
-        leadId,
-        url,
-        auditedAt: new Date().toISOString(),
-        responsiveness: report,
-        painPoints,
-      };
-    } catch (error) {
-      return {
-        leadId,
-        url,
-        auditedAt: new Date().toISOString(),
-        painPoints: [],
-        error: error instanceof Error ? error.message : String(error),
-      };
-    }
+  /**
+   * Fingerprint the technology stack only
+   */
+  async runTechStackOnly(
+    leadId: string,
+    page: Page,
+    options: { timeout?: number } = {}
+  ): Promise<PartialAuditResult> {
+    return this.runAnalyzerOnly(leadId, page, "techStack", {
+      ...(options.timeout !== undefined && { timeout: options.timeout }),
+      runTechStack: true,
+    });
   }
 
   // ============================================
@@ -538,40 +904,16 @@ export class AuditService {
   // ============================================
 
   /**
-   * Aggregate pain points from all analysis results
+   * Aggregate the pain points of a page's reports, most severe first
    */
-  aggregatePainPoints(
-    performance?: PerformanceReport,
-    accessibility?: AccessibilityReport,
-    responsiveness?: ResponsivenessReport
-  ): PainPoint[] {
-    const painPoints: PainPoint[] = [];
-
-    // Performance pain points
-    if (performance) {
-      painPoints.push(...this.performancePainPointsToPainPoints(performance.painPoints));
-    }
-
-    // Accessibility pain points
-    if (accessibility) {
-      painPoints.push(...this.accessibilityToPainPoints(accessibility));
-    }
-
-    // Responsiveness pain points
-    if (responsiveness) {
-      painPoints.push(...this.responsivenessToPainPoints(responsiveness));
-    }
+  aggregatePainPoints(reports: PageReports): PainPoint[] {
+    const painPoints = this.analyzers.list().flatMap((analyzer) => {
+      const report = reports[analyzer.name];
+      return report === undefined ? [] : analyzer.toPainPoints(report);
+    });
 
     // Sort by severity (critical first)
-    return painPoints.sort((a, b) => {
-      const severityOrder: Record<Severity, number> = {
-        CRITICAL: 0,
-        HIGH: 1,
-        MEDIUM: 2,
-        LOW: 3,
-      };
-      return severityOrder[a.severity] - severityOrder[b.severity];
-    });
+    return painPoints.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
   }
 
   // ============================================
@@ -597,14 +939,66 @@ export class AuditService {
     return lead;
   }
 
-  private async updateLeadAuditStatus(leadId: string, status: AuditStatus): Promise<void> {
+  private async updateLeadAuditStatus(
+    leadId: string,
+    status: AuditStatus,
+    reason?: string
+  ): Promise<void> {
     // Map audit status to notes or another field
     // Since we don't have a direct auditStatus field, we'll use notes
     await this.leadRepository.updateLead(leadId, {
-      notes: `Audit status: ${status} at ${new Date().toISOString()}`,
+      notes: `Audit status: ${status} at ${new Date().toISOString()}${reason ? ` - ${reason}` : ""}`,
     });
   }
 
+  /**
+   * Check robots.txt for a lead's URL
+   *
+   * A disallowed URL marks the lead blocked with the reason, saves an
+   * audit recording the decision and throws before anything navigates
+   * to the site.
+   */
+  private async checkRobots(leadId: string, url: string): Promise<RobotsDecision> {
+    const robots = await this.crawlPolicy.check(url);
+
+    if (!robots.allowed) {
+      await this.updateLeadAuditStatus(leadId, "blocked", robots.reason);
+      const blocked = await this.auditRepository?.saveAudit(
+        this.buildBlockedAudit(leadId, url, robots)
+      );
+      throw AuditFailedError.forRobots(url, robots.reason, {
+        leadId,
+        robots,
+        ...(blocked && { auditId: blocked.id }),
+      });
+    }
+
+    return robots;
+  }
+
+  /**
+   * An audit that never ran because robots.txt disallowed the URL
+   */
+  private buildBlockedAudit(leadId: string, url: string, robots: RobotsDecision): AuditResult {
+    return {
+      id: randomUUID(),
+      leadId,
+      url,
+      auditedAt: robots.checkedAt,
+      metrics: {},
+      wcagViolations: [],
+      mobileFriendly: false,
+      responsiveIssues: [],
+      testedViewports: [],
+      seoIssues: [],
+      painPoints: [],
+      robots,
+      evidence: [],
+      durationMs: 0,
+      error: `Blocked by robots.txt: ${robots.reason}`,
+    };
+  }
+
   private async updateLeadWithAuditResult(
     leadId: string,
     audit: AuditResult,
@@ -702,118 +1096,14 @@ export class AuditService {
       unusedCssPercent: performance.coverage?.unusedCssPercent,
       totalResourceSize: performance.resources.totalTransferSize,
       totalRequests: performance.resources.resourceCount,
+      throttlingProfile: performance.throttling.name,
+      ...(performance.sampling && {
+        sampledRuns: performance.sampling.successfulRuns,
+        unstableMetrics: performance.sampling.unstableMetrics,
+      }),
     };
   }
 
-  private performancePainPointsToPainPoints(
-    performancePainPoints: PerformanceReport["painPoints"]
-  ): PainPoint[] {
-    return performancePainPoints.map((pp) => ({
-      type: pp.type,
-      value: pp.value,
-      severity: this.mapSeverity(pp.severity),
-      description: pp.description,
-    }));
-  }
-
-  private accessibilityToPainPoints(report: AccessibilityReport): PainPoint[] {
-    const painPoints: PainPoint[] = [];
-
-    // Add pain point for critical violations
-    const criticalCount = report.violations.filter((v) => v.severity === "critical").length;
-    if (criticalCount > 0) {
-      painPoints.push({
-        type: "WCAG_VIOLATION",
-        value: `${criticalCount} critical violations`,
-        severity: "CRITICAL",
-        description: `Found ${criticalCount} critical WCAG violations affecting accessibility`,
-      });
-    }
-
-    // Add pain point for high legal risk
-    if (report.legalRisk.score >= 75) {
-      painPoints.push({
-        type: "WCAG_VIOLATION",
-        value: `Legal risk score: ${report.legalRisk.score}`,
-        severity: "HIGH",
-        description: report.legalRisk.recommendation,
-      });
-    }
-
-    // Add pain point for low accessibility score
-    if (report.score < 50) {
-      painPoints.push({
-        type: "WCAG_VIOLATION",
-        value: `Accessibility score: ${report.score}`,
-        severity: "HIGH",
-        description: `Website accessibility score is below acceptable threshold`,
-      });
-    }
-
-    return painPoints;
-  }
-
-  private responsivenessToPainPoints(report: ResponsivenessReport): PainPoint[] {
-    const painPoints: PainPoint[] = [];
-
-    // Check for horizontal overflow
-    const overflowIssues = report.issues.filter(
-      (i) => i.type === "HORIZONTAL_OVERFLOW" || i.type === "CONTENT_CLIPPED"
-    );
-    if (overflowIssues.length > 0) {
-      painPoints.push({
-        type: "BROKEN_MOBILE_UX",
-        value: `Horizontal overflow on ${overflowIssues.length} viewport(s)`,
-        severity: "HIGH",
-        description: "Website content overflows horizontally on mobile devices",
-      });
-    }
-
-    // Check for touch target issues
-    const touchIssues = report.issues.filter((i) => i.type === "TOUCH_TARGET_TOO_SMALL");
-    if (touchIssues.length > 0) {
-      painPoints.push({
-        type: "BROKEN_MOBILE_UX",
-        value: `${touchIssues.length} small touch targets`,
-        severity: "MEDIUM",
-        description: "Interactive elements are too small for touch on mobile",
-      });
-    }
-
-    // Check for text size issues
-    const textIssues = report.issues.filter((i) => i.type === "TEXT_TOO_SMALL");
-    if (textIssues.length > 0) {
-      painPoints.push({
-        type: "BROKEN_MOBILE_UX",
-        value: `${textIssues.length} text readability issues`,
-        severity: "MEDIUM",
-        description: "Text is too small to read on mobile devices",
-      });
-    }
-
-    // Overall responsiveness score
-    if (report.score < 50) {
-      painPoints.push({
-        type: "BROKEN_MOBILE_UX",
-        value: `Responsiveness score: ${report.score}`,
-        severity: "HIGH",
-        description: "Website has significant mobile responsiveness issues",
-      });
-    }
-
-    return painPoints;
-  }
-
-  private mapSeverity(severity: "low" | "medium" | "high" | "critical"): Severity {
-    const map: Record<string, Severity> = {
-      low: "LOW",
-      medium: "MEDIUM",
-      high: "HIGH",
-      critical: "CRITICAL",
-    };
-    return map[severity] ?? "MEDIUM";
-  }
-
   /**
    * Convert internal WCAG violations to shared format
    */
@@ -862,6 +1152,49 @@ export class AuditService {
       });
   }
 
+  /**
+   * Convert internal SEO issues to shared format
+   */
+  private convertSeoIssues(issues: SeoIssue[]): SharedSeoIssue[] {
+    return issues.map((i) => {
+      const savings = i.details?.["potentialSavingsBytes"];
+      return {
+        type: i.type,
+        severity: mapSeverity(i.severity),
+        description: i.description,
+        elementSelector: i.elementSelector ?? undefined,
+        resourceUrl: i.resourceUrl ?? undefined,
+        recommendation: i.recommendation,
+        potentialSavingsBytes: typeof savings === "number" ? savings : undefined,
+      };
+    });
+  }
+
+  /**
+   * Convert the internal tech stack report to shared format
+   */
+  private convertTechStack(report: TechStackReport): TechStack {
+    return {
+      technologies: report.technologies.map((t) => ({
+        name: t.name,
+        category: t.category,
+        version: t.version ?? undefined,
+        evidence: t.evidence,
+        outdated: t.outdated,
+        outdatedReason: t.outdatedReason ?? undefined,
+      })),
+      vulnerabilities: report.vulnerabilities.map((v) => ({
+        id: v.id,
+        technology: v.technology,
+        version: v.version,
+        severity: mapSeverity(v.severity),
+        summary: v.summary,
+        fixedIn: v.fixedIn ?? undefined,
+      })),
+      signatureVersion: report.signatureVersion,
+    };
+  }
+
   private async getPageForAudit(): Promise<ManagedPage> {
     if (this.browserPool) {
       return this.browserPool.acquirePage();
@@ -880,6 +1213,27 @@ export class AuditService {
   }
 }
 
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Sort order of pain point severities (critical first)
+ */
+const SEVERITY_ORDER: Record<Severity, number> = {
+  CRITICAL: 0,
+  HIGH: 1,
+  MEDIUM: 2,
+  LOW: 3,
+};
+
+/**
+ * Whether any analysis succeeded for a page
+ */
+function hasReports(reports: PageReports): boolean {
+  return Object.values(reports).some((report) => report !== undefined);
+}
+
 // ============================================
 // Utility Classes
 // ============================================
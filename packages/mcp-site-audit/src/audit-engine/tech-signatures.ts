@@ -0,0 +1,817 @@
+import type { KnownVulnerability, TechSignature } from "./tech-stack-types.js";
+
+/**
+ * Version of the bundled signature and vulnerability database
+ *
+ * Bump when signatures, version thresholds or vulnerabilities change,
+ * so stored fingerprints show which data they were matched against.
+ */
+export const TECH_SIGNATURE_VERSION = "2026.10";
+
+// Matches "1.2", "1.2.3" and longer versions in URL patterns
+const V = String.raw`(\d+(?:\.\d+)+)`;
+
+/**
+ * Pattern for a versioned library file: name-1.2.3.min.js, name.1.2.3-full.js
+ */
+function versionedFile(name: string, extension = "js"): RegExp {
+  return new RegExp(String.raw`\/${name}[.-]v?${V}(?:[.-][a-z]\w*)*\.${extension}(?:[?#]|$)`, "i");
+}
+
+/**
+ * Pattern for a library served from a CDN path: /name/1.2.3/, /name@1.2.3/
+ */
+function cdnPath(name: string): RegExp {
+  return new RegExp(String.raw`\/${name}(?:\.js)?[@/]v?${V}\/`, "i");
+}
+
+/**
+ * Pattern for an unversioned library file: name.min.js, name.bundle.js
+ */
+function plainFile(name: string, extension = "js"): RegExp {
+  return new RegExp(String.raw`\/${name}(?:\.[a-z]+)*\.${extension}(?:[?#]|$)`, "i");
+}
+
+/**
+ * Technology fingerprints
+ *
+ * Patterns only need to match; the first capture group, when present,
+ * is the version. Bundled code does not show up in script URLs, so
+ * libraries also list the window globals they define.
+ */
+export const TECH_SIGNATURES: TechSignature[] = [
+  // ============================================
+  // Content management systems
+  // ============================================
+  {
+    name: "WordPress",
+    category: "cms",
+    generator: /^WordPress ?([\d.]+)?/i,
+    headers: { link: /api\.w\.org/i },
+    scripts: [/\/wp-(?:content|includes)\//i],
+    stylesheets: [/\/wp-(?:content|includes)\//i],
+    cookies: [/^wordpress_/, /^wp-settings-/],
+    // Security fixes are backported to old branches, so core versions
+    // are only checked against the oldest line worth keeping
+    minimumVersion: "6.0",
+  },
+  {
+    name: "Drupal",
+    category: "cms",
+    generator: /^Drupal ?(\d+)?/i,
+    headers: { "x-generator": /^Drupal ?(\d+)?/i, "x-drupal-cache": /./ },
+    scripts: [/\/misc\/drupal\.js/i],
+    globals: ["Drupal"],
+    minimumVersion: "10",
+  },
+  {
+    name: "Joomla",
+    category: "cms",
+    generator: /^Joomla!? ?([\d.]+)?/i,
+    globals: ["Joomla"],
+    minimumVersion: "5.0",
+  },
+  {
+    name: "TYPO3",
+    category: "cms",
+    generator: /^TYPO3 ?([\d.]+)?/i,
+  },
+  {
+    name: "Ghost",
+    category: "cms",
+    generator: /^Ghost ?([\d.]+)?/i,
+  },
+  {
+    name: "Craft CMS",
+    category: "cms",
+    headers: { "x-powered-by": /Craft CMS/i },
+    cookies: [/^CraftSessionId$/],
+  },
+  {
+    name: "HubSpot CMS",
+    category: "cms",
+    generator: /^HubSpot/i,
+    headers: { "x-hs-hub-id": /./ },
+  },
+  {
+    name: "Blogger",
+    category: "cms",
+    generator: /^Blogger$/i,
+  },
+
+  // ============================================
+  // Site builders
+  // ============================================
+  {
+    name: "Wix",
+    category: "site-builder",
+    generator: /^Wix\.com Website Builder/i,
+    headers: { "x-wix-request-id": /./ },
+    scripts: [/static\.parastorage\.com/i],
+    globals: ["wixBiSession"],
+  },
+  {
+    name: "Squarespace",
+    category: "site-builder",
+    headers: { server: /Squarespace/i },
+    scripts: [/(?:static1?|assets)\.squarespace\.com/i],
+    globals: ["Static.SQUARESPACE_CONTEXT"],
+  },
+  {
+    name: "Weebly",
+    category: "site-builder",
+    scripts: [/editmysite\.com/i],
+  },
+  {
+    name: "GoDaddy Website Builder",
+    category: "site-builder",
+    generator: /Go ?Daddy (?:Web ?Site|Website) Builder ?([\d.]+)?/i,
+    scripts: [/img\d*\.wsimg\.com/i],
+  },
+  {
+    name: "Webflow",
+    category: "site-builder",
+    generator: /^Webflow/i,
+    globals: ["Webflow"],
+  },
+  {
+    name: "Duda",
+    category: "site-builder",
+    scripts: [/(?:dd-cdn\.multiscreensite|irp\.cdn-website)\.com/i],
+  },
+  {
+    name: "Jimdo",
+    category: "site-builder",
+    scripts: [/assets\.jimstatic\.com/i],
+  },
+  {
+    name: "Site123",
+    category: "site-builder",
+    scripts: [/cdn-cms\.f-static\.(?:com|net)/i],
+  },
+
+  // ============================================
+  // Page builders
+  // ============================================
+  {
+    name: "Elementor",
+    category: "page-builder",
+    generator: /^Elementor ?([\d.]+)?/i,
+    scripts: [/\/plugins\/elementor(?:-pro)?\//i],
+    stylesheets: [/\/plugins\/elementor(?:-pro)?\//i],
+    globals: ["elementorFrontend"],
+    versionGlobals: ["elementorFrontendConfig.version"],
+    implies: ["WordPress"],
+  },
+  {
+    name: "Divi",
+    category: "page-builder",
+    generator: /^Divi v\.? ?([\d.]+)?/i,
+    scripts: [/\/themes\/Divi\//i],
+    stylesheets: [/\/themes\/Divi\//i],
+    globals: ["DIVI"],
+    implies: ["WordPress"],
+  },
+  {
+    name: "WPBakery",
+    category: "page-builder",
+    generator: /WPBakery/i,
+    scripts: [/\/plugins\/js_composer\//i],
+    stylesheets: [/\/plugins\/js_composer\//i],
+    implies: ["WordPress"],
+  },
+  {
+    name: "Beaver Builder",
+    category: "page-builder",
+    scripts: [/\/plugins\/(?:bb-plugin|beaver-builder-lite-version)\//i],
+    stylesheets: [/\/plugins\/(?:bb-plugin|beaver-builder-lite-version)\//i],
+    globals: ["FLBuilderLayout"],
+    implies: ["WordPress"],
+  },
+  {
+    name: "Avada",
+    category: "page-builder",
+    scripts: [/\/themes\/Avada\//i],
+    stylesheets: [/\/themes\/Avada\//i],
+    implies: ["WordPress"],
+  },
+
+  // ============================================
+  // E-commerce
+  // ============================================
+  {
+    name: "Shopify",
+    category: "ecommerce",
+    headers: { "x-shopid": /./, "x-shopify-stage": /./ },
+    scripts: [/cdn\.shopify\.com/i],
+    cookies: [/^_shopify_/],
+    globals: ["Shopify"],
+  },
+  {
+    name: "WooCommerce",
+    category: "ecommerce",
+    generator: /^WooCommerce ?([\d.]+)?/i,
+    scripts: [/\/plugins\/woocommerce\//i],
+    globals: ["woocommerce_params", "wc_add_to_cart_params"],
+    implies: ["WordPress"],
+  },
+  {
+    name: "Magento",
+    category: "ecommerce",
+    headers: { "x-magento-cache-debug": /./ },
+    scripts: [/\/static\/version\d+\/frontend\//i],
+    cookies: [/^X-Magento-Vary$/],
+  },
+  {
+    name: "Magento 1",
+    category: "ecommerce",
+    scripts: [/\/skin\/frontend\//i, /\/js\/varien\//i],
+    globals: ["Mage.Cookies"],
+    endOfLife: "Magento 1 support ended in June 2020",
+  },
+  {
+    name: "BigCommerce",
+    category: "ecommerce",
+    scripts: [/cdn\d*\.bigcommerce\.com/i],
+  },
+
+  // ============================================
+  // Frameworks
+  // ============================================
+  {
+    name: "React",
+    category: "framework",
+    scripts: [versionedFile("react(?:-dom)?"), cdnPath("react(?:-dom)?"), plainFile("react(?:-dom)?")],
+    globals: ["React"],
+    versionGlobals: ["React.version"],
+  },
+  {
+    name: "Next.js",
+    category: "framework",
+    headers: { "x-powered-by": /^Next\.js ?([\d.]+)?/i },
+    scripts: [/\/_next\/static\//i],
+    globals: ["__NEXT_DATA__"],
+    versionGlobals: ["next.version"],
+    implies: ["React"],
+  },
+  {
+    name: "Vue.js",
+    category: "framework",
+    scripts: [versionedFile("vue"), cdnPath("vue"), plainFile("vue")],
+    globals: ["Vue", "__VUE__"],
+    versionGlobals: ["Vue.version"],
+    // Vue 2 support ended in December 2023
+    minimumVersion: "3.0",
+  },
+  {
+    name: "Nuxt",
+    category: "framework",
+    scripts: [/\/_nuxt\//i],
+    globals: ["__NUXT__", "$nuxt"],
+    implies: ["Vue.js"],
+  },
+  {
+    name: "AngularJS",
+    category: "framework",
+    scripts: [versionedFile("angular"), cdnPath("angular(?:js)?"), plainFile("angular")],
+    globals: ["angular"],
+    versionGlobals: ["angular.version.full"],
+    endOfLife: "AngularJS support ended in December 2021",
+  },
+  {
+    name: "Laravel",
+    category: "framework",
+    cookies: [/^laravel_session$/],
+  },
+  {
+    name: "Django",
+    category: "framework",
+    cookies: [/^csrftoken$/, /^django_language$/],
+  },
+  {
+    name: "ASP.NET",
+    category: "framework",
+    headers: { "x-aspnet-version": /([\d.]+)/, "x-powered-by": /ASP\.NET/i },
+    cookies: [/^ASP\.NET_SessionId$/, /^\.ASPXAUTH$/],
+  },
+  {
+    name: "Express",
+    category: "framework",
+    headers: { "x-powered-by": /^Express$/i },
+  },
+
+  // ============================================
+  // JavaScript libraries
+  // ============================================
+  {
+    name: "jQuery",
+    category: "library",
+    scripts: [
+      versionedFile("jquery"),
+      cdnPath("jquery"),
+      // WordPress core appends its bundled jQuery version
+      /\/jquery(?:\.min)?\.js\?ver=(\d+\.\d+(?:\.\d+)?)/i,
+      plainFile("jquery(?:\\.slim)?"),
+    ],
+    globals: ["jQuery.fn"],
+    versionGlobals: ["jQuery.fn.jquery"],
+    minimumVersion: "3.5.0",
+  },
+  {
+    name: "jQuery UI",
+    category: "library",
+    scripts: [
+      versionedFile("jquery-ui"),
+      cdnPath("jqueryui"),
+      /code\.jquery\.com\/ui\/(\d+(?:\.\d+)+)\//i,
+      plainFile("jquery-ui"),
+    ],
+    globals: ["jQuery.ui"],
+    versionGlobals: ["jQuery.ui.version"],
+    implies: ["jQuery"],
+    minimumVersion: "1.13.0",
+  },
+  {
+    name: "jQuery Migrate",
+    category: "library",
+    scripts: [
+      versionedFile("jquery-migrate"),
+      /\/jquery-migrate(?:\.min)?\.js\?ver=(\d+(?:\.\d+)+)/i,
+      plainFile("jquery-migrate"),
+    ],
+    versionGlobals: ["jQuery.migrateVersion"],
+    implies: ["jQuery"],
+  },
+  {
+    name: "Bootstrap",
+    category: "library",
+    scripts: [versionedFile("bootstrap"), cdnPath("bootstrap"), plainFile("bootstrap")],
+    stylesheets: [versionedFile("bootstrap", "css"), cdnPath("bootstrap"), plainFile("bootstrap", "css")],
+    globals: ["bootstrap.Tooltip", "jQuery.fn.tooltip.Constructor"],
+    versionGlobals: ["bootstrap.Tooltip.VERSION", "jQuery.fn.tooltip.Constructor.VERSION"],
+    // Bootstrap 4 support ended in January 2023
+    minimumVersion: "5.0.0",
+  },
+  {
+    name: "Lodash",
+    category: "library",
+    scripts: [versionedFile("lodash"), cdnPath("lodash"), plainFile("lodash")],
+    // Underscore also defines _.VERSION; runInContext is Lodash only
+    globals: ["_.runInContext"],
+    versionGlobals: ["_.VERSION"],
+  },
+  {
+    name: "Moment.js",
+    category: "library",
+    scripts: [versionedFile("moment"), cdnPath("moment"), plainFile("moment(?:-with-locales)?")],
+    globals: ["moment"],
+    versionGlobals: ["moment.version"],
+  },
+  {
+    name: "Handlebars",
+    category: "library",
+    scripts: [versionedFile("handlebars"), cdnPath("handlebars"), plainFile("handlebars")],
+    globals: ["Handlebars"],
+    versionGlobals: ["Handlebars.VERSION"],
+  },
+  {
+    name: "Modernizr",
+    category: "library",
+    scripts: [versionedFile("modernizr"), plainFile("modernizr")],
+    globals: ["Modernizr"],
+    versionGlobals: ["Modernizr._version"],
+  },
+  {
+    name: "Prototype",
+    category: "library",
+    scripts: [versionedFile("prototype"), cdnPath("prototype")],
+    versionGlobals: ["Prototype.Version"],
+    endOfLife: "Prototype has not been maintained since 2015",
+  },
+  {
+    name: "MooTools",
+    category: "library",
+    scripts: [versionedFile("mootools(?:-core)?"), plainFile("mootools(?:-core|-more)?")],
+    globals: ["MooTools"],
+    versionGlobals: ["MooTools.version"],
+    endOfLife: "MooTools has not been maintained since 2016",
+  },
+  {
+    name: "YUI",
+    category: "library",
+    scripts: [/\/yui\/(\d+\.\d+\.\d+)\//i],
+    globals: ["YUI"],
+    versionGlobals: ["YUI.version"],
+    endOfLife: "YUI development stopped in 2014",
+  },
+  {
+    name: "Adobe Flash",
+    category: "library",
+    scripts: [plainFile("swfobject")],
+    globals: ["swfobject"],
+    endOfLife: "Browsers stopped running Flash content in January 2021",
+  },
+
+  // ============================================
+  // Analytics and marketing
+  // ============================================
+  {
+    name: "Google Analytics",
+    category: "analytics",
+    scripts: [/googletagmanager\.com\/gtag\/js\?id=G-/i],
+    cookies: [/^_ga_/],
+  },
+  {
+    name: "Universal Analytics",
+    category: "analytics",
+    scripts: [
+      /google-analytics\.com\/(?:analytics|ga|urchin)\.js/i,
+      /googletagmanager\.com\/gtag\/js\?id=UA-/i,
+    ],
+    globals: ["GoogleAnalyticsObject"],
+    endOfLife: "Universal Analytics stopped processing data in July 2023",
+  },
+  {
+    name: "Google Tag Manager",
+    category: "analytics",
+    scripts: [/googletagmanager\.com\/gtm\.js/i],
+    globals: ["google_tag_manager"],
+  },
+  {
+    name: "Meta Pixel",
+    category: "analytics",
+    scripts: [/connect\.facebook\.net\/[^/]+\/fbevents\.js/i],
+    cookies: [/^_fbp$/],
+    globals: ["fbq"],
+  },
+  {
+    name: "Hotjar",
+    category: "analytics",
+    scripts: [/static\.hotjar\.com/i],
+    cookies: [/^_hj/],
+    globals: ["_hjSettings"],
+  },
+  {
+    name: "Microsoft Clarity",
+    category: "analytics",
+    scripts: [/clarity\.ms\/tag\//i],
+    globals: ["clarity"],
+  },
+  {
+    name: "HubSpot",
+    category: "analytics",
+    scripts: [/js\.hs-(?:scripts|analytics)\.(?:com|net)/i],
+    cookies: [/^hubspotutk$/, /^__hstc$/],
+    globals: ["_hsq"],
+  },
+  {
+    name: "Matomo",
+    category: "analytics",
+    scripts: [/\/(?:matomo|piwik)\.js/i],
+    cookies: [/^_pk_id/],
+    globals: ["Matomo", "Piwik"],
+  },
+
+  // ============================================
+  // CDNs and hosting
+  // ============================================
+  {
+    name: "Cloudflare",
+    category: "cdn",
+    headers: { "cf-ray": /./, server: /^cloudflare$/i },
+    cookies: [/^__cf_bm$/, /^__cfduid$/],
+  },
+  {
+    name: "Fastly",
+    category: "cdn",
+    headers: { "x-fastly-request-id": /./, "x-served-by": /^cache-/i },
+  },
+  {
+    name: "Amazon CloudFront",
+    category: "cdn",
+    headers: { "x-amz-cf-id": /./, via: /CloudFront/i },
+  },
+  {
+    name: "Akamai",
+    category: "cdn",
+    headers: { server: /^Akamai/i, "x-akamai-transformed": /./ },
+  },
+  {
+    name: "Sucuri",
+    category: "cdn",
+    headers: { "x-sucuri-id": /./, server: /^Sucuri/i },
+  },
+  {
+    name: "Vercel",
+    category: "hosting",
+    headers: { "x-vercel-id": /./, server: /^Vercel$/i },
+  },
+  {
+    name: "Netlify",
+    category: "hosting",
+    headers: { "x-nf-request-id": /./, server: /^Netlify$/i },
+  },
+  {
+    name: "GitHub Pages",
+    category: "hosting",
+    headers: { server: /^GitHub\.com$/i, "x-github-request-id": /./ },
+  },
+  {
+    name: "Heroku",
+    category: "hosting",
+    headers: { via: /vegur/i },
+  },
+  {
+    name: "WP Engine",
+    category: "hosting",
+    headers: { "wpe-backend": /./, "x-powered-by": /WP Engine/i },
+    implies: ["WordPress"],
+  },
+  {
+    name: "Kinsta",
+    category: "hosting",
+    headers: { "x-kinsta-cache": /./ },
+    implies: ["WordPress"],
+  },
+  {
+    name: "Pantheon",
+    category: "hosting",
+    headers: { "x-pantheon-styx-hostname": /./ },
+  },
+
+  // ============================================
+  // Web servers and languages
+  // ============================================
+  {
+    name: "Apache",
+    category: "server",
+    headers: { server: /^Apache(?:\/([\d.]+))?/i },
+    // Apache 2.2 support ended in 2017
+    minimumVersion: "2.4",
+  },
+  {
+    name: "nginx",
+    category: "server",
+    headers: { server: /^nginx(?:\/([\d.]+))?/i },
+  },
+  {
+    name: "Microsoft IIS",
+    category: "server",
+    headers: { server: /^Microsoft-IIS(?:\/([\d.]+))?/i },
+    // IIS 8.5 and older shipped with Windows Server versions past end of support
+    minimumVersion: "10.0",
+  },
+  {
+    name: "LiteSpeed",
+    category: "server",
+    headers: { server: /^LiteSpeed/i },
+  },
+  {
+    name: "PHP",
+    category: "server",
+    headers: { "x-powered-by": /PHP(?:\/([\d.]+))?/i },
+    cookies: [/^PHPSESSID$/],
+    // Linux distributions backport fixes, so only the version line is checked
+    minimumVersion: "8.2",
+  },
+];
+
+/**
+ * Known vulnerabilities in client-side libraries
+ *
+ * Limited to code shipped to the browser, where the version the
+ * visitor receives is the version that runs. Server software is left
+ * to minimumVersion since hosts routinely backport fixes.
+ */
+export const KNOWN_VULNERABILITIES: KnownVulnerability[] = [
+  // jQuery
+  {
+    technology: "jQuery",
+    id: "CVE-2011-4969",
+    severity: "medium",
+    summary: "Cross-site scripting through location.hash in selectors",
+    fixedIn: "1.6.3",
+  },
+  {
+    technology: "jQuery",
+    id: "CVE-2012-6708",
+    severity: "medium",
+    summary: "Cross-site scripting when HTML is passed to the jQuery() selector",
+    fixedIn: "1.9.0",
+  },
+  {
+    technology: "jQuery",
+    id: "CVE-2015-9251",
+    severity: "medium",
+    summary: "Cross-domain Ajax responses are executed as JavaScript",
+    fixedIn: "3.0.0",
+  },
+  {
+    technology: "jQuery",
+    id: "CVE-2019-11358",
+    severity: "medium",
+    summary: "Prototype pollution through jQuery.extend(true, ...)",
+    fixedIn: "3.4.0",
+  },
+  {
+    technology: "jQuery",
+    id: "CVE-2020-11022",
+    severity: "medium",
+    summary: "Cross-site scripting when untrusted HTML is passed to DOM manipulation methods",
+    introducedIn: "1.2",
+    fixedIn: "3.5.0",
+  },
+  {
+    technology: "jQuery",
+    id: "CVE-2020-11023",
+    severity: "medium",
+    summary: "Cross-site scripting through <option> elements passed to DOM manipulation methods",
+    introducedIn: "1.0.3",
+    fixedIn: "3.5.0",
+  },
+
+  // jQuery UI
+  {
+    technology: "jQuery UI",
+    id: "CVE-2016-7103",
+    severity: "medium",
+    summary: "Cross-site scripting through the dialog closeText option",
+    fixedIn: "1.12.0",
+  },
+  {
+    technology: "jQuery UI",
+    id: "CVE-2021-41182",
+    severity: "medium",
+    summary: "Cross-site scripting through the datepicker altField option",
+    fixedIn: "1.13.0",
+  },
+  {
+    technology: "jQuery UI",
+    id: "CVE-2021-41183",
+    severity: "medium",
+    summary: "Cross-site scripting through the datepicker *Text options",
+    fixedIn: "1.13.0",
+  },
+  {
+    technology: "jQuery UI",
+    id: "CVE-2021-41184",
+    severity: "medium",
+    summary: "Cross-site scripting through the position utility's of option",
+    fixedIn: "1.13.0",
+  },
+  {
+    technology: "jQuery UI",
+    id: "CVE-2022-31160",
+    severity: "medium",
+    summary: "Cross-site scripting when checkboxradio labels are refreshed",
+    fixedIn: "1.13.2",
+  },
+
+  // Bootstrap (fixed in both the 3.x and 4.x lines)
+  {
+    technology: "Bootstrap",
+    id: "CVE-2018-14040",
+    severity: "medium",
+    summary: "Cross-site scripting through the collapse data-parent attribute",
+    fixedIn: "3.4.0",
+  },
+  {
+    technology: "Bootstrap",
+    id: "CVE-2018-14040",
+    severity: "medium",
+    summary: "Cross-site scripting through the collapse data-parent attribute",
+    introducedIn: "4.0.0",
+    fixedIn: "4.1.2",
+  },
+  {
+    technology: "Bootstrap",
+    id: "CVE-2018-14042",
+    severity: "medium",
+    summary: "Cross-site scripting through the tooltip data-container attribute",
+    fixedIn: "3.4.0",
+  },
+  {
+    technology: "Bootstrap",
+    id: "CVE-2018-14042",
+    severity: "medium",
+    summary: "Cross-site scripting through the tooltip data-container attribute",
+    introducedIn: "4.0.0",
+    fixedIn: "4.1.2",
+  },
+  {
+    technology: "Bootstrap",
+    id: "CVE-2019-8331",
+    severity: "medium",
+    summary: "Cross-site scripting through the tooltip and popover data-template attribute",
+    fixedIn: "3.4.1",
+  },
+  {
+    technology: "Bootstrap",
+    id: "CVE-2019-8331",
+    severity: "medium",
+    summary: "Cross-site scripting through the tooltip and popover data-template attribute",
+    introducedIn: "4.0.0",
+    fixedIn: "4.3.1",
+  },
+
+  // Lodash
+  {
+    technology: "Lodash",
+    id: "CVE-2019-10744",
+    severity: "critical",
+    summary: "Prototype pollution through defaultsDeep",
+    fixedIn: "4.17.12",
+  },
+  {
+    technology: "Lodash",
+    id: "CVE-2020-8203",
+    severity: "high",
+    summary: "Prototype pollution through zipObjectDeep",
+    fixedIn: "4.17.20",
+  },
+  {
+    technology: "Lodash",
+    id: "CVE-2021-23337",
+    severity: "high",
+    summary: "Command injection through template",
+    fixedIn: "4.17.21",
+  },
+  {
+    technology: "Lodash",
+    id: "CVE-2020-28500",
+    severity: "medium",
+    summary: "Regular expression denial of service in toNumber, trim and trimEnd",
+    fixedIn: "4.17.21",
+  },
+
+  // Moment.js
+  {
+    technology: "Moment.js",
+    id: "CVE-2017-18214",
+    severity: "high",
+    summary: "Regular expression denial of service when parsing crafted dates",
+    fixedIn: "2.19.3",
+  },
+  {
+    technology: "Moment.js",
+    id: "CVE-2022-31129",
+    severity: "high",
+    summary: "Regular expression denial of service in RFC 2822 date parsing",
+    introducedIn: "2.18.0",
+    fixedIn: "2.29.4",
+  },
+
+  // AngularJS
+  {
+    technology: "AngularJS",
+    id: "CVE-2019-10768",
+    severity: "high",
+    summary: "Prototype pollution through angular.merge",
+    fixedIn: "1.7.9",
+  },
+  {
+    technology: "AngularJS",
+    id: "CVE-2020-7676",
+    severity: "medium",
+    summary: "Cross-site scripting when <option> elements are inserted into <select>",
+    fixedIn: "1.8.0",
+  },
+  {
+    technology: "AngularJS",
+    id: "CVE-2022-25844",
+    severity: "medium",
+    summary: "Regular expression denial of service through $locale.NUMBER_FORMATS posPre",
+    introducedIn: "1.2.21",
+  },
+
+  // Handlebars
+  {
+    technology: "Handlebars",
+    id: "CVE-2019-19919",
+    severity: "critical",
+    summary: "Prototype pollution leading to remote code execution",
+    fixedIn: "4.3.0",
+  },
+  {
+    technology: "Handlebars",
+    id: "CVE-2021-23369",
+    severity: "critical",
+    summary: "Remote code execution when compiling untrusted templates",
+    fixedIn: "4.7.7",
+  },
+  {
+    technology: "Handlebars",
+    id: "CVE-2021-23383",
+    severity: "critical",
+    summary: "Prototype pollution when compiling templates in compat mode",
+    fixedIn: "4.7.7",
+  },
+
+  // Prototype
+  {
+    technology: "Prototype",
+    id: "CVE-2020-27511",
+    severity: "high",
+    summary: "Regular expression denial of service in stripTags and unescapeHTML",
+  },
+];
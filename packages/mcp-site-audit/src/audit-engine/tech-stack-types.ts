@@ -0,0 +1,134 @@
+import { z } from "zod";
+
+import type { TechCategory } from "@the-closer/shared";
+
+/**
+ * Vulnerability severity levels
+ */
+export type VulnerabilitySeverity = "low" | "medium" | "high" | "critical";
+
+/**
+ * Fingerprint of one technology in the signature database
+ *
+ * Patterns with a capture group read the version from the first group.
+ */
+export interface TechSignature {
+  name: string;
+  category: TechCategory;
+  /** Response header patterns of the main document, keyed by lower-case header name */
+  headers?: Record<string, RegExp>;
+  /** Pattern for the <meta name="generator"> content */
+  generator?: RegExp;
+  /** Patterns for script src URLs */
+  scripts?: RegExp[];
+  /** Patterns for stylesheet href URLs */
+  stylesheets?: RegExp[];
+  /** Patterns for cookie names */
+  cookies?: RegExp[];
+  /** Window properties whose presence identifies the technology ("Shopify", "jQuery.fn") */
+  globals?: string[];
+  /** Window properties holding the version string, first found wins ("jQuery.fn.jquery") */
+  versionGlobals?: string[];
+  /** Technologies this one implies (Elementor implies WordPress) */
+  implies?: string[];
+  /** Versions below this are reported as outdated */
+  minimumVersion?: string;
+  /** Why the technology as a whole is outdated, when it has reached end of life */
+  endOfLife?: string;
+}
+
+/**
+ * Known vulnerability in the signature database
+ *
+ * A version is affected when it is at least introducedIn (when set)
+ * and below fixedIn (when set).
+ */
+export interface KnownVulnerability {
+  technology: string;
+  /** CVE identifier */
+  id: string;
+  severity: VulnerabilitySeverity;
+  summary: string;
+  introducedIn?: string;
+  fixedIn?: string;
+}
+
+/**
+ * Technology identified on the page
+ */
+export interface TechDetection {
+  name: string;
+  category: TechCategory;
+  version: string | null;
+  /** What gave it away, one entry per matching source */
+  evidence: string[];
+  outdated: boolean;
+  outdatedReason: string | null;
+}
+
+/**
+ * Known vulnerability matched to a detected version
+ */
+export interface TechVulnerabilityMatch {
+  id: string;
+  technology: string;
+  version: string;
+  severity: VulnerabilitySeverity;
+  summary: string;
+  fixedIn: string | null;
+}
+
+/**
+ * Raw page signals the signatures are matched against
+ */
+export interface TechSignals {
+  /** Main document response headers, lower-case names */
+  headers: Record<string, string>;
+  generators: string[];
+  scripts: string[];
+  stylesheets: string[];
+  cookies: string[];
+  /** Window properties that exist, with their value when it is a string or number */
+  globals: Record<string, string | null>;
+}
+
+/**
+ * Tech stack fingerprint report
+ */
+export interface TechStackReport {
+  url: string;
+  /** URL after redirects */
+  finalUrl: string;
+  analyzedAt: string;
+
+  technologies: TechDetection[];
+  vulnerabilities: TechVulnerabilityMatch[];
+
+  /** Version of the signature database used */
+  signatureVersion: string;
+
+  /** Analysis duration in ms */
+  durationMs: number;
+
+  /** Summary statistics */
+  summary: {
+    totalTechnologies: number;
+    outdated: number;
+    vulnerabilities: number;
+    /** Vulnerabilities rated high or critical */
+    severeVulnerabilities: number;
+  };
+}
+
+/**
+ * Tech stack analysis options
+ */
+export const TechStackOptionsSchema = z.object({
+  /** Navigation timeout */
+  timeout: z.number().int().positive().default(30000),
+
+  /** Include technologies implied by others but not seen directly */
+  includeImplied: z.boolean().default(true),
+});
+
+export type TechStackOptions = z.output<typeof TechStackOptionsSchema>;
@@ -0,0 +1,356 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Page } from "puppeteer";
+
+import { BrowserError } from "@the-closer/shared";
+
+import {
+  type KnownVulnerability,
+  type TechDetection,
+  type TechSignals,
+  type TechSignature,
+  type TechStackOptions,
+  type TechStackReport,
+  type TechVulnerabilityMatch,
+  type VulnerabilitySeverity,
+  TechStackOptionsSchema,
+} from "./tech-stack-types.js";
+import {
+  KNOWN_VULNERABILITIES,
+  TECH_SIGNATURES,
+  TECH_SIGNATURE_VERSION,
+} from "./tech-signatures.js";
+
+// Browser globals for page.evaluate
+declare const document: any;
+declare const window: any;
+declare const performance: any;
+
+/**
+ * Maximum evidence entries kept per technology
+ */
+const MAX_EVIDENCE = 5;
+
+/**
+ * Sort order of vulnerability severities (critical first)
+ */
+const SEVERITY_ORDER: Record<VulnerabilitySeverity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+/**
+ * TechStackAnalyzer - Fingerprints the technologies a site is built with
+ *
+ * Matches response headers, meta generator tags, script and stylesheet
+ * URLs, cookies and window globals against the bundled signature
+ * database, then flags end-of-life and outdated versions and versions
+ * with known vulnerabilities. Nothing is looked up online.
+ */
+export class TechStackAnalyzer {
+  /**
+   * Analyze the technology stack of a URL
+   */
+  async analyzeTechStack(
+    page: Page,
+    url: string,
+    options: Partial<TechStackOptions> = {}
+  ): Promise<TechStackReport> {
+    const startTime = Date.now();
+    const opts = TechStackOptionsSchema.parse(options);
+
+    try {
+      const response = await page.goto(url, {
+        waitUntil: "networkidle2",
+        timeout: opts.timeout,
+      });
+
+      const finalUrl = page.url();
+      const signals = await this.collectSignals(page, response?.headers() ?? {}, finalUrl);
+      const technologies = detectTechnologies(signals, opts.includeImplied);
+      const vulnerabilities = findVulnerabilities(technologies);
+
+      return {
+        url,
+        finalUrl,
+        analyzedAt: new Date().toISOString(),
+        technologies,
+        vulnerabilities,
+        signatureVersion: TECH_SIGNATURE_VERSION,
+        durationMs: Date.now() - startTime,
+        summary: {
+          totalTechnologies: technologies.length,
+          outdated: technologies.filter((t) => t.outdated).length,
+          vulnerabilities: vulnerabilities.length,
+          severeVulnerabilities: vulnerabilities.filter(
+            (v) => v.severity === "high" || v.severity === "critical"
+          ).length,
+        },
+      };
+    } catch (error) {
+      throw new BrowserError(
+        `Tech stack analysis failed: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error instanceof Error ? error : undefined }
+      );
+    }
+  }
+
+  /**
+   * Collect the signals the signatures match against from the loaded page
+   */
+  private async collectSignals(
+    page: Page,
+    headers: Record<string, string>,
+    finalUrl: string
+  ): Promise<TechSignals> {
+    const globalPaths = [
+      ...new Set(
+        TECH_SIGNATURES.flatMap((s) => [...(s.globals ?? []), ...(s.versionGlobals ?? [])])
+      ),
+    ];
+
+    const pageData: Omit<TechSignals, "headers" | "cookies"> = await page.evaluate(
+      (paths: string[]) => {
+        const generators = Array.from(document.querySelectorAll('meta[name="generator" i]'))
+          .map((meta: any) => String(meta.content ?? "").trim())
+          .filter((content) => content !== "");
+
+        // Resource entries also cover scripts injected after load (tag managers)
+        const resources = performance.getEntriesByType("resource") as any[];
+        const scripts = [
+          ...Array.from(document.scripts).map((s: any) => s.src as string),
+          ...resources.filter((r) => r.initiatorType === "script").map((r) => r.name as string),
+        ].filter((src) => src !== "");
+        const stylesheets = [
+          ...Array.from(document.querySelectorAll('link[rel~="stylesheet"][href]')).map(
+            (l: any) => l.href as string
+          ),
+          ...resources
+            .filter((r) => r.initiatorType === "link" || r.initiatorType === "css")
+            .map((r) => r.name as string)
+            .filter((name) => /\.css(?:[?#]|$)/i.test(name)),
+        ];
+
+        const globals: Record<string, string | null> = {};
+        for (const path of paths) {
+          let value: any = window;
+          try {
+            for (const key of path.split(".")) {
+              if (value === null || value === undefined) break;
+              value = value[key];
+            }
+          } catch {
+            value = undefined;
+          }
+          if (value === null || value === undefined) continue;
+          globals[path] = typeof value === "string" || typeof value === "number" ? String(value) : null;
+        }
+
+        return {
+          generators,
+          scripts: [...new Set(scripts)],
+          stylesheets: [...new Set(stylesheets)],
+          globals,
+        };
+      },
+      globalPaths
+    );
+
+    // The browser context is shared, so keep only this site's cookies
+    const hostname = new URL(finalUrl).hostname;
+    const cookies = (await page.browserContext().cookies())
+      .filter((cookie) => {
+        const domain = cookie.domain.replace(/^\./, "");
+        return hostname === domain || hostname.endsWith(`.${domain}`);
+      })
+      .map((cookie) => cookie.name);
+
+    return {
+      headers,
+      ...pageData,
+      cookies: [...new Set(cookies)],
+    };
+  }
+}
+
+// ============================================
+// Matching
+// ============================================
+
+/**
+ * Match every signature against the page signals
+ *
+ * Technologies implied by a detected one (WordPress for Elementor) are
+ * added when includeImplied is set and they were not seen directly.
+ */
+export function detectTechnologies(
+  signals: TechSignals,
+  includeImplied = true
+): TechDetection[] {
+  const detected = new Map<string, TechDetection>();
+
+  for (const signature of TECH_SIGNATURES) {
+    const detection = matchSignature(signature, signals);
+    if (detection) {
+      detected.set(signature.name, detection);
+    }
+  }
+
+  if (includeImplied) {
+    for (const detection of [...detected.values()]) {
+      const implies = TECH_SIGNATURES.find((s) => s.name === detection.name)?.implies ?? [];
+      for (const name of implies) {
+        const implied = TECH_SIGNATURES.find((s) => s.name === name);
+        if (!implied || detected.has(name)) continue;
+        detected.set(name, {
+          name,
+          category: implied.category,
+          version: null,
+          evidence: [`implied by ${detection.name}`],
+          outdated: implied.endOfLife !== undefined,
+          outdatedReason: implied.endOfLife ?? null,
+        });
+      }
+    }
+  }
+
+  return [...detected.values()];
+}
+
+/**
+ * Match one signature, returning null when nothing matched
+ *
+ * Versions are taken from globals first, then the generator tag, then
+ * resource URLs and headers, since bundlers and CDNs can rename files.
+ */
+function matchSignature(signature: TechSignature, signals: TechSignals): TechDetection | null {
+  const evidence: string[] = [];
+  const versions: string[] = [];
+
+  const record = (source: string, value: string, version: string | undefined): void => {
+    if (evidence.length < MAX_EVIDENCE) {
+      evidence.push(`${source}: ${truncate(value)}`);
+    }
+    if (version !== undefined && /^\d/.test(version)) {
+      versions.push(version);
+    }
+  };
+  const matchAll = (source: string, values: string[], patterns: RegExp[] | undefined): void => {
+    if (!patterns) return;
+    for (const value of values) {
+      for (const pattern of patterns) {
+        const match = pattern.exec(value);
+        if (match) {
+          record(source, value, match[1]);
+          break;
+        }
+      }
+    }
+  };
+
+  for (const path of signature.versionGlobals ?? []) {
+    const value = signals.globals[path];
+    if (typeof value === "string" && value !== "") {
+      record(`window.${path}`, value, value.replace(/^v/i, ""));
+    }
+  }
+  for (const path of signature.globals ?? []) {
+    if (path in signals.globals) {
+      record("global", `window.${path}`, undefined);
+    }
+  }
+  matchAll("meta generator", signals.generators, signature.generator && [signature.generator]);
+  matchAll("script", signals.scripts, signature.scripts);
+  matchAll("stylesheet", signals.stylesheets, signature.stylesheets);
+  for (const [header, pattern] of Object.entries(signature.headers ?? {})) {
+    const value = signals.headers[header];
+    if (value === undefined) continue;
+    const match = pattern.exec(value);
+    if (match) {
+      record(`${header} header`, value, match[1]);
+    }
+  }
+  matchAll("cookie", signals.cookies, signature.cookies);
+
+  if (evidence.length === 0) return null;
+
+  const version = versions[0] ?? null;
+  let outdatedReason: string | null = null;
+  if (signature.endOfLife !== undefined) {
+    outdatedReason = signature.endOfLife;
+  } else if (
+    signature.minimumVersion !== undefined &&
+    version !== null &&
+    compareVersions(version, signature.minimumVersion) < 0
+  ) {
+    outdatedReason = `${signature.name} ${version} is older than ${signature.minimumVersion}`;
+  }
+
+  return {
+    name: signature.name,
+    category: signature.category,
+    version,
+    evidence,
+    outdated: outdatedReason !== null,
+    outdatedReason,
+  };
+}
+
+/**
+ * Known vulnerabilities affecting the detected versions, most severe first
+ */
+export function findVulnerabilities(technologies: TechDetection[]): TechVulnerabilityMatch[] {
+  const matches: TechVulnerabilityMatch[] = [];
+
+  for (const technology of technologies) {
+    if (technology.version === null) continue;
+    const version = technology.version;
+    const seen = new Set<string>();
+
+    for (const vulnerability of KNOWN_VULNERABILITIES) {
+      if (vulnerability.technology !== technology.name) continue;
+      if (seen.has(vulnerability.id) || !isAffected(version, vulnerability)) continue;
+      seen.add(vulnerability.id);
+      matches.push({
+        id: vulnerability.id,
+        technology: technology.name,
+        version,
+        severity: vulnerability.severity,
+        summary: vulnerability.summary,
+        fixedIn: vulnerability.fixedIn ?? null,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+function isAffected(version: string, vulnerability: KnownVulnerability): boolean {
+  if (vulnerability.introducedIn !== undefined && compareVersions(version, vulnerability.introducedIn) < 0) {
+    return false;
+  }
+  return vulnerability.fixedIn === undefined || compareVersions(version, vulnerability.fixedIn) < 0;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Compare dotted version strings numerically; missing parts count as 0
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split(".").map((part) => Number.parseInt(part, 10) || 0);
+  const partsB = b.split(".").map((part) => Number.parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function truncate(value: string, maxLength = 120): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+import type { LoadMarkers } from "./evidence-types.js";
+import type { ResourceRequest } from "./types.js";
+
+/**
+ * One cell of the filmstrip
+ */
+export interface FilmstripFrame {
+  // ms from navigation start
+  timeMs: number;
+  // Index into TraceReport.screenshots; undefined while nothing has painted
+  screenshot: number | undefined;
+}
+
+/**
+ * Filmstrip and request waterfall for one page load
+ */
+export interface TraceReport {
+  url: string;
+  // Length of the timeline in ms from navigation start
+  durationMs: number;
+  // FCP and LCP from the trace, in ms from navigation start
+  markers: LoadMarkers;
+  // Distinct screenshots shown in the filmstrip (base64 JPEG)
+  screenshots: string[];
+  filmstrip: FilmstripFrame[];
+  // Requests in start order, capped at maxRequests
+  waterfall: ResourceRequest[];
+  // Requests left out of the waterfall
+  omittedRequests: number;
+  // Render-blocking requests, including any left out of the waterfall
+  renderBlocking: ResourceRequest[];
+}
+
+/**
+ * Trace report options
+ */
+export const TraceReportOptionsSchema = z.object({
+  /** Time between filmstrip frames */
+  frameIntervalMs: z.number().int().positive().default(100),
+  /** Maximum filmstrip frames; the strip ends once the page stops changing */
+  maxFrames: z.number().int().positive().default(120),
+  /** Maximum requests drawn in the waterfall */
+  maxRequests: z.number().int().positive().default(60),
+  /** Width of the rendered report in CSS pixels */
+  width: z.number().int().positive().default(1200),
+});
+
+export type TraceReportOptions = z.output<typeof TraceReportOptionsSchema>;
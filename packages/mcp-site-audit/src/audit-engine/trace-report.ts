@@ -0,0 +1,350 @@
+import type { LoadMarkers } from "./evidence-types.js";
+import {
+  type FilmstripFrame,
+  type TraceReport,
+  type TraceReportOptions,
+  TraceReportOptionsSchema,
+} from "./trace-report-types.js";
+import type { ChromeTrace, ResourceRequest, TraceEvent } from "./types.js";
+
+/**
+ * Waterfall bar colors by Resource Timing initiator type
+ */
+const REQUEST_COLORS: Record<string, string> = {
+  navigation: "#64748b",
+  script: "#ca8a04",
+  link: "#7c3aed",
+  css: "#7c3aed",
+  img: "#059669",
+  fetch: "#2563eb",
+  xmlhttprequest: "#2563eb",
+};
+
+const OTHER_REQUEST_COLOR = "#94a3b8";
+const RENDER_BLOCKING_COLOR = "#dc2626";
+const FCP_COLOR = "#16a34a";
+const LCP_COLOR = "#ea580c";
+
+/**
+ * TraceReportRenderer - Turns a Chrome trace and the page's network
+ * requests into a filmstrip and waterfall a prospect can read
+ *
+ * The filmstrip samples the trace's screenshots at a fixed interval
+ * from navigation start, so blank stretches show up as blank frames.
+ * The waterfall draws each request against the same timeline with
+ * render-blocking requests highlighted, and FCP/LCP marked on both.
+ */
+export class TraceReportRenderer {
+  /**
+   * Build the filmstrip and waterfall data for a page load
+   */
+  buildReport(
+    url: string,
+    trace: ChromeTrace,
+    requests: ResourceRequest[],
+    options: Partial<TraceReportOptions> = {}
+  ): TraceReport {
+    const opts = TraceReportOptionsSchema.parse(options);
+    const events = trace.traceEvents;
+
+    const navigation = findNavigationStart(events);
+    const navigationStart = navigation?.ts ?? earliestTimestamp(events);
+    const frameId = typeof navigation?.args?.["frame"] === "string" ? navigation.args["frame"] : undefined;
+    const toMs = (ts: number): number => Math.round((ts - navigationStart) / 1000);
+
+    const shots = events
+      .filter(
+        (event) =>
+          event.name === "Screenshot" &&
+          event.ts >= navigationStart &&
+          typeof event.args?.["snapshot"] === "string"
+      )
+      .sort((a, b) => a.ts - b.ts)
+      .map((event) => ({ timeMs: toMs(event.ts), data: event.args!["snapshot"] as string }));
+
+    const markers = readPaintMarkers(events, navigationStart, frameId);
+
+    // Run one frame past the last visual change or LCP, whichever is later
+    const lastChangeMs = Math.max(shots[shots.length - 1]?.timeMs ?? 0, markers.lcpMs ?? 0);
+    const frameCount = Math.min(
+      opts.maxFrames,
+      Math.floor(lastChangeMs / opts.frameIntervalMs) + 2
+    );
+
+    const screenshots: string[] = [];
+    const screenshotIndex = new Map<number, number>();
+    const filmstrip: FilmstripFrame[] = [];
+    let latest = -1;
+
+    for (let i = 0; i < frameCount; i++) {
+      const timeMs = i * opts.frameIntervalMs;
+      while ((shots[latest + 1]?.timeMs ?? Infinity) <= timeMs) {
+        latest++;
+      }
+
+      let screenshot: number | undefined;
+      const shot = shots[latest];
+      if (shot) {
+        screenshot = screenshotIndex.get(latest);
+        if (screenshot === undefined) {
+          screenshot = screenshots.push(shot.data) - 1;
+          screenshotIndex.set(latest, screenshot);
+        }
+      }
+      filmstrip.push({ timeMs, screenshot });
+    }
+
+    const ordered = [...requests].sort((a, b) => a.startTime - b.startTime);
+    const waterfall = ordered.slice(0, opts.maxRequests);
+    const lastResponseMs = waterfall.reduce((max, r) => Math.max(max, r.responseEnd), 0);
+    const stripEndMs = (filmstrip.length - 1) * opts.frameIntervalMs;
+
+    return {
+      url,
+      durationMs: Math.max(stripEndMs, lastResponseMs, markers.lcpMs ?? 0, 1),
+      markers,
+      screenshots,
+      filmstrip,
+      waterfall,
+      omittedRequests: ordered.length - waterfall.length,
+      renderBlocking: ordered.filter((r) => r.renderBlocking),
+    };
+  }
+
+  /**
+   * Render a report as a self-contained HTML page
+   */
+  renderHtml(report: TraceReport, options: Partial<TraceReportOptions> = {}): string {
+    const opts = TraceReportOptionsSchema.parse(options);
+    const { markers } = report;
+    const percent = (ms: number): string =>
+      `${Math.min(100, Math.max(0, (ms / report.durationMs) * 100)).toFixed(2)}%`;
+
+    // Each distinct screenshot is embedded once and shared by its frames
+    const screenshotStyles = report.screenshots
+      .map((data, i) => `.shot-${i}{background-image:url(data:image/jpeg;base64,${data})}`)
+      .join("\n");
+
+    const fcpFrame = firstFrameAtOrAfter(report.filmstrip, markers.fcpMs);
+    const lcpFrame = firstFrameAtOrAfter(report.filmstrip, markers.lcpMs);
+    const frames = report.filmstrip
+      .map((frame, i) => {
+        const classes = ["frame", frame.screenshot !== undefined ? `shot-${frame.screenshot}` : "blank"];
+        if (i === fcpFrame) classes.push("fcp");
+        if (i === lcpFrame) classes.push("lcp");
+        return `<div class="cell"><div class="${classes.join(" ")}"></div><span>${formatSeconds(frame.timeMs)}</span></div>`;
+      })
+      .join("");
+
+    const markerLines = [
+      { label: "FCP", timeMs: markers.fcpMs, color: FCP_COLOR },
+      { label: "LCP", timeMs: markers.lcpMs, color: LCP_COLOR },
+    ]
+      .filter((marker) => marker.timeMs !== undefined)
+      .map(
+        (marker) =>
+          `<div class="marker" style="left:${percent(marker.timeMs!)};border-color:${marker.color}"><span style="color:${marker.color}">${marker.label}</span></div>`
+      )
+      .join("");
+
+    const tickStep = report.durationMs <= 3000 ? 500 : report.durationMs <= 10000 ? 1000 : 2000;
+    const ticks: string[] = [];
+    for (let ms = 0; ms <= report.durationMs; ms += tickStep) {
+      ticks.push(`<span class="tick" style="left:${percent(ms)}">${formatSeconds(ms)}</span>`);
+    }
+
+    const rows = report.waterfall
+      .map((request) => {
+        const color = request.renderBlocking
+          ? RENDER_BLOCKING_COLOR
+          : (REQUEST_COLORS[request.initiatorType] ?? OTHER_REQUEST_COLOR);
+        const width = Math.max(0.3, ((request.responseEnd - request.startTime) / report.durationMs) * 100);
+        const tag = request.renderBlocking ? `<em>render-blocking</em>` : "";
+        return (
+          `<tr class="${request.renderBlocking ? "blocking" : ""}">` +
+          `<td class="name" title="${escapeHtml(request.url)}">${escapeHtml(shortUrl(request.url))}${tag}</td>` +
+          `<td class="type">${escapeHtml(request.initiatorType)}</td>` +
+          `<td class="size">${formatBytes(request.transferSize)}</td>` +
+          `<td class="timeline"><div class="bar" style="left:${percent(request.startTime)};width:${width.toFixed(2)}%;background:${color}"></div></td>` +
+          `</tr>`
+        );
+      })
+      .join("");
+
+    const blockingBytes = report.renderBlocking.reduce((sum, r) => sum + r.transferSize, 0);
+    const summary = [
+      markers.fcpMs !== undefined ? `First content at <b>${formatSeconds(markers.fcpMs)}</b>` : undefined,
+      markers.lcpMs !== undefined ? `largest content at <b>${formatSeconds(markers.lcpMs)}</b>` : undefined,
+      report.renderBlocking.length > 0
+        ? `<b class="bad">${report.renderBlocking.length} render-blocking request${report.renderBlocking.length === 1 ? "" : "s"}</b> (${formatBytes(blockingBytes)}) had to finish before anything could paint`
+        : "no render-blocking requests",
+    ]
+      .filter((part): part is string => part !== undefined)
+      .join(" · ");
+
+    const omitted =
+      report.omittedRequests > 0
+        ? `<p class="note">${report.omittedRequests} later request${report.omittedRequests === 1 ? "" : "s"} not shown</p>`
+        : "";
+
+    return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Page load report: ${escapeHtml(report.url)}</title>
+<style>
+body{margin:0;padding:24px;width:${opts.width - 48}px;font:13px/1.4 -apple-system,"Segoe UI",Roboto,Arial,sans-serif;color:#0f172a;background:#fff}
+h1{font-size:20px;margin:0 0 4px}
+h2{font-size:15px;margin:24px 0 8px}
+.url{color:#475569;margin:0 0 8px;word-break:break-all}
+.summary{margin:0;color:#334155}
+.bad{color:${RENDER_BLOCKING_COLOR}}
+.strip{display:flex;flex-wrap:wrap;gap:6px}
+.cell{display:flex;flex-direction:column;align-items:center;font-size:11px;color:#475569}
+.frame{width:72px;height:128px;border:1px solid #cbd5e1;background:#fff center/contain no-repeat}
+.frame.fcp{border:3px solid ${FCP_COLOR}}
+.frame.lcp{border:3px solid ${LCP_COLOR}}
+.legend{display:flex;gap:16px;margin:8px 0;color:#475569;font-size:12px}
+.legend i{display:inline-block;width:10px;height:10px;margin-right:4px;vertical-align:-1px}
+table{width:100%;border-collapse:collapse;table-layout:fixed}
+td{box-sizing:border-box;padding:2px 6px;border-bottom:1px solid #f1f5f9;white-space:nowrap;overflow:hidden;text-overflow:ellipsis}
+td.name{width:330px}
+td.type{width:80px;color:#64748b}
+td.size{width:70px;text-align:right;color:#64748b}
+td.timeline{position:relative;padding:0}
+tr.blocking td{background:#fef2f2}
+tr.blocking td.name{color:${RENDER_BLOCKING_COLOR};font-weight:600}
+em{font-style:normal;font-size:10px;margin-left:6px;padding:0 4px;border-radius:3px;background:${RENDER_BLOCKING_COLOR};color:#fff}
+.bar{position:absolute;top:5px;height:10px;border-radius:2px}
+.chart{position:relative}
+.axis{position:relative;height:18px;margin-left:480px;color:#64748b;font-size:11px}
+.tick{position:absolute;transform:translateX(-50%)}
+.markers{position:absolute;top:18px;bottom:0;left:480px;right:0;pointer-events:none}
+.marker{position:absolute;top:0;bottom:0;border-left:2px dashed}
+.marker span{position:absolute;top:-16px;left:3px;font-size:11px;font-weight:600}
+.note{color:#64748b;font-size:12px}
+</style>
+<style>
+${screenshotStyles}
+</style>
+</head>
+<body>
+<h1>Why this page loads slowly</h1>
+<p class="url">${escapeHtml(report.url)}</p>
+<p class="summary">${summary}</p>
+
+<h2>Filmstrip (every ${opts.frameIntervalMs} ms)</h2>
+<div class="legend"><span><i style="background:${FCP_COLOR}"></i>First Contentful Paint</span><span><i style="background:${LCP_COLOR}"></i>Largest Contentful Paint</span></div>
+<div class="strip">${frames}</div>
+
+<h2>Request waterfall</h2>
+<div class="legend"><span><i style="background:${RENDER_BLOCKING_COLOR}"></i>Render-blocking</span><span><i style="background:${REQUEST_COLORS["script"]}"></i>Script</span><span><i style="background:${REQUEST_COLORS["link"]}"></i>Stylesheet</span><span><i style="background:${REQUEST_COLORS["img"]}"></i>Image</span><span><i style="background:${REQUEST_COLORS["fetch"]}"></i>Fetch/XHR</span><span><i style="background:${OTHER_REQUEST_COLOR}"></i>Other</span></div>
+<div class="chart">
+<div class="axis">${ticks.join("")}</div>
+<div class="markers">${markerLines}</div>
+<table>${rows}</table>
+</div>
+${omitted}
+</body>
+</html>
+`;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * The main frame's navigationStart for the page under test
+ *
+ * The trace can also hold the navigation away from the previous page,
+ * so the first main-frame navigation to an http(s) URL wins.
+ */
+function findNavigationStart(events: TraceEvent[]): TraceEvent | undefined {
+  const starts = events
+    .filter((event) => event.name === "navigationStart")
+    .sort((a, b) => a.ts - b.ts);
+
+  return (
+    starts.find((event) => {
+      const data = event.args?.["data"] as
+        | { documentLoaderURL?: string; isLoadingMainFrame?: boolean }
+        | undefined;
+      return data?.isLoadingMainFrame === true && /^https?:/.test(data.documentLoaderURL ?? "");
+    }) ?? starts[0]
+  );
+}
+
+function earliestTimestamp(events: TraceEvent[]): number {
+  let earliest = Infinity;
+  for (const event of events) {
+    if (event.ts > 0 && event.ts < earliest) earliest = event.ts;
+  }
+  return Number.isFinite(earliest) ? earliest : 0;
+}
+
+/**
+ * First FCP and final LCP candidate of the main frame
+ */
+function readPaintMarkers(
+  events: TraceEvent[],
+  navigationStart: number,
+  frameId: string | undefined
+): LoadMarkers {
+  const paints = events
+    .filter(
+      (event) =>
+        event.ts >= navigationStart &&
+        (frameId === undefined || event.args?.["frame"] === undefined || event.args["frame"] === frameId)
+    )
+    .sort((a, b) => a.ts - b.ts);
+
+  const fcp = paints.find((event) => event.name === "firstContentfulPaint");
+  const lcp = paints.filter((event) => event.name === "largestContentfulPaint::Candidate").pop();
+  const toMs = (event: TraceEvent | undefined): number | undefined =>
+    event ? Math.round((event.ts - navigationStart) / 1000) : undefined;
+
+  return { fcpMs: toMs(fcp), lcpMs: toMs(lcp) };
+}
+
+/**
+ * Index of the first frame shown at or after a marker
+ */
+function firstFrameAtOrAfter(filmstrip: FilmstripFrame[], timeMs: number | undefined): number {
+  return timeMs === undefined ? -1 : filmstrip.findIndex((frame) => frame.timeMs >= timeMs);
+}
+
+/**
+ * Host and path of a URL, shortened for the waterfall
+ */
+function shortUrl(url: string): string {
+  let display: string;
+  try {
+    const parsed = new URL(url);
+    display = `${parsed.hostname}${parsed.pathname}`;
+  } catch {
+    display = url;
+  }
+  return display.length > 60 ? `${display.slice(0, 28)}…${display.slice(-28)}` : display;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes <= 0) return "–";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -1,19 +1,59 @@
 import { z } from "zod";
 
-import type { PainPointType } from "@the-closer/shared";
+import {
+  type PainPointType,
+  type ThrottlingProfileName,
+  ThrottlingProfileNameSchema,
+} from "@the-closer/shared";
+
+// Campaigns pick a profile too, so the names live in shared
+export { ThrottlingProfileNameSchema, type ThrottlingProfileName };
 
 /**
  * Performance analysis options
  */
 export const AnalysisOptionsSchema = z.object({
   viewport: z.enum(["mobile", "desktop"]).default("mobile"),
+  /** Throttle with the viewport's default profile when no profile is given */
   throttling: z.boolean().default(false),
+  throttlingProfile: ThrottlingProfileNameSchema.optional(),
   timeout: z.number().int().positive().default(60000),
   collectCoverage: z.boolean().default(true),
+  /** Record a Chrome trace with screenshots in an extra, unmeasured load, for the filmstrip report */
+  captureTrace: z.boolean().default(false),
 });
 
 export type AnalysisOptions = z.output<typeof AnalysisOptionsSchema>;
 
+/**
+ * Multi-run sampling options
+ */
+export const SamplingOptionsSchema = AnalysisOptionsSchema.extend({
+  /** Cold-cache runs, each in a fresh incognito context */
+  runs: z.number().int().min(2).max(10).default(3),
+  /** Coefficient of variation above which a metric is too noisy to quote */
+  maxCoefficientOfVariation: z.number().positive().default(0.2),
+});
+
+export type SamplingOptions = z.output<typeof SamplingOptionsSchema>;
+
+/**
+ * Network and CPU conditions applied during analysis
+ */
+export interface ThrottlingProfile {
+  name: ThrottlingProfileName;
+  // Human-readable name for reports and pitches
+  label: string;
+  // Added round-trip latency in ms
+  latencyMs: number;
+  // Download throughput in kbit/s (0 = unthrottled)
+  downloadKbps: number;
+  // Upload throughput in kbit/s (0 = unthrottled)
+  uploadKbps: number;
+  // CPU slowdown multiplier (1 = no slowdown)
+  cpuSlowdown: number;
+}
+
 /**
  * Core Web Vitals metrics
  */
@@ -68,6 +108,48 @@ export interface ResourceMetrics {
     fonts: number;
     other: number;
   };
+  // Every request in load order, document first
+  requests: ResourceRequest[];
+}
+
+/**
+ * One network request from the Resource Timing API
+ */
+export interface ResourceRequest {
+  url: string;
+  // Resource Timing initiator type (navigation, script, link, img, fetch...)
+  initiatorType: string;
+  // Request start in ms from navigation start
+  startTime: number;
+  // Response end in ms from navigation start
+  responseEnd: number;
+  // Bytes over the network (0 when cached or cross-origin without TAO)
+  transferSize: number;
+  // Whether the request held up first render
+  renderBlocking: boolean;
+}
+
+/**
+ * Event in a Chrome trace (Trace Event Format)
+ */
+export interface TraceEvent {
+  name: string;
+  cat: string;
+  // Phase: "X" complete, "I" instant, "O" snapshot object...
+  ph: string;
+  // Timestamp in microseconds
+  ts: number;
+  pid?: number;
+  tid?: number;
+  dur?: number;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Chrome trace as written by page.tracing
+ */
+export interface ChromeTrace {
+  traceEvents: TraceEvent[];
 }
 
 /**
@@ -105,6 +187,45 @@ export interface PerformanceReport {
   durationMs: number;
   // Any errors encountered during analysis
   errors: string[];
+  // Network and CPU conditions the metrics were measured under
+  throttling: ThrottlingProfile;
+  // Spread across runs (sampled reports only; vitals are then medians)
+  sampling?: PerformanceSampling;
+  // Chrome trace of a separate, unmeasured load (only when captureTrace is set)
+  trace?: ChromeTrace;
+}
+
+/**
+ * Metrics summarized across sampling runs
+ */
+export type SampledMetric = keyof CoreWebVitals | "loadTimeMs";
+
+/**
+ * Distribution of one metric across sampling runs
+ */
+export interface MetricSampleStats {
+  // Values from runs that reported the metric
+  samples: number[];
+  median: number | null;
+  p75: number | null;
+  // Sample variance between runs
+  variance: number | null;
+  // Standard deviation relative to the mean
+  coefficientOfVariation: number | null;
+  // Spread is too wide to quote the median to a prospect
+  unstable: boolean;
+}
+
+/**
+ * Spread of a sampled performance report
+ */
+export interface PerformanceSampling {
+  // Runs requested
+  runs: number;
+  // Runs that completed without errors
+  successfulRuns: number;
+  metrics: Record<SampledMetric, MetricSampleStats>;
+  unstableMetrics: SampledMetric[];
 }
 
 /**
@@ -137,3 +258,75 @@ export const PERFORMANCE_THRESHOLDS = {
   SCORE_POOR: 50,
   SCORE_CRITICAL: 25,
 } as const;
+
+/**
+ * Standard deviation below which a sampled metric counts as stable
+ * regardless of its coefficient of variation, so near-zero values
+ * (a CLS of 0.001 vs 0.003) aren't flagged
+ */
+export const SAMPLING_NOISE_FLOORS: Record<SampledMetric, number> = {
+  fcp: 100,
+  lcp: 100,
+  cls: 0.01,
+  inp: 50,
+  tti: 100,
+  tbt: 50,
+  loadTimeMs: 100,
+};
+
+/**
+ * Throttling profiles, matching Chrome DevTools and Lighthouse presets
+ *
+ * "slow-4g" is Lighthouse's mobile preset: a mid-range phone on a
+ * typical cellular connection.
+ */
+export const THROTTLING_PROFILES: Record<ThrottlingProfileName, ThrottlingProfile> = {
+  none: {
+    name: "none",
+    label: "No throttling",
+    latencyMs: 0,
+    downloadKbps: 0,
+    uploadKbps: 0,
+    cpuSlowdown: 1,
+  },
+  "slow-3g": {
+    name: "slow-3g",
+    label: "Slow 3G",
+    latencyMs: 2000,
+    downloadKbps: 400,
+    uploadKbps: 400,
+    cpuSlowdown: 6,
+  },
+  "fast-3g": {
+    name: "fast-3g",
+    label: "Fast 3G",
+    latencyMs: 562.5,
+    downloadKbps: 1474.56,
+    uploadKbps: 675,
+    cpuSlowdown: 4,
+  },
+  "slow-4g": {
+    name: "slow-4g",
+    label: "Slow 4G",
+    latencyMs: 150,
+    downloadKbps: 1638.4,
+    uploadKbps: 750,
+    cpuSlowdown: 4,
+  },
+  "desktop-cable": {
+    name: "desktop-cable",
+    label: "Desktop cable",
+    latencyMs: 40,
+    downloadKbps: 10240,
+    uploadKbps: 10240,
+    cpuSlowdown: 1,
+  },
+};
+
+/**
+ * Profile used when throttling is on but no profile is named
+ */
+export const DEFAULT_THROTTLING_PROFILES: Record<AnalysisOptions["viewport"], ThrottlingProfileName> = {
+  mobile: "slow-4g",
+  desktop: "desktop-cable",
+};
@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+/**
+ * MCP Site Audit Server entry point
+ *
+ * Starts the audit tools on stdio. Audit results and evidence are stored
+ * in Supabase using the credentials from the environment, which also
+ * holds the campaigns whose throttling profile audits can follow.
+ */
+
+import { getConfig } from "@the-closer/shared";
+import {
+  AuditRepository,
+  CampaignRepository,
+  EvidenceStore,
+  LeadRepository,
+  SupabaseClient,
+} from "@the-closer/mcp-lead-storage";
+
+import { SiteAuditServer } from "./server.js";
+
+async function main(): Promise<void> {
+  const config = getConfig();
+
+  const supabase = new SupabaseClient({
+    supabaseUrl: config.SUPABASE_URL,
+    supabaseAnonKey: config.SUPABASE_ANON_KEY,
+    ...(config.SUPABASE_SERVICE_KEY && {
+      supabaseServiceKey: config.SUPABASE_SERVICE_KEY,
+    }),
+  });
+  await supabase.connect();
+
+  const leadRepository = new LeadRepository(supabase);
+  const server = new SiteAuditServer({
+    leadRepository,
+    evidenceStore: new EvidenceStore(supabase, leadRepository),
+    auditRepository: new AuditRepository(supabase),
+    campaignRepository: new CampaignRepository(supabase),
+  });
+
+  const shutdown = async (): Promise<void> => {
+    await server.stop();
+    await supabase.disconnect();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => void shutdown());
+  process.on("SIGTERM", () => void shutdown());
+
+  await server.start();
+}
+
+main().catch((error: unknown) => {
+  console.error("Failed to start site audit server:", error);
+  process.exit(1);
+});
@@ -8,10 +8,14 @@
  * - Performance metrics
  * - Accessibility compliance
  * - Code coverage analysis
+ * - SEO and site hygiene
+ * - Multi-page site crawls
  */
 
 export { SiteAuditServer } from "./server.js";
+export type { SiteAuditServerDependencies } from "./server.js";
 export type { AuditConfig, AuditResult } from "./types.js";
+export { AuditConfigSchema } from "./types.js";
 
 // Audit service (orchestrator)
 export {
@@ -21,9 +25,25 @@ export {
   type BatchAuditProgress,
   type BatchAuditResult,
   type PartialAuditResult,
+  type ResolvedAuditOptions,
   DEFAULT_AUDIT_OPTIONS,
 } from "./audit-engine/index.js";
 
+// Analyzer plugins
+export {
+  AnalyzerRegistry,
+  PerformancePlugin,
+  AccessibilityPlugin,
+  ResponsivenessPlugin,
+  SeoPlugin,
+  TechStackPlugin,
+  createBuiltInAnalyzers,
+  mapSeverity,
+  type AuditAnalyzer,
+  type AnalyzerContext,
+  type PageReports,
+} from "./audit-engine/index.js";
+
 // Browser client and utilities
 export {
   PuppeteerClient,
@@ -49,10 +69,24 @@ export {
   type CoreWebVitals,
   type CoverageMetrics,
   type ResourceMetrics,
+  type ResourceRequest,
+  type TraceEvent,
+  type ChromeTrace,
   type PerformancePainPoint,
   type PerformanceReport,
+  type ThrottlingProfile,
+  type ThrottlingProfileName,
+  type SamplingOptions,
+  type SampledMetric,
+  type MetricSampleStats,
+  type PerformanceSampling,
   AnalysisOptionsSchema,
+  SamplingOptionsSchema,
+  ThrottlingProfileNameSchema,
   PERFORMANCE_THRESHOLDS,
+  SAMPLING_NOISE_FLOORS,
+  THROTTLING_PROFILES,
+  DEFAULT_THROTTLING_PROFILES,
 } from "./audit-engine/index.js";
 
 // Accessibility scanning
@@ -66,11 +100,19 @@ export {
   type AccessibilityNode,
   type LegalRiskAssessment,
   type AccessibilityReport,
+  type AriaAttributeType,
   WCAGLevelSchema,
   AccessibilityScanOptionsSchema,
   WCAG_RULES,
   getRulesForLevel,
   SEVERITY_WEIGHTS,
+  MAX_VIOLATIONS_PER_RULE,
+  CONTRAST_THRESHOLDS,
+  TARGET_SIZE_THRESHOLDS,
+  ARIA_ATTRIBUTES,
+  ARIA_ROLES,
+  ARIA_REQUIRED_ATTRIBUTES,
+  ARIA_REQUIRED_CHILDREN,
 } from "./audit-engine/index.js";
 
 // Evidence capture
@@ -83,9 +125,72 @@ export {
   type VideoRecordingOptions,
   type EvidenceCaptureResult,
   type TracingResult,
+  type LoadMarkers,
+  type RgbaImage,
+  type LoadAnimationOptions,
   ViewportConfigSchema,
   EvidenceScreenshotOptionsSchema,
   AnnotationOptionsSchema,
   VideoRecordingOptionsSchema,
   VIEWPORTS,
+  encodeLoadAnimation,
+  decodePng,
+  TraceReportRenderer,
+  type FilmstripFrame,
+  type TraceReport,
+  type TraceReportOptions,
+  TraceReportOptionsSchema,
+} from "./audit-engine/index.js";
+
+// SEO and hygiene
+export {
+  SeoAnalyzer,
+  type SeoIssue,
+  type SeoIssueSeverity,
+  type SeoOptions,
+  type SeoReport,
+  type MetaTags,
+  type LinkCheckResult,
+  type ImageAnalysis,
+  type HttpsStatus,
+  SeoOptionsSchema,
+  SEO_LENGTH_LIMITS,
+  REQUIRED_OPEN_GRAPH_TAGS,
+  IMAGE_FORMAT_SAVINGS,
+  SEO_SEVERITY_WEIGHTS,
+} from "./audit-engine/index.js";
+
+// Tech stack fingerprinting
+export {
+  TechStackAnalyzer,
+  detectTechnologies,
+  findVulnerabilities,
+  compareVersions,
+  TECH_SIGNATURES,
+  KNOWN_VULNERABILITIES,
+  TECH_SIGNATURE_VERSION,
+  type TechSignature,
+  type KnownVulnerability,
+  type VulnerabilitySeverity,
+  type TechDetection,
+  type TechVulnerabilityMatch,
+  type TechSignals,
+  type TechStackReport,
+  type TechStackOptions,
+  TechStackOptionsSchema,
+} from "./audit-engine/index.js";
+
+// Site crawling
+export {
+  SiteCrawler,
+  normalizePageUrl,
+  CrawlPolicy,
+  type CrawlPolicyOptions,
+  type CrawlOptions,
+  type CrawlDiscovery,
+  type DiscoveredPage,
+  CrawlOptionsSchema,
+  PRIORITY_PAGE_PATTERNS,
+  EXCLUDED_PATH_PATTERN,
+  NON_PAGE_EXTENSIONS,
 } from "./audit-engine/index.js";
@@ -1,36 +1,480 @@
-import type { AuditResult } from "@the-closer/shared";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
 
-import type { AuditConfig } from "./types.js";
+import {
+  type AuditResult,
+  NotFoundError,
+  type SessionManager,
+  type ThrottlingProfileName,
+  ValidationError,
+} from "@the-closer/shared";
+import type {
+  AuditRepository,
+  CampaignRepository,
+  EvidenceStore,
+  LeadRepository,
+} from "@the-closer/mcp-lead-storage";
+
+import {
+  AnalyzerRegistry,
+  AuditService,
+  EvidenceCapture,
+  SiteCrawler,
+  CrawlPolicy,
+  createBuiltInAnalyzers,
+  type AuditAnalyzer,
+  type AuditOptions,
+  type BatchAuditProgress,
+  type BatchAuditResult,
+} from "./audit-engine/index.js";
+import { BrowserPool, type BrowserPoolConfig, type ManagedPage } from "./browser/index.js";
+import { type AuditConfig, AuditConfigSchema } from "./types.js";
+
+/**
+ * Dependencies for the site audit server
+ */
+export interface SiteAuditServerDependencies {
+  leadRepository: LeadRepository;
+  evidenceStore: EvidenceStore;
+  /** Stores full audit results for outreach */
+  auditRepository?: AuditRepository;
+  /** Looks up the throttling profile of the campaign an audit is for */
+  campaignRepository?: CampaignRepository;
+  /** Pool configuration used when the server creates its own pool */
+  poolConfig?: Partial<BrowserPoolConfig>;
+  /** robots.txt cache and settings; defaults to the global session manager */
+  sessionManager?: SessionManager;
+  /** Extra analyzers registered after the built-in ones, e.g. vertical-specific checks */
+  analyzers?: AuditAnalyzer[];
+}
+
+/**
+ * Tool handler context passed by the MCP SDK
+ */
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Input for the single-analysis tools
+ */
+const PartialAuditInputSchema = z.object({
+  leadId: z.string().uuid().describe("Lead whose website should be audited"),
+  timeout: AuditConfigSchema.shape.timeout,
+});
+
+/**
+ * Input for the performance tool
+ */
+const PerformanceAuditInputSchema = PartialAuditInputSchema.extend({
+  campaignId: AuditConfigSchema.shape.campaignId,
+  throttlingProfile: AuditConfigSchema.shape.throttlingProfile,
+  runs: AuditConfigSchema.shape.performanceRuns,
+});
+
+/**
+ * Input for the accessibility tool
+ */
+const AccessibilityAuditInputSchema = PartialAuditInputSchema.extend({
+  wcagLevel: z.enum(["A", "AA", "AAA"]).default("AA"),
+});
+
+/**
+ * Input for the SEO tool
+ */
+const SeoAuditInputSchema = PartialAuditInputSchema.extend({
+  checkLinks: z.boolean().default(true).describe("HEAD-check links found on the page"),
+});
+
+/**
+ * Input for the batch audit tool
+ */
+const BatchAuditInputSchema = AuditConfigSchema.omit({
+  url: true,
+  leadId: true,
+}).extend({
+  leadIds: z.array(z.string().uuid()).min(1).describe("Leads to audit"),
+  concurrency: z.number().int().positive().max(10).default(3),
+  continueOnFailure: z.boolean().default(true),
+});
 
 /**
  * MCP Site Audit Server
  *
- * Uses Puppeteer to perform comprehensive website audits
- * and generate visual evidence of issues.
+ * Exposes AuditService as MCP tools over stdio. The server owns a
+ * BrowserPool for its whole lifetime; every audit borrows a page
+ * from it and batch progress is streamed as progress notifications.
  */
 export class SiteAuditServer {
-  constructor() {
-    // Server initialization will be implemented in Phase 2
+  private readonly server: McpServer;
+  private readonly browserPool: BrowserPool;
+  private readonly auditService: AuditService;
+  private readonly leadRepository: LeadRepository;
+  private readonly campaignRepository: CampaignRepository | null;
+
+  constructor(dependencies: SiteAuditServerDependencies) {
+    this.leadRepository = dependencies.leadRepository;
+    this.campaignRepository = dependencies.campaignRepository ?? null;
+    this.browserPool = new BrowserPool(dependencies.poolConfig);
+    const crawlPolicy = new CrawlPolicy(
+      dependencies.sessionManager ? { sessionManager: dependencies.sessionManager } : {}
+    );
+    this.auditService = new AuditService({
+      analyzers: new AnalyzerRegistry([
+        ...createBuiltInAnalyzers(this.browserPool),
+        ...(dependencies.analyzers ?? []),
+      ]),
+      siteCrawler: new SiteCrawler(crawlPolicy),
+      crawlPolicy,
+      evidenceCapture: new EvidenceCapture(),
+      leadRepository: dependencies.leadRepository,
+      evidenceStore: dependencies.evidenceStore,
+      ...(dependencies.auditRepository && { auditRepository: dependencies.auditRepository }),
+      browserPool: this.browserPool,
+    });
+
+    this.server = new McpServer({
+      name: "mcp-site-audit",
+      version: "0.1.0",
+    });
+
+    this.registerTools();
   }
 
   /**
    * Audit a website
+   *
+   * Audits are stored against a lead, so the config must either carry
+   * a leadId or a URL that matches an existing lead.
    */
-  async audit(_config: AuditConfig): Promise<AuditResult> {
-    // Implementation will include:
-    // 1. Mobile viewport testing
-    // 2. Performance recording with tracing
-    // 3. Accessibility tree analysis
-    // 4. Code coverage collection
-    // 5. Screenshot/video capture
-    throw new Error("Not implemented - Phase 2");
+  async audit(config: AuditConfig): Promise<AuditResult> {
+    const leadId = await this.resolveLeadId(config);
+    const options = await this.resolveAuditOptions(config);
+
+    return this.withPage((page) => this.auditService.runAudit(leadId, page.page, options));
   }
 
   /**
-   * Start the MCP server
+   * Start the MCP server on stdio
    */
   async start(): Promise<void> {
-    // MCP server startup will be implemented
-    throw new Error("Not implemented - Phase 2");
+    await this.browserPool.warmUp(1);
+
+    const transport = new StdioServerTransport();
+    await this.server.connect(transport);
+  }
+
+  /**
+   * Stop the MCP server and shut down the browser pool
+   */
+  async stop(): Promise<void> {
+    await this.server.close();
+    await this.browserPool.shutdown();
+  }
+
+  /**
+   * Map the MCP audit config onto AuditService options
+   */
+  static toAuditOptions(config: Omit<AuditConfig, "url" | "leadId">): AuditOptions {
+    return {
+      runPerformance: config.checkPerformance,
+      runAccessibility: config.checkAccessibility,
+      runResponsiveness: config.checkMobile,
+      runSeo: config.checkSeo,
+      runTechStack: config.checkTechStack,
+      captureScreenshots: config.captureScreenshots,
+      captureVideoOnSlowLoad: config.captureVideo,
+      captureLoadReport: config.captureLoadReport,
+      timeout: config.timeout,
+      ...(config.throttlingProfile && { throttlingProfile: config.throttlingProfile }),
+      performanceRuns: config.performanceRuns,
+      maxPages: config.maxPages,
+      ...(config.analyzers && { analyzers: config.analyzers }),
+      analyzerOptions: { performance: { collectCoverage: config.checkCoverage } },
+    };
+  }
+
+  // ============================================
+  // Tool Registration
+  // ============================================
+
+  private registerTools(): void {
+    this.server.registerTool(
+      "run_audit",
+      {
+        title: "Run full audit",
+        description:
+          "Run performance, accessibility and responsiveness checks on a lead's " +
+          "website, upload evidence and save the results to the lead. Set maxPages " +
+          "to also crawl contact, booking and service pages and roll them up. Give " +
+          "either leadId or the url of an existing lead.",
+        inputSchema: AuditConfigSchema.shape,
+      },
+      async (input) => {
+        return jsonResult(await this.audit(AuditConfigSchema.parse(input)));
+      }
+    );
+
+    this.server.registerTool(
+      "run_performance_audit",
+      {
+        title: "Run performance audit",
+        description: "Measure Core Web Vitals, resource usage and code coverage for a lead.",
+        inputSchema: PerformanceAuditInputSchema.shape,
+      },
+      async ({ leadId, campaignId, timeout, throttlingProfile, runs }) => {
+        const profile = await this.resolveThrottlingProfile(throttlingProfile, campaignId);
+        const result = await this.withPage((page) =>
+          this.auditService.runPerformanceOnly(leadId, page.page, {
+            timeout,
+            runs,
+            ...(profile && { throttlingProfile: profile }),
+          })
+        );
+        return jsonResult(result);
+      }
+    );
+
+    this.server.registerTool(
+      "run_accessibility_audit",
+      {
+        title: "Run accessibility audit",
+        description: "Scan a lead's website for WCAG violations and legal risk.",
+        inputSchema: AccessibilityAuditInputSchema.shape,
+      },
+      async ({ leadId, timeout, wcagLevel }) => {
+        const result = await this.withPage((page) =>
+          this.auditService.runAccessibilityOnly(leadId, page.page, { wcagLevel, timeout })
+        );
+        return jsonResult(result);
+      }
+    );
+
+    this.server.registerTool(
+      "run_responsiveness_audit",
+      {
+        title: "Run responsiveness audit",
+        description: "Check a lead's website for layout problems across viewports.",
+        inputSchema: PartialAuditInputSchema.shape,
+      },
+      async ({ leadId, timeout }) => {
+        const result = await this.withPage((page) =>
+          this.auditService.runResponsivenessOnly(leadId, page.page, { timeout })
+        );
+        return jsonResult(result);
+      }
+    );
+
+    this.server.registerTool(
+      "run_seo_audit",
+      {
+        title: "Run SEO audit",
+        description:
+          "Check a lead's website for missing meta tags, broken links, heavy images and HTTPS problems.",
+        inputSchema: SeoAuditInputSchema.shape,
+      },
+      async ({ leadId, timeout, checkLinks }) => {
+        const result = await this.withPage((page) =>
+          this.auditService.runSeoOnly(leadId, page.page, { timeout, checkLinks })
+        );
+        return jsonResult(result);
+      }
+    );
+
+    this.server.registerTool(
+      "run_tech_stack_audit",
+      {
+        title: "Run tech stack audit",
+        description:
+          "Identify the CMS, page builder, frameworks, analytics and hosting of a lead's website " +
+          "and flag outdated libraries with known vulnerabilities.",
+        inputSchema: PartialAuditInputSchema.shape,
+      },
+      async ({ leadId, timeout }) => {
+        const result = await this.withPage((page) =>
+          this.auditService.runTechStackOnly(leadId, page.page, { timeout })
+        );
+        return jsonResult(result);
+      }
+    );
+
+    this.server.registerTool(
+      "run_batch_audit",
+      {
+        title: "Run batch audit",
+        description:
+          "Run full audits on several leads in parallel. " +
+          "Sends a progress notification as each lead starts and finishes.",
+        inputSchema: BatchAuditInputSchema.shape,
+      },
+      async (input, extra) => {
+        const { leadIds, concurrency, continueOnFailure, ...config } =
+          BatchAuditInputSchema.parse(input);
+
+        const result = await this.auditService.runBatchAudit(leadIds, {
+          ...(await this.resolveAuditOptions(config)),
+          concurrency,
+          continueOnFailure,
+          ...this.createProgressReporter(extra),
+        });
+
+        return jsonResult(SiteAuditServer.serializeBatchResult(result));
+      }
+    );
+
+    this.server.registerTool(
+      "get_pool_stats",
+      {
+        title: "Get browser pool stats",
+        description: "Report how many browsers and contexts the audit pool is using.",
+        inputSchema: {},
+      },
+      async () => jsonResult(this.browserPool.getStats())
+    );
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  /**
+   * Borrow a page from the pool for the duration of an audit
+   */
+  private async withPage<T>(fn: (page: ManagedPage) => Promise<T>): Promise<T> {
+    const page = await this.browserPool.acquirePage();
+    try {
+      return await fn(page);
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Map an audit config onto AuditService options, taking the throttling
+   * profile from its campaign when the config doesn't name one
+   */
+  private async resolveAuditOptions(
+    config: Omit<AuditConfig, "url" | "leadId">
+  ): Promise<AuditOptions> {
+    const throttlingProfile = await this.resolveThrottlingProfile(
+      config.throttlingProfile,
+      config.campaignId
+    );
+    return {
+      ...SiteAuditServer.toAuditOptions(config),
+      ...(throttlingProfile && { throttlingProfile }),
+    };
+  }
+
+  /**
+   * Pick the throttling profile for an audit: the one asked for, else the campaign's
+   */
+  private async resolveThrottlingProfile(
+    throttlingProfile: ThrottlingProfileName | undefined,
+    campaignId: string | undefined
+  ): Promise<ThrottlingProfileName | undefined> {
+    if (throttlingProfile || !campaignId) {
+      return throttlingProfile;
+    }
+    if (!this.campaignRepository) {
+      throw new ValidationError("Campaign lookups are not configured for this server", {
+        context: { campaignId },
+      });
+    }
+
+    const campaign = await this.campaignRepository.getCampaignById(campaignId);
+    if (!campaign) {
+      throw new NotFoundError(`Campaign not found: ${campaignId}`, {
+        resourceType: "campaign",
+        context: { campaignId },
+      });
+    }
+    return campaign.auditThrottlingProfile;
+  }
+
+  /**
+   * Find the lead an audit config refers to
+   */
+  private async resolveLeadId(config: AuditConfig): Promise<string> {
+    if (config.leadId) {
+      return config.leadId;
+    }
+    if (!config.url) {
+      throw new ValidationError("Either leadId or url is required", {
+        context: { field: "leadId" },
+      });
+    }
+
+    const lead = await this.leadRepository.findDuplicateByWebsite(config.url);
+    if (!lead) {
+      throw new NotFoundError(`No lead found for ${config.url}`, {
+        resourceType: "lead",
+        context: { url: config.url },
+      });
+    }
+    return lead.id;
+  }
+
+  /**
+   * Forward batch progress as MCP progress notifications
+   * when the client asked for them
+   */
+  private createProgressReporter(
+    extra: ToolExtra
+  ): { onProgress?: (progress: BatchAuditProgress) => void } {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return {};
+    }
+
+    return {
+      onProgress: (progress) => {
+        const done = progress.completed + progress.failed;
+        extra
+          .sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress: done,
+              total: progress.total,
+              message: progress.current
+                ? `Auditing lead ${progress.current}`
+                : `${done}/${progress.total} audits finished (${progress.failed} failed)`,
+            },
+          })
+          .catch(() => {
+            // Progress is best-effort - never fail the batch over it
+          });
+      },
+    };
+  }
+
+  /**
+   * Convert the Map-based batch result into plain JSON
+   */
+  private static serializeBatchResult(result: BatchAuditResult): Record<string, unknown> {
+    return {
+      total: result.total,
+      successful: result.successful,
+      failed: result.failed,
+      results: Object.fromEntries(result.results),
+      errors: Object.fromEntries(
+        Array.from(result.errors, ([leadId, error]) => [leadId, error.message])
+      ),
+    };
   }
 }
+
+/**
+ * Wrap a value as a JSON text tool result
+ */
+function jsonResult(value: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(value, null, 2) }],
+  };
+}
@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { ThrottlingProfileNameSchema } from "./audit-engine/types.js";
+
 // Re-export shared types
 export type {
   AuditResult,
@@ -10,30 +12,60 @@ export type {
 
 /**
  * Audit configuration for the MCP server
+ *
+ * Audits are stored against a lead, so either leadId or a url that
+ * matches an existing lead must be given.
  */
 export const AuditConfigSchema = z.object({
-  url: z.string().url(),
+  url: z.string().url().optional().describe("Website of an existing lead; not needed with leadId"),
   leadId: z.string().uuid().optional(),
+  campaignId: z
+    .string()
+    .uuid()
+    .optional()
+    .describe("Campaign the audit is pitched for; its audit throttling profile applies"),
   checkMobile: z.boolean().default(true),
   checkPerformance: z.boolean().default(true),
   checkAccessibility: z.boolean().default(true),
-  checkCoverage: z.boolean().default(true),
+  checkCoverage: z
+    .boolean()
+    .default(true)
+    .describe("Measure unused JavaScript and CSS during the performance analysis"),
+  checkSeo: z.boolean().default(true),
+  checkTechStack: z
+    .boolean()
+    .default(true)
+    .describe("Fingerprint the CMS, frameworks and libraries and flag outdated or vulnerable versions"),
   captureScreenshots: z.boolean().default(true),
   captureVideo: z.boolean().default(false),
-  viewports: z
-    .array(
-      z.object({
-        width: z.number().int().positive(),
-        height: z.number().int().positive(),
-        deviceName: z.string().optional(),
-        isMobile: z.boolean().default(false),
-      })
-    )
-    .default([
-      { width: 375, height: 812, deviceName: "iPhone X", isMobile: true },
-      { width: 1920, height: 1080, deviceName: "Desktop", isMobile: false },
-    ]),
+  captureLoadReport: z
+    .boolean()
+    .default(false)
+    .describe("Trace the load and store a filmstrip and request waterfall report when performance has pain points"),
   timeout: z.number().int().positive().default(30000),
+  throttlingProfile: ThrottlingProfileNameSchema.optional().describe(
+    "Network and CPU conditions for the performance numbers; defaults to the campaign's " +
+      "profile, or no throttling"
+  ),
+  performanceRuns: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .default(1)
+    .describe("Cold-cache performance runs; above 1, medians are reported and noisy metrics flagged"),
+  maxPages: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(1)
+    .describe("Pages audited per site; above 1, pages from the sitemap and internal links are crawled"),
+  analyzers: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe("Registered analyzers to run by name; defaults to every analyzer enabled by default"),
 });
 
 export type AuditConfig = z.output<typeof AuditConfigSchema>;
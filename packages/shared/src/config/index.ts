@@ -24,10 +24,53 @@ export const EnvConfigSchema = z.object({
   MAILGUN_API_KEY: z.string().min(1).optional().describe("Mailgun API key"),
   MAILGUN_DOMAIN: z.string().min(1).optional().describe("Mailgun domain"),
 
+  // Mail transport (Optional - local delivery for staging and CI)
+  MAIL_TRANSPORT: z
+    .enum(["mailgun", "smtp", "outbox"])
+    .default("mailgun")
+    .describe("Email delivery backend"),
+  SMTP_HOST: z.string().min(1).optional().describe("SMTP server host"),
+  SMTP_PORT: z.coerce.number().int().positive().optional().describe("SMTP server port"),
+  SMTP_SECURE: z
+    .string()
+    .transform((v) => v === "true")
+    .default("false")
+    .describe("Use implicit TLS for SMTP"),
+  SMTP_USER: z.string().min(1).optional().describe("SMTP username"),
+  SMTP_PASSWORD: z.string().min(1).optional().describe("SMTP password"),
+  MAIL_OUTBOX_DIR: z
+    .string()
+    .min(1)
+    .default("./outbox")
+    .describe("Maildir the outbox transport writes .eml files to"),
+
+  // Outreach sender identity
+  OUTREACH_FROM_EMAIL: z.string().email().optional().describe("Address campaign emails are sent from"),
+  OUTREACH_FROM_NAME: z.string().min(1).optional().describe("Display name for campaign emails"),
+  OUTREACH_REPLY_TO: z.string().email().optional().describe("Reply-To address for campaign emails"),
+
+  // Lead imports
+  LEAD_IMPORT_DIR: z
+    .string()
+    .min(1)
+    .default("./imports")
+    .describe("Directory the import_leads tool may read files from"),
+  LEAD_IMPORT_MAX_MB: z.coerce
+    .number()
+    .positive()
+    .default(100)
+    .describe("Largest file the import_leads tool reads, in megabytes"),
+
   // Google Calendar (Optional - for scheduling)
   GOOGLE_CLIENT_ID: z.string().min(1).optional().describe("Google OAuth client ID"),
   GOOGLE_CLIENT_SECRET: z.string().min(1).optional().describe("Google OAuth client secret"),
   GOOGLE_REFRESH_TOKEN: z.string().min(1).optional().describe("Google OAuth refresh token"),
+  BOOKING_BASE_URL: z.string().url().optional().describe("Base URL of the booking page"),
+  BOOKING_LINK_SECRET: z
+    .string()
+    .min(32)
+    .optional()
+    .describe("Secret used to sign booking links (shared with the booking page)"),
 
   // VAPI Voice AI (Optional - Phase 3)
   VAPI_API_KEY: z.string().min(1).optional().describe("VAPI.ai API key for voice calls"),
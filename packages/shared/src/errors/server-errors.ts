@@ -115,6 +115,18 @@ export class AuditFailedError extends AppError {
     });
   }
 
+  static forRobots(
+    url: string,
+    reason: string,
+    context?: Record<string, unknown>
+  ): AuditFailedError {
+    return new AuditFailedError(`Audit not allowed for ${url}: ${reason}`, {
+      url,
+      phase: "robots",
+      context,
+    });
+  }
+
   static forTimeout(url: string, timeoutMs: number): AuditFailedError {
     return new AuditFailedError(
       `Audit timed out after ${timeoutMs}ms for: ${url}`,
@@ -153,6 +153,8 @@ export class ErrorReporter {
       this.checkAlertThreshold();
       this.resetWindow();
     }, this.config.flushIntervalMs);
+    // Never keep short-lived processes (scripts, CI runs) alive
+    this.flushTimer.unref();
   }
 
   /**
@@ -272,7 +274,8 @@ export class ErrorReporter {
         console.warn("[WARN]", JSON.stringify(logData));
         break;
       default:
-        console.log("[INFO]", JSON.stringify(logData));
+        // Not stdout: stdio MCP servers use it for protocol messages
+        console.warn("[INFO]", JSON.stringify(logData));
     }
   }
 
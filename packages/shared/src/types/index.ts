@@ -16,6 +16,9 @@ export const PainPointTypeSchema = z.enum([
   "RENDER_BLOCKING",
   "LAYOUT_SHIFT",
   "CODE_BLOAT",
+  "OUTDATED_TECH",
+  /** Something the business's vertical expects is missing, e.g. online booking */
+  "MISSING_FEATURE",
 ]);
 
 export type PainPointType = z.infer<typeof PainPointTypeSchema>;
@@ -52,6 +55,13 @@ export const ContactStatusSchema = z.enum([
 
 export type ContactStatus = z.infer<typeof ContactStatusSchema>;
 
+/**
+ * Where a lead came from: a Maps search or an imported file
+ */
+export const LeadSourceSchema = z.enum(["google_maps", "csv", "geojson", "osm"]);
+
+export type LeadSource = z.infer<typeof LeadSourceSchema>;
+
 /**
  * Evidence types collected during audits
  */
@@ -76,6 +86,63 @@ export const EvidenceItemSchema = z.object({
 
 export type EvidenceItem = z.infer<typeof EvidenceItemSchema>;
 
+/**
+ * Where an email contact was found
+ */
+export const ContactSourceSchema = z.enum([
+  "mailto_link",
+  "json_ld",
+  "contact_page",
+  "footer",
+  "page_text",
+  "manual",
+]);
+
+export type ContactSource = z.infer<typeof ContactSourceSchema>;
+
+/**
+ * Verification state of an email contact
+ */
+export const ContactVerificationStatusSchema = z.enum([
+  "unverified",
+  "verified",
+  "invalid",
+]);
+
+export type ContactVerificationStatus = z.infer<
+  typeof ContactVerificationStatusSchema
+>;
+
+/**
+ * Email contact discovered for a lead
+ */
+export const EmailContactSchema = z.object({
+  address: z.string().email(),
+  source: ContactSourceSchema,
+  confidence: z.number().min(0).max(1),
+  verificationStatus: ContactVerificationStatusSchema.default("unverified"),
+  sourceUrl: z.string().url().optional(),
+  verifiedAt: z.string().datetime().optional(),
+});
+
+export type EmailContact = z.infer<typeof EmailContactSchema>;
+
+/**
+ * Address split into its parts
+ */
+export const AddressComponentsSchema = z.object({
+  /** Street line, with unit: "100 Congress Ave Ste 200" */
+  street: z.string().optional(),
+  city: z.string().optional(),
+  /** State, province or county as written, e.g. "TX" */
+  region: z.string().optional(),
+  postalCode: z.string().optional(),
+  /** ISO 3166-1 alpha-2 code */
+  country: z.string().length(2).optional(),
+});
+
+export type AddressComponents = z.infer<typeof AddressComponentsSchema>;
+
 /**
  * Lead profile - central data model
  */
@@ -91,6 +158,18 @@ export const LeadProfileSchema = z.object({
   reviewCount: z.number().int().nonnegative().optional(),
   businessCategory: z.string().optional(),
 
+  // Location
+  /** Google Maps place ID, or the import's own ID ("csv:...", "osm:node/1") */
+  placeId: z.string().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  addressComponents: AddressComponentsSchema.optional(),
+  /** IANA time zone at the coordinates, e.g. "America/Chicago" */
+  timezone: z.string().optional(),
+
+  // Contacts
+  contacts: z.array(EmailContactSchema).default([]),
+
   // Audit results
   painPoints: z.array(PainPointSchema).default([]),
   performanceScore: z.number().int().min(0).max(100).optional(),
@@ -110,6 +189,8 @@ export const LeadProfileSchema = z.object({
   discoveredAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
   sourceQuery: z.string().optional(),
+  source: LeadSourceSchema.optional(),
+  discoverySessionId: z.string().uuid().optional(),
 });
 
 export type LeadProfile = z.infer<typeof LeadProfileSchema>;
@@ -122,6 +203,7 @@ export const CreateLeadInputSchema = LeadProfileSchema.omit({
   discoveredAt: true,
   updatedAt: true,
 }).partial({
+  contacts: true,
   painPoints: true,
   evidenceUrls: true,
   contactStatus: true,
@@ -159,6 +241,7 @@ export const LeadFiltersSchema = z.object({
   maxPerformanceScore: z.number().min(0).max(100).optional(),
   categories: z.array(z.string()).optional(),
   sourceQuery: z.string().optional(),
+  sources: z.array(LeadSourceSchema).optional(),
   hasWebsite: z.boolean().optional(),
   hasPhone: z.boolean().optional(),
   mobileFriendly: z.boolean().optional(),
@@ -170,6 +253,111 @@ export const LeadFiltersSchema = z.object({
 
 export type LeadFilters = z.infer<typeof LeadFiltersSchema>;
 
+// ============================================
+// Discovery Jobs
+// ============================================
+
+/**
+ * Lifecycle of a discovery run in the discovery_sessions table
+ */
+export const DiscoveryJobStatusSchema = z.enum([
+  "pending",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+]);
+
+export type DiscoveryJobStatus = z.infer<typeof DiscoveryJobStatusSchema>;
+
+/**
+ * Stages of the discovery pipeline
+ */
+export const DiscoveryStageSchema = z.enum([
+  "scraping",
+  "extracting",
+  "qualifying",
+  "deduplicating",
+  "saving",
+  "complete",
+  "error",
+]);
+
+export type DiscoveryStage = z.infer<typeof DiscoveryStageSchema>;
+
+/**
+ * Latest progress update of a discovery run
+ */
+export const DiscoveryProgressSchema = z.object({
+  stage: DiscoveryStageSchema,
+  message: z.string(),
+  current: z.number().int().nonnegative(),
+  total: z.number().int().nonnegative(),
+  percentage: z.number().min(0).max(100),
+});
+
+export type DiscoveryProgress = z.infer<typeof DiscoveryProgressSchema>;
+
+/**
+ * Where an interrupted discovery run picks up again
+ *
+ * Maps results can't be opened mid-scroll, so a resumed run scrolls
+ * the search again and skips the places already processed.
+ */
+export const DiscoveryCheckpointSchema = z.object({
+  /** Scroll batches whose businesses were qualified and saved */
+  batchesCompleted: z.number().int().nonnegative().default(0),
+  /** Google place IDs already processed */
+  processedPlaceIds: z.array(z.string()).default([]),
+});
+
+export type DiscoveryCheckpoint = z.infer<typeof DiscoveryCheckpointSchema>;
+
+/**
+ * Running totals of a discovery run
+ */
+export const DiscoveryJobStatsSchema = z.object({
+  found: z.number().int().nonnegative().default(0),
+  extracted: z.number().int().nonnegative().default(0),
+  qualified: z.number().int().nonnegative().default(0),
+  saved: z.number().int().nonnegative().default(0),
+  duplicates: z.number().int().nonnegative().default(0),
+  errors: z.number().int().nonnegative().default(0),
+});
+
+export type DiscoveryJobStats = z.infer<typeof DiscoveryJobStatsSchema>;
+
+/**
+ * A discovery run kept in discovery_sessions
+ */
+export const DiscoveryJobSchema = z.object({
+  id: z.string().uuid(),
+
+  // Search criteria
+  query: z.string().min(1),
+  location: z.string(),
+  category: z.string().optional(),
+  radiusMiles: z.number().int().positive().optional(),
+  maxResults: z.number().int().positive().optional(),
+
+  // Progress
+  status: DiscoveryJobStatusSchema.default("pending"),
+  progress: DiscoveryProgressSchema.optional(),
+  checkpoint: DiscoveryCheckpointSchema.default({}),
+  stats: DiscoveryJobStatsSchema.default({}),
+  /** Times the run was started, resumes included */
+  attempts: z.number().int().nonnegative().default(0),
+  error: z.string().optional(),
+
+  // Timestamps
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  startedAt: z.string().datetime().optional(),
+  completedAt: z.string().datetime().optional(),
+});
+
+export type DiscoveryJob = z.infer<typeof DiscoveryJobSchema>;
+
 // ============================================
 // Audit Types
 // ============================================
@@ -198,6 +386,8 @@ export const WCAGViolationSchema = z.object({
   recommendation: z.string(),
   wcagCriteria: z.string().optional(),
   impact: z.string().optional(),
+  // Page the violation was found on (site crawls)
+  pageUrl: z.string().optional(),
 });
 
 export type WCAGViolation = z.infer<typeof WCAGViolationSchema>;
@@ -219,10 +409,65 @@ export const ResponsiveIssueSchema = z.object({
   viewportWidth: z.number().int().optional(),
   actualWidth: z.number().int().optional(),
   recommendation: z.string(),
+  // Page the issue was found on (site crawls)
+  pageUrl: z.string().optional(),
 });
 
 export type ResponsiveIssue = z.infer<typeof ResponsiveIssueSchema>;
 
+/**
+ * SEO and site hygiene issue types
+ */
+export const SeoIssueTypeSchema = z.enum([
+  "MISSING_TITLE",
+  "TITLE_LENGTH",
+  "MISSING_META_DESCRIPTION",
+  "META_DESCRIPTION_LENGTH",
+  "MISSING_OPEN_GRAPH",
+  "MISSING_CANONICAL",
+  "CANONICAL_OFF_SITE",
+  "NOINDEX",
+  "BROKEN_LINK",
+  "LARGE_IMAGE",
+  "NO_HTTPS",
+  "NO_HTTPS_REDIRECT",
+  "MIXED_CONTENT",
+]);
+
+export type SeoIssueType = z.infer<typeof SeoIssueTypeSchema>;
+
+/**
+ * SEO or site hygiene issue found during audit
+ */
+export const SeoIssueSchema = z.object({
+  type: SeoIssueTypeSchema,
+  severity: SeveritySchema,
+  description: z.string(),
+  elementSelector: z.string().optional(),
+  // Link, image or resource the issue is about
+  resourceUrl: z.string().optional(),
+  recommendation: z.string(),
+  // Bytes saved by fixing the issue (images)
+  potentialSavingsBytes: z.number().int().nonnegative().optional(),
+  // Page the issue was found on (site crawls)
+  pageUrl: z.string().optional(),
+});
+
+export type SeoIssue = z.infer<typeof SeoIssueSchema>;
+
+/**
+ * Named network and CPU conditions for performance analysis
+ */
+export const ThrottlingProfileNameSchema = z.enum([
+  "none",
+  "slow-3g",
+  "fast-3g",
+  "slow-4g",
+  "desktop-cable",
+]);
+
+export type ThrottlingProfileName = z.infer<typeof ThrottlingProfileNameSchema>;
+
 /**
  * Core Web Vitals and performance metrics
  */
@@ -253,10 +498,147 @@ export const PerformanceMetricsSchema = z.object({
   accessibilityScore: z.number().int().min(0).max(100).optional(),
   bestPracticesScore: z.number().int().min(0).max(100).optional(),
   seoScore: z.number().int().min(0).max(100).optional(),
+
+  // Network and CPU throttling profile the metrics were measured under
+  throttlingProfile: z.string().optional(),
+  // Runs the vitals are medians of, and metrics too noisy to quote
+  sampledRuns: z.number().int().positive().optional(),
+  unstableMetrics: z.array(z.string()).optional(),
 });
 
 export type PerformanceMetrics = z.infer<typeof PerformanceMetricsSchema>;
 
+/**
+ * robots.txt decision recorded for an audited URL
+ */
+export const RobotsDecisionSchema = z.object({
+  url: z.string().url(),
+  allowed: z.boolean(),
+  // False when robots.txt checks are turned off
+  enforced: z.boolean(),
+  // Rule that disallowed the URL ("Disallow: /private")
+  matchedRule: z.string().optional(),
+  crawlDelayMs: z.number().nonnegative().optional(),
+  checkedAt: z.string().datetime(),
+  reason: z.string(),
+});
+
+export type RobotsDecision = z.infer<typeof RobotsDecisionSchema>;
+
+/**
+ * How a crawled page was found
+ */
+export const CrawlSourceSchema = z.enum(["entry", "sitemap", "link"]);
+
+export type CrawlSource = z.infer<typeof CrawlSourceSchema>;
+
+/**
+ * Audit breakdown for a single page of a site crawl
+ */
+export const CrawledPageSchema = z.object({
+  url: z.string().url(),
+  source: CrawlSourceSchema,
+  // Average of the page's category scores
+  score: z.number().int().min(0).max(100).optional(),
+  performanceScore: z.number().int().min(0).max(100).optional(),
+  accessibilityScore: z.number().int().min(0).max(100).optional(),
+  seoScore: z.number().int().min(0).max(100).optional(),
+  mobileFriendly: z.boolean().optional(),
+  wcagViolationCount: z.number().int().nonnegative().default(0),
+  responsiveIssueCount: z.number().int().nonnegative().default(0),
+  seoIssueCount: z.number().int().nonnegative().default(0),
+  painPoints: z.array(PainPointSchema).default([]),
+  durationMs: z.number().int().optional(),
+  error: z.string().optional(),
+});
+
+export type CrawledPage = z.infer<typeof CrawledPageSchema>;
+
+/**
+ * Site-level crawl summary for a multi-page audit
+ */
+export const SiteCrawlSchema = z.object({
+  pagesDiscovered: z.number().int().nonnegative(),
+  pagesAudited: z.number().int().nonnegative(),
+  pages: z.array(CrawledPageSchema).default([]),
+  // Pages found but not audited (disallowed by robots.txt)
+  skippedPages: z
+    .array(z.object({ url: z.string().url(), reason: z.string() }))
+    .default([]),
+  // Lowest-scoring page and its most severe pain point
+  worstPage: z
+    .object({
+      url: z.string().url(),
+      score: z.number().int().min(0).max(100),
+      reason: z.string(),
+    })
+    .optional(),
+});
+
+export type SiteCrawl = z.infer<typeof SiteCrawlSchema>;
+
+/**
+ * Kinds of technology recognized by tech stack fingerprinting
+ */
+export const TechCategorySchema = z.enum([
+  "cms",
+  "site-builder",
+  "page-builder",
+  "ecommerce",
+  "framework",
+  "library",
+  "analytics",
+  "hosting",
+  "cdn",
+  "server",
+]);
+
+export type TechCategory = z.infer<typeof TechCategorySchema>;
+
+/**
+ * Technology identified on an audited site
+ */
+export const DetectedTechnologySchema = z.object({
+  name: z.string(),
+  category: TechCategorySchema,
+  version: z.string().optional(),
+  // What gave it away ("meta generator: WordPress 5.8.1")
+  evidence: z.array(z.string()).default([]),
+  // Past end of life or older than the oldest maintained release
+  outdated: z.boolean().default(false),
+  outdatedReason: z.string().optional(),
+});
+
+export type DetectedTechnology = z.infer<typeof DetectedTechnologySchema>;
+
+/**
+ * Known vulnerability affecting a detected technology version
+ */
+export const TechVulnerabilitySchema = z.object({
+  // CVE identifier
+  id: z.string(),
+  technology: z.string(),
+  version: z.string(),
+  severity: SeveritySchema,
+  summary: z.string(),
+  // First release with the fix; absent when none was ever released
+  fixedIn: z.string().optional(),
+});
+
+export type TechVulnerability = z.infer<typeof TechVulnerabilitySchema>;
+
+/**
+ * Technology stack fingerprint of an audited site
+ */
+export const TechStackSchema = z.object({
+  technologies: z.array(DetectedTechnologySchema).default([]),
+  vulnerabilities: z.array(TechVulnerabilitySchema).default([]),
+  // Version of the bundled signature database used
+  signatureVersion: z.string(),
+});
+
+export type TechStack = z.infer<typeof TechStackSchema>;
+
 /**
  * Complete audit result for a website
  */
@@ -286,9 +668,21 @@ export const AuditResultSchema = z.object({
     )
     .default([]),
 
+  // SEO and hygiene
+  seoIssues: z.array(SeoIssueSchema).default([]),
+
+  // Technology stack
+  techStack: TechStackSchema.optional(),
+
   // Pain points summary
   painPoints: z.array(PainPointSchema).default([]),
 
+  // Per-page breakdown when the audit crawled several pages
+  crawl: SiteCrawlSchema.optional(),
+
+  // robots.txt decision for the audited URL
+  robots: RobotsDecisionSchema.optional(),
+
   // Evidence
   evidence: z.array(EvidenceItemSchema).default([]),
 
@@ -348,6 +742,37 @@ export const EmailTemplateSchema = z.object({
 
 export type EmailTemplate = z.infer<typeof EmailTemplateSchema>;
 
+/**
+ * Weighted template variant of a sequence step (A/B and multivariate tests)
+ */
+export const SequenceVariantSchema = z.object({
+  /** Short label such as "A" - sent as a Mailgun tag, so tag-safe characters only */
+  id: z
+    .string()
+    .min(1)
+    .max(32)
+    .regex(/^[A-Za-z0-9_-]+$/),
+  templateId: z.string().uuid(),
+  templateVersion: z.number().int().positive().optional(),
+  /** Relative share of traffic */
+  weight: z.number().positive().default(1),
+});
+
+export type SequenceVariant = z.infer<typeof SequenceVariantSchema>;
+
+/**
+ * Automatic winner selection for a variant test
+ */
+export const AutoWinnerConfigSchema = z.object({
+  metric: z.enum(["open", "click", "reply"]).default("open"),
+  /** Sends every variant needs before a winner can be declared */
+  minSendsPerVariant: z.number().int().positive().default(100),
+  /** One-sided confidence that the leader beats every other variant */
+  confidence: z.number().min(0.5).max(0.999).default(0.95),
+});
+
+export type AutoWinnerConfig = z.infer<typeof AutoWinnerConfigSchema>;
+
 /**
  * Step in an email sequence
  */
@@ -356,10 +781,24 @@ export const EmailSequenceStepSchema = z.object({
   delayDays: z.number().int().nonnegative(),
   delayHours: z.number().int().nonnegative().default(0),
   templateId: z.string().uuid(),
+  /** Template version pinned when the campaign was launched */
+  templateVersion: z.number().int().positive().optional(),
   sendCondition: SendConditionSchema.default("always"),
   sendTimePreference: z
     .enum(["morning", "afternoon", "evening", "any"])
     .default("any"),
+
+  // Variant testing - when set, variants replace templateId
+  variants: z
+    .array(SequenceVariantSchema)
+    .min(2)
+    .refine((variants) => new Set(variants.map((v) => v.id)).size === variants.length, {
+      message: "Variant IDs must be unique within a step",
+    })
+    .optional(),
+  autoWinner: AutoWinnerConfigSchema.optional(),
+  /** Set once a winner is chosen; all further sends use this variant */
+  winnerVariantId: z.string().optional(),
 });
 
 export type EmailSequenceStep = z.infer<typeof EmailSequenceStepSchema>;
@@ -387,6 +826,9 @@ export const CampaignConfigSchema = z.object({
   trackOpens: z.boolean().default(true),
   trackClicks: z.boolean().default(true),
 
+  // Network and CPU conditions the pitch's performance numbers are measured under
+  auditThrottlingProfile: ThrottlingProfileNameSchema.optional(),
+
   // Stats
   totalLeads: z.number().int().nonnegative().default(0),
   emailsSent: z.number().int().nonnegative().default(0),
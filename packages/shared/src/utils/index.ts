@@ -1,3 +1,5 @@
+import type { EmailContact } from "../types/index.js";
+
 /**
  * Generate a UUID v4
  */
@@ -94,3 +96,16 @@ export function formatDuration(ms: number): string {
   if (ms < 3600000) return `${(ms / 60000).toFixed(1)}m`;
   return `${(ms / 3600000).toFixed(1)}h`;
 }
+
+/**
+ * Get the highest-confidence verified email address from a lead's contacts
+ */
+export function getVerifiedContactEmail(
+  contacts: EmailContact[]
+): string | undefined {
+  const verified = contacts
+    .filter((c) => c.verificationStatus === "verified")
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return verified[0]?.address;
+}
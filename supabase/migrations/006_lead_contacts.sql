@@ -0,0 +1,17 @@
+-- ============================================
+-- Lead Contacts
+-- Email contacts discovered for each lead
+-- ============================================
+
+ALTER TABLE lead_profiles
+  ADD COLUMN IF NOT EXISTS contacts JSONB DEFAULT '[]';
+  -- Example: [
+  --   {"address": "info@example.com", "source": "mailto_link", "confidence": 0.9,
+  --    "verificationStatus": "verified", "sourceUrl": "https://example.com/contact"}
+  -- ]
+
+-- Index for finding leads with a verified email contact
+CREATE INDEX IF NOT EXISTS idx_lead_profiles_contacts
+ON lead_profiles USING gin(contacts jsonb_path_ops);
+
+COMMENT ON COLUMN lead_profiles.contacts IS 'Email contacts with source, confidence and verification state';
@@ -0,0 +1,58 @@
+-- ============================================
+-- Email Queue
+-- Sends waiting for a retry, kept across restarts of the outreach server
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS email_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- A deleted lead or campaign takes its unsent emails with it
+  lead_id UUID REFERENCES lead_profiles(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE,
+
+  -- The rendered email
+  to_address TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  text_body TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  tracking JSONB,
+  -- Example: {"opens": true, "clicks": true}
+  metadata JSONB,
+  -- Example: {"stepNumber": 1, "templateId": "...", "templateVersion": 2, "variantId": "b"}
+
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending', 'processing', 'sent', 'failed', 'bounced', 'permanent_failure'
+  )),
+  retry_count INTEGER NOT NULL DEFAULT 0 CHECK (retry_count >= 0),
+  max_retries INTEGER NOT NULL DEFAULT 3 CHECK (max_retries >= 0),
+  last_attempt_at TIMESTAMPTZ,
+  next_retry_at TIMESTAMPTZ,
+  last_error TEXT,
+  message_id TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_queue_status ON email_queue(status, next_retry_at);
+CREATE INDEX IF NOT EXISTS idx_email_queue_lead ON email_queue(lead_id);
+CREATE INDEX IF NOT EXISTS idx_email_queue_created ON email_queue(created_at);
+
+CREATE TRIGGER update_email_queue_updated_at
+  BEFORE UPDATE ON email_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE email_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for authenticated users" ON email_queue
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE email_queue IS 'Outgoing emails and their retry state';
+COMMENT ON COLUMN email_queue.metadata IS 'Caller data, e.g. the campaign step, used to finish the send once a retry delivers it';
+COMMENT ON COLUMN email_queue.message_id IS 'Provider message ID once sent';
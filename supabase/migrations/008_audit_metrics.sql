@@ -0,0 +1,20 @@
+-- ============================================
+-- Audit Metrics
+-- Full metric set and tested viewports for each audit
+-- ============================================
+
+-- The typed columns cover Core Web Vitals and Lighthouse scores only;
+-- load timings and resource counts are kept alongside them
+ALTER TABLE audits
+  ADD COLUMN IF NOT EXISTS metrics JSONB DEFAULT '{}';
+  -- Example: {"loadComplete": 4200, "domContentLoaded": 1800, "totalRequests": 86}
+
+ALTER TABLE audits
+  ADD COLUMN IF NOT EXISTS tested_viewports JSONB DEFAULT '[]';
+  -- Example: [{"width": 375, "height": 667, "deviceName": "iPhone SE"}]
+
+-- Index for loading the latest audit of a lead
+CREATE INDEX IF NOT EXISTS idx_audit_lead_date ON audits(lead_id, audited_at DESC);
+
+COMMENT ON COLUMN audits.metrics IS 'Complete PerformanceMetrics captured during the audit';
+COMMENT ON COLUMN audits.tested_viewports IS 'Viewports the responsive checks ran against';
@@ -0,0 +1,7 @@
+-- ============================================
+-- Email Queue Reply-To
+-- Queued emails keep the sender's Reply-To address for their retries
+-- ============================================
+
+ALTER TABLE email_queue
+  ADD COLUMN IF NOT EXISTS reply_to TEXT;
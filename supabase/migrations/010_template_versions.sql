@@ -0,0 +1,50 @@
+-- ============================================
+-- Template Versions
+-- Every template save creates an immutable version
+-- ============================================
+
+ALTER TABLE email_templates
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS category TEXT DEFAULT 'custom'
+    CHECK (category IN ('initial_outreach', 'followup', 'custom')),
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE email_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES email_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+
+  -- Snapshot of the template at this version
+  name TEXT NOT NULL,
+  description TEXT,
+  category TEXT DEFAULT 'custom',
+  subject TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  text_body TEXT,
+  variables TEXT[] DEFAULT '{}',
+
+  -- Why this version was created (e.g. "Rolled back to version 2")
+  change_note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE email_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for authenticated users" ON email_template_versions
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Backfill version 1 for templates created before versioning
+INSERT INTO email_template_versions (
+  template_id, version, name, subject, html_body, text_body, variables, created_at
+)
+SELECT id, 1, name, subject, html_body, text_body, variables, updated_at
+FROM email_templates
+ON CONFLICT (template_id, version) DO NOTHING;
+
+COMMENT ON TABLE email_template_versions IS 'Immutable history of email template edits';
+COMMENT ON COLUMN email_templates.current_version IS 'Version served to new campaigns';
@@ -0,0 +1,13 @@
+-- ============================================
+-- Email Event Variants
+-- Records which A/B variant of a sequence step each event belongs to
+-- ============================================
+
+ALTER TABLE email_events
+  ADD COLUMN IF NOT EXISTS variant_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_email_event_variant
+  ON email_events(campaign_id, sequence_step, variant_id)
+  WHERE variant_id IS NOT NULL;
+
+COMMENT ON COLUMN email_events.variant_id IS 'Sequence step variant the email was sent with';
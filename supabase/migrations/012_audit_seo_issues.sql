@@ -0,0 +1,10 @@
+-- ============================================
+-- Audit SEO Issues
+-- SEO and site hygiene findings for each audit
+-- ============================================
+
+ALTER TABLE audits
+  ADD COLUMN IF NOT EXISTS seo_issues JSONB DEFAULT '[]';
+  -- Example: [{"type": "BROKEN_LINK", "severity": "HIGH", "elementSelector": "nav > a:nth-of-type(3)", "resourceUrl": "https://example.com/old-page"}]
+
+COMMENT ON COLUMN audits.seo_issues IS 'Meta tag, link, image and HTTPS issues with evidence selectors';
@@ -0,0 +1,10 @@
+-- ============================================
+-- Audit Site Crawl
+-- Per-page breakdown for audits that crawl several pages of a site
+-- ============================================
+
+ALTER TABLE audits
+  ADD COLUMN IF NOT EXISTS crawl JSONB;
+  -- Example: {"pagesDiscovered": 6, "pagesAudited": 6, "pages": [...], "worstPage": {"url": "https://example.com/contact", "score": 38, "reason": "Page load time exceeds 8 seconds"}}
+
+COMMENT ON COLUMN audits.crawl IS 'Pages audited in a site crawl with per-page scores and the worst page; null for single-page audits';
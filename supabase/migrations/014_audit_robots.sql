@@ -0,0 +1,10 @@
+-- ============================================
+-- Audit robots.txt Decision
+-- Records whether robots.txt allowed each audit, for compliance
+-- ============================================
+
+ALTER TABLE audits
+  ADD COLUMN IF NOT EXISTS robots JSONB;
+  -- Example: {"url": "https://example.com/", "allowed": true, "enforced": true, "crawlDelayMs": 2000, "checkedAt": "2026-01-15T10:00:00.000Z", "reason": "Allowed by robots.txt"}
+
+COMMENT ON COLUMN audits.robots IS 'robots.txt decision (allowed, matched rule, crawl-delay) checked before navigating';
@@ -0,0 +1,11 @@
+-- ============================================
+-- Audit Tech Stack
+-- Stores the fingerprinted CMS, frameworks and libraries of each
+-- audited site, with outdated versions and known vulnerabilities
+-- ============================================
+
+ALTER TABLE audits
+  ADD COLUMN IF NOT EXISTS tech_stack JSONB;
+  -- Example: {"technologies": [{"name": "WordPress", "category": "cms", "version": "5.8.1", "evidence": ["meta generator: WordPress 5.8.1"], "outdated": true, "outdatedReason": "WordPress 5.8.1 is older than 6.0"}], "vulnerabilities": [{"id": "CVE-2020-11022", "technology": "jQuery", "version": "1.12.4", "severity": "MEDIUM", "summary": "Cross-site scripting when untrusted HTML is passed to DOM manipulation methods", "fixedIn": "3.5.0"}], "signatureVersion": "2026.10"}
+
+COMMENT ON COLUMN audits.tech_stack IS 'Detected technologies, outdated versions and known vulnerabilities from the bundled signature database';
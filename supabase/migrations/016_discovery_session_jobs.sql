@@ -0,0 +1,30 @@
+-- ============================================
+-- Discovery Session Jobs
+-- Runs discovery as a durable background job: progress is streamed
+-- into the session row and each saved scroll batch is checkpointed
+-- so an interrupted run can resume
+-- ============================================
+
+ALTER TABLE discovery_sessions
+  ADD COLUMN IF NOT EXISTS max_results INTEGER,
+  ADD COLUMN IF NOT EXISTS progress JSONB,
+  -- Example: {"stage": "saving", "message": "Batch 3: saved 4 leads", "current": 36, "total": 100, "percentage": 36}
+  ADD COLUMN IF NOT EXISTS checkpoint JSONB NOT NULL DEFAULT '{"batchesCompleted": 0, "processedPlaceIds": []}',
+  ADD COLUMN IF NOT EXISTS stats JSONB NOT NULL DEFAULT '{}',
+  -- Example: {"found": 36, "extracted": 35, "qualified": 14, "saved": 11, "duplicates": 3, "errors": 1}
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+COMMENT ON COLUMN discovery_sessions.location IS 'Search location; jobs store the free-text location as {"text": "Austin, TX"}';
+COMMENT ON COLUMN discovery_sessions.checkpoint IS 'Scroll batches completed and place IDs processed, skipped when the run resumes';
+COMMENT ON COLUMN discovery_sessions.updated_at IS 'Last progress write; running sessions that stop updating were interrupted';
+
+CREATE TRIGGER update_discovery_sessions_updated_at
+  BEFORE UPDATE ON discovery_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Finding interrupted runs to resume
+CREATE INDEX IF NOT EXISTS idx_discovery_status_updated
+  ON discovery_sessions(status, updated_at)
+  WHERE status IN ('pending', 'running');
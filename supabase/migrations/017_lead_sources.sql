@@ -0,0 +1,13 @@
+-- ============================================
+-- Lead Sources
+-- Records where each lead came from: a Google Maps search or an
+-- imported CSV, GeoJSON or OpenStreetMap file
+-- ============================================
+
+ALTER TABLE lead_profiles
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'google_maps'
+    CHECK (source IN ('google_maps', 'csv', 'geojson', 'osm'));
+
+COMMENT ON COLUMN lead_profiles.source IS 'Lead source; source_query holds the search or the imported file name';
+
+CREATE INDEX IF NOT EXISTS idx_lead_source ON lead_profiles(source);
@@ -0,0 +1,91 @@
+-- ============================================
+-- Lead Entity Resolution
+-- Match keys for finding the same business across discovery sessions,
+-- a review queue for uncertain matches and a log of merged leads
+-- ============================================
+
+-- Match keys, kept in step with website_url and phone_number
+ALTER TABLE lead_profiles
+  ADD COLUMN IF NOT EXISTS website_host TEXT GENERATED ALWAYS AS (
+    NULLIF(
+      regexp_replace(
+        lower(substring(website_url FROM '^[A-Za-z][A-Za-z0-9+.-]*://([^/:?#]+)')),
+        '^www\.', ''
+      ),
+      ''
+    )
+  ) STORED,
+  ADD COLUMN IF NOT EXISTS phone_digits TEXT GENERATED ALWAYS AS (
+    NULLIF(right(regexp_replace(phone_number, '[^0-9]', '', 'g'), 10), '')
+  ) STORED;
+
+COMMENT ON COLUMN lead_profiles.website_host IS 'Lower-case website host without www., for matching leads by domain';
+COMMENT ON COLUMN lead_profiles.phone_digits IS 'Last 10 digits of the phone number, for matching leads by phone';
+
+CREATE INDEX IF NOT EXISTS idx_lead_website_host ON lead_profiles(website_host);
+CREATE INDEX IF NOT EXISTS idx_lead_phone_digits ON lead_profiles(phone_digits);
+
+-- ============================================
+-- Match Review Queue
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS lead_match_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- The pair, stored with lead_id < candidate_lead_id
+  lead_id UUID NOT NULL REFERENCES lead_profiles(id) ON DELETE CASCADE,
+  candidate_lead_id UUID NOT NULL REFERENCES lead_profiles(id) ON DELETE CASCADE,
+
+  confidence NUMERIC(4,3) NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  signals JSONB NOT NULL DEFAULT '{}',
+  -- Example: {"nameSimilarity": 0.93, "domain": "match", "phone": "missing", "address": "conflict", "postalCode": "match", "distanceMeters": null}
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Approved reviews merge the pair, which deletes the row with the merged lead
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'rejected')),
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(lead_id, candidate_lead_id),
+  CHECK (lead_id < candidate_lead_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_review_status ON lead_match_reviews(status, confidence DESC);
+CREATE INDEX IF NOT EXISTS idx_match_review_candidate ON lead_match_reviews(candidate_lead_id);
+
+CREATE TRIGGER update_lead_match_reviews_updated_at
+  BEFORE UPDATE ON lead_match_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE lead_match_reviews IS 'Possible duplicate leads waiting for a person to merge or reject them';
+COMMENT ON COLUMN lead_match_reviews.status IS 'pending until resolved; rejected pairs are not queued again';
+
+-- ============================================
+-- Merge Log
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS lead_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  primary_lead_id UUID NOT NULL REFERENCES lead_profiles(id) ON DELETE CASCADE,
+
+  -- The merged lead no longer exists; its row is kept as a snapshot
+  merged_lead_id UUID NOT NULL,
+  merged_lead JSONB NOT NULL,
+
+  confidence NUMERIC(4,3),
+  signals JSONB,
+  -- Rows moved to the primary lead per table
+  -- Example: {"audits": 2, "status_history": 3, "email_events": 5, "email_unsubscribes": 0, "campaign_leads": 1}
+  relinked JSONB NOT NULL DEFAULT '{}',
+  merged_by TEXT,
+  merged_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_merge_primary ON lead_merges(primary_lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_merge_merged ON lead_merges(merged_lead_id);
+
+COMMENT ON TABLE lead_merges IS 'Leads merged into another lead as the same business, with the merged row as it was';
@@ -0,0 +1,31 @@
+-- ============================================
+-- Lead Locations
+-- Stores the Maps place ID, coordinates, address parts and time zone
+-- of each lead, for deduplication, territories, send times and maps
+-- ============================================
+
+ALTER TABLE lead_profiles
+  ADD COLUMN IF NOT EXISTS place_id TEXT,
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD COLUMN IF NOT EXISTS address_street TEXT,
+  ADD COLUMN IF NOT EXISTS address_city TEXT,
+  ADD COLUMN IF NOT EXISTS address_region TEXT,
+  ADD COLUMN IF NOT EXISTS address_postal_code TEXT,
+  ADD COLUMN IF NOT EXISTS address_country CHAR(2),
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN lead_profiles.place_id IS 'Google Maps place ID, or the import''s own ID (csv:..., osm:node/123)';
+COMMENT ON COLUMN lead_profiles.address_region IS 'State, province or county as written in the address, e.g. TX';
+COMMENT ON COLUMN lead_profiles.address_country IS 'ISO 3166-1 alpha-2 country code';
+COMMENT ON COLUMN lead_profiles.timezone IS 'IANA time zone at the coordinates, from an offline boundary lookup';
+
+-- Matching a lead by place, and nearby leads by bounding box
+CREATE INDEX IF NOT EXISTS idx_lead_place_id ON lead_profiles(place_id);
+CREATE INDEX IF NOT EXISTS idx_lead_coordinates ON lead_profiles(latitude, longitude)
+  WHERE latitude IS NOT NULL;
+
+-- Territory and send-time queries
+CREATE INDEX IF NOT EXISTS idx_lead_region_city ON lead_profiles(address_country, address_region, address_city);
+CREATE INDEX IF NOT EXISTS idx_lead_postal_code ON lead_profiles(address_postal_code);
+CREATE INDEX IF NOT EXISTS idx_lead_timezone ON lead_profiles(timezone);
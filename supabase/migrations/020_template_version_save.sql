@@ -0,0 +1,58 @@
+-- ============================================
+-- Atomic Template Saves
+-- Bumping current_version and inserting the version row in separate
+-- requests let concurrent saves race for the same version number
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_email_template_version(
+  p_template_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_category TEXT,
+  p_subject TEXT,
+  p_html_body TEXT,
+  p_text_body TEXT,
+  p_variables TEXT[],
+  p_change_note TEXT
+)
+RETURNS email_templates AS $$
+DECLARE
+  saved email_templates;
+BEGIN
+  -- The upsert locks the template row, so concurrent saves take turns
+  INSERT INTO email_templates (
+    id, name, description, category, subject, html_body, text_body, variables,
+    current_version, is_active
+  )
+  VALUES (
+    p_template_id, p_name, p_description, p_category, p_subject, p_html_body, p_text_body,
+    COALESCE(p_variables, '{}'), 1, true
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    subject = EXCLUDED.subject,
+    html_body = EXCLUDED.html_body,
+    text_body = EXCLUDED.text_body,
+    variables = EXCLUDED.variables,
+    current_version = email_templates.current_version + 1,
+    -- Deactivated templates keep their history and come back on save
+    is_active = true,
+    updated_at = NOW()
+  RETURNING * INTO saved;
+
+  INSERT INTO email_template_versions (
+    template_id, version, name, description, category, subject, html_body, text_body,
+    variables, change_note
+  )
+  VALUES (
+    saved.id, saved.current_version, saved.name, saved.description, saved.category,
+    saved.subject, saved.html_body, saved.text_body, saved.variables, p_change_note
+  );
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION save_email_template_version IS 'Save a template as its next version in one transaction';
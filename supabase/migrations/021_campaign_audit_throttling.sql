@@ -0,0 +1,10 @@
+-- ============================================
+-- Campaign Audit Throttling
+-- Network and CPU conditions the pitch's performance numbers are measured under
+-- ============================================
+
+ALTER TABLE campaigns
+  ADD COLUMN IF NOT EXISTS audit_throttling_profile TEXT
+    CHECK (audit_throttling_profile IN ('none', 'slow-3g', 'fast-3g', 'slow-4g', 'desktop-cable'));
+
+COMMENT ON COLUMN campaigns.audit_throttling_profile IS 'Throttling profile for audits run for this campaign; none when NULL';